@@ -1,7 +1,7 @@
 /**
  * Base (Coinbase L2) Blockchain Adapter
  *
- * Implements the BlockchainAdapter interface for Base by extending EthereumAdapter.
+ * Implements the BlockchainAdapter interface for Base via the generic EvmAdapter.
  * Base is an Ethereum L2 built on the OP Stack, so it's fully EVM-compatible.
  *
  * Key differences from Ethereum:
@@ -14,24 +14,20 @@
  * All other operations (ERC-20, ERC-721, contracts) work identically to Ethereum.
  */
 
-import { EthereumAdapter } from './EthereumAdapter'
-import {
-  BlockchainConfiguration,
-  SupportedChain,
-} from '../core/types'
-import { CHAIN_CAPABILITIES, CHAIN_METADATA } from '../core/ChainCapabilities'
+import { EvmAdapter } from './EvmAdapter'
+import { BlockchainConfiguration } from '../core/types'
+import { EVM_CHAIN_DESCRIPTORS } from '../core/EvmChains'
 
 /**
  * Base Blockchain Adapter
  *
- * Extends EthereumAdapter with Base-specific configuration.
+ * EvmAdapter preconfigured with the Base descriptor.
  * All ERC-20, ERC-721, and smart contract operations are inherited.
  */
-export class BaseAdapter extends EthereumAdapter {
-  // Override metadata for Base
-  readonly chainId: SupportedChain = 'base'
-  readonly name: string = 'Base'
-  readonly capabilities = CHAIN_CAPABILITIES.base
+export class BaseAdapter extends EvmAdapter {
+  constructor() {
+    super(EVM_CHAIN_DESCRIPTORS.base!)
+  }
 
   /**
    * Override initialize to log Base-specific message.
@@ -45,49 +41,4 @@ export class BaseAdapter extends EthereumAdapter {
       `BaseAdapter initialized for ${this.network} with address ${this.operatorAddress}`
     )
   }
-
-  /**
-   * Get RPC URL for Base network.
-   * Overrides EthereumAdapter to use Base-specific endpoints.
-   */
-  protected getRpcUrl(config: BlockchainConfiguration): string {
-    // Use custom RPC URL if provided
-    if (config.rpcUrl) {
-      return config.rpcUrl
-    }
-
-    // Use chainId-specific URL from customConfig
-    if (config.customConfig?.rpcUrl) {
-      return config.customConfig.rpcUrl
-    }
-
-    // Default Base RPC URLs (free public endpoints)
-    if (this.network === 'mainnet') {
-      return 'https://mainnet.base.org'
-    }
-    return 'https://sepolia.base.org' // Base Sepolia testnet
-  }
-
-  /**
-   * Get expected chain ID for Base network.
-   * Overrides EthereumAdapter to use Base chain IDs.
-   */
-  protected getExpectedChainId(): number {
-    const metadata = CHAIN_METADATA.base
-    if (this.network === 'mainnet') {
-      return metadata.chainId?.mainnet as number || 8453
-    }
-    return metadata.chainId?.testnet as number || 84532 // Base Sepolia
-  }
-
-  /**
-   * Get block explorer URL for a transaction.
-   * Overrides EthereumAdapter to use Basescan.
-   */
-  getExplorerUrl(txId: string): string {
-    const metadata = CHAIN_METADATA.base
-    const networkKey = this.network === 'mainnet' ? 'mainnet' : 'testnet'
-    const baseUrl = metadata.explorerUrl[networkKey]
-    return `${baseUrl}/tx/${txId}`
-  }
 }
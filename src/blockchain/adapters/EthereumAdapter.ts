@@ -2,7 +2,7 @@
  * Ethereum Blockchain Adapter
  *
  * Implements the BlockchainAdapter interface for Ethereum using ethers.js v6.
- * Supports ERC-20 tokens, ERC-721 NFTs, and smart contract operations.
+ * Supports ERC-20 tokens, ERC-721 NFTs, ERC-1155 multi-tokens, and smart contract operations.
  *
  * Status: M2 Implementation
  */
@@ -10,13 +10,25 @@
 import { BaseBlockchainAdapter } from '../core/BlockchainAdapter'
 import {
   BlockchainConfiguration,
+  Signer,
   CreateTokenParams,
   TokenResult,
   CreateNFTParams,
   NFTResult,
   MintNFTParams,
+  MintTokenParams,
+  BurnTokenParams,
   TransferParams,
+  ApproveParams,
+  AllowanceParams,
+  TransferFromParams,
   TransferNFTParams,
+  UpdateTokenFeesParams,
+  CreateMultiTokenParams,
+  MultiTokenResult,
+  MintBatchParams,
+  TransferBatchParams,
+  MultiTokenAmount,
   TransactionResult,
   BalanceParams,
   DeployContractParams,
@@ -26,20 +38,60 @@ import {
   WalletConnection,
   Transaction,
   SignedTransaction,
+  UnsignedTransaction,
   GasPrice,
   EstimateFeeParams,
   FeeEstimate,
+  SimulationRequest,
+  SimulationResult,
+  BalanceChange,
+  SimulationLog,
   TransactionStatus,
+  PendingTransaction,
+  ReplaceTransactionOptions,
+  SubscribeParams,
+  ChainEvent,
+  ProposeTransactionParams,
+  ListProposalsParams,
+  MultisigProposal,
   NetworkType,
   SupportedChain,
   BlockchainError,
   BlockchainErrorCode,
 } from '../core/types'
 import { CHAIN_CAPABILITIES, CHAIN_METADATA } from '../core/ChainCapabilities'
+import { getLocalnetDevAccount, getLocalnetEndpoints } from '../core/Localnet'
+import { EventPage } from '../core/Subscription'
+import { createEthersFetchRequest } from '../core/RpcRecorder'
+import { EVM_CHAIN_DESCRIPTORS, getEvmNetworkKey } from '../core/EvmChains'
+import { NonceManager, SentTransaction } from '../core/NonceManager'
+import { SendQueue } from '../core/SendQueue'
+import { derivePrivateKey } from '../core/HdWallet'
+import { createSigner, createEthersSigner, requireSignerKeyType } from '../core/Signer'
+import { summarizeTransaction } from '../core/OfflineTransaction'
+import {
+  SAFE_ABI,
+  SAFE_TX_TYPES,
+  SafeConfirmation,
+  SafeServiceTransaction,
+  SafeTransactionData,
+  SafeTransactionService,
+  createSafeTransaction,
+  describeSafeTransaction,
+  encodeSafeAction,
+  getSafeDomain,
+  hashSafeTransaction,
+  packSafeSignatures,
+  toSafeTransactionData,
+} from '../core/Multisig'
 
 // Import contract ABIs
 import ERC20ABI from '../contracts/ERC20.json'
 import ERC721ABI from '../contracts/ERC721.json'
+import ERC1155ABI from '../contracts/ERC1155.json'
+
+// Royalty receiver of collections without a royalty
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
 
 // ethers.js v6 types - we'll use dynamic imports for the actual SDK
 // This allows us to use mocks in tests
@@ -51,6 +103,11 @@ interface EthersProvider {
   getTransaction(txHash: string): Promise<any | null>
   estimateGas(tx: any): Promise<bigint>
   getBlockNumber(): Promise<number>
+  getTransactionCount(address: string, blockTag?: string): Promise<number>
+  getLogs(filter: any): Promise<any[]>
+  call(tx: any): Promise<string>
+  send(method: string, params: any[]): Promise<any>
+  broadcastTransaction(signedTx: string): Promise<any>
   destroy?(): void
 }
 
@@ -61,6 +118,7 @@ interface EthersWallet {
   getAddress(): Promise<string>
   signTransaction(tx: any): Promise<string>
   signMessage(message: string): Promise<string>
+  signTypedData(domain: any, types: any, value: any): Promise<string>
   sendTransaction(tx: any): Promise<any>
 }
 
@@ -78,6 +136,9 @@ interface EthersContractFactory {
   deploy(...args: any[]): Promise<EthersContract & { deploymentTransaction(): any; waitForDeployment(): Promise<EthersContract> }>
 }
 
+// Most public RPC endpoints reject eth_getLogs over wider block ranges
+const MAX_LOG_BLOCK_RANGE = 2000
+
 /**
  * Ethereum Blockchain Adapter.
  *
@@ -95,6 +156,10 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
   protected wallet?: EthersWallet
   protected operatorAddress?: string
 
+  // Operator account sends: local nonces and bounded concurrency
+  protected nonceManager?: NonceManager
+  protected sendQueue?: SendQueue
+
   // Browser wallet integration
   protected browserProvider?: EthersProvider
   protected browserSigner?: EthersWallet
@@ -113,22 +178,42 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
       // Load ethers dynamically (allows test mocking)
       this.ethers = await this.loadEthers()
 
+      // Set network
+      this.network = config.network || 'testnet'
+      this.config = config
+
+      // Fail over between endpoints, then record or replay RPC traffic
+      const rpcUrls = this.getRpcUrls(config)
+      this.openRpcPool(rpcUrls, config)
+      await this.openRecorder(config)
+
+      // A configured signer replaces the keys in credentials.
+      // Local nodes come with a funded dev account; replays never reach a real node
+      const signer = config.signer ? createSigner(config.signer) : undefined
+      const useDevAccount = this.network === 'localnet' || this.isReplaying()
+      const privateKey = signer ? undefined : config.credentials?.privateKeyEVM
+        || config.credentials?.privateKey
+        || await derivePrivateKey(this.chainId, config.credentials)
+        || (useDevAccount ? getLocalnetDevAccount(this.chainId)?.privateKey : undefined)
+
       // Validate configuration
-      if (!config.credentials?.privateKeyEVM && !config.credentials?.privateKey) {
+      if (!signer && !privateKey) {
         throw new BlockchainError(
           BlockchainErrorCode.INVALID_CREDENTIALS,
-          'Ethereum requires privateKeyEVM or privateKey in credentials'
+          'Ethereum requires privateKeyEVM, privateKey or mnemonic in credentials, or a signer'
         )
       }
 
-      // Set network
-      this.network = config.network || 'testnet'
-
-      // Determine RPC URL
-      const rpcUrl = this.getRpcUrl(config)
-
-      // Create provider
-      const provider = new this.ethers.JsonRpcProvider(rpcUrl)
+      // Create provider (through the recorder / endpoint pool if configured)
+      const rpcFetch = this.getRpcFetch()
+      const provider = rpcFetch
+        ? new this.ethers.JsonRpcProvider(
+            createEthersFetchRequest(this.ethers, rpcUrls[0], rpcFetch),
+            undefined,
+            // Replayed receipts are available immediately
+            this.isReplaying() ? { pollingInterval: 50 } : undefined
+          )
+        : new this.ethers.JsonRpcProvider(rpcUrls[0])
       this.provider = provider
 
       // Verify network connection
@@ -141,15 +226,18 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
         )
       }
 
-      // Create wallet from private key
-      const privateKey = config.credentials.privateKeyEVM || config.credentials.privateKey
-      const wallet = new this.ethers.Wallet(privateKey, provider)
+      // Create wallet from private key, or sign through the configured signer
+      const wallet = signer
+        ? await this.createSignerWallet(signer, provider)
+        : new this.ethers.Wallet(privateKey, provider)
       this.wallet = wallet
-      this.operatorAddress = await wallet.getAddress()
+      const operatorAddress = await wallet.getAddress()
+      this.operatorAddress = operatorAddress
+      this.nonceManager = new NonceManager(operatorAddress, provider, wallet)
+      this.sendQueue = new SendQueue(config.sendQueue)
 
       // Mark as connected
       this._isConnected = true
-      this.config = config
 
       console.log(
         `EthereumAdapter initialized for ${this.network} with address ${this.operatorAddress}`
@@ -164,6 +252,15 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * ethers signer backed by a Signer (keystore, remote, ...).
+   */
+  private async createSignerWallet(signer: Signer, provider: any): Promise<any> {
+    const { publicKey } = await requireSignerKeyType(signer, ['secp256k1'], this.chainId)
+    const address = this.ethers.computeAddress('0x' + publicKey)
+    return createEthersSigner(this.ethers, signer, address, provider, { chain: this.chainId, network: this.network })
+  }
+
   /**
    * Load ethers.js module (allows test mocking).
    */
@@ -194,18 +291,50 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
       return config.customConfig.rpcUrl
     }
 
+    // Local node (Anvil / Hardhat)
+    if (this.network === 'localnet') {
+      return getLocalnetEndpoints(this.chainId).rpcUrl
+    }
+
     // Default public RPC URLs
-    const metadata = CHAIN_METADATA.ethereum
     if (this.network === 'mainnet') {
       return 'https://eth.llamarpc.com' // Free public RPC
     }
     return 'https://rpc.sepolia.org' // Free Sepolia RPC
   }
 
+  /**
+   * Ordered RPC endpoints: configured lists first, then an explicit single
+   * URL, then the public defaults plus the chain's fallback endpoints.
+   */
+  protected getRpcUrls(config: BlockchainConfiguration): string[] {
+    const configured: string[] | undefined = config.rpcUrls || config.customConfig?.rpcUrls
+    if (configured?.length) {
+      return configured
+    }
+
+    const primary = this.getRpcUrl(config)
+    if (config.rpcUrl || config.customConfig?.rpcUrl || this.network === 'localnet') {
+      return [primary]
+    }
+    return [...new Set([primary, ...this.getFallbackRpcUrls()])]
+  }
+
+  /**
+   * Public endpoints to fail over to when no endpoints are configured.
+   */
+  protected getFallbackRpcUrls(): string[] {
+    return EVM_CHAIN_DESCRIPTORS.ethereum!.rpcUrls[getEvmNetworkKey(this.network)]
+  }
+
   /**
    * Get expected chain ID for current network.
    */
   protected getExpectedChainId(): number {
+    if (this.network === 'localnet') {
+      return getLocalnetEndpoints(this.chainId, this.config).chainId as number
+    }
+
     const metadata = CHAIN_METADATA.ethereum
     if (this.network === 'mainnet') {
       return metadata.chainId?.mainnet as number || 1
@@ -213,6 +342,20 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     return metadata.chainId?.testnet as number || 11155111 // Sepolia
   }
 
+  /**
+   * Whether the chain prices gas with EIP-1559 (base fee + priority fee).
+   */
+  protected supportsEIP1559(): boolean {
+    return true
+  }
+
+  /**
+   * Symbol of the chain's native currency (used in fee estimates).
+   */
+  protected getNativeCurrencySymbol(): string {
+    return 'ETH'
+  }
+
   /**
    * Disconnect and clean up resources.
    */
@@ -223,6 +366,11 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     this.provider = undefined
     this.wallet = undefined
     this.operatorAddress = undefined
+    this.nonceManager = undefined
+    this.sendQueue = undefined
+    await this.recorder?.flush()
+    this.recorder = undefined
+    this.rpcPool = undefined
     this._isConnected = false
   }
 
@@ -244,6 +392,50 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * Send from the operator account through the send queue with a managed nonce.
+   * Resolves once broadcast, so the queue slot is not held while mining.
+   *
+   * @param submit - Broadcasts the transaction with the given nonce override
+   */
+  protected sendWithNonce<T extends SentTransaction>(submit: (nonce: number) => Promise<T>): Promise<T> {
+    if (!this.nonceManager || !this.sendQueue) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+    const nonceManager = this.nonceManager
+    return this.sendQueue.enqueue(() => nonceManager.send(submit))
+  }
+
+  /**
+   * Deploy through a contract factory with a managed nonce.
+   */
+  protected async deployWithNonce(factory: EthersContractFactory, args: any[]): Promise<any> {
+    let contract: any
+    await this.sendWithNonce(async nonce => {
+      contract = await factory.deploy(...args, { nonce })
+      return contract.deploymentTransaction()
+    })
+    return contract
+  }
+
+  /**
+   * Wait for a receipt. A sped-up transaction (same call, higher fee) counts
+   * as the original; a cancelled one is still an error.
+   */
+  protected async waitForReceipt(tx: any): Promise<any> {
+    try {
+      return await tx.wait()
+    } catch (error: any) {
+      if (error?.code === 'TRANSACTION_REPLACED' && !error.cancelled && error.receipt) {
+        return error.receipt
+      }
+      throw error
+    }
+  }
+
   /**
    * Create an ERC-20 fungible token.
    *
@@ -252,6 +444,7 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
    */
   async createToken(params: CreateTokenParams): Promise<TokenResult> {
     this.ensureInitialized()
+    this.validateCustomFees(params.customFees || [], 'fungible', 'createToken')
 
     if (!this.wallet || !this.provider) {
       throw new BlockchainError(
@@ -268,17 +461,8 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
         this.wallet
       )
 
-      // Calculate initial supply with decimals
-      const decimals = params.decimals || 18
-      const initialSupply = BigInt(params.initialSupply || 0) * BigInt(10 ** decimals)
-
       // Deploy contract
-      const contract = await factory.deploy(
-        params.name,
-        params.symbol,
-        decimals,
-        initialSupply
-      )
+      const contract = await this.deployWithNonce(factory, this.getTokenConstructorArgs(params))
 
       // Wait for deployment
       await contract.waitForDeployment()
@@ -332,8 +516,8 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
       )
 
       // Execute transfer
-      const tx = await contract.transfer(params.to, BigInt(params.amount))
-      const receipt = await tx.wait()
+      const tx = await this.sendWithNonce(nonce => contract.transfer(params.to, BigInt(params.amount), { nonce }))
+      const receipt = await this.waitForReceipt(tx)
 
       return this.createTransactionResult(receipt)
     } catch (error: any) {
@@ -388,7 +572,169 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
   }
 
   /**
-   * Create an ERC-721 NFT collection.
+   * Approve a spender via ERC-20 approve().
+   *
+   * @param params - Approval parameters
+   * @returns Transaction result
+   */
+  async approveToken(params: ApproveParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    if (!this.wallet) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      const contract = new this.ethers.Contract(params.tokenId, ERC20ABI.abi, this.wallet)
+
+      const tx = await this.sendWithNonce(nonce => contract.approve(params.spender, BigInt(params.amount), { nonce }))
+      const receipt = await this.waitForReceipt(tx)
+
+      return this.createTransactionResult(receipt)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `ERC-20 approve failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Get an ERC-20 allowance via allowance(owner, spender).
+   *
+   * @param params - Allowance query parameters
+   * @returns Remaining allowance as bigint
+   */
+  async getAllowance(params: AllowanceParams): Promise<bigint> {
+    this.ensureInitialized()
+
+    if (!this.provider) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Provider not initialized'
+      )
+    }
+
+    try {
+      const contract = new this.ethers.Contract(params.tokenId, ERC20ABI.abi, this.provider)
+
+      const allowance = await contract.allowance(params.owner, params.spender)
+      return BigInt(allowance)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Failed to query allowance: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Spend an allowance via ERC-20 transferFrom().
+   *
+   * @param params - Delegated transfer parameters
+   * @returns Transaction result
+   */
+  async transferFrom(params: TransferFromParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    if (!this.wallet) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      const contract = new this.ethers.Contract(params.tokenId, ERC20ABI.abi, this.wallet)
+
+      const tx = await this.sendWithNonce(nonce => contract.transferFrom(params.from, params.to, BigInt(params.amount), { nonce }))
+      const receipt = await this.waitForReceipt(tx)
+
+      return this.createTransactionResult(receipt)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `ERC-20 transferFrom failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Mint ERC-20 tokens via the contract's mint(to, amount) extension.
+   * The signer must be allowed to mint (owner of APIX-deployed tokens).
+   *
+   * @param params - Mint parameters
+   * @returns Transaction result
+   */
+  async mintToken(params: MintTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenMint', 'mintToken')
+
+    if (!this.wallet) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      const contract = new this.ethers.Contract(params.tokenId, ERC20ABI.abi, this.wallet)
+
+      const tx = await this.sendWithNonce(nonce => contract.mint(params.to || this.operatorAddress, BigInt(params.amount), { nonce }))
+      const receipt = await this.waitForReceipt(tx)
+
+      return this.createTransactionResult(receipt)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `ERC-20 mint failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Burn ERC-20 tokens held by the signer via the contract's burn(amount) extension.
+   *
+   * @param params - Burn parameters
+   * @returns Transaction result
+   */
+  async burnToken(params: BurnTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenBurn', 'burnToken')
+
+    if (!this.wallet) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      const contract = new this.ethers.Contract(params.tokenId, ERC20ABI.abi, this.wallet)
+
+      const tx = await this.sendWithNonce(nonce => contract.burn(BigInt(params.amount), { nonce }))
+      const receipt = await this.waitForReceipt(tx)
+
+      return this.createTransactionResult(receipt)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `ERC-20 burn failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Create an ERC-721 NFT collection. A royalty fee (or royaltyPercentage)
+   * becomes the collection's EIP-2981 default royalty.
    *
    * @param params - NFT collection parameters
    * @returns NFT collection result
@@ -396,13 +742,17 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
   async createNFT(params: CreateNFTParams): Promise<NFTResult> {
     this.ensureInitialized()
 
-    if (!this.wallet || !this.provider) {
+    if (!this.wallet || !this.provider || !this.operatorAddress) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
         'Wallet not initialized'
       )
     }
 
+    const customFees = this.getCustomFees(params, this.operatorAddress)
+    this.validateCustomFees(customFees, 'nft', 'createNFT')
+    const royalty = this.getSingleRoyalty(customFees)
+
     try {
       // Create contract factory
       const factory = new this.ethers.ContractFactory(
@@ -412,7 +762,12 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
       )
 
       // Deploy contract
-      const contract = await factory.deploy(params.name, params.symbol)
+      const contract = await this.deployWithNonce(factory, [
+        params.name,
+        params.symbol,
+        royalty?.collector ?? ZERO_ADDRESS,
+        royalty?.basisPoints ?? 0,
+      ])
 
       // Wait for deployment
       await contract.waitForDeployment()
@@ -462,8 +817,8 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
       const tokenId = BigInt(Date.now())
 
       // Mint NFT
-      const tx = await contract.safeMint(params.to, tokenId)
-      const receipt = await tx.wait()
+      const tx = await this.sendWithNonce(nonce => contract.safeMint(params.to, tokenId, { nonce }))
+      const receipt = await this.waitForReceipt(tx)
 
       return {
         ...this.createTransactionResult(receipt),
@@ -504,12 +859,14 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
 
       // Transfer NFT
       const nftId = typeof params.nftId === 'string' ? BigInt(params.nftId) : BigInt(params.nftId)
-      const tx = await contract.safeTransferFrom(
-        this.operatorAddress,
+      const from = this.operatorAddress
+      const tx = await this.sendWithNonce(nonce => contract.safeTransferFrom(
+        from,
         params.to,
-        nftId
-      )
-      const receipt = await tx.wait()
+        nftId,
+        { nonce }
+      ))
+      const receipt = await this.waitForReceipt(tx)
 
       return this.createTransactionResult(receipt)
     } catch (error: any) {
@@ -522,15 +879,18 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
   }
 
   /**
-   * Deploy a smart contract to Ethereum.
+   * Replace an ERC-721 collection's EIP-2981 default royalty (setDefaultRoyalty,
+   * owner only). No royalty fee clears it.
    *
-   * @param params - Contract deployment parameters
-   * @returns Contract deployment result
+   * @param params - Collection address and its royalty fee
+   * @returns Transaction result
    */
-  async deployContract(params: DeployContractParams): Promise<ContractResult> {
+  async updateTokenFees(params: UpdateTokenFeesParams): Promise<TransactionResult> {
     this.ensureInitialized()
+    this.validateCustomFees(params.customFees, 'nft', 'updateTokenFees')
+    const royalty = this.getSingleRoyalty(params.customFees)
 
-    if (!this.wallet || !this.provider) {
+    if (!this.wallet) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
         'Wallet not initialized'
@@ -538,62 +898,40 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     }
 
     try {
-      // Parse contract code (expects JSON with abi and bytecode)
-      let abi: any[]
-      let bytecode: string
-
-      if (typeof params.contractCode === 'string') {
-        try {
-          const parsed = JSON.parse(params.contractCode)
-          abi = parsed.abi
-          bytecode = parsed.bytecode
-        } catch {
-          // Assume it's raw bytecode
-          abi = []
-          bytecode = params.contractCode
-        }
-      } else {
-        // Buffer - assume raw bytecode
-        abi = []
-        bytecode = '0x' + params.contractCode.toString('hex')
-      }
-
-      // Create contract factory
-      const factory = new this.ethers.ContractFactory(abi, bytecode, this.wallet)
-
-      // Deploy with constructor args if provided
-      const contract = params.constructorArgs
-        ? await factory.deploy(...params.constructorArgs)
-        : await factory.deploy()
+      const contract = new this.ethers.Contract(
+        params.tokenId, // Collection address
+        ERC721ABI.abi,
+        this.wallet
+      )
 
-      // Wait for deployment
-      await contract.waitForDeployment()
-      const contractAddress = await contract.getAddress()
-      const deployTx = contract.deploymentTransaction()
+      const tx = await this.sendWithNonce(nonce => contract.setDefaultRoyalty(
+        royalty?.collector ?? ZERO_ADDRESS,
+        royalty?.basisPoints ?? 0,
+        { nonce }
+      ))
+      const receipt = await this.waitForReceipt(tx)
 
-      return {
-        contractId: contractAddress,
-        contractAddress,
-        transaction: this.createTransactionResult(deployTx),
-        abi,
-      }
+      return this.createTransactionResult(receipt)
     } catch (error: any) {
       throw new BlockchainError(
         BlockchainErrorCode.TRANSACTION_FAILED,
-        `Contract deployment failed: ${error.message}`,
+        `Royalty update failed: ${error.message}`,
         error
       )
     }
   }
 
   /**
-   * Call a smart contract function.
+   * Create an ERC-1155 multi-token collection.
+   * The contract caps unique items at a supply of 1; they are minted to the
+   * deployer together with the fungible items' initial supply.
    *
-   * @param params - Contract call parameters
-   * @returns Contract call result
+   * @param params - Collection parameters
+   * @returns Collection result (item token IDs are the ERC-1155 IDs)
    */
-  async callContract(params: CallContractParams): Promise<any> {
+  async createMultiToken(params: CreateMultiTokenParams): Promise<MultiTokenResult> {
     this.ensureInitialized()
+    this.validateMultiTokenItems(params)
 
     if (!this.wallet || !this.provider) {
       throw new BlockchainError(
@@ -603,46 +941,268 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     }
 
     try {
-      // For generic contract calls, we need the ABI from customConfig
-      const abi = params.args?.[0]?.abi || [
-        `function ${params.methodName}() external`,
-      ]
-
-      // Connect to contract
-      const contract = new this.ethers.Contract(
-        params.contractAddress,
-        abi,
+      const factory = new this.ethers.ContractFactory(
+        ERC1155ABI.abi,
+        ERC1155ABI.bytecode,
         this.wallet
       )
 
-      // Call the method
-      const args = params.args?.slice(1) || []
-      const result = await contract[params.methodName](...args)
+      // Max supply 0 = uncapped
+      const ids = params.items.map(item => BigInt(item.id))
+      const initialSupplies = params.items.map(item => BigInt(item.fungible ? item.initialSupply ?? 0 : 1))
+      const maxSupplies = params.items.map(item => BigInt(item.fungible ? 0 : 1))
 
-      // If it's a transaction, wait for it
-      if (result && typeof result.wait === 'function') {
-        const receipt = await result.wait()
-        return {
-          transactionHash: receipt.hash,
-          result: receipt,
-          explorerUrl: this.getExplorerUrl(receipt.hash),
-        }
-      }
+      const contract = await this.deployWithNonce(factory, [
+        params.name,
+        params.symbol,
+        params.uri || '',
+        ids,
+        initialSupplies,
+        maxSupplies,
+      ])
+      await contract.waitForDeployment()
+      const contractAddress = await contract.getAddress()
 
-      return result
+      return {
+        collectionId: contractAddress,
+        collectionAddress: contractAddress,
+        items: params.items.map(item => ({
+          id: item.id,
+          name: item.name,
+          fungible: item.fungible,
+          tokenId: item.id.toString(),
+        })),
+        transaction: this.createTransactionResult(contract.deploymentTransaction()),
+      }
     } catch (error: any) {
       throw new BlockchainError(
         BlockchainErrorCode.TRANSACTION_FAILED,
-        `Contract call failed: ${error.message}`,
+        `ERC-1155 collection creation failed: ${error.message}`,
         error
       )
     }
   }
 
   /**
-   * Connect a browser wallet (MetaMask, WalletConnect, Coinbase Wallet).
+   * Mint fungible items of an ERC-1155 collection (ERC-1155 mintBatch).
    *
-   * @param provider - Wallet provider to connect
+   * @param params - Batch mint parameters
+   * @returns Transaction result
+   */
+  async mintBatch(params: MintBatchParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureBatchItems('mintBatch', params.items)
+
+    if (!this.wallet) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      const contract = new this.ethers.Contract(params.collectionId, ERC1155ABI.abi, this.wallet)
+      const { ids, amounts } = this.toBatchArrays(params.items)
+
+      const tx = await this.sendWithNonce(nonce => contract.mintBatch(params.to, ids, amounts, '0x', { nonce }))
+      const receipt = await this.waitForReceipt(tx)
+
+      return this.createTransactionResult(receipt)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Batch mint failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Transfer items of an ERC-1155 collection (ERC-1155 safeBatchTransferFrom).
+   *
+   * @param params - Batch transfer parameters
+   * @returns Transaction result
+   */
+  async transferBatch(params: TransferBatchParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureBatchItems('transferBatch', params.items)
+
+    if (!this.wallet || !this.operatorAddress) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      const contract = new this.ethers.Contract(params.collectionId, ERC1155ABI.abi, this.wallet)
+      const { ids, amounts } = this.toBatchArrays(params.items)
+      const from = this.operatorAddress
+
+      const tx = await this.sendWithNonce(nonce => contract.safeBatchTransferFrom(
+        from,
+        params.to,
+        ids,
+        amounts,
+        '0x',
+        { nonce }
+      ))
+      const receipt = await this.waitForReceipt(tx)
+
+      return this.createTransactionResult(receipt)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Batch transfer failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Helper to split batch items into ERC-1155 id / amount arrays.
+   */
+  private toBatchArrays(items: MultiTokenAmount[]): { ids: bigint[]; amounts: bigint[] } {
+    return {
+      ids: items.map(item => BigInt(item.tokenId)),
+      amounts: items.map(item => BigInt(item.amount)),
+    }
+  }
+
+  /**
+   * Deploy a smart contract to Ethereum.
+   *
+   * @param params - Contract deployment parameters
+   * @returns Contract deployment result
+   */
+  async deployContract(params: DeployContractParams): Promise<ContractResult> {
+    this.ensureInitialized()
+
+    if (!this.wallet || !this.provider) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      const { abi, bytecode } = this.parseContractCode(params)
+
+      // Create contract factory
+      const factory = new this.ethers.ContractFactory(abi, bytecode, this.wallet)
+
+      // Deploy with constructor args if provided
+      const contract = await this.deployWithNonce(factory, params.constructorArgs || [])
+
+      // Wait for deployment
+      await contract.waitForDeployment()
+      const contractAddress = await contract.getAddress()
+      const deployTx = contract.deploymentTransaction()
+
+      return {
+        contractId: contractAddress,
+        contractAddress,
+        transaction: this.createTransactionResult(deployTx),
+        abi,
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Contract deployment failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * ERC-20 constructor arguments (name, symbol, decimals, supply in base units).
+   */
+  protected getTokenConstructorArgs(params: CreateTokenParams): [string, string, number, bigint] {
+    const decimals = params.decimals || 18
+    const initialSupply = BigInt(params.initialSupply || 0) * BigInt(10 ** decimals)
+    return [params.name, params.symbol, decimals, initialSupply]
+  }
+
+  /**
+   * Parse contract code (JSON artifact with abi and bytecode, or raw bytecode).
+   */
+  protected parseContractCode(params: DeployContractParams): { abi: any[]; bytecode: string } {
+    if (typeof params.contractCode !== 'string') {
+      // Buffer - assume raw bytecode
+      return { abi: [], bytecode: '0x' + params.contractCode.toString('hex') }
+    }
+
+    try {
+      const parsed = JSON.parse(params.contractCode)
+      return { abi: parsed.abi, bytecode: parsed.bytecode }
+    } catch {
+      // Assume it's raw bytecode
+      return { abi: [], bytecode: params.contractCode }
+    }
+  }
+
+  /**
+   * Call a smart contract function.
+   *
+   * @param params - Contract call parameters
+   * @returns Contract call result
+   */
+  async callContract(params: CallContractParams): Promise<any> {
+    this.ensureInitialized()
+
+    if (!this.wallet || !this.provider) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    try {
+      // For generic contract calls, we need the ABI from customConfig
+      const abi = params.args?.[0]?.abi || [
+        `function ${params.methodName}() external`,
+      ]
+
+      // Connect to contract
+      const contract = new this.ethers.Contract(
+        params.contractAddress,
+        abi,
+        this.wallet
+      )
+
+      // Reads go straight to the node
+      const args = params.args?.slice(1) || []
+      const fragment = contract.interface.getFunction(params.methodName)
+      if (!fragment || fragment.constant) {
+        return await contract[params.methodName](...args)
+      }
+
+      // Writes take a managed nonce, like every other send
+      const overrides = {
+        ...(params.gas !== undefined && { gasLimit: params.gas }),
+        ...(params.value !== undefined && { value: params.value }),
+      }
+      const tx = await this.sendWithNonce(nonce => contract[params.methodName](...args, { ...overrides, nonce }))
+      const receipt = await this.waitForReceipt(tx)
+
+      return {
+        transactionHash: receipt.hash,
+        result: receipt,
+        explorerUrl: this.getExplorerUrl(receipt.hash),
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Contract call failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Connect a browser wallet (MetaMask, WalletConnect, Coinbase Wallet).
+   *
+   * @param provider - Wallet provider to connect
    * @returns Wallet connection details
    */
   async connectWallet(provider: WalletProvider): Promise<WalletConnection> {
@@ -894,6 +1454,100 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * Build an unsigned transaction for offline signing. EIP-1559 fees unless
+   * tx.gasPrice is set or the chain has no base fee; nonce, gas limit and
+   * chain ID come from the node when not given.
+   *
+   * @param tx - Transaction (from defaults to the operator address)
+   * @returns Unsigned RLP payload
+   */
+  async buildTransaction(tx: Transaction): Promise<UnsignedTransaction> {
+    this.ensureInitialized()
+
+    const provider = this.provider
+    const from = tx.from || this.operatorAddress
+    if (!provider || !from) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'No sender: set from, or initialize with credentials or a signer'
+      )
+    }
+
+    try {
+      const call = { to: tx.to || undefined, value: tx.value ?? 0n, data: tx.data || '0x' }
+      const [network, nonce, gasLimit, feeData] = await Promise.all([
+        provider.getNetwork(),
+        tx.nonce ?? provider.getTransactionCount(from, 'pending'),
+        tx.gas ?? provider.estimateGas({ ...call, from }),
+        tx.gasPrice ? undefined : provider.getFeeData(),
+      ])
+      const fees = feeData?.maxFeePerGas != null
+        ? { type: 2, maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+        : { type: 0, gasPrice: tx.gasPrice ?? feeData?.gasPrice }
+
+      const payload = this.ethers.Transaction.from({
+        ...call,
+        ...fees,
+        nonce: Number(nonce),
+        gasLimit,
+        chainId: network.chainId,
+      }).unsignedSerialized
+
+      return {
+        chain: this.chainId,
+        network: this.network,
+        transaction: {
+          ...tx,
+          from,
+          nonce: Number(nonce),
+          gas: BigInt(gasLimit),
+          gasPrice: BigInt(fees.maxFeePerGas ?? fees.gasPrice ?? 0),
+          chainId: network.chainId.toString(),
+        },
+        payload,
+        signer: from,
+        summary: await summarizeTransaction(this.chainId, this.network, payload),
+      }
+    } catch (error: any) {
+      if (error instanceof BlockchainError) throw error
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to build transaction: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Broadcast a transaction signed offline and wait for its receipt.
+   *
+   * @param signed - Signed RLP
+   */
+  async broadcastTransaction(signed: SignedTransaction): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    if (!this.provider) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Provider not initialized'
+      )
+    }
+
+    try {
+      const response = await this.provider.broadcastTransaction(signed.rawTransaction)
+      const receipt = await this.waitForReceipt(response)
+
+      return this.createTransactionResult(receipt, receipt?.status === 0 ? 'failed' : 'success')
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Broadcast failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
   /**
    * Get current gas prices.
    *
@@ -913,7 +1567,8 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
       const feeData = await this.provider.getFeeData()
 
       // Use maxFeePerGas for EIP-1559 or fallback to gasPrice
-      const gasPrice = feeData.maxFeePerGas || feeData.gasPrice || BigInt(20000000000)
+      const eip1559Fee = this.supportsEIP1559() ? feeData.maxFeePerGas : null
+      const gasPrice = eip1559Fee || feeData.gasPrice || BigInt(20000000000)
       const priorityFee = feeData.maxPriorityFeePerGas || BigInt(2000000000)
 
       return {
@@ -975,7 +1630,7 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
       return {
         estimatedCost,
         estimatedCostUSD,
-        currency: 'ETH',
+        currency: this.getNativeCurrencySymbol(),
         breakdown: {
           baseFee: gasPrice.standard,
           priorityFee: gasPrice.fast - gasPrice.standard,
@@ -991,6 +1646,180 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * Simulate a transaction against the latest block without sending it.
+   *
+   * Uses debug_traceCall (callTracer with logs) where the node exposes it;
+   * most public endpoints do not, so eth_call + eth_estimateGas is the fallback.
+   *
+   * @param request - Raw transaction or adapter operation to simulate
+   * @returns Predicted outcome, balance changes and logs
+   */
+  async simulateTransaction(request: SimulationRequest): Promise<SimulationResult> {
+    this.ensureInitialized()
+
+    if (!this.wallet || !this.provider) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+
+    const tx = await this.buildSimulationTransaction(request)
+    const { standard: gasPrice } = await this.getGasPrice()
+    const warnings: string[] = []
+
+    let outcome: Pick<SimulationResult, 'success' | 'revertReason' | 'method' | 'gasUsed' | 'logs'>
+    try {
+      outcome = this.parseCallTrace(await this.provider.send('debug_traceCall', [
+        this.toRpcTransaction(tx),
+        'latest',
+        { tracer: 'callTracer', tracerConfig: { withLog: true } },
+      ]))
+    } catch {
+      outcome = await this.simulateWithCall(tx)
+      warnings.push('debug_traceCall is not available on this RPC endpoint; logs are not traced')
+    }
+
+    const fee = (outcome.gasUsed ?? BigInt(0)) * gasPrice
+    const balanceChanges = this.getSimulatedBalanceChanges(tx, fee, outcome.success ? outcome.logs : [])
+
+    // Without a trace, token movements are inferred from the request itself
+    if (outcome.success && outcome.method === 'eth_call' && request.operation === 'transferToken') {
+      const amount = BigInt(request.params.amount)
+      balanceChanges.push(
+        { account: tx.from, tokenId: request.params.tokenId, delta: -amount },
+        { account: request.params.to, tokenId: request.params.tokenId, delta: amount }
+      )
+    }
+
+    return { ...outcome, fee, balanceChanges, warnings }
+  }
+
+  /**
+   * Build the call that an operation would send.
+   */
+  protected async buildSimulationTransaction(
+    request: SimulationRequest
+  ): Promise<{ from: string; to?: string; data?: string; value?: bigint }> {
+    const from = this.operatorAddress!
+
+    switch (request.operation) {
+      case 'transaction': {
+        const { transaction } = request
+        return { from: transaction.from || from, to: transaction.to, data: transaction.data, value: transaction.value }
+      }
+
+      case 'transferToken': {
+        if (!request.params.tokenId) {
+          throw new BlockchainError(
+            BlockchainErrorCode.INVALID_ADDRESS,
+            'Token contract address (tokenId) is required for ERC-20 transfers'
+          )
+        }
+        const data = new this.ethers.Interface(ERC20ABI.abi)
+          .encodeFunctionData('transfer', [request.params.to, BigInt(request.params.amount)])
+        return { from, to: request.params.tokenId, data }
+      }
+
+      case 'createToken': {
+        const factory = new this.ethers.ContractFactory(ERC20ABI.abi, ERC20ABI.bytecode, this.wallet)
+        const deployTx = await factory.getDeployTransaction(...this.getTokenConstructorArgs(request.params))
+        return { from, data: deployTx.data }
+      }
+
+      case 'deployContract': {
+        const { abi, bytecode } = this.parseContractCode(request.params)
+        const factory = new this.ethers.ContractFactory(abi, bytecode, this.wallet)
+        const deployTx = await factory.getDeployTransaction(...(request.params.constructorArgs || []))
+        return { from, data: deployTx.data, value: request.params.value }
+      }
+    }
+  }
+
+  private toRpcTransaction(tx: { from: string; to?: string; data?: string; value?: bigint }): Record<string, string> {
+    return {
+      from: tx.from,
+      ...(tx.to ? { to: tx.to } : {}),
+      ...(tx.data ? { data: tx.data } : {}),
+      ...(tx.value ? { value: '0x' + tx.value.toString(16) } : {}),
+    }
+  }
+
+  /**
+   * Read a callTracer result (logs of reverted frames are dropped).
+   */
+  private parseCallTrace(trace: any): Pick<SimulationResult, 'success' | 'revertReason' | 'method' | 'gasUsed' | 'logs'> {
+    const collectLogs = (frame: any): SimulationLog[] => frame.error
+      ? []
+      : [
+          ...(frame.logs || []).map((log: any) => ({ address: log.address, topics: log.topics, data: log.data })),
+          ...(frame.calls || []).flatMap(collectLogs),
+        ]
+
+    return {
+      success: !trace.error,
+      revertReason: trace.error ? trace.revertReason || trace.error : undefined,
+      method: 'debug_traceCall',
+      gasUsed: BigInt(trace.gasUsed ?? 0),
+      logs: collectLogs(trace),
+    }
+  }
+
+  private async simulateWithCall(
+    tx: { from: string; to?: string; data?: string; value?: bigint }
+  ): Promise<Pick<SimulationResult, 'success' | 'revertReason' | 'method' | 'gasUsed' | 'logs'>> {
+    try {
+      await this.provider!.call(tx)
+      const gasUsed = await this.provider!.estimateGas(tx)
+      return { success: true, method: 'eth_call', gasUsed, logs: [] }
+    } catch (error: any) {
+      if (error.code !== 'CALL_EXCEPTION') {
+        throw new BlockchainError(
+          BlockchainErrorCode.NETWORK_ERROR,
+          `Failed to simulate transaction: ${error.message}`,
+          error
+        )
+      }
+      return {
+        success: false,
+        revertReason: error.reason || error.shortMessage || error.message,
+        method: 'eth_call',
+        logs: [],
+      }
+    }
+  }
+
+  /**
+   * Native value and fee movements, plus ERC-20 Transfer logs.
+   */
+  private getSimulatedBalanceChanges(
+    tx: { from: string; to?: string; value?: bigint },
+    fee: bigint,
+    logs: SimulationLog[]
+  ): BalanceChange[] {
+    const changes: BalanceChange[] = []
+    const value = tx.value ?? BigInt(0)
+
+    changes.push({ account: tx.from, delta: -(value + fee) })
+    if (tx.to && value > BigInt(0)) {
+      changes.push({ account: tx.to, delta: value })
+    }
+
+    const transferTopic = this.ethers.id('Transfer(address,address,uint256)')
+    for (const { address, topics = [], data } of logs) {
+      // ERC-721 Transfer has the same topic but an indexed tokenId (4 topics)
+      if (topics[0] !== transferTopic || topics.length !== 3) continue
+      const amount = BigInt(data || '0x0')
+      changes.push(
+        { account: this.ethers.getAddress('0x' + topics[1].slice(26)), tokenId: address, delta: -amount },
+        { account: this.ethers.getAddress('0x' + topics[2].slice(26)), tokenId: address, delta: amount }
+      )
+    }
+
+    return changes
+  }
+
   /**
    * Get transaction status.
    *
@@ -1046,6 +1875,289 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * Transactions sent by this adapter that are not mined yet.
+   */
+  async getPendingTransactions(): Promise<PendingTransaction[]> {
+    this.ensureInitialized()
+    return this.getNonceManager().getPending()
+  }
+
+  /**
+   * Re-send a pending transaction with higher fees.
+   *
+   * @param hashOrNonce - Transaction hash or nonce
+   * @param options - Fee bump (default 15%)
+   * @returns The replacement transaction
+   */
+  async speedUpTransaction(
+    hashOrNonce: string | number,
+    options?: ReplaceTransactionOptions
+  ): Promise<TransactionResult> {
+    this.ensureInitialized()
+    const tx = await this.getNonceManager().speedUp(hashOrNonce, options)
+    return this.createTransactionResult(tx, 'pending')
+  }
+
+  /**
+   * Cancel a pending transaction by replacing it with an empty self-transfer.
+   *
+   * @param hashOrNonce - Transaction hash or nonce
+   * @param options - Fee bump (default 15%)
+   * @returns The replacement transaction
+   */
+  async cancelTransaction(
+    hashOrNonce: string | number,
+    options?: ReplaceTransactionOptions
+  ): Promise<TransactionResult> {
+    this.ensureInitialized()
+    const tx = await this.getNonceManager().cancel(hashOrNonce, options)
+    return this.createTransactionResult(tx, 'pending')
+  }
+
+  private getNonceManager(): NonceManager {
+    if (!this.nonceManager) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+    return this.nonceManager
+  }
+
+  /**
+   * Propose a Safe transaction, signed by the operator (a Safe owner), and
+   * share it through the Safe Transaction Service. It takes the nonce after
+   * the proposals already queued; with a threshold of one and nothing queued
+   * it is executed right away.
+   *
+   * @param params - Action and Safe address (params.account)
+   * @returns The proposal
+   */
+  async proposeTransaction(params: ProposeTransactionParams): Promise<MultisigProposal> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'proposeTransaction')
+
+    if (!params.account) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_ADDRESS,
+        `${this.name} proposals require the Safe address as account`
+      )
+    }
+
+    try {
+      const safe: string = this.ethers.getAddress(params.account)
+      const contract = new this.ethers.Contract(safe, SAFE_ABI, this.provider)
+      const service = this.getSafeTransactionService()
+      const [safeNonce, threshold] = (await Promise.all([contract.nonce(), contract.getThreshold()])).map(Number)
+      const nonce = await service.getNextNonce(safe, safeNonce)
+
+      const safeTx = createSafeTransaction(encodeSafeAction(this.ethers, params.action, safe), nonce)
+      const safeTxHash = hashSafeTransaction(this.ethers, safe, this.getExpectedChainId(), safeTx)
+      const confirmation = await this.signSafeTransaction(safe, safeTx)
+      await service.proposeTransaction(safe, safeTx, safeTxHash, confirmation, params.memo)
+
+      return await this.executeSafeTransactionIfReady({
+        ...safeTx,
+        safe,
+        safeTxHash,
+        proposer: confirmation.owner,
+        origin: params.memo,
+        isExecuted: false,
+        confirmationsRequired: threshold,
+        confirmations: [confirmation],
+      }, safeNonce)
+    } catch (error: any) {
+      if (error instanceof BlockchainError) throw error
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Safe proposal failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Sign a proposed Safe transaction as the operator. The approval that
+   * reaches the threshold also executes it (the operator pays gas), unless
+   * transactions with earlier nonces are still queued: approving again once
+   * they have executed runs it.
+   *
+   * @param proposalId - Safe transaction hash
+   * @returns The proposal after signing
+   */
+  async approveProposal(proposalId: string): Promise<MultisigProposal> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'approveProposal')
+
+    try {
+      const service = this.getSafeTransactionService()
+      const proposal = await service.getTransaction(proposalId)
+      const safeNonce = await this.getSafeNonce(proposal.safe)
+      if (proposal.isExecuted) {
+        return this.toSafeProposal(proposal, safeNonce)
+      }
+      if (proposal.nonce < safeNonce) {
+        throw new BlockchainError(
+          BlockchainErrorCode.TRANSACTION_FAILED,
+          `Safe transaction ${proposalId} can no longer execute: nonce ${proposal.nonce} was used by another transaction`
+        )
+      }
+
+      // Sign what the service returned only if it is what the ID commits to
+      const safeTx = toSafeTransactionData(proposal)
+      const safeTxHash = hashSafeTransaction(this.ethers, proposal.safe, this.getExpectedChainId(), safeTx)
+      if (safeTxHash.toLowerCase() !== proposalId.toLowerCase()) {
+        throw new BlockchainError(
+          BlockchainErrorCode.CONTRACT_ERROR,
+          `Safe Transaction Service returned a transaction that does not hash to ${proposalId}`
+        )
+      }
+
+      const operator = this.operatorAddress!.toLowerCase()
+      if (!proposal.confirmations.some(confirmation => confirmation.owner.toLowerCase() === operator)) {
+        const confirmation = await this.signSafeTransaction(proposal.safe, safeTx)
+        await service.confirmTransaction(safeTxHash, confirmation.signature)
+        proposal.confirmations = [...proposal.confirmations, confirmation]
+      }
+
+      return await this.executeSafeTransactionIfReady(proposal, safeNonce)
+    } catch (error: any) {
+      if (error instanceof BlockchainError) throw error
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Safe approval failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Look up a Safe transaction in the Safe Transaction Service.
+   *
+   * @param proposalId - Safe transaction hash
+   */
+  async getProposal(proposalId: string): Promise<MultisigProposal> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'getProposal')
+
+    const proposal = await this.getSafeTransactionService().getTransaction(proposalId)
+    return this.toSafeProposal(proposal, await this.getSafeNonce(proposal.safe))
+  }
+
+  /**
+   * Safe transactions that can still execute (nonce not used yet).
+   *
+   * @param params - Safe address (params.account) and limit
+   */
+  async listProposals(params: ListProposalsParams = {}): Promise<MultisigProposal[]> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'listProposals')
+
+    if (!params.account) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_ADDRESS,
+        `${this.name} proposals require the Safe address as account`
+      )
+    }
+
+    const safe: string = this.ethers.getAddress(params.account)
+    const safeNonce = await this.getSafeNonce(safe)
+    const pending = await this.getSafeTransactionService().getPendingTransactions(safe, safeNonce, params.limit ?? 25)
+    return pending.map(proposal => this.toSafeProposal(proposal, safeNonce))
+  }
+
+  /**
+   * Safe Transaction Service for the current network (config first).
+   */
+  protected getSafeTransactionService(): SafeTransactionService {
+    const url = this.config?.safeTransactionServiceUrl
+      || (this.network === 'localnet' ? undefined : this.getDefaultSafeTransactionServiceUrl())
+    if (!url) {
+      throw new BlockchainError(
+        BlockchainErrorCode.UNSUPPORTED_OPERATION,
+        `No Safe Transaction Service for ${this.name} ${this.network}; set safeTransactionServiceUrl`
+      )
+    }
+    return new SafeTransactionService(url)
+  }
+
+  /**
+   * Hosted Safe Transaction Service for the network, if there is one.
+   */
+  protected getDefaultSafeTransactionServiceUrl(): string | undefined {
+    return EVM_CHAIN_DESCRIPTORS.ethereum!.safeTransactionService?.[getEvmNetworkKey(this.network)]
+  }
+
+  private async getSafeNonce(safe: string): Promise<number> {
+    const contract = new this.ethers.Contract(safe, SAFE_ABI, this.provider)
+    return Number(await contract.nonce())
+  }
+
+  private async signSafeTransaction(safe: string, safeTx: SafeTransactionData): Promise<SafeConfirmation> {
+    if (!this.wallet || !this.operatorAddress) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Wallet not initialized'
+      )
+    }
+    const signature = await this.wallet.signTypedData(getSafeDomain(safe, this.getExpectedChainId()), SAFE_TX_TYPES, safeTx)
+    return { owner: this.operatorAddress, signature }
+  }
+
+  /**
+   * Call execTransaction once a proposal has enough signatures and its nonce
+   * is the Safe's next one (the Safe rejects any other).
+   */
+  private async executeSafeTransactionIfReady(proposal: SafeServiceTransaction, safeNonce: number): Promise<MultisigProposal> {
+    if (proposal.confirmations.length < proposal.confirmationsRequired || proposal.nonce !== safeNonce) {
+      return this.toSafeProposal(proposal, safeNonce)
+    }
+
+    const safeTx = toSafeTransactionData(proposal)
+    const contract = new this.ethers.Contract(proposal.safe, SAFE_ABI, this.wallet)
+    const tx = await this.sendWithNonce(nonce => contract.execTransaction(
+      safeTx.to,
+      safeTx.value,
+      safeTx.data,
+      safeTx.operation,
+      safeTx.safeTxGas,
+      safeTx.baseGas,
+      safeTx.gasPrice,
+      safeTx.gasToken,
+      safeTx.refundReceiver,
+      packSafeSignatures(proposal.confirmations),
+      { nonce }
+    ))
+    const receipt = await this.waitForReceipt(tx)
+
+    return this.toSafeProposal({ ...proposal, isExecuted: true, transactionHash: receipt.hash })
+  }
+
+  /**
+   * @param safeNonce - Current Safe nonce; unexecuted proposals below it were replaced
+   */
+  private toSafeProposal(proposal: SafeServiceTransaction, safeNonce?: number): MultisigProposal {
+    const replaced = !proposal.isExecuted && safeNonce !== undefined && proposal.nonce < safeNonce
+    const queued = !proposal.isExecuted && safeNonce !== undefined && proposal.nonce > safeNonce
+      && proposal.confirmations.length >= proposal.confirmationsRequired
+
+    return {
+      id: proposal.safeTxHash,
+      chain: this.chainId,
+      status: proposal.isExecuted ? 'executed' : replaced ? 'deleted' : 'pending',
+      account: proposal.safe,
+      summary: describeSafeTransaction(this.ethers, toSafeTransactionData(proposal), this.getNativeCurrencySymbol()),
+      signers: proposal.confirmations.map(confirmation => confirmation.owner),
+      threshold: proposal.confirmationsRequired,
+      memo: proposal.origin || undefined,
+      creator: proposal.proposer,
+      transactionId: proposal.transactionHash || undefined,
+      explorerUrl: proposal.transactionHash ? this.getExplorerUrl(proposal.transactionHash) : undefined,
+      queued: queued || undefined,
+    }
+  }
+
   /**
    * Get block explorer URL for a transaction.
    *
@@ -1053,9 +2165,133 @@ export class EthereumAdapter extends BaseBlockchainAdapter {
    * @returns Explorer URL
    */
   getExplorerUrl(txId: string): string {
+    if (this.network === 'localnet') {
+      return this.getLocalnetExplorerUrl(txId)
+    }
+
     const metadata = CHAIN_METADATA.ethereum
     const networkKey = this.network === 'mainnet' ? 'mainnet' : 'testnet'
     const baseUrl = metadata.explorerUrl[networkKey]
     return `${baseUrl}/tx/${txId}`
   }
+
+  /**
+   * Get local block explorer URL (e.g. Otterscan via customConfig.explorerUrl).
+   * Local nodes have no explorer by default, so this returns an empty string.
+   */
+  protected getLocalnetExplorerUrl(txId: string): string {
+    const explorerUrl = getLocalnetEndpoints(this.chainId, this.config).explorerUrl
+    return explorerUrl ? `${explorerUrl}/tx/${txId}` : ''
+  }
+
+  /**
+   * Fetch event logs after a cursor (used by subscribe()).
+   *
+   * Cursors are `<block>:<logIndex>`; `<block>:*` means the whole block was read.
+   * Each poll scans at most MAX_LOG_BLOCK_RANGE blocks.
+   *
+   * @param params - Subscription parameters
+   * @param cursor - Last delivered position (undefined = start at the current block)
+   */
+  protected async fetchEvents(params: SubscribeParams, cursor: string | undefined): Promise<EventPage> {
+    if (!this.provider) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Provider not initialized'
+      )
+    }
+
+    const head = await this.provider.getBlockNumber()
+    if (cursor === undefined) {
+      return { events: [], cursor: `${head}:*` }
+    }
+
+    const [lastBlockPart, lastIndexPart] = cursor.split(':')
+    const lastBlock = Number(lastBlockPart)
+    const lastIndex = lastIndexPart === '*' ? Infinity : Number(lastIndexPart)
+    if (Number.isNaN(lastBlock) || Number.isNaN(lastIndex)) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_ADDRESS,
+        `Invalid ${this.name} subscription cursor: ${cursor}`
+      )
+    }
+
+    const fromBlock = lastIndex === Infinity ? lastBlock + 1 : lastBlock
+    if (fromBlock > head) {
+      return { events: [] }
+    }
+    const toBlock = Math.min(head, fromBlock + MAX_LOG_BLOCK_RANGE - 1)
+
+    const logs = (await Promise.all(
+      this.getLogFilters(params).map(filter =>
+        this.provider!.getLogs({ ...filter, fromBlock, toBlock })
+      )
+    )).flat()
+
+    const seen = new Set<string>()
+    const events = logs
+      .map(log => ({ log, index: Number(log.index ?? log.logIndex) }))
+      .filter(({ log, index }) => log.blockNumber > lastBlock || index > lastIndex)
+      // ERC-721 Transfer shares the signature but indexes the token ID (four topics, no data)
+      .filter(({ log }) => params.kind !== 'token-transfers' || log.topics.length === 3)
+      .sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.index - b.index)
+      .filter(({ log, index }) => {
+        // Self-transfers match both the sender and the recipient filter
+        const key = `${log.blockNumber}:${index}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .map(({ log, index }) => this.toChainEvent(params, log, index))
+
+    // Still behind the head: scan the next range without waiting
+    return { events, cursor: `${toBlock}:*`, more: toBlock < head }
+  }
+
+  /**
+   * eth_getLogs filters for a subscription (one per topic combination).
+   */
+  protected getLogFilters(params: SubscribeParams): any[] {
+    if (params.kind === 'contract-events') {
+      return [{
+        address: params.contractAddress,
+        topics: params.eventSignature ? [this.ethers.id(params.eventSignature)] : undefined,
+      }]
+    }
+
+    const transferTopic = this.ethers.id('Transfer(address,address,uint256)')
+    if (!params.account) {
+      return [{ address: params.tokenId, topics: [transferTopic] }]
+    }
+
+    // Topics are ANDed across positions, so incoming and outgoing need separate filters
+    const accountTopic = '0x' + params.account.slice(2).toLowerCase().padStart(64, '0')
+    return [
+      { address: params.tokenId, topics: [transferTopic, accountTopic] },
+      { address: params.tokenId, topics: [transferTopic, null, accountTopic] },
+    ]
+  }
+
+  private toChainEvent(params: SubscribeParams, log: any, index: number): ChainEvent {
+    const event: ChainEvent = {
+      kind: params.kind,
+      chain: this.chainId,
+      cursor: `${log.blockNumber}:${index}`,
+      transactionId: log.transactionHash,
+      blockNumber: log.blockNumber,
+    }
+
+    if (params.kind === 'contract-events') {
+      return { ...event, data: { address: log.address, topics: log.topics, data: log.data } }
+    }
+
+    // Transfer(address indexed from, address indexed to, uint256 value)
+    return {
+      ...event,
+      tokenId: log.address,
+      from: this.ethers.getAddress('0x' + log.topics[1].slice(26)),
+      to: this.ethers.getAddress('0x' + log.topics[2].slice(26)),
+      amount: BigInt(log.data),
+    }
+  }
 }
@@ -0,0 +1,131 @@
+/**
+ * Generic EVM Blockchain Adapter
+ *
+ * Implements the BlockchainAdapter interface for any EVM-compatible chain
+ * by extending EthereumAdapter with an EvmChainDescriptor.
+ *
+ * Everything chain-specific (chain IDs, RPC endpoints, block explorer,
+ * native currency, EIP-1559 support) comes from the descriptor, so Polygon,
+ * Arbitrum, Optimism, Avalanche C-Chain and any future L2 share one adapter.
+ *
+ * All other operations (ERC-20, ERC-721, contracts) work identically to Ethereum.
+ */
+
+import { EthereumAdapter } from './EthereumAdapter'
+import {
+  BlockchainConfiguration,
+  SupportedChain,
+} from '../core/types'
+import { ChainCapabilities, CHAIN_CAPABILITIES } from '../core/ChainCapabilities'
+import {
+  EvmChainDescriptor,
+  formatEvmExplorerUrl,
+  getEvmNetworkKey,
+} from '../core/EvmChains'
+
+/**
+ * Generic EVM Blockchain Adapter
+ *
+ * Extends EthereumAdapter with descriptor-driven configuration.
+ * All ERC-20, ERC-721, and smart contract operations are inherited.
+ */
+export class EvmAdapter extends EthereumAdapter {
+  // Metadata comes from the descriptor
+  readonly chainId: SupportedChain
+  readonly name: string
+  readonly capabilities: ChainCapabilities
+
+  protected readonly descriptor: EvmChainDescriptor
+
+  /**
+   * @param descriptor - EVM chain descriptor (see EVM_CHAIN_DESCRIPTORS)
+   */
+  constructor(descriptor: EvmChainDescriptor) {
+    super()
+    this.descriptor = descriptor
+    this.chainId = descriptor.chain
+    this.name = descriptor.displayName
+    this.capabilities = CHAIN_CAPABILITIES[descriptor.chain] || CHAIN_CAPABILITIES.ethereum
+  }
+
+  /**
+   * Get the descriptor this adapter was built from.
+   */
+  getDescriptor(): EvmChainDescriptor {
+    return this.descriptor
+  }
+
+  /**
+   * Get RPC URL for the current network.
+   * Overrides EthereumAdapter to use the descriptor's endpoints.
+   */
+  protected getRpcUrl(config: BlockchainConfiguration): string {
+    // Use custom RPC URL if provided
+    if (config.rpcUrl) {
+      return config.rpcUrl
+    }
+
+    // Use chainId-specific URL from customConfig
+    if (config.customConfig?.rpcUrl) {
+      return config.customConfig.rpcUrl
+    }
+
+    // Local node (Anvil / Hardhat) is the same for every EVM chain
+    if (this.network === 'localnet') {
+      return super.getRpcUrl(config)
+    }
+
+    // Default public RPC URL from the descriptor
+    return this.descriptor.rpcUrls[getEvmNetworkKey(this.network)][0]
+  }
+
+  /**
+   * Overrides EthereumAdapter to fail over to the descriptor's other endpoints.
+   */
+  protected getFallbackRpcUrls(): string[] {
+    return this.descriptor.rpcUrls[getEvmNetworkKey(this.network)]
+  }
+
+  /**
+   * Get expected chain ID for the current network.
+   * Overrides EthereumAdapter to use the descriptor's chain IDs.
+   */
+  protected getExpectedChainId(): number {
+    if (this.network === 'localnet') {
+      return super.getExpectedChainId()
+    }
+    return this.descriptor.chainIds[getEvmNetworkKey(this.network)]
+  }
+
+  /**
+   * Overrides EthereumAdapter to honour the descriptor's gas model.
+   */
+  protected supportsEIP1559(): boolean {
+    return this.descriptor.supportsEIP1559
+  }
+
+  /**
+   * Overrides EthereumAdapter to report fees in the chain's native currency.
+   */
+  protected getNativeCurrencySymbol(): string {
+    return this.descriptor.nativeCurrency.symbol
+  }
+
+  /**
+   * Overrides EthereumAdapter to use the descriptor's Safe Transaction Service.
+   */
+  protected getDefaultSafeTransactionServiceUrl(): string | undefined {
+    return this.descriptor.safeTransactionService?.[getEvmNetworkKey(this.network)]
+  }
+
+  /**
+   * Get block explorer URL for a transaction.
+   * Overrides EthereumAdapter to use the descriptor's explorer template.
+   */
+  getExplorerUrl(txId: string): string {
+    if (this.network === 'localnet') {
+      return this.getLocalnetExplorerUrl(txId)
+    }
+    return formatEvmExplorerUrl(this.descriptor, this.network, txId)
+  }
+}
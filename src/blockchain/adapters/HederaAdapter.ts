@@ -11,6 +11,8 @@ import {
   Client,
   AccountId,
   PrivateKey,
+  PublicKey,
+  KeyList,
   AccountBalance,
   AccountInfo,
   AccountBalanceQuery,
@@ -20,7 +22,24 @@ import {
   TokenSupplyType,
   TokenMintTransaction,
   TokenBurnTransaction,
+  TokenWipeTransaction,
+  TokenPauseTransaction,
+  TokenUnpauseTransaction,
+  TokenFreezeTransaction,
+  TokenUnfreezeTransaction,
+  TokenGrantKycTransaction,
+  TokenRevokeKycTransaction,
   TokenAssociateTransaction,
+  TokenDissociateTransaction,
+  AccountCreateTransaction,
+  AccountUpdateTransaction,
+  TokenFeeScheduleUpdateTransaction,
+  CustomFee as HederaCustomFee,
+  CustomFixedFee,
+  CustomFractionalFee,
+  CustomRoyaltyFee,
+  FeeAssessmentMethod,
+  AccountAllowanceApproveTransaction,
   TransferTransaction,
   TokenId,
   ContractCreateTransaction,
@@ -29,12 +48,19 @@ import {
   FileCreateTransaction,
   FileAppendTransaction,
   TopicCreateTransaction,
+  TopicUpdateTransaction,
   TopicMessageSubmitTransaction,
   TopicId,
+  ScheduleCreateTransaction,
+  ScheduleSignTransaction,
+  ScheduleInfoQuery,
+  ScheduleInfo,
   Hbar,
   TransactionResponse,
   TransactionReceipt,
   TransactionId,
+  Timestamp,
+  Transaction as HederaTransaction,
   TransactionReceiptQuery,
   TransactionRecordQuery,
   Status,
@@ -50,8 +76,20 @@ import {
   CreateNFTParams,
   NFTResult,
   MintNFTParams,
+  MintTokenParams,
+  BurnTokenParams,
+  TokenAccountParams,
+  WipeTokenParams,
   TransferParams,
+  ApproveParams,
+  AllowanceParams,
+  TransferFromParams,
   TransferNFTParams,
+  CreateMultiTokenParams,
+  MultiTokenResult,
+  MultiTokenItemParams,
+  MintBatchParams,
+  TransferBatchParams,
   TransactionResult,
   BalanceParams,
   DeployContractParams,
@@ -61,18 +99,61 @@ import {
   WalletConnection,
   Transaction,
   SignedTransaction,
+  BuildTransactionOptions,
+  UnsignedTransaction,
   GasPrice,
   EstimateFeeParams,
   FeeEstimate,
+  SimulationRequest,
+  SimulationResult,
+  BalanceChange,
   TransactionStatus as BlockchainTransactionStatus,
+  SubscribeParams,
+  ChainEvent,
+  ProposalAction,
+  CustomFee,
+  UpdateTokenFeesParams,
+  AssociateTokenParams,
+  TokenAssociation,
+  ProposeTransactionParams,
+  ListProposalsParams,
+  MultisigProposal,
   NetworkType,
   BlockchainError,
   BlockchainErrorCode,
+  Signer,
 } from '../core/types'
 import {
   CHAIN_CAPABILITIES,
   CHAIN_METADATA,
 } from '../core/ChainCapabilities'
+import {
+  getLocalnetDevAccount,
+  getLocalnetEndpoints,
+} from '../core/Localnet'
+import { EventPage } from '../core/Subscription'
+import { derivePrivateKey } from '../core/HdWallet'
+import { createSigner, createHederaSigner } from '../core/Signer'
+import { summarizeTransaction } from '../core/OfflineTransaction'
+import {
+  HCS_CHUNK_SIZE,
+  TopicMessage,
+  countTopicChunks,
+  parseMirrorTopicMessage,
+} from '../core/ConsensusTopic'
+import {
+  MirrorNodeClient,
+  MirrorSchedule,
+  MirrorTopicMessage,
+  MirrorTransaction,
+  getMirrorNodeUrl,
+} from '../core/MirrorNode'
+
+// Mirror node rows fetched per subscription poll (the API maximum)
+const MIRROR_EVENT_PAGE_SIZE = 100
+
+// How long the mirror node may not yet show an association made here
+const MIRROR_ASSOCIATION_LAG_MS = 60_000
 
 /**
  * Hedera Blockchain Adapter.
@@ -89,7 +170,10 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
   // Hedera-specific client
   private client?: Client
   private operatorAccountId?: AccountId
-  private operatorPrivateKey?: PrivateKey
+  private operatorPublicKey?: PublicKey
+
+  // Associations made through this adapter (`account/token` -> time), for mirror node lag
+  private recentAssociations = new Map<string, number>()
 
   // Browser wallet integration
   private hashConnectInstance?: any
@@ -121,41 +205,62 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
    */
   async initialize(config: BlockchainConfiguration): Promise<void> {
     try {
+      // Set network
+      this.network = config.network || 'testnet'
+      this.config = config
+
+      // Fail over between mirror nodes, then record or replay gRPC and REST traffic
+      this.openRpcPool(config.mirrorNodeUrls?.length ? config.mirrorNodeUrls : [getMirrorNodeUrl(this.network, config)], config)
+      await this.openRecorder(config)
+
+      // Local node comes with a funded genesis account; replays never reach a real node
+      const useDevAccount = this.network === 'localnet' || this.isReplaying()
+      const devAccount = useDevAccount ? getLocalnetDevAccount('hedera') : undefined
+      const accountId = config.credentials?.accountId || devAccount?.address
+      const signer = config.signer ? createSigner(config.signer) : undefined
+      const privateKey = signer ? undefined : config.credentials?.privateKey
+        || await derivePrivateKey('hedera', config.credentials)
+        || devAccount?.privateKey
+
       // Validate configuration
-      if (!config.credentials?.accountId || !config.credentials?.privateKey) {
+      if (!accountId || (!signer && !privateKey)) {
         throw new BlockchainError(
           BlockchainErrorCode.INVALID_CREDENTIALS,
-          'Hedera requires accountId and privateKey in credentials'
+          'Hedera requires accountId and privateKey (or mnemonic or a signer) in credentials'
         )
       }
 
-      // Set network
-      this.network = config.network || 'testnet'
-
       // Create client based on network
-      if (this.network === 'mainnet') {
-        this.client = Client.forMainnet()
-      } else if (this.network === 'testnet') {
-        this.client = Client.forTestnet()
+      if (this.network === 'mainnet' || this.network === 'testnet') {
+        this.client = this.createClient(this.network)
+      } else if (this.network === 'localnet') {
+        const endpoints = getLocalnetEndpoints('hedera', config)
+        this.client = this.createClient({ [endpoints.rpcUrl]: endpoints.nodeAccountId! })
+        this.client.setMirrorNetwork(endpoints.mirrorNodeGrpc!)
       } else {
         throw new BlockchainError(
           BlockchainErrorCode.NETWORK_ERROR,
-          `Unsupported network: ${this.network}. Use 'testnet' or 'mainnet'.`
+          `Unsupported network: ${this.network}. Use 'testnet', 'mainnet' or 'localnet'.`
         )
       }
 
       // Parse credentials
-      this.operatorAccountId = AccountId.fromString(config.credentials.accountId)
-      this.operatorPrivateKey = PrivateKey.fromString(config.credentials.privateKey)
+      this.operatorAccountId = AccountId.fromString(accountId)
 
-      // Set operator
-      this.client.setOperator(this.operatorAccountId, this.operatorPrivateKey)
+      // Set operator: sign in process, or through the configured signer
+      if (signer) {
+        this.operatorPublicKey = await this.setOperatorSigner(signer)
+      } else {
+        const operatorKey = PrivateKey.fromString(privateKey!)
+        this.operatorPublicKey = operatorKey.publicKey
+        this.client.setOperator(this.operatorAccountId, operatorKey)
+      }
 
       // Mark as connected
       this._isConnected = true
 
       // Log successful initialization (optional - could integrate with logger)
-      console.log(`HederaAdapter initialized for ${this.network} with account ${config.credentials.accountId}`)
+      console.log(`HederaAdapter initialized for ${this.network} with account ${accountId}`)
     } catch (error: any) {
       throw new BlockchainError(
         BlockchainErrorCode.UNKNOWN,
@@ -165,6 +270,51 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
     }
   }
 
+  /**
+   * Mirror node REST client for the current network
+   * (through the recorder / endpoint pool if configured).
+   */
+  getMirrorNode(): MirrorNodeClient {
+    return new MirrorNodeClient(getMirrorNodeUrl(this.network, this.config), {
+      fetch: this.getRpcFetch(),
+    })
+  }
+
+  /**
+   * Create an SDK client for a named network or an explicit node map.
+   * With record/replay on, gRPC calls go through the recorder.
+   */
+  private createClient(network: 'mainnet' | 'testnet' | Record<string, string>): Client {
+    if (!this.recorder) {
+      if (network === 'mainnet') return Client.forMainnet()
+      if (network === 'testnet') return Client.forTestnet()
+      return Client.forNetwork(network)
+    }
+
+    // The SDK creates node channels from the client constructor, so the
+    // channel factory has to be swapped in a subclass
+    const recorder = this.recorder
+    const RecordingClient: any = class extends (Client as any) {
+      _createNetworkChannel() {
+        return recorder.wrapGrpcChannelFactory(super._createNetworkChannel())
+      }
+    }
+    return new RecordingClient({ network, scheduleNetworkUpdate: false })
+  }
+
+  /**
+   * Make an external signer the client's operator.
+   *
+   * @returns Operator public key
+   */
+  private async setOperatorSigner(signer: Signer): Promise<PublicKey> {
+    const { publicKey, transactionSigner } = await createHederaSigner(
+      { PublicKey }, signer, { chain: this.chainId, network: this.network }
+    )
+    this.client!.setOperatorWith(this.operatorAccountId!, publicKey, transactionSigner)
+    return publicKey
+  }
+
   /**
    * Disconnect and close the Hedera client.
    */
@@ -173,8 +323,11 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       this.client.close()
       this.client = undefined
       this.operatorAccountId = undefined
-      this.operatorPrivateKey = undefined
+      this.operatorPublicKey = undefined
     }
+    await this.recorder?.flush()
+    this.recorder = undefined
+    this.rpcPool = undefined
     this._isConnected = false
   }
 
@@ -187,13 +340,16 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
   async createToken(params: CreateTokenParams): Promise<TokenResult> {
     this.ensureInitialized()
 
-    if (!this.client || !this.operatorPrivateKey) {
+    if (!this.client || !this.operatorPublicKey) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
         'Client not initialized'
       )
     }
 
+    const customFees = this.getCustomFees(params, this.operatorAccountId!.toString())
+    this.validateCustomFees(customFees, 'fungible', 'createToken')
+
     try {
       // Create token transaction
       const tokenCreateTx = new TokenCreateTransaction()
@@ -209,20 +365,32 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       // Add keys if specified - check in customFields since metadata might not have these
       const customFields = params.metadata?.customFields || {}
       if (customFields.adminKey !== false) {
-        tokenCreateTx.setAdminKey(this.operatorPrivateKey.publicKey)
+        tokenCreateTx.setAdminKey(this.operatorPublicKey)
       }
       if (customFields.supplyKey !== false) {
-        tokenCreateTx.setSupplyKey(this.operatorPrivateKey.publicKey)
+        tokenCreateTx.setSupplyKey(this.operatorPublicKey)
       }
-      if (customFields.freezeKey) {
-        tokenCreateTx.setFreezeKey(this.operatorPrivateKey.publicKey)
+      if (customFields.freezeKey || params.freezable) {
+        tokenCreateTx.setFreezeKey(this.operatorPublicKey)
       }
       if (customFields.wipeKey) {
-        tokenCreateTx.setWipeKey(this.operatorPrivateKey.publicKey)
+        tokenCreateTx.setWipeKey(this.operatorPublicKey)
+      }
+      if (customFields.pauseKey || params.pausable) {
+        tokenCreateTx.setPauseKey(this.operatorPublicKey)
+      }
+      if (customFields.kycKey) {
+        tokenCreateTx.setKycKey(this.operatorPublicKey)
       }
       if (customFields.freezeDefault) {
         tokenCreateTx.setFreezeDefault(true)
       }
+      if (customFees.length > 0) {
+        tokenCreateTx.setCustomFees(this.toHederaCustomFees(customFees))
+      }
+      if (customFees.length > 0 || customFields.feeScheduleKey) {
+        tokenCreateTx.setFeeScheduleKey(this.operatorPublicKey)
+      }
 
       // Execute transaction
       const txResponse: TransactionResponse = await tokenCreateTx.execute(this.client)
@@ -280,6 +448,7 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       const tokenId = TokenId.fromString(params.tokenId)
       const fromAccount = this.operatorAccountId! // Sender is the operator
       const toAccount = AccountId.fromString(params.to)
+      await this.ensureCanReceive(params.to, [params.tokenId])
 
       // Create transfer transaction
       const transferTx = new TransferTransaction()
@@ -336,6 +505,468 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
     }
   }
 
+  /**
+   * Approve a spender for the operator's HTS tokens.
+   *
+   * @param params - Approval parameters
+   * @returns Transaction result
+   */
+  async approveToken(params: ApproveParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    return this.executeTokenTransaction('Token allowance approval', () =>
+      new AccountAllowanceApproveTransaction()
+        .approveTokenAllowance(
+          TokenId.fromString(params.tokenId),
+          this.operatorAccountId!,
+          AccountId.fromString(params.spender),
+          Number(params.amount)
+        )
+    )
+  }
+
+  /**
+   * Get a token allowance from the mirror node
+   * (allowances are not queryable from consensus nodes).
+   *
+   * @param params - Allowance query parameters
+   * @returns Remaining allowance as bigint
+   */
+  async getAllowance(params: AllowanceParams): Promise<bigint> {
+    this.ensureInitialized()
+
+    try {
+      const mirrorNode = this.getMirrorNode()
+      const [allowance] = await mirrorNode.collect(mirrorNode.listTokenAllowances(params.owner, {
+        'spender.id': params.spender,
+        'token.id': params.tokenId,
+      }), 1)
+      return BigInt(allowance?.amount ?? 0)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Failed to query allowance: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Spend an allowance granted to the operator (approved transfer).
+   *
+   * @param params - Delegated transfer parameters
+   * @returns Transaction result
+   */
+  async transferFrom(params: TransferFromParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    return this.executeTokenTransaction('Approved token transfer', () => {
+      const tokenId = TokenId.fromString(params.tokenId)
+      const transferTx = new TransferTransaction()
+        .addApprovedTokenTransfer(tokenId, AccountId.fromString(params.from), -Number(params.amount))
+        .addTokenTransfer(tokenId, AccountId.fromString(params.to), Number(params.amount))
+
+      if (params.memo) {
+        transferTx.setTransactionMemo(params.memo)
+      }
+      return transferTx
+    })
+  }
+
+  /**
+   * Mint additional supply of an HTS token (requires the supply key).
+   * HTS mints to the treasury; a different recipient receives a follow-up transfer.
+   *
+   * @param params - Mint parameters
+   * @returns Transaction result
+   */
+  async mintToken(params: MintTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenMint', 'mintToken')
+
+    const result = await this.executeTokenTransaction('Token mint', () =>
+      new TokenMintTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setAmount(Number(params.amount))
+    )
+
+    if (params.to && params.to !== this.operatorAccountId?.toString()) {
+      return this.transferToken({ tokenId: params.tokenId, to: params.to, amount: params.amount })
+    }
+    return result
+  }
+
+  /**
+   * Burn HTS tokens from the treasury (requires the supply key).
+   *
+   * @param params - Burn parameters
+   * @returns Transaction result
+   */
+  async burnToken(params: BurnTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenBurn', 'burnToken')
+
+    return this.executeTokenTransaction('Token burn', () =>
+      new TokenBurnTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setAmount(Number(params.amount))
+    )
+  }
+
+  /**
+   * Pause an HTS token (requires the pause key).
+   *
+   * @param tokenId - Token ID
+   * @returns Transaction result
+   */
+  async pauseToken(tokenId: string): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenPause', 'pauseToken')
+
+    return this.executeTokenTransaction('Token pause', () =>
+      new TokenPauseTransaction().setTokenId(TokenId.fromString(tokenId))
+    )
+  }
+
+  /**
+   * Unpause an HTS token (requires the pause key).
+   *
+   * @param tokenId - Token ID
+   * @returns Transaction result
+   */
+  async unpauseToken(tokenId: string): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenPause', 'unpauseToken')
+
+    return this.executeTokenTransaction('Token unpause', () =>
+      new TokenUnpauseTransaction().setTokenId(TokenId.fromString(tokenId))
+    )
+  }
+
+  /**
+   * Freeze an account for an HTS token (requires the freeze key).
+   *
+   * @param params - Token and account
+   * @returns Transaction result
+   */
+  async freezeAccount(params: TokenAccountParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenFreeze', 'freezeAccount')
+
+    return this.executeTokenTransaction('Account freeze', () =>
+      new TokenFreezeTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setAccountId(AccountId.fromString(params.account))
+    )
+  }
+
+  /**
+   * Unfreeze an account for an HTS token (requires the freeze key).
+   *
+   * @param params - Token and account
+   * @returns Transaction result
+   */
+  async unfreezeAccount(params: TokenAccountParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenFreeze', 'unfreezeAccount')
+
+    return this.executeTokenTransaction('Account unfreeze', () =>
+      new TokenUnfreezeTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setAccountId(AccountId.fromString(params.account))
+    )
+  }
+
+  /**
+   * Wipe HTS tokens from an account (requires the wipe key).
+   *
+   * @param params - Token, account and amount
+   * @returns Transaction result
+   */
+  async wipeToken(params: WipeTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenWipe', 'wipeToken')
+
+    return this.executeTokenTransaction('Token wipe', () =>
+      new TokenWipeTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setAccountId(AccountId.fromString(params.account))
+        .setAmount(Number(params.amount))
+    )
+  }
+
+  /**
+   * Grant KYC for an HTS token to an account (requires the KYC key).
+   *
+   * @param params - Token and account
+   * @returns Transaction result
+   */
+  async grantKyc(params: TokenAccountParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenKyc', 'grantKyc')
+
+    return this.executeTokenTransaction('KYC grant', () =>
+      new TokenGrantKycTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setAccountId(AccountId.fromString(params.account))
+    )
+  }
+
+  /**
+   * Revoke KYC for an HTS token from an account (requires the KYC key).
+   *
+   * @param params - Token and account
+   * @returns Transaction result
+   */
+  async revokeKyc(params: TokenAccountParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenKyc', 'revokeKyc')
+
+    return this.executeTokenTransaction('KYC revoke', () =>
+      new TokenRevokeKycTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setAccountId(AccountId.fromString(params.account))
+    )
+  }
+
+  /**
+   * Replace an HTS token's custom fees (requires the fee schedule key, which
+   * tokens created with fees get).
+   *
+   * @param params - Token and its new fees (empty removes them)
+   * @returns Transaction result
+   */
+  async updateTokenFees(params: UpdateTokenFeesParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.validateCustomFees(params.customFees, 'any', 'updateTokenFees')
+
+    return this.executeTokenTransaction('Fee schedule update', () =>
+      new TokenFeeScheduleUpdateTransaction()
+        .setTokenId(TokenId.fromString(params.tokenId))
+        .setCustomFees(this.toHederaCustomFees(params.customFees))
+    )
+  }
+
+  /**
+   * HTS custom fees for fee definitions. Basis points become fractions of
+   * 10000; fixed fees without a token are in tinybars.
+   */
+  private toHederaCustomFees(fees: CustomFee[]): HederaCustomFee[] {
+    return fees.map((fee): HederaCustomFee => {
+      switch (fee.type) {
+        case 'fixed':
+          return this.toHederaFixedFee(fee.amount, fee.tokenId)
+            .setFeeCollectorAccountId(fee.collector)
+
+        case 'fractional': {
+          const fractional = new CustomFractionalFee()
+            .setNumerator(fee.basisPoints)
+            .setDenominator(10000)
+            .setAssessmentMethod(fee.netOfTransfers ? FeeAssessmentMethod.Exclusive : FeeAssessmentMethod.Inclusive)
+          if (fee.minimum !== undefined) fractional.setMin(Number(fee.minimum))
+          if (fee.maximum !== undefined) fractional.setMax(Number(fee.maximum))
+          return fractional.setFeeCollectorAccountId(fee.collector)
+        }
+
+        case 'royalty': {
+          const royalty = new CustomRoyaltyFee()
+            .setNumerator(fee.basisPoints)
+            .setDenominator(10000)
+          if (fee.fallbackFee) {
+            royalty.setFallbackFee(this.toHederaFixedFee(fee.fallbackFee.amount, fee.fallbackFee.tokenId))
+          }
+          return royalty.setFeeCollectorAccountId(fee.collector)
+        }
+      }
+    })
+  }
+
+  /**
+   * Helper to build a fixed fee in token units, or in tinybars without a token.
+   */
+  private toHederaFixedFee(amount: string | bigint, tokenId?: string): CustomFixedFee {
+    return tokenId
+      ? new CustomFixedFee().setAmount(Number(amount)).setDenominatingTokenId(TokenId.fromString(tokenId))
+      : new CustomFixedFee().setHbarAmount(Hbar.fromTinybars(amount.toString()))
+  }
+
+  /**
+   * Associate HTS tokens with an account. Signed by the operator, so the
+   * account must be the operator's or share its key.
+   *
+   * @param params - Tokens and account (default: the operator)
+   * @returns Transaction result
+   */
+  async associateToken(params: AssociateTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    const account = params.account || this.operatorAccountId!.toString()
+    const result = await this.executeTokenTransaction('Token association', () =>
+      new TokenAssociateTransaction()
+        .setAccountId(AccountId.fromString(account))
+        .setTokenIds(params.tokenIds.map(tokenId => TokenId.fromString(tokenId)))
+    )
+
+    for (const tokenId of params.tokenIds) {
+      this.recentAssociations.set(`${account}/${tokenId}`, Date.now())
+    }
+    return result
+  }
+
+  /**
+   * Dissociate HTS tokens from an account (its balances must be zero).
+   *
+   * @param params - Tokens and account (default: the operator)
+   * @returns Transaction result
+   */
+  async dissociateToken(params: AssociateTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    const account = params.account || this.operatorAccountId!.toString()
+    const result = await this.executeTokenTransaction('Token dissociation', () =>
+      new TokenDissociateTransaction()
+        .setAccountId(AccountId.fromString(account))
+        .setTokenIds(params.tokenIds.map(tokenId => TokenId.fromString(tokenId)))
+    )
+
+    for (const tokenId of params.tokenIds) {
+      this.recentAssociations.delete(`${account}/${tokenId}`)
+    }
+    return result
+  }
+
+  /**
+   * Whether an account can receive a token, from the mirror node: its token
+   * relationship (freeze and KYC status), or else its free automatic
+   * association slots.
+   *
+   * @param params - Token and account
+   * @returns Association status
+   */
+  async getTokenAssociation(params: TokenAccountParams): Promise<TokenAssociation> {
+    this.ensureInitialized()
+
+    const { tokenId, account } = params
+    const mirrorNode = this.getMirrorNode()
+
+    const [relationship] = await mirrorNode.collect(mirrorNode.listAccountTokens(account, { 'token.id': tokenId }), 1)
+    if (relationship) {
+      const frozen = relationship.freeze_status === 'FROZEN'
+      const kycGranted = relationship.kyc_status !== 'REVOKED'
+      return {
+        tokenId,
+        account,
+        associated: true,
+        canReceive: !frozen && kycGranted,
+        automatic: relationship.automatic_association,
+        frozen,
+        kycGranted,
+      }
+    }
+
+    // Slots: 0 = none, -1 = unlimited, otherwise a limit on automatic associations
+    const { max_automatic_token_associations: maxAutoAssociations = 0 } = await mirrorNode.getAccount(account)
+    const usedAutoAssociations = maxAutoAssociations > 0
+      ? (await mirrorNode.collect(mirrorNode.listAccountTokens(account))).filter(token => token.automatic_association).length
+      : 0
+
+    return {
+      tokenId,
+      account,
+      associated: false,
+      canReceive: maxAutoAssociations === -1 || usedAutoAssociations < maxAutoAssociations,
+      maxAutoAssociations,
+      usedAutoAssociations,
+    }
+  }
+
+  /**
+   * Helper to stop transfers the network would reject with
+   * TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, ACCOUNT_FROZEN_FOR_TOKEN or
+   * ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN. Transfers go ahead when the mirror
+   * node cannot tell (it lags new accounts by a few seconds), or reports no
+   * association for a token associated through this adapter moments ago;
+   * customConfig.associationCheck = false skips the check.
+   */
+  private async ensureCanReceive(account: string, tokenIds: string[]): Promise<void> {
+    if (this.config?.customConfig?.associationCheck === false || account === this.operatorAccountId?.toString()) {
+      return
+    }
+
+    for (const tokenId of new Set(tokenIds)) {
+      let association: TokenAssociation
+      try {
+        association = await this.getTokenAssociation({ tokenId, account })
+      } catch {
+        return
+      }
+
+      if (!association.associated && this.isRecentlyAssociated(account, tokenId)) {
+        continue
+      }
+      if (!association.canReceive) {
+        throw new BlockchainError(
+          BlockchainErrorCode.TRANSACTION_FAILED,
+          this.describeAssociationProblem(association),
+          association
+        )
+      }
+    }
+  }
+
+  private isRecentlyAssociated(account: string, tokenId: string): boolean {
+    const associatedAt = this.recentAssociations.get(`${account}/${tokenId}`)
+    return associatedAt !== undefined && Date.now() - associatedAt < MIRROR_ASSOCIATION_LAG_MS
+  }
+
+  /**
+   * Why an account cannot receive a token, and what fixes it.
+   */
+  private describeAssociationProblem(association: TokenAssociation): string {
+    const { account, tokenId } = association
+
+    if (association.frozen) {
+      return `Account ${account} is frozen for token ${tokenId}; the token's freeze key must unfreeze it`
+    }
+    if (association.kycGranted === false) {
+      return `Account ${account} has not been granted KYC for token ${tokenId}; the token's KYC key must grant it`
+    }
+    const slots = association.maxAutoAssociations
+      ? `its ${association.maxAutoAssociations} automatic association slots are used`
+      : 'it has no automatic association slots'
+    return `Account ${account} has not associated token ${tokenId} and ${slots}. `
+      + 'The account must associate the token first (associateToken, signed by its key)'
+  }
+
+  /**
+   * Helper to execute a token lifecycle transaction and wait for its receipt.
+   */
+  private async executeTokenTransaction(
+    operation: string,
+    buildTransaction: () => any
+  ): Promise<TransactionResult> {
+    if (!this.client) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Client not initialized'
+      )
+    }
+
+    try {
+      const transaction = buildTransaction().setMaxTransactionFee(new Hbar(2))
+      const txResponse: TransactionResponse = await transaction.execute(this.client)
+      await txResponse.getReceipt(this.client)
+
+      return this.createTransactionResult(txResponse)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `${operation} failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
   /**
    * Create an NFT collection using HTS.
    *
@@ -345,13 +976,16 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
   async createNFT(params: CreateNFTParams): Promise<NFTResult> {
     this.ensureInitialized()
 
-    if (!this.client || !this.operatorPrivateKey) {
+    if (!this.client || !this.operatorPublicKey) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
         'Client not initialized'
       )
     }
 
+    const customFees = this.getCustomFees(params, this.operatorAccountId!.toString())
+    this.validateCustomFees(customFees, 'nft', 'createNFT')
+
     try {
       // Create NFT collection transaction
       const nftCreateTx = new TokenCreateTransaction()
@@ -360,13 +994,21 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
         .setTokenType(TokenType.NonFungibleUnique)
         .setSupplyType(TokenSupplyType.Infinite)
         .setTreasuryAccountId(this.operatorAccountId!)
-        .setSupplyKey(this.operatorPrivateKey.publicKey)
+        .setSupplyKey(this.operatorPublicKey)
         .setMaxTransactionFee(new Hbar(30))
 
       // Check in properties for admin key
       const properties = params.metadata?.properties || {}
       if (properties.adminKey !== false) {
-        nftCreateTx.setAdminKey(this.operatorPrivateKey.publicKey)
+        nftCreateTx.setAdminKey(this.operatorPublicKey)
+      }
+
+      // Royalties are charged by the network on every transfer that pays for the NFT
+      if (customFees.length > 0) {
+        nftCreateTx.setCustomFees(this.toHederaCustomFees(customFees))
+      }
+      if (customFees.length > 0 || properties.feeScheduleKey) {
+        nftCreateTx.setFeeScheduleKey(this.operatorPublicKey)
       }
 
       // Execute transaction
@@ -459,6 +1101,7 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       const fromAccount = this.operatorAccountId! // Sender is the operator
       const toAccount = AccountId.fromString(params.to)
       const serialNumber = typeof params.nftId === 'string' ? parseInt(params.nftId) : params.nftId
+      await this.ensureCanReceive(params.to, [params.tokenId])
 
       // Transfer NFT
       const transferTx = new TransferTransaction()
@@ -479,15 +1122,220 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
   }
 
   /**
-   * Deploy a smart contract to Hedera.
+   * Create a multi-token collection with HTS.
+   * Fungible items become HTS fungible tokens (0 decimals); unique items become
+   * serials of one HTS NFT token, minted to the treasury on creation.
+   * HTS has no collection object, so the treasury account is the collection ID.
    *
-   * @param params - Contract deployment parameters
-   * @returns Contract deployment result
+   * @param params - Collection parameters
+   * @returns Collection result (unique item token IDs are "tokenId/serial")
    */
-  async deployContract(params: DeployContractParams): Promise<ContractResult> {
+  async createMultiToken(params: CreateMultiTokenParams): Promise<MultiTokenResult> {
     this.ensureInitialized()
+    this.validateMultiTokenItems(params)
 
-    if (!this.client || !this.operatorPrivateKey) {
+    if (!this.client || !this.operatorPublicKey) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Client not initialized'
+      )
+    }
+
+    try {
+      const tokenIds = new Map<number, string>()
+      const transactions: TransactionResult[] = []
+
+      for (const item of params.items.filter(item => item.fungible)) {
+        const { tokenId, transaction } = await this.createCollectionToken(
+          new TokenCreateTransaction()
+            .setTokenName(`${params.name}: ${item.name}`)
+            .setTokenSymbol(params.symbol)
+            .setDecimals(0)
+            .setInitialSupply(Number(item.initialSupply ?? 0))
+            .setTokenType(TokenType.FungibleCommon)
+            .setSupplyType(TokenSupplyType.Infinite)
+        )
+        tokenIds.set(item.id, tokenId)
+        transactions.push(transaction)
+      }
+
+      const uniqueItems = params.items.filter(item => !item.fungible)
+      if (uniqueItems.length > 0) {
+        const { tokenId, transaction } = await this.createCollectionToken(
+          new TokenCreateTransaction()
+            .setTokenName(params.name)
+            .setTokenSymbol(params.symbol)
+            .setTokenType(TokenType.NonFungibleUnique)
+            .setSupplyType(TokenSupplyType.Finite)
+            .setMaxSupply(uniqueItems.length)
+        )
+        transactions.push(transaction)
+
+        // HTS mints at most 10 serials per transaction
+        for (let start = 0; start < uniqueItems.length; start += 10) {
+          const batch = uniqueItems.slice(start, start + 10)
+          const txResponse: TransactionResponse = await new TokenMintTransaction()
+            .setTokenId(TokenId.fromString(tokenId))
+            .setMetadata(batch.map(item => this.getItemMetadata(params, item)))
+            .setMaxTransactionFee(new Hbar(10))
+            .execute(this.client)
+          const receipt: TransactionReceipt = await txResponse.getReceipt(this.client)
+
+          receipt.serials.forEach((serial, index) => {
+            tokenIds.set(batch[index].id, `${tokenId}/${serial.toString()}`)
+          })
+          transactions.push(this.createTransactionResult(txResponse))
+        }
+      }
+
+      const lastTransaction = transactions[transactions.length - 1]
+      return {
+        collectionId: this.operatorAccountId!.toString(),
+        items: params.items.map(item => ({
+          id: item.id,
+          name: item.name,
+          fungible: item.fungible,
+          tokenId: tokenIds.get(item.id)!,
+        })),
+        transaction: {
+          ...lastTransaction,
+          customData: { transactionIds: transactions.map(tx => tx.transactionId) },
+        },
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Multi-token collection creation failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Mint fungible items of a collection.
+   * HTS mints one token per transaction into the treasury; a different
+   * recipient receives the minted items in one follow-up transfer.
+   *
+   * @param params - Batch mint parameters
+   * @returns Last transaction (customData lists all of them)
+   */
+  async mintBatch(params: MintBatchParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureBatchItems('mintBatch', params.items)
+
+    const uniqueItem = params.items.find(item => item.tokenId.includes('/'))
+    if (uniqueItem) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Item ${uniqueItem.tokenId} is unique and was minted when the collection was created`
+      )
+    }
+
+    const results: TransactionResult[] = []
+    for (const item of params.items) {
+      results.push(await this.executeTokenTransaction('Batch mint', () =>
+        new TokenMintTransaction()
+          .setTokenId(TokenId.fromString(item.tokenId))
+          .setAmount(Number(item.amount))
+      ))
+    }
+    if (params.to !== this.operatorAccountId?.toString()) {
+      results.push(await this.transferBatch(params))
+    }
+
+    return {
+      ...results[results.length - 1],
+      customData: { transactionIds: results.map(result => result.transactionId) },
+    }
+  }
+
+  /**
+   * Transfer items of a collection in one atomic HTS transfer.
+   *
+   * @param params - Batch transfer parameters
+   * @returns Transaction result
+   */
+  async transferBatch(params: TransferBatchParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureBatchItems('transferBatch', params.items)
+
+    const fromAccount = this.operatorAccountId! // Sender is the operator
+    const toAccount = AccountId.fromString(params.to)
+    await this.ensureCanReceive(params.to, params.items.map(item => item.tokenId.split('/')[0]))
+
+    return this.executeTokenTransaction('Batch transfer', () => {
+      const transferTx = new TransferTransaction()
+
+      for (const item of params.items) {
+        const [tokenId, serial] = item.tokenId.split('/')
+        if (serial === undefined) {
+          transferTx
+            .addTokenTransfer(TokenId.fromString(tokenId), fromAccount, -Number(item.amount))
+            .addTokenTransfer(TokenId.fromString(tokenId), toAccount, Number(item.amount))
+        } else if (BigInt(item.amount) !== BigInt(1)) {
+          throw new Error(`Unique item ${item.tokenId} has a supply of 1`)
+        } else {
+          transferTx.addNftTransfer(TokenId.fromString(tokenId), Number(serial), fromAccount, toAccount)
+        }
+      }
+
+      if (params.memo) {
+        transferTx.setTransactionMemo(params.memo)
+      }
+      return transferTx
+    })
+  }
+
+  /**
+   * Helper to create one token of a multi-token collection, treasury and keys
+   * owned by the operator.
+   */
+  private async createCollectionToken(
+    tokenCreateTx: TokenCreateTransaction
+  ): Promise<{ tokenId: string; transaction: TransactionResult }> {
+    const txResponse: TransactionResponse = await tokenCreateTx
+      .setTreasuryAccountId(this.operatorAccountId!)
+      .setAdminKey(this.operatorPublicKey!)
+      .setSupplyKey(this.operatorPublicKey!)
+      .setMaxTransactionFee(new Hbar(30))
+      .execute(this.client!)
+    const receipt: TransactionReceipt = await txResponse.getReceipt(this.client!)
+
+    if (!receipt.tokenId) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        'Token ID not received in transaction receipt'
+      )
+    }
+
+    return {
+      tokenId: receipt.tokenId.toString(),
+      transaction: this.createTransactionResult(txResponse),
+    }
+  }
+
+  /**
+   * Helper to build the serial metadata of a unique item: the collection URI
+   * with {id} filled in (ERC-1155 style), or the item's ID and name.
+   * HTS limits NFT metadata to 100 bytes.
+   */
+  private getItemMetadata(params: CreateMultiTokenParams, item: MultiTokenItemParams): Buffer {
+    const metadata = params.uri
+      ? params.uri.replace('{id}', item.id.toString(16).padStart(64, '0'))
+      : JSON.stringify({ id: item.id, name: item.name })
+    return Buffer.from(metadata)
+  }
+
+  /**
+   * Deploy a smart contract to Hedera.
+   *
+   * @param params - Contract deployment parameters
+   * @returns Contract deployment result
+   */
+  async deployContract(params: DeployContractParams): Promise<ContractResult> {
+    this.ensureInitialized()
+
+    if (!this.client || !this.operatorPublicKey) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
         'Client not initialized'
@@ -503,7 +1351,7 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       // Step 1: Create a file to store bytecode
       const fileCreateTx = new FileCreateTransaction()
         .setContents(contractCode)
-        .setKeys([this.operatorPrivateKey.publicKey])
+        .setKeys([this.operatorPublicKey])
         .setMaxTransactionFee(new Hbar(2))
 
       const fileResponse = await fileCreateTx.execute(this.client)
@@ -573,8 +1421,15 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
     }
 
     try {
-      // Execute contract function (state-changing call)
       const gasLimit = params.gas ? Number(params.gas) : 100000
+
+      // With an ABI (args[0].abi, as on EVM chains) arguments are encoded
+      const abi = params.args?.[0]?.abi
+      if (abi) {
+        return await this.callContractWithAbi(params, abi, gasLimit)
+      }
+
+      // Execute contract function (state-changing call)
       const contractCallTx = new ContractExecuteTransaction()
         .setContractId(params.contractAddress)
         .setGas(gasLimit)
@@ -607,6 +1462,66 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
     }
   }
 
+  /**
+   * Helper to call a function described by a Solidity ABI. Arguments are
+   * ABI-encoded with ethers; view and pure functions run as a (free)
+   * ContractCallQuery and return the decoded result, like eth_call.
+   */
+  private async callContractWithAbi(params: CallContractParams, abi: any[], gasLimit: number): Promise<any> {
+    const { Interface } = await this.loadEthers()
+    const contractInterface = new Interface(abi)
+    const fragment = contractInterface.getFunction(params.methodName)
+    const encoded: string = contractInterface.encodeFunctionData(params.methodName, params.args!.slice(1))
+    const data = Buffer.from(encoded.slice(2), 'hex')
+
+    if (fragment?.constant || ['view', 'pure'].includes(fragment?.stateMutability)) {
+      const result = await new ContractCallQuery()
+        .setContractId(params.contractAddress)
+        .setGas(gasLimit)
+        .setFunctionParameters(data)
+        .execute(this.client!)
+
+      const decoded = contractInterface.decodeFunctionResult(
+        params.methodName,
+        '0x' + Buffer.from(result.bytes).toString('hex')
+      )
+      return decoded.length === 1 ? decoded[0] : decoded
+    }
+
+    const contractCallTx = new ContractExecuteTransaction()
+      .setContractId(params.contractAddress)
+      .setGas(gasLimit)
+      .setFunctionParameters(data)
+      .setMaxTransactionFee(new Hbar(2))
+
+    if (params.value) {
+      contractCallTx.setPayableAmount(Hbar.fromTinybars(Number(params.value)))
+    }
+
+    const callResponse = await contractCallTx.execute(this.client!)
+    const callReceipt = await callResponse.getReceipt(this.client!)
+
+    return {
+      transactionHash: callResponse.transactionId.toString(),
+      status: callReceipt.status.toString(),
+      explorerUrl: this.getExplorerUrl(callResponse.transactionId.toString()),
+    }
+  }
+
+  /**
+   * Load ethers.js (ABI encoding for callContract). Can be mocked in tests.
+   */
+  protected async loadEthers(): Promise<any> {
+    try {
+      return await import('ethers')
+    } catch {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        'ethers.js not installed. Run: npm install ethers'
+      )
+    }
+  }
+
   /**
    * Connect a browser wallet (HashPack, Blade).
    *
@@ -820,10 +1735,10 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
   async signTransaction(tx: Transaction): Promise<SignedTransaction> {
     this.ensureInitialized()
 
-    if (!this.operatorPrivateKey) {
+    if (!this.operatorPublicKey) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
-        'Private key not available'
+        'Operator key not available'
       )
     }
 
@@ -836,6 +1751,82 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
     }
   }
 
+  /**
+   * Build a frozen transaction for offline signing: an HBAR transfer, or a
+   * contract call when tx.data is set. Hedera rejects transactions more than
+   * 2 minutes after their valid start, so set options.validStart to when the
+   * signed transaction will be broadcast.
+   *
+   * @param tx - Transfer or call (from defaults to the operator; value in tinybars)
+   * @param options - Valid start (default now)
+   * @returns Frozen transaction bytes
+   */
+  async buildTransaction(tx: Transaction, options: BuildTransactionOptions = {}): Promise<UnsignedTransaction> {
+    this.ensureInitialized()
+
+    try {
+      const payer = tx.from ? AccountId.fromString(tx.from) : this.operatorAccountId!
+      const value = (tx.value ?? 0n).toString()
+      const validStart = options.validStart ?? new Date()
+
+      const transaction = tx.data
+        ? new ContractExecuteTransaction()
+            .setContractId(tx.to)
+            .setGas(Number(tx.gas ?? 100000))
+            .setFunctionParameters(Buffer.from(tx.data.replace(/^0x/, ''), 'hex'))
+            .setPayableAmount(Hbar.fromTinybars(value))
+        : new TransferTransaction()
+            .addHbarTransfer(payer, Hbar.fromTinybars(`-${value}`))
+            .addHbarTransfer(AccountId.fromString(tx.to), Hbar.fromTinybars(value))
+
+      transaction
+        .setTransactionId(TransactionId.withValidStart(payer, Timestamp.fromDate(validStart)))
+        .setMaxTransactionFee(new Hbar(2))
+        .freezeWith(this.client!)
+      const payload = Buffer.from(transaction.toBytes()).toString('hex')
+
+      return {
+        chain: this.chainId,
+        network: this.network,
+        transaction: { ...tx, from: payer.toString() },
+        payload,
+        signer: payer.toString(),
+        summary: await summarizeTransaction(this.chainId, this.network, payload),
+        expiresAt: new Date(validStart.getTime() + 120_000),
+      }
+    } catch (error: any) {
+      if (error instanceof BlockchainError) throw error
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to build transaction: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Submit a transaction signed offline and wait for its receipt.
+   *
+   * @param signed - Signed transaction bytes (hex)
+   */
+  async broadcastTransaction(signed: SignedTransaction): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    try {
+      const transaction = HederaTransaction.fromBytes(Buffer.from(signed.rawTransaction, 'hex'))
+      const txResponse = await transaction.execute(this.client!)
+      await txResponse.getReceipt(this.client!)
+
+      return this.createTransactionResult(txResponse)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Broadcast failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
   /**
    * Get Hedera gas price (fees are predictable on Hedera).
    *
@@ -894,6 +1885,121 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
     }
   }
 
+  /**
+   * Best-effort precheck of a transaction.
+   *
+   * Hedera has no dry-run RPC, so this validates parameters and checks the
+   * operator's HBAR / token balances against the amounts and estimated fee.
+   * Failures use Hedera status names (e.g. INSUFFICIENT_TOKEN_BALANCE).
+   *
+   * @param request - Raw transaction or adapter operation to check
+   * @returns Predicted outcome and balance changes
+   */
+  async simulateTransaction(request: SimulationRequest): Promise<SimulationResult> {
+    this.ensureInitialized()
+
+    if (!this.client) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Client not initialized'
+      )
+    }
+
+    const operator = this.operatorAccountId!.toString()
+    const failures: string[] = []
+    const balanceChanges: BalanceChange[] = []
+    const warnings = ['Hedera has no dry-run RPC; this is a precheck of parameters and balances']
+    let hbarOut = BigInt(0)
+
+    const isValidId = (parse: () => unknown): boolean => {
+      try {
+        parse()
+        return true
+      } catch {
+        return false
+      }
+    }
+
+    switch (request.operation) {
+      case 'transaction': {
+        const { to, value = BigInt(0) } = request.transaction
+        if (!isValidId(() => AccountId.fromString(to))) failures.push('INVALID_ACCOUNT_ID')
+        hbarOut = value
+        if (value > BigInt(0)) balanceChanges.push({ account: to, delta: value })
+        break
+      }
+
+      case 'transferToken': {
+        const { tokenId, to } = request.params
+        const amount = BigInt(request.params.amount)
+        if (!tokenId || !isValidId(() => TokenId.fromString(tokenId))) {
+          failures.push('INVALID_TOKEN_ID')
+          break
+        }
+        if (!isValidId(() => AccountId.fromString(to))) failures.push('INVALID_ACCOUNT_ID')
+        if (await this.getTokenBalance({ address: operator, tokenId }) < amount) {
+          failures.push('INSUFFICIENT_TOKEN_BALANCE')
+        }
+        balanceChanges.push(
+          { account: operator, tokenId, delta: -amount },
+          { account: to, tokenId, delta: amount }
+        )
+        const association = await this.getTokenAssociation({ tokenId, account: to }).catch(() => undefined)
+        if (!association) {
+          warnings.push('Recipient token association and KYC/freeze status could not be checked on the mirror node')
+        } else if (association.frozen) {
+          failures.push('ACCOUNT_FROZEN_FOR_TOKEN')
+        } else if (association.kycGranted === false) {
+          failures.push('ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN')
+        } else if (!association.canReceive) {
+          failures.push('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT')
+        }
+        break
+      }
+
+      case 'createToken': {
+        const { name, symbol, decimals, initialSupply } = request.params
+        if (!name) failures.push('MISSING_TOKEN_NAME')
+        else if (Buffer.byteLength(name) > 100) failures.push('TOKEN_NAME_TOO_LONG')
+        if (!symbol) failures.push('MISSING_TOKEN_SYMBOL')
+        else if (Buffer.byteLength(symbol) > 100) failures.push('TOKEN_SYMBOL_TOO_LONG')
+        if (decimals < 0) failures.push('INVALID_TOKEN_DECIMALS')
+        if (BigInt(initialSupply || 0) < BigInt(0)) failures.push('INVALID_TOKEN_INITIAL_SUPPLY')
+        break
+      }
+
+      case 'deployContract':
+        if (!request.params.contractCode || request.params.contractCode.length === 0) {
+          failures.push('CONTRACT_BYTECODE_EMPTY')
+        }
+        hbarOut = request.params.value ?? BigInt(0)
+        break
+    }
+
+    const feeOperation = ({
+      transaction: 'transfer',
+      transferToken: 'transfer',
+      createToken: 'mint',
+      deployContract: 'deploy',
+    } as const)[request.operation]
+    const { estimatedCost: fee } = await this.estimateFees({ operation: feeOperation })
+
+    if (await this.getBalance(operator) < hbarOut + fee) {
+      failures.push('INSUFFICIENT_PAYER_BALANCE')
+    }
+    balanceChanges.unshift({ account: operator, delta: -(hbarOut + fee) })
+
+    return {
+      success: failures.length === 0,
+      revertReason: failures.length > 0 ? failures.join(', ') : undefined,
+      method: 'precheck',
+      fee,
+      balanceChanges,
+      logs: [],
+      warnings,
+    }
+  }
+
   /**
    * Get transaction status.
    *
@@ -932,7 +2038,28 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
         timestamp: new Date(),
       }
     } catch (error: any) {
-      // If receipt not found, transaction might still be pending
+      // Receipts are only kept for a few minutes; older transactions are on the mirror node
+      return await this.getMirrorTransactionStatus(txId)
+    }
+  }
+
+  /**
+   * Status of a transaction from its mirror node record. Transactions the
+   * mirror node has not seen yet are pending.
+   */
+  private async getMirrorTransactionStatus(txId: string): Promise<BlockchainTransactionStatus> {
+    try {
+      const record = await this.getMirrorNode().getTransaction(txId)
+      const success = record.result === 'SUCCESS'
+
+      return {
+        status: success ? 'success' : 'failed',
+        confirmations: success ? 1 : 0,
+        blockNumber: 0,
+        timestamp: this.parseConsensusTimestamp(record.consensus_timestamp),
+        error: success ? undefined : record.result,
+      }
+    } catch (error: any) {
       return {
         status: 'pending',
         confirmations: 0,
@@ -943,14 +2070,268 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
   }
 
   getExplorerUrl(txId: string): string {
+    // Local node has no public explorer; use customConfig.explorerUrl if one is running
+    if (this.network === 'localnet') {
+      const explorerUrl = getLocalnetEndpoints('hedera', this.config).explorerUrl
+      return explorerUrl ? `${explorerUrl}/transaction/${txId}` : ''
+    }
+
     const metadata = CHAIN_METADATA.hedera
-    const explorerNetwork = (this.network === 'devnet' || this.network === 'localnet') ? 'testnet' : this.network
+    const explorerNetwork = this.network === 'devnet' ? 'testnet' : this.network
     const baseUrl = metadata.explorerUrl[explorerNetwork]
     return `${baseUrl}/transaction/${txId}`
   }
 
   /**
-   * Execute Hedera-specific operations (HCS topic operations).
+   * Schedule a transfer, token mint or contract call. The network executes
+   * it once the paying account's key is satisfied (e.g. a 2-of-3 threshold
+   * key); the operator's signature on the schedule counts towards it, and
+   * co-signers add theirs with approveProposal.
+   *
+   * @param params - Action, paying account (default: operator), memo and expiry
+   * @returns The schedule (already executed if the operator's key was enough)
+   */
+  async proposeTransaction(params: ProposeTransactionParams): Promise<MultisigProposal> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'proposeTransaction')
+
+    if (!this.client || !this.operatorPublicKey) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Client not initialized'
+      )
+    }
+
+    try {
+      const account = params.account ? AccountId.fromString(params.account) : this.operatorAccountId!
+      const scheduleTx = new ScheduleCreateTransaction()
+        .setScheduledTransaction(this.buildScheduledTransaction(params.action, account))
+        .setPayerAccountId(account)
+        .setAdminKey(this.operatorPublicKey)
+        .setMaxTransactionFee(new Hbar(5))
+
+      if (params.memo) {
+        scheduleTx.setScheduleMemo(params.memo)
+      }
+      if (params.expiresAt) {
+        scheduleTx.setExpirationTime(Timestamp.fromDate(params.expiresAt))
+      }
+
+      const txResponse = await scheduleTx.execute(this.client)
+      const receipt = await txResponse.getReceipt(this.client)
+
+      return await this.getProposal(receipt.scheduleId!.toString())
+    } catch (error: any) {
+      if (error instanceof BlockchainError) throw error
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Schedule creation failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Sign a scheduled transaction with the operator's key. The network
+   * executes it as soon as the collected signatures satisfy the payer's key.
+   *
+   * @param proposalId - Schedule ID
+   * @returns The schedule after signing
+   */
+  async approveProposal(proposalId: string): Promise<MultisigProposal> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'approveProposal')
+
+    try {
+      const txResponse = await new ScheduleSignTransaction()
+        .setScheduleId(proposalId)
+        .setMaxTransactionFee(new Hbar(2))
+        .execute(this.client!)
+      await txResponse.getReceipt(this.client!)
+
+      return await this.getProposal(proposalId)
+    } catch (error: any) {
+      if (error instanceof BlockchainError) throw error
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Signing schedule ${proposalId} failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Look up a schedule: status, the scheduled transaction and the keys that
+   * have signed (raw public keys, hex).
+   *
+   * @param proposalId - Schedule ID
+   */
+  async getProposal(proposalId: string): Promise<MultisigProposal> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'getProposal')
+
+    let info: ScheduleInfo
+    try {
+      info = await new ScheduleInfoQuery().setScheduleId(proposalId).execute(this.client!)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Failed to look up schedule ${proposalId}: ${error.message}`,
+        error
+      )
+    }
+
+    const expiresAt = info.expirationTime?.toDate()
+    const transactionId = info.scheduledTransactionId?.toString()
+    return {
+      id: proposalId,
+      chain: this.chainId,
+      status: info.executed ? 'executed'
+        : info.deleted ? 'deleted'
+        : expiresAt && expiresAt.getTime() <= Date.now() ? 'expired'
+        : 'pending',
+      account: info.payerAccountId?.toString(),
+      summary: this.describeScheduledTransaction(info.scheduledTransaction),
+      signers: info.signers ? info.signers.toArray().map(key => (key as PublicKey).toStringRaw()) : [],
+      memo: info.scheduleMemo || undefined,
+      creator: info.creatorAccountId?.toString(),
+      expiresAt,
+      transactionId,
+      explorerUrl: info.executed && transactionId ? this.getExplorerUrl(transactionId) : undefined,
+    }
+  }
+
+  /**
+   * Schedules an account created that are still waiting for signatures,
+   * from the mirror node. The mirror node does not decode scheduled
+   * transactions, so summaries are empty (see getProposal).
+   *
+   * @param params - Creating account (default: operator) and how many recent schedules to check
+   */
+  async listProposals(params: ListProposalsParams = {}): Promise<MultisigProposal[]> {
+    this.ensureInitialized()
+    this.ensureCapability('hasMultisig', 'listProposals')
+
+    const account = params.account || this.operatorAccountId!.toString()
+    const limit = params.limit ?? 25
+    let schedules: MirrorSchedule[]
+    try {
+      const mirrorNode = this.getMirrorNode()
+      schedules = await mirrorNode.collect(mirrorNode.listSchedules({ 'account.id': account, order: 'desc', limit }), limit)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Failed to list schedules of ${account}: ${error.message}`,
+        error
+      )
+    }
+
+    const isPending = (schedule: MirrorSchedule) => !schedule.executed_timestamp && !schedule.deleted
+      && !(schedule.expiration_time && this.parseConsensusTimestamp(schedule.expiration_time).getTime() <= Date.now())
+
+    return schedules
+      .filter(isPending)
+      .map((schedule): MultisigProposal => ({
+        id: schedule.schedule_id,
+        chain: this.chainId,
+        status: 'pending',
+        account: schedule.payer_account_id,
+        summary: [],
+        signers: (schedule.signatures || [])
+          .map(signature => Buffer.from(signature.public_key_prefix, 'base64').toString('hex')),
+        memo: schedule.memo || undefined,
+        creator: schedule.creator_account_id,
+        expiresAt: schedule.expiration_time ? this.parseConsensusTimestamp(schedule.expiration_time) : undefined,
+      }))
+  }
+
+  /**
+   * Inner transaction of a schedule. Amounts are in tinybars or the token's
+   * smallest unit; the paying account sends transfers.
+   */
+  private buildScheduledTransaction(action: ProposalAction, account: AccountId): HederaTransaction {
+    switch (action.type) {
+      case 'transfer': {
+        const amount = Number(action.amount)
+        const to = AccountId.fromString(action.to)
+        if (action.tokenId) {
+          const tokenId = TokenId.fromString(action.tokenId)
+          return new TransferTransaction()
+            .addTokenTransfer(tokenId, account, -amount)
+            .addTokenTransfer(tokenId, to, amount)
+        }
+        return new TransferTransaction()
+          .addHbarTransfer(account, Hbar.fromTinybars(-amount))
+          .addHbarTransfer(to, Hbar.fromTinybars(amount))
+      }
+
+      case 'mint':
+        if (action.to) {
+          throw new BlockchainError(
+            BlockchainErrorCode.UNSUPPORTED_OPERATION,
+            'Hedera mints go to the treasury; schedule a transfer to send them on'
+          )
+        }
+        return new TokenMintTransaction()
+          .setTokenId(TokenId.fromString(action.tokenId))
+          .setAmount(Number(action.amount))
+
+      case 'contract-call': {
+        const contractTx = new ContractExecuteTransaction()
+          .setContractId(action.contractAddress)
+          .setGas(action.gas ?? 100000)
+          .setFunctionParameters(Buffer.from(action.data.replace(/^0x/, ''), 'hex'))
+        if (action.value) {
+          contractTx.setPayableAmount(Hbar.fromTinybars(Number(action.value)))
+        }
+        return contractTx
+      }
+
+      default:
+        throw new BlockchainError(
+          BlockchainErrorCode.UNSUPPORTED_OPERATION,
+          `Unknown proposal action: ${(action as any).type}`
+        )
+    }
+  }
+
+  private describeScheduledTransaction(tx: HederaTransaction): string[] {
+    const lines = [`Type: ${tx.constructor.name}`]
+
+    if (tx instanceof TransferTransaction) {
+      for (const [account, amount] of tx.hbarTransfers) {
+        lines.push(`HBAR ${account.toString()}: ${amount.toString()}`)
+      }
+      for (const [tokenId, transfers] of tx.tokenTransfers) {
+        for (const [account, amount] of transfers) {
+          lines.push(`Token ${tokenId.toString()} ${account.toString()}: ${amount.toString()}`)
+        }
+      }
+    }
+    if (tx instanceof TokenMintTransaction) {
+      lines.push(`Mint ${tx.amount?.toString()} of ${tx.tokenId?.toString()}`)
+    }
+    if (tx instanceof ContractExecuteTransaction) {
+      lines.push(`Contract: ${tx.contractId?.toString()}`)
+      lines.push(`Gas: ${tx.gas?.toString()}`)
+      lines.push(`Payable: ${tx.payableAmount?.toString() ?? '0 ℏ'}`)
+      lines.push(`Function parameters: ${tx.functionParameters?.length ?? 0} bytes`)
+    }
+    return lines
+  }
+
+  /**
+   * Execute Hedera-specific operations (HCS topic and account operations).
+   *
+   * - createHCSTopic: { memo?, adminKey?, submitKey?, autoRenewPeriod? }
+   * - updateHCSTopic: { topicId, submitKey?, memo? } (submitKey null clears it)
+   * - submitHCSMessage: { topicId, message, submitKey? } (chunked over 1024 bytes)
+   * - getHCSMessage: { topicId, sequenceNumber } (from the mirror node)
+   * - createAccount: { initialBalance?, publicKey?, publicKeys?, threshold?, maxAutoAssociations?, memo? }
+   *   (initialBalance in tinybars; publicKeys + threshold make an M-of-N key;
+   *   without either a new ED25519 key is returned)
+   * - setAccountKey: { publicKeys, threshold?, account?, signerKeys? } (see setAccountKey)
+   * - setMaxAutoAssociations: { maxAutoAssociations, account? } (-1 = unlimited)
    *
    * @param operation - Operation name
    * @param params - Operation parameters
@@ -959,7 +2340,7 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
   async executeChainSpecificOperation(operation: string, params: any): Promise<any> {
     this.ensureInitialized()
 
-    if (!this.client || !this.operatorPrivateKey) {
+    if (!this.client || !this.operatorPublicKey) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
         'Client not initialized'
@@ -970,9 +2351,24 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       case 'createHCSTopic':
         return await this.createHCSTopic(params)
 
+      case 'updateHCSTopic':
+        return await this.updateHCSTopic(params)
+
       case 'submitHCSMessage':
         return await this.submitHCSMessage(params)
 
+      case 'getHCSMessage':
+        return await this.getHCSMessage(params)
+
+      case 'createAccount':
+        return await this.createAccount(params)
+
+      case 'setAccountKey':
+        return await this.setAccountKey(params)
+
+      case 'setMaxAutoAssociations':
+        return await this.setMaxAutoAssociations(params)
+
       default:
         throw new BlockchainError(
           BlockchainErrorCode.UNSUPPORTED_OPERATION,
@@ -988,7 +2384,7 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
    * @returns Topic creation result
    */
   private async createHCSTopic(params: any): Promise<any> {
-    if (!this.client || !this.operatorPrivateKey) {
+    if (!this.client || !this.operatorPublicKey) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
         'Client not initialized'
@@ -1003,11 +2399,14 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       }
 
       if (params.adminKey) {
-        topicCreateTx.setAdminKey(this.operatorPrivateKey.publicKey)
+        topicCreateTx.setAdminKey(this.operatorPublicKey)
       }
 
+      // true: the operator key; a string: that public key
       if (params.submitKey) {
-        topicCreateTx.setSubmitKey(this.operatorPrivateKey.publicKey)
+        topicCreateTx.setSubmitKey(
+          typeof params.submitKey === 'string' ? PublicKey.fromString(params.submitKey) : this.operatorPublicKey
+        )
       }
 
       if (params.autoRenewPeriod) {
@@ -1042,9 +2441,64 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
     }
   }
 
+  /**
+   * Set or clear a topic's submit key, or change its memo.
+   * Signed by the operator, which has to hold the topic's admin key.
+   *
+   * @param params - Topic ID, submitKey (public key, or null to clear) and memo
+   * @returns Update result
+   */
+  private async updateHCSTopic(params: any): Promise<any> {
+    if (!this.client) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Client not initialized'
+      )
+    }
+
+    try {
+      const topicUpdateTx = new TopicUpdateTransaction()
+        .setTopicId(TopicId.fromString(params.topicId))
+        .setMaxTransactionFee(new Hbar(2))
+
+      if (params.submitKey === null) {
+        topicUpdateTx.clearSubmitKey()
+      } else if (params.submitKey) {
+        topicUpdateTx.setSubmitKey(PublicKey.fromString(params.submitKey))
+      }
+
+      if (params.memo !== undefined) {
+        topicUpdateTx.setTopicMemo(params.memo)
+      }
+
+      const updateResponse = await topicUpdateTx.execute(this.client)
+      const updateReceipt = await updateResponse.getReceipt(this.client)
+
+      const transactionHash = updateResponse.transactionId.toString()
+
+      return {
+        topicId: params.topicId,
+        transactionHash,
+        status: updateReceipt.status.toString(),
+        explorerUrl: this.getExplorerUrl(transactionHash),
+        success: true,
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `HCS topic update failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
   /**
    * Submit a message to an HCS topic.
    *
+   * Messages over 1024 bytes go out as one transaction per chunk; readers
+   * reassemble them (see TopicMessageReader). Topics with a submit key other
+   * than the operator's need params.submitKey (private key) to co-sign.
+   *
    * @param params - Message submission parameters
    * @returns Message submission result
    */
@@ -1058,20 +2512,32 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
 
     try {
       const topicId = TopicId.fromString(params.topicId)
+      const chunks = countTopicChunks(params.message)
 
       const topicMessageTx = new TopicMessageSubmitTransaction()
         .setTopicId(topicId)
         .setMessage(params.message)
+        .setChunkSize(HCS_CHUNK_SIZE)
+        .setMaxChunks(chunks)
         .setMaxTransactionFee(new Hbar(2))
 
-      const messageResponse = await topicMessageTx.execute(this.client)
-      const messageReceipt = await messageResponse.getReceipt(this.client)
+      if (params.submitKey) {
+        topicMessageTx.freezeWith(this.client)
+        await topicMessageTx.sign(PrivateKey.fromString(params.submitKey))
+      }
+
+      const messageResponses = await topicMessageTx.executeAll(this.client)
+      const messageReceipt = await messageResponses[messageResponses.length - 1].getReceipt(this.client)
 
-      const transactionHash = messageResponse.transactionId.toString()
+      const transactionHash = messageResponses[0].transactionId.toString()
 
       return {
         transactionHash,
         status: messageReceipt.status.toString(),
+        sequenceNumber: messageReceipt.topicSequenceNumber
+          ? Number(messageReceipt.topicSequenceNumber.toString())
+          : undefined,
+        chunks,
         explorerUrl: this.getExplorerUrl(transactionHash),
         success: true,
       }
@@ -1083,4 +2549,300 @@ export class HederaAdapter extends BaseBlockchainAdapter implements BlockchainAd
       )
     }
   }
+
+  /**
+   * Read one topic message (or chunk) from the mirror node.
+   *
+   * @param params - Topic ID and sequence number
+   * @returns The message, with its running hash
+   */
+  private async getHCSMessage(params: any): Promise<TopicMessage> {
+    try {
+      const message = await this.getMirrorNode().getTopicMessage(params.topicId, params.sequenceNumber)
+      return parseMirrorTopicMessage(message, params.topicId)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Failed to read message ${params.sequenceNumber} of topic ${params.topicId}: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Create an account paid by the operator. Automatic association slots let
+   * it receive tokens it has not associated (the first transfer associates).
+   * With publicKeys the account gets a threshold key, so that its transfers
+   * go through scheduled transactions signed by `threshold` of the holders.
+   *
+   * @param params - Initial balance (tinybars), key or keys and threshold, slots and memo
+   * @returns New account ID and keys
+   */
+  private async createAccount(params: any): Promise<any> {
+    try {
+      const thresholdKey = params.publicKeys ? this.buildThresholdKey(params.publicKeys, params.threshold) : undefined
+      const privateKey = params.publicKey || thresholdKey ? undefined : PrivateKey.generateED25519()
+      const publicKey = params.publicKey ? PublicKey.fromString(params.publicKey) : privateKey?.publicKey
+
+      const accountCreateTx = new AccountCreateTransaction()
+        .setKey(thresholdKey || publicKey!)
+        .setInitialBalance(Hbar.fromTinybars((params.initialBalance ?? 0).toString()))
+        .setMaxTransactionFee(new Hbar(2))
+
+      if (params.maxAutoAssociations !== undefined) {
+        accountCreateTx.setMaxAutomaticTokenAssociations(params.maxAutoAssociations)
+      }
+
+      if (params.memo) {
+        accountCreateTx.setAccountMemo(params.memo)
+      }
+
+      const response = await accountCreateTx.execute(this.client!)
+      const receipt = await response.getReceipt(this.client!)
+
+      if (!receipt.accountId) {
+        throw new BlockchainError(
+          BlockchainErrorCode.TRANSACTION_FAILED,
+          'Failed to get account ID from creation'
+        )
+      }
+
+      const transactionHash = response.transactionId.toString()
+
+      return {
+        accountId: receipt.accountId.toString(),
+        publicKey: publicKey?.toString(),
+        privateKey: privateKey?.toString(),
+        publicKeys: thresholdKey ? params.publicKeys : undefined,
+        threshold: thresholdKey?.threshold ?? undefined,
+        maxAutoAssociations: params.maxAutoAssociations ?? 0,
+        transactionHash,
+        explorerUrl: this.getExplorerUrl(transactionHash),
+        success: true,
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Account creation failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Replace an account's key with a threshold key (e.g. 2-of-3 approvers).
+   * Hedera requires both the current key (the operator's) and the new key to
+   * sign: signerKeys are private keys of the new key's holders, enough of
+   * them to meet the threshold (the operator's key counts if it is listed).
+   *
+   * @param params - Public keys, threshold (default: all), account (default: the operator) and signer keys
+   * @returns Update result
+   */
+  private async setAccountKey(params: any): Promise<any> {
+    const account = params.account || this.operatorAccountId!.toString()
+
+    try {
+      const key = this.buildThresholdKey(params.publicKeys, params.threshold)
+      const accountUpdateTx = new AccountUpdateTransaction()
+        .setAccountId(AccountId.fromString(account))
+        .setKey(key)
+        .setMaxTransactionFee(new Hbar(2))
+        .freezeWith(this.client!)
+
+      for (const signerKey of params.signerKeys || []) {
+        await accountUpdateTx.sign(PrivateKey.fromString(signerKey))
+      }
+
+      const response = await accountUpdateTx.execute(this.client!)
+      await response.getReceipt(this.client!)
+      const result = this.createTransactionResult(response)
+
+      return {
+        account,
+        publicKeys: params.publicKeys,
+        threshold: key.threshold,
+        transactionHash: result.transactionHash,
+        explorerUrl: result.explorerUrl,
+        success: true,
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Account key update failed: ${error.message}`,
+        error
+      )
+    }
+  }
+
+  /**
+   * M-of-N key from public keys (threshold defaults to all of them).
+   */
+  private buildThresholdKey(publicKeys: string[], threshold?: number): KeyList {
+    if (!Array.isArray(publicKeys) || publicKeys.length === 0) {
+      throw new Error('publicKeys must list at least one public key')
+    }
+    const required = threshold ?? publicKeys.length
+    if (!Number.isInteger(required) || required < 1 || required > publicKeys.length) {
+      throw new Error(`threshold must be between 1 and ${publicKeys.length}, got ${threshold}`)
+    }
+    return KeyList.of(...publicKeys.map(key => PublicKey.fromString(key))).setThreshold(required)
+  }
+
+  /**
+   * Change an account's automatic association slots. Signed by the
+   * operator, so the account must be the operator's or share its key.
+   *
+   * @param params - Slots (-1 = unlimited) and account (default: the operator)
+   * @returns Update result
+   */
+  private async setMaxAutoAssociations(params: any): Promise<any> {
+    const account = params.account || this.operatorAccountId!.toString()
+
+    const result = await this.executeTokenTransaction('Automatic association update', () =>
+      new AccountUpdateTransaction()
+        .setAccountId(AccountId.fromString(account))
+        .setMaxAutomaticTokenAssociations(params.maxAutoAssociations)
+    )
+
+    return {
+      account,
+      maxAutoAssociations: params.maxAutoAssociations,
+      transactionHash: result.transactionHash,
+      explorerUrl: result.explorerUrl,
+      success: true,
+    }
+  }
+
+  /**
+   * Fetch mirror node records after a cursor (used by subscribe()).
+   *
+   * Cursors are consensus timestamps (`seconds.nanos`), so a subscription
+   * resumes with `timestamp=gt:<cursor>`.
+   *
+   * @param params - Subscription parameters
+   * @param cursor - Last delivered consensus timestamp (undefined = now)
+   */
+  protected async fetchEvents(params: SubscribeParams, cursor: string | undefined): Promise<EventPage> {
+    if (params.kind === 'topic-messages') {
+      return await this.fetchTopicMessages(params, cursor)
+    }
+
+    if (cursor === undefined) {
+      return { events: [], cursor: this.nowCursor() }
+    }
+
+    if (!params.account) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_ADDRESS,
+        `Hedera '${params.kind}' subscriptions require account`,
+        { kind: params.kind }
+      )
+    }
+
+    const { items: transactions, next } = await this.getMirrorNode().getPage<MirrorTransaction>('/api/v1/transactions', 'transactions', {
+      'account.id': params.account,
+      order: 'asc',
+      limit: MIRROR_EVENT_PAGE_SIZE,
+      timestamp: `gt:${cursor}`,
+    })
+
+    const events = transactions.flatMap((tx): ChainEvent[] => {
+      const base = {
+        kind: params.kind,
+        chain: this.chainId,
+        cursor: tx.consensus_timestamp,
+        transactionId: tx.transaction_id,
+        timestamp: this.parseConsensusTimestamp(tx.consensus_timestamp),
+      }
+
+      if (params.kind === 'account-changes') {
+        return [{
+          ...base,
+          data: {
+            name: tx.name,
+            result: tx.result,
+            transfers: tx.transfers,
+            tokenTransfers: tx.token_transfers,
+          },
+        }]
+      }
+
+      // One event per token whose balance changed for the watched account
+      const tokenTransfers = (tx.token_transfers || [])
+        .filter(t => !params.tokenId || t.token_id === params.tokenId)
+
+      return tokenTransfers
+        .filter(t => t.account === params.account && Number(t.amount) !== 0)
+        .map(own => {
+          const incoming = Number(own.amount) > 0
+          const counterparty = tokenTransfers.find(t =>
+            t.token_id === own.token_id && (Number(t.amount) > 0) !== incoming
+          )?.account
+
+          return {
+            ...base,
+            tokenId: own.token_id,
+            from: incoming ? counterparty : params.account,
+            to: incoming ? params.account : counterparty,
+            amount: BigInt(Math.abs(Number(own.amount))),
+          }
+        })
+    })
+
+    return {
+      events,
+      // Transactions without matching transfers still advance the cursor
+      cursor: transactions[transactions.length - 1]?.consensus_timestamp,
+      more: next !== undefined || transactions.length === MIRROR_EVENT_PAGE_SIZE,
+    }
+  }
+
+  /**
+   * Fetch topic messages after a cursor. Without a cursor, start at
+   * params.fromSequence (replay) or now; end at params.toSequence.
+   */
+  private async fetchTopicMessages(params: SubscribeParams, cursor: string | undefined): Promise<EventPage> {
+    if (cursor === undefined && params.fromSequence === undefined) {
+      return { events: [], cursor: this.nowCursor() }
+    }
+
+    const { items: messages, next } = await this.getMirrorNode().getPage<MirrorTopicMessage>(
+      `/api/v1/topics/${params.topicId}/messages`,
+      'messages',
+      {
+        order: 'asc',
+        limit: MIRROR_EVENT_PAGE_SIZE,
+        timestamp: cursor !== undefined ? `gt:${cursor}` : undefined,
+        sequencenumber: [
+          cursor === undefined ? `gte:${params.fromSequence}` : undefined,
+          params.toSequence !== undefined ? `lte:${params.toSequence}` : undefined,
+        ],
+      }
+    )
+    const topicMessages = messages.map(message => parseMirrorTopicMessage(message, params.topicId))
+    const last = topicMessages[topicMessages.length - 1]
+    const done = params.toSequence !== undefined && last !== undefined && last.sequenceNumber >= params.toSequence
+
+    return {
+      events: topicMessages.map(message => ({
+        kind: params.kind,
+        chain: this.chainId,
+        cursor: message.consensusTimestamp,
+        timestamp: this.parseConsensusTimestamp(message.consensusTimestamp),
+        from: message.payer,
+        data: message,
+      })),
+      cursor: last?.consensusTimestamp,
+      done,
+      more: !done && (next !== undefined || messages.length === MIRROR_EVENT_PAGE_SIZE),
+    }
+  }
+
+  private nowCursor(): string {
+    return `${Math.floor(Date.now() / 1000)}.000000000`
+  }
+
+  private parseConsensusTimestamp(timestamp: string): Date {
+    return new Date(Number(timestamp) * 1000)
+  }
 }
@@ -8,20 +8,35 @@
  * - Uses lamports (1 SOL = 1,000,000,000 lamports)
  * - Token accounts are separate from wallet accounts (Associated Token Accounts)
  * - NFTs use Metaplex standard instead of ERC-721
- * - Smart contract deployment returns UNSUPPORTED_OPERATION (Solana uses Rust/BPF programs)
+ * - Programs (compiled BPF .so files) are deployed through the upgradeable loader;
+ *   calls are encoded from an Anchor IDL
  * - Priority fees instead of gas price
  */
 
 import { BaseBlockchainAdapter } from '../core/BlockchainAdapter'
 import {
   BlockchainConfiguration,
+  Signer,
   CreateTokenParams,
   TokenResult,
   CreateNFTParams,
   NFTResult,
   MintNFTParams,
+  MintTokenParams,
+  BurnTokenParams,
+  TokenAccountParams,
   TransferParams,
+  ApproveParams,
+  AllowanceParams,
+  TransferFromParams,
   TransferNFTParams,
+  UpdateTokenFeesParams,
+  RoyaltyFee,
+  CreateMultiTokenParams,
+  MultiTokenResult,
+  MultiTokenItem,
+  MintBatchParams,
+  TransferBatchParams,
   TransactionResult,
   BalanceParams,
   DeployContractParams,
@@ -31,19 +46,47 @@ import {
   WalletConnection,
   Transaction,
   SignedTransaction,
+  BuildTransactionOptions,
+  UnsignedTransaction,
   GasPrice,
   EstimateFeeParams,
   FeeEstimate,
+  SimulationRequest,
+  SimulationResult,
+  BalanceChange,
   TransactionStatus,
+  SubscribeParams,
+  ChainEvent,
   NetworkType,
   BlockchainError,
   BlockchainErrorCode,
 } from '../core/types'
 import { CHAIN_CAPABILITIES, CHAIN_METADATA } from '../core/ChainCapabilities'
+import { getLocalnetEndpoints } from '../core/Localnet'
+import { EventPage } from '../core/Subscription'
+import { encodeAnchorInstruction, WELL_KNOWN_ACCOUNTS } from '../core/AnchorIdl'
+import { derivePrivateKey } from '../core/HdWallet'
+import { createSigner, requireSignerKeyType } from '../core/Signer'
+import { summarizeTransaction } from '../core/OfflineTransaction'
 
 // Lamports per SOL constant
 const LAMPORTS_PER_SOL = 1_000_000_000
 
+// BPF upgradeable loader (program deployment)
+const BPF_LOADER_UPGRADEABLE_ID = 'BPFLoaderUpgradeab1e11111111111111111111111'
+const BUFFER_METADATA_SIZE = 37        // Buffer account header (state + authority)
+const PROGRAM_ACCOUNT_SIZE = 36        // Program account (state + programdata address)
+const PROGRAM_WRITE_CHUNK_SIZE = 900   // Program bytes per Write transaction (1232-byte packets)
+
+// Loader instruction indices (bincode u32)
+const LoaderInstruction = {
+  InitializeBuffer: 0,
+  Write: 1,
+  DeployWithMaxDataLen: 2,
+  Upgrade: 3,
+  SetAuthority: 4,
+} as const
+
 /**
  * Solana Blockchain Adapter
  *
@@ -58,7 +101,8 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
   // Solana SDK instances (loaded dynamically for testing)
   protected solana: any
   protected connection: any
-  protected keypair: any
+  protected keypair: any                 // Public key only when a signer holds the secret
+  protected signer?: Signer
   protected walletAddress: string | undefined
 
   // Browser wallet integration
@@ -88,13 +132,21 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
   /**
    * Initialize the adapter with Solana configuration.
    *
-   * @param config - Configuration with privateKeySolana credential
+   * @param config - Configuration with privateKeySolana (or mnemonic) credential, or a signer
    */
   async initialize(config: BlockchainConfiguration): Promise<void> {
-    if (!config.credentials?.privateKeySolana) {
+    // On localnet a dev account is generated and funded from the validator faucet.
+    // Replays never reach a real node, so a generated keypair works there too.
+    const isLocalnet = config.network === 'localnet'
+    const isReplay = config.replay?.mode === 'replay'
+    const signer = config.signer ? createSigner(config.signer) : undefined
+    const secretKeyBase64 = signer ? undefined : config.credentials?.privateKeySolana
+      || await derivePrivateKey('solana', config.credentials)
+
+    if (!signer && !secretKeyBase64 && !isLocalnet && !isReplay) {
       throw new BlockchainError(
         BlockchainErrorCode.INVALID_CREDENTIALS,
-        'Solana adapter requires credentials.privateKeySolana (base64-encoded secret key)'
+        'Solana adapter requires credentials.privateKeySolana (base64-encoded secret key), credentials.mnemonic or a signer'
       )
     }
 
@@ -107,20 +159,40 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
       this.network = config.network || 'devnet'
       this.config = config
 
-      // Create keypair from secret key
-      const secretKeyBase64 = config.credentials.privateKeySolana
-      const secretKey = Buffer.from(secretKeyBase64, 'base64')
-      this.keypair = Keypair.fromSecretKey(new Uint8Array(secretKey))
+      // Fail over between endpoints, then record or replay RPC traffic
+      const rpcUrls = config.rpcUrls?.length ? config.rpcUrls : [config.rpcUrl || this.getDefaultRpcUrl()]
+      this.openRpcPool(rpcUrls, config)
+      await this.openRecorder(config)
+
+      // Create keypair from secret key; a signer only exposes its public key
+      if (signer) {
+        const { publicKey } = await requireSignerKeyType(signer, ['ed25519'], 'solana')
+        this.keypair = { publicKey: new this.solana.PublicKey(Buffer.from(publicKey, 'hex')) }
+        this.signer = signer
+      } else if (secretKeyBase64) {
+        const secretKey = Buffer.from(secretKeyBase64, 'base64')
+        this.keypair = Keypair.fromSecretKey(new Uint8Array(secretKey))
+      } else {
+        this.keypair = Keypair.generate()
+      }
       this.walletAddress = this.keypair.publicKey.toString()
 
-      // Create connection
-      const rpcUrl = config.rpcUrl || this.getDefaultRpcUrl()
+      // Create connection (through the recorder / endpoint pool if configured)
       const commitment = config.customConfig?.commitment || 'confirmed'
-      this.connection = new Connection(rpcUrl, commitment)
+      const rpcFetch = this.getRpcFetch()
+      this.connection = new Connection(
+        rpcUrls[0],
+        rpcFetch ? { commitment, fetch: rpcFetch } : commitment
+      )
 
       // Verify connection
       await this.connection.getSlot()
 
+      // Fund the generated dev account from the local faucet
+      if (!signer && !secretKeyBase64 && isLocalnet) {
+        await this.fundLocalnetAccount(config.customConfig?.airdropSol ?? 100)
+      }
+
       this._isConnected = true
       console.log(
         `SolanaAdapter initialized for ${this.network} with address ${this.walletAddress}`
@@ -133,13 +205,68 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * Airdrop SOL to the adapter's wallet from the local validator faucet.
+   *
+   * @param sol - Amount of SOL to request
+   */
+  private async fundLocalnetAccount(sol: number): Promise<void> {
+    const signature = await this.connection.requestAirdrop(
+      this.keypair.publicKey,
+      sol * LAMPORTS_PER_SOL
+    )
+    await this.confirmSignature(signature)
+  }
+
+  /**
+   * Wait until a transaction is confirmed.
+   *
+   * While recording or replaying, polls getSignatureStatuses over HTTP instead
+   * of using the websocket subscription, so every step is in the fixture.
+   *
+   * @param signature - Transaction signature
+   */
+  protected async confirmSignature(signature: string): Promise<void> {
+    if (!this.recorder) {
+      await this.connection.confirmTransaction(signature, 'confirmed')
+      return
+    }
+
+    for (let attempt = 0; attempt < 60; attempt++) {
+      const { value } = await this.connection.getSignatureStatuses([signature])
+      const status = value[0]
+
+      if (status?.err) {
+        throw new BlockchainError(
+          BlockchainErrorCode.TRANSACTION_FAILED,
+          `Transaction ${signature} failed`,
+          status.err
+        )
+      }
+      if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+        return
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.isReplaying() ? 0 : 1000))
+    }
+
+    throw new BlockchainError(
+      BlockchainErrorCode.TIMEOUT,
+      `Transaction ${signature} was not confirmed within 60 seconds`
+    )
+  }
+
   /**
    * Disconnect and clean up resources.
    */
   async disconnect(): Promise<void> {
     this.connection = undefined
     this.keypair = undefined
+    this.signer = undefined
     this.walletAddress = undefined
+    await this.recorder?.flush()
+    this.recorder = undefined
+    this.rpcPool = undefined
     this._isConnected = false
   }
 
@@ -326,47 +453,7 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     this.ensureInitialized()
 
     try {
-      const { PublicKey, Transaction: SolTransaction, Keypair } = this.solana
-      const splToken = await this.loadSplToken()
-      const {
-        createInitializeMintInstruction,
-        getMinimumBalanceForRentExemptMint,
-        MINT_SIZE,
-        TOKEN_PROGRAM_ID,
-      } = splToken
-
-      // Generate new mint keypair
-      const mintKeypair = Keypair.generate()
-      const decimals = params.decimals ?? 9 // Solana default
-
-      // Get rent exemption amount
-      const lamports = await getMinimumBalanceForRentExemptMint(this.connection)
-
-      // Create transaction with SystemProgram.createAccount and initializeMint
-      const { SystemProgram } = this.solana
-      const transaction = new SolTransaction()
-
-      // Create account for mint
-      transaction.add(
-        SystemProgram.createAccount({
-          fromPubkey: this.keypair.publicKey,
-          newAccountPubkey: mintKeypair.publicKey,
-          space: MINT_SIZE,
-          lamports,
-          programId: TOKEN_PROGRAM_ID,
-        })
-      )
-
-      // Initialize mint
-      transaction.add(
-        createInitializeMintInstruction(
-          mintKeypair.publicKey,
-          decimals,
-          this.keypair.publicKey, // mint authority
-          this.keypair.publicKey, // freeze authority
-          TOKEN_PROGRAM_ID
-        )
-      )
+      const { transaction, mintKeypair, decimals } = await this.buildCreateMintTransaction(params)
 
       // Get recent blockhash
       const { blockhash } = await this.connection.getLatestBlockhash()
@@ -374,13 +461,13 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
       transaction.feePayer = this.keypair.publicKey
 
       // Sign and send
-      transaction.sign(this.keypair, mintKeypair)
+      await this.signAsOperator(transaction, [mintKeypair])
       const signature = await this.connection.sendRawTransaction(
         transaction.serialize()
       )
 
       // Confirm transaction
-      await this.connection.confirmTransaction(signature, 'confirmed')
+      await this.confirmSignature(signature)
 
       // If initial supply, mint tokens
       if (params.initialSupply && BigInt(params.initialSupply) > 0) {
@@ -414,6 +501,54 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * Helper to build the mint account creation (SystemProgram.createAccount + initializeMint).
+   */
+  private async buildCreateMintTransaction(
+    params: CreateTokenParams
+  ): Promise<{ transaction: any; mintKeypair: any; decimals: number }> {
+    const { Transaction: SolTransaction, Keypair, SystemProgram } = this.solana
+    const {
+      createInitializeMintInstruction,
+      getMinimumBalanceForRentExemptMint,
+      MINT_SIZE,
+      TOKEN_PROGRAM_ID,
+    } = await this.loadSplToken()
+
+    // Generate new mint keypair
+    const mintKeypair = Keypair.generate()
+    const decimals = params.decimals ?? 9 // Solana default
+
+    // Get rent exemption amount
+    const lamports = await getMinimumBalanceForRentExemptMint(this.connection)
+
+    const transaction = new SolTransaction()
+
+    // Create account for mint
+    transaction.add(
+      SystemProgram.createAccount({
+        fromPubkey: this.keypair.publicKey,
+        newAccountPubkey: mintKeypair.publicKey,
+        space: MINT_SIZE,
+        lamports,
+        programId: TOKEN_PROGRAM_ID,
+      })
+    )
+
+    // Initialize mint
+    transaction.add(
+      createInitializeMintInstruction(
+        mintKeypair.publicKey,
+        decimals,
+        this.keypair.publicKey, // mint authority
+        this.keypair.publicKey, // freeze authority
+        TOKEN_PROGRAM_ID
+      )
+    )
+
+    return { transaction, mintKeypair, decimals }
+  }
+
   /**
    * Helper to mint initial supply to creator's token account.
    */
@@ -422,6 +557,18 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     amount: bigint,
     decimals: number
   ): Promise<void> {
+    const transaction = await this.buildMintInitialSupplyTransaction(mintPublicKey, amount, decimals)
+    await this.sendTokenTransaction(transaction)
+  }
+
+  /**
+   * Helper to build the initial supply mint (creating the creator's ATA if needed).
+   */
+  private async buildMintInitialSupplyTransaction(
+    mintPublicKey: any,
+    amount: bigint,
+    decimals: number
+  ): Promise<any> {
     const splToken = await this.loadSplToken()
     const {
       getAssociatedTokenAddress,
@@ -467,16 +614,7 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
       )
     )
 
-    // Send transaction
-    const { blockhash } = await this.connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
-    transaction.feePayer = this.keypair.publicKey
-    transaction.sign(this.keypair)
-
-    const signature = await this.connection.sendRawTransaction(
-      transaction.serialize()
-    )
-    await this.connection.confirmTransaction(signature, 'confirmed')
+    return transaction
   }
 
   /**
@@ -496,59 +634,18 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     }
 
     try {
-      const { PublicKey, Transaction: SolTransaction } = this.solana
-      const splToken = await this.loadSplToken()
-      const {
-        getAssociatedTokenAddress,
-        createAssociatedTokenAccountInstruction,
-        createTransferInstruction,
-        getAccount,
-      } = splToken
-
-      const mintPublicKey = new PublicKey(params.tokenId)
-      const toPublicKey = new PublicKey(params.to)
-
-      // Get source ATA
-      const sourceAta = await getAssociatedTokenAddress(
-        mintPublicKey,
-        this.keypair.publicKey
-      )
-
-      // Get destination ATA
-      const destAta = await getAssociatedTokenAddress(mintPublicKey, toPublicKey)
-
-      const transaction = new SolTransaction()
-
-      // Create destination ATA if it doesn't exist
-      try {
-        await getAccount(this.connection, destAta)
-      } catch {
-        transaction.add(
-          createAssociatedTokenAccountInstruction(
-            this.keypair.publicKey, // payer
-            destAta,
-            toPublicKey,
-            mintPublicKey
-          )
-        )
-      }
-
-      // Add transfer instruction
-      const amount = BigInt(params.amount)
-      transaction.add(
-        createTransferInstruction(sourceAta, destAta, this.keypair.publicKey, amount)
-      )
+      const transaction = await this.buildTransferTokenTransaction(params)
 
       // Send transaction
       const { blockhash } = await this.connection.getLatestBlockhash()
       transaction.recentBlockhash = blockhash
       transaction.feePayer = this.keypair.publicKey
-      transaction.sign(this.keypair)
+      await this.signAsOperator(transaction)
 
       const signature = await this.connection.sendRawTransaction(
         transaction.serialize()
       )
-      await this.connection.confirmTransaction(signature, 'confirmed')
+      await this.confirmSignature(signature)
 
       return {
         transactionId: signature,
@@ -566,186 +663,1045 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     }
   }
 
-  // ============================================================================
-  // NFT OPERATIONS (Metaplex)
-  // ============================================================================
-
   /**
-   * Create an NFT collection using Metaplex standard.
-   *
-   * @param params - NFT collection parameters
-   * @returns Collection creation result
+   * Helper to build an SPL transfer from the signer (creating the recipient's ATA if needed).
    */
-  async createNFT(params: CreateNFTParams): Promise<NFTResult> {
-    this.ensureInitialized()
-
-    try {
-      const { Keypair } = this.solana
-      const splToken = await this.loadSplToken()
-      const metaplex = await this.loadMetaplex()
+  private async buildTransferTokenTransaction(params: TransferParams): Promise<any> {
+    const { PublicKey, Transaction: SolTransaction } = this.solana
+    const splToken = await this.loadSplToken()
+    const {
+      getAssociatedTokenAddress,
+      createAssociatedTokenAccountInstruction,
+      createTransferInstruction,
+      getAccount,
+    } = splToken
 
-      // For Metaplex NFTs, we create a collection NFT
-      // The collection is itself an NFT with 0 decimals and supply of 1
-      const mintKeypair = Keypair.generate()
+    const mintPublicKey = new PublicKey(params.tokenId)
+    const toPublicKey = new PublicKey(params.to)
 
-      // Create mint for collection NFT
-      const tokenResult = await this.createToken({
-        name: params.name,
-        symbol: params.symbol || 'NFT',
-        decimals: 0, // NFTs have 0 decimals
-        initialSupply: '1', // Collection NFT has supply of 1
-      })
+    // Get source ATA
+    const sourceAta = await getAssociatedTokenAddress(
+      mintPublicKey,
+      this.keypair.publicKey
+    )
 
-      // In a full implementation, we would also:
-      // 1. Create metadata account using Metaplex
-      // 2. Set collection authority
-      // 3. Mark as collection NFT
+    // Get destination ATA
+    const destAta = await getAssociatedTokenAddress(mintPublicKey, toPublicKey)
 
-      const collectionAddress = tokenResult.tokenId
+    const transaction = new SolTransaction()
 
-      return {
-        collectionId: collectionAddress,
-        collectionAddress: collectionAddress,
-        transaction: tokenResult.transaction,
-        metadata: params.metadata,
-      }
-    } catch (error: any) {
-      throw new BlockchainError(
-        BlockchainErrorCode.TRANSACTION_FAILED,
-        `Failed to create NFT collection: ${error.message}`
+    // Create destination ATA if it doesn't exist
+    try {
+      await getAccount(this.connection, destAta)
+    } catch {
+      transaction.add(
+        createAssociatedTokenAccountInstruction(
+          this.keypair.publicKey, // payer
+          destAta,
+          toPublicKey,
+          mintPublicKey
+        )
       )
     }
+
+    // Add transfer instruction
+    const amount = BigInt(params.amount)
+    transaction.add(
+      createTransferInstruction(sourceAta, destAta, this.keypair.publicKey, amount)
+    )
+
+    return transaction
   }
 
   /**
-   * Mint an NFT in a collection.
+   * Approve a delegate for the signer's SPL token account.
+   * SPL token accounts hold a single delegate; approving replaces the previous one.
    *
-   * @param params - Mint parameters
+   * @param params - Approval parameters (amount in base units)
    * @returns Transaction result
    */
-  async mintNFT(params: MintNFTParams): Promise<TransactionResult> {
+  async approveToken(params: ApproveParams): Promise<TransactionResult> {
     this.ensureInitialized()
 
     try {
-      const { PublicKey, Keypair } = this.solana
+      const { PublicKey, Transaction: SolTransaction } = this.solana
+      const { getAssociatedTokenAddress, createApproveInstruction } = await this.loadSplToken()
 
-      // Create new mint for the NFT
-      const tokenResult = await this.createToken({
-        name: params.metadata?.name || 'NFT',
-        symbol: 'NFT',
-        decimals: 0,
-        initialSupply: '1',
-      })
+      const mintPublicKey = new PublicKey(params.tokenId)
+      const ata = await getAssociatedTokenAddress(mintPublicKey, this.keypair.publicKey)
 
-      // Transfer to recipient if specified
-      if (params.to && params.to !== this.walletAddress) {
-        await this.transferToken({
-          to: params.to,
-          amount: '1',
-          tokenId: tokenResult.tokenId,
-        })
-      }
+      const transaction = new SolTransaction().add(
+        createApproveInstruction(
+          ata,
+          new PublicKey(params.spender), // delegate
+          this.keypair.publicKey, // owner
+          BigInt(params.amount)
+        )
+      )
 
-      return tokenResult.transaction
+      return await this.sendTokenTransaction(transaction)
     } catch (error: any) {
       throw new BlockchainError(
         BlockchainErrorCode.TRANSACTION_FAILED,
-        `Failed to mint NFT: ${error.message}`
+        `Failed to approve delegate: ${error.message}`
       )
     }
   }
 
   /**
-   * Transfer an NFT.
+   * Get the amount a delegate may still transfer from an owner's token account.
    *
-   * @param params - Transfer parameters
-   * @returns Transaction result
+   * @param params - Allowance query parameters
+   * @returns Delegated amount (0 if `spender` is not the current delegate)
    */
-  async transferNFT(params: TransferNFTParams): Promise<TransactionResult> {
+  async getAllowance(params: AllowanceParams): Promise<bigint> {
     this.ensureInitialized()
 
-    // NFT transfer is same as token transfer with amount 1
-    return this.transferToken({
-      to: params.to,
-      amount: '1',
-      tokenId: params.tokenId, // Mint address of the NFT
-    })
-  }
-
-  /**
-   * Load Metaplex SDK (for testing override).
-   */
-  protected async loadMetaplex(): Promise<any> {
-    // In production, this would load @metaplex-foundation/js
-    // For now, return a placeholder
-    return {}
-  }
+    try {
+      const { PublicKey } = this.solana
+      const { getAssociatedTokenAddress, getAccount } = await this.loadSplToken()
 
-  // ============================================================================
-  // CONTRACT OPERATIONS (UNSUPPORTED)
-  // ============================================================================
+      const ata = await getAssociatedTokenAddress(
+        new PublicKey(params.tokenId),
+        new PublicKey(params.owner)
+      )
 
-  /**
-   * Deploy a smart contract - NOT SUPPORTED on Solana.
-   *
-   * Solana programs must be written in Rust and compiled to BPF.
-   * Use `solana program deploy` CLI instead.
-   *
-   * @throws BlockchainError with UNSUPPORTED_OPERATION
-   */
-  async deployContract(params: DeployContractParams): Promise<ContractResult> {
-    throw new BlockchainError(
-      BlockchainErrorCode.UNSUPPORTED_OPERATION,
-      'Solana does not support deploying contracts via API. ' +
-        'Solana programs must be written in Rust and deployed using `solana program deploy`. ' +
-        'Use callContract() to interact with existing programs.'
-    )
+      try {
+        const account = await getAccount(this.connection, ata)
+        return account.delegate?.toString() === params.spender
+          ? BigInt(account.delegatedAmount)
+          : BigInt(0)
+      } catch {
+        // Token account doesn't exist
+        return BigInt(0)
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Failed to query allowance: ${error.message}`
+      )
+    }
   }
 
   /**
-   * Call a Solana program.
+   * Transfer SPL tokens out of another wallet as its delegate.
    *
-   * @param params - Call parameters with programId and instruction data
-   * @returns Program execution result
+   * @param params - Delegated transfer parameters (amount in base units)
+   * @returns Transaction result
    */
-  async callContract(params: CallContractParams): Promise<any> {
+  async transferFrom(params: TransferFromParams): Promise<TransactionResult> {
     this.ensureInitialized()
 
     try {
-      const { PublicKey, Transaction: SolTransaction, TransactionInstruction } =
-        this.solana
-
-      const programId = new PublicKey(params.contractAddress)
-
-      // Build instruction from params
-      // args[0] should be an array of account keys
-      // args[1] should be the instruction data
-      const accounts = (params.args?.[0] || []).map((acc: any) => ({
-        pubkey: new PublicKey(acc.pubkey),
-        isSigner: acc.isSigner || false,
-        isWritable: acc.isWritable || false,
-      }))
-
-      const data = Buffer.from(params.args?.[1] || [])
+      const { PublicKey, Transaction: SolTransaction } = this.solana
+      const {
+        getAssociatedTokenAddress,
+        createAssociatedTokenAccountInstruction,
+        createTransferInstruction,
+        getAccount,
+      } = await this.loadSplToken()
 
-      const instruction = new TransactionInstruction({
-        keys: accounts,
-        programId,
-        data,
-      })
+      const mintPublicKey = new PublicKey(params.tokenId)
+      const toPublicKey = new PublicKey(params.to)
+      const sourceAta = await getAssociatedTokenAddress(mintPublicKey, new PublicKey(params.from))
+      const destAta = await getAssociatedTokenAddress(mintPublicKey, toPublicKey)
 
-      const transaction = new SolTransaction().add(instruction)
+      const transaction = new SolTransaction()
+
+      // Create destination ATA if it doesn't exist (paid by the delegate)
+      try {
+        await getAccount(this.connection, destAta)
+      } catch {
+        transaction.add(
+          createAssociatedTokenAccountInstruction(
+            this.keypair.publicKey, // payer
+            destAta,
+            toPublicKey,
+            mintPublicKey
+          )
+        )
+      }
+
+      transaction.add(
+        createTransferInstruction(
+          sourceAta,
+          destAta,
+          this.keypair.publicKey, // delegate signs instead of the owner
+          BigInt(params.amount)
+        )
+      )
+
+      return await this.sendTokenTransaction(transaction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to transfer as delegate: ${error.message}`
+      )
+    }
+  }
+
+  // ============================================================================
+  // TOKEN LIFECYCLE (SPL mint / freeze authorities)
+  // ============================================================================
+
+  /**
+   * Mint SPL tokens (the signer must be the mint authority).
+   * Creates the recipient's associated token account if needed.
+   *
+   * @param params - Mint parameters (amount in base units)
+   * @returns Transaction result
+   */
+  async mintToken(params: MintTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenMint', 'mintToken')
+
+    try {
+      const transaction = await this.buildMintToTransaction(params)
+      return await this.sendTokenTransaction(transaction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to mint token: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Helper to build an SPL mint (creating the recipient's ATA if needed).
+   */
+  private async buildMintToTransaction(params: MintTokenParams): Promise<any> {
+    const { PublicKey, Transaction: SolTransaction } = this.solana
+    const {
+      getAssociatedTokenAddress,
+      createAssociatedTokenAccountInstruction,
+      createMintToInstruction,
+      getAccount,
+    } = await this.loadSplToken()
+
+    const mintPublicKey = new PublicKey(params.tokenId)
+    const ownerPublicKey = params.to ? new PublicKey(params.to) : this.keypair.publicKey
+    const ata = await getAssociatedTokenAddress(mintPublicKey, ownerPublicKey)
+
+    const transaction = new SolTransaction()
+
+    try {
+      await getAccount(this.connection, ata)
+    } catch {
+      transaction.add(
+        createAssociatedTokenAccountInstruction(
+          this.keypair.publicKey, // payer
+          ata,
+          ownerPublicKey,
+          mintPublicKey
+        )
+      )
+    }
+
+    transaction.add(
+      createMintToInstruction(
+        mintPublicKey,
+        ata,
+        this.keypair.publicKey, // mint authority
+        BigInt(params.amount)
+      )
+    )
+
+    return transaction
+  }
+
+  /**
+   * Burn SPL tokens from the signer's associated token account.
+   *
+   * @param params - Burn parameters (amount in base units)
+   * @returns Transaction result
+   */
+  async burnToken(params: BurnTokenParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenBurn', 'burnToken')
+
+    try {
+      const { PublicKey, Transaction: SolTransaction } = this.solana
+      const { getAssociatedTokenAddress, createBurnInstruction } = await this.loadSplToken()
+
+      const mintPublicKey = new PublicKey(params.tokenId)
+      const ata = await getAssociatedTokenAddress(mintPublicKey, this.keypair.publicKey)
+
+      const transaction = new SolTransaction().add(
+        createBurnInstruction(
+          ata,
+          mintPublicKey,
+          this.keypair.publicKey, // owner
+          BigInt(params.amount)
+        )
+      )
+
+      return await this.sendTokenTransaction(transaction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to burn token: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Freeze a wallet's token account (the signer must be the freeze authority).
+   *
+   * @param params - Mint address and wallet address
+   * @returns Transaction result
+   */
+  async freezeAccount(params: TokenAccountParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenFreeze', 'freezeAccount')
+
+    try {
+      const { createFreezeAccountInstruction } = await this.loadSplToken()
+      return await this.sendFreezeAuthorityInstruction(params, createFreezeAccountInstruction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to freeze token account: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Thaw a frozen token account (the signer must be the freeze authority).
+   *
+   * @param params - Mint address and wallet address
+   * @returns Transaction result
+   */
+  async unfreezeAccount(params: TokenAccountParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureCapability('hasTokenFreeze', 'unfreezeAccount')
+
+    try {
+      const { createThawAccountInstruction } = await this.loadSplToken()
+      return await this.sendFreezeAuthorityInstruction(params, createThawAccountInstruction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to thaw token account: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Helper to send a freeze/thaw instruction for a wallet's associated token account.
+   */
+  private async sendFreezeAuthorityInstruction(
+    params: TokenAccountParams,
+    createInstruction: (account: any, mint: any, authority: any) => any
+  ): Promise<TransactionResult> {
+    const { PublicKey, Transaction: SolTransaction } = this.solana
+    const { getAssociatedTokenAddress } = await this.loadSplToken()
+
+    const mintPublicKey = new PublicKey(params.tokenId)
+    const ata = await getAssociatedTokenAddress(mintPublicKey, new PublicKey(params.account))
+
+    const transaction = new SolTransaction().add(
+      createInstruction(ata, mintPublicKey, this.keypair.publicKey)
+    )
+
+    return this.sendTokenTransaction(transaction)
+  }
+
+  /**
+   * Sign as fee payer - with the keypair, or through the configured signer -
+   * together with any additional signers (new accounts).
+   */
+  private async signAsOperator(transaction: any, signers: any[] = []): Promise<void> {
+    if (!this.signer) {
+      transaction.sign(this.keypair, ...signers)
+      return
+    }
+
+    if (signers.length > 0) {
+      transaction.partialSign(...signers)
+    }
+    const signature = await this.signer.sign(
+      transaction.serializeMessage(),
+      { chain: 'solana', network: this.network }
+    )
+    transaction.addSignature(this.keypair.publicKey, Buffer.from(signature))
+  }
+
+  /**
+   * Helper to sign, send and confirm a transaction paid by the signer.
+   *
+   * @param signers - Additional signers (e.g. new accounts)
+   */
+  private async sendTokenTransaction(transaction: any, signers: any[] = []): Promise<TransactionResult> {
+    const { blockhash } = await this.connection.getLatestBlockhash()
+    transaction.recentBlockhash = blockhash
+    transaction.feePayer = this.keypair.publicKey
+    await this.signAsOperator(transaction, signers)
+
+    const signature = await this.connection.sendRawTransaction(
+      transaction.serialize()
+    )
+    await this.confirmSignature(signature)
+
+    return {
+      transactionId: signature,
+      transactionHash: signature,
+      status: 'success',
+      blockNumber: 0,
+      timestamp: new Date(),
+      explorerUrl: this.getExplorerUrl(signature),
+    }
+  }
+
+  // ============================================================================
+  // NFT OPERATIONS (Metaplex)
+  // ============================================================================
+
+  /**
+   * Create an NFT collection using Metaplex standard. A royalty fee (or
+   * royaltyPercentage) becomes the metadata's seller fee basis points, with
+   * the fee collector as sole creator; Metaplex has no fixed or fractional fees.
+   *
+   * @param params - NFT collection parameters
+   * @returns Collection creation result
+   */
+  async createNFT(params: CreateNFTParams): Promise<NFTResult> {
+    this.ensureInitialized()
+
+    const customFees = this.getCustomFees(params, this.walletAddress!)
+    this.validateCustomFees(customFees, 'nft', 'createNFT')
+    const royalty = this.getSingleRoyalty(customFees)
+
+    try {
+      const { PublicKey, Transaction: SolTransaction } = this.solana
+      const metaplex = await this.loadMetaplex()
+
+      // For Metaplex NFTs, we create a collection NFT
+      // The collection is itself an NFT with 0 decimals and supply of 1
+      const tokenResult = await this.createToken({
+        name: params.name,
+        symbol: params.symbol || 'NFT',
+        decimals: 0, // NFTs have 0 decimals
+        initialSupply: '1', // Collection NFT has supply of 1
+      })
+
+      // Create the metadata account (the signer stays mint and update authority)
+      const mint = new PublicKey(tokenResult.tokenId)
+      const transaction = new SolTransaction().add(
+        metaplex.createCreateMetadataAccountV3Instruction(
+          {
+            metadata: this.getMetadataAddress(metaplex, mint),
+            mint,
+            mintAuthority: this.keypair.publicKey,
+            payer: this.keypair.publicKey,
+            updateAuthority: this.keypair.publicKey,
+          },
+          {
+            createMetadataAccountArgsV3: {
+              data: {
+                name: params.name,
+                symbol: params.symbol || 'NFT',
+                uri: params.customConfig?.metadataUri || '',
+                ...this.toMetaplexRoyalty(royalty),
+                collection: null,
+                uses: null,
+              },
+              isMutable: true,
+              collectionDetails: null,
+            },
+          }
+        )
+      )
+      await this.sendTokenTransaction(transaction)
+
+      // In a full implementation, we would also:
+      // 1. Set collection authority
+      // 2. Mark as collection NFT
+
+      const collectionAddress = tokenResult.tokenId
+
+      return {
+        collectionId: collectionAddress,
+        collectionAddress: collectionAddress,
+        transaction: tokenResult.transaction,
+        metadata: params.metadata,
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to create NFT collection: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Replace a collection's royalty: the Metaplex metadata's seller fee basis
+   * points and creators (the signer must be the update authority). No
+   * royalty fee clears it.
+   *
+   * @param params - Collection mint and its royalty fee
+   * @returns Transaction result
+   */
+  async updateTokenFees(params: UpdateTokenFeesParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.validateCustomFees(params.customFees, 'nft', 'updateTokenFees')
+    const royalty = this.getSingleRoyalty(params.customFees)
+
+    try {
+      const { PublicKey, Transaction: SolTransaction } = this.solana
+      const metaplex = await this.loadMetaplex()
+
+      const metadataAddress = this.getMetadataAddress(metaplex, new PublicKey(params.tokenId))
+      const { data, collection, uses } = await metaplex.Metadata.fromAccountAddress(this.connection, metadataAddress)
+
+      const transaction = new SolTransaction().add(
+        metaplex.createUpdateMetadataAccountV2Instruction(
+          {
+            metadata: metadataAddress,
+            updateAuthority: this.keypair.publicKey,
+          },
+          {
+            updateMetadataAccountArgsV2: {
+              data: {
+                name: data.name,
+                symbol: data.symbol,
+                uri: data.uri,
+                ...this.toMetaplexRoyalty(royalty),
+                collection,
+                uses,
+              },
+              updateAuthority: null,
+              primarySaleHappened: null,
+              isMutable: null,
+            },
+          }
+        )
+      )
+      return await this.sendTokenTransaction(transaction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to update royalty: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Helper to derive a mint's Metaplex metadata account.
+   */
+  private getMetadataAddress(metaplex: any, mint: any): any {
+    const { PublicKey } = this.solana
+    const [address] = PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), metaplex.PROGRAM_ID.toBuffer(), mint.toBuffer()],
+      metaplex.PROGRAM_ID
+    )
+    return address
+  }
+
+  /**
+   * Helper to map a royalty fee to Metaplex seller fee basis points and creators.
+   * The creator is verified only when it is the signer.
+   */
+  private toMetaplexRoyalty(royalty?: RoyaltyFee): { sellerFeeBasisPoints: number; creators: any[] | null } {
+    if (!royalty) {
+      return { sellerFeeBasisPoints: 0, creators: null }
+    }
+
+    const { PublicKey } = this.solana
+    return {
+      sellerFeeBasisPoints: royalty.basisPoints,
+      creators: [{
+        address: new PublicKey(royalty.collector),
+        verified: royalty.collector === this.walletAddress,
+        share: 100,
+      }],
+    }
+  }
+
+  /**
+   * Mint an NFT in a collection.
+   *
+   * @param params - Mint parameters
+   * @returns Transaction result
+   */
+  async mintNFT(params: MintNFTParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    try {
+      const { PublicKey, Keypair } = this.solana
+
+      // Create new mint for the NFT
+      const tokenResult = await this.createToken({
+        name: params.metadata?.name || 'NFT',
+        symbol: 'NFT',
+        decimals: 0,
+        initialSupply: '1',
+      })
+
+      // Transfer to recipient if specified
+      if (params.to && params.to !== this.walletAddress) {
+        await this.transferToken({
+          to: params.to,
+          amount: '1',
+          tokenId: tokenResult.tokenId,
+        })
+      }
+
+      return tokenResult.transaction
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to mint NFT: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Transfer an NFT.
+   *
+   * @param params - Transfer parameters
+   * @returns Transaction result
+   */
+  async transferNFT(params: TransferNFTParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    // NFT transfer is same as token transfer with amount 1
+    return this.transferToken({
+      to: params.to,
+      amount: '1',
+      tokenId: params.tokenId, // Mint address of the NFT
+    })
+  }
+
+  /**
+   * Load Metaplex SDK (for testing override).
+   */
+  protected async loadMetaplex(): Promise<any> {
+    return await import('@metaplex-foundation/mpl-token-metadata')
+  }
+
+  // ============================================================================
+  // MULTI-TOKEN OPERATIONS (SPL semi-fungible mints)
+  // ============================================================================
+
+  /**
+   * Create a multi-token collection as SPL mints with 0 decimals.
+   * Fungible items are semi-fungible mints; unique items get a supply of 1
+   * and their mint authority is removed. SPL has no collection object, so
+   * the treasury (signer) is the collection ID.
+   *
+   * @param params - Collection parameters
+   * @returns Collection result (item token IDs are mint addresses)
+   */
+  async createMultiToken(params: CreateMultiTokenParams): Promise<MultiTokenResult> {
+    this.ensureInitialized()
+    this.validateMultiTokenItems(params)
+
+    try {
+      const { PublicKey, Transaction: SolTransaction } = this.solana
+      const { createSetAuthorityInstruction, AuthorityType } = await this.loadSplToken()
+      const transactions: TransactionResult[] = []
+      const items: MultiTokenItem[] = []
+
+      for (const item of params.items) {
+        const token = await this.createToken({
+          name: `${params.name}: ${item.name}`,
+          symbol: params.symbol,
+          decimals: 0,
+          initialSupply: item.fungible ? item.initialSupply ?? BigInt(0) : BigInt(1),
+        })
+        transactions.push(token.transaction)
+
+        if (!item.fungible) {
+          transactions.push(await this.sendTokenTransaction(
+            new SolTransaction().add(
+              createSetAuthorityInstruction(
+                new PublicKey(token.tokenId),
+                this.keypair.publicKey, // current mint authority
+                AuthorityType.MintTokens,
+                null
+              )
+            )
+          ))
+        }
+
+        items.push({ id: item.id, name: item.name, fungible: item.fungible, tokenId: token.tokenId })
+      }
+
+      return {
+        collectionId: this.keypair.publicKey.toString(),
+        items,
+        transaction: {
+          ...transactions[transactions.length - 1],
+          customData: { transactionIds: transactions.map(tx => tx.transactionId) },
+        },
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to create multi-token collection: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Mint fungible items of a collection in one transaction.
+   * Unique items have no mint authority left, so minting them fails.
+   *
+   * @param params - Batch mint parameters
+   * @returns Transaction result
+   */
+  async mintBatch(params: MintBatchParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureBatchItems('mintBatch', params.items)
+
+    try {
+      const transaction = new this.solana.Transaction()
+      for (const item of params.items) {
+        const itemTransaction = await this.buildMintToTransaction({
+          tokenId: item.tokenId,
+          amount: item.amount,
+          to: params.to,
+        })
+        transaction.add(...itemTransaction.instructions)
+      }
+
+      return await this.sendTokenTransaction(transaction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to mint batch: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Transfer items of a collection in one transaction.
+   *
+   * @param params - Batch transfer parameters
+   * @returns Transaction result
+   */
+  async transferBatch(params: TransferBatchParams): Promise<TransactionResult> {
+    this.ensureInitialized()
+    this.ensureBatchItems('transferBatch', params.items)
+
+    try {
+      const transaction = new this.solana.Transaction()
+      for (const item of params.items) {
+        const itemTransaction = await this.buildTransferTokenTransaction({
+          tokenId: item.tokenId,
+          amount: item.amount,
+          to: params.to,
+        })
+        transaction.add(...itemTransaction.instructions)
+      }
+
+      return await this.sendTokenTransaction(transaction)
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to transfer batch: ${error.message}`
+      )
+    }
+  }
+
+  // ============================================================================
+  // PROGRAM OPERATIONS (BPF upgradeable loader, Anchor IDL)
+  // ============================================================================
+
+  /**
+   * Deploy (or upgrade) a compiled BPF program, like `solana program deploy`:
+   * the program is written to a buffer account in chunks, then the loader
+   * deploys it from the buffer.
+   *
+   * customConfig options:
+   * - programId: upgrade this program instead of deploying a new one
+   * - programKeypair: secret key (byte array) of the new program's address
+   *   (default: a generated one)
+   * - upgradeAuthority: hand the upgrade authority to this address after
+   *   deploying; null makes the program immutable (default: the signer keeps it)
+   * - maxDataLen: program data size to reserve for future upgrades
+   *   (default: twice the program size)
+   *
+   * @param params - contractCode is the .so file (Buffer, or a base64 / 0x-hex string)
+   * @returns Program ID and the deploy (or upgrade) transaction
+   */
+  async deployContract(params: DeployContractParams): Promise<ContractResult> {
+    this.ensureInitialized()
+
+    const program = this.getProgramBytes(params.contractCode)
+    const config = params.customConfig || {}
+
+    try {
+      const { PublicKey, Keypair, Transaction: SolTransaction, SystemProgram, TransactionInstruction } = this.solana
+      const loaderId = new PublicKey(BPF_LOADER_UPGRADEABLE_ID)
+      const authority = this.keypair.publicKey
+      const transactionIds: string[] = []
+
+      // 1. Buffer account holding the program bytes
+      const { transaction: bufferTransaction, bufferKeypair } = await this.buildProgramBufferTransaction(program)
+      transactionIds.push((await this.sendTokenTransaction(bufferTransaction, [bufferKeypair])).transactionId)
+
+      for (let offset = 0; offset < program.length; offset += PROGRAM_WRITE_CHUNK_SIZE) {
+        const chunk = program.subarray(offset, offset + PROGRAM_WRITE_CHUNK_SIZE)
+        const data = Buffer.alloc(16)
+        data.writeUInt32LE(LoaderInstruction.Write, 0)
+        data.writeUInt32LE(offset, 4)
+        data.writeBigUInt64LE(BigInt(chunk.length), 8)
+
+        const result = await this.sendTokenTransaction(new SolTransaction().add(
+          new TransactionInstruction({
+            keys: [
+              { pubkey: bufferKeypair.publicKey, isSigner: false, isWritable: true },
+              { pubkey: authority, isSigner: true, isWritable: false },
+            ],
+            programId: loaderId,
+            data: Buffer.concat([data, chunk]),
+          })
+        ))
+        transactionIds.push(result.transactionId)
+      }
+
+      // 2. Deploy a new program from the buffer, or upgrade an existing one
+      const programKeypair = config.programId
+        ? undefined
+        : config.programKeypair
+          ? Keypair.fromSecretKey(Uint8Array.from(config.programKeypair))
+          : Keypair.generate()
+      const programId = config.programId ? new PublicKey(config.programId) : programKeypair.publicKey
+      const [programDataAddress] = PublicKey.findProgramAddressSync([programId.toBuffer()], loaderId)
+      const sysvarKeys = [
+        { pubkey: new PublicKey(WELL_KNOWN_ACCOUNTS.rent), isSigner: false, isWritable: false },
+        { pubkey: new PublicKey(WELL_KNOWN_ACCOUNTS.clock), isSigner: false, isWritable: false },
+      ]
+      const deployTransaction = new SolTransaction()
+
+      if (programKeypair) {
+        const data = Buffer.alloc(12)
+        data.writeUInt32LE(LoaderInstruction.DeployWithMaxDataLen, 0)
+        data.writeBigUInt64LE(BigInt(config.maxDataLen ?? program.length * 2), 4)
+
+        deployTransaction.add(
+          SystemProgram.createAccount({
+            fromPubkey: authority,
+            newAccountPubkey: programId,
+            lamports: await this.connection.getMinimumBalanceForRentExemption(PROGRAM_ACCOUNT_SIZE),
+            space: PROGRAM_ACCOUNT_SIZE,
+            programId: loaderId,
+          }),
+          new TransactionInstruction({
+            keys: [
+              { pubkey: authority, isSigner: true, isWritable: true }, // payer
+              { pubkey: programDataAddress, isSigner: false, isWritable: true },
+              { pubkey: programId, isSigner: false, isWritable: true },
+              { pubkey: bufferKeypair.publicKey, isSigner: false, isWritable: true },
+              ...sysvarKeys,
+              { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+              { pubkey: authority, isSigner: true, isWritable: false },
+            ],
+            programId: loaderId,
+            data,
+          })
+        )
+      } else {
+        const data = Buffer.alloc(4)
+        data.writeUInt32LE(LoaderInstruction.Upgrade, 0)
+
+        deployTransaction.add(new TransactionInstruction({
+          keys: [
+            { pubkey: programDataAddress, isSigner: false, isWritable: true },
+            { pubkey: programId, isSigner: false, isWritable: true },
+            { pubkey: bufferKeypair.publicKey, isSigner: false, isWritable: true },
+            { pubkey: authority, isSigner: false, isWritable: true }, // spill: buffer lamports are refunded here
+            ...sysvarKeys,
+            { pubkey: authority, isSigner: true, isWritable: false },
+          ],
+          programId: loaderId,
+          data,
+        }))
+      }
+
+      const deployResult = await this.sendTokenTransaction(deployTransaction, programKeypair ? [programKeypair] : [])
+      transactionIds.push(deployResult.transactionId)
+
+      // 3. Optionally hand over or drop the upgrade authority
+      if (config.upgradeAuthority !== undefined) {
+        const result = await this.setUpgradeAuthority(programId.toString(), config.upgradeAuthority)
+        transactionIds.push(result.transactionId)
+      }
+
+      return {
+        contractId: programId.toString(),
+        contractAddress: programId.toString(),
+        transaction: {
+          ...deployResult,
+          customData: {
+            transactionIds,
+            programDataAddress: programDataAddress.toString(),
+            bufferAddress: bufferKeypair.publicKey.toString(),
+            upgradeAuthority: config.upgradeAuthority === undefined ? authority.toString() : config.upgradeAuthority,
+          },
+        },
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.CONTRACT_ERROR,
+        `Failed to deploy program: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Change a program's upgrade authority. The signer must be the current
+   * authority.
+   *
+   * @param programId - Program address
+   * @param newAuthority - New upgrade authority; null makes the program immutable (irreversible)
+   * @returns Transaction result
+   */
+  async setUpgradeAuthority(programId: string, newAuthority: string | null): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    try {
+      const { PublicKey, Transaction: SolTransaction, TransactionInstruction } = this.solana
+      const loaderId = new PublicKey(BPF_LOADER_UPGRADEABLE_ID)
+      const [programDataAddress] = PublicKey.findProgramAddressSync([new PublicKey(programId).toBuffer()], loaderId)
+      const data = Buffer.alloc(4)
+      data.writeUInt32LE(LoaderInstruction.SetAuthority, 0)
+
+      const keys = [
+        { pubkey: programDataAddress, isSigner: false, isWritable: true },
+        { pubkey: this.keypair.publicKey, isSigner: true, isWritable: false },
+      ]
+      if (newAuthority) {
+        keys.push({ pubkey: new PublicKey(newAuthority), isSigner: false, isWritable: false })
+      }
+
+      return await this.sendTokenTransaction(
+        new SolTransaction().add(new TransactionInstruction({ keys, programId: loaderId, data }))
+      )
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.CONTRACT_ERROR,
+        `Failed to set upgrade authority: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Helper to build the buffer account creation (SystemProgram.createAccount +
+   * InitializeBuffer with the signer as buffer authority).
+   */
+  private async buildProgramBufferTransaction(program: Buffer): Promise<{ transaction: any; bufferKeypair: any }> {
+    const { PublicKey, Keypair, Transaction: SolTransaction, SystemProgram, TransactionInstruction } = this.solana
+    const loaderId = new PublicKey(BPF_LOADER_UPGRADEABLE_ID)
+    const bufferKeypair = Keypair.generate()
+    const space = BUFFER_METADATA_SIZE + program.length
+    const data = Buffer.alloc(4)
+    data.writeUInt32LE(LoaderInstruction.InitializeBuffer, 0)
+
+    const transaction = new SolTransaction().add(
+      SystemProgram.createAccount({
+        fromPubkey: this.keypair.publicKey,
+        newAccountPubkey: bufferKeypair.publicKey,
+        lamports: await this.connection.getMinimumBalanceForRentExemption(space),
+        space,
+        programId: loaderId,
+      }),
+      new TransactionInstruction({
+        keys: [
+          { pubkey: bufferKeypair.publicKey, isSigner: false, isWritable: true },
+          { pubkey: this.keypair.publicKey, isSigner: false, isWritable: false },
+        ],
+        programId: loaderId,
+        data,
+      })
+    )
+
+    return { transaction, bufferKeypair }
+  }
+
+  /**
+   * Helper to read a compiled program and check it is an ELF shared object.
+   */
+  private getProgramBytes(contractCode: string | Buffer): Buffer {
+    const program = Buffer.isBuffer(contractCode)
+      ? contractCode
+      : contractCode.startsWith('0x')
+        ? Buffer.from(contractCode.slice(2), 'hex')
+        : Buffer.from(contractCode, 'base64')
+
+    if (program.subarray(0, 4).toString('latin1') !== '\x7fELF') {
+      throw new BlockchainError(
+        BlockchainErrorCode.CONTRACT_ERROR,
+        'contractCode is not a compiled Solana program; pass the .so file built by `cargo build-sbf` or `anchor build`'
+      )
+    }
+    return program
+  }
+
+  /**
+   * Call a Solana program.
+   *
+   * With an Anchor IDL (params.idl), methodName is the instruction and args
+   * are its arguments in IDL order; accounts are taken from params.accounts
+   * by name, from the IDL, or default to the signer. Without an IDL, args[0]
+   * is the account list ({ pubkey, isSigner, isWritable }) and args[1] the
+   * raw instruction data.
+   *
+   * @param params - Call parameters with programId and instruction
+   * @returns Program execution result
+   */
+  async callContract(params: CallContractParams): Promise<any> {
+    this.ensureInitialized()
+
+    try {
+      const { PublicKey, Transaction: SolTransaction, TransactionInstruction } =
+        this.solana
+
+      let instruction: any
+      if (params.idl) {
+        const encoded = encodeAnchorInstruction(params.idl, params.methodName, params.args || [], {
+          programId: params.contractAddress,
+          accounts: params.accounts,
+          signer: this.keypair.publicKey.toString(),
+        })
+        instruction = new TransactionInstruction({
+          keys: encoded.accounts.map(account => ({
+            pubkey: new PublicKey(account.address),
+            isSigner: account.isSigner,
+            isWritable: account.isWritable,
+          })),
+          programId: new PublicKey(encoded.programId),
+          data: encoded.data,
+        })
+      } else {
+        // args[0] should be an array of account keys
+        // args[1] should be the instruction data
+        const accounts = (params.args?.[0] || []).map((acc: any) => ({
+          pubkey: new PublicKey(acc.pubkey),
+          isSigner: acc.isSigner || false,
+          isWritable: acc.isWritable || false,
+        }))
+
+        instruction = new TransactionInstruction({
+          keys: accounts,
+          programId: new PublicKey(params.contractAddress),
+          data: Buffer.from(params.args?.[1] || []),
+        })
+      }
+
+      const transaction = new SolTransaction().add(instruction)
 
       // Send transaction
       const { blockhash } = await this.connection.getLatestBlockhash()
       transaction.recentBlockhash = blockhash
       transaction.feePayer = this.keypair.publicKey
-      transaction.sign(this.keypair)
+      await this.signAsOperator(transaction)
 
       const signature = await this.connection.sendRawTransaction(
         transaction.serialize()
       )
-      await this.connection.confirmTransaction(signature, 'confirmed')
+      await this.confirmSignature(signature)
 
       return {
         signature,
@@ -763,6 +1719,150 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
   // TRANSACTION OPERATIONS
   // ============================================================================
 
+  /**
+   * Simulate a transaction with the simulateTransaction RPC.
+   *
+   * SOL balance changes come from the simulated post-state of the payer (and
+   * recipient); SPL balance changes are predicted from the request.
+   *
+   * @param request - Raw transaction or adapter operation to simulate
+   * @returns Predicted outcome, balance changes and program logs
+   */
+  async simulateTransaction(request: SimulationRequest): Promise<SimulationResult> {
+    this.ensureInitialized()
+
+    const { PublicKey } = this.solana
+    const { transaction, signers, tokenChanges, warnings = [] } = await this.buildSimulation(request)
+    const payer = this.keypair.publicKey
+    const watched = request.operation === 'transaction'
+      ? [payer, new PublicKey(request.transaction.to)]
+      : [payer]
+
+    try {
+      const { blockhash } = await this.connection.getLatestBlockhash()
+      transaction.recentBlockhash = blockhash
+      transaction.feePayer = payer
+
+      const preBalances: number[] = await Promise.all(
+        watched.map((key: any) => this.connection.getBalance(key))
+      )
+      // Signers outside the process are not asked to sign dry runs (signatures aren't verified)
+      const { value } = await this.connection.simulateTransaction(
+        transaction,
+        this.signer ? undefined : [this.keypair, ...signers],
+        watched
+      )
+
+      const success = !value.err
+      const logs: string[] = value.logs || []
+      const balanceChanges: BalanceChange[] = watched.map((key: any, index: number) => ({
+        account: key.toString(),
+        delta: BigInt(value.accounts?.[index]?.lamports ?? preBalances[index]) - BigInt(preBalances[index]),
+      }))
+
+      return {
+        success,
+        revertReason: success
+          ? undefined
+          : [...logs].reverse().find(line => / failed: /.test(line)) || JSON.stringify(value.err),
+        method: 'simulateTransaction',
+        gasUsed: value.unitsConsumed !== undefined ? BigInt(value.unitsConsumed) : undefined,
+        // 5000 lamports per signature
+        fee: BigInt(5000 * (1 + signers.length)),
+        balanceChanges: success ? [...balanceChanges, ...tokenChanges] : balanceChanges,
+        logs: logs.map(message => ({ message })),
+        warnings: value.accounts
+          ? warnings
+          : [...warnings, 'The RPC node did not return post-simulation accounts; SOL balance changes are unknown'],
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Failed to simulate transaction: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Helper to build the transaction an operation would send, its extra signers
+   * and the SPL balance changes it is expected to cause.
+   */
+  private async buildSimulation(
+    request: SimulationRequest
+  ): Promise<{ transaction: any; signers: any[]; tokenChanges: BalanceChange[]; warnings?: string[] }> {
+    const { PublicKey, Transaction: SolTransaction, SystemProgram } = this.solana
+    const owner = this.keypair.publicKey.toString()
+
+    switch (request.operation) {
+      case 'transaction': {
+        if (request.transaction.data) {
+          throw new BlockchainError(
+            BlockchainErrorCode.UNSUPPORTED_OPERATION,
+            'Only SOL transfers can be simulated from a raw transaction; use transferToken or createToken requests for SPL operations'
+          )
+        }
+        const transaction = new SolTransaction().add(
+          SystemProgram.transfer({
+            fromPubkey: this.keypair.publicKey,
+            toPubkey: new PublicKey(request.transaction.to),
+            lamports: Number(request.transaction.value ?? 0),
+          })
+        )
+        return { transaction, signers: [], tokenChanges: [] }
+      }
+
+      case 'transferToken': {
+        const { params } = request
+        if (!params.tokenId) {
+          throw new BlockchainError(
+            BlockchainErrorCode.INVALID_ADDRESS,
+            'tokenId (mint address) is required for SPL token transfer'
+          )
+        }
+        const amount = BigInt(params.amount)
+        return {
+          transaction: await this.buildTransferTokenTransaction(params),
+          signers: [],
+          tokenChanges: [
+            { account: owner, tokenId: params.tokenId, delta: -amount },
+            { account: params.to, tokenId: params.tokenId, delta: amount },
+          ],
+        }
+      }
+
+      case 'createToken': {
+        const { params } = request
+        const { transaction, mintKeypair, decimals } = await this.buildCreateMintTransaction(params)
+        const tokenId = mintKeypair.publicKey.toString()
+        const supply = BigInt(params.initialSupply || 0)
+        const tokenChanges: BalanceChange[] = []
+
+        // Mint creation and initial supply are separate transactions; simulate them as one
+        if (supply > BigInt(0)) {
+          const mintTransaction = await this.buildMintInitialSupplyTransaction(mintKeypair.publicKey, supply, decimals)
+          transaction.add(...mintTransaction.instructions)
+          tokenChanges.push({ account: owner, tokenId, delta: supply * BigInt(10 ** decimals) })
+        }
+        return { transaction, signers: [mintKeypair], tokenChanges }
+      }
+
+      case 'deployContract': {
+        const program = this.getProgramBytes(request.params.contractCode)
+        const { transaction, bufferKeypair } = await this.buildProgramBufferTransaction(program)
+        const writes = Math.ceil(program.length / PROGRAM_WRITE_CHUNK_SIZE)
+        return {
+          transaction,
+          signers: [bufferKeypair],
+          tokenChanges: [],
+          warnings: [
+            `Only the buffer account creation is simulated; the ${writes} write transaction(s) and the ` +
+              'deploy transaction (program account rent and fees) are not',
+          ],
+        }
+      }
+    }
+  }
+
   /**
    * Get transaction status by signature.
    *
@@ -837,7 +1937,7 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
       transaction.feePayer = this.keypair.publicKey
 
       // Sign transaction
-      transaction.sign(this.keypair)
+      await this.signAsOperator(transaction)
 
       const serialized = transaction.serialize()
       const signature = transaction.signatures[0]?.signature
@@ -856,6 +1956,103 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     }
   }
 
+  /**
+   * Build an unsigned SOL transfer for offline signing. Blockhashes expire
+   * after about a minute; with options.nonceAccount the transaction uses a
+   * durable nonce instead and stays valid until the nonce advances.
+   *
+   * @param tx - Transfer (to, value in lamports; from defaults to the payer)
+   * @param options - Durable nonce account
+   * @returns Wire-format payload with empty signatures
+   */
+  async buildTransaction(tx: Transaction, options: BuildTransactionOptions = {}): Promise<UnsignedTransaction> {
+    this.ensureInitialized()
+
+    if (tx.data) {
+      throw new BlockchainError(
+        BlockchainErrorCode.UNSUPPORTED_OPERATION,
+        'Offline Solana transactions are SOL transfers; data is not supported'
+      )
+    }
+
+    try {
+      const { PublicKey, SystemProgram, Transaction: SolTransaction } = this.solana
+      const from = tx.from ? new PublicKey(tx.from) : this.keypair.publicKey
+      const transaction = new SolTransaction()
+      transaction.feePayer = from
+      let expiresAt: Date | undefined
+
+      if (options.nonceAccount) {
+        const noncePubkey = new PublicKey(options.nonceAccount)
+        const nonceAccount = await this.connection.getNonce(noncePubkey)
+        if (!nonceAccount) {
+          throw new BlockchainError(
+            BlockchainErrorCode.INVALID_ADDRESS,
+            `${options.nonceAccount} is not a nonce account`
+          )
+        }
+        // Advancing the nonce must be the first instruction
+        transaction.add(SystemProgram.nonceAdvance({ noncePubkey, authorizedPubkey: nonceAccount.authorizedPubkey }))
+        transaction.recentBlockhash = nonceAccount.nonce
+      } else {
+        const { blockhash } = await this.connection.getLatestBlockhash()
+        transaction.recentBlockhash = blockhash
+        expiresAt = new Date(Date.now() + 60_000)
+      }
+
+      transaction.add(SystemProgram.transfer({
+        fromPubkey: from,
+        toPubkey: new PublicKey(tx.to),
+        lamports: tx.value ?? 0n,
+      }))
+      const payload = transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64')
+
+      return {
+        chain: this.chainId,
+        network: this.network,
+        transaction: { ...tx, from: from.toBase58() },
+        payload,
+        signer: from.toBase58(),
+        summary: await summarizeTransaction(this.chainId, this.network, payload),
+        expiresAt,
+      }
+    } catch (error: any) {
+      if (error instanceof BlockchainError) throw error
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Failed to build transaction: ${error.message}`
+      )
+    }
+  }
+
+  /**
+   * Broadcast a transaction signed offline and wait for confirmation.
+   *
+   * @param signed - Signed wire-format transaction (base64)
+   */
+  async broadcastTransaction(signed: SignedTransaction): Promise<TransactionResult> {
+    this.ensureInitialized()
+
+    try {
+      const signature = await this.connection.sendRawTransaction(Buffer.from(signed.rawTransaction, 'base64'))
+      await this.confirmSignature(signature)
+
+      return {
+        transactionId: signature,
+        transactionHash: signature,
+        status: 'success',
+        blockNumber: 0,
+        timestamp: new Date(),
+        explorerUrl: this.getExplorerUrl(signature),
+      }
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Broadcast failed: ${error.message}`
+      )
+    }
+  }
+
   // ============================================================================
   // WALLET OPERATIONS
   // ============================================================================
@@ -1006,6 +2203,108 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
     return this.connectedWalletProvider
   }
 
+  // ============================================================================
+  // SUBSCRIPTIONS (account signature history)
+  // ============================================================================
+
+  /**
+   * Fetch account activity after a cursor (used by subscribe()).
+   *
+   * Solana has no event logs, so subscriptions follow an account's signature
+   * history. token-transfers watch the owner's associated token account and
+   * derive amounts from each transaction's pre/post token balances.
+   * Cursors are transaction signatures.
+   *
+   * @param params - Subscription parameters
+   * @param cursor - Last delivered signature (undefined = latest signature)
+   */
+  protected async fetchEvents(params: SubscribeParams, cursor: string | undefined): Promise<EventPage> {
+    const { PublicKey } = this.solana
+
+    if (params.kind === 'token-transfers' && (!params.account || !params.tokenId)) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_ADDRESS,
+        `Solana 'token-transfers' subscriptions require account and tokenId`,
+        { kind: params.kind }
+      )
+    }
+
+    const owner = new PublicKey(params.account)
+    const address = params.kind === 'token-transfers'
+      ? await (await this.loadSplToken()).getAssociatedTokenAddress(new PublicKey(params.tokenId), owner)
+      : owner
+
+    if (cursor === undefined) {
+      const [latest] = await this.connection.getSignaturesForAddress(address, { limit: 1 })
+      return { events: [], cursor: latest?.signature ?? '' }
+    }
+
+    // Newest first, stopping before the cursor signature
+    const signatures: any[] = await this.connection.getSignaturesForAddress(address, {
+      until: cursor || undefined,
+      limit: 100,
+    })
+    const ordered = [...signatures].reverse()
+
+    const events: ChainEvent[] = []
+    for (const info of ordered) {
+      const base = {
+        kind: params.kind,
+        chain: this.chainId,
+        cursor: info.signature,
+        transactionId: info.signature,
+        blockNumber: info.slot,
+        timestamp: info.blockTime ? new Date(info.blockTime * 1000) : undefined,
+      }
+
+      if (params.kind === 'account-changes') {
+        events.push({ ...base, data: { signature: info.signature, slot: info.slot, error: info.err } })
+        continue
+      }
+
+      if (info.err) continue
+      const transfer = await this.getTokenBalanceChange(info.signature, params.tokenId!, params.account!)
+      if (transfer) {
+        events.push({ ...base, tokenId: params.tokenId, ...transfer })
+      }
+    }
+
+    return { events, cursor: ordered[ordered.length - 1]?.signature, more: signatures.length === 100 }
+  }
+
+  /**
+   * Net token balance change of an owner in one transaction.
+   */
+  private async getTokenBalanceChange(
+    signature: string,
+    mint: string,
+    owner: string
+  ): Promise<Pick<ChainEvent, 'from' | 'to' | 'amount'> | undefined> {
+    const tx = await this.connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 })
+
+    const deltas = new Map<string, bigint>()
+    for (const [balances, sign] of [[tx?.meta?.preTokenBalances, -1n], [tx?.meta?.postTokenBalances, 1n]] as const) {
+      for (const balance of balances || []) {
+        if (balance.mint !== mint || !balance.owner) continue
+        const amount = BigInt(balance.uiTokenAmount.amount) * sign
+        deltas.set(balance.owner, (deltas.get(balance.owner) ?? 0n) + amount)
+      }
+    }
+
+    const delta = deltas.get(owner) ?? 0n
+    if (delta === 0n) return undefined
+
+    const incoming = delta > 0n
+    const counterparty = [...deltas.entries()]
+      .find(([account, change]) => account !== owner && (incoming ? change < 0n : change > 0n))?.[0]
+
+    return {
+      from: incoming ? counterparty : owner,
+      to: incoming ? owner : counterparty,
+      amount: incoming ? delta : -delta,
+    }
+  }
+
   // ============================================================================
   // UTILITY METHODS
   // ============================================================================
@@ -1017,6 +2316,12 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
    * @returns Solscan/Solana Explorer URL
    */
   getExplorerUrl(txId: string): string {
+    // Solana Explorer can point at a local validator via a custom cluster URL
+    if (this.network === 'localnet') {
+      const endpoints = getLocalnetEndpoints('solana', this.config)
+      return `${endpoints.explorerUrl}/tx/${txId}?cluster=custom&customUrl=${encodeURIComponent(endpoints.rpcUrl)}`
+    }
+
     const baseUrl =
       this.network === 'mainnet'
         ? 'https://solscan.io'
@@ -1036,6 +2341,7 @@ export class SolanaAdapter extends BaseBlockchainAdapter {
       mainnet: 'https://api.mainnet-beta.solana.com',
       testnet: 'https://api.testnet.solana.com',
       devnet: 'https://api.devnet.solana.com',
+      localnet: getLocalnetEndpoints('solana').rpcUrl,
     }
     return urls[this.network] || urls.devnet
   }
@@ -44,6 +44,7 @@ class TestableBaseAdapter extends BaseAdapter {
   protected async loadEthers(): Promise<any> {
     return {
       JsonRpcProvider: mockEthersModule.MockJsonRpcProvider,
+      FetchRequest: mockEthersModule.MockFetchRequest,
       BrowserProvider: mockEthersModule.MockBrowserProvider,
       Wallet: mockEthersModule.MockWallet,
       Contract: mockEthersModule.MockContract,
@@ -20,6 +20,8 @@ import {
 
 // Import mock ethers classes
 import * as mockEthersModule from '@test-mocks/ethers.mock'
+import { Transaction, TypedDataEncoder } from 'ethers'
+import { hashSafeTransaction, createSafeTransaction } from '@blockchain/core/Multisig'
 
 /**
  * TestableEthereumAdapter - Exposes protected methods for testing.
@@ -30,6 +32,7 @@ class TestableEthereumAdapter extends EthereumAdapter {
     // Return the mock module with classes accessible as ethers.X
     return {
       JsonRpcProvider: mockEthersModule.MockJsonRpcProvider,
+      FetchRequest: mockEthersModule.MockFetchRequest,
       BrowserProvider: mockEthersModule.MockBrowserProvider,
       Wallet: mockEthersModule.MockWallet,
       Contract: mockEthersModule.MockContract,
@@ -43,6 +46,9 @@ class TestableEthereumAdapter extends EthereumAdapter {
       isAddress: mockEthersModule.isAddress,
       id: mockEthersModule.id,
       keccak256: mockEthersModule.keccak256,
+      // Real: RLP encoding and EIP-712 hashing need no network
+      Transaction,
+      TypedDataEncoder,
     }
   }
 
@@ -108,6 +114,18 @@ describe('EthereumAdapter', () => {
       )
     })
 
+    it('should derive the key from a mnemonic', async () => {
+      const mnemonicConfig = createMockEthConfig({
+        credentials: { mnemonic: 'test test test test test test test test test test test junk' },
+      })
+
+      await adapter.initialize(mnemonicConfig)
+      expect(await adapter.isConnected()).toBe(true)
+
+      const invalidConfig = createMockEthConfig({ credentials: { mnemonic: 'not a seed phrase' } })
+      await expect(new TestableEthereumAdapter().initialize(invalidConfig)).rejects.toThrow('Invalid mnemonic')
+    })
+
     it('should use custom RPC URL when provided', async () => {
       const customConfig = createMockEthConfig({
         rpcUrl: 'https://custom-rpc.example.com',
@@ -273,6 +291,74 @@ describe('EthereumAdapter', () => {
     })
   })
 
+  describe('simulateTransaction()', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should fall back to eth_call when debug_traceCall is unavailable', async () => {
+      const tokenId = generateMockEthAddress()
+      const to = generateMockEthAddress()
+
+      const result = await adapter.simulateTransaction({
+        operation: 'transferToken',
+        params: { tokenId, to, amount: '250' },
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.method).toBe('eth_call')
+      expect(result.gasUsed).toBe(BigInt(21000))
+      expect(result.fee).toBe(BigInt(21000) * BigInt('30000000000'))
+      expect(result.balanceChanges).toEqual(expect.arrayContaining([
+        { account: to, tokenId, delta: BigInt(250) },
+      ]))
+      expect(result.warnings[0]).toContain('debug_traceCall')
+    })
+
+    it('should report the revert reason instead of throwing', async () => {
+      jest.spyOn(adapter.testProvider as any, 'call').mockRejectedValueOnce(
+        Object.assign(new Error('execution reverted'), {
+          code: 'CALL_EXCEPTION',
+          reason: 'ERC20: transfer amount exceeds balance',
+        })
+      )
+
+      const result = await adapter.simulateTransaction({
+        operation: 'transferToken',
+        params: { tokenId: generateMockEthAddress(), to: generateMockEthAddress(), amount: '1' },
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.revertReason).toBe('ERC20: transfer amount exceeds balance')
+    })
+
+    it('should read logs and token transfers from debug_traceCall', async () => {
+      const tokenId = generateMockEthAddress()
+      const to = generateMockEthAddress()
+      const topic = (address: string) => '0x' + address.slice(2).toLowerCase().padStart(64, '0')
+      const transferTopic = mockEthersModule.id('Transfer(address,address,uint256)')
+
+      jest.spyOn(adapter.testProvider as any, 'send').mockResolvedValueOnce({
+        gasUsed: '0xc350',
+        logs: [{
+          address: tokenId,
+          topics: [transferTopic, topic(adapter.testOperatorAddress!), topic(to)],
+          data: '0x' + (100).toString(16).padStart(64, '0'),
+        }],
+      })
+
+      const result = await adapter.simulateTransaction({
+        operation: 'transaction',
+        transaction: { to: tokenId, data: '0xa9059cbb' },
+      })
+
+      expect(result.method).toBe('debug_traceCall')
+      expect(result.gasUsed).toBe(BigInt(50000))
+      expect(result.logs).toHaveLength(1)
+      expect(result.balanceChanges.find(change => change.tokenId && change.delta > BigInt(0))?.delta).toBe(BigInt(100))
+    })
+  })
+
   // ============================================================================
   // TOKEN CREATION TESTS
   // ============================================================================
@@ -336,6 +422,185 @@ describe('EthereumAdapter', () => {
         })
       ).rejects.toThrow('tokenId')
     })
+
+    it('should give parallel transfers consecutive nonces', async () => {
+      const transfer = jest.spyOn(mockEthersModule.MockContract.prototype, 'transfer')
+      const tokenId = generateMockEthAddress()
+
+      await Promise.all([1, 2, 3].map(() => adapter.transferToken({
+        to: generateMockEthAddress(),
+        amount: '1000',
+        tokenId,
+      })))
+
+      expect(transfer.mock.calls.map(call => (call as any[])[2])).toEqual([{ nonce: 0 }, { nonce: 1 }, { nonce: 2 }])
+      expect((await adapter.getPendingTransactions()).map(tx => tx.nonce)).toEqual([0, 1, 2])
+      transfer.mockRestore()
+    })
+
+    it('should cancel a pending transfer', async () => {
+      const result = await adapter.transferToken({
+        to: generateMockEthAddress(),
+        amount: '1000',
+        tokenId: generateMockEthAddress(),
+      })
+
+      const cancellation = await adapter.cancelTransaction(result.transactionId)
+      const [pending] = await adapter.getPendingTransactions()
+
+      expect(cancellation.status).toBe('pending')
+      expect(pending.cancelled).toBe(true)
+      expect(pending.replacedHashes).toEqual([result.transactionId])
+    })
+  })
+
+  describe('allowances', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should approve, query and spend an ERC-20 allowance', async () => {
+      const tokenId = generateMockEthAddress()
+      const owner = generateMockEthAddress()
+      const spender = generateMockEthAddress()
+
+      const approval = await adapter.approveToken({ tokenId, spender, amount: '1000' })
+      const allowance = await adapter.getAllowance({ tokenId, owner, spender })
+      const transfer = await adapter.transferFrom({
+        tokenId,
+        from: owner,
+        to: generateMockEthAddress(),
+        amount: '250',
+      })
+
+      expect(approval).toHaveProperty('transactionHash')
+      expect(typeof allowance).toBe('bigint')
+      expect(transfer).toHaveProperty('transactionHash')
+    })
+  })
+
+  describe('token lifecycle', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should mint and burn via ERC-20 extensions', async () => {
+      const tokenId = generateMockEthAddress()
+
+      const minted = await adapter.mintToken({ tokenId, amount: '500', to: generateMockEthAddress() })
+      const burned = await adapter.burnToken({ tokenId, amount: '200' })
+
+      expect(minted).toHaveProperty('transactionHash')
+      expect(burned).toHaveProperty('transactionHash')
+    })
+
+    it('should reject pause, freeze, wipe and KYC as UNSUPPORTED_OPERATION', async () => {
+      const tokenId = generateMockEthAddress()
+      const account = generateMockEthAddress()
+
+      for (const operation of [
+        () => adapter.pauseToken(tokenId),
+        () => adapter.freezeAccount({ tokenId, account }),
+        () => adapter.wipeToken({ tokenId, account, amount: '1' }),
+        () => adapter.grantKyc({ tokenId, account }),
+      ]) {
+        await expect(operation()).rejects.toMatchObject({
+          code: BlockchainErrorCode.UNSUPPORTED_OPERATION,
+          message: expect.stringContaining('Supported on: Hedera'),
+        })
+      }
+    })
+
+    it('should not need token association', async () => {
+      const tokenId = generateMockEthAddress()
+      const account = generateMockEthAddress()
+
+      await expect(adapter.associateToken({ tokenIds: [tokenId] })).rejects.toMatchObject({
+        code: BlockchainErrorCode.UNSUPPORTED_OPERATION,
+      })
+      expect(await adapter.getTokenAssociation({ tokenId, account })).toMatchObject({ associated: true, canReceive: true })
+    })
+  })
+
+  describe('subscribe()', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should stream ERC-20 transfers to an account from a cursor', async () => {
+      const tokenId = generateMockEthAddress()
+      const account = generateMockEthAddress()
+      const sender = generateMockEthAddress()
+      const topic = (address: string) => '0x' + address.slice(2).toLowerCase().padStart(64, '0')
+
+      const getLogs = jest.spyOn(adapter.testProvider as any, 'getLogs')
+        .mockImplementation(async (filter: any) => filter.topics[2]
+          ? [{
+              address: tokenId,
+              blockNumber: 12345675,
+              index: 3,
+              transactionHash: generateMockTxHash(),
+              topics: [filter.topics[0], topic(sender), topic(account)],
+              data: '0x' + (250n).toString(16).padStart(64, '0'),
+            }]
+          : [])
+
+      const events = adapter.subscribe({
+        kind: 'token-transfers',
+        account,
+        tokenId,
+        cursor: '12345670:*',
+        pollIntervalMs: 10,
+      })
+      const { value: event } = await events.next()
+      await events.return?.()
+
+      expect(getLogs).toHaveBeenCalledWith(expect.objectContaining({
+        address: tokenId,
+        fromBlock: 12345671,
+        toBlock: 12345678,
+      }))
+      expect(event).toMatchObject({
+        kind: 'token-transfers',
+        chain: 'ethereum',
+        cursor: '12345675:3',
+        blockNumber: 12345675,
+        tokenId,
+        amount: 250n,
+      })
+      expect(event.from.toLowerCase()).toBe(sender.toLowerCase())
+      expect(event.to.toLowerCase()).toBe(account.toLowerCase())
+    })
+
+    it('should skip ERC-721 transfers to a watched account', async () => {
+      const account = generateMockEthAddress()
+      const topic = (address: string) => '0x' + address.slice(2).toLowerCase().padStart(64, '0')
+      const log = (blockNumber: number, topics: string[], data: string) =>
+        ({ address: generateMockEthAddress(), blockNumber, index: 0, transactionHash: generateMockTxHash(), topics, data })
+
+      jest.spyOn(adapter.testProvider as any, 'getLogs')
+        .mockImplementation(async (filter: any) => filter.topics[2]
+          ? [
+              // NFT first: token ID is the fourth topic and there is no data
+              log(12345672, [filter.topics[0], topic(generateMockEthAddress()), topic(account), topic('0x7')], '0x'),
+              log(12345674, [filter.topics[0], topic(generateMockEthAddress()), topic(account)], '0x' + (90n).toString(16).padStart(64, '0')),
+            ]
+          : [])
+
+      const events = adapter.subscribe({ kind: 'token-transfers', account, cursor: '12345670:*', pollIntervalMs: 10, maxRetries: 0 })
+      const { value: event } = await events.next()
+      await events.return?.()
+
+      expect(event).toMatchObject({ cursor: '12345674:0', amount: 90n })
+    })
+
+    it('should reject topic messages as UNSUPPORTED_OPERATION', () => {
+      expect(() => adapter.subscribe({ kind: 'topic-messages', topicId: '0.0.1234' }))
+        .toThrow(expect.objectContaining({
+          code: BlockchainErrorCode.UNSUPPORTED_OPERATION,
+          message: expect.stringContaining('Supported on: Hedera'),
+        }))
+    })
   })
 
   // ============================================================================
@@ -362,6 +627,55 @@ describe('EthereumAdapter', () => {
       expect(result).toHaveProperty('transaction')
       expect(result.transaction.status).toBe('success')
     })
+
+    it('should deploy with the royalty as EIP-2981 default royalty', async () => {
+      const deploy = jest.spyOn(mockEthersModule.MockContractFactory.prototype, 'deploy')
+      const collector = generateMockEthAddress()
+
+      await adapter.createNFT({
+        name: 'Art',
+        symbol: 'ART',
+        royaltyPercentage: 7.5,
+        royaltyRecipient: collector,
+        metadata: { name: 'Art', image: 'ipfs://art' },
+      })
+      await adapter.createNFT({ name: 'Plain', symbol: 'PLN', metadata: { name: 'Plain', image: 'ipfs://plain' } })
+
+      expect(deploy.mock.calls[0].slice(0, 4)).toEqual(['Art', 'ART', collector, 750])
+      expect(deploy.mock.calls[1].slice(0, 4)).toEqual(['Plain', 'PLN', '0x0000000000000000000000000000000000000000', 0])
+    })
+
+    it('should reject fixed fees and a second royalty receiver', async () => {
+      const metadata = { name: 'Art', image: 'ipfs://art' }
+      const collector = generateMockEthAddress()
+
+      await expect(adapter.createNFT({
+        name: 'Art',
+        symbol: 'ART',
+        customFees: [{ type: 'fixed', amount: '1', collector }],
+        metadata,
+      })).rejects.toMatchObject({ code: BlockchainErrorCode.UNSUPPORTED_OPERATION })
+      await expect(adapter.createNFT({
+        name: 'Art',
+        symbol: 'ART',
+        royaltyPercentage: 5,
+        customFees: [{ type: 'royalty', basisPoints: 100, collector }],
+        metadata,
+      })).rejects.toThrow('one royalty receiver')
+    })
+
+    it('should update the default royalty', async () => {
+      const setDefaultRoyalty = jest.spyOn(mockEthersModule.MockContract.prototype, 'setDefaultRoyalty')
+      const collector = generateMockEthAddress()
+
+      const result = await adapter.updateTokenFees({
+        tokenId: generateMockEthAddress(),
+        customFees: [{ type: 'royalty', basisPoints: 300, collector }],
+      })
+
+      expect(setDefaultRoyalty).toHaveBeenCalledWith(collector, 300, expect.objectContaining({ nonce: expect.any(Number) }))
+      expect(result).toHaveProperty('transactionHash')
+    })
   })
 
   describe('mintNFT()', () => {
@@ -401,6 +715,70 @@ describe('EthereumAdapter', () => {
     })
   })
 
+  describe('multi-token collections', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should deploy an ERC-1155 collection with capped unique items', async () => {
+      const deploy = jest.spyOn(mockEthersModule.MockContractFactory.prototype, 'deploy')
+
+      const result = await adapter.createMultiToken({
+        name: 'Game Items',
+        symbol: 'ITEM',
+        uri: 'https://game.example/items/{id}.json',
+        items: [
+          { id: 1, name: 'Gold', fungible: true, initialSupply: '1000' },
+          { id: 2, name: 'Excalibur', fungible: false },
+        ],
+      })
+
+      expect(deploy.mock.calls[0].slice(0, 6)).toEqual([
+        'Game Items',
+        'ITEM',
+        'https://game.example/items/{id}.json',
+        [BigInt(1), BigInt(2)],
+        [BigInt(1000), BigInt(1)],
+        [BigInt(0), BigInt(1)],
+      ])
+      expect(result.collectionAddress).toBe(result.collectionId)
+      expect(result.items.map(item => item.tokenId)).toEqual(['1', '2'])
+      deploy.mockRestore()
+    })
+
+    it('should mint and transfer items in one batch call each', async () => {
+      const mintBatch = jest.spyOn(mockEthersModule.MockContract.prototype, 'mintBatch')
+      const transferBatch = jest.spyOn(mockEthersModule.MockContract.prototype, 'safeBatchTransferFrom')
+      const to = generateMockEthAddress()
+      const items = [{ tokenId: '1', amount: '50' }, { tokenId: '3', amount: BigInt(5) }]
+
+      await adapter.mintBatch({ collectionId: generateMockEthAddress(), to, items })
+      await adapter.transferBatch({ collectionId: generateMockEthAddress(), to, items })
+
+      expect(mintBatch.mock.calls[0].slice(0, 4)).toEqual([to, [BigInt(1), BigInt(3)], [BigInt(50), BigInt(5)], '0x'])
+      expect(transferBatch.mock.calls[0].slice(0, 3)).toEqual([adapter.testOperatorAddress, to, [BigInt(1), BigInt(3)]])
+      mintBatch.mockRestore()
+      transferBatch.mockRestore()
+    })
+
+    it('should reject duplicate item IDs and empty batches', async () => {
+      await expect(adapter.createMultiToken({
+        name: 'Game Items',
+        symbol: 'ITEM',
+        items: [
+          { id: 1, name: 'Gold', fungible: true },
+          { id: 1, name: 'Silver', fungible: true },
+        ],
+      })).rejects.toThrow('Item IDs must be unique')
+
+      await expect(adapter.transferBatch({
+        collectionId: generateMockEthAddress(),
+        to: generateMockEthAddress(),
+        items: [],
+      })).rejects.toMatchObject({ code: BlockchainErrorCode.TRANSACTION_FAILED })
+    })
+  })
+
   // ============================================================================
   // CONTRACT TESTS
   // ============================================================================
@@ -452,6 +830,21 @@ describe('EthereumAdapter', () => {
 
       expect(result).toBeDefined()
     })
+
+    it('should send writes with a managed nonce and read views directly', async () => {
+      const abi = ['function balanceOf(address) view returns (uint256)', 'function mint(address to, uint256 amount)']
+      const contractAddress = generateMockEthAddress()
+      const to = generateMockEthAddress()
+      const balanceOf = jest.spyOn(mockEthersModule.MockContract.prototype, 'balanceOf')
+      const mint = jest.spyOn(mockEthersModule.MockContract.prototype, 'mint')
+
+      await adapter.callContract({ contractAddress, methodName: 'balanceOf', args: [{ abi }, to] })
+      const result = await adapter.callContract({ contractAddress, methodName: 'mint', args: [{ abi }, to, 5n], gas: 100000n })
+
+      expect(balanceOf).toHaveBeenCalledWith(to)
+      expect(mint).toHaveBeenCalledWith(to, 5n, { gasLimit: 100000n, nonce: expect.any(Number) })
+      expect(result.transactionHash).toMatch(/^0x[0-9a-f]{64}$/)
+    })
   })
 
   // ============================================================================
@@ -489,6 +882,130 @@ describe('EthereumAdapter', () => {
     })
   })
 
+  describe('offline transactions', () => {
+    const to = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should build unsigned EIP-1559 transactions with node defaults', async () => {
+      const unsigned = await adapter.buildTransaction({ to, value: 1000n })
+
+      expect(unsigned.signer).toBe(adapter.testOperatorAddress)
+      expect(unsigned.transaction).toMatchObject({
+        from: adapter.testOperatorAddress,
+        gas: 21000n,
+        gasPrice: 30000000000n,
+        chainId: '11155111',
+      })
+      expect(Transaction.from(unsigned.payload)).toMatchObject({ type: 2, to, value: 1000n, chainId: 11155111n })
+      expect(unsigned.summary).toContain('Max fee: 30.0 gwei (priority 2.0 gwei)')
+    })
+
+    it('should build legacy transactions when gasPrice is given', async () => {
+      const unsigned = await adapter.buildTransaction({ to, nonce: 4, gas: 30000n, gasPrice: 5000000000n })
+
+      expect(Transaction.from(unsigned.payload)).toMatchObject({ type: 0, nonce: 4, gasLimit: 30000n, gasPrice: 5000000000n })
+    })
+
+    it('should broadcast signed transactions', async () => {
+      const result = await adapter.broadcastTransaction({ rawTransaction: '0x02f8', transactionHash: '' })
+
+      expect(result.status).toBe('success')
+      expect(result.explorerUrl).toContain(result.transactionHash)
+    })
+  })
+
+  describe('Safe proposals', () => {
+    const safe = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+    const to = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should require the Safe address', async () => {
+      await expect(adapter.proposeTransaction({ action: { type: 'transfer', to, amount: 1000n } }))
+        .rejects.toMatchObject({ code: BlockchainErrorCode.INVALID_ADDRESS })
+    })
+
+    const serviceTransaction = (nonce: number) => {
+      const safeTx = createSafeTransaction({ to, value: 1000n, data: '0x' }, nonce)
+      return {
+        ...safeTx,
+        safe,
+        safeTxHash: hashSafeTransaction({ TypedDataEncoder }, safe, 11155111, safeTx),
+        isExecuted: false,
+        confirmationsRequired: 1,
+        confirmations: [{ owner: adapter.testOperatorAddress!, signature: '0x' + 'b'.repeat(130) }],
+      }
+    }
+
+    it('should propose through the Transaction Service and execute at a threshold of one', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('', { status: 201 }))
+      const execTransaction = jest.spyOn(mockEthersModule.MockContract.prototype, 'execTransaction')
+      const safeTxHash = hashSafeTransaction({ TypedDataEncoder }, safe, 11155111, createSafeTransaction({ to, value: 1000n, data: '0x' }, 0))
+
+      const proposal = await adapter.proposeTransaction({ action: { type: 'transfer', to, amount: 1000n }, account: safe, memo: 'Payroll' })
+
+      const [url, init] = fetchSpy.mock.calls[1] as [string, RequestInit]
+      expect(url).toBe(`https://safe-transaction-sepolia.safe.global/api/v1/safes/${safe}/multisig-transactions/`)
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        to,
+        value: '1000',
+        nonce: 0,
+        contractTransactionHash: safeTxHash,
+        sender: adapter.testOperatorAddress,
+        origin: 'Payroll',
+      })
+      expect(execTransaction).toHaveBeenCalledWith(
+        to, '1000', '0x', 0, '0', '0', '0', expect.any(String), expect.any(String), '0x' + 'b'.repeat(130), { nonce: expect.any(Number) }
+      )
+      expect(proposal).toMatchObject({
+        id: safeTxHash,
+        chain: 'ethereum',
+        status: 'executed',
+        account: safe,
+        signers: [adapter.testOperatorAddress],
+        threshold: 1,
+        memo: 'Payroll',
+      })
+    })
+
+    it('should propose after the queued nonces and wait for them', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (_url, init) => init?.method === 'GET'
+        ? Response.json({ results: [serviceTransaction(2)] })
+        : new Response('', { status: 201 }))
+      const execTransaction = jest.spyOn(mockEthersModule.MockContract.prototype, 'execTransaction')
+
+      const proposal = await adapter.proposeTransaction({ action: { type: 'transfer', to, amount: 1000n }, account: safe })
+
+      expect(fetchSpy.mock.calls[0][0]).toContain('executed=false&nonce__gte=0&ordering=-nonce&limit=1')
+      expect(JSON.parse((fetchSpy.mock.calls[1][1] as RequestInit).body as string)).toMatchObject({ nonce: 3 })
+      expect(execTransaction).not.toHaveBeenCalled()
+      expect(proposal).toMatchObject({ status: 'pending', queued: true, signers: [adapter.testOperatorAddress] })
+    })
+
+    it('should execute a signed proposal only once its nonce is next', async () => {
+      const queued = serviceTransaction(1)
+      const next = serviceTransaction(0)
+      jest.spyOn(global, 'fetch').mockImplementation(async url =>
+        Response.json(String(url).includes(queued.safeTxHash) ? queued : next))
+      const execTransaction = jest.spyOn(mockEthersModule.MockContract.prototype, 'execTransaction')
+
+      expect(await adapter.approveProposal(queued.safeTxHash)).toMatchObject({ status: 'pending', queued: true })
+      expect(execTransaction).not.toHaveBeenCalled()
+
+      expect(await adapter.approveProposal(next.safeTxHash)).toMatchObject({ status: 'executed' })
+      expect(execTransaction).toHaveBeenCalledTimes(1)
+    })
+  })
+
   // ============================================================================
   // EXPLORER URL TESTS
   // ============================================================================
@@ -514,6 +1031,42 @@ describe('EthereumAdapter', () => {
     })
   })
 
+  // ============================================================================
+  // LOCALNET TESTS
+  // ============================================================================
+
+  describe('localnet', () => {
+    const localnetConfig: BlockchainConfiguration = {
+      chain: 'ethereum',
+      network: 'localnet',
+      credentials: {},
+    }
+
+    it('should connect to the local node with the dev account', async () => {
+      await adapter.initialize(localnetConfig)
+
+      expect(await adapter.isConnected()).toBe(true)
+      expect((adapter.testProvider as any).url).toBe('http://127.0.0.1:8545')
+    })
+
+    it('should prefer a custom RPC URL', async () => {
+      await adapter.initialize({ ...localnetConfig, rpcUrl: 'http://127.0.0.1:9545' })
+
+      expect((adapter.testProvider as any).url).toBe('http://127.0.0.1:9545')
+    })
+
+    it('should return no explorer URL unless one is configured', async () => {
+      await adapter.initialize(localnetConfig)
+      expect(adapter.getExplorerUrl('0xabc')).toBe('')
+
+      await adapter.initialize({
+        ...localnetConfig,
+        customConfig: { explorerUrl: 'http://localhost:4000' },
+      })
+      expect(adapter.getExplorerUrl('0xabc')).toBe('http://localhost:4000/tx/0xabc')
+    })
+  })
+
   // ============================================================================
   // WALLET CONNECTION TESTS
   // ============================================================================
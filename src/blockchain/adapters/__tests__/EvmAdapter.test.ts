@@ -0,0 +1,285 @@
+/**
+ * EvmAdapter Tests
+ *
+ * Tests for the generic descriptor-driven EVM adapter.
+ * All operations are inherited from EthereumAdapter, so these tests verify that
+ * chain IDs, RPC URLs, explorer URLs and fee settings come from the descriptor.
+ */
+
+import { EvmAdapter } from '../EvmAdapter'
+import {
+  BlockchainConfiguration,
+  BlockchainError,
+} from '@blockchain/core/types'
+import {
+  EvmChainDescriptor,
+  EVM_CHAIN_DESCRIPTORS,
+} from '@blockchain/core/EvmChains'
+import { AdapterFactory } from '@blockchain/core/AdapterFactory'
+import {
+  createMockEthConfig,
+  generateMockEthAddress,
+  generateMockTxHash,
+} from '@test-utils/test-helpers'
+
+// Import mock ethers classes
+import * as mockEthersModule from '@test-mocks/ethers.mock'
+
+/**
+ * Helper to create a config for a descriptor-driven chain
+ */
+function createMockEvmConfig(
+  descriptor: EvmChainDescriptor,
+  overrides: Partial<BlockchainConfiguration> = {}
+): BlockchainConfiguration {
+  const evmConfig = createMockEthConfig(overrides)
+  return {
+    ...evmConfig,
+    chain: descriptor.chain,
+  }
+}
+
+/**
+ * TestableEvmAdapter - Exposes protected methods for testing.
+ * Extends EvmAdapter and overrides loadEthers to inject mocks.
+ */
+class TestableEvmAdapter extends EvmAdapter {
+  // Override loadEthers to return our mock with proper structure
+  protected async loadEthers(): Promise<any> {
+    return {
+      JsonRpcProvider: mockEthersModule.MockJsonRpcProvider,
+      FetchRequest: mockEthersModule.MockFetchRequest,
+      BrowserProvider: mockEthersModule.MockBrowserProvider,
+      Wallet: mockEthersModule.MockWallet,
+      Contract: mockEthersModule.MockContract,
+      ContractFactory: mockEthersModule.MockContractFactory,
+      Interface: mockEthersModule.MockInterface,
+      parseEther: mockEthersModule.parseEther,
+      formatEther: mockEthersModule.formatEther,
+      parseUnits: mockEthersModule.parseUnits,
+      formatUnits: mockEthersModule.formatUnits,
+      getAddress: mockEthersModule.getAddress,
+      isAddress: mockEthersModule.isAddress,
+      id: mockEthersModule.id,
+      keccak256: mockEthersModule.keccak256,
+    }
+  }
+
+  // Expose protected method for testing
+  public testGetRpcUrl(config: BlockchainConfiguration): string {
+    return this.getRpcUrl(config)
+  }
+
+  public testGetExpectedChainId(): number {
+    return this.getExpectedChainId()
+  }
+}
+
+describe('EvmAdapter', () => {
+  const polygon = EVM_CHAIN_DESCRIPTORS.polygon!
+  let adapter: TestableEvmAdapter
+  let config: BlockchainConfiguration
+
+  beforeEach(() => {
+    adapter = new TestableEvmAdapter(polygon)
+    config = createMockEvmConfig(polygon)
+  })
+
+  afterEach(async () => {
+    if (await adapter.isConnected()) {
+      await adapter.disconnect()
+    }
+  })
+
+  // ============================================================================
+  // METADATA TESTS
+  // ============================================================================
+
+  describe('metadata', () => {
+    it('should take chainId and name from the descriptor', () => {
+      expect(adapter.chainId).toBe('polygon')
+      expect(adapter.name).toBe('Polygon')
+      expect(adapter.getDescriptor()).toBe(polygon)
+    })
+
+    it('should have EVM capabilities', () => {
+      expect(adapter.capabilities.hasERC20).toBe(true)
+      expect(adapter.capabilities.hasERC721).toBe(true)
+      expect(adapter.capabilities.contractLanguage).toBe('solidity')
+    })
+  })
+
+  // ============================================================================
+  // DESCRIPTOR-DRIVEN CONFIGURATION
+  // ============================================================================
+
+  describe('getRpcUrl()', () => {
+    it('should use the descriptor RPC URL when none is configured', async () => {
+      const testnetConfig = createMockEvmConfig(polygon)
+      delete testnetConfig.rpcUrl
+
+      await adapter.initialize(testnetConfig)
+
+      expect(adapter.testGetRpcUrl(testnetConfig)).toBe('https://rpc-amoy.polygon.technology')
+    })
+
+    it('should prefer a custom RPC URL', () => {
+      const customConfig = createMockEvmConfig(polygon, { rpcUrl: 'https://my-polygon-rpc.com' })
+
+      expect(adapter.testGetRpcUrl(customConfig)).toBe('https://my-polygon-rpc.com')
+    })
+
+    it('should pool the descriptor endpoints for failover', async () => {
+      const testnetConfig = createMockEvmConfig(polygon)
+      delete testnetConfig.rpcUrl
+
+      await adapter.initialize(testnetConfig)
+
+      expect(adapter.getRpcHealth().map(endpoint => endpoint.url)).toEqual(polygon.rpcUrls.testnet)
+    })
+
+    it('should pool configured rpcUrls and skip pooling a single custom URL', async () => {
+      await adapter.initialize(createMockEvmConfig(polygon, { rpcUrls: ['https://a.example', 'https://b.example'] }))
+      expect(adapter.getRpcHealth()).toHaveLength(2)
+
+      await adapter.disconnect()
+      await adapter.initialize(createMockEvmConfig(polygon, { rpcUrl: 'https://my-polygon-rpc.com' }))
+      expect(adapter.getRpcHealth()).toEqual([])
+    })
+  })
+
+  describe('getExpectedChainId()', () => {
+    it('should return the testnet chain ID for testnet and devnet', async () => {
+      await adapter.initialize(createMockEvmConfig(polygon, { network: 'devnet' }))
+
+      expect(adapter.testGetExpectedChainId()).toBe(80002)
+    })
+
+    it('should return the mainnet chain ID for mainnet', async () => {
+      await adapter.initialize(createMockEvmConfig(polygon, { network: 'mainnet' }))
+
+      expect(adapter.testGetExpectedChainId()).toBe(137)
+    })
+  })
+
+  describe('localnet', () => {
+    it('should use the shared local EVM node', async () => {
+      const localnetConfig: BlockchainConfiguration = { chain: 'polygon', network: 'localnet', credentials: {} }
+      await adapter.initialize(localnetConfig)
+
+      expect(adapter.testGetRpcUrl(localnetConfig)).toBe('http://127.0.0.1:8545')
+      expect(adapter.testGetExpectedChainId()).toBe(31337)
+      expect(adapter.getExplorerUrl('0xabc')).toBe('')
+    })
+  })
+
+  describe('getExplorerUrl()', () => {
+    it('should build URLs from the explorer template', async () => {
+      const txHash = generateMockTxHash()
+
+      expect(adapter.getExplorerUrl(txHash)).toBe(`https://amoy.polygonscan.com/tx/${txHash}`)
+
+      await adapter.initialize(createMockEvmConfig(polygon, { network: 'mainnet' }))
+      expect(adapter.getExplorerUrl(txHash)).toBe(`https://polygonscan.com/tx/${txHash}`)
+    })
+
+    it('should substitute the hash into custom templates', () => {
+      const custom = new TestableEvmAdapter({
+        ...polygon,
+        explorerTxPath: '/transaction/{txHash}?view=full',
+      })
+
+      expect(custom.getExplorerUrl('0xabc')).toBe('https://amoy.polygonscan.com/transaction/0xabc?view=full')
+    })
+  })
+
+  // ============================================================================
+  // FEES
+  // ============================================================================
+
+  describe('fees', () => {
+    it('should report fees in the native currency', async () => {
+      await adapter.initialize(config)
+
+      const estimate = await adapter.estimateFees({ operation: 'transfer' })
+
+      expect(estimate.currency).toBe('POL')
+    })
+
+    it('should use maxFeePerGas when EIP-1559 is supported', async () => {
+      await adapter.initialize(config)
+
+      const gasPrice = await adapter.getGasPrice()
+
+      expect(gasPrice.standard).toBe(BigInt('30000000000'))
+    })
+
+    it('should use legacy gasPrice when EIP-1559 is not supported', async () => {
+      const legacy = new TestableEvmAdapter({ ...polygon, supportsEIP1559: false })
+      await legacy.initialize(config)
+
+      const gasPrice = await legacy.getGasPrice()
+
+      expect(gasPrice.standard).toBe(BigInt('20000000000'))
+      await legacy.disconnect()
+    })
+  })
+
+  // ============================================================================
+  // INHERITED FUNCTIONALITY
+  // ============================================================================
+
+  describe('inherited operations', () => {
+    it('should throw without a private key', async () => {
+      await expect(
+        adapter.initialize({ chain: 'polygon', network: 'testnet', credentials: {} })
+      ).rejects.toThrow(BlockchainError)
+    })
+
+    it('should create ERC-20 tokens', async () => {
+      await adapter.initialize(config)
+
+      const result = await adapter.createToken({
+        name: 'Polygon Test Token',
+        symbol: 'PTT',
+        decimals: 18,
+        initialSupply: '1000000',
+      })
+
+      expect(result).toHaveProperty('tokenAddress')
+      expect(result.transaction.status).toBe('success')
+      expect(result.transaction.explorerUrl).toContain('polygonscan.com')
+    })
+
+    it('should get balance', async () => {
+      await adapter.initialize(config)
+
+      const balance = await adapter.getBalance(generateMockEthAddress())
+
+      expect(typeof balance).toBe('bigint')
+    })
+  })
+})
+
+describe('AdapterFactory (EVM chains)', () => {
+  afterEach(async () => {
+    await AdapterFactory.clearCache()
+  })
+
+  it.each(['polygon', 'arbitrum', 'optimism', 'avalanche'] as const)(
+    'should build an EvmAdapter for %s',
+    async (chain) => {
+      const adapter = await AdapterFactory.createAdapter(chain)
+
+      expect(adapter).toBeInstanceOf(EvmAdapter)
+      expect(adapter.chainId).toBe(chain)
+    }
+  )
+
+  it('should build an adapter from a descriptor', async () => {
+    const adapter = await AdapterFactory.createEvmAdapter(EVM_CHAIN_DESCRIPTORS.arbitrum!)
+
+    expect(adapter.chainId).toBe('arbitrum')
+    expect(adapter.getExplorerUrl('0xabc')).toBe('https://sepolia.arbiscan.io/tx/0xabc')
+  })
+})
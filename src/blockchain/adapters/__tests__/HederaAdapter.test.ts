@@ -31,6 +31,8 @@
 
 import { HederaAdapter } from '../HederaAdapter'
 import { BlockchainErrorCode } from '@blockchain/core/types'
+import { LocalKeySigner } from '@blockchain/core/Signer'
+import { MirrorNodeStub, startMirrorNodeStub } from '@blockchain/core/MirrorNodeStub'
 import {
   createMockConfig,
   generateMockAccountId,
@@ -58,6 +60,18 @@ describe('HederaAdapter', () => {
   // Declare variables we'll use across multiple tests
   let adapter: HederaAdapter
 
+  // Transfers check the recipient's token association on the mirror node.
+  // This stub knows no accounts (404), so the check lets them through.
+  let mirror: MirrorNodeStub
+
+  beforeAll(async () => {
+    mirror = await startMirrorNodeStub()
+  })
+
+  afterAll(async () => {
+    await mirror.close()
+  })
+
   /**
    * beforeEach() runs before EVERY test in this describe block
    *
@@ -171,6 +185,53 @@ describe('HederaAdapter', () => {
       expect(await adapter.isConnected()).toBe(true)
       expect(adapter.network).toBe('mainnet')
     })
+
+    /**
+     * Test: Initialize for localnet
+     *
+     * WHAT: Verify adapter connects to a local node with its genesis account
+     * WHY: Tests and CI should run without testnet credentials
+     */
+    it('should initialize for localnet without credentials', async () => {
+      // ARRANGE
+      const config = createMockConfig({
+        network: 'localnet',
+        credentials: undefined as any,
+      })
+
+      // ACT
+      await adapter.initialize(config)
+
+      // ASSERT
+      expect(await adapter.isConnected()).toBe(true)
+      expect(adapter.network).toBe('localnet')
+      expect(adapter.getExplorerUrl('0.0.2@1234567890.1')).toBe('')
+    })
+
+    /**
+     * Test: Initialize with an external signer
+     *
+     * WHAT: Verify the operator signs through the configured signer
+     * WHY: Mainnet keys can stay in a keystore or remote signer
+     */
+    it('should sign as operator through a signer without a private key', async () => {
+      // ARRANGE
+      const signer = new LocalKeySigner('302e020100300506032b657004220420' + '11'.repeat(32))
+      const config = createMockConfig({
+        credentials: { accountId: '0.0.12345' },
+        signer,
+      })
+
+      // ACT
+      await adapter.initialize(config)
+      const client = (adapter as any).client
+      const message = Buffer.from('transaction body')
+
+      // ASSERT
+      expect(client.operatorPrivateKey).toBeNull()
+      expect(client.operatorPublicKey.toString()).toBe((await signer.getPublicKey()).publicKey)
+      expect(await client.operatorSigner(message)).toEqual(await signer.sign(message))
+    })
   })
 
   /**
@@ -272,7 +333,7 @@ describe('HederaAdapter', () => {
    */
   describe('transferToken()', () => {
     beforeEach(async () => {
-      const config = createMockConfig()
+      const config = createMockConfig({ mirrorNodeUrl: mirror.url })
       await adapter.initialize(config)
     })
 
@@ -360,12 +421,658 @@ describe('HederaAdapter', () => {
   /**
    * Test suite for NFT operations
    */
-  describe('NFT operations', () => {
+  describe('allowances', () => {
+    const tokenId = '0.0.123456'
+    const owner = '0.0.1001'
+    const spender = '0.0.2002'
+
+    beforeEach(async () => {
+      const config = createMockConfig()
+      await adapter.initialize(config)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should approve and spend an allowance', async () => {
+      const approval = await adapter.approveToken({ tokenId, spender, amount: '1000' })
+      const transfer = await adapter.transferFrom({ tokenId, from: owner, to: spender, amount: '250' })
+
+      expect(approval.status).toBe('success')
+      expect(transfer.status).toBe('success')
+    })
+
+    it('should read allowances from the mirror node', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ allowances: [{ amount: 750 }] }))
+      )
+
+      const allowance = await adapter.getAllowance({ tokenId, owner, spender })
+
+      expect(allowance).toBe(BigInt(750))
+      expect(fetchSpy).toHaveBeenCalledWith(
+        `https://testnet.mirrornode.hedera.com/api/v1/accounts/${owner}/allowances/tokens?spender.id=${spender}&token.id=${tokenId}`
+      )
+    })
+  })
+
+  describe('mirror node', () => {
+    let stub: MirrorNodeStub
+
+    beforeEach(async () => {
+      stub = await startMirrorNodeStub()
+      await adapter.initialize(createMockConfig({ mirrorNodeUrl: stub.url }))
+    })
+
+    afterEach(async () => {
+      jest.restoreAllMocks()
+      await stub.close()
+    })
+
+    it('should read transaction status from the mirror node once receipts expire', async () => {
+      const { MockTransactionReceiptQuery } = require('@test-utils/../mocks/hedera-sdk.mock')
+      jest.spyOn(MockTransactionReceiptQuery.prototype, 'execute').mockRejectedValue(new Error('RECEIPT_NOT_FOUND'))
+      stub.setResponse('/api/v1/transactions/0.0.12345-1700000000-000000000', {
+        transactions: [{ nonce: 0, scheduled: false, result: 'INVALID_SIGNATURE', consensus_timestamp: '1700000001.000000000' }],
+      })
+
+      const failed = await adapter.getTransactionStatus('0.0.12345@1700000000.000000000')
+      const unknown = await adapter.getTransactionStatus('0.0.12345@1700000009.000000000')
+
+      expect(failed).toMatchObject({ status: 'failed', error: 'INVALID_SIGNATURE', timestamp: new Date(1700000001000) })
+      expect(unknown.status).toBe('pending')
+    })
+
+    it('should page through the mirror node client', async () => {
+      stub.setList('/api/v1/accounts/0.0.12345/tokens', 'tokens', [{ token_id: '0.0.1' }, { token_id: '0.0.2' }, { token_id: '0.0.3' }])
+      const mirrorNode = adapter.getMirrorNode()
+
+      const tokens = await mirrorNode.collect(mirrorNode.listAccountTokens('0.0.12345', { limit: 2 }))
+
+      expect(tokens.map(token => token.token_id)).toEqual(['0.0.1', '0.0.2', '0.0.3'])
+      expect(mirrorNode.url).toBe(stub.url)
+    })
+  })
+
+  describe('token lifecycle', () => {
+    const tokenId = '0.0.123456'
+    const account = '0.0.654321'
+
+    beforeEach(async () => {
+      const config = createMockConfig({ mirrorNodeUrl: mirror.url })
+      await adapter.initialize(config)
+    })
+
+    it('should mint and burn supply', async () => {
+      const minted = await adapter.mintToken({ tokenId, amount: '500' })
+      const burned = await adapter.burnToken({ tokenId, amount: '200' })
+
+      expect(minted.status).toBe('success')
+      expect(burned.status).toBe('success')
+    })
+
+    it('should transfer minted supply to a different recipient', async () => {
+      const transferSpy = jest.spyOn(adapter, 'transferToken')
+
+      await adapter.mintToken({ tokenId, amount: '500', to: account })
+
+      expect(transferSpy).toHaveBeenCalledWith({ tokenId, to: account, amount: '500' })
+    })
+
+    it('should pause, freeze, wipe and manage KYC', async () => {
+      const results = await Promise.all([
+        adapter.pauseToken(tokenId),
+        adapter.unpauseToken(tokenId),
+        adapter.freezeAccount({ tokenId, account }),
+        adapter.unfreezeAccount({ tokenId, account }),
+        adapter.wipeToken({ tokenId, account, amount: '10' }),
+        adapter.grantKyc({ tokenId, account }),
+        adapter.revokeKyc({ tokenId, account }),
+      ])
+
+      results.forEach(result => expect(result.transactionId).toBeDefined())
+    })
+
+    it('should wrap SDK failures as TRANSACTION_FAILED', async () => {
+      const { MockTokenPauseTransaction } = require('@test-utils/../mocks/hedera-sdk.mock')
+      jest
+        .spyOn(MockTokenPauseTransaction.prototype, 'execute')
+        .mockRejectedValueOnce(new Error('TOKEN_HAS_NO_PAUSE_KEY'))
+
+      await expect(adapter.pauseToken(tokenId)).rejects.toMatchObject({
+        code: BlockchainErrorCode.TRANSACTION_FAILED,
+        message: expect.stringContaining('TOKEN_HAS_NO_PAUSE_KEY'),
+      })
+    })
+  })
+
+  describe('custom fees', () => {
+    const collector = '0.0.777'
+    const metadata = { name: 'Art', image: 'ipfs://art' }
+
+    beforeEach(async () => {
+      const config = createMockConfig()
+      await adapter.initialize(config)
+    })
+
+    it('should map royaltyPercentage and royalty fees to HTS royalty fees', async () => {
+      const { MockTokenCreateTransaction } = require('@test-utils/../mocks/hedera-sdk.mock')
+      const setCustomFees = jest.spyOn(MockTokenCreateTransaction.prototype, 'setCustomFees')
+      const setFeeScheduleKey = jest.spyOn(MockTokenCreateTransaction.prototype, 'setFeeScheduleKey')
+
+      await adapter.createNFT({
+        name: 'Art',
+        symbol: 'ART',
+        royaltyPercentage: 5,
+        customFees: [{ type: 'royalty', basisPoints: 250, collector, fallbackFee: { amount: '100000000' } }],
+        metadata,
+      })
+
+      const [fees] = setCustomFees.mock.calls[0] as any[]
+      expect(fees).toHaveLength(2)
+      expect(fees[0]).toMatchObject({ numerator: 250, denominator: 10000, feeCollectorAccountId: collector })
+      expect(fees[0].fallbackFee.hbarAmount.toTinybars().toString()).toBe('100000000')
+      expect(fees[1]).toMatchObject({ numerator: 500, denominator: 10000, feeCollectorAccountId: '0.0.12345' })
+      expect(setFeeScheduleKey).toHaveBeenCalled()
+    })
+
+    it('should map fixed and fractional fees on fungible tokens', async () => {
+      const { MockTokenCreateTransaction } = require('@test-utils/../mocks/hedera-sdk.mock')
+      const setCustomFees = jest.spyOn(MockTokenCreateTransaction.prototype, 'setCustomFees')
+
+      await adapter.createToken({
+        name: 'Fee Token',
+        symbol: 'FEE',
+        decimals: 2,
+        initialSupply: '1000',
+        customFees: [
+          { type: 'fixed', amount: '5', tokenId: '0.0.5005', collector },
+          { type: 'fractional', basisPoints: 100, collector, minimum: '1', maximum: '50', netOfTransfers: true },
+        ],
+      })
+
+      const [fees] = setCustomFees.mock.calls[0] as any[]
+      expect(fees[0]).toMatchObject({ amount: 5, denominatingTokenId: '0.0.5005', feeCollectorAccountId: collector })
+      expect(fees[1]).toMatchObject({ numerator: 100, denominator: 10000, min: 1, max: 50, assessmentMethod: 'EXCLUSIVE' })
+    })
+
+    it('should reject fees that do not apply to the token type', async () => {
+      await expect(adapter.createToken({
+        name: 'Fee Token',
+        symbol: 'FEE',
+        decimals: 2,
+        initialSupply: '1000',
+        customFees: [{ type: 'royalty', basisPoints: 100, collector }],
+      })).rejects.toMatchObject({
+        code: BlockchainErrorCode.TRANSACTION_FAILED,
+        message: 'Invalid royalty fee: royalty fees apply to NFT collections',
+      })
+      await expect(adapter.createNFT({
+        name: 'Art',
+        symbol: 'ART',
+        customFees: [{ type: 'royalty', basisPoints: 10001, collector }],
+        metadata,
+      })).rejects.toThrow('basisPoints must be an integer from 1 to 10000')
+    })
+
+    it('should update the fee schedule', async () => {
+      const { MockTokenFeeScheduleUpdateTransaction } = require('@test-utils/../mocks/hedera-sdk.mock')
+      const setCustomFees = jest.spyOn(MockTokenFeeScheduleUpdateTransaction.prototype, 'setCustomFees')
+
+      const result = await adapter.updateTokenFees({
+        tokenId: '0.0.123456',
+        customFees: [{ type: 'fixed', amount: '250000000', collector }],
+      })
+
+      expect(result.status).toBe('success')
+      const [fees] = setCustomFees.mock.calls[0] as any[]
+      expect(fees[0].hbarAmount.toTinybars().toString()).toBe('250000000')
+    })
+  })
+
+  describe('token association', () => {
+    const tokenId = '0.0.123456'
+    const account = '0.0.654321'
+    let stub: MirrorNodeStub
+
+    const {
+      MockAccountCreateTransaction,
+      MockTokenAssociateTransaction,
+      MockTokenDissociateTransaction,
+    } = require('@test-utils/../mocks/hedera-sdk.mock')
+
+    beforeEach(async () => {
+      stub = await startMirrorNodeStub()
+      stub.setResponse(`/api/v1/accounts/${account}`, { account, max_automatic_token_associations: 0 })
+      stub.setList(`/api/v1/accounts/${account}/tokens`, 'tokens', [])
+      await adapter.initialize(createMockConfig({ mirrorNodeUrl: stub.url }))
+    })
+
+    afterEach(async () => {
+      jest.restoreAllMocks()
+      await stub.close()
+    })
+
+    it('should associate and dissociate tokens', async () => {
+      const associateTokenIds = jest.spyOn(MockTokenAssociateTransaction.prototype, 'setTokenIds')
+      const dissociateTokenIds = jest.spyOn(MockTokenDissociateTransaction.prototype, 'setTokenIds')
+
+      const associated = await adapter.associateToken({ tokenIds: [tokenId, '0.0.123457'] })
+      const dissociated = await adapter.dissociateToken({ tokenIds: [tokenId], account })
+
+      expect(associated.status).toBe('success')
+      expect(dissociated.status).toBe('success')
+      expect((associateTokenIds.mock.calls[0][0] as any[]).map(String)).toEqual([tokenId, '0.0.123457'])
+      expect((dissociateTokenIds.mock.calls[0][0] as any[]).map(String)).toEqual([tokenId])
+    })
+
+    it('should report associations, freeze and KYC status', async () => {
+      stub.setList(`/api/v1/accounts/${account}/tokens`, 'tokens', [
+        { token_id: tokenId, automatic_association: false, freeze_status: 'UNFROZEN', kyc_status: 'REVOKED' },
+      ])
+
+      const association = await adapter.getTokenAssociation({ tokenId, account })
+
+      expect(association).toMatchObject({ associated: true, canReceive: false, frozen: false, kycGranted: false })
+      await expect(adapter.transferToken({ tokenId, to: account, amount: '10' }))
+        .rejects.toThrow(`Account ${account} has not been granted KYC for token ${tokenId}`)
+    })
+
+    it('should count free automatic association slots', async () => {
+      stub.setResponse(`/api/v1/accounts/${account}`, { account, max_automatic_token_associations: 2 })
+      stub.setList(`/api/v1/accounts/${account}/tokens`, 'tokens', [
+        { token_id: '0.0.1', automatic_association: true },
+        { token_id: '0.0.2', automatic_association: false },
+      ])
+
+      const association = await adapter.getTokenAssociation({ tokenId, account })
+
+      expect(association).toMatchObject({ associated: false, canReceive: true, maxAutoAssociations: 2, usedAutoAssociations: 1 })
+    })
+
+    it('should reject transfers to accounts that cannot receive the token', async () => {
+      await expect(adapter.transferToken({ tokenId, to: account, amount: '10' })).rejects.toMatchObject({
+        code: BlockchainErrorCode.TRANSACTION_FAILED,
+        message: expect.stringContaining(
+          `Account ${account} has not associated token ${tokenId} and it has no automatic association slots`
+        ),
+      })
+      await expect(adapter.transferNFT({ tokenId, nftId: 1, to: account })).rejects.toThrow('associateToken')
+
+      const simulation = await adapter.simulateTransaction({
+        operation: 'transferToken',
+        params: { tokenId, to: account, amount: '0' },
+      })
+      expect(simulation.revertReason).toBe('TOKEN_NOT_ASSOCIATED_TO_ACCOUNT')
+    })
+
+    it('should not block on a lagging mirror node right after associating', async () => {
+      // The stub still lists no tokens for the account
+      await adapter.associateToken({ tokenIds: [tokenId], account })
+
+      expect((await adapter.transferToken({ tokenId, to: account, amount: '10' })).status).toBe('success')
+      await expect(adapter.transferToken({ tokenId: '0.0.123457', to: account, amount: '10' })).rejects.toThrow('associateToken')
+
+      await adapter.dissociateToken({ tokenIds: [tokenId], account })
+      await expect(adapter.transferToken({ tokenId, to: account, amount: '10' })).rejects.toThrow('associateToken')
+    })
+
+    it('should skip the check when associationCheck is off', async () => {
+      await adapter.initialize(createMockConfig({ mirrorNodeUrl: stub.url, customConfig: { associationCheck: false } }))
+
+      const result = await adapter.transferToken({ tokenId, to: account, amount: '10' })
+
+      expect(result.status).toBe('success')
+      expect(stub.requests).toHaveLength(0)
+    })
+
+    it('should create accounts with automatic association slots', async () => {
+      const setMaxAutomaticTokenAssociations = jest.spyOn(MockAccountCreateTransaction.prototype, 'setMaxAutomaticTokenAssociations')
+
+      const created = await adapter.executeChainSpecificOperation('createAccount', { initialBalance: 100000000, maxAutoAssociations: 10 })
+
+      expect(created.success).toBe(true)
+      expect(created.accountId).toMatch(/^0\.0\.\d+$/)
+      expect(created.privateKey).toBeDefined()
+      expect(setMaxAutomaticTokenAssociations).toHaveBeenCalledWith(10)
+    })
+  })
+
+  describe('subscribe()', () => {
+    const tokenId = '0.0.123456'
+    const account = '0.0.1001'
+
     beforeEach(async () => {
       const config = createMockConfig()
       await adapter.initialize(config)
     })
 
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should stream HTS transfers from the mirror node after the cursor', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({
+          transactions: [{
+            consensus_timestamp: '1700000001.000000001',
+            transaction_id: '0.0.2002-1700000000-000000000',
+            token_transfers: [
+              { token_id: tokenId, account: '0.0.2002', amount: -40 },
+              { token_id: tokenId, account, amount: 40 },
+            ],
+          }],
+        }))
+      )
+
+      const events = adapter.subscribe({
+        kind: 'token-transfers',
+        account,
+        tokenId,
+        cursor: '1700000000.000000000',
+        pollIntervalMs: 10,
+      })
+      const { value: event } = await events.next()
+      await events.return?.()
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        `https://testnet.mirrornode.hedera.com/api/v1/transactions?account.id=${account}&order=asc&limit=100&timestamp=gt:1700000000.000000000`
+      )
+      expect(event).toMatchObject({
+        kind: 'token-transfers',
+        chain: 'hedera',
+        cursor: '1700000001.000000001',
+        tokenId,
+        from: '0.0.2002',
+        to: account,
+        amount: BigInt(40),
+      })
+    })
+
+    it('should stream HCS topic messages', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({
+          messages: [{
+            consensus_timestamp: '1700000002.000000000',
+            sequence_number: 7,
+            payer_account_id: account,
+            message: Buffer.from('hello').toString('base64'),
+          }],
+        }))
+      )
+
+      const events = adapter.subscribe({
+        kind: 'topic-messages',
+        topicId: '0.0.5005',
+        cursor: '1700000000.000000000',
+        pollIntervalMs: 10,
+      })
+      const { value: event } = await events.next()
+      await events.return?.()
+
+      expect(event.data).toEqual({
+        topicId: '0.0.5005',
+        sequenceNumber: 7,
+        message: 'hello',
+        contents: Buffer.from('hello').toString('base64'),
+        consensusTimestamp: '1700000002.000000000',
+        payer: account,
+      })
+    })
+
+    it('should replay a sequence range and end after it', async () => {
+      const message = (sequence: number) => ({
+        consensus_timestamp: `170000000${sequence}.000000000`,
+        sequence_number: sequence,
+        payer_account_id: account,
+        message: Buffer.from(`entry ${sequence}`).toString('base64'),
+        running_hash: Buffer.alloc(48, sequence).toString('base64'),
+        running_hash_version: 3,
+      })
+      const fetchSpy = jest.spyOn(global, 'fetch')
+        .mockResolvedValueOnce(new Response(JSON.stringify({ messages: [message(3), message(4)] })))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ messages: [message(5)] })))
+
+      const events = []
+      for await (const event of adapter.subscribe({
+        kind: 'topic-messages',
+        topicId: '0.0.5005',
+        fromSequence: 3,
+        toSequence: 5,
+        pollIntervalMs: 1,
+      })) {
+        events.push(event)
+      }
+
+      expect(events.map(event => event.data.sequenceNumber)).toEqual([3, 4, 5])
+      expect(events[0].data.runningHash).toBe('03'.repeat(48))
+      expect(fetchSpy).toHaveBeenNthCalledWith(1,
+        'https://testnet.mirrornode.hedera.com/api/v1/topics/0.0.5005/messages?order=asc&limit=100&sequencenumber=gte:3&sequencenumber=lte:5'
+      )
+      expect(fetchSpy).toHaveBeenNthCalledWith(2,
+        'https://testnet.mirrornode.hedera.com/api/v1/topics/0.0.5005/messages?order=asc&limit=100&timestamp=gt:1700000004.000000000&sequencenumber=lte:5'
+      )
+    })
+
+    it('should reject contract events and missing topics', () => {
+      expect(() => adapter.subscribe({ kind: 'contract-events', contractAddress: '0.0.7007' }))
+        .toThrow(expect.objectContaining({ code: BlockchainErrorCode.UNSUPPORTED_OPERATION }))
+      expect(() => adapter.subscribe({ kind: 'topic-messages' }))
+        .toThrow(expect.objectContaining({ code: BlockchainErrorCode.INVALID_ADDRESS }))
+    })
+  })
+
+  describe('HCS topics', () => {
+    const topicId = '0.0.5005'
+    const {
+      MockTopicMessageSubmitTransaction,
+      MockTopicUpdateTransaction,
+    } = require('@test-utils/../mocks/hedera-sdk.mock')
+
+    beforeEach(async () => {
+      await adapter.initialize(createMockConfig())
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should submit messages over 1024 bytes as chunks', async () => {
+      const executeAll = jest.spyOn(MockTopicMessageSubmitTransaction.prototype, 'executeAll')
+
+      const result = await adapter.executeChainSpecificOperation('submitHCSMessage', {
+        topicId,
+        message: 'x'.repeat(2500),
+      })
+
+      expect(result.chunks).toBe(3)
+      expect(await executeAll.mock.results[0].value).toHaveLength(3)
+    })
+
+    it('should co-sign with a separate submit key', async () => {
+      const sign = jest.spyOn(MockTopicMessageSubmitTransaction.prototype, 'sign')
+
+      await adapter.executeChainSpecificOperation('submitHCSMessage', {
+        topicId,
+        message: 'audit entry',
+        submitKey: 'submit-private-key',
+      })
+
+      expect(sign).toHaveBeenCalledWith(expect.objectContaining({ key: 'submit-private-key' }))
+    })
+
+    it('should set and clear the submit key', async () => {
+      const setSubmitKey = jest.spyOn(MockTopicUpdateTransaction.prototype, 'setSubmitKey')
+      const clearSubmitKey = jest.spyOn(MockTopicUpdateTransaction.prototype, 'clearSubmitKey')
+
+      await adapter.executeChainSpecificOperation('updateHCSTopic', { topicId, submitKey: 'new-public-key' })
+      await adapter.executeChainSpecificOperation('updateHCSTopic', { topicId, submitKey: null })
+
+      expect(setSubmitKey).toHaveBeenCalledWith(expect.objectContaining({ key: 'new-public-key' }))
+      expect(clearSubmitKey).toHaveBeenCalledTimes(1)
+    })
+
+    it('should read a single message from the mirror node', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({
+          consensus_timestamp: '1700000002.000000000',
+          topic_id: topicId,
+          sequence_number: 41,
+          payer_account_id: '0.0.1001',
+          message: Buffer.from('entry').toString('base64'),
+          running_hash: Buffer.alloc(48, 1).toString('base64'),
+          running_hash_version: 3,
+        }))
+      )
+
+      const message = await adapter.executeChainSpecificOperation('getHCSMessage', { topicId, sequenceNumber: 41 })
+
+      expect(fetchSpy).toHaveBeenCalledWith(`https://testnet.mirrornode.hedera.com/api/v1/topics/${topicId}/messages/41`)
+      expect(message).toMatchObject({ sequenceNumber: 41, message: 'entry', runningHash: '01'.repeat(48) })
+    })
+  })
+
+  describe('scheduled transactions', () => {
+    const {
+      MockAccountCreateTransaction,
+      MockAccountUpdateTransaction,
+      MockScheduleCreateTransaction,
+      MockScheduleSignTransaction,
+    } = require('@test-utils/../mocks/hedera-sdk.mock')
+    const approverKeys = ['approver-key-1', 'approver-key-2', 'approver-key-3']
+
+    beforeEach(async () => {
+      await adapter.initialize(createMockConfig())
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should create accounts with a threshold key', async () => {
+      const setKey = jest.spyOn(MockAccountCreateTransaction.prototype, 'setKey')
+
+      const created = await adapter.executeChainSpecificOperation('createAccount', { publicKeys: approverKeys, threshold: 2 })
+
+      const key: any = setKey.mock.calls[0][0]
+      expect(key.keys.map(String)).toEqual(approverKeys)
+      expect(key.threshold).toBe(2)
+      expect(created).toMatchObject({ success: true, publicKeys: approverKeys, threshold: 2 })
+      expect(created.privateKey).toBeUndefined()
+    })
+
+    it('should move an account to a threshold key, signed by the new key holders', async () => {
+      const setKey = jest.spyOn(MockAccountUpdateTransaction.prototype, 'setKey')
+      const sign = jest.spyOn(MockAccountUpdateTransaction.prototype, 'sign')
+
+      const updated = await adapter.executeChainSpecificOperation('setAccountKey', {
+        account: '0.0.1001',
+        publicKeys: approverKeys,
+        threshold: 2,
+        signerKeys: ['approver-private-1', 'approver-private-2'],
+      })
+
+      expect((setKey.mock.calls[0][0] as any).threshold).toBe(2)
+      expect(sign.mock.calls.map(([key]) => String(key))).toEqual(['approver-private-1', 'approver-private-2'])
+      expect(updated).toMatchObject({ account: '0.0.1001', threshold: 2, success: true })
+    })
+
+    it('should reject thresholds the keys cannot meet', async () => {
+      await expect(adapter.executeChainSpecificOperation('createAccount', { publicKeys: approverKeys, threshold: 4 }))
+        .rejects.toThrow('threshold must be between 1 and 3, got 4')
+      await expect(adapter.executeChainSpecificOperation('setAccountKey', { publicKeys: [] }))
+        .rejects.toThrow('publicKeys must list at least one public key')
+    })
+
+    it('should schedule a transfer paid by the multisig account', async () => {
+      const setScheduledTransaction = jest.spyOn(MockScheduleCreateTransaction.prototype, 'setScheduledTransaction')
+      const setPayerAccountId = jest.spyOn(MockScheduleCreateTransaction.prototype, 'setPayerAccountId')
+      const setScheduleMemo = jest.spyOn(MockScheduleCreateTransaction.prototype, 'setScheduleMemo')
+
+      const proposal = await adapter.proposeTransaction({
+        action: { type: 'transfer', to: '0.0.2002', amount: 100n, tokenId: '0.0.777' },
+        account: '0.0.1001',
+        memo: 'Payroll',
+      })
+
+      const scheduled: any = setScheduledTransaction.mock.calls[0][0]
+      expect(scheduled.tokenTransfers.get('0.0.777')).toEqual(new Map([['0.0.1001', -100], ['0.0.2002', 100]]))
+      expect(setPayerAccountId).toHaveBeenCalledWith(expect.objectContaining({ accountId: '0.0.1001' }))
+      expect(setScheduleMemo).toHaveBeenCalledWith('Payroll')
+      expect(proposal).toMatchObject({ id: '0.0.9001', chain: 'hedera', status: 'pending' })
+    })
+
+    it('should refuse mint recipients other than the treasury', async () => {
+      await expect(adapter.proposeTransaction({
+        action: { type: 'mint', tokenId: '0.0.777', amount: 500n, to: '0.0.2002' },
+      })).rejects.toMatchObject({ code: BlockchainErrorCode.UNSUPPORTED_OPERATION })
+    })
+
+    it('should sign a schedule and report what it does and who signed', async () => {
+      const setScheduleId = jest.spyOn(MockScheduleSignTransaction.prototype, 'setScheduleId')
+
+      const proposal = await adapter.approveProposal('0.0.9001')
+
+      expect(setScheduleId).toHaveBeenCalledWith('0.0.9001')
+      expect(proposal).toMatchObject({
+        id: '0.0.9001',
+        status: 'pending',
+        account: '0.0.12345',
+        signers: ['operator-public-key'],
+        transactionId: '0.0.12345@1700000000.000000000?scheduled',
+      })
+      expect(proposal.summary).toContain('Mint 500 of 0.0.777')
+    })
+
+    it('should list schedules still waiting for signatures', async () => {
+      const schedule = (id: string, fields: Record<string, any> = {}) => ({
+        schedule_id: id,
+        creator_account_id: '0.0.12345',
+        payer_account_id: '0.0.1001',
+        memo: 'Payroll',
+        deleted: false,
+        executed_timestamp: null,
+        expiration_time: null,
+        signatures: [{ public_key_prefix: Buffer.from('ab'.repeat(32), 'hex').toString('base64') }],
+        ...fields,
+      })
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({
+          schedules: [
+            schedule('0.0.9003'),
+            schedule('0.0.9002', { executed_timestamp: '1700000001.000000000' }),
+            schedule('0.0.9001', { deleted: true }),
+            schedule('0.0.9000', { expiration_time: '1700000000.000000000' }),
+          ],
+        }))
+      )
+
+      const proposals = await adapter.listProposals()
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://testnet.mirrornode.hedera.com/api/v1/schedules?account.id=0.0.12345&order=desc&limit=25'
+      )
+      expect(proposals).toEqual([{
+        id: '0.0.9003',
+        chain: 'hedera',
+        status: 'pending',
+        account: '0.0.1001',
+        summary: [],
+        signers: ['ab'.repeat(32)],
+        memo: 'Payroll',
+        creator: '0.0.12345',
+        expiresAt: undefined,
+      }])
+    })
+  })
+
+  describe('NFT operations', () => {
+    beforeEach(async () => {
+      const config = createMockConfig({ mirrorNodeUrl: mirror.url })
+      await adapter.initialize(config)
+    })
+
     describe('createNFT()', () => {
       it('should create an NFT collection successfully', async () => {
         // ARRANGE
@@ -431,6 +1138,111 @@ describe('HederaAdapter', () => {
     })
   })
 
+  describe('multi-token collections', () => {
+    beforeEach(async () => {
+      const config = createMockConfig({ mirrorNodeUrl: mirror.url })
+      await adapter.initialize(config)
+    })
+
+    it('should create fungible tokens and NFT serials for the items', async () => {
+      const result = await adapter.createMultiToken({
+        name: 'Game Items',
+        symbol: 'ITEM',
+        items: [
+          { id: 1, name: 'Gold', fungible: true, initialSupply: '1000' },
+          { id: 2, name: 'Excalibur', fungible: false },
+          { id: 3, name: 'Aegis', fungible: false },
+        ],
+      })
+
+      const [gold, excalibur, aegis] = result.items
+      expect(gold.tokenId).toMatch(/^0\.0\.\d+$/)
+      expect(excalibur.tokenId).toMatch(/^0\.0\.\d+\/1$/)
+      expect(aegis.tokenId).toBe(excalibur.tokenId.replace(/1$/, '2'))
+      expect(result.collectionId).toBe('0.0.12345')
+      // Gold token, NFT token, one mint for both serials
+      expect(result.transaction.customData?.transactionIds).toHaveLength(3)
+    })
+
+    it('should move fungible and unique items in one transfer', async () => {
+      const { MockTransferTransaction } = require('@test-utils/../mocks/hedera-sdk.mock')
+      const addTokenTransfer = jest.spyOn(MockTransferTransaction.prototype, 'addTokenTransfer')
+      const addNftTransfer = jest.spyOn(MockTransferTransaction.prototype, 'addNftTransfer')
+      const execute = jest.spyOn(MockTransferTransaction.prototype, 'execute')
+
+      await adapter.transferBatch({
+        collectionId: '0.0.100',
+        to: '0.0.654321',
+        items: [{ tokenId: '0.0.200', amount: '25' }, { tokenId: '0.0.300/7', amount: '1' }],
+      })
+
+      expect(addTokenTransfer.mock.calls.map(call => call[2])).toEqual([-25, 25])
+      expect(addNftTransfer.mock.calls[0][1]).toBe(7)
+      expect(execute).toHaveBeenCalledTimes(1)
+      addTokenTransfer.mockRestore()
+      addNftTransfer.mockRestore()
+      execute.mockRestore()
+    })
+
+    it('should mint fungible items and reject unique ones', async () => {
+      const transferSpy = jest.spyOn(adapter, 'transferBatch')
+      const items = [{ tokenId: '0.0.200', amount: '25' }, { tokenId: '0.0.201', amount: '5' }]
+
+      const result = await adapter.mintBatch({ collectionId: '0.0.100', to: '0.0.654321', items })
+
+      // Two mints into the treasury, then one transfer to the recipient
+      expect(result.customData?.transactionIds).toHaveLength(3)
+      expect(transferSpy).toHaveBeenCalledWith({ collectionId: '0.0.100', to: '0.0.654321', items })
+
+      await expect(adapter.mintBatch({
+        collectionId: '0.0.100',
+        to: '0.0.654321',
+        items: [{ tokenId: '0.0.300/1', amount: '1' }],
+      })).rejects.toThrow('unique')
+    })
+  })
+
+  describe('callContract()', () => {
+    const abi = require('../../contracts/ERC20.json').abi
+
+    beforeEach(async () => {
+      const config = createMockConfig()
+      await adapter.initialize(config)
+    })
+
+    it('should answer view functions with an encoded ContractCallQuery', async () => {
+      const { MockContractCallQuery } = require('@test-utils/../mocks/hedera-sdk.mock')
+      const setFunctionParameters = jest.spyOn(MockContractCallQuery.prototype, 'setFunctionParameters')
+
+      const balance = await adapter.callContract({
+        contractAddress: '0.0.5005',
+        methodName: 'balanceOf',
+        args: [{ abi }, '0x' + '1'.repeat(40)],
+      })
+
+      // balanceOf(address) selector + padded address
+      const data = setFunctionParameters.mock.calls[0][0] as Buffer
+      expect(data.toString('hex')).toBe('70a08231' + '1'.repeat(40).padStart(64, '0'))
+      expect(balance).toBe(BigInt(0))
+      setFunctionParameters.mockRestore()
+    })
+
+    it('should execute state-changing functions as a transaction', async () => {
+      const { MockContractExecuteTransaction } = require('@test-utils/../mocks/hedera-sdk.mock')
+      const setFunctionParameters = jest.spyOn(MockContractExecuteTransaction.prototype, 'setFunctionParameters')
+
+      const result = await adapter.callContract({
+        contractAddress: '0.0.5005',
+        methodName: 'transfer',
+        args: [{ abi }, '0x' + '2'.repeat(40), 100],
+      })
+
+      expect((setFunctionParameters.mock.calls[0][0] as Buffer).subarray(0, 4).toString('hex')).toBe('a9059cbb')
+      expect(result.status).toBe('SUCCESS')
+      setFunctionParameters.mockRestore()
+    })
+  })
+
   /**
    * Test suite for disconnect
    */
@@ -494,6 +1306,35 @@ describe('HederaAdapter', () => {
     })
   })
 
+  describe('simulateTransaction()', () => {
+    beforeEach(async () => {
+      const config = createMockConfig({ mirrorNodeUrl: mirror.url })
+      await adapter.initialize(config)
+    })
+
+    it('should precheck token creation against the operator balance', async () => {
+      const result = await adapter.simulateTransaction({
+        operation: 'createToken',
+        params: { name: 'Test Token', symbol: 'TEST', decimals: 2, initialSupply: '1000' },
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.method).toBe('precheck')
+      expect(result.balanceChanges[0]).toEqual({ account: '0.0.12345', delta: -result.fee! })
+      expect(result.warnings[0]).toContain('no dry-run')
+    })
+
+    it('should predict INSUFFICIENT_TOKEN_BALANCE for transfers', async () => {
+      const result = await adapter.simulateTransaction({
+        operation: 'transferToken',
+        params: { tokenId: '0.0.123456', to: '0.0.654321', amount: '10' },
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.revertReason).toBe('INSUFFICIENT_TOKEN_BALANCE')
+    })
+  })
+
   /**
    * Test suite for gas/fee estimation
    */
@@ -21,6 +21,7 @@ import {
 // Import mock modules
 import * as mockSolanaModule from '@test-mocks/solana-web3.mock'
 import * as mockSplTokenModule from '@test-mocks/spl-token.mock'
+import * as mockMetaplexModule from '@test-mocks/mpl-token-metadata.mock'
 
 /**
  * TestableSolanaAdapter - Exposes protected methods for testing.
@@ -49,7 +50,7 @@ class TestableSolanaAdapter extends SolanaAdapter {
 
   // Override loadMetaplex to return mock
   protected async loadMetaplex(): Promise<any> {
-    return {}
+    return mockMetaplexModule
   }
 
   // Expose protected members for testing
@@ -66,6 +67,13 @@ class TestableSolanaAdapter extends SolanaAdapter {
   }
 }
 
+/**
+ * Fake compiled program: ELF magic followed by zeros.
+ */
+function createProgram(size: number): Buffer {
+  return Buffer.concat([Buffer.from('\x7fELF', 'latin1'), Buffer.alloc(size - 4)])
+}
+
 describe('SolanaAdapter', () => {
   let adapter: TestableSolanaAdapter
   let config: BlockchainConfiguration
@@ -277,6 +285,64 @@ describe('SolanaAdapter', () => {
     })
   })
 
+  describe('simulateTransaction()', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should simulate an SPL transfer with the simulateTransaction RPC', async () => {
+      const tokenId = generateMockSolanaAddress()
+      const to = generateMockSolanaAddress()
+
+      const result = await adapter.simulateTransaction({
+        operation: 'transferToken',
+        params: { tokenId, to, amount: '40' },
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.method).toBe('simulateTransaction')
+      expect(result.gasUsed).toBe(BigInt(150))
+      expect(result.logs[0].message).toContain('invoke')
+      expect(result.balanceChanges).toEqual([
+        { account: adapter.testWalletAddress, delta: BigInt(-5000) },
+        { account: adapter.testWalletAddress, tokenId, delta: BigInt(-40) },
+        { account: to, tokenId, delta: BigInt(40) },
+      ])
+    })
+
+    it('should report the failing program log as the revert reason', async () => {
+      jest.spyOn(adapter.testConnection, 'simulateTransaction').mockResolvedValueOnce({
+        context: { slot: 1 },
+        value: {
+          err: { InstructionError: [0, { Custom: 1 }] },
+          logs: ['Program Tokenkeg invoke [1]', 'Program Tokenkeg failed: custom program error: 0x1'],
+          accounts: null,
+          unitsConsumed: 90,
+        },
+      })
+
+      const result = await adapter.simulateTransaction({
+        operation: 'createToken',
+        params: { name: 'Test', symbol: 'TST', decimals: 6, initialSupply: '100' },
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.revertReason).toBe('Program Tokenkeg failed: custom program error: 0x1')
+    })
+
+    it('should simulate the buffer creation of a program deployment', async () => {
+      const result = await adapter.simulateTransaction({
+        operation: 'deployContract',
+        params: { contractCode: createProgram(2000) },
+      })
+
+      expect(result.success).toBe(true)
+      // Payer + buffer account
+      expect(result.fee).toBe(BigInt(10000))
+      expect(result.warnings[0]).toContain('the 3 write transaction(s)')
+    })
+  })
+
   // ============================================================================
   // TOKEN CREATION TESTS
   // ============================================================================
@@ -342,6 +408,121 @@ describe('SolanaAdapter', () => {
     })
   })
 
+  describe('allowances', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should approve a delegate and transfer as that delegate', async () => {
+      const tokenId = generateMockSolanaAddress()
+
+      const approval = await adapter.approveToken({
+        tokenId,
+        spender: generateMockSolanaAddress(),
+        amount: '1000',
+      })
+      const transfer = await adapter.transferFrom({
+        tokenId,
+        from: generateMockSolanaAddress(),
+        to: generateMockSolanaAddress(),
+        amount: '250',
+      })
+
+      expect(approval.status).toBe('success')
+      expect(transfer.status).toBe('success')
+    })
+
+    it('should report zero allowance when the spender is not the delegate', async () => {
+      const allowance = await adapter.getAllowance({
+        tokenId: generateMockSolanaAddress(),
+        owner: generateMockSolanaAddress(),
+        spender: generateMockSolanaAddress(),
+      })
+
+      expect(allowance).toBe(BigInt(0))
+    })
+  })
+
+  describe('token lifecycle', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should mint, burn, freeze and thaw with the SPL authorities', async () => {
+      const tokenId = generateMockSolanaAddress()
+      const account = generateMockSolanaAddress()
+
+      const results = [
+        await adapter.mintToken({ tokenId, amount: '500', to: account }),
+        await adapter.burnToken({ tokenId, amount: '200' }),
+        await adapter.freezeAccount({ tokenId, account }),
+        await adapter.unfreezeAccount({ tokenId, account }),
+      ]
+
+      results.forEach(result => expect(result.status).toBe('success'))
+    })
+
+    it('should reject pause as UNSUPPORTED_OPERATION', async () => {
+      await expect(adapter.pauseToken(generateMockSolanaAddress())).rejects.toMatchObject({
+        code: BlockchainErrorCode.UNSUPPORTED_OPERATION,
+        message: expect.stringContaining('Solana does not support pauseToken'),
+      })
+    })
+  })
+
+  describe('subscribe()', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should stream account changes after the cursor signature', async () => {
+      const account = generateMockSolanaAddress()
+      const [older, newer] = [generateMockSolanaSignature(), generateMockSolanaSignature()]
+      const getSignatures = jest.spyOn(adapter.testConnection, 'getSignaturesForAddress')
+        .mockResolvedValue([
+          { signature: newer, slot: 102, err: null, blockTime: 1700000002 },
+          { signature: older, slot: 101, err: null, blockTime: 1700000001 },
+        ])
+
+      const events = adapter.subscribe({ kind: 'account-changes', account, cursor: 'start', pollIntervalMs: 10 })
+      const first = await events.next()
+      const second = await events.next()
+      await events.return?.()
+
+      expect(getSignatures).toHaveBeenCalledWith(expect.anything(), { until: 'start', limit: 100 })
+      expect([first.value.cursor, second.value.cursor]).toEqual([older, newer])
+      expect(second.value).toMatchObject({ kind: 'account-changes', chain: 'solana', blockNumber: 102 })
+    })
+
+    it('should derive SPL transfers from token balance changes', async () => {
+      const account = generateMockSolanaAddress()
+      const sender = generateMockSolanaAddress()
+      const tokenId = generateMockSolanaAddress()
+      const signature = generateMockSolanaSignature()
+      const balance = (owner: string, amount: string) => ({ mint: tokenId, owner, uiTokenAmount: { amount } })
+
+      jest.spyOn(adapter.testConnection, 'getSignaturesForAddress')
+        .mockResolvedValue([{ signature, slot: 103, err: null, blockTime: null }])
+      jest.spyOn(adapter.testConnection, 'getTransaction').mockResolvedValue({
+        meta: {
+          preTokenBalances: [balance(sender, '100'), balance(account, '0')],
+          postTokenBalances: [balance(sender, '60'), balance(account, '40')],
+        },
+      } as any)
+
+      const events = adapter.subscribe({ kind: 'token-transfers', account, tokenId, cursor: '', pollIntervalMs: 10 })
+      const { value: event } = await events.next()
+      await events.return?.()
+
+      expect(event).toMatchObject({ tokenId, from: sender, to: account, amount: BigInt(40) })
+    })
+
+    it('should reject contract events as UNSUPPORTED_OPERATION', () => {
+      expect(() => adapter.subscribe({ kind: 'contract-events', contractAddress: generateMockSolanaAddress() }))
+        .toThrow(expect.objectContaining({ code: BlockchainErrorCode.UNSUPPORTED_OPERATION }))
+    })
+  })
+
   // ============================================================================
   // NFT TESTS
   // ============================================================================
@@ -366,6 +547,45 @@ describe('SolanaAdapter', () => {
       expect(result).toHaveProperty('transaction')
       expect(result.transaction.status).toBe('success')
     })
+
+    it('should create Metaplex metadata with the royalty as seller fee', async () => {
+      const createMetadata = jest.spyOn(mockMetaplexModule, 'createCreateMetadataAccountV3Instruction')
+      const collector = generateMockSolanaAddress()
+
+      await adapter.createNFT({
+        name: 'Art',
+        symbol: 'ART',
+        customFees: [{ type: 'royalty', basisPoints: 500, collector }],
+        metadata: { name: 'Art', image: 'ipfs://art' },
+      })
+
+      const { data } = (createMetadata.mock.calls[0][1] as any).createMetadataAccountArgsV3
+      expect(data.sellerFeeBasisPoints).toBe(500)
+      expect(data.creators).toEqual([{ address: new mockSolanaModule.MockPublicKey(collector), verified: false, share: 100 }])
+    })
+
+    it('should reject fixed fees', async () => {
+      await expect(adapter.createNFT({
+        name: 'Art',
+        symbol: 'ART',
+        customFees: [{ type: 'fixed', amount: '1000', collector: generateMockSolanaAddress() }],
+        metadata: { name: 'Art', image: 'ipfs://art' },
+      })).rejects.toMatchObject({ code: BlockchainErrorCode.UNSUPPORTED_OPERATION })
+    })
+
+    it('should update seller fee basis points and keep the metadata', async () => {
+      const updateMetadata = jest.spyOn(mockMetaplexModule, 'createUpdateMetadataAccountV2Instruction')
+
+      const result = await adapter.updateTokenFees({
+        tokenId: generateMockSolanaAddress(),
+        customFees: [{ type: 'royalty', basisPoints: 250, collector: adapter.testWalletAddress! }],
+      })
+
+      const { data } = (updateMetadata.mock.calls[0][1] as any).updateMetadataAccountArgsV2
+      expect(data).toMatchObject({ name: 'Mock NFT', uri: 'https://example.com/nft.json', sellerFeeBasisPoints: 250 })
+      expect(data.creators[0].verified).toBe(true)
+      expect(result.status).toBe('success')
+    })
   })
 
   describe('mintNFT()', () => {
@@ -405,28 +625,136 @@ describe('SolanaAdapter', () => {
     })
   })
 
+  describe('multi-token collections', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should create a mint per item and lock the supply of unique items', async () => {
+      const setAuthority = jest.spyOn(mockSplTokenModule, 'createSetAuthorityInstruction')
+
+      const result = await adapter.createMultiToken({
+        name: 'Game Items',
+        symbol: 'ITEM',
+        items: [
+          { id: 1, name: 'Gold', fungible: true, initialSupply: '1000' },
+          { id: 2, name: 'Excalibur', fungible: false },
+        ],
+      })
+
+      expect(new Set(result.items.map(item => item.tokenId)).size).toBe(2)
+      expect(setAuthority).toHaveBeenCalledTimes(1)
+      expect(setAuthority.mock.calls[0][0].toString()).toBe(result.items[1].tokenId)
+      expect(setAuthority.mock.calls[0][3]).toBeNull()
+      setAuthority.mockRestore()
+    })
+
+    it('should transfer several items in one transaction', async () => {
+      const send = jest.spyOn(mockSolanaModule.MockConnection.prototype, 'sendRawTransaction')
+      const transfer = jest.spyOn(mockSplTokenModule, 'createTransferInstruction')
+
+      const result = await adapter.transferBatch({
+        collectionId: generateMockSolanaAddress(),
+        to: generateMockSolanaAddress(),
+        items: [
+          { tokenId: generateMockSolanaAddress(), amount: '25' },
+          { tokenId: generateMockSolanaAddress(), amount: '1' },
+        ],
+      })
+
+      expect(result.status).toBe('success')
+      expect(transfer).toHaveBeenCalledTimes(2)
+      expect(send).toHaveBeenCalledTimes(1)
+      send.mockRestore()
+      transfer.mockRestore()
+    })
+  })
+
   // ============================================================================
   // CONTRACT TESTS
   // ============================================================================
 
   describe('deployContract()', () => {
+    const LOADER_ID = 'BPFLoaderUpgradeab1e11111111111111111111111'
+
+    // Loader instructions in send order
+    function spyLoaderInstructions() {
+      const add = jest.spyOn(mockSolanaModule.MockTransaction.prototype, 'add')
+      const instructions = () => add.mock.calls
+        .flat()
+        .filter((instruction: any) => instruction.programId.toString() === LOADER_ID)
+      return {
+        instructions,
+        indices: () => instructions().map((instruction: any) => instruction.data.readUInt32LE(0)),
+        restore: () => add.mockRestore(),
+      }
+    }
+
     beforeEach(async () => {
       await adapter.initialize(config)
     })
 
-    it('should throw UNSUPPORTED_OPERATION', async () => {
-      await expect(
-        adapter.deployContract({
-          contractCode: '0x...',
-        })
-      ).rejects.toThrow(BlockchainError)
+    it('should write the program to a buffer and deploy it', async () => {
+      const loader = spyLoaderInstructions()
+      const program = createProgram(2000)
 
-      try {
-        await adapter.deployContract({ contractCode: '0x...' })
-      } catch (error: any) {
-        expect(error.code).toBe(BlockchainErrorCode.UNSUPPORTED_OPERATION)
-        expect(error.message).toContain('Rust')
-      }
+      const result = await adapter.deployContract({ contractCode: program })
+
+      // InitializeBuffer, 3 Writes, DeployWithMaxDataLen
+      expect(loader.indices()).toEqual([0, 1, 1, 1, 2])
+      const [, , , lastWrite, deploy] = loader.instructions()
+      expect(lastWrite.data.readUInt32LE(4)).toBe(1800)
+      expect(lastWrite.data.subarray(16)).toEqual(program.subarray(1800))
+      // Default max data length leaves room for upgrades
+      expect(deploy.data.readBigUInt64LE(4)).toBe(BigInt(4000))
+
+      expect(result.contractId).toBe(result.contractAddress)
+      expect(result.transaction.customData?.transactionIds).toHaveLength(5)
+      expect(result.transaction.customData?.upgradeAuthority).toBe(adapter.testWalletAddress)
+      loader.restore()
+    })
+
+    it('should upgrade an existing program and make it immutable', async () => {
+      const loader = spyLoaderInstructions()
+      const programId = generateMockSolanaAddress()
+
+      const result = await adapter.deployContract({
+        contractCode: createProgram(100),
+        customConfig: { programId, upgradeAuthority: null },
+      })
+
+      // InitializeBuffer, Write, Upgrade, SetAuthority
+      expect(loader.indices()).toEqual([0, 1, 3, 4])
+      // No new authority account = immutable
+      expect(loader.instructions()[3].keys).toHaveLength(2)
+      expect(result.contractId).toBe(programId)
+      expect(result.transaction.customData?.upgradeAuthority).toBeNull()
+      loader.restore()
+    })
+
+    it('should reject code that is not a compiled program', async () => {
+      await expect(adapter.deployContract({ contractCode: '0x6080604052' })).rejects.toMatchObject({
+        code: BlockchainErrorCode.CONTRACT_ERROR,
+        message: expect.stringContaining('.so'),
+      })
+    })
+  })
+
+  describe('setUpgradeAuthority()', () => {
+    beforeEach(async () => {
+      await adapter.initialize(config)
+    })
+
+    it('should pass the new authority to SetAuthority', async () => {
+      const add = jest.spyOn(mockSolanaModule.MockTransaction.prototype, 'add')
+      const newAuthority = generateMockSolanaAddress()
+
+      await adapter.setUpgradeAuthority(generateMockSolanaAddress(), newAuthority)
+
+      const [instruction] = add.mock.calls[0] as any[]
+      expect(instruction.data.readUInt32LE(0)).toBe(4)
+      expect(instruction.keys[2].pubkey.toString()).toBe(newAuthority)
+      add.mockRestore()
     })
   })
 
@@ -448,6 +776,41 @@ describe('SolanaAdapter', () => {
       expect(result).toBeDefined()
       expect(result.success).toBe(true)
     })
+
+    it('should encode the instruction from an Anchor IDL', async () => {
+      const add = jest.spyOn(mockSolanaModule.MockTransaction.prototype, 'add')
+      const counter = generateMockSolanaAddress()
+      const idl = {
+        address: generateMockSolanaAddress(),
+        instructions: [{
+          name: 'increment',
+          discriminator: [11, 18, 104, 9, 104, 174, 59, 33],
+          accounts: [
+            { name: 'counter', writable: true },
+            { name: 'authority', signer: true },
+          ],
+          args: [{ name: 'by', type: 'u64' }],
+        }],
+      }
+
+      const result = await adapter.callContract({
+        contractAddress: idl.address,
+        methodName: 'increment',
+        args: [5],
+        idl,
+        accounts: { counter },
+      })
+
+      const [instruction] = add.mock.calls[0] as any[]
+      expect(instruction.programId.toString()).toBe(idl.address)
+      expect(instruction.data).toEqual(Buffer.from([11, 18, 104, 9, 104, 174, 59, 33, 5, 0, 0, 0, 0, 0, 0, 0]))
+      expect(instruction.keys.map((key: any) => [key.pubkey.toString(), key.isSigner, key.isWritable])).toEqual([
+        [counter, false, true],
+        [adapter.testWalletAddress, true, false],
+      ])
+      expect(result.success).toBe(true)
+      add.mockRestore()
+    })
   })
 
   // ============================================================================
@@ -511,6 +874,61 @@ describe('SolanaAdapter', () => {
     })
   })
 
+  // ============================================================================
+  // LOCALNET TESTS
+  // ============================================================================
+
+  describe('localnet', () => {
+    const requestAirdrop = jest.fn().mockResolvedValue(generateMockSolanaSignature())
+
+    /**
+     * The mock connection has no faucet; add one for the local validator.
+     */
+    class LocalnetSolanaAdapter extends TestableSolanaAdapter {
+      protected async loadSolana(): Promise<any> {
+        const solana = await super.loadSolana()
+        return {
+          ...solana,
+          Connection: class extends mockSolanaModule.MockConnection {
+            requestAirdrop = requestAirdrop
+          },
+        }
+      }
+    }
+
+    beforeEach(() => {
+      requestAirdrop.mockClear()
+      adapter = new LocalnetSolanaAdapter()
+    })
+
+    it('should generate and fund a dev account without a private key', async () => {
+      await adapter.initialize({ chain: 'solana', network: 'localnet', credentials: {} })
+
+      expect(await adapter.isConnected()).toBe(true)
+      expect(adapter.testWalletAddress).toBeDefined()
+      expect(requestAirdrop).toHaveBeenCalledWith(
+        adapter.testKeypair.publicKey,
+        100 * mockSolanaModule.LAMPORTS_PER_SOL
+      )
+    })
+
+    it('should not airdrop when a private key is configured', async () => {
+      await adapter.initialize(createMockSolanaConfig({ network: 'localnet' }))
+
+      expect(requestAirdrop).not.toHaveBeenCalled()
+    })
+
+    it('should link to the explorer with a custom cluster URL', async () => {
+      await adapter.initialize({ chain: 'solana', network: 'localnet', credentials: {} })
+
+      const url = adapter.getExplorerUrl('sig123')
+
+      expect(url).toBe(
+        'https://explorer.solana.com/tx/sig123?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899'
+      )
+    })
+  })
+
   // ============================================================================
   // WALLET CONNECTION TESTS
   // ============================================================================
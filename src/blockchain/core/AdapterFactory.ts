@@ -9,6 +9,8 @@
 import { SupportedChain, BlockchainConfiguration, BlockchainError, BlockchainErrorCode } from './types'
 import { BlockchainAdapter } from './BlockchainAdapter'
 import { ChainCapabilityDetector } from './ChainCapabilities'
+import { ChainRegistry } from './ChainRegistry'
+import { EvmChainDescriptor } from './EvmChains'
 
 /**
  * Factory class for creating blockchain adapters.
@@ -16,6 +18,7 @@ import { ChainCapabilityDetector } from './ChainCapabilities'
  */
 export class AdapterFactory {
   private static adapters: Map<SupportedChain, BlockchainAdapter> = new Map()
+  private static pluginAdapters: Map<SupportedChain, () => BlockchainAdapter | Promise<BlockchainAdapter>> = new Map()
 
   /**
    * Create or retrieve a blockchain adapter.
@@ -78,11 +81,23 @@ export class AdapterFactory {
         case 'base':
           return await this.loadBaseAdapter()
 
-        default:
+        default: {
+          // Plugin chains bring their own adapter
+          const createPluginAdapter = this.pluginAdapters.get(chain)
+          if (createPluginAdapter) {
+            return await this.loadPluginAdapter(chain, createPluginAdapter)
+          }
+
+          // Any other EVM chain is driven by its registered descriptor
+          const descriptor = ChainRegistry.getEvmDescriptor(chain)
+          if (descriptor) {
+            return await this.loadEvmAdapter(descriptor)
+          }
           throw new BlockchainError(
             BlockchainErrorCode.UNSUPPORTED_OPERATION,
             `Unsupported blockchain: ${chain}`
           )
+        }
       }
     } catch (error: any) {
       // Handle missing SDK errors
@@ -153,6 +168,72 @@ export class AdapterFactory {
     }
   }
 
+  /**
+   * Lazy load the generic EVM adapter for a descriptor.
+   */
+  private static async loadEvmAdapter(descriptor: EvmChainDescriptor): Promise<BlockchainAdapter> {
+    try {
+      // Dynamic import - only loads when an EVM chain is first used
+      const { EvmAdapter } = await import('../adapters/EvmAdapter')
+      return new EvmAdapter(descriptor)
+    } catch (error) {
+      throw this.createSDKError(descriptor.chain, error)
+    }
+  }
+
+  /**
+   * Create a plugin chain's adapter.
+   */
+  private static async loadPluginAdapter(
+    chain: SupportedChain,
+    createAdapter: () => BlockchainAdapter | Promise<BlockchainAdapter>
+  ): Promise<BlockchainAdapter> {
+    try {
+      return await createAdapter()
+    } catch (error) {
+      throw this.createSDKError(chain, error)
+    }
+  }
+
+  /**
+   * Register how to create a chain's adapter (see ChainPlugins.register).
+   * Built-in chains cannot be replaced.
+   *
+   * @param chain - Chain the adapter is for
+   * @param createAdapter - Returns a new, uninitialized adapter
+   */
+  static registerAdapter(
+    chain: SupportedChain,
+    createAdapter: () => BlockchainAdapter | Promise<BlockchainAdapter>
+  ): void {
+    this.pluginAdapters.set(chain, createAdapter)
+  }
+
+  /**
+   * Create an adapter for any EVM chain descriptor.
+   *
+   * Use ChainRegistry.registerEvmChain() as well if the chain should show up
+   * in comparisons and be resolvable through createAdapter(chain).
+   *
+   * @param descriptor - EVM chain descriptor
+   * @param config - Chain configuration (optional)
+   * @returns Blockchain adapter for the described chain
+   */
+  static async createEvmAdapter(
+    descriptor: EvmChainDescriptor,
+    config?: BlockchainConfiguration
+  ): Promise<BlockchainAdapter> {
+    const adapter = await this.loadEvmAdapter(descriptor)
+
+    if (config) {
+      await adapter.initialize(config)
+    }
+
+    this.adapters.set(descriptor.chain, adapter)
+
+    return adapter
+  }
+
   /**
    * Create helpful error message for missing SDK.
    */
@@ -193,8 +274,13 @@ export class AdapterFactory {
       ethereum: 'npm install ethers',
       solana: 'npm install @solana/web3.js @solana/spl-token',
       base: 'npm install ethers', // Base uses ethers.js
+      polygon: 'npm install ethers', // All EVM chains use ethers.js
+      arbitrum: 'npm install ethers',
+      optimism: 'npm install ethers',
+      avalanche: 'npm install ethers',
     }
-    return commands[chain]
+    // Plugin chains list their packages in the registry
+    return commands[chain] || `npm install ${ChainRegistry.hasChain(chain) ? ChainRegistry.getChain(chain).sdkPackages.join(' ') : chain}`
   }
 
   /**
@@ -247,7 +333,7 @@ export class AdapterFactory {
    * Get all available chains (SDKs installed).
    */
   static async getAvailableChains(): Promise<SupportedChain[]> {
-    const chains: SupportedChain[] = ['hedera', 'ethereum', 'solana', 'base']
+    const chains = ChainRegistry.getAllChains().map(info => info.chain)
     const available: SupportedChain[] = []
 
     for (const chain of chains) {
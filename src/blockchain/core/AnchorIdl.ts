@@ -0,0 +1,444 @@
+/**
+ * Anchor IDL Instruction Encoding
+ *
+ * Builds Solana program instructions from an Anchor IDL (the JSON file
+ * `anchor build` writes to target/idl/), so callers pass a method name and
+ * arguments instead of hand-built buffers:
+ * - Discriminator: the IDL's own (Anchor 0.30+) or sha256("global:<name>")[0..8]
+ * - Arguments: Borsh-encoded from the IDL types (integers, strings, vectors,
+ *   options, fixed arrays, public keys, defined structs and enums)
+ * - Accounts: ordered as declared, from explicit addresses, fixed IDL
+ *   addresses, well-known programs and sysvars, or the signer
+ *
+ * Both IDL formats are accepted: legacy (isMut / isSigner, "publicKey") and
+ * 0.30+ (writable / signer, "pubkey", discriminators in the file).
+ */
+
+import { createHash } from 'crypto'
+import { BlockchainError, BlockchainErrorCode } from './types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AnchorIdlType =
+  | string
+  | { vec: AnchorIdlType }
+  | { option: AnchorIdlType }
+  | { coption: AnchorIdlType }
+  | { array: [AnchorIdlType, number] }
+  | { defined: string | { name: string } }
+
+export interface AnchorIdlField {
+  name: string
+  type: AnchorIdlType
+}
+
+export interface AnchorIdlAccount {
+  name: string
+  isMut?: boolean              // Legacy
+  isSigner?: boolean           // Legacy
+  isOptional?: boolean         // Legacy
+  writable?: boolean           // 0.30+
+  signer?: boolean             // 0.30+
+  optional?: boolean           // 0.30+
+  address?: string             // 0.30+: fixed address (programs, sysvars)
+  accounts?: AnchorIdlAccount[] // Composite (nested Accounts struct)
+}
+
+export interface AnchorIdlInstruction {
+  name: string
+  discriminator?: number[]
+  accounts: AnchorIdlAccount[]
+  args: AnchorIdlField[]
+}
+
+export interface AnchorIdlTypeDef {
+  name: string
+  type:
+    | { kind: 'struct'; fields?: Array<AnchorIdlField | AnchorIdlType> }
+    | { kind: 'enum'; variants: Array<{ name: string; fields?: Array<AnchorIdlField | AnchorIdlType> }> }
+}
+
+export interface AnchorIdl {
+  address?: string             // 0.30+: program ID
+  name?: string                // Legacy
+  metadata?: { name?: string; version?: string; address?: string }
+  instructions: AnchorIdlInstruction[]
+  types?: AnchorIdlTypeDef[]
+}
+
+/**
+ * Account of an encoded instruction, in program order.
+ */
+export interface AnchorAccountMeta {
+  name: string
+  address: string
+  isSigner: boolean
+  isWritable: boolean
+}
+
+/**
+ * Instruction ready to be wrapped in a TransactionInstruction.
+ */
+export interface EncodedAnchorInstruction {
+  programId: string
+  name: string
+  accounts: AnchorAccountMeta[]
+  data: Buffer
+}
+
+// Addresses Anchor programs commonly declare without a fixed `address`
+export const WELL_KNOWN_ACCOUNTS: Record<string, string> = {
+  systemProgram: '11111111111111111111111111111111',
+  tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  token2022Program: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+  associatedTokenProgram: 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
+  rent: 'SysvarRent111111111111111111111111111111111',
+  clock: 'SysvarC1ock11111111111111111111111111111111',
+  instructions: 'Sysvar1nstructions1111111111111111111111111',
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+const INTEGER_SIZES: Record<string, number> = {
+  u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, u64: 8, i64: 8, u128: 16, i128: 16,
+}
+
+// ============================================================================
+// INSTRUCTIONS
+// ============================================================================
+
+/**
+ * Encode a call to an IDL instruction.
+ *
+ * @param idl - Parsed Anchor IDL
+ * @param methodName - Instruction name (camelCase or snake_case)
+ * @param args - Instruction arguments in IDL order
+ * @param options - Program ID (if the IDL has none), explicit account
+ *   addresses by name, and the signer used for unnamed signer accounts
+ */
+export function encodeAnchorInstruction(
+  idl: AnchorIdl,
+  methodName: string,
+  args: any[],
+  options: { programId?: string; accounts?: Record<string, string>; signer: string }
+): EncodedAnchorInstruction {
+  const programId = options.programId || idl.address || idl.metadata?.address
+  if (!programId) {
+    throw new BlockchainError(
+      BlockchainErrorCode.CONTRACT_ERROR,
+      'The IDL has no program address; pass the program ID as contractAddress'
+    )
+  }
+
+  const instruction = findAnchorInstruction(idl, methodName)
+  if (args.length !== instruction.args.length) {
+    throw new BlockchainError(
+      BlockchainErrorCode.CONTRACT_ERROR,
+      `${instruction.name} expects ${instruction.args.length} argument(s) ` +
+        `(${instruction.args.map(arg => arg.name).join(', ')}), got ${args.length}`
+    )
+  }
+
+  const encoded = instruction.args.map((arg, index) =>
+    encodeAnchorValue(idl, arg.type, args[index], arg.name))
+
+  return {
+    programId,
+    name: instruction.name,
+    accounts: resolveAccounts(instruction.accounts, programId, options.accounts || {}, options.signer),
+    data: Buffer.concat([getAnchorDiscriminator(instruction), ...encoded]),
+  }
+}
+
+/**
+ * Find an instruction by name. Legacy IDLs use camelCase, 0.30+ snake_case;
+ * either spelling matches either format.
+ */
+export function findAnchorInstruction(idl: AnchorIdl, methodName: string): AnchorIdlInstruction {
+  const wanted = toSnakeCase(methodName)
+  const instruction = (idl.instructions || []).find(candidate => toSnakeCase(candidate.name) === wanted)
+
+  if (!instruction) {
+    throw new BlockchainError(
+      BlockchainErrorCode.CONTRACT_ERROR,
+      `Instruction ${methodName} not found in the IDL. Available: ` +
+        (idl.instructions || []).map(candidate => candidate.name).join(', ')
+    )
+  }
+  return instruction
+}
+
+/**
+ * 8-byte instruction discriminator.
+ */
+export function getAnchorDiscriminator(instruction: AnchorIdlInstruction): Buffer {
+  if (instruction.discriminator) {
+    return Buffer.from(instruction.discriminator)
+  }
+  return createHash('sha256')
+    .update(`global:${toSnakeCase(instruction.name)}`)
+    .digest()
+    .subarray(0, 8)
+}
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+/**
+ * Flatten and resolve the instruction's accounts. Missing optional accounts
+ * are replaced with the program ID, as the Anchor client does.
+ */
+function resolveAccounts(
+  accounts: AnchorIdlAccount[],
+  programId: string,
+  explicit: Record<string, string>,
+  signer: string
+): AnchorAccountMeta[] {
+  return flattenAccounts(accounts).map(account => {
+    const isSigner = Boolean(account.signer ?? account.isSigner)
+    const isWritable = Boolean(account.writable ?? account.isMut)
+    const address = explicit[account.name]
+      ?? explicit[toCamelCase(account.name)]
+      ?? account.address
+      ?? WELL_KNOWN_ACCOUNTS[toCamelCase(account.name)]
+      ?? (isSigner ? signer : undefined)
+
+    if (address) {
+      return { name: account.name, address, isSigner, isWritable }
+    }
+    if (account.optional || account.isOptional) {
+      return { name: account.name, address: programId, isSigner: false, isWritable: false }
+    }
+
+    throw new BlockchainError(
+      BlockchainErrorCode.CONTRACT_ERROR,
+      `No address for account ${account.name}; pass it in CallContractParams.accounts`
+    )
+  })
+}
+
+function flattenAccounts(accounts: AnchorIdlAccount[]): AnchorIdlAccount[] {
+  return accounts.flatMap(account => account.accounts ? flattenAccounts(account.accounts) : [account])
+}
+
+// ============================================================================
+// BORSH ENCODING
+// ============================================================================
+
+/**
+ * Borsh-encode one value of an IDL type.
+ *
+ * @param path - Argument / field name for error messages
+ */
+export function encodeAnchorValue(idl: AnchorIdl, type: AnchorIdlType, value: any, path: string): Buffer {
+  try {
+    if (typeof type === 'string') {
+      return encodePrimitive(type, value)
+    }
+    if ('vec' in type) {
+      const items = toArray(value)
+      return Buffer.concat([
+        encodeInteger('u32', items.length),
+        ...items.map((item, index) => encodeAnchorValue(idl, type.vec, item, `${path}[${index}]`)),
+      ])
+    }
+    if ('option' in type || 'coption' in type) {
+      const inner = 'option' in type ? type.option : type.coption
+      if (value === null || value === undefined) {
+        // COption is fixed-size: a u32 tag followed by zeroed space for the value
+        return 'option' in type ? Buffer.from([0]) : Buffer.alloc(4 + getFixedSize(idl, inner))
+      }
+      const tag = 'option' in type ? Buffer.from([1]) : encodeInteger('u32', 1)
+      return Buffer.concat([tag, encodeAnchorValue(idl, inner, value, path)])
+    }
+    if ('array' in type) {
+      const [inner, length] = type.array
+      const items = toArray(value)
+      if (items.length !== length) {
+        throw new Error(`expected ${length} items, got ${items.length}`)
+      }
+      return Buffer.concat(items.map((item, index) => encodeAnchorValue(idl, inner, item, `${path}[${index}]`)))
+    }
+    if ('defined' in type) {
+      return encodeDefined(idl, typeof type.defined === 'string' ? type.defined : type.defined.name, value, path)
+    }
+    throw new Error(`unsupported type ${JSON.stringify(type)}`)
+  } catch (error: any) {
+    if (error instanceof BlockchainError) throw error
+    throw new BlockchainError(
+      BlockchainErrorCode.CONTRACT_ERROR,
+      `Cannot encode ${path}: ${error.message}`
+    )
+  }
+}
+
+function encodePrimitive(type: string, value: any): Buffer {
+  if (type in INTEGER_SIZES) {
+    return encodeInteger(type, value)
+  }
+
+  switch (type) {
+    case 'bool':
+      return Buffer.from([value === true || value === 'true' ? 1 : 0])
+    case 'f32': {
+      const buffer = Buffer.alloc(4)
+      buffer.writeFloatLE(Number(value))
+      return buffer
+    }
+    case 'f64': {
+      const buffer = Buffer.alloc(8)
+      buffer.writeDoubleLE(Number(value))
+      return buffer
+    }
+    case 'string': {
+      const bytes = Buffer.from(String(value), 'utf8')
+      return Buffer.concat([encodeInteger('u32', bytes.length), bytes])
+    }
+    case 'bytes': {
+      const bytes = typeof value === 'string' ? Buffer.from(value.replace(/^0x/, ''), 'hex') : Buffer.from(value)
+      return Buffer.concat([encodeInteger('u32', bytes.length), bytes])
+    }
+    case 'publicKey':
+    case 'pubkey':
+      return decodeBase58(String(value))
+    default:
+      throw new Error(`unsupported type ${type}`)
+  }
+}
+
+/**
+ * Little-endian two's complement integer of the given Borsh width.
+ */
+function encodeInteger(type: string, value: any): Buffer {
+  const size = INTEGER_SIZES[type]
+  const bits = BigInt(size * 8)
+  const signed = type.startsWith('i')
+  let remaining = BigInt(value)
+
+  const min = signed ? -(BigInt(1) << (bits - BigInt(1))) : BigInt(0)
+  const max = (BigInt(1) << (signed ? bits - BigInt(1) : bits)) - BigInt(1)
+  if (remaining < min || remaining > max) {
+    throw new Error(`${value} is out of range for ${type}`)
+  }
+  if (remaining < BigInt(0)) {
+    remaining += BigInt(1) << bits
+  }
+
+  const buffer = Buffer.alloc(size)
+  for (let index = 0; index < size; index++) {
+    buffer[index] = Number(remaining & BigInt(0xff))
+    remaining >>= BigInt(8)
+  }
+  return buffer
+}
+
+/**
+ * Struct fields in declaration order; enums as a u8 variant index followed
+ * by the variant's fields. Enum values are the variant name, or an object
+ * with a single variant-name key holding the fields.
+ */
+function encodeDefined(idl: AnchorIdl, name: string, value: any, path: string): Buffer {
+  const definition = (idl.types || []).find(candidate => candidate.name === name)
+  if (!definition) {
+    throw new Error(`type ${name} is not defined in the IDL`)
+  }
+
+  if (definition.type.kind === 'struct') {
+    return encodeFields(idl, definition.type.fields || [], value, path)
+  }
+
+  const variantName = typeof value === 'string' ? value : Object.keys(value || {})[0]
+  const index = definition.type.variants.findIndex(variant =>
+    toSnakeCase(variant.name) === toSnakeCase(variantName || ''))
+  if (index < 0) {
+    throw new Error(
+      `unknown ${name} variant ${variantName}; expected one of ` +
+        definition.type.variants.map(variant => variant.name).join(', ')
+    )
+  }
+
+  const variant = definition.type.variants[index]
+  const fields = variant.fields || []
+  return Buffer.concat([
+    Buffer.from([index]),
+    fields.length > 0 ? encodeFields(idl, fields, value[variantName], `${path}.${variant.name}`) : Buffer.alloc(0),
+  ])
+}
+
+/**
+ * Named fields come from an object, tuple fields from an array.
+ */
+function encodeFields(idl: AnchorIdl, fields: Array<AnchorIdlField | AnchorIdlType>, value: any, path: string): Buffer {
+  return Buffer.concat(fields.map((field, index) => {
+    if (typeof field === 'object' && 'name' in field && 'type' in field) {
+      const fieldValue = value?.[field.name] ?? value?.[toCamelCase(field.name)]
+      return encodeAnchorValue(idl, field.type, fieldValue, `${path}.${field.name}`)
+    }
+    return encodeAnchorValue(idl, field as AnchorIdlType, toArray(value)[index], `${path}[${index}]`)
+  }))
+}
+
+/**
+ * Encoded size of a fixed-size type (needed for empty COptions).
+ */
+function getFixedSize(idl: AnchorIdl, type: AnchorIdlType): number {
+  if (typeof type === 'string') {
+    if (type in INTEGER_SIZES) return INTEGER_SIZES[type]
+    if (type === 'bool') return 1
+    if (type === 'f32') return 4
+    if (type === 'f64') return 8
+    if (type === 'publicKey' || type === 'pubkey') return 32
+  } else if ('array' in type) {
+    return getFixedSize(idl, type.array[0]) * type.array[1]
+  }
+  throw new Error(`COption of ${JSON.stringify(type)} is not supported`)
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toArray(value: any): any[] {
+  if (Array.isArray(value)) return value
+  if (value instanceof Uint8Array) return Array.from(value)
+  throw new Error(`expected an array, got ${typeof value}`)
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/_([a-z0-9])/g, (_match, char: string) => char.toUpperCase())
+}
+
+/**
+ * Decode a base58 public key to its 32 bytes.
+ */
+function decodeBase58(value: string): Buffer {
+  let number = BigInt(0)
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char)
+    if (digit < 0) {
+      throw new Error(`${value} is not a base58 public key`)
+    }
+    number = number * BigInt(58) + BigInt(digit)
+  }
+
+  const bytes: number[] = []
+  while (number > BigInt(0)) {
+    bytes.unshift(Number(number & BigInt(0xff)))
+    number >>= BigInt(8)
+  }
+  // Each leading '1' is a leading zero byte
+  const leadingZeros = value.length - value.replace(/^1+/, '').length
+  const decoded = Buffer.from([...new Array(leadingZeros).fill(0), ...bytes])
+
+  if (decoded.length !== 32) {
+    throw new Error(`${value} is not a 32-byte public key`)
+  }
+  return decoded
+}
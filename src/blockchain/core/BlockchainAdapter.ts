@@ -18,8 +18,20 @@ import {
   CreateNFTParams,
   NFTResult,
   MintNFTParams,
+  MintTokenParams,
+  BurnTokenParams,
+  TokenAccountParams,
+  WipeTokenParams,
   TransferParams,
+  ApproveParams,
+  AllowanceParams,
+  TransferFromParams,
   TransferNFTParams,
+  CreateMultiTokenParams,
+  MultiTokenResult,
+  MintBatchParams,
+  TransferBatchParams,
+  MultiTokenAmount,
   TransactionResult,
   BalanceParams,
   DeployContractParams,
@@ -29,14 +41,34 @@ import {
   WalletConnection,
   Transaction,
   SignedTransaction,
+  BuildTransactionOptions,
+  UnsignedTransaction,
   GasPrice,
   EstimateFeeParams,
   FeeEstimate,
+  SimulationRequest,
+  SimulationResult,
   TransactionStatus,
+  RpcEndpointHealth,
+  SubscribeParams,
+  ChainEvent,
+  ProposeTransactionParams,
+  ListProposalsParams,
+  MultisigProposal,
+  CustomFee,
+  RoyaltyFee,
+  UpdateTokenFeesParams,
+  AssociateTokenParams,
+  TokenAssociation,
   NetworkType,
   SupportedChain,
+  BlockchainError,
+  BlockchainErrorCode,
 } from './types'
-import { ChainCapabilities } from './ChainCapabilities'
+import { ChainCapabilities, ChainCapabilityDetector } from './ChainCapabilities'
+import { RpcRecorder } from './RpcRecorder'
+import { RpcEndpointPool } from './RpcPool'
+import { EventPage, pollEvents } from './Subscription'
 
 /**
  * Base interface that ALL blockchain adapters must implement.
@@ -126,6 +158,174 @@ export interface BlockchainAdapter {
    */
   getTokenBalance(params: BalanceParams): Promise<bigint>
 
+  // ============================================================================
+  // ALLOWANCES (Universal)
+  // ============================================================================
+
+  /**
+   * Allow another account to transfer tokens on the signer's behalf.
+   *
+   * Chain-specific implementations:
+   * - Hedera: AccountAllowanceApproveTransaction
+   * - Ethereum/Base: ERC-20 approve(spender, amount)
+   * - Solana: approve instruction (SPL delegate authority)
+   *
+   * @param params - Approval parameters (tokenId, spender, amount)
+   * @returns Transaction result
+   * @throws {BlockchainError} if approval fails
+   */
+  approveToken(params: ApproveParams): Promise<TransactionResult>
+
+  /**
+   * Get how many tokens a spender may still transfer from an owner.
+   *
+   * @param params - Allowance query parameters (tokenId, owner, spender)
+   * @returns Remaining allowance as bigint
+   * @throws {BlockchainError} if query fails
+   */
+  getAllowance(params: AllowanceParams): Promise<bigint>
+
+  /**
+   * Transfer tokens from another account using an allowance granted to the signer.
+   *
+   * Chain-specific implementations:
+   * - Hedera: TransferTransaction with approved token transfer
+   * - Ethereum/Base: ERC-20 transferFrom(from, to, amount)
+   * - Solana: transfer instruction signed by the delegate
+   *
+   * @param params - Delegated transfer parameters (tokenId, from, to, amount)
+   * @returns Transaction result
+   * @throws {BlockchainError} if transfer fails
+   */
+  transferFrom(params: TransferFromParams): Promise<TransactionResult>
+
+  // ============================================================================
+  // TOKEN LIFECYCLE (Capability-gated)
+  // ============================================================================
+
+  /**
+   * Mint additional supply of a fungible token.
+   *
+   * Chain-specific implementations:
+   * - Hedera: TokenMintTransaction (supply key)
+   * - Ethereum/Base: ERC-20 mint(to, amount)
+   * - Solana: mintTo instruction (mint authority)
+   *
+   * @param params - Mint parameters (tokenId, amount, optional recipient)
+   * @returns Transaction result
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenMint
+   */
+  mintToken(params: MintTokenParams): Promise<TransactionResult>
+
+  /**
+   * Burn fungible tokens held by the treasury / signer.
+   *
+   * Chain-specific implementations:
+   * - Hedera: TokenBurnTransaction (supply key)
+   * - Ethereum/Base: ERC-20 burn(amount)
+   * - Solana: burn instruction on the signer's token account
+   *
+   * @param params - Burn parameters (tokenId, amount)
+   * @returns Transaction result
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenBurn
+   */
+  burnToken(params: BurnTokenParams): Promise<TransactionResult>
+
+  /**
+   * Pause all operations on a token (Hedera: TokenPauseTransaction).
+   *
+   * @param tokenId - Token ID / address
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenPause
+   */
+  pauseToken(tokenId: string): Promise<TransactionResult>
+
+  /**
+   * Resume operations on a paused token.
+   *
+   * @param tokenId - Token ID / address
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenPause
+   */
+  unpauseToken(tokenId: string): Promise<TransactionResult>
+
+  /**
+   * Freeze an account's holdings of a token.
+   *
+   * Chain-specific implementations:
+   * - Hedera: TokenFreezeTransaction (freeze key)
+   * - Solana: freezeAccount instruction (freeze authority)
+   *
+   * @param params - Token and account to freeze
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenFreeze
+   */
+  freezeAccount(params: TokenAccountParams): Promise<TransactionResult>
+
+  /**
+   * Unfreeze an account's holdings of a token.
+   *
+   * @param params - Token and account to unfreeze
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenFreeze
+   */
+  unfreezeAccount(params: TokenAccountParams): Promise<TransactionResult>
+
+  /**
+   * Remove tokens from an account without its signature (Hedera: TokenWipeTransaction).
+   *
+   * @param params - Token, account and amount to wipe
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenWipe
+   */
+  wipeToken(params: WipeTokenParams): Promise<TransactionResult>
+
+  /**
+   * Grant KYC for a token to an account (Hedera: TokenGrantKycTransaction).
+   *
+   * @param params - Token and account
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenKyc
+   */
+  grantKyc(params: TokenAccountParams): Promise<TransactionResult>
+
+  /**
+   * Revoke KYC for a token from an account.
+   *
+   * @param params - Token and account
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasTokenKyc
+   */
+  revokeKyc(params: TokenAccountParams): Promise<TransactionResult>
+
+  /**
+   * Replace a token's custom fees (Hedera: TokenFeeScheduleUpdateTransaction,
+   * ERC-721: setDefaultRoyalty, Solana: Metaplex seller fee basis points).
+   *
+   * @param params - Token and its new fees
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasRoyalties,
+   *   or for fixed / fractional fees without hasCustomFees
+   */
+  updateTokenFees(params: UpdateTokenFeesParams): Promise<TransactionResult>
+
+  /**
+   * Associate tokens with an account so it can hold them (Hedera).
+   *
+   * @param params - Tokens and the account (default: the signer)
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasAccountAssociation
+   */
+  associateToken(params: AssociateTokenParams): Promise<TransactionResult>
+
+  /**
+   * Remove token associations from an account (Hedera). The account must
+   * hold none of the tokens.
+   *
+   * @param params - Tokens and the account (default: the signer)
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasAccountAssociation
+   */
+  dissociateToken(params: AssociateTokenParams): Promise<TransactionResult>
+
+  /**
+   * Whether an account can receive a token. Chains without association
+   * report every account as associated.
+   *
+   * @param params - Token and account
+   */
+  getTokenAssociation(params: TokenAccountParams): Promise<TokenAssociation>
+
   // ============================================================================
   // NFT OPERATIONS (Universal)
   // ============================================================================
@@ -162,6 +362,44 @@ export interface BlockchainAdapter {
    */
   transferNFT(params: TransferNFTParams): Promise<TransactionResult>
 
+  // ============================================================================
+  // MULTI-TOKEN OPERATIONS (Universal)
+  // ============================================================================
+
+  /**
+   * Create a collection of fungible and unique items.
+   *
+   * Chain-specific implementations:
+   * - Ethereum/Base: Deploy an ERC-1155 contract (one token ID per item)
+   * - Hedera: One HTS fungible token per fungible item, unique items as
+   *   serials of one HTS NFT token
+   * - Solana: One SPL mint (0 decimals) per item; unique items have a
+   *   supply of 1 and no mint authority
+   *
+   * @param params - Collection name and item definitions
+   * @returns Collection result with the chain token of every item
+   * @throws {BlockchainError} if creation fails
+   */
+  createMultiToken(params: CreateMultiTokenParams): Promise<MultiTokenResult>
+
+  /**
+   * Mint several fungible items of a collection to one account.
+   *
+   * @param params - Collection, recipient and item amounts
+   * @returns Transaction result
+   * @throws {BlockchainError} if minting fails or an item is unique
+   */
+  mintBatch(params: MintBatchParams): Promise<TransactionResult>
+
+  /**
+   * Transfer several items of a collection from the signer in one transaction.
+   *
+   * @param params - Collection, recipient and item amounts
+   * @returns Transaction result
+   * @throws {BlockchainError} if the transfer fails
+   */
+  transferBatch(params: TransferBatchParams): Promise<TransactionResult>
+
   // ============================================================================
   // SMART CONTRACT OPERATIONS (Universal)
   // ============================================================================
@@ -225,6 +463,31 @@ export interface BlockchainAdapter {
    */
   signTransaction(tx: Transaction): Promise<SignedTransaction>
 
+  /**
+   * Build an unsigned transaction to sign on another machine (see OfflineTransaction).
+   * Needs no private key: adapters initialized with a public-key signer can build.
+   *
+   * Chain-specific implementations:
+   * - Hedera: HBAR transfer, or contract call when data is set; frozen bytes
+   * - Ethereum/Base: any call; unsigned RLP with nonce, gas and fees filled in
+   * - Solana: SOL transfer; wire format with a blockhash or durable nonce
+   *
+   * @param tx - Transaction to build (from defaults to the operator)
+   * @param options - Validity window (Hedera) or durable nonce (Solana)
+   * @returns Unsigned payload and a summary for review
+   * @throws {BlockchainError} if the transaction cannot be built
+   */
+  buildTransaction(tx: Transaction, options?: BuildTransactionOptions): Promise<UnsignedTransaction>
+
+  /**
+   * Submit a transaction signed offline and wait for the result.
+   *
+   * @param signed - Signed bytes from signOfflineTransaction
+   * @returns Transaction result
+   * @throws {BlockchainError} if the network rejects it
+   */
+  broadcastTransaction(signed: SignedTransaction): Promise<TransactionResult>
+
   // ============================================================================
   // NETWORK OPERATIONS (Universal)
   // ============================================================================
@@ -251,6 +514,23 @@ export interface BlockchainAdapter {
    */
   estimateFees(params: EstimateFeeParams): Promise<FeeEstimate>
 
+  /**
+   * Dry-run a transaction without sending it.
+   *
+   * Chain-specific implementations:
+   * - Ethereum/Base: debug_traceCall (falls back to eth_call + eth_estimateGas)
+   * - Solana: simulateTransaction RPC
+   * - Hedera: Best-effort precheck of parameters and balances (no dry-run RPC)
+   *
+   * A transaction that would revert is reported with success: false and a
+   * revertReason rather than thrown.
+   *
+   * @param request - Raw transaction or adapter operation to simulate
+   * @returns Predicted outcome, balance changes and logs
+   * @throws {BlockchainError} if the simulation itself cannot run
+   */
+  simulateTransaction(request: SimulationRequest): Promise<SimulationResult>
+
   /**
    * Get transaction status by transaction ID/hash.
    *
@@ -268,6 +548,85 @@ export interface BlockchainAdapter {
    */
   getExplorerUrl(txId: string): string
 
+  /**
+   * Health of the configured RPC endpoints (latency, error rate), best first.
+   *
+   * @returns One entry per endpoint; empty when a single endpoint is used
+   */
+  getRpcHealth(): RpcEndpointHealth[]
+
+  // ============================================================================
+  // MULTISIG PROPOSALS (Capability-gated)
+  // ============================================================================
+
+  /**
+   * Propose a transaction that executes once enough parties have signed.
+   * The proposer's signature counts as the first approval.
+   *
+   * Chain-specific implementations:
+   * - Hedera: ScheduleCreateTransaction (the account's threshold key decides when it runs)
+   * - Ethereum/Base: Safe transaction, shared through the Safe Transaction Service
+   *
+   * @param params - Action (transfer, mint, contract call) and multisig account
+   * @returns The proposal (already executed if one signature was enough)
+   * @throws {BlockchainError} UNSUPPORTED_OPERATION without hasMultisig
+   */
+  proposeTransaction(params: ProposeTransactionParams): Promise<MultisigProposal>
+
+  /**
+   * Add the operator's signature to a proposal.
+   *
+   * Chain-specific implementations:
+   * - Hedera: ScheduleSignTransaction (the network executes at the threshold)
+   * - Ethereum/Base: Safe confirmation; the approval that reaches the
+   *   threshold also submits execTransaction
+   *
+   * @param proposalId - Hedera schedule ID / Safe transaction hash
+   * @returns The proposal after signing
+   */
+  approveProposal(proposalId: string): Promise<MultisigProposal>
+
+  /**
+   * Look up a proposal, including what it does and who has signed.
+   *
+   * @param proposalId - Hedera schedule ID / Safe transaction hash
+   */
+  getProposal(proposalId: string): Promise<MultisigProposal>
+
+  /**
+   * Proposals still waiting for signatures.
+   *
+   * @param params - Account (Hedera creator / Safe address) and limit
+   */
+  listProposals(params?: ListProposalsParams): Promise<MultisigProposal[]>
+
+  // ============================================================================
+  // SUBSCRIPTIONS (Capability-gated)
+  // ============================================================================
+
+  /**
+   * Stream on-chain events as an async iterator.
+   *
+   * Chain-specific implementations:
+   * - Hedera: Mirror node transactions and HCS topic messages
+   * - Ethereum/Base: eth_getLogs (ERC-20 Transfer or any event signature)
+   * - Solana: Account signature history (token balances for SPL transfers)
+   *
+   * Which kinds a chain offers follows from hasEventLogs / hasConsensusService
+   * (see ChainCapabilityDetector.getSubscriptionKinds). Failed polls are retried
+   * with backoff; pass an event's cursor back in to resume after it.
+   *
+   * @example
+   * for await (const event of adapter.subscribe({ kind: 'token-transfers', account })) {
+   *   console.log(event.from, event.to, event.amount)
+   * }
+   *
+   * @param params - Subscription parameters
+   * @returns Async iterator of events (ends when params.signal aborts)
+   * @throws {BlockchainError} if the kind is not supported on this chain
+   */
+  subscribe(params: SubscribeParams): AsyncIterableIterator<ChainEvent>
+
   // ============================================================================
   // CHAIN-SPECIFIC OPERATIONS (Optional)
   // ============================================================================
@@ -306,25 +665,157 @@ export abstract class BaseBlockchainAdapter implements BlockchainAdapter {
   protected _isConnected: boolean = false
   protected config?: BlockchainConfiguration
 
+  // RPC record/replay (set when config.replay is given)
+  protected recorder?: RpcRecorder
+
+  // RPC endpoint pool (set when several endpoints or a quorum are configured)
+  protected rpcPool?: RpcEndpointPool
+
   // Abstract methods that MUST be implemented by concrete adapters
   abstract initialize(config: BlockchainConfiguration): Promise<void>
   abstract disconnect(): Promise<void>
   abstract createToken(params: CreateTokenParams): Promise<TokenResult>
   abstract transferToken(params: TransferParams): Promise<TransactionResult>
   abstract getTokenBalance(params: BalanceParams): Promise<bigint>
+  abstract approveToken(params: ApproveParams): Promise<TransactionResult>
+  abstract getAllowance(params: AllowanceParams): Promise<bigint>
+  abstract transferFrom(params: TransferFromParams): Promise<TransactionResult>
   abstract createNFT(params: CreateNFTParams): Promise<NFTResult>
   abstract mintNFT(params: MintNFTParams): Promise<TransactionResult>
   abstract transferNFT(params: TransferNFTParams): Promise<TransactionResult>
+  abstract createMultiToken(params: CreateMultiTokenParams): Promise<MultiTokenResult>
+  abstract mintBatch(params: MintBatchParams): Promise<TransactionResult>
+  abstract transferBatch(params: TransferBatchParams): Promise<TransactionResult>
   abstract deployContract(params: DeployContractParams): Promise<ContractResult>
   abstract callContract(params: CallContractParams): Promise<any>
   abstract connectWallet(provider: WalletProvider): Promise<WalletConnection>
   abstract getBalance(address: string): Promise<bigint>
   abstract signTransaction(tx: Transaction): Promise<SignedTransaction>
+  abstract buildTransaction(tx: Transaction, options?: BuildTransactionOptions): Promise<UnsignedTransaction>
+  abstract broadcastTransaction(signed: SignedTransaction): Promise<TransactionResult>
   abstract getGasPrice(): Promise<GasPrice>
   abstract estimateFees(params: EstimateFeeParams): Promise<FeeEstimate>
+  abstract simulateTransaction(request: SimulationRequest): Promise<SimulationResult>
   abstract getTransactionStatus(txId: string): Promise<TransactionStatus>
   abstract getExplorerUrl(txId: string): string
 
+  // Token lifecycle defaults: adapters override what their chain supports.
+  // Chains without the capability get an UNSUPPORTED_OPERATION error.
+  async mintToken(params: MintTokenParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenMint', 'mintToken')
+  }
+
+  async burnToken(params: BurnTokenParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenBurn', 'burnToken')
+  }
+
+  async pauseToken(tokenId: string): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenPause', 'pauseToken')
+  }
+
+  async unpauseToken(tokenId: string): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenPause', 'unpauseToken')
+  }
+
+  async freezeAccount(params: TokenAccountParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenFreeze', 'freezeAccount')
+  }
+
+  async unfreezeAccount(params: TokenAccountParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenFreeze', 'unfreezeAccount')
+  }
+
+  async wipeToken(params: WipeTokenParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenWipe', 'wipeToken')
+  }
+
+  async grantKyc(params: TokenAccountParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenKyc', 'grantKyc')
+  }
+
+  async revokeKyc(params: TokenAccountParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasTokenKyc', 'revokeKyc')
+  }
+
+  async updateTokenFees(params: UpdateTokenFeesParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasRoyalties', 'updateTokenFees')
+  }
+
+  async associateToken(params: AssociateTokenParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasAccountAssociation', 'associateToken')
+  }
+
+  async dissociateToken(params: AssociateTokenParams): Promise<TransactionResult> {
+    return this.unsupportedTokenOperation('hasAccountAssociation', 'dissociateToken')
+  }
+
+  // Without association, every account can receive every token
+  async getTokenAssociation(params: TokenAccountParams): Promise<TokenAssociation> {
+    return { tokenId: params.tokenId, account: params.account, associated: true, canReceive: true }
+  }
+
+  // Multisig defaults: adapters override what their chain supports
+  async proposeTransaction(params: ProposeTransactionParams): Promise<MultisigProposal> {
+    return this.unsupportedTokenOperation('hasMultisig', 'proposeTransaction')
+  }
+
+  async approveProposal(proposalId: string): Promise<MultisigProposal> {
+    return this.unsupportedTokenOperation('hasMultisig', 'approveProposal')
+  }
+
+  async getProposal(proposalId: string): Promise<MultisigProposal> {
+    return this.unsupportedTokenOperation('hasMultisig', 'getProposal')
+  }
+
+  async listProposals(params?: ListProposalsParams): Promise<MultisigProposal[]> {
+    return this.unsupportedTokenOperation('hasMultisig', 'listProposals')
+  }
+
+  // Subscriptions: validation and polling are shared, adapters fetch pages
+  subscribe(params: SubscribeParams): AsyncIterableIterator<ChainEvent> {
+    this.ensureInitialized()
+
+    if (!ChainCapabilityDetector.supportsSubscription(this.chainId, params.kind)) {
+      throw new BlockchainError(
+        BlockchainErrorCode.UNSUPPORTED_OPERATION,
+        ChainCapabilityDetector.getUnsupportedSubscriptionMessage(this.chainId, params.kind),
+        { chain: this.chainId, kind: params.kind }
+      )
+    }
+
+    const required: Record<string, keyof SubscribeParams> = {
+      'account-changes': 'account',
+      'contract-events': 'contractAddress',
+      'topic-messages': 'topicId',
+    }
+    const field = required[params.kind]
+    if (params.kind === 'token-transfers' && !params.account && !params.tokenId) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_ADDRESS,
+        `'token-transfers' subscriptions require account or tokenId`,
+        { kind: params.kind }
+      )
+    }
+    if (field && !params[field]) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_ADDRESS,
+        `'${params.kind}' subscriptions require ${field}`,
+        { kind: params.kind }
+      )
+    }
+
+    return pollEvents(cursor => this.fetchEvents(params, cursor), params)
+  }
+
+  // Subscriptions: fetch the events after a cursor (undefined = start from now)
+  protected async fetchEvents(params: SubscribeParams, cursor: string | undefined): Promise<EventPage> {
+    throw new BlockchainError(
+      BlockchainErrorCode.UNSUPPORTED_OPERATION,
+      `subscribe is not implemented by the ${this.name} adapter`,
+      { chain: this.chainId, kind: params.kind }
+    )
+  }
+
   // Default implementation for chain-specific operations
   async executeChainSpecificOperation(operation: string, params: any): Promise<any> {
     throw new Error(
@@ -337,6 +828,37 @@ export abstract class BaseBlockchainAdapter implements BlockchainAdapter {
     return this._isConnected
   }
 
+  // Common helper: Start recording/replaying RPC traffic if configured
+  // (recordings go through the endpoint pool, so open the pool first)
+  protected async openRecorder(config: BlockchainConfiguration): Promise<void> {
+    this.recorder = config.replay
+      ? await RpcRecorder.open(config.replay, this.chainId, this.network, this.rpcPool?.fetch)
+      : undefined
+  }
+
+  // Common helper: Pool the RPC endpoints when there is more than one to fail over to
+  protected openRpcPool(urls: string[], config: BlockchainConfiguration): void {
+    const quorum = config.rpcPool?.quorum ?? 1
+    this.rpcPool = urls.length > 1 || quorum > 1
+      ? new RpcEndpointPool(urls, config.rpcPool)
+      : undefined
+  }
+
+  // Common helper: fetch for the SDKs (recorder, then pool; undefined = SDK default)
+  protected getRpcFetch(): typeof fetch | undefined {
+    return this.recorder?.fetch ?? this.rpcPool?.fetch
+  }
+
+  // Health of the pooled RPC endpoints
+  getRpcHealth(): RpcEndpointHealth[] {
+    return this.rpcPool?.getHealth() ?? []
+  }
+
+  // Common helper: Check if answers come from a fixture instead of the network
+  protected isReplaying(): boolean {
+    return this.recorder?.mode === 'replay'
+  }
+
   // Common helper: Validate initialization
   protected ensureInitialized(): void {
     if (!this._isConnected) {
@@ -347,9 +869,117 @@ export abstract class BaseBlockchainAdapter implements BlockchainAdapter {
   // Common helper: Validate capability
   protected ensureCapability(capability: keyof ChainCapabilities, operation: string): void {
     if (!this.capabilities[capability]) {
-      throw new Error(
-        `${this.name} does not support ${operation}. ` +
-        `Required capability: ${capability}`
+      throw new BlockchainError(
+        BlockchainErrorCode.UNSUPPORTED_OPERATION,
+        ChainCapabilityDetector.getUnsupportedMessage(this.chainId, capability, operation),
+        { chain: this.chainId, capability, operation }
+      )
+    }
+  }
+
+  // Common helper: Reject a lifecycle operation the adapter does not implement
+  protected unsupportedTokenOperation(capability: keyof ChainCapabilities, operation: string): never {
+    this.ensureCapability(capability, operation)
+    throw new BlockchainError(
+      BlockchainErrorCode.UNSUPPORTED_OPERATION,
+      `${operation} is not implemented by the ${this.name} adapter`,
+      { chain: this.chainId, capability, operation }
+    )
+  }
+
+  // Common helper: Fees of a new token or collection (royaltyPercentage becomes a royalty fee)
+  protected getCustomFees(params: CreateTokenParams | CreateNFTParams, defaultCollector: string): CustomFee[] {
+    const fees = [...(params.customFees || [])]
+    if ('royaltyPercentage' in params && params.royaltyPercentage) {
+      fees.push({
+        type: 'royalty',
+        basisPoints: Math.round(params.royaltyPercentage * 100),
+        collector: params.royaltyRecipient || defaultCollector,
+      })
+    }
+    return fees
+  }
+
+  // Common helper: Validate fee definitions; fixed and fractional fees need hasCustomFees
+  protected validateCustomFees(fees: CustomFee[], tokenType: 'fungible' | 'nft' | 'any', operation: string): void {
+    for (const fee of fees) {
+      if (fee.type !== 'royalty') {
+        this.ensureCapability('hasCustomFees', `${operation} with ${fee.type} fees`)
+      }
+
+      const invalid = (reason: string) => new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Invalid ${fee.type} fee: ${reason}`,
+        { fee }
+      )
+      if (!fee.collector) {
+        throw invalid('collector is required')
+      }
+      if (fee.type === 'fixed' && BigInt(fee.amount) <= 0n) {
+        throw invalid('amount must be positive')
+      }
+      if (fee.type !== 'fixed' && (!Number.isInteger(fee.basisPoints) || fee.basisPoints <= 0 || fee.basisPoints > 10000)) {
+        throw invalid(`basisPoints must be an integer from 1 to 10000 (got ${fee.basisPoints})`)
+      }
+      if (fee.type === 'fractional' && fee.minimum !== undefined && fee.maximum !== undefined
+        && BigInt(fee.minimum) > BigInt(fee.maximum)) {
+        throw invalid('minimum exceeds maximum')
+      }
+      if (fee.type === 'fractional' && tokenType === 'nft') {
+        throw invalid('fractional fees apply to fungible tokens')
+      }
+      if (fee.type === 'royalty' && tokenType === 'fungible') {
+        throw invalid('royalty fees apply to NFT collections')
+      }
+    }
+  }
+
+  // Common helper: The single royalty of a collection, for chains with one royalty receiver
+  protected getSingleRoyalty(fees: CustomFee[]): RoyaltyFee | undefined {
+    const royalties = fees.filter((fee): fee is RoyaltyFee => fee.type === 'royalty')
+    if (royalties.length > 1) {
+      throw new BlockchainError(
+        BlockchainErrorCode.UNSUPPORTED_OPERATION,
+        `${this.name} collections have one royalty receiver; got ${royalties.length} royalty fees`,
+        { chain: this.chainId }
+      )
+    }
+    return royalties[0]
+  }
+
+  // Common helper: Validate multi-token item definitions before creating anything
+  protected validateMultiTokenItems(params: CreateMultiTokenParams): void {
+    if (params.items.length === 0) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        'A multi-token collection needs at least one item'
+      )
+    }
+
+    const ids = new Set<number>()
+    for (const item of params.items) {
+      if (!Number.isInteger(item.id) || item.id < 0 || ids.has(item.id)) {
+        throw new BlockchainError(
+          BlockchainErrorCode.TRANSACTION_FAILED,
+          `Item IDs must be unique non-negative integers (got ${item.id} for ${item.name})`
+        )
+      }
+      if (!item.fungible && item.initialSupply !== undefined) {
+        throw new BlockchainError(
+          BlockchainErrorCode.TRANSACTION_FAILED,
+          `Unique item ${item.name} always has a supply of 1; remove its initialSupply`
+        )
+      }
+      ids.add(item.id)
+    }
+  }
+
+  // Common helper: Reject empty batches
+  protected ensureBatchItems(operation: string, items: MultiTokenAmount[]): void {
+    if (items.length === 0) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `${operation} needs at least one item`
       )
     }
   }
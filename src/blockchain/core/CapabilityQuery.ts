@@ -0,0 +1,402 @@
+/**
+ * Capability Queries
+ *
+ * Answers "which chains can do X, Y and Z?" from a comma-separated
+ * requirement list:
+ *
+ *   nft, multisig, finality<5s, predictable-fees
+ *
+ * - Features: any boolean capability in kebab case without the "has"
+ *   prefix (multisig, token-kyc, erc1155, ...), plus tokens, nft and
+ *   multi-token, which a token standard or a native token service meets.
+ *   Prefix a feature with ! to require its absence (!variable-gas)
+ * - Metrics: finality (s, ms, m), tps (k) and cost (USD per transaction),
+ *   compared with <, <=, >, >=, = or !=
+ * - Properties: contract-language and account-model, compared with = or !=
+ *
+ * Chains come from the ChainRegistry, so plugin chains are queried too.
+ * Every chain that misses a requirement is returned with the reasons.
+ *
+ * @example
+ * const result = CapabilityQuery.run('nft, multisig, finality<5s')
+ * result.matches.map(match => match.chain)   // ['solana', 'arbitrum', ...]
+ * result.excluded[0].failures
+ * // [{ requirement: 'finality<5s', reason: 'finality is 180s, needs <5s' }]
+ */
+
+import { SupportedChain } from './types'
+import { ChainCapabilities, ChainCapabilityDetector } from './ChainCapabilities'
+import { ChainInfo, ChainRegistry } from './ChainRegistry'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Numeric characteristics a query can compare
+ */
+export type CapabilityMetric = 'finality' | 'tps' | 'cost'
+
+/**
+ * Enumerated characteristics a query can match
+ */
+export type CapabilityProperty = 'contract-language' | 'account-model'
+
+export type CapabilityOperator = '<' | '<=' | '>' | '>=' | '=' | '!='
+
+/**
+ * One parsed entry of a capability query
+ */
+export type CapabilityRequirement =
+  | {
+      kind: 'feature'
+      text: string                               // As written in the query
+      feature: string                            // Normalized feature name
+      capabilities: Array<keyof ChainCapabilities> // Any one of these meets it
+      negated: boolean
+    }
+  | {
+      kind: 'metric'
+      text: string
+      metric: CapabilityMetric
+      operator: CapabilityOperator
+      value: number                              // Seconds, TPS or USD
+    }
+  | {
+      kind: 'property'
+      text: string
+      property: CapabilityProperty
+      operator: '=' | '!='
+      value: string
+    }
+
+/**
+ * Why a chain misses one requirement
+ */
+export interface RequirementFailure {
+  requirement: string
+  reason: string
+}
+
+/**
+ * A chain evaluated against a query
+ */
+export interface ChainQueryMatch {
+  chain: SupportedChain
+  displayName: string
+  finality: number       // Seconds
+  tps: number
+  cost: number           // USD per transaction
+  failures: RequirementFailure[]
+}
+
+export interface CapabilityQueryResult {
+  requirements: CapabilityRequirement[]
+  sortBy: CapabilityMetric
+  matches: ChainQueryMatch[]    // Chains meeting every requirement, best first
+  excluded: ChainQueryMatch[]   // Chains missing a requirement, closest first
+}
+
+export interface CapabilityQueryOptions {
+  chains?: SupportedChain[]     // Default: every registered chain
+  sortBy?: CapabilityMetric     // Default: the query's first metric, else finality
+}
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+/**
+ * Integration-level features, met by a token standard or a native token service
+ */
+const FEATURE_ALIASES: Record<string, { description: string; capabilities: Array<keyof ChainCapabilities> }> = {
+  tokens: { description: 'Fungible tokens', capabilities: ['hasERC20', 'hasNativeTokens'] },
+  nft: { description: 'NFTs', capabilities: ['hasERC721', 'hasNativeTokens'] },
+  'multi-token': { description: 'Multi-token collections', capabilities: ['hasERC1155', 'hasNativeTokens'] },
+}
+
+const METRICS: Record<CapabilityMetric, { label: string; ascending: boolean }> = {
+  finality: { label: 'finality', ascending: true },
+  tps: { label: 'throughput', ascending: false },
+  cost: { label: 'cost', ascending: true },
+}
+
+const PROPERTIES: Record<CapabilityProperty, 'contractLanguage' | 'accountModel'> = {
+  'contract-language': 'contractLanguage',
+  'account-model': 'accountModel',
+}
+
+const REQUIREMENT_PATTERN = /^(!?)([a-z0-9-]+)\s*(<=|>=|!=|<|>|=)?\s*(.*)$/i
+
+/**
+ * Boolean capability flags, keyed by their query name (hasMultisig -> multisig)
+ */
+function getCapabilityFlags(): Map<string, keyof ChainCapabilities> {
+  const capabilities = ChainCapabilityDetector.getCapabilities('hedera')
+  const flags = new Map<string, keyof ChainCapabilities>()
+
+  for (const [key, value] of Object.entries(capabilities)) {
+    if (typeof value !== 'boolean') continue
+    const name = key
+      .replace(/^has/, '')
+      .replace(/([a-z])([A-Z])/g, '$1-$2')
+      .toLowerCase()
+    flags.set(name, key as keyof ChainCapabilities)
+  }
+
+  return flags
+}
+
+// ============================================================================
+// CAPABILITY QUERY
+// ============================================================================
+
+export class CapabilityQuery {
+  /**
+   * Feature names a query accepts
+   */
+  static getFeatures(): string[] {
+    return [...Object.keys(FEATURE_ALIASES), ...getCapabilityFlags().keys()]
+  }
+
+  /**
+   * Parse a query into requirements.
+   * Accepts a comma-separated string or a list of requirements.
+   *
+   * @throws Error for unknown names, missing comparisons and invalid values
+   */
+  static parse(query: string | string[]): CapabilityRequirement[] {
+    const entries = (Array.isArray(query) ? query : [query])
+      .flatMap(part => part.split(','))
+      .map(part => part.trim())
+      .filter(Boolean)
+
+    return entries.map(entry => this.parseRequirement(entry))
+  }
+
+  /**
+   * Evaluate every registered chain (or options.chains) against a query
+   */
+  static run(query: string | string[], options: CapabilityQueryOptions = {}): CapabilityQueryResult {
+    const requirements = this.parse(query)
+    const sortBy = options.sortBy ?? this.getDefaultSort(requirements)
+
+    if (!METRICS[sortBy]) {
+      throw new Error(`Unknown sort metric '${sortBy}'. Use one of: ${Object.keys(METRICS).join(', ')}`)
+    }
+
+    const chains = options.chains
+      ? options.chains.map(chain => ChainRegistry.getChain(chain))
+      : ChainRegistry.getAllChains()
+
+    const evaluated = chains.map(info => this.evaluate(info, requirements))
+    const byMetric = (a: ChainQueryMatch, b: ChainQueryMatch) =>
+      METRICS[sortBy].ascending ? a[sortBy] - b[sortBy] : b[sortBy] - a[sortBy]
+
+    return {
+      requirements,
+      sortBy,
+      matches: evaluated
+        .filter(match => match.failures.length === 0)
+        .sort(byMetric),
+      excluded: evaluated
+        .filter(match => match.failures.length > 0)
+        .sort((a, b) => a.failures.length - b.failures.length || byMetric(a, b)),
+    }
+  }
+
+  /**
+   * Requirements a single chain misses (empty when it meets the query)
+   */
+  static check(chain: SupportedChain, query: string | string[]): RequirementFailure[] {
+    return this.evaluate(ChainRegistry.getChain(chain), this.parse(query)).failures
+  }
+
+  // ==========================================================================
+  // PARSING
+  // ==========================================================================
+
+  private static parseRequirement(text: string): CapabilityRequirement {
+    const parsed = REQUIREMENT_PATTERN.exec(text)
+    if (!parsed) {
+      throw new Error(`Invalid requirement '${text}'`)
+    }
+
+    const [, negation, rawName, operator, rawValue] = parsed
+    const name = rawName.toLowerCase()
+    const value = rawValue.trim()
+
+    if (name in METRICS) {
+      if (negation || !operator || !value) {
+        throw new Error(`Requirement '${text}' needs a comparison, e.g. ${name}${this.getExample(name as CapabilityMetric)}`)
+      }
+      return {
+        kind: 'metric',
+        text,
+        metric: name as CapabilityMetric,
+        operator: operator as CapabilityOperator,
+        value: this.parseMetricValue(name as CapabilityMetric, value, text),
+      }
+    }
+
+    if (name in PROPERTIES) {
+      if (negation || (operator !== '=' && operator !== '!=') || !value) {
+        throw new Error(`Requirement '${text}' needs = or != and a value, e.g. ${name}=${name === 'account-model' ? 'account-based' : 'solidity'}`)
+      }
+      return { kind: 'property', text, property: name as CapabilityProperty, operator, value: value.toLowerCase() }
+    }
+
+    const capabilities = this.resolveFeature(name)
+    if (!capabilities) {
+      throw new Error(
+        `Unknown capability '${rawName}'. ` +
+        `Features: ${this.getFeatures().join(', ')}. ` +
+        `Metrics: ${Object.keys(METRICS).join(', ')}. ` +
+        `Properties: ${Object.keys(PROPERTIES).join(', ')}`
+      )
+    }
+    if (operator || value) {
+      throw new Error(`Feature '${name}' takes no comparison; use '${name}' or '!${name}'`)
+    }
+
+    return { kind: 'feature', text, feature: name, capabilities, negated: negation === '!' }
+  }
+
+  /**
+   * Capability flags behind a feature name, or null when unknown.
+   * Raw capability keys (hasMultisig) are accepted too.
+   */
+  private static resolveFeature(name: string): Array<keyof ChainCapabilities> | null {
+    if (FEATURE_ALIASES[name]) {
+      return FEATURE_ALIASES[name].capabilities
+    }
+
+    const flags = getCapabilityFlags()
+    const flag = flags.get(name) ??
+      [...flags.values()].find(key => key.toLowerCase() === name)
+
+    return flag ? [flag] : null
+  }
+
+  private static parseMetricValue(metric: CapabilityMetric, value: string, text: string): number {
+    const patterns: Record<CapabilityMetric, RegExp> = {
+      finality: /^(\d+(?:\.\d+)?)\s*(ms|s|sec|m|min)?$/i,
+      tps: /^(\d+(?:\.\d+)?)\s*(k)?$/i,
+      cost: /^\$?(\d+(?:\.\d+)?)$/,
+    }
+    const parsed = patterns[metric].exec(value)
+    if (!parsed) {
+      throw new Error(`Invalid ${metric} value in '${text}', e.g. ${metric}${this.getExample(metric)}`)
+    }
+
+    const amount = parseFloat(parsed[1])
+    const unit = (parsed[2] ?? '').toLowerCase()
+
+    if (metric === 'finality') {
+      if (unit === 'ms') return amount / 1000
+      if (unit === 'm' || unit === 'min') return amount * 60
+      return amount
+    }
+    if (metric === 'tps' && unit === 'k') {
+      return amount * 1000
+    }
+    return amount
+  }
+
+  private static getExample(metric: CapabilityMetric): string {
+    return { finality: '<5s', tps: '>1000', cost: '<0.01' }[metric]
+  }
+
+  private static getDefaultSort(requirements: CapabilityRequirement[]): CapabilityMetric {
+    const metric = requirements.find(requirement => requirement.kind === 'metric')
+    return metric?.kind === 'metric' ? metric.metric : 'finality'
+  }
+
+  // ==========================================================================
+  // EVALUATION
+  // ==========================================================================
+
+  private static evaluate(info: ChainInfo, requirements: CapabilityRequirement[]): ChainQueryMatch {
+    const metrics: Record<CapabilityMetric, number> = {
+      finality: info.capabilities.averageFinalitySeconds,
+      tps: info.capabilities.averageTPS,
+      cost: info.estimatedCostPerTx.usd,
+    }
+
+    const failures = requirements.flatMap(requirement => {
+      const reason = this.getFailure(info, metrics, requirement)
+      return reason ? [{ requirement: requirement.text, reason }] : []
+    })
+
+    return {
+      chain: info.chain,
+      displayName: info.metadata.displayName,
+      ...metrics,
+      failures,
+    }
+  }
+
+  /**
+   * Why a chain misses a requirement, or null when it meets it
+   */
+  private static getFailure(
+    info: ChainInfo,
+    metrics: Record<CapabilityMetric, number>,
+    requirement: CapabilityRequirement
+  ): string | null {
+    switch (requirement.kind) {
+      case 'feature': {
+        const supported = requirement.capabilities.some(key => info.capabilities[key] === true)
+        if (supported !== requirement.negated) return null
+
+        const description = FEATURE_ALIASES[requirement.feature]?.description ??
+          ChainCapabilityDetector.getCapabilityDescription(requirement.capabilities[0])
+        return requirement.negated ? `${description} supported, but excluded` : `${description} not supported`
+      }
+
+      case 'metric': {
+        const actual = metrics[requirement.metric]
+        if (compare(actual, requirement.operator, requirement.value)) return null
+
+        const format = (value: number) => formatMetric(requirement.metric, value)
+        return `${METRICS[requirement.metric].label} is ${format(actual)}, ` +
+          `needs ${requirement.operator}${format(requirement.value)}`
+      }
+
+      case 'property': {
+        const actual = String(info.capabilities[PROPERTIES[requirement.property]] ?? 'none').toLowerCase()
+        const equal = actual === requirement.value
+        if (equal === (requirement.operator === '=')) return null
+
+        const label = requirement.property.replace('-', ' ')
+        return `${label} is ${actual}, needs ${requirement.operator}${requirement.value}`
+      }
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function compare(actual: number, operator: CapabilityOperator, expected: number): boolean {
+  switch (operator) {
+    case '<': return actual < expected
+    case '<=': return actual <= expected
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+    case '=': return actual === expected
+    case '!=': return actual !== expected
+  }
+}
+
+/**
+ * Format a metric value for display (180s, 65,000 TPS, $0.0001)
+ */
+export function formatMetric(metric: CapabilityMetric, value: number): string {
+  switch (metric) {
+    case 'finality': return `${value}s`
+    case 'tps': return `${value.toLocaleString('en-US')} TPS`
+    case 'cost': return `$${value}`
+  }
+}
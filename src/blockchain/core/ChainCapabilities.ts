@@ -8,7 +8,8 @@
  * 3. Make intelligent recommendations based on required capabilities
  */
 
-import { SupportedChain } from './types'
+import { SupportedChain, SubscriptionKind } from './types'
+import { EvmChainDescriptor, EVM_CHAIN_DESCRIPTORS } from './EvmChains'
 
 /**
  * Capability flags for blockchain features.
@@ -46,6 +47,10 @@ export interface ChainCapabilities {
   hasTokenPause: boolean
   hasTokenBurn: boolean
   hasTokenMint: boolean
+  hasTokenWipe: boolean            // Hedera wipe key
+  hasTokenKyc: boolean             // Hedera KYC key
+  hasCustomFees: boolean           // Fixed / fractional transfer fees (HTS custom fees)
+  hasRoyalties: boolean            // NFT royalties (HTS, EIP-2981, Metaplex)
 
   // Network features
   hasPredictableFees: boolean      // Hedera (fixed fees)
@@ -117,6 +122,10 @@ export const CHAIN_CAPABILITIES: Record<SupportedChain, ChainCapabilities> = {
     hasTokenPause: true,
     hasTokenBurn: true,
     hasTokenMint: true,
+    hasTokenWipe: true,
+    hasTokenKyc: true,
+    hasCustomFees: true,
+    hasRoyalties: true,
 
     // Network features
     hasPredictableFees: true,
@@ -159,6 +168,10 @@ export const CHAIN_CAPABILITIES: Record<SupportedChain, ChainCapabilities> = {
     hasTokenPause: false,       // Depends on smart contract implementation
     hasTokenBurn: true,
     hasTokenMint: true,
+    hasTokenWipe: false,
+    hasTokenKyc: false,
+    hasCustomFees: false,
+    hasRoyalties: true,
 
     // Network features
     hasPredictableFees: false,
@@ -201,6 +214,10 @@ export const CHAIN_CAPABILITIES: Record<SupportedChain, ChainCapabilities> = {
     hasTokenPause: false,
     hasTokenBurn: true,
     hasTokenMint: true,
+    hasTokenWipe: false,
+    hasTokenKyc: false,
+    hasCustomFees: false,
+    hasRoyalties: true,
 
     // Network features
     hasPredictableFees: false,
@@ -243,6 +260,10 @@ export const CHAIN_CAPABILITIES: Record<SupportedChain, ChainCapabilities> = {
     hasTokenPause: false,
     hasTokenBurn: true,
     hasTokenMint: true,
+    hasTokenWipe: false,
+    hasTokenKyc: false,
+    hasCustomFees: false,
+    hasRoyalties: true,
 
     // Network features
     hasPredictableFees: false,
@@ -252,6 +273,210 @@ export const CHAIN_CAPABILITIES: Record<SupportedChain, ChainCapabilities> = {
     hasAccountCreation: false,
     hasAccountAssociation: false,
   },
+
+  polygon: {
+    // Token standards (EVM)
+    hasNativeTokens: false,
+    hasERC20: true,
+    hasERC721: true,
+    hasERC1155: true,
+
+    // Smart contracts
+    hasSmartContracts: true,
+    contractLanguage: 'solidity',
+
+    // Consensus
+    hasConsensusService: false,
+    hasEventLogs: true,
+
+    // Account model
+    accountModel: 'account-based',
+
+    // Performance (PoS sidechain)
+    averageTPS: 700,
+    averageFinalitySeconds: 5,
+
+    // Advanced features
+    hasStaking: true,            // POL staking on Ethereum
+    hasGovernance: true,
+    hasMultisig: true,
+
+    // Token features
+    hasTokenFreeze: false,
+    hasTokenPause: false,
+    hasTokenBurn: true,
+    hasTokenMint: true,
+    hasTokenWipe: false,
+    hasTokenKyc: false,
+    hasCustomFees: false,
+    hasRoyalties: true,
+
+    // Network features
+    hasPredictableFees: false,
+    hasVariableGas: true,
+
+    // Account features
+    hasAccountCreation: false,
+    hasAccountAssociation: false,
+  },
+
+  arbitrum: {
+    // Token standards (EVM)
+    hasNativeTokens: false,
+    hasERC20: true,
+    hasERC721: true,
+    hasERC1155: true,
+
+    // Smart contracts
+    hasSmartContracts: true,
+    contractLanguage: 'solidity',
+
+    // Consensus
+    hasConsensusService: false,
+    hasEventLogs: true,
+
+    // Account model
+    accountModel: 'account-based',
+
+    // Performance (Optimistic rollup)
+    averageTPS: 4000,
+    averageFinalitySeconds: 1,   // Soft finality from the sequencer
+
+    // Advanced features
+    hasStaking: false,           // L2 doesn't have native staking
+    hasGovernance: true,
+    hasMultisig: true,
+
+    // Token features
+    hasTokenFreeze: false,
+    hasTokenPause: false,
+    hasTokenBurn: true,
+    hasTokenMint: true,
+    hasTokenWipe: false,
+    hasTokenKyc: false,
+    hasCustomFees: false,
+    hasRoyalties: true,
+
+    // Network features
+    hasPredictableFees: false,
+    hasVariableGas: true,
+
+    // Account features
+    hasAccountCreation: false,
+    hasAccountAssociation: false,
+  },
+
+  optimism: {
+    // Token standards (EVM)
+    hasNativeTokens: false,
+    hasERC20: true,
+    hasERC721: true,
+    hasERC1155: true,
+
+    // Smart contracts
+    hasSmartContracts: true,
+    contractLanguage: 'solidity',
+
+    // Consensus
+    hasConsensusService: false,
+    hasEventLogs: true,
+
+    // Account model
+    accountModel: 'account-based',
+
+    // Performance (OP Stack rollup)
+    averageTPS: 2000,
+    averageFinalitySeconds: 2,
+
+    // Advanced features
+    hasStaking: false,           // L2 doesn't have native staking
+    hasGovernance: true,
+    hasMultisig: true,
+
+    // Token features
+    hasTokenFreeze: false,
+    hasTokenPause: false,
+    hasTokenBurn: true,
+    hasTokenMint: true,
+    hasTokenWipe: false,
+    hasTokenKyc: false,
+    hasCustomFees: false,
+    hasRoyalties: true,
+
+    // Network features
+    hasPredictableFees: false,
+    hasVariableGas: true,
+
+    // Account features
+    hasAccountCreation: false,
+    hasAccountAssociation: false,
+  },
+
+  avalanche: {
+    // Token standards (EVM)
+    hasNativeTokens: false,
+    hasERC20: true,
+    hasERC721: true,
+    hasERC1155: true,
+
+    // Smart contracts
+    hasSmartContracts: true,
+    contractLanguage: 'solidity',
+
+    // Consensus
+    hasConsensusService: false,
+    hasEventLogs: true,
+
+    // Account model
+    accountModel: 'account-based',
+
+    // Performance (Snowman consensus)
+    averageTPS: 4500,
+    averageFinalitySeconds: 1,
+
+    // Advanced features
+    hasStaking: true,            // AVAX validator staking
+    hasGovernance: true,
+    hasMultisig: true,
+
+    // Token features
+    hasTokenFreeze: false,
+    hasTokenPause: false,
+    hasTokenBurn: true,
+    hasTokenMint: true,
+    hasTokenWipe: false,
+    hasTokenKyc: false,
+    hasCustomFees: false,
+    hasRoyalties: true,
+
+    // Network features
+    hasPredictableFees: false,
+    hasVariableGas: true,
+
+    // Account features
+    hasAccountCreation: false,
+    hasAccountAssociation: false,
+  },
+}
+
+/**
+ * Build chain metadata for an EVM chain from its descriptor.
+ */
+export function createEvmChainMetadata(
+  descriptor: EvmChainDescriptor,
+  description: string
+): ChainMetadata {
+  return {
+    id: descriptor.chain,
+    name: descriptor.chain,
+    displayName: descriptor.displayName,
+    description,
+    nativeToken: descriptor.nativeCurrency.symbol,
+    explorerUrl: descriptor.explorerUrl,
+    rpcUrls: descriptor.rpcUrls,
+    chainId: descriptor.chainIds,
+    documentation: descriptor.documentation || 'https://ethereum.org/developers',
+  }
 }
 
 /**
@@ -343,6 +568,26 @@ export const CHAIN_METADATA: Record<SupportedChain, ChainMetadata> = {
     },
     documentation: 'https://docs.base.org',
   },
+
+  polygon: createEvmChainMetadata(
+    EVM_CHAIN_DESCRIPTORS.polygon!,
+    'EVM-compatible PoS chain with low fees and a large consumer app ecosystem'
+  ),
+
+  arbitrum: createEvmChainMetadata(
+    EVM_CHAIN_DESCRIPTORS.arbitrum!,
+    'Ethereum optimistic rollup with the deepest L2 DeFi liquidity'
+  ),
+
+  optimism: createEvmChainMetadata(
+    EVM_CHAIN_DESCRIPTORS.optimism!,
+    'Ethereum optimistic rollup built on the OP Stack (Superchain)'
+  ),
+
+  avalanche: createEvmChainMetadata(
+    EVM_CHAIN_DESCRIPTORS.avalanche!,
+    'Avalanche C-Chain: EVM-compatible L1 with sub-second finality'
+  ),
 }
 
 /**
@@ -363,6 +608,18 @@ export class ChainCapabilityDetector {
     return CHAIN_METADATA[chain]
   }
 
+  /**
+   * Add a chain without a built-in entry (see ChainPlugins.register).
+   */
+  static registerChain(
+    chain: SupportedChain,
+    capabilities: ChainCapabilities,
+    metadata: ChainMetadata
+  ): void {
+    CHAIN_CAPABILITIES[chain] = capabilities
+    CHAIN_METADATA[chain] = metadata
+  }
+
   /**
    * Check if a chain supports a specific capability.
    */
@@ -402,13 +659,86 @@ export class ChainCapabilityDetector {
       hasMultisig: 'Multi-signature wallets',
       hasTokenFreeze: 'Ability to freeze token accounts',
       hasTokenPause: 'Ability to pause token operations',
+      hasTokenMint: 'Ability to mint additional token supply',
+      hasTokenBurn: 'Ability to burn token supply',
+      hasTokenWipe: 'Ability to wipe tokens from an account',
+      hasTokenKyc: 'Ability to grant and revoke token KYC',
+      hasCustomFees: 'Fixed and fractional fees on token transfers',
+      hasRoyalties: 'NFT royalties',
       hasPredictableFees: 'Fixed, predictable transaction fees',
       hasVariableGas: 'Variable gas fees based on network demand',
+      hasAccountCreation: 'On-chain account creation',
+      hasAccountAssociation: 'Token association before receiving tokens',
     }
 
     return descriptions[capability] || capability
   }
 
+  /**
+   * Explain why an operation is unavailable on a chain and where it is.
+   * Used for UNSUPPORTED_OPERATION errors.
+   *
+   * @example
+   * getUnsupportedMessage('ethereum', 'hasTokenPause', 'pauseToken')
+   * // "Ethereum does not support pauseToken (Ability to pause token operations). Supported on: Hedera"
+   */
+  static getUnsupportedMessage(
+    chain: SupportedChain,
+    capability: keyof ChainCapabilities,
+    operation: string
+  ): string {
+    const name = CHAIN_METADATA[chain]?.displayName || chain
+    const alternatives = this.findChainsByCapability(capability)
+      .map(alternative => CHAIN_METADATA[alternative].displayName)
+
+    return `${name} does not support ${operation} (${this.getCapabilityDescription(capability)}). ` +
+      (alternatives.length > 0
+        ? `Supported on: ${alternatives.join(', ')}`
+        : 'No supported chain offers this capability')
+  }
+
+  /**
+   * Subscription kinds a chain can stream (see BlockchainAdapter.subscribe).
+   *
+   * - token-transfers: event logs (ERC-20 Transfer) or a native token service
+   * - contract-events: event logs only
+   * - topic-messages: consensus service only
+   * - account-changes: chains without event logs, where account history is the feed
+   */
+  static getSubscriptionKinds(chain: SupportedChain): SubscriptionKind[] {
+    const caps = CHAIN_CAPABILITIES[chain]
+    const kinds: SubscriptionKind[] = []
+
+    if (caps.hasEventLogs || caps.hasNativeTokens) kinds.push('token-transfers')
+    if (caps.hasEventLogs) kinds.push('contract-events')
+    if (caps.hasConsensusService) kinds.push('topic-messages')
+    if (!caps.hasEventLogs) kinds.push('account-changes')
+
+    return kinds
+  }
+
+  /**
+   * Check whether a chain can stream a subscription kind.
+   */
+  static supportsSubscription(chain: SupportedChain, kind: SubscriptionKind): boolean {
+    return this.getSubscriptionKinds(chain).includes(kind)
+  }
+
+  /**
+   * Explain why a subscription kind is unavailable on a chain and where it is.
+   */
+  static getUnsupportedSubscriptionMessage(chain: SupportedChain, kind: SubscriptionKind): string {
+    const name = CHAIN_METADATA[chain]?.displayName || chain
+    const alternatives = (Object.keys(CHAIN_CAPABILITIES) as SupportedChain[])
+      .filter(alternative => this.supportsSubscription(alternative, kind))
+      .map(alternative => CHAIN_METADATA[alternative].displayName)
+
+    return `${name} does not support '${kind}' subscriptions. ` +
+      (alternatives.length > 0
+        ? `Supported on: ${alternatives.join(', ')}`
+        : 'No supported chain offers this subscription')
+  }
+
   /**
    * Compare performance metrics across chains.
    */
@@ -0,0 +1,735 @@
+/**
+ * Chain Migration
+ *
+ * Moves a project's integration from one chain to another (`apix migrate`):
+ * - Files bound to the source chain are the ones importing its SDK packages
+ *   (or generated by an earlier migration to it). The features each uses are
+ *   found through FeatureMapper: a file uses a feature when it contains the
+ *   source chain's implementation (e.g. TokenCreateTransaction for HTS)
+ * - Every feature with an equivalent on the target chain is regenerated as a
+ *   module over the target's BlockchainAdapter, in lib/<target>/
+ * - The chain's environment variables are renamed and its SDK packages
+ *   swapped in package.json. The source chain's variables, packages and
+ *   files are only retired with removeSource, and only once nothing left in
+ *   the project uses them
+ * - A report lists what was regenerated, features without an equivalent
+ *   and files to port by hand
+ *
+ *   const migrator = new ChainMigrator(process.cwd())
+ *   const plan = await migrator.plan('hedera', 'base')
+ *   await migrator.apply(plan)      // Report: .apix/migration-hedera-to-base.md
+ */
+
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { SupportedChain, IntegrationType } from './types'
+import { BlockchainAdapter } from './BlockchainAdapter'
+import { ChainRegistry } from './ChainRegistry'
+import { ChainPlugins } from './ChainPlugin'
+import { isEvmChain } from './EvmChains'
+import { FeatureEquivalent, FeatureMapper } from './FeatureMapper'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What a chain environment variable holds, to rename it across chains.
+ */
+export type ChainEnvRole = 'accountId' | 'privateKey' | 'keyType' | 'network' | 'rpcUrl' | 'mirrorNodeUrl'
+
+/**
+ * An environment variable a chain's adapter is configured from.
+ */
+export interface ChainEnvVar {
+  name: string
+  role?: ChainEnvRole
+  field: string               // ChainCredentials field, customConfig.<key> or config.<key> (BlockchainConfiguration)
+}
+
+/**
+ * A feature of the source chain found in the project.
+ */
+export interface MigrationFeature {
+  integrationType: IntegrationType
+  source: FeatureEquivalent
+  target: FeatureEquivalent | null
+  files: string[]             // Project files using it
+  output?: string             // Regenerated module (none: no equivalent)
+  suggestion: string          // FeatureMapper.getSuggestion
+}
+
+/**
+ * A project file bound to the source chain.
+ */
+export interface MigrationFile {
+  path: string                // Relative to the project, with forward slashes
+  features: IntegrationType[]
+  regenerated: boolean        // Every feature it uses has a regenerated module
+  remove: boolean             // Deleted by apply (removeSource)
+}
+
+/**
+ * A chain environment variable in one of the project's env files.
+ */
+export interface EnvRewrite {
+  file: string                // e.g. .env.local
+  from: string
+  to?: string                 // Target variable (none: no equivalent)
+  keepValue: boolean          // Carry the value over (network names); keys and endpoints are not
+  retire: boolean             // Comment the source variable out
+}
+
+/**
+ * package.json changes.
+ */
+export interface DependencyChanges {
+  add: string[]
+  remove: string[]
+  keep: Array<{ name: string; usedBy: string[] }>  // Source packages still imported
+}
+
+/**
+ * Everything a migration changes, computed before anything is written.
+ */
+export interface MigrationPlan {
+  from: SupportedChain
+  to: SupportedChain
+  files: MigrationFile[]
+  features: MigrationFeature[]
+  generated: Array<{ path: string; content: string }>
+  env: EnvRewrite[]
+  dependencies: DependencyChanges
+  report: string              // Where apply writes the report
+}
+
+/**
+ * Outcome of applying a plan.
+ */
+export interface MigrationResult {
+  written: string[]
+  skipped: string[]           // Existing files apix migrate did not generate (left alone)
+  removed: string[]
+  report: string
+}
+
+/**
+ * Chain migrator options.
+ */
+export interface ChainMigratorOptions {
+  importFrom?: string         // Module the regenerated code imports the adapters from
+}
+
+/**
+ * Plan options.
+ */
+export interface MigrationPlanOptions {
+  removeSource?: boolean      // Retire source files, variables and packages nothing else uses
+}
+
+export const MIGRATION_HEADER = 'Generated by `apix migrate`'
+
+const DEFAULT_IMPORT = 'apix-ai/dist/blockchain/core'
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'])
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', '.next', '.apix', 'dist', 'build', 'out', 'coverage'])
+const ENV_FILES = ['.env', '.env.local', '.env.example']
+const ENV_LINE = /^(export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=(.*)$/
+const HEADER_PATTERN = /Generated by `apix migrate` for ([a-z][a-z0-9-]*)(?:: ([a-z-]+))?\./
+
+// Adapter methods each regenerated feature module wraps
+const FEATURE_OPERATIONS: Record<IntegrationType, Array<keyof BlockchainAdapter>> = {
+  token: ['createToken', 'transferToken', 'getTokenBalance', 'mintToken', 'burnToken', 'approveToken', 'getAllowance', 'transferFrom'],
+  nft: ['createNFT', 'mintNFT', 'transferNFT'],
+  'multi-token': ['createMultiToken', 'mintBatch', 'transferBatch'],
+  'smart-contract': ['deployContract', 'callContract'],
+  consensus: ['subscribe'],
+  wallet: ['connectWallet', 'getBalance'],
+  defi: [],
+}
+
+// ============================================================================
+// CHAIN MIGRATOR
+// ============================================================================
+
+/**
+ * Plans and applies chain migrations for a project.
+ */
+export class ChainMigrator {
+  private importFrom: string
+
+  constructor(private projectPath: string, options: ChainMigratorOptions = {}) {
+    this.importFrom = options.importFrom || DEFAULT_IMPORT
+  }
+
+  /**
+   * Work out a migration without writing anything.
+   *
+   * @param from - Chain the project uses
+   * @param to - Chain to move it to
+   * @throws {Error} for unknown chains or a migration to the same chain
+   */
+  async plan(from: SupportedChain, to: SupportedChain, options: MigrationPlanOptions = {}): Promise<MigrationPlan> {
+    for (const chain of [from, to]) {
+      if (!ChainRegistry.hasChain(chain)) {
+        throw new Error(`Unknown chain '${chain}'`)
+      }
+    }
+    if (from === to) {
+      throw new Error(`Nothing to migrate: source and target are both '${from}'`)
+    }
+
+    const sourcePackages = ChainRegistry.getChain(from).sdkPackages
+    const projectFiles = await this.scan(this.projectPath)
+    const outDir = `lib/${to}`
+    const features = new Map<IntegrationType, MigrationFeature>()
+    const bound: Array<{ path: string; features: IntegrationType[]; migrated: boolean }> = []
+
+    for (const file of projectFiles) {
+      const header = HEADER_PATTERN.exec(file.content)
+      const migrated = header?.[1] === from
+      if (!migrated && !sourcePackages.some(name => importsPackage(file.content, name))) continue
+
+      const types = migrated
+        ? (header?.[2] ? [header[2] as IntegrationType] : [])
+        : detectFeatures(file.content, from)
+      for (const integrationType of types) {
+        const feature = features.get(integrationType) || this.planFeature(integrationType, from, to, outDir)
+        feature?.files.push(file.path)
+        if (feature) features.set(integrationType, feature)
+      }
+      bound.push({ path: file.path, features: types.filter(type => features.has(type)), migrated })
+    }
+
+    const files: MigrationFile[] = bound.map(file => {
+      const regenerated = file.features.length > 0
+        ? file.features.every(type => features.get(type)?.output)
+        : file.migrated
+      return { path: file.path, features: file.features, regenerated, remove: regenerated && !!options.removeSource }
+    })
+    const kept = projectFiles.filter(file => !files.some(migrated => migrated.remove && migrated.path === file.path))
+    const regenerated = Array.from(features.values()).filter(feature => feature.output)
+
+    return {
+      from,
+      to,
+      files,
+      features: Array.from(features.values()),
+      generated: regenerated.length === 0 ? [] : [
+        { path: `${outDir}/adapter.ts`, content: generateAdapterModule(to, this.importFrom) },
+        ...regenerated.map(feature => ({
+          path: feature.output!,
+          content: generateFeatureModule(feature, from, to, this.importFrom),
+        })),
+      ],
+      env: await this.planEnv(from, to, kept, !!options.removeSource),
+      dependencies: await this.planDependencies(from, to, kept, regenerated.length > 0),
+      report: `.apix/migration-${from}-to-${to}.md`,
+    }
+  }
+
+  /**
+   * Write a plan: regenerated modules, removed files, env files,
+   * package.json and the report. A source file is only removed when the
+   * modules replacing it were all written; one whose module was skipped
+   * stays, with the variables and packages it uses.
+   */
+  async apply(plan: MigrationPlan): Promise<MigrationResult> {
+    const result: MigrationResult = { written: [], skipped: [], removed: [], report: plan.report }
+
+    for (const file of plan.generated) {
+      const fullPath = path.join(this.projectPath, file.path)
+      const existing = await fs.readFile(fullPath, 'utf8').catch(() => undefined)
+      if (existing !== undefined && !existing.includes(MIGRATION_HEADER)) {
+        result.skipped.push(file.path)
+        continue
+      }
+      await fs.mkdir(path.dirname(fullPath), { recursive: true })
+      await fs.writeFile(fullPath, file.content, 'utf8')
+      result.written.push(file.path)
+    }
+
+    plan = await this.retainUnreplaced(plan, result.skipped)
+
+    for (const file of plan.files.filter(file => file.remove)) {
+      const fullPath = path.join(this.projectPath, file.path)
+      await fs.rm(fullPath, { force: true })
+      result.removed.push(file.path)
+      // Drop the source chain's directory once it is empty (e.g. lib/hedera)
+      if (path.dirname(fullPath) !== this.projectPath) {
+        await fs.rmdir(path.dirname(fullPath)).catch(() => undefined)
+      }
+    }
+
+    for (const envFile of new Set(plan.env.map(rewrite => rewrite.file))) {
+      await this.rewriteEnvFile(envFile, plan.env.filter(rewrite => rewrite.file === envFile))
+    }
+
+    const { add, remove } = plan.dependencies
+    if (add.length > 0 || remove.length > 0) {
+      const packagePath = path.join(this.projectPath, 'package.json')
+      const packageJson = JSON.parse(await fs.readFile(packagePath, 'utf8'))
+      packageJson.dependencies = packageJson.dependencies || {}
+      for (const name of add) {
+        packageJson.dependencies[name] = 'latest'
+      }
+      for (const name of remove) {
+        delete packageJson.dependencies[name]
+        delete packageJson.devDependencies?.[name]
+      }
+      await fs.writeFile(packagePath, JSON.stringify(packageJson, null, 2) + '\n', 'utf8')
+    }
+
+    const reportPath = path.join(this.projectPath, plan.report)
+    await fs.mkdir(path.dirname(reportPath), { recursive: true })
+    await fs.writeFile(reportPath, formatMigrationReport(plan, result), 'utf8')
+
+    return result
+  }
+
+  /**
+   * Keep the source files whose regenerated modules were skipped, and the
+   * env variables and packages they still use.
+   */
+  private async retainUnreplaced(plan: MigrationPlan, skipped: string[]): Promise<MigrationPlan> {
+    const outputs = new Map(plan.features.map(feature => [feature.integrationType, feature.output]))
+    const retained: Array<{ path: string; content: string }> = []
+    for (const file of plan.files) {
+      if (file.remove && file.features.some(type => skipped.includes(outputs.get(type)!))) {
+        retained.push({ path: file.path, content: await fs.readFile(path.join(this.projectPath, file.path), 'utf8') })
+      }
+    }
+    if (retained.length === 0) return plan
+
+    const usedBy = (name: string) => retained.filter(file => importsPackage(file.content, name)).map(file => file.path)
+    const { add, remove, keep } = plan.dependencies
+    return {
+      ...plan,
+      files: plan.files.map(file => retained.some(kept => kept.path === file.path) ? { ...file, remove: false } : file),
+      env: plan.env.map(rewrite => rewrite.retire && retained.some(file => file.content.includes(rewrite.from))
+        ? { ...rewrite, retire: false }
+        : rewrite),
+      dependencies: {
+        add,
+        remove: remove.filter(name => usedBy(name).length === 0),
+        keep: [
+          ...keep.map(({ name, usedBy: users }) => ({ name, usedBy: [...new Set([...users, ...usedBy(name)])].sort() })),
+          ...remove.filter(name => usedBy(name).length > 0).map(name => ({ name, usedBy: usedBy(name) })),
+        ],
+      },
+    }
+  }
+
+  /**
+   * Map one source feature to the target chain.
+   */
+  private planFeature(
+    integrationType: IntegrationType,
+    from: SupportedChain,
+    to: SupportedChain,
+    outDir: string
+  ): MigrationFeature | undefined {
+    const source = FeatureMapper.getImplementation(integrationType, from)
+    if (!source) return undefined
+
+    const target = FeatureMapper.getImplementation(integrationType, to)
+    return {
+      integrationType,
+      source,
+      target,
+      files: [],
+      output: target && FEATURE_OPERATIONS[integrationType].length > 0
+        ? `${outDir}/${integrationType}-operations.ts`
+        : undefined,
+      suggestion: FeatureMapper.getSuggestion(from, to, integrationType),
+    }
+  }
+
+  /**
+   * Find the source chain's variables in the project's env files.
+   */
+  private async planEnv(
+    from: SupportedChain,
+    to: SupportedChain,
+    kept: Array<{ path: string; content: string }>,
+    removeSource: boolean
+  ): Promise<EnvRewrite[]> {
+    const sourceVars = getChainEnvVars(from)
+    const targetVars = getChainEnvVars(to)
+    const rewrites: EnvRewrite[] = []
+
+    for (const file of ENV_FILES) {
+      const content = await fs.readFile(path.join(this.projectPath, file), 'utf8').catch(() => undefined)
+      if (content === undefined) continue
+
+      for (const line of content.split(/\r?\n/)) {
+        const name = ENV_LINE.exec(line)?.[2]
+        const prefix = name?.startsWith('NEXT_PUBLIC_') ? 'NEXT_PUBLIC_' : ''
+        const variable = name && sourceVars.find(candidate => prefix + candidate.name === name)
+        if (!name || !variable || rewrites.some(rewrite => rewrite.file === file && rewrite.from === name)) continue
+
+        const target = variable.role && targetVars.find(candidate => candidate.role === variable.role)
+        rewrites.push({
+          file,
+          from: name,
+          to: target ? prefix + target.name : undefined,
+          keepValue: variable.role === 'network',
+          retire: removeSource && !kept.some(keptFile => keptFile.content.includes(name)),
+        })
+      }
+    }
+
+    return rewrites
+  }
+
+  /**
+   * Swap the source chain's SDK packages for the target's.
+   */
+  private async planDependencies(
+    from: SupportedChain,
+    to: SupportedChain,
+    kept: Array<{ path: string; content: string }>,
+    regenerated: boolean
+  ): Promise<DependencyChanges> {
+    const changes: DependencyChanges = { add: [], remove: [], keep: [] }
+    const packageJson = await fs.readFile(path.join(this.projectPath, 'package.json'), 'utf8')
+      .then(content => JSON.parse(content))
+      .catch(() => undefined)
+    if (!packageJson) return changes
+
+    const listed = new Set([
+      ...Object.keys(packageJson.dependencies || {}),
+      ...Object.keys(packageJson.devDependencies || {}),
+    ])
+    const targetPackages = ChainRegistry.getChain(to).sdkPackages
+    const runtimePackage = this.importFrom.startsWith('.')
+      ? []
+      : [this.importFrom.split('/').slice(0, this.importFrom.startsWith('@') ? 2 : 1).join('/')]
+
+    if (regenerated) {
+      changes.add = [...targetPackages, ...runtimePackage].filter(name => !listed.has(name))
+    }
+    for (const name of ChainRegistry.getChain(from).sdkPackages) {
+      if (!listed.has(name) || targetPackages.includes(name)) continue
+
+      const usedBy = kept.filter(file => importsPackage(file.content, name)).map(file => file.path)
+      if (usedBy.length > 0) {
+        changes.keep.push({ name, usedBy })
+      } else {
+        changes.remove.push(name)
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Add the target variables next to the source ones, commenting out
+   * the retired ones.
+   */
+  private async rewriteEnvFile(file: string, rewrites: EnvRewrite[]): Promise<void> {
+    const filePath = path.join(this.projectPath, file)
+    const content = await fs.readFile(filePath, 'utf8')
+    const eol = content.includes('\r\n') ? '\r\n' : '\n'
+    const lines = content.split(/\r?\n/)
+    const defined = new Set(lines.map(line => ENV_LINE.exec(line)?.[2]))
+    const output: string[] = []
+
+    for (const line of lines) {
+      const match = ENV_LINE.exec(line)
+      const rewrite = match && rewrites.find(candidate => candidate.from === match[2])
+      if (!match || !rewrite) {
+        output.push(line)
+        continue
+      }
+
+      output.push(rewrite.retire ? `# ${line}` : line)
+      if (rewrite.to && !defined.has(rewrite.to)) {
+        output.push(`${match[1] || ''}${rewrite.to}=${rewrite.keepValue ? match[3] : ''}`)
+        defined.add(rewrite.to)
+      }
+    }
+
+    await fs.writeFile(filePath, output.join(eol), 'utf8')
+  }
+
+  /**
+   * Read the project's source files.
+   */
+  private async scan(directory: string): Promise<Array<{ path: string; content: string }>> {
+    const files: Array<{ path: string; content: string }> = []
+
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const fullPath = path.join(directory, entry.name)
+      if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        files.push(...await this.scan(fullPath))
+      } else if (entry.isFile() && SOURCE_EXTENSIONS.has(path.extname(entry.name))) {
+        files.push({
+          path: path.relative(this.projectPath, fullPath).split(path.sep).join('/'),
+          content: await fs.readFile(fullPath, 'utf8'),
+        })
+      }
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path))
+  }
+}
+
+// ============================================================================
+// ENVIRONMENT
+// ============================================================================
+
+/**
+ * Environment variables a chain's adapter is configured from (the names
+ * `apix` credential setup writes), plus <CHAIN>_NETWORK.
+ */
+export function getChainEnvVars(chain: SupportedChain): ChainEnvVar[] {
+  const prefix = chain === 'ethereum' ? 'ETH' : chain.toUpperCase().replace(/-/g, '_')
+  const network: ChainEnvVar = { name: `${prefix}_NETWORK`, role: 'network', field: 'config.network' }
+  const spec = ChainPlugins.get(chain)?.credentials
+
+  if (chain === 'hedera') {
+    return [
+      { name: 'HEDERA_ACCOUNT_ID', role: 'accountId', field: 'accountId' },
+      { name: 'HEDERA_PRIVATE_KEY', role: 'privateKey', field: 'privateKey' },
+      { name: 'HEDERA_KEY_TYPE', role: 'keyType', field: 'keyType' },
+      network,
+      { name: 'HEDERA_MIRROR_NODE_URL', role: 'mirrorNodeUrl', field: 'config.mirrorNodeUrl' },
+    ]
+  }
+  if (spec) {
+    const roles: Record<string, ChainEnvRole> = {
+      accountId: 'accountId',
+      privateKey: 'privateKey',
+      privateKeyEVM: 'privateKey',
+      privateKeySolana: 'privateKey',
+      keyType: 'keyType',
+      'customConfig.rpcUrl': 'rpcUrl',
+    }
+    return [...spec.env.map(variable => ({ name: variable.name, role: roles[variable.field], field: variable.field })), network]
+  }
+  if (chain === 'solana' || isEvmChain(chain)) {
+    return [
+      { name: `${prefix}_PRIVATE_KEY`, role: 'privateKey', field: chain === 'solana' ? 'privateKeySolana' : 'privateKeyEVM' },
+      { name: `${prefix}_RPC_URL`, role: 'rpcUrl', field: 'config.rpcUrl' },
+      network,
+    ]
+  }
+  return [network]
+}
+
+// ============================================================================
+// FEATURE DETECTION
+// ============================================================================
+
+/**
+ * Features of a chain a file uses: the identifiers of the chain's
+ * implementation (any of its "or" alternatives), or its standard when the
+ * implementation names none.
+ */
+function detectFeatures(content: string, chain: SupportedChain): IntegrationType[] {
+  const normalized = normalize(content)
+
+  return FeatureMapper.getIntegrationTypes().filter(integrationType => {
+    const implementation = FeatureMapper.getImplementation(integrationType, chain)
+    if (!implementation) return false
+
+    const alternatives = implementation.implementation.split(/\s+or\s+/)
+      .map(identifiers)
+      .filter(names => names.length > 0)
+    if (alternatives.length === 0) {
+      return !!implementation.standard && normalized.includes(normalize(implementation.standard))
+    }
+    return alternatives.some(names => names.every(name => containsWord(content, name)))
+  })
+}
+
+/**
+ * Code identifiers in an implementation description: CamelCase names,
+ * CONSTANT_CASE names and scoped packages.
+ */
+function identifiers(text: string): string[] {
+  return text.match(/@[a-z0-9-]+\/[a-z0-9-]+|\b[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]+)+\b|\b[A-Z]+(?:_[A-Z]+)+\b/g) || []
+}
+
+function containsWord(content: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+  return new RegExp(`(?<![\\w$@])${escaped}(?![\\w$])`).test(content)
+}
+
+function importsPackage(content: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+  return new RegExp(`(?:from\\s+|require\\(\\s*|import\\(\\s*|import\\s+)['"]${escaped}(?:/[^'"]*)?['"]`).test(content)
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// ============================================================================
+// CODE GENERATION
+// ============================================================================
+
+/**
+ * The shared adapter module of a target chain, configured from its
+ * environment variables.
+ */
+function generateAdapterModule(chain: SupportedChain, importFrom: string): string {
+  const variables = getChainEnvVars(chain)
+  const network = variables.find(variable => variable.role === 'network')!
+  const credentials = variables.filter(variable => !variable.field.startsWith('config.') && !variable.field.startsWith('customConfig.'))
+  const customConfig = variables.filter(variable => variable.field.startsWith('customConfig.'))
+  const config = variables.filter(variable => variable.field.startsWith('config.') && variable !== network)
+  const chainLiteral = ChainPlugins.get(chain) ? `'${chain}' as SupportedChain` : `'${chain}'`
+  const value = (variable: ChainEnvVar) => variable.field === 'keyType'
+    ? `process.env.${variable.name} as 'ED25519' | 'ECDSA' | undefined`
+    : `process.env.${variable.name}`
+
+  const credentialLines = credentials.map(variable => `      ${variable.field}: ${value(variable)},`)
+  if (customConfig.length > 0) {
+    credentialLines.push(
+      '      customConfig: {',
+      ...customConfig.map(variable => `        ${variable.field.slice('customConfig.'.length)}: ${value(variable)},`),
+      '      },'
+    )
+  }
+  if (chain === 'hedera' || chain === 'solana' || isEvmChain(chain)) {
+    credentialLines.push(
+      '      mnemonic: process.env.MNEMONIC,',
+      '      mnemonicPassphrase: process.env.MNEMONIC_PASSPHRASE,',
+      '      accountIndex: process.env.MNEMONIC_ACCOUNT_INDEX ? Number(process.env.MNEMONIC_ACCOUNT_INDEX) : undefined,'
+    )
+  }
+
+  return [
+    `// ${MIGRATION_HEADER} for ${chain}. Regenerate instead of editing.`,
+    `import { AdapterFactory, BlockchainAdapter, NetworkType${ChainPlugins.get(chain) ? ', SupportedChain' : ''} } from '${importFrom}';`,
+    '',
+    'let adapter: Promise<BlockchainAdapter> | undefined;',
+    '',
+    '/**',
+    ` * ${ChainRegistry.getChain(chain).metadata.displayName} adapter, configured from the environment on first use.`,
+    ' */',
+    'export function getAdapter(): Promise<BlockchainAdapter> {',
+    '  if (!adapter) {',
+    `    adapter = AdapterFactory.createAdapter(${chainLiteral}, {`,
+    `      chain: ${chainLiteral},`,
+    `      network: (process.env.${network.name} || 'testnet') as NetworkType,`,
+    '      credentials: {',
+    ...credentialLines.map(line => `  ${line}`),
+    '      },',
+    ...config.map(variable => `      ${variable.field.slice('config.'.length)}: ${value(variable)},`),
+    '    });',
+    '  }',
+    '  return adapter;',
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * A regenerated feature: the target adapter's operations for it.
+ */
+function generateFeatureModule(
+  feature: MigrationFeature,
+  from: SupportedChain,
+  to: SupportedChain,
+  importFrom: string
+): string {
+  const target = feature.target!
+  const fromName = ChainRegistry.getChain(from).metadata.displayName
+  const toName = ChainRegistry.getChain(to).metadata.displayName
+  const limitations = target.limitations || []
+
+  return [
+    `// ${MIGRATION_HEADER} for ${to}: ${feature.integrationType}. Regenerate instead of editing.`,
+    `import { BlockchainAdapter } from '${importFrom}';`,
+    `import { getAdapter } from './adapter';`,
+    '',
+    '/*',
+    ` * ${target.feature} on ${toName}, replacing ${feature.source.feature} on ${fromName}`,
+    ` * (${Math.round(target.similarity * 100)}% similar). ${target.notes}`,
+    ...(limitations.length > 0 ? [' *', ' * Limitations:', ...limitations.map(limitation => ` * - ${limitation}`)] : []),
+    ' */',
+    '',
+    ...FEATURE_OPERATIONS[feature.integrationType].flatMap(method => [
+      `export async function ${method}(...args: Parameters<BlockchainAdapter['${method}']>) {`,
+      `  return (await getAdapter()).${method}(...args);`,
+      '}',
+      '',
+    ]),
+  ].join('\n')
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Markdown report of a migration.
+ *
+ * @param plan - The plan
+ * @param result - What apply did (omit for a dry run)
+ */
+export function formatMigrationReport(plan: MigrationPlan, result?: MigrationResult): string {
+  const fromName = ChainRegistry.getChain(plan.from).metadata.displayName
+  const toName = ChainRegistry.getChain(plan.to).metadata.displayName
+  const regenerated = plan.features.filter(feature => feature.output)
+  const unmatched = plan.features.filter(feature => !feature.output)
+  const skipped = new Set(result?.skipped)
+  const lines = [
+    `# Migration from ${fromName} to ${toName}`,
+    '',
+    `\`apix migrate --from ${plan.from} --to ${plan.to}\`${result ? '' : ' (dry run)'}: ` +
+      `${regenerated.length} of ${plan.features.length} features regenerated, ${plan.files.length} files bound to ${fromName}.`,
+    '',
+    '## Regenerated features',
+    '',
+  ]
+
+  for (const feature of regenerated) {
+    const note = skipped.has(feature.output!) ? ' (not written: the file exists and was not generated by apix migrate)' : ''
+    lines.push(
+      `- **${feature.integrationType}**: ${feature.source.feature} → ${feature.target!.feature}, ` +
+      `${Math.round(feature.target!.similarity * 100)}% similar → \`${feature.output}\`${note}`,
+      ...(feature.target!.limitations || []).map(limitation => `  - ${limitation}`)
+    )
+  }
+  if (regenerated.length === 0) lines.push('None.')
+
+  lines.push('', '## Features without an equivalent', '')
+  for (const feature of unmatched) {
+    lines.push(`- **${feature.integrationType}** (${feature.source.feature}): ${feature.suggestion}. Used by ${feature.files.map(file => `\`${file}\``).join(', ')}`)
+  }
+  if (unmatched.length === 0) lines.push('None.')
+
+  lines.push('', '## Files', '')
+  for (const file of plan.files) {
+    const features = file.features.length > 0 ? ` (${file.features.join(', ')})` : ''
+    const status = file.remove ? 'regenerated, removed'
+      : file.regenerated ? `regenerated; point its imports at \`lib/${plan.to}\`, then delete it`
+      : file.features.length > 0 ? `partly without an equivalent on ${toName}; port the rest by hand`
+      : 'no mapped feature; port by hand'
+    lines.push(`- \`${file.path}\`${features}: ${status}`)
+  }
+  if (plan.files.length === 0) lines.push(`No files import ${fromName} SDK packages.`)
+
+  lines.push('', '## Environment', '')
+  for (const rewrite of plan.env) {
+    const change = !rewrite.to ? `no ${toName} equivalent`
+      : rewrite.keepValue ? `→ \`${rewrite.to}\` (value kept)`
+      : `→ \`${rewrite.to}\` (set a ${toName} value)`
+    lines.push(`- \`${rewrite.file}\`: \`${rewrite.from}\` ${change}${rewrite.retire ? ', commented out' : ''}`)
+  }
+  if (plan.env.length === 0) lines.push(`No ${fromName} variables in ${ENV_FILES.join(', ')}.`)
+
+  const { add, remove, keep } = plan.dependencies
+  lines.push('', '## Dependencies', '')
+  if (add.length > 0) lines.push(`- Added: ${add.map(name => `\`${name}\``).join(', ')}`)
+  if (remove.length > 0) lines.push(`- Removed: ${remove.map(name => `\`${name}\``).join(', ')}`)
+  for (const { name, usedBy } of keep) {
+    lines.push(`- Kept \`${name}\`: still imported by ${usedBy.map(file => `\`${file}\``).join(', ')}`)
+  }
+  if (add.length + remove.length + keep.length === 0) lines.push('No changes.')
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,261 @@
+/**
+ * Chain Plugins
+ *
+ * Adds a blockchain without forking APIX. A plugin is a module that exports
+ * what a built-in chain declares across the core tables: its adapter,
+ * capabilities, metadata, ranking scores, feature mappings and wallets.
+ * ChainPlugins.register() puts each part next to the built-in entries, so
+ * AdapterFactory, ChainRegistry, ChainRankingEngine, FeatureMapper and
+ * WalletServiceFactory treat the chain like any other.
+ *
+ * The CLI registers the modules listed in .apix/config.json at startup:
+ *
+ *   { "plugins": ["@acme/apix-chain-ledger", "./plugins/ledger.js"] }
+ */
+
+import * as path from 'path'
+import { SupportedChain, IntegrationType, NetworkType, ChainCredentials, WalletProvider } from './types'
+import { BlockchainAdapter } from './BlockchainAdapter'
+import { AdapterFactory } from './AdapterFactory'
+import { ChainCapabilities, ChainMetadata, ChainCapabilityDetector, CHAIN_CAPABILITIES } from './ChainCapabilities'
+import { ChainInfo, ChainRegistry } from './ChainRegistry'
+import { ChainRankingEngine, SdkSupport, UseCase, UseCaseDetails } from './ChainRankingEngine'
+import { EvmChainDescriptor, EVM_CHAIN_DESCRIPTORS } from './EvmChains'
+import { FeatureEquivalent, FeatureMapper } from './FeatureMapper'
+import { WalletMetadata, WalletServiceFactory } from '../wallets/WalletService'
+
+/**
+ * Version of the plugin contract. Plugins built for a newer one are rejected.
+ */
+export const CHAIN_PLUGIN_API_VERSION = 1
+
+/**
+ * Everything APIX needs to support a chain it does not ship with.
+ */
+export interface ChainPlugin {
+  chain: string                // Lowercase ID, e.g. 'acme-ledger'
+  apiVersion?: number          // CHAIN_PLUGIN_API_VERSION the plugin was written for (default 1)
+  createAdapter?: () => BlockchainAdapter | Promise<BlockchainAdapter>  // Required without evm
+  evm?: Omit<EvmChainDescriptor, 'chain'>  // EVM-compatible chains can run on EvmAdapter
+  capabilities: ChainCapabilities
+  metadata: Omit<ChainMetadata, 'id'>
+  status?: ChainInfo['status'] // Default 'beta'
+  sdkPackages?: string[]       // Packages the adapter needs (install hints)
+  estimatedCostPerTx: ChainInfo['estimatedCostPerTx']
+  ranking: {
+    scores: Record<UseCase, number>                       // 0-100
+    details?: Partial<Record<UseCase, UseCaseDetails>>    // Default: generic, from metadata
+    sdkSupport?: Partial<SdkSupport>
+  }
+  featureMappings?: Partial<Record<IntegrationType, Omit<FeatureEquivalent, 'chain'>>>  // EVM chains inherit Ethereum's
+  wallets?: string[]           // Built-in providers or ones described in walletMetadata (EVM default: Ethereum's)
+  walletMetadata?: Record<string, WalletMetadata>
+  credentials?: ChainPluginCredentials  // Credential setup (EVM default: <CHAIN>_PRIVATE_KEY)
+}
+
+/**
+ * An environment variable holding a credential.
+ */
+export interface ChainPluginEnvVar {
+  name: string                 // e.g. ACME_PRIVATE_KEY
+  field: string                // ChainCredentials field, or customConfig.<key>
+  required?: boolean
+  secret?: boolean             // Masked when prompted
+  description?: string         // Prompt text
+}
+
+/**
+ * How `apix` sets up and checks credentials for a plugin chain.
+ */
+export interface ChainPluginCredentials {
+  name: string                 // Where to get credentials, e.g. 'Acme Ledger Console'
+  url: string
+  description: string
+  env: ChainPluginEnvVar[]
+  validate?(credentials: ChainCredentials, network: NetworkType): Promise<{
+    valid: boolean
+    error?: string
+    accountInfo?: Record<string, string>
+  }>
+}
+
+/**
+ * Outcome of loading plugin modules.
+ */
+export interface ChainPluginLoadResult {
+  loaded: ChainPlugin[]
+  failed: Array<{ module: string; error: string }>
+}
+
+/**
+ * Registry of chain plugins.
+ */
+export class ChainPlugins {
+  private static plugins: Map<SupportedChain, ChainPlugin> = new Map()
+
+  /**
+   * Register a chain plugin with every core table.
+   *
+   * @param plugin - The plugin
+   * @throws {Error} if the plugin is incomplete, targets a newer API or its chain exists
+   */
+  static register(plugin: ChainPlugin): void {
+    this.validate(plugin)
+
+    const chain = plugin.chain as SupportedChain
+    const evm = plugin.evm ? { ...plugin.evm, chain } : undefined
+    const metadata = { ...plugin.metadata, id: chain }
+
+    if (evm) {
+      EVM_CHAIN_DESCRIPTORS[chain] = evm
+    }
+    ChainCapabilityDetector.registerChain(chain, plugin.capabilities, metadata)
+    ChainRegistry.registerChain({
+      chain,
+      metadata,
+      capabilities: plugin.capabilities,
+      evm,
+      status: plugin.status || 'beta',
+      sdkPackages: plugin.sdkPackages || (evm ? ['ethers'] : []),
+      estimatedCostPerTx: plugin.estimatedCostPerTx,
+    })
+    if (plugin.createAdapter) {
+      AdapterFactory.registerAdapter(chain, plugin.createAdapter)
+    }
+    ChainRankingEngine.registerChain(chain, plugin.ranking.scores, plugin.ranking.details, plugin.ranking.sdkSupport)
+    FeatureMapper.registerChain(chain, plugin.featureMappings || {}, evm)
+    WalletServiceFactory.registerWallets(
+      chain,
+      (plugin.wallets || (evm ? WalletServiceFactory.getSupportedWallets('ethereum') : [])) as WalletProvider[],
+      plugin.walletMetadata
+    )
+
+    this.plugins.set(chain, plugin)
+  }
+
+  /**
+   * Load plugin modules and register what they export: a plugin or an
+   * array of plugins, as the default export or as `plugin` / `plugins`.
+   * Package names resolve from the project, relative paths against it.
+   * A module that fails is reported and skipped.
+   *
+   * @param modules - Package names or paths (the "plugins" of .apix/config.json)
+   * @param projectPath - Project root (default: the working directory)
+   * @returns Registered plugins and failed modules
+   */
+  static async load(modules: string[], projectPath: string = process.cwd()): Promise<ChainPluginLoadResult> {
+    const result: ChainPluginLoadResult = { loaded: [], failed: [] }
+
+    for (const specifier of modules) {
+      try {
+        const request = specifier.startsWith('.') ? path.resolve(projectPath, specifier) : specifier
+        const loaded = await import(require.resolve(request, { paths: [projectPath] }))
+        const exported = loaded.plugins ?? loaded.plugin ?? loaded.default ?? loaded
+
+        for (const plugin of Array.isArray(exported) ? exported : [exported]) {
+          this.register(plugin)
+          result.loaded.push(plugin)
+        }
+      } catch (error: any) {
+        result.failed.push({ module: specifier, error: error.message })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Get the plugin that registered a chain (undefined for built-in chains).
+   */
+  static get(chain: SupportedChain): ChainPlugin | undefined {
+    return this.plugins.get(chain)
+  }
+
+  /**
+   * Get all registered plugins.
+   */
+  static getAll(): ChainPlugin[] {
+    return Array.from(this.plugins.values())
+  }
+
+  /**
+   * Check a plugin before any table is touched.
+   */
+  private static validate(plugin: ChainPlugin): void {
+    const chain = plugin?.chain
+
+    if (typeof chain !== 'string' || !/^[a-z][a-z0-9-]*$/.test(chain)) {
+      throw new Error(`Invalid chain plugin ID '${chain}': use lowercase letters, digits and dashes`)
+    }
+    if ((plugin.apiVersion ?? 1) > CHAIN_PLUGIN_API_VERSION) {
+      throw new Error(
+        `Chain plugin '${chain}' needs plugin API v${plugin.apiVersion}; ` +
+        `this APIX supports v${CHAIN_PLUGIN_API_VERSION}. Update apix-ai to use it`
+      )
+    }
+    if (ChainRegistry.hasChain(chain as SupportedChain)) {
+      throw new Error(`Chain '${chain}' is already registered`)
+    }
+    if (!plugin.createAdapter && !plugin.evm) {
+      throw new Error(`Chain plugin '${chain}' needs createAdapter or an evm descriptor`)
+    }
+
+    const missing = [
+      ...(['capabilities', 'metadata', 'estimatedCostPerTx', 'ranking'] as const)
+        .filter(field => !plugin[field]),
+      ...Object.keys(CHAIN_CAPABILITIES.ethereum)
+        .filter(capability => plugin.capabilities && !(capability in plugin.capabilities))
+        .map(capability => `capabilities.${capability}`),
+      ...ChainRankingEngine.getUseCases()
+        .filter(useCase => plugin.ranking && typeof plugin.ranking.scores?.[useCase] !== 'number')
+        .map(useCase => `ranking.scores.${useCase}`),
+    ]
+    if (missing.length > 0) {
+      throw new Error(`Chain plugin '${chain}' is missing ${missing.join(', ')}`)
+    }
+  }
+}
+
+/**
+ * Read a plugin chain's credentials from environment variables.
+ */
+export function credentialsFromEnv(
+  spec: ChainPluginCredentials,
+  env: Record<string, string | undefined>
+): ChainCredentials {
+  const credentials: ChainCredentials = {}
+
+  for (const variable of spec.env) {
+    const value = env[variable.name]
+    if (value === undefined || value === '') continue
+
+    if (variable.field.startsWith('customConfig.')) {
+      credentials.customConfig = { ...credentials.customConfig, [variable.field.slice('customConfig.'.length)]: value }
+    } else {
+      (credentials as Record<string, any>)[variable.field] = value
+    }
+  }
+
+  return credentials
+}
+
+/**
+ * Map a plugin chain's credentials back to environment variables.
+ */
+export function credentialsToEnv(
+  spec: ChainPluginCredentials,
+  credentials: ChainCredentials
+): Record<string, string> {
+  const env: Record<string, string> = {}
+
+  for (const variable of spec.env) {
+    const value = variable.field.startsWith('customConfig.')
+      ? credentials.customConfig?.[variable.field.slice('customConfig.'.length)]
+      : (credentials as Record<string, any>)[variable.field]
+    if (value !== undefined && value !== '') {
+      env[variable.name] = String(value)
+    }
+  }
+
+  return env
+}
@@ -5,8 +5,12 @@
  * Provides personalized recommendations with specific reasons.
  */
 
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import { SupportedChain } from './types';
 import { ChainRegistry } from './ChainRegistry';
+import { ChainCapabilityDetector } from './ChainCapabilities';
+import { CostProjection, formatCostRange, formatUsd } from './CostModel';
 
 // Use case categories
 export type UseCase =
@@ -28,9 +32,39 @@ export interface ChainRanking {
   headline: string;           // Short tagline for this use case
   reasons: string[];          // Why this chain for this use case
   considerations: string[];   // Things to be aware of
-  estimatedCost: string;      // Cost estimate for this use case
+  estimatedCost: string;      // Cost estimate for this use case (monthly projection when costs are given)
   contextBonus?: number;      // Bonus/penalty from project context
   contextReasons?: string[];  // Why context affected the score
+  breakdown: CriterionScore[]; // How each weighted criterion contributed to the score
+  profile: string;            // Name of the ranking profile used
+}
+
+// Built-in ranking criteria (profiles may add their own)
+export type RankingCriterion =
+  | 'useCase'     // Use case fit (the scoring matrix below)
+  | 'cost'        // Transaction fees
+  | 'finality'    // Time to finality
+  | 'compliance'  // Native compliance controls
+  | 'ecosystem'   // Tooling, wallets, liquidity, developers
+  | 'expertise';  // In-house experience (rated by the profile)
+
+// One criterion's part in a chain's score
+export interface CriterionScore {
+  criterion: string;
+  label: string;
+  score: number;              // 0-100
+  weight: number;             // Share of the total weight (0-1)
+  points: number;             // score x weight
+  detail: string;             // Where the score comes from
+}
+
+// Organisation-specific ranking model, usually loaded from a JSON file
+export interface RankingProfile {
+  name?: string;
+  description?: string;
+  weights: Record<string, number>;                                      // Criterion -> relative weight
+  scores?: Record<string, Partial<Record<SupportedChain, number>>>;     // Criterion -> chain -> score (0-100), overriding built-in scores
+  contextBonus?: boolean;     // Apply the project context bonus (default true)
 }
 
 // Project context for smart ranking
@@ -40,6 +74,21 @@ export interface ProjectContext {
   dependencies?: string[];    // List of dependency names
 }
 
+// Why a chain suits a use case
+export interface UseCaseDetails {
+  headline: string;
+  reasons: string[];
+  considerations: string[];
+  costEstimate: string;
+}
+
+// SDK support for a chain (drives the project context bonus)
+export interface SdkSupport {
+  frameworks: Record<string, number>;
+  languages: Record<string, number>;
+  relatedDeps: Record<string, { bonus: number; reason: string }>;
+}
+
 // Scoring matrix: chain -> use case -> score (0-100)
 const CHAIN_USE_CASE_SCORES: Record<SupportedChain, Record<UseCase, number>> = {
   hedera: {
@@ -81,16 +130,51 @@ const CHAIN_USE_CASE_SCORES: Record<SupportedChain, Record<UseCase, number>> = {
     gaming: 80,      // Good balance of speed/cost
     social: 85,      // Good for social apps
     other: 80
+  },
+  polygon: {
+    tokens: 85,      // ERC-20, very low fees
+    nfts: 85,        // Large consumer NFT ecosystem
+    payments: 85,    // Cheap, widely supported stablecoins
+    defi: 80,        // Mature DeFi (Aave, Uniswap, QuickSwap)
+    enterprise: 75,  // Many brand partnerships
+    gaming: 85,      // Low fees, many web3 games
+    social: 85,      // Cheap micro-transactions
+    other: 80
+  },
+  arbitrum: {
+    tokens: 85,      // ERC-20 compatible, low fees
+    nfts: 70,        // Smaller NFT ecosystem
+    payments: 80,    // Cheap, fast soft confirmations
+    defi: 92,        // Largest L2 DeFi ecosystem
+    enterprise: 65,  // Less enterprise focus
+    gaming: 75,      // Fast, Orbit chains for games
+    social: 70,      // OK for micro-tx
+    other: 80
+  },
+  optimism: {
+    tokens: 85,      // ERC-20 compatible, low fees
+    nfts: 75,        // Growing NFT ecosystem
+    payments: 85,    // Cheap, Superchain interop
+    defi: 85,        // Established DeFi (Velodrome, Synthetix)
+    enterprise: 65,  // Less enterprise focus
+    gaming: 70,      // Decent speed/cost
+    social: 85,      // Farcaster and social apps
+    other: 80
+  },
+  avalanche: {
+    tokens: 85,      // ERC-20 compatible, fast finality
+    nfts: 75,        // Moderate NFT ecosystem
+    payments: 80,    // Sub-second finality
+    defi: 85,        // Established DeFi (Trader Joe, Aave)
+    enterprise: 85,  // Institutional L1s, permissioning
+    gaming: 85,      // Dedicated gaming L1s
+    social: 65,      // Smaller social ecosystem
+    other: 80
   }
 };
 
 // Use-case-specific descriptions for each chain
-const CHAIN_USE_CASE_DETAILS: Record<SupportedChain, Record<UseCase, {
-  headline: string;
-  reasons: string[];
-  considerations: string[];
-  costEstimate: string;
-}>> = {
+const CHAIN_USE_CASE_DETAILS: Record<SupportedChain, Record<UseCase, UseCaseDetails>> = {
   hedera: {
     tokens: {
       headline: 'Native token service with lowest fees',
@@ -539,16 +623,456 @@ const CHAIN_USE_CASE_DETAILS: Record<SupportedChain, Record<UseCase, {
       ],
       costEstimate: '$0.01-0.05 per transaction'
     }
+  },
+  polygon: {
+    tokens: {
+      headline: 'Low-cost ERC-20 tokens',
+      reasons: [
+        'ERC-20 standard with fees under a cent',
+        'Same contracts and tooling as Ethereum',
+        'Widely supported by wallets and exchanges'
+      ],
+      considerations: [
+        'Gas paid in POL, not ETH',
+        'Occasional fee spikes during congestion'
+      ],
+      costEstimate: '$0.001-0.01 per transaction'
+    },
+    nfts: {
+      headline: 'Consumer NFTs at scale',
+      reasons: [
+        'Used by major brands for NFT drops',
+        'OpenSea and major marketplaces supported',
+        'Minting costs a fraction of Ethereum'
+      ],
+      considerations: [
+        'Collections valued lower than on Ethereum',
+        'Bridging needed to reach L1 liquidity'
+      ],
+      costEstimate: '$0.01-0.05 per mint'
+    },
+    payments: {
+      headline: 'Cheap stablecoin payments',
+      reasons: [
+        'Native USDC with low transfer fees',
+        'Fast block times (~2 seconds)',
+        'Broad wallet and exchange support'
+      ],
+      considerations: [
+        'Finality takes several seconds',
+        'Users need POL for gas'
+      ],
+      costEstimate: '$0.001-0.01 per transaction'
+    },
+    defi: {
+      headline: 'Mature, low-fee DeFi',
+      reasons: [
+        'Aave, Uniswap and Curve deployments',
+        'Low fees for frequent interactions',
+        'Ethereum-compatible tooling'
+      ],
+      considerations: [
+        'Less liquidity than Ethereum or Arbitrum',
+        'PoS sidechain security model'
+      ],
+      costEstimate: '$0.01-0.05 per swap'
+    },
+    enterprise: {
+      headline: 'Brand-friendly EVM chain',
+      reasons: [
+        'Track record of enterprise partnerships',
+        'Polygon CDK for dedicated chains',
+        'Predictable low costs'
+      ],
+      considerations: [
+        'No built-in compliance features',
+        'Fees vary with demand'
+      ],
+      costEstimate: '$0.001-0.01 per transaction'
+    },
+    gaming: {
+      headline: 'Low-cost EVM gaming',
+      reasons: [
+        'Many live web3 games',
+        'Cheap in-game item transactions',
+        'Ethereum-compatible assets'
+      ],
+      considerations: [
+        'Slower than Solana',
+        'Finality is not instant'
+      ],
+      costEstimate: '$0.001-0.005 per action'
+    },
+    social: {
+      headline: 'Cheap micro-transactions',
+      reasons: [
+        'Fees low enough for tipping',
+        'Large consumer user base',
+        'Familiar EVM wallets'
+      ],
+      considerations: [
+        'Users need POL for gas',
+        'Fee spikes during busy periods'
+      ],
+      costEstimate: '$0.001-0.005 per action'
+    },
+    other: {
+      headline: 'Low-cost general purpose EVM chain',
+      reasons: [
+        'Full EVM compatibility',
+        'Low fees',
+        'Large developer ecosystem'
+      ],
+      considerations: [
+        'Sidechain security trade-offs'
+      ],
+      costEstimate: '$0.001-0.01 per transaction'
+    }
+  },
+  arbitrum: {
+    tokens: {
+      headline: 'ERC-20 on the largest L2',
+      reasons: [
+        'Ethereum security via optimistic rollup',
+        'Fees 10-50x lower than Ethereum L1',
+        'Same contracts and tooling as Ethereum'
+      ],
+      considerations: [
+        '7-day withdrawal period to Ethereum',
+        'Sequencer is currently centralized'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    },
+    nfts: {
+      headline: 'Low-cost Ethereum NFTs',
+      reasons: [
+        'Cheap minting with Ethereum security',
+        'Supported by major marketplaces',
+        'Ethereum-compatible contracts'
+      ],
+      considerations: [
+        'Smaller NFT community than Ethereum or Solana',
+        'Bridging delays for L1 collectors'
+      ],
+      costEstimate: '$0.02-0.10 per mint'
+    },
+    payments: {
+      headline: 'Fast, cheap L2 payments',
+      reasons: [
+        'Native USDC support',
+        'Near-instant sequencer confirmations',
+        'Low fees'
+      ],
+      considerations: [
+        'Gas paid in ETH',
+        'Hard finality depends on Ethereum'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    },
+    defi: {
+      headline: 'Leading L2 DeFi ecosystem',
+      reasons: [
+        'Deepest L2 liquidity (GMX, Uniswap, Aave)',
+        'Ethereum security with low fees',
+        'Full EVM compatibility'
+      ],
+      considerations: [
+        '7-day withdrawal period to Ethereum',
+        'Sequencer centralization'
+      ],
+      costEstimate: '$0.05-0.30 per swap'
+    },
+    enterprise: {
+      headline: 'Ethereum-secured L2',
+      reasons: [
+        'Inherits Ethereum security',
+        'Orbit chains for dedicated deployments',
+        'Proven at scale'
+      ],
+      considerations: [
+        'No built-in compliance features',
+        'Variable fees'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    },
+    gaming: {
+      headline: 'Fast L2 for games',
+      reasons: [
+        'Quick sequencer confirmations',
+        'Orbit chains tailored for games',
+        'Low fees'
+      ],
+      considerations: [
+        'Fees higher than Solana/Hedera',
+        'Gas paid in ETH'
+      ],
+      costEstimate: '$0.01-0.03 per action'
+    },
+    social: {
+      headline: 'Cheap L2 interactions',
+      reasons: [
+        'Low fees for frequent actions',
+        'Large user base',
+        'Ethereum-compatible wallets'
+      ],
+      considerations: [
+        'Smaller social ecosystem',
+        'Fees higher than alt-L1s'
+      ],
+      costEstimate: '$0.01-0.03 per action'
+    },
+    other: {
+      headline: 'General purpose Ethereum L2',
+      reasons: [
+        'Full EVM compatibility',
+        'Ethereum security',
+        'Large ecosystem'
+      ],
+      considerations: [
+        'Sequencer centralization'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    }
+  },
+  optimism: {
+    tokens: {
+      headline: 'ERC-20 on the OP Superchain',
+      reasons: [
+        'Ethereum security via optimistic rollup',
+        'Low fees',
+        'Same contracts and tooling as Ethereum'
+      ],
+      considerations: [
+        '7-day withdrawal period to Ethereum',
+        'Sequencer is currently centralized'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    },
+    nfts: {
+      headline: 'Low-cost Ethereum NFTs',
+      reasons: [
+        'Cheap minting with Ethereum security',
+        'Superchain interoperability',
+        'Ethereum-compatible contracts'
+      ],
+      considerations: [
+        'Smaller NFT community',
+        'Bridging delays for L1 collectors'
+      ],
+      costEstimate: '$0.02-0.10 per mint'
+    },
+    payments: {
+      headline: 'Cheap payments across the Superchain',
+      reasons: [
+        'Native USDC support',
+        'Low fees with fast confirmations',
+        'Shared standards with Base'
+      ],
+      considerations: [
+        'Gas paid in ETH',
+        'Hard finality depends on Ethereum'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    },
+    defi: {
+      headline: 'Established L2 DeFi',
+      reasons: [
+        'Velodrome, Synthetix and Aave deployments',
+        'Ethereum security with low fees',
+        'Full EVM compatibility'
+      ],
+      considerations: [
+        'Less liquidity than Arbitrum',
+        '7-day withdrawal period'
+      ],
+      costEstimate: '$0.05-0.30 per swap'
+    },
+    enterprise: {
+      headline: 'OP Stack for custom chains',
+      reasons: [
+        'Launch dedicated OP Stack chains',
+        'Ethereum security',
+        'Public goods funding ecosystem'
+      ],
+      considerations: [
+        'No built-in compliance features',
+        'Variable fees'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    },
+    gaming: {
+      headline: 'EVM L2 for casual games',
+      reasons: [
+        'Low fees',
+        'Fast confirmations',
+        'Ethereum-compatible assets'
+      ],
+      considerations: [
+        'Slower than Solana',
+        'Gas paid in ETH'
+      ],
+      costEstimate: '$0.01-0.03 per action'
+    },
+    social: {
+      headline: 'Home of onchain social',
+      reasons: [
+        'Farcaster identity lives on OP Mainnet',
+        'Cheap micro-transactions',
+        'Superchain-wide reach'
+      ],
+      considerations: [
+        'Fees higher than alt-L1s'
+      ],
+      costEstimate: '$0.01-0.03 per action'
+    },
+    other: {
+      headline: 'General purpose Ethereum L2',
+      reasons: [
+        'Full EVM compatibility',
+        'Ethereum security',
+        'Superchain ecosystem'
+      ],
+      considerations: [
+        'Sequencer centralization'
+      ],
+      costEstimate: '$0.01-0.05 per transaction'
+    }
+  },
+  avalanche: {
+    tokens: {
+      headline: 'Fast-finality ERC-20 tokens',
+      reasons: [
+        'Sub-second finality',
+        'Same contracts and tooling as Ethereum',
+        'Widely supported by exchanges'
+      ],
+      considerations: [
+        'Gas paid in AVAX',
+        'Fees higher than Polygon or L2s'
+      ],
+      costEstimate: '$0.01-0.10 per transaction'
+    },
+    nfts: {
+      headline: 'EVM NFTs with fast finality',
+      reasons: [
+        'Instant mint confirmation',
+        'Ethereum-compatible contracts',
+        'Growing marketplaces'
+      ],
+      considerations: [
+        'Smaller NFT ecosystem',
+        'Fewer marketplaces than Ethereum'
+      ],
+      costEstimate: '$0.05-0.20 per mint'
+    },
+    payments: {
+      headline: 'Sub-second settlement',
+      reasons: [
+        'Finality under a second',
+        'Native USDC support',
+        'Ethereum-compatible wallets'
+      ],
+      considerations: [
+        'Gas paid in AVAX',
+        'Fees vary with demand'
+      ],
+      costEstimate: '$0.01-0.10 per transaction'
+    },
+    defi: {
+      headline: 'High-throughput EVM DeFi',
+      reasons: [
+        'Trader Joe, Aave and Benqi deployments',
+        'Fast finality for trading',
+        'Full EVM compatibility'
+      ],
+      considerations: [
+        'Less liquidity than Ethereum',
+        'Gas paid in AVAX'
+      ],
+      costEstimate: '$0.05-0.30 per swap'
+    },
+    enterprise: {
+      headline: 'Custom L1s for institutions',
+      reasons: [
+        'Permissioned Avalanche L1s for compliance',
+        'Used by financial institutions',
+        'Sub-second finality'
+      ],
+      considerations: [
+        'C-Chain itself has no compliance features',
+        'Running a dedicated L1 adds operations work'
+      ],
+      costEstimate: '$0.01-0.10 per transaction'
+    },
+    gaming: {
+      headline: 'Dedicated gaming chains',
+      reasons: [
+        'Gaming-specific Avalanche L1s',
+        'Fast finality for gameplay',
+        'EVM-compatible assets'
+      ],
+      considerations: [
+        'C-Chain fees higher than Solana',
+        'Smaller player base'
+      ],
+      costEstimate: '$0.01-0.05 per action'
+    },
+    social: {
+      headline: 'EVM chain with fast finality',
+      reasons: [
+        'Quick confirmations',
+        'Ethereum-compatible wallets',
+        'Low fees'
+      ],
+      considerations: [
+        'Small social ecosystem',
+        'Fees higher than alt-L1s'
+      ],
+      costEstimate: '$0.01-0.05 per action'
+    },
+    other: {
+      headline: 'General purpose EVM L1',
+      reasons: [
+        'Full EVM compatibility',
+        'Sub-second finality',
+        'Custom L1 option'
+      ],
+      considerations: [
+        'Gas paid in AVAX'
+      ],
+      costEstimate: '$0.01-0.10 per transaction'
+    }
   }
 };
 
+// Shared SDK support for descriptor-driven EVM chains (same tooling as Ethereum)
+function evmSdkSupport(displayName: string): SdkSupport {
+  return {
+    frameworks: {
+      react: 10,
+      next: 10,
+      vue: 8,
+      node: 10,
+      express: 10,
+      python: 8,
+    },
+    languages: {
+      typescript: 10,
+      javascript: 10,
+      python: 8,
+    },
+    relatedDeps: {
+      'ethers': { bonus: 15, reason: `Already using ethers.js - works seamlessly with ${displayName}` },
+      'web3': { bonus: 15, reason: `Already using web3.js - works seamlessly with ${displayName}` },
+      'wagmi': { bonus: 15, reason: `Already using wagmi - works seamlessly with ${displayName}` },
+      'viem': { bonus: 15, reason: `Already using viem - works seamlessly with ${displayName}` },
+    }
+  };
+}
+
 // SDK/Framework support by chain
 // Scores: 10 = excellent native support, 5 = good support, 0 = basic/community, -5 = limited
-const SDK_SUPPORT: Record<SupportedChain, {
-  frameworks: Record<string, number>;
-  languages: Record<string, number>;
-  relatedDeps: Record<string, { bonus: number; reason: string }>;
-}> = {
+const SDK_SUPPORT: Record<SupportedChain, SdkSupport> = {
   ethereum: {
     frameworks: {
       react: 10,      // ethers.js, wagmi, web3-react all excellent
@@ -635,7 +1159,43 @@ const SDK_SUPPORT: Record<SupportedChain, {
       '@hashgraph/sdk': { bonus: 20, reason: 'Already using Hedera SDK - perfect match!' },
       'hashconnect': { bonus: 15, reason: 'Already using HashConnect - great for Hedera' },
     }
-  }
+  },
+  polygon: evmSdkSupport('Polygon'),
+  arbitrum: evmSdkSupport('Arbitrum'),
+  optimism: evmSdkSupport('Optimism'),
+  avalanche: evmSdkSupport('Avalanche')
+};
+
+// Label and meaning of each built-in criterion
+const RANKING_CRITERIA: Record<RankingCriterion, { label: string; description: string }> = {
+  useCase: { label: 'Use case fit', description: 'How well the chain suits the use case' },
+  cost: { label: 'Cost', description: 'Transaction fees (cheaper scores higher)' },
+  finality: { label: 'Finality', description: 'Time until a transaction is final (faster scores higher)' },
+  compliance: { label: 'Compliance', description: 'Native KYC, freeze, wipe and pause controls, predictable fees, consensus audit trail' },
+  ecosystem: { label: 'Ecosystem', description: 'Tooling, wallets, liquidity and developer community' },
+  expertise: { label: 'In-house expertise', description: 'Your team\'s experience with the chain (rated by the profile)' }
+};
+
+// Ecosystem maturity per chain (0-100); chains without an entry score 50
+const CHAIN_ECOSYSTEM_SCORES: Partial<Record<SupportedChain, number>> = {
+  ethereum: 100,
+  solana: 85,
+  base: 80,
+  polygon: 80,
+  arbitrum: 80,
+  optimism: 75,
+  avalanche: 70,
+  hedera: 60
+};
+
+// Score of chains a profile does not rate
+const NEUTRAL_SCORE = 50;
+
+// Ranks on use case fit alone, plus the project context bonus
+export const DEFAULT_RANKING_PROFILE: RankingProfile = {
+  name: 'default',
+  description: 'Use case fit, adjusted for your project\'s stack',
+  weights: { useCase: 1 }
 };
 
 /**
@@ -643,20 +1203,153 @@ const SDK_SUPPORT: Record<SupportedChain, {
  */
 export class ChainRankingEngine {
 
+  /**
+   * Use cases every chain is scored for
+   */
+  static getUseCases(): UseCase[] {
+    return Object.keys(CHAIN_USE_CASE_SCORES.hedera) as UseCase[];
+  }
+
+  /**
+   * Add a chain's use case scores (see ChainPlugins.register)
+   * Use cases without details get a generic entry from the chain registry
+   * @param chain The chain, already registered in ChainRegistry
+   * @param scores Score per use case (0-100)
+   * @param details Headline, reasons and cost estimate per use case
+   * @param sdkSupport Framework, language and dependency support
+   */
+  static registerChain(
+    chain: SupportedChain,
+    scores: Record<UseCase, number>,
+    details: Partial<Record<UseCase, UseCaseDetails>> = {},
+    sdkSupport: Partial<SdkSupport> = {}
+  ): void {
+    const info = ChainRegistry.getChain(chain);
+    const generic: UseCaseDetails = {
+      headline: info.metadata.description,
+      reasons: [],
+      considerations: [],
+      costEstimate: `~$${info.estimatedCostPerTx.usd} per transaction`
+    };
+
+    CHAIN_USE_CASE_SCORES[chain] = scores;
+    CHAIN_USE_CASE_DETAILS[chain] = Object.fromEntries(
+      (Object.keys(scores) as UseCase[]).map(useCase => [useCase, details[useCase] || generic])
+    ) as Record<UseCase, UseCaseDetails>;
+    SDK_SUPPORT[chain] = {
+      frameworks: sdkSupport.frameworks || {},
+      languages: sdkSupport.languages || {},
+      relatedDeps: sdkSupport.relatedDeps || {}
+    };
+  }
+
+  /**
+   * Get the built-in ranking criteria
+   */
+  static getCriteria(): Array<{ criterion: RankingCriterion; label: string; description: string }> {
+    return (Object.keys(RANKING_CRITERIA) as RankingCriterion[]).map(criterion => ({
+      criterion,
+      ...RANKING_CRITERIA[criterion]
+    }));
+  }
+
+  /**
+   * Load a ranking profile from a JSON file
+   * @param filePath Path to the profile
+   * @throws {Error} if the file cannot be read or the profile is invalid
+   */
+  static async loadProfile(filePath: string): Promise<RankingProfile> {
+    let profile: RankingProfile;
+    try {
+      profile = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Cannot read ranking profile ${filePath}: ${error.message}`);
+    }
+
+    const named = { ...profile, name: profile?.name || path.basename(filePath, '.json') };
+    this.validateProfile(named);
+    return named;
+  }
+
+  /**
+   * Check a ranking profile's weights and scores
+   * @throws {Error} naming the first problem found
+   */
+  static validateProfile(profile: RankingProfile): void {
+    const name = profile?.name || 'unnamed';
+    const fail = (problem: string): never => {
+      throw new Error(`Invalid ranking profile '${name}': ${problem}`);
+    };
+
+    if (!profile?.weights || typeof profile.weights !== 'object') {
+      fail('weights are missing');
+    }
+    for (const [criterion, weight] of Object.entries(profile.weights)) {
+      if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+        fail(`weight of '${criterion}' must be a number of 0 or more`);
+      }
+      if (weight > 0 && !(criterion in RANKING_CRITERIA) && !profile.scores?.[criterion]) {
+        fail(`custom criterion '${criterion}' needs scores`);
+      }
+    }
+    if (!Object.values(profile.weights).some(weight => weight > 0)) {
+      fail('at least one weight must be above 0');
+    }
+
+    for (const [criterion, chainScores] of Object.entries(profile.scores || {})) {
+      for (const [chain, score] of Object.entries(chainScores || {})) {
+        if (!ChainRegistry.hasChain(chain as SupportedChain)) {
+          fail(`unknown chain '${chain}' in scores.${criterion}`);
+        }
+        if (typeof score !== 'number' || score < 0 || score > 100) {
+          fail(`scores.${criterion}.${chain} must be between 0 and 100`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Build a profile that weighs the given criteria equally
+   * @param criteria Built-in criteria, e.g. from `--criteria cost finality`
+   * @throws {Error} for unknown criteria
+   */
+  static profileForCriteria(criteria: string[]): RankingProfile {
+    const unknown = criteria.filter(criterion => !(criterion in RANKING_CRITERIA));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown ranking criteria: ${unknown.join(', ')} (use ${Object.keys(RANKING_CRITERIA).join(', ')})`);
+    }
+
+    return {
+      name: criteria.join(' + '),
+      weights: Object.fromEntries(criteria.map(criterion => [criterion, 1])),
+      contextBonus: false
+    };
+  }
+
   /**
    * Get ranked chains for a specific use case
    * @param useCase The use case category
    * @param context Optional project context to influence rankings
+   * @param profile Criteria weights and score overrides (default: use case fit only)
+   * @param costs Monthly projections for a workload (see CostModel); the cost
+   *   criterion then scores those instead of the typical transaction fee
    */
-  static rankChainsForUseCase(useCase: UseCase, context?: ProjectContext): ChainRanking[] {
-    const chains: SupportedChain[] = ['hedera', 'ethereum', 'solana', 'base'];
+  static rankChainsForUseCase(
+    useCase: UseCase,
+    context?: ProjectContext,
+    profile: RankingProfile = DEFAULT_RANKING_PROFILE,
+    costs: CostProjection[] = []
+  ): ChainRanking[] {
+    const chains = Object.keys(CHAIN_USE_CASE_SCORES) as SupportedChain[];
 
     const rankings: ChainRanking[] = chains.map(chain => {
-      const baseScore = CHAIN_USE_CASE_SCORES[chain][useCase];
       const details = CHAIN_USE_CASE_DETAILS[chain][useCase];
+      const projection = costs.find(cost => cost.chain === chain);
+      const breakdown = this.scoreCriteria(chain, useCase, profile, projection);
+      const baseScore = Math.round(breakdown.reduce((sum, entry) => sum + entry.points, 0));
 
       // Calculate context bonus
-      const { bonus: contextBonus, reasons: contextReasons } = context
+      const { bonus: contextBonus, reasons: contextReasons } = context && profile.contextBonus !== false
         ? this.calculateContextBonus(chain, context)
         : { bonus: 0, reasons: [] };
 
@@ -671,9 +1364,11 @@ export class ChainRankingEngine {
         headline: details.headline,
         reasons: [...details.reasons, ...contextReasons],
         considerations: details.considerations,
-        estimatedCost: details.costEstimate,
+        estimatedCost: projection ? formatCostRange(projection.monthly) : details.costEstimate,
         contextBonus,
-        contextReasons
+        contextReasons,
+        breakdown,
+        profile: profile.name || 'custom'
       };
     });
 
@@ -688,6 +1383,107 @@ export class ChainRankingEngine {
     return rankings;
   }
 
+  /**
+   * Score a chain on each weighted criterion of a profile
+   */
+  private static scoreCriteria(
+    chain: SupportedChain,
+    useCase: UseCase,
+    profile: RankingProfile,
+    projection?: CostProjection
+  ): CriterionScore[] {
+    const weighted = Object.entries(profile.weights).filter(([, weight]) => weight > 0);
+    const totalWeight = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+
+    return weighted.map(([criterion, weight]) => {
+      const override = profile.scores?.[criterion]?.[chain];
+      const { score, detail } = override !== undefined
+        ? { score: override, detail: `Rated by profile '${profile.name || 'custom'}'` }
+        : this.scoreCriterion(chain, criterion, useCase, projection);
+      const share = weight / totalWeight;
+
+      return {
+        criterion,
+        label: RANKING_CRITERIA[criterion as RankingCriterion]?.label || criterion,
+        score,
+        weight: share,
+        points: score * share,
+        detail
+      };
+    });
+  }
+
+  /**
+   * Built-in score of a chain on one criterion
+   */
+  private static scoreCriterion(
+    chain: SupportedChain,
+    criterion: string,
+    useCase: UseCase,
+    projection?: CostProjection
+  ): { score: number; detail: string } {
+    const clamp = (score: number) => Math.round(Math.max(0, Math.min(100, score)));
+
+    switch (criterion) {
+      case 'useCase':
+        return { score: CHAIN_USE_CASE_SCORES[chain][useCase], detail: CHAIN_USE_CASE_DETAILS[chain][useCase].headline };
+
+      case 'cost': {
+        // A workload projection: $1/month scores 100, each 10x more costs 20 points
+        if (projection) {
+          const monthly = projection.monthly.expected;
+          return {
+            score: monthly <= 1 ? 100 : clamp(100 - 20 * Math.log10(monthly)),
+            detail: `expected ${formatUsd(monthly)}/month for your workload`
+          };
+        }
+
+        // $0.0001 scores 100, each 10x more costs 20 points
+        const usd = ChainRegistry.getChain(chain).estimatedCostPerTx.usd;
+        return {
+          score: usd <= 0.0001 ? 100 : clamp(100 - 20 * Math.log10(usd / 0.0001)),
+          detail: `~$${usd} per transaction`
+        };
+      }
+
+      case 'finality': {
+        // Half a second scores 100, each 10x slower costs 25 points
+        const seconds = ChainCapabilityDetector.getCapabilities(chain).averageFinalitySeconds;
+        return {
+          score: seconds <= 0.5 ? 100 : clamp(100 - 25 * Math.log10(seconds / 0.5)),
+          detail: `${seconds}s to finality`
+        };
+      }
+
+      case 'compliance': {
+        const capabilities = ChainCapabilityDetector.getCapabilities(chain);
+        const controls: Array<[boolean, string]> = [
+          [capabilities.hasTokenKyc, 'KYC'],
+          [capabilities.hasTokenFreeze, 'freeze'],
+          [capabilities.hasTokenWipe, 'wipe'],
+          [capabilities.hasTokenPause, 'pause'],
+          [capabilities.hasPredictableFees, 'predictable fees'],
+          [capabilities.hasConsensusService, 'consensus audit trail']
+        ];
+        const present = controls.filter(([has]) => has).map(([, name]) => name);
+        return {
+          score: clamp(100 * present.length / controls.length),
+          detail: present.length > 0 ? `Native ${present.join(', ')}` : 'No native compliance controls'
+        };
+      }
+
+      case 'ecosystem':
+        return {
+          score: CHAIN_ECOSYSTEM_SCORES[chain] ?? NEUTRAL_SCORE,
+          detail: CHAIN_ECOSYSTEM_SCORES[chain] !== undefined ? RANKING_CRITERIA.ecosystem.description : 'Not rated (neutral)'
+        };
+
+      default:
+        // In-house expertise and custom criteria only come from the profile
+        return { score: NEUTRAL_SCORE, detail: 'Not rated (neutral)' };
+    }
+  }
+
   /**
    * Calculate bonus/penalty based on project context
    */
@@ -761,6 +1557,20 @@ export class ChainRankingEngine {
     return rankings[0];
   }
 
+  /**
+   * Explain a ranking's score, one line per criterion
+   * e.g. "Cost: 100/100 x 25% = 25.0 (~$0.0001 per transaction)"
+   */
+  static explainScore(ranking: ChainRanking): string[] {
+    const lines = ranking.breakdown.map(entry =>
+      `${entry.label}: ${entry.score}/100 x ${Math.round(entry.weight * 100)}% = ${entry.points.toFixed(1)} (${entry.detail})`
+    );
+    if (ranking.contextBonus) {
+      lines.push(`Project context: ${ranking.contextBonus > 0 ? '+' : ''}${ranking.contextBonus} (${ranking.contextReasons?.join(', ') || 'your stack'})`);
+    }
+    return lines;
+  }
+
   /**
    * Get ranking medal emoji
    */
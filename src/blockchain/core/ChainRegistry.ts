@@ -6,7 +6,15 @@
  */
 
 import { SupportedChain, NetworkType } from './types'
-import { ChainCapabilities, ChainMetadata, CHAIN_CAPABILITIES, CHAIN_METADATA } from './ChainCapabilities'
+import {
+  ChainCapabilities,
+  ChainMetadata,
+  CHAIN_CAPABILITIES,
+  CHAIN_METADATA,
+  createEvmChainMetadata,
+} from './ChainCapabilities'
+import { EvmChainDescriptor, EVM_CHAIN_DESCRIPTORS } from './EvmChains'
+import { getLocalnetEndpoints } from './Localnet'
 
 /**
  * Extended chain information including status and features.
@@ -21,6 +29,7 @@ export interface ChainInfo {
     usd: number
     nativeToken: string
   }
+  evm?: EvmChainDescriptor     // Present for EVM-compatible chains
 }
 
 /**
@@ -51,6 +60,7 @@ export class ChainRegistry {
       chain: 'ethereum',
       metadata: CHAIN_METADATA.ethereum,
       capabilities: CHAIN_CAPABILITIES.ethereum,
+      evm: EVM_CHAIN_DESCRIPTORS.ethereum,
       status: 'beta',
       sdkPackages: ['ethers'],
       estimatedCostPerTx: {
@@ -77,6 +87,7 @@ export class ChainRegistry {
       chain: 'base',
       metadata: CHAIN_METADATA.base,
       capabilities: CHAIN_CAPABILITIES.base,
+      evm: EVM_CHAIN_DESCRIPTORS.base,
       status: 'beta',
       sdkPackages: ['ethers'],
       estimatedCostPerTx: {
@@ -84,15 +95,72 @@ export class ChainRegistry {
         nativeToken: '0.00001 ETH',
       },
     })
+
+    // Polygon, Arbitrum, Optimism, Avalanche C-Chain (descriptor-driven EVM chains)
+    this.registerEvmChain(EVM_CHAIN_DESCRIPTORS.polygon!, {
+      usd: 0.01,
+      nativeToken: '0.02 POL',
+    })
+    this.registerEvmChain(EVM_CHAIN_DESCRIPTORS.arbitrum!, {
+      usd: 0.02,
+      nativeToken: '0.000008 ETH',
+    })
+    this.registerEvmChain(EVM_CHAIN_DESCRIPTORS.optimism!, {
+      usd: 0.02,
+      nativeToken: '0.000008 ETH',
+    })
+    this.registerEvmChain(EVM_CHAIN_DESCRIPTORS.avalanche!, {
+      usd: 0.05,
+      nativeToken: '0.002 AVAX',
+    })
   }
 
   /**
    * Register a blockchain in the registry.
+   * Plugin chains are registered through ChainPlugins.register().
    */
-  private static registerChain(info: ChainInfo): void {
+  static registerChain(info: ChainInfo): void {
     this.chains.set(info.chain, info)
   }
 
+  /**
+   * Register an EVM-compatible chain from its descriptor.
+   * Metadata and capabilities fall back to generic EVM values when the
+   * chain has no dedicated entry in ChainCapabilities.
+   */
+  static registerEvmChain(
+    descriptor: EvmChainDescriptor,
+    estimatedCostPerTx: ChainInfo['estimatedCostPerTx'],
+    status: ChainInfo['status'] = 'beta'
+  ): void {
+    this.registerChain({
+      chain: descriptor.chain,
+      metadata: CHAIN_METADATA[descriptor.chain] || createEvmChainMetadata(
+        descriptor,
+        `EVM-compatible chain (${descriptor.displayName})`
+      ),
+      capabilities: CHAIN_CAPABILITIES[descriptor.chain] || CHAIN_CAPABILITIES.ethereum,
+      evm: descriptor,
+      status,
+      sdkPackages: ['ethers'],
+      estimatedCostPerTx,
+    })
+  }
+
+  /**
+   * Get the EVM descriptor for a chain (undefined for non-EVM chains).
+   */
+  static getEvmDescriptor(chain: SupportedChain): EvmChainDescriptor | undefined {
+    return this.chains.get(chain)?.evm
+  }
+
+  /**
+   * Get all registered EVM-compatible chains.
+   */
+  static getEvmChains(): ChainInfo[] {
+    return this.getAllChains().filter(chain => chain.evm !== undefined)
+  }
+
   /**
    * Get information about a specific chain.
    */
@@ -104,6 +172,13 @@ export class ChainRegistry {
     return info
   }
 
+  /**
+   * Check whether a chain is registered.
+   */
+  static hasChain(chain: SupportedChain): boolean {
+    return this.chains.has(chain)
+  }
+
   /**
    * Get all registered chains.
    */
@@ -146,8 +221,12 @@ export class ChainRegistry {
     network: NetworkType = 'testnet'
   ): string {
     const info = this.getChain(chain)
-    // Map devnet/localnet to testnet for explorer URLs
-    const explorerNetwork = (network === 'devnet' || network === 'localnet') ? 'testnet' : network
+    // Local nodes have no public explorer
+    if (network === 'localnet') {
+      return ''
+    }
+    // Map devnet to testnet for explorer URLs
+    const explorerNetwork = network === 'devnet' ? 'testnet' : network
     const baseUrl = info.metadata.explorerUrl[explorerNetwork]
     return `${baseUrl}/tx/${txHash}`
   }
@@ -160,8 +239,11 @@ export class ChainRegistry {
     network: NetworkType = 'testnet'
   ): string {
     const info = this.getChain(chain)
-    // Map devnet/localnet to testnet for RPC URLs
-    const rpcNetwork = (network === 'devnet' || network === 'localnet') ? 'testnet' : network
+    if (network === 'localnet') {
+      return getLocalnetEndpoints(chain).rpcUrl
+    }
+    // Map devnet to testnet for RPC URLs
+    const rpcNetwork = network === 'devnet' ? 'testnet' : network
     const urls = info.metadata.rpcUrls[rpcNetwork]
     return urls[0] // Return first URL
   }
@@ -174,8 +256,11 @@ export class ChainRegistry {
     network: NetworkType = 'testnet'
   ): string | number | undefined {
     const info = this.getChain(chain)
-    // Map devnet/localnet to testnet for chain IDs
-    const chainIdNetwork = (network === 'devnet' || network === 'localnet') ? 'testnet' : network
+    if (network === 'localnet') {
+      return getLocalnetEndpoints(chain).chainId
+    }
+    // Map devnet to testnet for chain IDs
+    const chainIdNetwork = network === 'devnet' ? 'testnet' : network
     return info.metadata.chainId?.[chainIdNetwork]
   }
 
@@ -0,0 +1,263 @@
+/**
+ * Hedera Consensus Service Topics
+ *
+ * Reading HCS topics back from the mirror node:
+ * - Chunking: messages over 1024 bytes are submitted as several chunks, each
+ *   its own topic message; TopicMessageReader reassembles them
+ * - Running hashes: every message's running hash covers the previous one, so
+ *   a stream of messages can be checked for tampering and gaps without
+ *   trusting the mirror node (verifyRunningHash)
+ *
+ * Messages come from HederaAdapter.subscribe({ kind: 'topic-messages' }),
+ * whose events carry a TopicMessage as data.
+ */
+
+import { createHash } from 'crypto'
+import {
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const HCS_CHUNK_SIZE = 1024            // Bytes per chunk
+export const HCS_RUNNING_HASH_VERSION = 3
+const RUNNING_HASH_BYTES = 48                 // SHA-384
+export const INITIAL_RUNNING_HASH = '00'.repeat(RUNNING_HASH_BYTES)  // Before sequence number 1
+
+/**
+ * One topic message as stored by the mirror node (a chunk, for chunked messages).
+ */
+export interface TopicMessage {
+  topicId: string
+  sequenceNumber: number
+  message: string                 // Contents as UTF-8
+  contents: string                // Contents as submitted (base64)
+  consensusTimestamp: string      // seconds.nanos
+  payer: string
+  runningHash?: string            // Hex
+  runningHashVersion?: number
+  chunkInfo?: TopicChunkInfo
+}
+
+/**
+ * Position of a chunk within a chunked message.
+ */
+export interface TopicChunkInfo {
+  initialTransactionId: string    // Shared by all chunks of a message
+  number: number                  // 1-based
+  total: number
+}
+
+/**
+ * A complete message, reassembled from its chunks.
+ */
+export interface AssembledTopicMessage {
+  topicId: string
+  sequenceNumber: number          // Last chunk
+  firstSequenceNumber: number     // First chunk (same as sequenceNumber when unchunked)
+  consensusTimestamp: string      // Last chunk
+  payer: string
+  contents: Buffer
+  chunks: number
+  verified?: boolean              // Undefined when verification is off
+  verificationError?: string
+  incomplete?: boolean            // Began before the first message read: earlier chunks missing
+}
+
+export interface TopicMessageReaderOptions {
+  verify?: boolean                // Default true
+  previousRunningHash?: string    // Running hash before the first message read (hex)
+}
+
+// ============================================================================
+// MIRROR NODE
+// ============================================================================
+
+/**
+ * Parse a message from the mirror node REST API (`/api/v1/topics/{id}/messages`).
+ */
+export function parseMirrorTopicMessage(json: any, topicId?: string): TopicMessage {
+  const contents = Buffer.from(json.message || '', 'base64')
+  const chunk = json.chunk_info
+
+  return {
+    topicId: json.topic_id || topicId,
+    sequenceNumber: Number(json.sequence_number),
+    message: contents.toString('utf8'),
+    contents: contents.toString('base64'),
+    consensusTimestamp: json.consensus_timestamp,
+    payer: json.payer_account_id,
+    runningHash: json.running_hash ? Buffer.from(json.running_hash, 'base64').toString('hex') : undefined,
+    runningHashVersion: json.running_hash_version,
+    chunkInfo: chunk && chunk.total > 1
+      ? {
+          initialTransactionId: `${chunk.initial_transaction_id.account_id}@${chunk.initial_transaction_id.transaction_valid_start}`,
+          number: chunk.number,
+          total: chunk.total,
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Number of chunks a message is submitted as.
+ */
+export function countTopicChunks(message: string | Uint8Array): number {
+  const size = typeof message === 'string' ? Buffer.byteLength(message, 'utf8') : message.length
+  return Math.max(1, Math.ceil(size / HCS_CHUNK_SIZE))
+}
+
+// ============================================================================
+// RUNNING HASHES
+// ============================================================================
+
+/**
+ * Running hash (version 3) of a message, given the one before it.
+ *
+ * Consensus nodes hash the fields below as written by a Java
+ * ObjectOutputStream, so the input starts with the stream header and a
+ * block-data header that have to be reproduced byte for byte.
+ *
+ * @param previousRunningHash - Running hash of the previous message (48 zero bytes before the first)
+ * @param message - Message whose running hash to compute
+ */
+export function computeRunningHash(previousRunningHash: Uint8Array, message: TopicMessage): Buffer {
+  const [seconds, nanos = '0'] = message.consensusTimestamp.split('.')
+  const fields = Buffer.alloc(RUNNING_HASH_BYTES + 8 + 24 + 24 + 8 + 4 + 8)
+  let offset = Buffer.from(previousRunningHash).copy(fields, 0)
+
+  offset = fields.writeBigInt64BE(BigInt(HCS_RUNNING_HASH_VERSION), offset)
+  for (const part of [...parseEntityId(message.payer), ...parseEntityId(message.topicId)]) {
+    offset = fields.writeBigInt64BE(part, offset)
+  }
+  offset = fields.writeBigInt64BE(BigInt(seconds), offset)
+  offset = fields.writeInt32BE(Number(nanos.padEnd(9, '0')), offset)
+  fields.writeBigInt64BE(BigInt(message.sequenceNumber), offset)
+
+  const messageHash = createHash('sha384').update(Buffer.from(message.contents, 'base64')).digest()
+  const body = Buffer.concat([fields, messageHash])
+  const header = Buffer.from([0xac, 0xed, 0x00, 0x05, 0x77, body.length])
+
+  return createHash('sha384').update(header).update(body).digest()
+}
+
+/**
+ * Check a message's running hash against the previous message's.
+ */
+export function verifyRunningHash(previousRunningHash: string, message: TopicMessage): boolean {
+  if (!message.runningHash || (message.runningHashVersion ?? HCS_RUNNING_HASH_VERSION) !== HCS_RUNNING_HASH_VERSION) {
+    return false
+  }
+  return computeRunningHash(Buffer.from(previousRunningHash, 'hex'), message).toString('hex') === message.runningHash
+}
+
+function parseEntityId(id: string): bigint[] {
+  const parts = id.split('.')
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) {
+    throw new BlockchainError(
+      BlockchainErrorCode.INVALID_ADDRESS,
+      `Invalid Hedera entity ID: ${id}`
+    )
+  }
+  return parts.map(BigInt)
+}
+
+// ============================================================================
+// READER
+// ============================================================================
+
+/**
+ * Reassembles chunked messages and verifies the running hash chain.
+ *
+ * Feed messages in sequence order; read() returns a message once all of its
+ * chunks have arrived. A sequence gap fails verification of the next message
+ * (the messages in between are missing) and restarts the chain after it.
+ */
+export class TopicMessageReader {
+  private readonly verify: boolean
+  private previousRunningHash?: string
+  private previousSequenceNumber?: number
+  private pending = new Map<string, { chunks: TopicMessage[]; errors: string[]; incomplete: boolean }>()
+
+  constructor(options: TopicMessageReaderOptions = {}) {
+    this.verify = options.verify ?? true
+    this.previousRunningHash = options.previousRunningHash
+  }
+
+  /**
+   * Add the next message (or chunk).
+   *
+   * A chunked message whose first chunk was never read (reading started
+   * mid-message) is returned flagged `incomplete` once its last chunk arrives,
+   * rather than waiting for chunks that will not come.
+   *
+   * @returns The complete message, or undefined while chunks are outstanding
+   */
+  read(message: TopicMessage): AssembledTopicMessage | undefined {
+    const error = this.verify ? this.check(message) : undefined
+    this.previousRunningHash = message.runningHash
+    this.previousSequenceNumber = message.sequenceNumber
+
+    if (!message.chunkInfo) {
+      return this.assemble([message], error ? [error] : [])
+    }
+
+    const key = message.chunkInfo.initialTransactionId
+    const entry = this.pending.get(key) || { chunks: [], errors: [], incomplete: message.chunkInfo.number > 1 }
+    entry.chunks.push(message)
+    if (error) entry.errors.push(error)
+
+    const done = entry.incomplete
+      ? message.chunkInfo.number === message.chunkInfo.total
+      : entry.chunks.length >= message.chunkInfo.total
+    if (!done) {
+      this.pending.set(key, entry)
+      return undefined
+    }
+    this.pending.delete(key)
+    const assembled = this.assemble(entry.chunks.sort((a, b) => a.chunkInfo!.number - b.chunkInfo!.number), entry.errors)
+    return entry.incomplete ? { ...assembled, incomplete: true } : assembled
+  }
+
+  /**
+   * Chunked messages still waiting for chunks.
+   */
+  get pendingMessages(): number {
+    return this.pending.size
+  }
+
+  private check(message: TopicMessage): string | undefined {
+    if (this.previousSequenceNumber !== undefined && message.sequenceNumber !== this.previousSequenceNumber + 1) {
+      return `Sequence gap: expected ${this.previousSequenceNumber + 1}, got ${message.sequenceNumber}`
+    }
+
+    const previous = message.sequenceNumber === 1 ? INITIAL_RUNNING_HASH : this.previousRunningHash
+    if (!previous) {
+      return `Running hash of message ${message.sequenceNumber - 1} unknown`
+    }
+    if (!verifyRunningHash(previous, message)) {
+      return `Running hash mismatch at sequence ${message.sequenceNumber}`
+    }
+    return undefined
+  }
+
+  private assemble(chunks: TopicMessage[], errors: string[]): AssembledTopicMessage {
+    const first = chunks[0]
+    const last = chunks[chunks.length - 1]
+
+    return {
+      topicId: last.topicId,
+      sequenceNumber: last.sequenceNumber,
+      firstSequenceNumber: first.sequenceNumber,
+      consensusTimestamp: last.consensusTimestamp,
+      payer: first.payer,
+      contents: Buffer.concat(chunks.map(chunk => Buffer.from(chunk.contents, 'base64'))),
+      chunks: chunks.length,
+      verified: this.verify ? errors.length === 0 : undefined,
+      verificationError: errors[0],
+    }
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Cost Model
+ *
+ * Projects what a workload (transactions per month by type) costs on each
+ * chain, in USD per month:
+ * - Fees come from the chain's adapter (getGasPrice / estimateFees) when one
+ *   is connected, otherwise from the registry's per-transaction figure
+ * - Native amounts are priced with a cached price feed; a JSON file stands
+ *   in for a market data service, built-in prices fill the gaps
+ * - Projections are ranges: fees from the standard to the instant gas price
+ *   (registry figures: half to double), prices across the feed's range
+ *   (built-in prices: ±50%)
+ *
+ *   const model = new CostModel({ priceFeed: new FilePriceFeed('.apix/prices.json') })
+ *   const projection = await model.project('ethereum', { transfer: 100000, mint: 500 })
+ *   formatCostRange(projection.monthly)   // "$210-$610/month (expected $300)"
+ */
+
+import { promises as fs } from 'fs'
+import { SupportedChain, EstimateFeeParams } from './types'
+import { BlockchainAdapter } from './BlockchainAdapter'
+import { ChainRegistry } from './ChainRegistry'
+import { ChainCapabilityDetector } from './ChainCapabilities'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Transaction types a workload is made of (the adapters' fee operations).
+ */
+export type CostOperation = EstimateFeeParams['operation']
+
+/**
+ * Expected transactions per month, by type.
+ */
+export type Workload = Partial<Record<CostOperation, number>>
+
+/**
+ * USD amount with its likely range.
+ */
+export interface CostRange {
+  low: number
+  expected: number
+  high: number
+}
+
+/**
+ * USD price of a native token.
+ */
+export interface PriceQuote {
+  symbol: string
+  usd: number
+  low: number
+  high: number
+  source: 'feed' | 'default'
+  updatedAt?: string         // ISO timestamp of the feed data
+  stale?: boolean            // Feed data older than its maxAgeMs
+}
+
+/**
+ * Source of native token prices.
+ */
+export interface PriceFeed {
+  getPrice(symbol: string): Promise<Omit<PriceQuote, 'source'> | undefined>
+}
+
+/**
+ * Cost of one transaction type within a projection.
+ */
+export interface OperationCost {
+  operation: CostOperation
+  count: number              // Per month
+  feeNative: number          // Expected fee per transaction, in the native token
+  monthly: CostRange         // USD per month
+}
+
+/**
+ * Monthly cost of a workload on one chain.
+ */
+export interface CostProjection {
+  chain: SupportedChain
+  currency: string
+  workload: Workload
+  monthly: CostRange         // USD per month
+  operations: OperationCost[]
+  feeSource: 'adapter' | 'registry'
+  price: PriceQuote
+  notes: string[]            // Fallbacks taken, stale prices
+}
+
+/**
+ * Cost model options.
+ */
+export interface CostModelOptions {
+  priceFeed?: PriceFeed
+  adapters?: Partial<Record<SupportedChain, BlockchainAdapter>>  // Initialized adapters, for live fees
+}
+
+export const DEFAULT_WORKLOAD: Workload = { transfer: 10000 }
+export const DEFAULT_PRICE_FEED_PATH = '.apix/prices.json'
+
+// Fallback USD prices, used with a ±50% range
+const DEFAULT_USD_PRICES: Record<string, number> = {
+  HBAR: 0.1,
+  ETH: 2500,
+  SOL: 150,
+  POL: 0.5,
+  AVAX: 25,
+}
+const DEFAULT_PRICE_SPREAD = 0.5
+
+// Registry figures are for a transfer; other operations cost a multiple
+const REGISTRY_OPERATION_FACTORS: Record<CostOperation, number> = {
+  transfer: 1,
+  burn: 1,
+  custom: 2,
+  mint: 5,
+  deploy: 200,
+}
+
+// Smallest-unit decimals of non-EVM native tokens (EVM chains use their descriptor)
+const NATIVE_DECIMALS: Partial<Record<SupportedChain, number>> = {
+  hedera: 8,   // tinybars
+  solana: 9,   // lamports
+}
+
+const OPERATIONS = Object.keys(REGISTRY_OPERATION_FACTORS) as CostOperation[]
+
+// ============================================================================
+// PRICE FEED
+// ============================================================================
+
+/**
+ * Prices from a JSON file, cached in memory for ttlMs:
+ *
+ *   {
+ *     "updatedAt": "2026-10-01T00:00:00Z",
+ *     "prices": { "HBAR": { "usd": 0.07, "low": 0.05, "high": 0.09 }, "ETH": 2600 }
+ *   }
+ *
+ * A missing file has no prices. Data older than maxAgeMs is marked stale.
+ */
+export class FilePriceFeed implements PriceFeed {
+  private cache?: { loadedAt: number; updatedAt?: string; prices: Record<string, any> }
+
+  constructor(
+    private filePath: string = DEFAULT_PRICE_FEED_PATH,
+    private options: { ttlMs?: number; maxAgeMs?: number; now?: () => number } = {}
+  ) {}
+
+  async getPrice(symbol: string): Promise<Omit<PriceQuote, 'source'> | undefined> {
+    const { updatedAt, prices } = await this.load()
+    const entry = prices[symbol.toUpperCase()]
+    if (entry === undefined) return undefined
+
+    const usd = typeof entry === 'number' ? entry : entry.usd
+    if (typeof usd !== 'number' || usd < 0) {
+      throw new Error(`Price feed ${this.filePath} has no valid USD price for ${symbol}`)
+    }
+
+    const maxAgeMs = this.options.maxAgeMs ?? 7 * 24 * 60 * 60 * 1000
+    const age = updatedAt ? this.now() - Date.parse(updatedAt) : Infinity
+    return {
+      symbol: symbol.toUpperCase(),
+      usd,
+      low: typeof entry.low === 'number' ? entry.low : usd,
+      high: typeof entry.high === 'number' ? entry.high : usd,
+      updatedAt,
+      stale: age > maxAgeMs,
+    }
+  }
+
+  // Read the file, at most once per ttlMs
+  private async load(): Promise<{ updatedAt?: string; prices: Record<string, any> }> {
+    if (this.cache && this.now() - this.cache.loadedAt < (this.options.ttlMs ?? 5 * 60 * 1000)) {
+      return this.cache
+    }
+
+    let data: any = {}
+    try {
+      data = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Cannot read price feed ${this.filePath}: ${error.message}`)
+      }
+    }
+
+    this.cache = { loadedAt: this.now(), updatedAt: data.updatedAt, prices: data.prices || {} }
+    return this.cache
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now()
+  }
+}
+
+// ============================================================================
+// COST MODEL
+// ============================================================================
+
+/**
+ * Projects monthly workload costs per chain.
+ */
+export class CostModel {
+  private priceFeed?: PriceFeed
+  private adapters: Partial<Record<SupportedChain, BlockchainAdapter>>
+
+  constructor(options: CostModelOptions = {}) {
+    this.priceFeed = options.priceFeed
+    this.adapters = options.adapters || {}
+  }
+
+  /**
+   * Project a workload's monthly cost on one chain.
+   *
+   * @param chain - The chain
+   * @param workload - Transactions per month by type
+   * @throws {Error} if the price feed cannot be read
+   */
+  async project(chain: SupportedChain, workload: Workload = DEFAULT_WORKLOAD): Promise<CostProjection> {
+    const currency = ChainCapabilityDetector.getMetadata(chain).nativeToken
+    const notes: string[] = []
+    const price = await this.getPrice(currency)
+
+    if (price.source === 'default') {
+      notes.push(`No feed price for ${currency}; using ~$${price.usd} ±${DEFAULT_PRICE_SPREAD * 100}%`)
+    } else if (price.stale) {
+      notes.push(`${currency} price is stale (${price.updatedAt || 'no timestamp'})`)
+    }
+
+    let fees = await this.getAdapterFees(chain, workload, notes)
+    const feeSource = fees ? 'adapter' : 'registry'
+    if (!fees) {
+      fees = this.getRegistryFees(chain, workload)
+    }
+
+    const operations: OperationCost[] = fees.map(({ operation, count, low, expected, high }) => ({
+      operation,
+      count,
+      feeNative: expected,
+      monthly: {
+        low: count * low * price.low,
+        expected: count * expected * price.usd,
+        high: count * high * price.high,
+      },
+    }))
+
+    return {
+      chain,
+      currency,
+      workload,
+      monthly: {
+        low: sum(operations.map(cost => cost.monthly.low)),
+        expected: sum(operations.map(cost => cost.monthly.expected)),
+        high: sum(operations.map(cost => cost.monthly.high)),
+      },
+      operations,
+      feeSource,
+      price,
+      notes,
+    }
+  }
+
+  /**
+   * Project a workload on several chains, cheapest first.
+   */
+  async projectAll(
+    chains: SupportedChain[] = ChainRegistry.getAllChains().map(info => info.chain),
+    workload: Workload = DEFAULT_WORKLOAD
+  ): Promise<CostProjection[]> {
+    const projections: CostProjection[] = []
+    for (const chain of chains) {
+      projections.push(await this.project(chain, workload))
+    }
+    return projections.sort((a, b) => a.monthly.expected - b.monthly.expected)
+  }
+
+  /**
+   * Price from the feed, or the built-in price with a wide range.
+   */
+  private async getPrice(symbol: string): Promise<PriceQuote> {
+    const quote = await this.priceFeed?.getPrice(symbol)
+    if (quote) {
+      return { ...quote, source: 'feed' }
+    }
+
+    const usd = DEFAULT_USD_PRICES[symbol.toUpperCase()] ?? 0
+    return {
+      symbol: symbol.toUpperCase(),
+      usd,
+      low: usd * (1 - DEFAULT_PRICE_SPREAD),
+      high: usd * (1 + DEFAULT_PRICE_SPREAD),
+      source: 'default',
+    }
+  }
+
+  /**
+   * Fees per transaction from a connected adapter, in native units.
+   * Undefined (with a note) when there is no adapter or it fails.
+   */
+  private async getAdapterFees(
+    chain: SupportedChain,
+    workload: Workload,
+    notes: string[]
+  ): Promise<FeeRange[] | undefined> {
+    const adapter = this.adapters[chain]
+    if (!adapter) return undefined
+
+    const decimals = NATIVE_DECIMALS[chain] ?? ChainRegistry.getEvmDescriptor(chain)?.nativeCurrency.decimals
+    if (decimals === undefined) {
+      notes.push('Native token decimals unknown; using registry fees')
+      return undefined
+    }
+
+    try {
+      // Busy networks pay up to the instant price
+      const gasPrice = await adapter.getGasPrice()
+      const surge = gasPrice.standard > BigInt(0) ? Number(gasPrice.instant) / Number(gasPrice.standard) : 1
+
+      const fees: FeeRange[] = []
+      for (const [operation, count] of workloadEntries(workload)) {
+        const estimate = await adapter.estimateFees({ operation })
+        const expected = Number(estimate.estimatedCost) / 10 ** decimals
+        fees.push({ operation, count, low: expected, expected, high: expected * surge })
+      }
+      return fees
+    } catch (error: any) {
+      notes.push(`Live fees unavailable (${error.message}); using registry fees`)
+      return undefined
+    }
+  }
+
+  /**
+   * Fees per transaction from the registry's typical transfer cost.
+   */
+  private getRegistryFees(chain: SupportedChain, workload: Workload): FeeRange[] {
+    const transferFee = parseFloat(ChainRegistry.getChain(chain).estimatedCostPerTx.nativeToken) || 0
+
+    return workloadEntries(workload).map(([operation, count]) => {
+      const expected = transferFee * REGISTRY_OPERATION_FACTORS[operation]
+      return { operation, count, low: expected / 2, expected, high: expected * 2 }
+    })
+  }
+}
+
+interface FeeRange {
+  operation: CostOperation
+  count: number
+  low: number
+  expected: number
+  high: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse `operation=count` entries, e.g. ['transfer=100000', 'mint=500'].
+ *
+ * @throws {Error} for unknown operations or counts that are not whole numbers
+ */
+export function parseWorkload(entries: string[]): Workload {
+  const workload: Workload = {}
+
+  for (const entry of entries) {
+    const [operation, count] = entry.split('=').map(part => part.trim())
+    if (!OPERATIONS.includes(operation as CostOperation)) {
+      throw new Error(`Unknown workload operation '${operation}' (use ${OPERATIONS.join(', ')})`)
+    }
+    const parsed = parseAmount(count || '')
+    if (parsed === undefined || !Number.isInteger(parsed)) {
+      throw new Error(`Invalid count for '${operation}': ${count} (use e.g. ${operation}=10000)`)
+    }
+    workload[operation as CostOperation] = parsed
+  }
+
+  return workload
+}
+
+/**
+ * Parse a monthly USD budget such as "500", "$1,200" or "$5k/month".
+ * Undefined when the value is not an amount (e.g. "low").
+ */
+export function parseBudget(value: string): number | undefined {
+  return parseAmount(value.replace(/\$|\/\s*(month|mo)$/gi, ''))
+}
+
+/**
+ * Describe a workload, e.g. "100,000 transfer + 500 mint per month".
+ */
+export function formatWorkload(workload: Workload): string {
+  const entries = workloadEntries(workload).map(([operation, count]) => `${count.toLocaleString('en-US')} ${operation}`)
+  return `${entries.join(' + ') || 'no transactions'} per month`
+}
+
+/**
+ * Format a monthly range, e.g. "$210-$610/month (expected $300)".
+ */
+export function formatCostRange(range: CostRange): string {
+  if (formatUsd(range.low) === formatUsd(range.high)) {
+    return `${formatUsd(range.expected)}/month`
+  }
+  return `${formatUsd(range.low)}-${formatUsd(range.high)}/month (expected ${formatUsd(range.expected)})`
+}
+
+/**
+ * Format a USD amount with sensible precision ($0.0042, $3.50, $1,250).
+ */
+export function formatUsd(amount: number): string {
+  if (amount === 0) return '$0'
+  if (amount < 0.01) return `$${amount.toPrecision(2)}`
+  if (amount < 100) return `$${amount.toFixed(2)}`
+  return `$${Math.round(amount).toLocaleString('en-US')}`
+}
+
+function workloadEntries(workload: Workload): Array<[CostOperation, number]> {
+  return (Object.entries(workload) as Array<[CostOperation, number]>).filter(([, count]) => count > 0)
+}
+
+// "5k" -> 5000, "1,200" -> 1200
+function parseAmount(value: string): number | undefined {
+  const match = value.trim().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*([km]?)$/i)
+  if (!match) return undefined
+  const multiplier = { '': 1, k: 1000, m: 1000000 }[match[2].toLowerCase() as '' | 'k' | 'm']
+  return parseFloat(match[1]) * multiplier
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
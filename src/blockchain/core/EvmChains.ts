@@ -0,0 +1,219 @@
+/**
+ * EVM Chain Descriptors
+ *
+ * Every EVM-compatible chain shares EthereumAdapter's implementation.
+ * The only things that differ between them are captured here, so supporting
+ * a new EVM chain (or L2) means adding a descriptor - not writing an adapter.
+ */
+
+import { SupportedChain, NetworkType } from './types'
+
+/**
+ * Everything APIX needs to know to talk to an EVM-compatible chain.
+ */
+export interface EvmChainDescriptor {
+  chain: SupportedChain
+  displayName: string
+  chainIds: {
+    mainnet: number
+    testnet: number
+  }
+  rpcUrls: {                   // First is the default, the rest are failover endpoints
+    mainnet: string[]
+    testnet: string[]
+  }
+  explorerUrl: {
+    mainnet: string
+    testnet: string
+  }
+  explorerTxPath: string       // Appended to explorerUrl, '{txHash}' is substituted
+  nativeCurrency: {
+    name: string
+    symbol: string
+    decimals: number
+  }
+  supportsEIP1559: boolean
+  safeTransactionService?: {   // Safe Transaction Service (multisig proposals), where hosted
+    mainnet?: string
+    testnet?: string
+  }
+  documentation?: string
+}
+
+/**
+ * Descriptors for all built-in EVM chains.
+ */
+export const EVM_CHAIN_DESCRIPTORS: Partial<Record<SupportedChain, EvmChainDescriptor>> = {
+  ethereum: {
+    chain: 'ethereum',
+    displayName: 'Ethereum',
+    chainIds: {
+      mainnet: 1,
+      testnet: 11155111, // Sepolia
+    },
+    rpcUrls: {
+      mainnet: ['https://eth.llamarpc.com', 'https://ethereum-rpc.publicnode.com'],
+      testnet: ['https://rpc.sepolia.org', 'https://ethereum-sepolia-rpc.publicnode.com'],
+    },
+    explorerUrl: {
+      mainnet: 'https://etherscan.io',
+      testnet: 'https://sepolia.etherscan.io',
+    },
+    explorerTxPath: '/tx/{txHash}',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    supportsEIP1559: true,
+    safeTransactionService: {
+      mainnet: 'https://safe-transaction-mainnet.safe.global',
+      testnet: 'https://safe-transaction-sepolia.safe.global',
+    },
+    documentation: 'https://ethereum.org/developers',
+  },
+
+  base: {
+    chain: 'base',
+    displayName: 'Base',
+    chainIds: {
+      mainnet: 8453,
+      testnet: 84532, // Base Sepolia
+    },
+    rpcUrls: {
+      mainnet: ['https://mainnet.base.org', 'https://base-rpc.publicnode.com'],
+      testnet: ['https://sepolia.base.org', 'https://base-sepolia-rpc.publicnode.com'],
+    },
+    explorerUrl: {
+      mainnet: 'https://basescan.org',
+      testnet: 'https://sepolia.basescan.org',
+    },
+    explorerTxPath: '/tx/{txHash}',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    supportsEIP1559: true,
+    safeTransactionService: {
+      mainnet: 'https://safe-transaction-base.safe.global',
+      testnet: 'https://safe-transaction-base-sepolia.safe.global',
+    },
+    documentation: 'https://docs.base.org',
+  },
+
+  polygon: {
+    chain: 'polygon',
+    displayName: 'Polygon',
+    chainIds: {
+      mainnet: 137,
+      testnet: 80002, // Amoy
+    },
+    rpcUrls: {
+      mainnet: ['https://polygon-rpc.com', 'https://polygon-bor-rpc.publicnode.com'],
+      testnet: ['https://rpc-amoy.polygon.technology', 'https://polygon-amoy-bor-rpc.publicnode.com'],
+    },
+    explorerUrl: {
+      mainnet: 'https://polygonscan.com',
+      testnet: 'https://amoy.polygonscan.com',
+    },
+    explorerTxPath: '/tx/{txHash}',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    supportsEIP1559: true,
+    safeTransactionService: {
+      mainnet: 'https://safe-transaction-polygon.safe.global',
+    },
+    documentation: 'https://docs.polygon.technology',
+  },
+
+  arbitrum: {
+    chain: 'arbitrum',
+    displayName: 'Arbitrum One',
+    chainIds: {
+      mainnet: 42161,
+      testnet: 421614, // Arbitrum Sepolia
+    },
+    rpcUrls: {
+      mainnet: ['https://arb1.arbitrum.io/rpc', 'https://arbitrum-one-rpc.publicnode.com'],
+      testnet: ['https://sepolia-rollup.arbitrum.io/rpc', 'https://arbitrum-sepolia-rpc.publicnode.com'],
+    },
+    explorerUrl: {
+      mainnet: 'https://arbiscan.io',
+      testnet: 'https://sepolia.arbiscan.io',
+    },
+    explorerTxPath: '/tx/{txHash}',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    supportsEIP1559: true,
+    safeTransactionService: {
+      mainnet: 'https://safe-transaction-arbitrum.safe.global',
+    },
+    documentation: 'https://docs.arbitrum.io',
+  },
+
+  optimism: {
+    chain: 'optimism',
+    displayName: 'OP Mainnet',
+    chainIds: {
+      mainnet: 10,
+      testnet: 11155420, // OP Sepolia
+    },
+    rpcUrls: {
+      mainnet: ['https://mainnet.optimism.io', 'https://optimism-rpc.publicnode.com'],
+      testnet: ['https://sepolia.optimism.io', 'https://optimism-sepolia-rpc.publicnode.com'],
+    },
+    explorerUrl: {
+      mainnet: 'https://optimistic.etherscan.io',
+      testnet: 'https://sepolia-optimism.etherscan.io',
+    },
+    explorerTxPath: '/tx/{txHash}',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    supportsEIP1559: true,
+    safeTransactionService: {
+      mainnet: 'https://safe-transaction-optimism.safe.global',
+    },
+    documentation: 'https://docs.optimism.io',
+  },
+
+  avalanche: {
+    chain: 'avalanche',
+    displayName: 'Avalanche C-Chain',
+    chainIds: {
+      mainnet: 43114,
+      testnet: 43113, // Fuji
+    },
+    rpcUrls: {
+      mainnet: ['https://api.avax.network/ext/bc/C/rpc', 'https://avalanche-c-chain-rpc.publicnode.com'],
+      testnet: ['https://api.avax-test.network/ext/bc/C/rpc', 'https://avalanche-fuji-c-chain-rpc.publicnode.com'],
+    },
+    explorerUrl: {
+      mainnet: 'https://snowtrace.io',
+      testnet: 'https://testnet.snowtrace.io',
+    },
+    explorerTxPath: '/tx/{txHash}',
+    nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+    supportsEIP1559: true,
+    safeTransactionService: {
+      mainnet: 'https://safe-transaction-avalanche.safe.global',
+    },
+    documentation: 'https://docs.avax.network',
+  },
+}
+
+/**
+ * Check whether a chain is EVM-compatible (has a descriptor).
+ */
+export function isEvmChain(chain: SupportedChain): boolean {
+  return chain in EVM_CHAIN_DESCRIPTORS
+}
+
+/**
+ * Map any network type onto the descriptor's mainnet/testnet keys.
+ * devnet falls back to testnet values (localnet is handled by Localnet.ts).
+ */
+export function getEvmNetworkKey(network: NetworkType): 'mainnet' | 'testnet' {
+  return network === 'mainnet' ? 'mainnet' : 'testnet'
+}
+
+/**
+ * Build a transaction explorer link from a descriptor.
+ */
+export function formatEvmExplorerUrl(
+  descriptor: EvmChainDescriptor,
+  network: NetworkType,
+  txHash: string
+): string {
+  const baseUrl = descriptor.explorerUrl[getEvmNetworkKey(network)]
+  return `${baseUrl}${descriptor.explorerTxPath.replace('{txHash}', txHash)}`
+}
@@ -9,6 +9,7 @@
  */
 
 import { SupportedChain, IntegrationType } from './types'
+import { EvmChainDescriptor, EVM_CHAIN_DESCRIPTORS } from './EvmChains'
 
 /**
  * Feature equivalent information.
@@ -30,7 +31,7 @@ export interface FeatureEquivalent {
 export interface FeatureMapping {
   integrationType: IntegrationType
   description: string
-  implementations: Record<SupportedChain, FeatureEquivalent>
+  implementations: Partial<Record<SupportedChain, FeatureEquivalent>>
 }
 
 /**
@@ -187,6 +188,75 @@ export class FeatureMapper {
       },
     })
 
+    this.registerMapping({
+      integrationType: 'multi-token',
+      description: 'Collections mixing fungible and unique items (e.g. in-game items)',
+      implementations: {
+        hedera: {
+          chain: 'hedera',
+          feature: 'HTS Fungible Tokens + NFT Serials',
+          standard: 'HTS',
+          similarity: 0.8,
+          notes: 'One HTS fungible token per fungible item; unique items are serials of one HTS NFT token',
+          advantages: [
+            'Native to the platform (no smart contract needed)',
+            'Predictable fees',
+            'Batch transfers of mixed items are atomic',
+          ],
+          limitations: [
+            'No single collection object (one token per fungible item)',
+            'Accounts must associate each token before receiving it',
+            'Minting is one token per transaction',
+          ],
+          implementation: 'TokenCreateTransaction per fungible item, NON_FUNGIBLE_UNIQUE token for unique items',
+        },
+        ethereum: {
+          chain: 'ethereum',
+          feature: 'ERC-1155 Multi-Token Standard',
+          standard: 'ERC-1155',
+          similarity: 1.0,
+          notes: 'One contract holds any number of fungible and unique token IDs',
+          advantages: [
+            'Single contract for the whole collection',
+            'Native batch mint and transfer',
+            'Supported by major marketplaces and game tooling',
+          ],
+          limitations: [
+            'High deployment and minting costs on mainnet',
+          ],
+          implementation: 'Deploy ERC-1155 contract',
+        },
+        solana: {
+          chain: 'solana',
+          feature: 'SPL Semi-Fungible Mints',
+          standard: 'SPL Token',
+          similarity: 0.75,
+          notes: 'One SPL mint with 0 decimals per item; unique items have a supply of 1 and no mint authority',
+          advantages: [
+            'Extremely low minting cost',
+            'Batch mint and transfer in one transaction',
+          ],
+          limitations: [
+            'No single collection object (one mint per item)',
+            'Item metadata needs Metaplex for marketplace display',
+          ],
+          implementation: 'SPL mint (0 decimals) per item, mint authority removed for unique items',
+        },
+        base: {
+          chain: 'base',
+          feature: 'ERC-1155 Multi-Token Standard (L2)',
+          standard: 'ERC-1155',
+          similarity: 1.0,
+          notes: 'Same as Ethereum but on Layer 2',
+          advantages: [
+            'Ethereum-compatible',
+            'Low fees for frequent in-game mints and transfers',
+          ],
+          implementation: 'Deploy ERC-1155 contract on Base',
+        },
+      },
+    })
+
     this.registerMapping({
       integrationType: 'smart-contract',
       description: 'Programmable smart contracts',
@@ -237,7 +307,7 @@ export class FeatureMapper {
             'Different programming model (account-based)',
             'Steeper learning curve',
           ],
-          implementation: 'Anchor framework or native Rust',
+          implementation: 'Build with Anchor or native Rust; deploy the .so via deployContract (upgradeable loader) and call with an Anchor IDL',
         },
         base: {
           chain: 'base',
@@ -368,9 +438,67 @@ export class FeatureMapper {
    * Register a feature mapping.
    */
   private static registerMapping(mapping: FeatureMapping): void {
+    // EVM chains without a hand-written entry inherit Ethereum's implementation
+    const ethereumImpl = mapping.implementations.ethereum
+    if (ethereumImpl) {
+      for (const descriptor of Object.values(EVM_CHAIN_DESCRIPTORS)) {
+        if (descriptor && !mapping.implementations[descriptor.chain]) {
+          mapping.implementations[descriptor.chain] = this.deriveEvmEquivalent(ethereumImpl, descriptor)
+        }
+      }
+    }
+
     this.mappings.set(mapping.integrationType, mapping)
   }
 
+  /**
+   * Add a chain's implementations to the mappings (see ChainPlugins.register).
+   * EVM chains inherit Ethereum's implementation where they give none.
+   *
+   * @param chain - Chain the implementations are for
+   * @param implementations - Implementation per integration type
+   * @param evm - Descriptor, for EVM-compatible chains
+   */
+  static registerChain(
+    chain: SupportedChain,
+    implementations: Partial<Record<IntegrationType, Omit<FeatureEquivalent, 'chain'>>>,
+    evm?: EvmChainDescriptor
+  ): void {
+    for (const mapping of this.mappings.values()) {
+      const implementation = implementations[mapping.integrationType]
+      const ethereumImpl = mapping.implementations.ethereum
+
+      if (implementation) {
+        mapping.implementations[chain] = { ...implementation, chain }
+      } else if (evm && ethereumImpl) {
+        mapping.implementations[chain] = this.deriveEvmEquivalent(ethereumImpl, evm)
+      }
+    }
+  }
+
+  /**
+   * Derive an EVM chain's equivalent from the Ethereum implementation.
+   */
+  private static deriveEvmEquivalent(
+    ethereumImpl: FeatureEquivalent,
+    descriptor: EvmChainDescriptor
+  ): FeatureEquivalent {
+    return {
+      ...ethereumImpl,
+      chain: descriptor.chain,
+      feature: `${ethereumImpl.feature} (${descriptor.displayName})`,
+      notes: `Same as Ethereum, deployed on ${descriptor.displayName}`,
+      advantages: [
+        'Ethereum-compatible (same contracts and tooling)',
+        `Lower fees than Ethereum L1 (paid in ${descriptor.nativeCurrency.symbol})`,
+      ],
+      limitations: [
+        'Less liquidity and ecosystem depth than Ethereum',
+      ],
+      implementation: `${ethereumImpl.implementation} on ${descriptor.displayName}`,
+    }
+  }
+
   /**
    * Get the implementation of an integration type on a specific chain.
    */
@@ -395,12 +523,19 @@ export class FeatureMapper {
     return this.getImplementation(integrationType, targetChain)
   }
 
+  /**
+   * Get the integration types that have a mapping.
+   */
+  static getIntegrationTypes(): IntegrationType[] {
+    return Array.from(this.mappings.keys())
+  }
+
   /**
    * Get all implementations of a feature across chains.
    */
   static getAllImplementations(
     integrationType: IntegrationType
-  ): Record<SupportedChain, FeatureEquivalent> | null {
+  ): Partial<Record<SupportedChain, FeatureEquivalent>> | null {
     const mapping = this.mappings.get(integrationType)
     return mapping?.implementations || null
   }
@@ -0,0 +1,300 @@
+/**
+ * HD Wallet (BIP-39 / BIP-44)
+ *
+ * Derives chain accounts from one seed phrase, so a developer keeps a single
+ * secret instead of a raw key per chain:
+ * - EVM chains: secp256k1, m/44'/60'/0'/0/{index} (MetaMask, Hardhat)
+ * - Solana: ed25519 (SLIP-0010), m/44'/501'/{index}'/0' (Phantom, solana-keygen)
+ * - Hedera ED25519: m/44'/3030'/0'/0'/{index}' (HashPack, Hedera SDK)
+ * - Hedera ECDSA: secp256k1, m/44'/3030'/0'/0/{index} (Hedera SDK standard)
+ *
+ * Private keys come out in the format each adapter already accepts, so a
+ * derived key can be used anywhere a configured one can.
+ */
+
+import { createHmac, createPrivateKey, createPublicKey, pbkdf2Sync } from 'crypto'
+import { SupportedChain, ChainCredentials, BlockchainError, BlockchainErrorCode } from './types'
+import { isEvmChain } from './EvmChains'
+
+/**
+ * Key schemes an account can be derived with.
+ */
+export type HdAccountScheme = 'evm' | 'solana' | 'hedera-ed25519' | 'hedera-ecdsa'
+
+/**
+ * BIP-44 derivation path for each scheme and account index.
+ */
+export const DERIVATION_PATHS: Record<HdAccountScheme, (index: number) => string> = {
+  'evm': index => `m/44'/60'/0'/0/${index}`,
+  'solana': index => `m/44'/501'/${index}'/0'`,
+  'hedera-ed25519': index => `m/44'/3030'/0'/0'/${index}'`,
+  'hedera-ecdsa': index => `m/44'/3030'/0'/0/${index}`,
+}
+
+/**
+ * An account derived from a mnemonic.
+ */
+export interface DerivedAccount {
+  scheme: HdAccountScheme
+  index: number
+  path: string
+  address?: string         // None for Hedera ED25519 (account IDs are assigned by the network)
+  publicKey: string        // Hex (compressed for secp256k1)
+  privateKey: string       // 0x-hex (EVM), base64 secret key (Solana), DER hex (Hedera)
+}
+
+/**
+ * Derivation options.
+ */
+export interface DeriveOptions {
+  index?: number           // Address index (default 0)
+  passphrase?: string      // BIP-39 passphrase
+  path?: string            // Overrides the scheme's standard path
+}
+
+// PKCS#8 / DER prefixes for raw 32-byte private keys
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex')
+const ECDSA_SECP256K1_DER_PREFIX = '3030020100300706052b8104000a04220420'
+
+const HARDENED_OFFSET = 0x80000000
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+/**
+ * Key scheme a chain derives with.
+ *
+ * @param chain - Target chain
+ * @param keyType - Hedera key type (default ED25519)
+ */
+export function getHdAccountScheme(
+  chain: SupportedChain,
+  keyType: ChainCredentials['keyType'] = 'ED25519'
+): HdAccountScheme {
+  if (chain === 'hedera') return keyType === 'ECDSA' ? 'hedera-ecdsa' : 'hedera-ed25519'
+  if (chain === 'solana') return 'solana'
+  if (isEvmChain(chain)) return 'evm'
+  throw new Error(`No HD derivation scheme for chain '${chain}'`)
+}
+
+/**
+ * Check a mnemonic's words and checksum (BIP-39 English wordlist).
+ */
+export async function validateMnemonic(mnemonic: string): Promise<boolean> {
+  const ethers = await loadEthers()
+  return ethers.Mnemonic.isValidMnemonic(normalizeMnemonic(mnemonic))
+}
+
+/**
+ * Derive one account from a mnemonic.
+ *
+ * @param mnemonic - BIP-39 seed phrase
+ * @param scheme - Key scheme (see getHdAccountScheme)
+ * @param options - Account index, passphrase or custom path
+ */
+export async function deriveAccount(
+  mnemonic: string,
+  scheme: HdAccountScheme,
+  options: DeriveOptions = {}
+): Promise<DerivedAccount> {
+  const [account] = await deriveAccounts(mnemonic, scheme, 1, options)
+  return account
+}
+
+/**
+ * Derive consecutive accounts from a mnemonic, starting at options.index.
+ *
+ * @param mnemonic - BIP-39 seed phrase
+ * @param scheme - Key scheme (see getHdAccountScheme)
+ * @param count - Number of accounts
+ * @param options - First index, passphrase or custom path (count must be 1 with a custom path)
+ */
+export async function deriveAccounts(
+  mnemonic: string,
+  scheme: HdAccountScheme,
+  count: number,
+  options: DeriveOptions = {}
+): Promise<DerivedAccount[]> {
+  if (!(await validateMnemonic(mnemonic))) {
+    throw new BlockchainError(
+      BlockchainErrorCode.INVALID_CREDENTIALS,
+      'Invalid mnemonic: expected 12-24 BIP-39 English words with a valid checksum'
+    )
+  }
+  if (options.path && count > 1) {
+    throw new BlockchainError(
+      BlockchainErrorCode.INVALID_CREDENTIALS,
+      'A custom derivation path derives a single account'
+    )
+  }
+
+  const seed = mnemonicToSeed(mnemonic, options.passphrase)
+  const first = options.index ?? 0
+  const accounts: DerivedAccount[] = []
+
+  for (let index = first; index < first + count; index++) {
+    const path = options.path || DERIVATION_PATHS[scheme](index)
+    accounts.push(scheme === 'evm' || scheme === 'hedera-ecdsa'
+      ? await deriveSecp256k1Account(seed, scheme, index, path)
+      : deriveEd25519Account(seed, scheme, index, path))
+  }
+
+  return accounts
+}
+
+/**
+ * Private key for a chain from credentials.mnemonic, in the format the
+ * chain's adapter accepts. Undefined when no mnemonic is configured.
+ *
+ * @param chain - Target chain
+ * @param credentials - Credentials with mnemonic (and optional accountIndex, passphrase, keyType)
+ */
+export async function derivePrivateKey(
+  chain: SupportedChain,
+  credentials?: ChainCredentials
+): Promise<string | undefined> {
+  if (!credentials?.mnemonic) return undefined
+
+  const account = await deriveAccount(
+    credentials.mnemonic,
+    getHdAccountScheme(chain, credentials.keyType),
+    { index: credentials.accountIndex, passphrase: credentials.mnemonicPassphrase }
+  )
+  return account.privateKey
+}
+
+/**
+ * BIP-39 seed: PBKDF2-HMAC-SHA512, 2048 rounds, salt "mnemonic" + passphrase.
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase: string = ''): Buffer {
+  return pbkdf2Sync(
+    Buffer.from(normalizeMnemonic(mnemonic), 'utf8'),
+    Buffer.from(`mnemonic${passphrase}`.normalize('NFKD'), 'utf8'),
+    2048,
+    64,
+    'sha512'
+  )
+}
+
+/**
+ * SLIP-0010 ed25519 derivation (all path segments must be hardened).
+ *
+ * @returns 32-byte private key seed
+ */
+export function deriveEd25519Key(seed: Buffer, path: string): Buffer {
+  let digest = createHmac('sha512', 'ed25519 seed').update(seed).digest()
+
+  for (const segment of parsePath(path)) {
+    if (segment < HARDENED_OFFSET) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        `ed25519 derivation only supports hardened path segments: ${path}`
+      )
+    }
+    const index = Buffer.alloc(4)
+    index.writeUInt32BE(segment)
+    digest = createHmac('sha512', digest.subarray(32))
+      .update(Buffer.concat([Buffer.alloc(1), digest.subarray(0, 32), index]))
+      .digest()
+  }
+
+  return digest.subarray(0, 32)
+}
+
+function deriveEd25519Account(
+  seed: Buffer,
+  scheme: HdAccountScheme,
+  index: number,
+  path: string
+): DerivedAccount {
+  const privateKey = deriveEd25519Key(seed, path)
+  const publicKey = createPublicKey(
+    createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, privateKey]), format: 'der', type: 'pkcs8' })
+  ).export({ format: 'der', type: 'spki' }).subarray(-32)
+
+  if (scheme === 'solana') {
+    return {
+      scheme,
+      index,
+      path,
+      address: encodeBase58(publicKey),
+      publicKey: publicKey.toString('hex'),
+      privateKey: Buffer.concat([privateKey, publicKey]).toString('base64'),
+    }
+  }
+
+  return {
+    scheme,
+    index,
+    path,
+    publicKey: publicKey.toString('hex'),
+    privateKey: ED25519_PKCS8_PREFIX.toString('hex') + privateKey.toString('hex'),
+  }
+}
+
+async function deriveSecp256k1Account(
+  seed: Buffer,
+  scheme: HdAccountScheme,
+  index: number,
+  path: string
+): Promise<DerivedAccount> {
+  const ethers = await loadEthers()
+  const node = ethers.HDNodeWallet.fromSeed(seed).derivePath(path)
+
+  return {
+    scheme,
+    index,
+    path,
+    address: node.address,
+    publicKey: node.publicKey.slice(2),
+    privateKey: scheme === 'evm'
+      ? node.privateKey
+      : ECDSA_SECP256K1_DER_PREFIX + node.privateKey.slice(2),
+  }
+}
+
+function parsePath(path: string): number[] {
+  const segments = path.split('/')
+  if (segments[0] !== 'm') {
+    throw new BlockchainError(BlockchainErrorCode.INVALID_CREDENTIALS, `Invalid derivation path: ${path}`)
+  }
+
+  return segments.slice(1).map(segment => {
+    const hardened = segment.endsWith("'")
+    const value = Number(hardened ? segment.slice(0, -1) : segment)
+    if (!Number.isInteger(value) || value < 0 || value >= HARDENED_OFFSET) {
+      throw new BlockchainError(BlockchainErrorCode.INVALID_CREDENTIALS, `Invalid derivation path: ${path}`)
+    }
+    return hardened ? value + HARDENED_OFFSET : value
+  })
+}
+
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().split(/\s+/).join(' ').normalize('NFKD')
+}
+
+/**
+ * Base58 (Bitcoin alphabet), as used for Solana addresses and signatures.
+ */
+export function encodeBase58(bytes: Buffer): string {
+  let value = BigInt('0x' + (bytes.toString('hex') || '0'))
+  let encoded = ''
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded
+    value /= 58n
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break
+    encoded = '1' + encoded
+  }
+  return encoded
+}
+
+async function loadEthers(): Promise<any> {
+  try {
+    return await import('ethers')
+  } catch {
+    throw new BlockchainError(
+      BlockchainErrorCode.NETWORK_ERROR,
+      'ethers.js not installed. Run: npm install ethers'
+    )
+  }
+}
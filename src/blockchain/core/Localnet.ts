@@ -0,0 +1,150 @@
+/**
+ * Local Network Support
+ *
+ * Default endpoints and funded development accounts for local nodes:
+ * - EVM chains: Hardhat / Anvil (chain ID 31337)
+ * - Solana: solana-test-validator
+ * - Hedera: Hedera local node (consensus node + mirror node)
+ *
+ * Adapters use these values when `network` is 'localnet', so tests and CI can
+ * run end to end without network access.
+ */
+
+import { SupportedChain, BlockchainConfiguration } from './types'
+import { isEvmChain } from './EvmChains'
+
+/**
+ * Local node families (all EVM chains share one local node type).
+ */
+export type LocalnetFamily = 'evm' | 'solana' | 'hedera'
+
+/**
+ * Endpoints exposed by a local node.
+ */
+export interface LocalnetEndpoints {
+  rpcUrl: string
+  mirrorNodeUrl?: string       // Hedera only (REST)
+  mirrorNodeGrpc?: string      // Hedera only (gRPC, for topic subscriptions)
+  nodeAccountId?: string       // Hedera only (consensus node account)
+  chainId?: number             // EVM only
+  explorerUrl?: string         // Undefined = no local explorer
+}
+
+/**
+ * Funded development account provided by a local node.
+ */
+export interface LocalnetDevAccount {
+  address: string
+  privateKey: string
+}
+
+/**
+ * Everything needed to run and talk to one local node family.
+ */
+export interface LocalnetProfile {
+  family: LocalnetFamily
+  displayName: string
+  endpoints: LocalnetEndpoints
+  devAccount?: LocalnetDevAccount    // Solana uses an airdrop instead
+  startCommands: string[][]          // Tried in order until one is installed
+  stopCommand?: string[]             // For nodes that manage their own processes
+}
+
+/**
+ * Local node profiles.
+ */
+export const LOCALNET_PROFILES: Record<LocalnetFamily, LocalnetProfile> = {
+  evm: {
+    family: 'evm',
+    displayName: 'Anvil / Hardhat',
+    endpoints: {
+      rpcUrl: 'http://127.0.0.1:8545',
+      chainId: 31337,
+    },
+    // Account #0 of the default Hardhat/Anvil mnemonic (10,000 ETH)
+    devAccount: {
+      address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+    },
+    startCommands: [
+      ['anvil', '--silent'],
+      ['npx', '--no-install', 'hardhat', 'node'],
+    ],
+  },
+
+  solana: {
+    family: 'solana',
+    displayName: 'solana-test-validator',
+    endpoints: {
+      rpcUrl: 'http://127.0.0.1:8899',
+      explorerUrl: 'https://explorer.solana.com',
+    },
+    startCommands: [
+      ['solana-test-validator', '--reset', '--quiet'],
+    ],
+  },
+
+  hedera: {
+    family: 'hedera',
+    displayName: 'Hedera local node',
+    endpoints: {
+      rpcUrl: '127.0.0.1:50211',
+      mirrorNodeUrl: 'http://127.0.0.1:5551',
+      mirrorNodeGrpc: '127.0.0.1:5600',
+      nodeAccountId: '0.0.3',
+    },
+    // Genesis operator account of the local node
+    devAccount: {
+      address: '0.0.2',
+      privateKey: '302e020100300506032b65700422042091132178e72057a1d7528025956fe39b0b847f200ab59b2fdd367017f3087137',
+    },
+    startCommands: [
+      ['npx', '--no-install', 'hedera', 'start', '--detached'],
+    ],
+    stopCommand: ['npx', '--no-install', 'hedera', 'stop'],
+  },
+}
+
+/**
+ * Get the local node family for a chain.
+ */
+export function getLocalnetFamily(chain: SupportedChain): LocalnetFamily {
+  if (chain === 'hedera') return 'hedera'
+  if (chain === 'solana') return 'solana'
+  if (isEvmChain(chain)) return 'evm'
+  throw new Error(`No local node available for chain '${chain}'`)
+}
+
+/**
+ * Get the local node profile for a chain.
+ */
+export function getLocalnetProfile(chain: SupportedChain): LocalnetProfile {
+  return LOCALNET_PROFILES[getLocalnetFamily(chain)]
+}
+
+/**
+ * Resolve local endpoints for a chain, applying configuration overrides.
+ *
+ * Overrides: config.rpcUrl, config.mirrorNodeUrl, customConfig.rpcUrl,
+ * customConfig.chainId and customConfig.explorerUrl.
+ */
+export function getLocalnetEndpoints(
+  chain: SupportedChain,
+  config?: BlockchainConfiguration
+): LocalnetEndpoints {
+  const defaults = getLocalnetProfile(chain).endpoints
+  return {
+    ...defaults,
+    rpcUrl: config?.rpcUrl || config?.customConfig?.rpcUrl || defaults.rpcUrl,
+    mirrorNodeUrl: config?.mirrorNodeUrl || defaults.mirrorNodeUrl,
+    chainId: config?.customConfig?.chainId || defaults.chainId,
+    explorerUrl: config?.customConfig?.explorerUrl || defaults.explorerUrl,
+  }
+}
+
+/**
+ * Get the funded development account of a chain's local node (if any).
+ */
+export function getLocalnetDevAccount(chain: SupportedChain): LocalnetDevAccount | undefined {
+  return getLocalnetProfile(chain).devAccount
+}
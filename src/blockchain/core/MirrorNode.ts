@@ -0,0 +1,540 @@
+/**
+ * Hedera Mirror Node
+ *
+ * Typed client for the mirror node REST API (`/api/v1`): accounts, balances,
+ * tokens, NFTs, transactions, contract results, topics and schedules.
+ * - Pagination: list endpoints return a page plus `links.next`; paginate()
+ *   follows it until the list (or the caller) ends
+ * - Rate limits: public mirror nodes answer 429 when polled too fast; requests
+ *   back off (Retry-After, else exponentially) and retry
+ *
+ * HederaAdapter reads everything the consensus nodes do not serve (allowances,
+ * schedules, history, topic messages) through this client. For tests, serve
+ * fixtures with startMirrorNodeStub (see MirrorNodeStub).
+ */
+
+import {
+  NetworkType,
+  BlockchainConfiguration,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+import { getLocalnetEndpoints } from './Localnet'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const DEFAULT_MIRROR_NODE_URLS = {
+  mainnet: 'https://mainnet-public.mirrornode.hedera.com',
+  testnet: 'https://testnet.mirrornode.hedera.com',
+}
+
+export const DEFAULT_MIRROR_RETRIES = 3
+export const DEFAULT_MIRROR_RETRY_DELAY_MS = 500
+
+const MAX_RETRY_DELAY_MS = 30000
+
+/**
+ * Query string parameters. Arrays repeat the parameter, which is how the
+ * mirror node takes ranges (`timestamp: ['gte:1700000000', 'lt:1700000100']`).
+ */
+export type MirrorQueryValue = string | number | boolean | undefined
+export type MirrorQuery = Record<string, MirrorQueryValue | MirrorQueryValue[]>
+
+export interface MirrorNodeClientOptions {
+  fetch?: typeof fetch           // Transport (recorder / endpoint pool); default global fetch
+  maxRetries?: number            // Retries after a 429 (default 3)
+  retryDelayMs?: number          // First backoff without Retry-After, doubled per retry (default 500)
+}
+
+/**
+ * One page of a list endpoint.
+ */
+export interface MirrorPage<T> {
+  items: T[]
+  next?: string                  // Path of the next page (`links.next`)
+}
+
+export interface MirrorAccount {
+  account: string
+  alias?: string | null
+  evm_address?: string | null
+  balance: MirrorAccountBalance
+  created_timestamp?: string | null
+  deleted?: boolean
+  expiry_timestamp?: string | null
+  key?: MirrorKey | null
+  max_automatic_token_associations?: number
+  memo?: string
+  receiver_sig_required?: boolean | null
+  staked_node_id?: number | null
+}
+
+export interface MirrorAccountBalance {
+  balance: number                // Tinybars
+  timestamp: string
+  tokens: Array<{ token_id: string; balance: number }>
+}
+
+/**
+ * An account's entry in `/api/v1/balances`.
+ */
+export interface MirrorBalance {
+  account: string
+  balance: number                // Tinybars
+  tokens: Array<{ token_id: string; balance: number }>
+}
+
+export interface MirrorKey {
+  _type: 'ED25519' | 'ECDSA_SECP256K1' | 'ProtobufEncoded'
+  key: string                    // Hex
+}
+
+/**
+ * A token an account is associated with.
+ */
+export interface MirrorTokenRelationship {
+  token_id: string
+  balance: number
+  automatic_association: boolean
+  created_timestamp: string
+  decimals: number
+  freeze_status: 'FROZEN' | 'UNFROZEN' | 'NOT_APPLICABLE'
+  kyc_status: 'GRANTED' | 'REVOKED' | 'NOT_APPLICABLE'
+}
+
+export interface MirrorToken {
+  token_id: string
+  name: string
+  symbol: string
+  type: 'FUNGIBLE_COMMON' | 'NON_FUNGIBLE_UNIQUE'
+  decimals: string               // The mirror node returns numbers as strings here
+  total_supply: string
+  initial_supply?: string
+  max_supply?: string
+  supply_type?: 'FINITE' | 'INFINITE'
+  treasury_account_id: string
+  memo?: string
+  deleted?: boolean
+  pause_status?: 'PAUSED' | 'UNPAUSED' | 'NOT_APPLICABLE'
+  admin_key?: MirrorKey | null
+  supply_key?: MirrorKey | null
+  custom_fees?: Record<string, any>
+  created_timestamp?: string
+}
+
+export interface MirrorNft {
+  account_id: string
+  token_id: string
+  serial_number: number
+  metadata: string               // Base64
+  deleted: boolean
+  spender?: string | null
+  created_timestamp: string
+  modified_timestamp?: string
+}
+
+export interface MirrorTransfer {
+  account: string
+  amount: number
+  is_approval?: boolean
+}
+
+export interface MirrorTokenTransfer extends MirrorTransfer {
+  token_id: string
+}
+
+export interface MirrorNftTransfer {
+  token_id: string
+  serial_number: number
+  sender_account_id: string | null
+  receiver_account_id: string | null
+  is_approval?: boolean
+}
+
+export interface MirrorTransaction {
+  transaction_id: string         // Mirror format: 0.0.1001-1700000000-000000000
+  consensus_timestamp: string
+  valid_start_timestamp: string
+  name: string                   // e.g. CRYPTOTRANSFER, TOKENMINT
+  result: string                 // e.g. SUCCESS, INSUFFICIENT_PAYER_BALANCE
+  charged_tx_fee: number
+  memo_base64?: string
+  node?: string | null
+  nonce: number
+  scheduled: boolean
+  entity_id?: string | null
+  transaction_hash: string
+  transfers?: MirrorTransfer[]
+  token_transfers?: MirrorTokenTransfer[]
+  nft_transfers?: MirrorNftTransfer[]
+}
+
+export interface MirrorContractResult {
+  contract_id: string
+  from: string                   // EVM address
+  to: string | null
+  hash: string                   // Ethereum transaction hash
+  timestamp: string
+  block_number: number
+  gas_limit: number
+  gas_used: number
+  amount: number
+  function_parameters: string
+  call_result: string | null
+  result: string
+  status: string                 // '0x1' success, '0x0' reverted
+  error_message?: string | null
+  logs?: Array<{ address: string; data: string; topics: string[]; index: number }>
+}
+
+export interface MirrorTopic {
+  topic_id: string
+  memo: string
+  admin_key?: MirrorKey | null
+  submit_key?: MirrorKey | null
+  auto_renew_account?: string | null
+  created_timestamp: string
+  deleted: boolean
+}
+
+/**
+ * A topic message as returned by the mirror node (see parseMirrorTopicMessage).
+ */
+export interface MirrorTopicMessage {
+  topic_id: string
+  sequence_number: number
+  consensus_timestamp: string
+  payer_account_id: string
+  message: string                // Base64
+  running_hash: string           // Base64
+  running_hash_version: number
+  chunk_info?: {
+    initial_transaction_id: { account_id: string; transaction_valid_start: string; nonce?: number; scheduled?: boolean }
+    number: number
+    total: number
+  } | null
+}
+
+export interface MirrorSchedule {
+  schedule_id: string
+  creator_account_id: string
+  payer_account_id: string
+  memo?: string
+  consensus_timestamp: string
+  executed_timestamp: string | null
+  expiration_time: string | null
+  deleted: boolean
+  signatures?: Array<{ public_key_prefix: string; signature: string; type: string }>
+  transaction_body?: string      // Base64 SchedulableTransactionBody
+}
+
+export interface MirrorTokenAllowance {
+  owner: string
+  spender: string
+  token_id: string
+  amount: number                 // Remaining
+  amount_granted: number
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Mirror node REST URL for a network: the first of config.mirrorNodeUrls,
+ * config.mirrorNodeUrl, the local node's, or the public one.
+ */
+export function getMirrorNodeUrl(network: NetworkType, config?: BlockchainConfiguration): string {
+  if (config?.mirrorNodeUrls?.length) {
+    return config.mirrorNodeUrls[0]
+  }
+  if (config?.mirrorNodeUrl) {
+    return config.mirrorNodeUrl
+  }
+  if (network === 'localnet') {
+    return getLocalnetEndpoints('hedera', config).mirrorNodeUrl!
+  }
+  return network === 'mainnet' ? DEFAULT_MIRROR_NODE_URLS.mainnet : DEFAULT_MIRROR_NODE_URLS.testnet
+}
+
+/**
+ * Convert an SDK transaction ID (`0.0.1001@1700000000.000000001`) to the
+ * form the mirror node uses in paths (`0.0.1001-1700000000-000000001`).
+ */
+export function toMirrorTransactionId(transactionId: string): string {
+  const match = /^(\d+\.\d+\.\d+)@(\d+)\.(\d+)/.exec(transactionId)
+  return match ? `${match[1]}-${match[2]}-${match[3].padEnd(9, '0')}` : transactionId
+}
+
+/**
+ * Build a query string (with leading `?`, or empty). Range operators such
+ * as `gt:` are left unescaped, as the mirror node documents them.
+ */
+export function toMirrorQueryString(query: MirrorQuery = {}): string {
+  const parts = Object.entries(query).flatMap(([key, value]) =>
+    (Array.isArray(value) ? value : [value])
+      .filter((item): item is string | number | boolean => item !== undefined)
+      .map(item => `${key}=${encodeURIComponent(String(item)).replace(/%3A/gi, ':')}`)
+  )
+  return parts.length ? `?${parts.join('&')}` : ''
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export class MirrorNodeClient {
+  readonly url: string
+
+  private readonly baseFetch?: typeof fetch
+  private readonly maxRetries: number
+  private readonly retryDelayMs: number
+
+  /**
+   * @param url - Mirror node REST URL (e.g. https://testnet.mirrornode.hedera.com)
+   * @param options - Transport and rate-limit backoff
+   */
+  constructor(url: string, options: MirrorNodeClientOptions = {}) {
+    this.url = url.replace(/\/+$/, '')
+    this.baseFetch = options.fetch
+    this.maxRetries = options.maxRetries ?? DEFAULT_MIRROR_RETRIES
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_MIRROR_RETRY_DELAY_MS
+  }
+
+  // ==========================================================================
+  // ACCOUNTS AND BALANCES
+  // ==========================================================================
+
+  /**
+   * @param account - Account ID, alias or EVM address
+   */
+  async getAccount(account: string): Promise<MirrorAccount> {
+    return await this.get(`/api/v1/accounts/${account}`, { transactions: false })
+  }
+
+  /**
+   * HBAR and token balances of an account (from the latest balance snapshot).
+   */
+  async getBalance(account: string): Promise<MirrorBalance> {
+    const { balances = [] } = await this.get<{ balances?: MirrorBalance[] }>('/api/v1/balances', { 'account.id': account })
+    if (!balances[0]) {
+      throw this.notFound(`No balance for account ${account}`)
+    }
+    return balances[0]
+  }
+
+  /**
+   * Tokens an account is associated with, and its balance of each.
+   */
+  listAccountTokens(account: string, query: MirrorQuery = {}): AsyncGenerator<MirrorTokenRelationship> {
+    return this.paginate(`/api/v1/accounts/${account}/tokens`, 'tokens', query)
+  }
+
+  /**
+   * Fungible token allowances an account has granted.
+   */
+  listTokenAllowances(owner: string, query: MirrorQuery = {}): AsyncGenerator<MirrorTokenAllowance> {
+    return this.paginate(`/api/v1/accounts/${owner}/allowances/tokens`, 'allowances', query)
+  }
+
+  // ==========================================================================
+  // TOKENS AND NFTS
+  // ==========================================================================
+
+  async getToken(tokenId: string): Promise<MirrorToken> {
+    return await this.get(`/api/v1/tokens/${tokenId}`)
+  }
+
+  async getNft(tokenId: string, serialNumber: number): Promise<MirrorNft> {
+    return await this.get(`/api/v1/tokens/${tokenId}/nfts/${serialNumber}`)
+  }
+
+  /**
+   * NFTs an account owns (all collections, or query `token.id`).
+   */
+  listAccountNfts(account: string, query: MirrorQuery = {}): AsyncGenerator<MirrorNft> {
+    return this.paginate(`/api/v1/accounts/${account}/nfts`, 'nfts', query)
+  }
+
+  /**
+   * Serials of an NFT collection.
+   */
+  listTokenNfts(tokenId: string, query: MirrorQuery = {}): AsyncGenerator<MirrorNft> {
+    return this.paginate(`/api/v1/tokens/${tokenId}/nfts`, 'nfts', query)
+  }
+
+  // ==========================================================================
+  // TRANSACTIONS
+  // ==========================================================================
+
+  /**
+   * Record of a transaction. For a scheduled transaction, the schedule
+   * creation is returned unless `scheduled` is set.
+   *
+   * @param transactionId - SDK (`0.0.1001@1700000000.000000000`) or mirror format
+   */
+  async getTransaction(transactionId: string, scheduled = false): Promise<MirrorTransaction> {
+    const { transactions = [] } = await this.get<{ transactions?: MirrorTransaction[] }>(
+      `/api/v1/transactions/${toMirrorTransactionId(transactionId)}`,
+      { scheduled: scheduled || undefined }
+    )
+    const record = transactions.find(tx => tx.nonce === 0 && tx.scheduled === scheduled) || transactions[0]
+    if (!record) {
+      throw this.notFound(`Transaction ${transactionId} not found`)
+    }
+    return record
+  }
+
+  /**
+   * Transactions across the network, or of an account (query `account.id`).
+   */
+  listTransactions(query: MirrorQuery = {}): AsyncGenerator<MirrorTransaction> {
+    return this.paginate('/api/v1/transactions', 'transactions', query)
+  }
+
+  // ==========================================================================
+  // CONTRACTS
+  // ==========================================================================
+
+  /**
+   * @param transactionIdOrHash - Transaction ID or Ethereum transaction hash
+   */
+  async getContractResult(transactionIdOrHash: string): Promise<MirrorContractResult> {
+    return await this.get(`/api/v1/contracts/results/${toMirrorTransactionId(transactionIdOrHash)}`)
+  }
+
+  listContractResults(contractId: string, query: MirrorQuery = {}): AsyncGenerator<MirrorContractResult> {
+    return this.paginate(`/api/v1/contracts/${contractId}/results`, 'results', query)
+  }
+
+  // ==========================================================================
+  // TOPICS AND SCHEDULES
+  // ==========================================================================
+
+  async getTopic(topicId: string): Promise<MirrorTopic> {
+    return await this.get(`/api/v1/topics/${topicId}`)
+  }
+
+  async getTopicMessage(topicId: string, sequenceNumber: number): Promise<MirrorTopicMessage> {
+    return await this.get(`/api/v1/topics/${topicId}/messages/${sequenceNumber}`)
+  }
+
+  listTopicMessages(topicId: string, query: MirrorQuery = {}): AsyncGenerator<MirrorTopicMessage> {
+    return this.paginate(`/api/v1/topics/${topicId}/messages`, 'messages', query)
+  }
+
+  /**
+   * Schedules, or those an account created (query `account.id`).
+   */
+  listSchedules(query: MirrorQuery = {}): AsyncGenerator<MirrorSchedule> {
+    return this.paginate('/api/v1/schedules', 'schedules', query)
+  }
+
+  // ==========================================================================
+  // REQUESTS
+  // ==========================================================================
+
+  /**
+   * GET a path.
+   *
+   * @param path - Path under the mirror node URL (e.g. `/api/v1/tokens/0.0.1001`)
+   * @param query - Query parameters
+   */
+  async get<T>(path: string, query?: MirrorQuery): Promise<T> {
+    const url = `${this.url}${path}${toMirrorQueryString(query)}`
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response
+      try {
+        response = await (this.baseFetch ?? fetch)(url)
+      } catch (error: any) {
+        throw new BlockchainError(
+          BlockchainErrorCode.NETWORK_ERROR,
+          `Mirror node unreachable at ${this.url}: ${error.message}`,
+          error
+        )
+      }
+
+      if (response.status === 429 && attempt < this.maxRetries) {
+        await new Promise(resolve => setTimeout(resolve, this.getRetryDelay(response, attempt)))
+        continue
+      }
+      if (!response.ok) {
+        throw new BlockchainError(
+          response.status === 404 ? BlockchainErrorCode.INVALID_ADDRESS : BlockchainErrorCode.NETWORK_ERROR,
+          `Mirror node returned ${response.status} for ${path}${await this.readErrorMessage(response)}`,
+          { status: response.status, url }
+        )
+      }
+      return await response.json() as T
+    }
+  }
+
+  /**
+   * GET one page of a list endpoint.
+   *
+   * @param path - List path, or a `links.next` path from a previous page
+   * @param key - Field holding the items (e.g. `transactions`)
+   * @param query - Query parameters (leave out when following `links.next`)
+   */
+  async getPage<T>(path: string, key: string, query?: MirrorQuery): Promise<MirrorPage<T>> {
+    const body = await this.get<Record<string, any>>(path, query)
+    return { items: body[key] || [], next: body.links?.next || undefined }
+  }
+
+  /**
+   * Items of a list endpoint, page by page. Stop iterating to stop fetching.
+   *
+   * @param path - List path
+   * @param key - Field holding the items
+   * @param query - Query parameters of the first page (`limit` sets the page size)
+   */
+  async *paginate<T>(path: string, key: string, query?: MirrorQuery): AsyncGenerator<T> {
+    let page = await this.getPage<T>(path, key, query)
+
+    while (true) {
+      yield* page.items
+      if (!page.next || page.items.length === 0) {
+        return
+      }
+      page = await this.getPage<T>(page.next, key)
+    }
+  }
+
+  /**
+   * Collect up to `max` items of a list (e.g. from listTransactions).
+   */
+  async collect<T>(items: AsyncIterable<T>, max = Infinity): Promise<T[]> {
+    const collected: T[] = []
+    if (max <= 0) return collected
+
+    for await (const item of items) {
+      collected.push(item)
+      if (collected.length >= max) break
+    }
+    return collected
+  }
+
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = response.headers?.get('retry-after')
+    const seconds = retryAfter ? Number(retryAfter) : NaN
+    const delay = seconds >= 0 ? seconds * 1000 : this.retryDelayMs * 2 ** attempt
+    return Math.min(delay, MAX_RETRY_DELAY_MS)
+  }
+
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const body = await response.json()
+      const message = body?._status?.messages?.[0]?.message
+      return message ? `: ${message}` : ''
+    } catch {
+      return ''
+    }
+  }
+
+  private notFound(message: string): BlockchainError {
+    return new BlockchainError(BlockchainErrorCode.INVALID_ADDRESS, message, { status: 404 })
+  }
+}
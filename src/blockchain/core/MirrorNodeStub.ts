@@ -0,0 +1,129 @@
+/**
+ * Mirror Node Stub
+ *
+ * A local HTTP server that answers mirror node REST paths with fixtures, so
+ * MirrorNodeClient and HederaAdapter can be tested without a network:
+ * - Lists are paginated like the real node: `?limit=` sets the page size and
+ *   `links.next` points at the next page (with an offset, where the real node
+ *   uses the last item's timestamp or ID)
+ * - Equality filters such as `?token.id=0.0.5005` select list items whose
+ *   field (`token_id`) matches; range operators (`gte:`) are ignored
+ * - Rate limits: the first `rateLimit` requests are answered with 429
+ *
+ *   const stub = await startMirrorNodeStub()
+ *   stub.setList('/api/v1/accounts/0.0.1001/nfts', 'nfts', nfts)
+ *   const adapter = ... initialize({ ..., mirrorNodeUrl: stub.url })
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+
+/**
+ * Stub server options.
+ */
+export interface MirrorNodeStubOptions {
+  port?: number            // Default 0 (a free port)
+  host?: string            // Default 127.0.0.1
+  pageSize?: number        // Page size of requests without `limit` (default 25)
+  rateLimit?: number       // Answer this many requests with 429 first (default 0)
+  retryAfter?: number      // Retry-After of 429 answers, seconds (default 0)
+}
+
+/**
+ * A running stub server.
+ */
+export interface MirrorNodeStub {
+  url: string
+  requests: string[]       // Paths requested, with query strings, in order
+  setResponse(path: string, body: any, status?: number): void
+  setList(path: string, key: string, items: any[]): void
+  close(): Promise<void>
+}
+
+/**
+ * Serve mirror node fixtures over HTTP. Paths match without their query
+ * strings; unknown paths are answered with the mirror node's 404.
+ *
+ * @param options - Listen address, page size and rate limiting
+ */
+export async function startMirrorNodeStub(options: MirrorNodeStubOptions = {}): Promise<MirrorNodeStub> {
+  const responses = new Map<string, { status: number; body: any }>()
+  const lists = new Map<string, { key: string; items: any[] }>()
+  const requests: string[] = []
+  let limited = 0
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: any, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'content-type': 'application/json', ...headers })
+      res.end(JSON.stringify(body))
+    }
+
+    const requestUrl = new URL(req.url || '/', 'http://stub')
+    requests.push(requestUrl.pathname + requestUrl.search)
+
+    if (limited < (options.rateLimit ?? 0)) {
+      limited++
+      return reply(429, status('Too Many Requests'), { 'retry-after': String(options.retryAfter ?? 0) })
+    }
+
+    const fixed = responses.get(requestUrl.pathname)
+    if (fixed) {
+      return reply(fixed.status, fixed.body)
+    }
+
+    const list = lists.get(requestUrl.pathname)
+    if (list) {
+      const limit = Number(requestUrl.searchParams.get('limit')) || options.pageSize || 25
+      const offset = Number(requestUrl.searchParams.get('offset')) || 0
+      const end = offset + limit
+      const items = list.items.filter(item => matchesFilters(item, requestUrl.searchParams))
+
+      let next: string | null = null
+      if (end < items.length) {
+        const params = new URLSearchParams(requestUrl.searchParams)
+        params.set('limit', String(limit))
+        params.set('offset', String(end))
+        next = `${requestUrl.pathname}?${params.toString().replace(/%3A/gi, ':')}`
+      }
+      return reply(200, { [list.key]: items.slice(offset, end), links: { next } })
+    }
+
+    reply(404, status('Not found'))
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port ?? 0, options.host || '127.0.0.1', resolve)
+  })
+
+  const { address, port } = server.address() as AddressInfo
+  return {
+    url: `http://${address}:${port}`,
+    requests,
+    setResponse: (path, body, code = 200) => {
+      responses.set(path, { status: code, body })
+    },
+    setList: (path, key, items) => {
+      lists.set(path, { key, items })
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve())
+    }),
+  }
+}
+
+// Whether a list item passes the request's equality filters
+function matchesFilters(item: any, params: URLSearchParams): boolean {
+  for (const [name, value] of params) {
+    const field = name.replace('.', '_')
+    if (name !== 'limit' && name !== 'offset' && !value.includes(':') && field in item && String(item[field]) !== value) {
+      return false
+    }
+  }
+  return true
+}
+
+// The mirror node's error body
+function status(message: string): Record<string, any> {
+  return { _status: { messages: [{ message }] } }
+}
@@ -0,0 +1,323 @@
+/**
+ * Multisig Proposals
+ *
+ * Transactions that several parties approve before they execute, behind
+ * one interface (adapter.proposeTransaction / approveProposal):
+ * - Hedera: scheduled transactions. The network collects signatures and
+ *   executes once the payer account's key is satisfied (see HederaAdapter)
+ * - EVM: Safe (Gnosis Safe) transactions. Owners sign the EIP-712 SafeTx
+ *   hash and share signatures through the Safe Transaction Service; the
+ *   approval that reaches the threshold calls execTransaction
+ *
+ * This module holds the Safe side: hashing, signature packing, action
+ * encoding and the Transaction Service client.
+ */
+
+import {
+  ProposalAction,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+// ============================================================================
+// SAFE TRANSACTIONS
+// ============================================================================
+
+export const SAFE_ABI = [
+  'function nonce() view returns (uint256)',
+  'function getThreshold() view returns (uint256)',
+  'function getOwners() view returns (address[])',
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
+]
+
+/**
+ * EIP-712 types of a Safe transaction (Safe contracts v1.3+).
+ */
+export const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+// ERC-20 calls proposals encode (ERC20.json is the full APIX token ABI)
+const ERC20_PROPOSAL_ABI = [
+  'function transfer(address to, uint256 amount)',
+  'function mint(address to, uint256 amount)',
+]
+
+/**
+ * The signed fields of a Safe transaction. Amounts are decimal strings,
+ * as the Transaction Service returns them.
+ */
+export interface SafeTransactionData {
+  to: string
+  value: string
+  data: string
+  operation: number              // 0 = call, 1 = delegatecall
+  safeTxGas: string
+  baseGas: string
+  gasPrice: string
+  gasToken: string
+  refundReceiver: string
+  nonce: number
+}
+
+/**
+ * An owner's signature on a Safe transaction.
+ */
+export interface SafeConfirmation {
+  owner: string
+  signature: string
+}
+
+/**
+ * A Safe transaction as stored by the Transaction Service.
+ */
+export interface SafeServiceTransaction extends SafeTransactionData {
+  safe: string
+  safeTxHash: string
+  proposer?: string
+  origin?: string | null
+  isExecuted: boolean
+  transactionHash?: string | null
+  confirmationsRequired: number
+  confirmations: SafeConfirmation[]
+}
+
+/**
+ * A Safe transaction with no gas refund (the executor pays gas).
+ */
+export function createSafeTransaction(
+  call: { to: string; value: string | bigint; data: string },
+  nonce: number
+): SafeTransactionData {
+  return {
+    to: call.to,
+    value: call.value.toString(),
+    data: call.data,
+    operation: 0,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: ZERO_ADDRESS,
+    refundReceiver: ZERO_ADDRESS,
+    nonce,
+  }
+}
+
+/**
+ * The signed fields of a Transaction Service record.
+ */
+export function toSafeTransactionData(tx: SafeServiceTransaction): SafeTransactionData {
+  return {
+    to: tx.to,
+    value: String(tx.value),
+    data: tx.data || '0x',
+    operation: Number(tx.operation),
+    safeTxGas: String(tx.safeTxGas),
+    baseGas: String(tx.baseGas),
+    gasPrice: String(tx.gasPrice),
+    gasToken: tx.gasToken,
+    refundReceiver: tx.refundReceiver,
+    nonce: Number(tx.nonce),
+  }
+}
+
+/**
+ * EIP-712 domain of a Safe.
+ */
+export function getSafeDomain(safe: string, chainId: number): { chainId: number; verifyingContract: string } {
+  return { chainId, verifyingContract: safe }
+}
+
+/**
+ * SafeTx hash: what owners sign and the Transaction Service's ID.
+ *
+ * @param ethers - Loaded ethers module
+ * @param safe - Safe address
+ * @param chainId - EVM chain ID
+ * @param tx - Transaction fields
+ */
+export function hashSafeTransaction(ethers: any, safe: string, chainId: number, tx: SafeTransactionData): string {
+  return ethers.TypedDataEncoder.hash(getSafeDomain(safe, chainId), SAFE_TX_TYPES, tx)
+}
+
+/**
+ * Concatenate owner signatures for execTransaction, which requires them
+ * ordered by owner address.
+ */
+export function packSafeSignatures(confirmations: SafeConfirmation[]): string {
+  return '0x' + [...confirmations]
+    .sort((a, b) => (BigInt(a.owner) < BigInt(b.owner) ? -1 : 1))
+    .map(confirmation => confirmation.signature.replace(/^0x/, ''))
+    .join('')
+}
+
+/**
+ * The call a Safe makes for a proposal action.
+ *
+ * @param ethers - Loaded ethers module
+ * @param action - Proposal action
+ * @param safe - Safe address (default mint recipient)
+ */
+export function encodeSafeAction(ethers: any, action: ProposalAction, safe: string): { to: string; value: bigint; data: string } {
+  const erc20 = new ethers.Interface(ERC20_PROPOSAL_ABI)
+
+  switch (action.type) {
+    case 'transfer':
+      return action.tokenId
+        ? { to: action.tokenId, value: 0n, data: erc20.encodeFunctionData('transfer', [action.to, BigInt(action.amount)]) }
+        : { to: action.to, value: BigInt(action.amount), data: '0x' }
+
+    case 'mint':
+      return { to: action.tokenId, value: 0n, data: erc20.encodeFunctionData('mint', [action.to || safe, BigInt(action.amount)]) }
+
+    case 'contract-call':
+      return { to: action.contractAddress, value: BigInt(action.value ?? 0), data: action.data }
+
+    default:
+      throw new BlockchainError(
+        BlockchainErrorCode.UNSUPPORTED_OPERATION,
+        `Unknown proposal action: ${(action as any).type}`
+      )
+  }
+}
+
+/**
+ * Human-readable lines for a Safe transaction. ERC-20 transfers and mints
+ * are decoded; other calls show their selector.
+ *
+ * @param ethers - Loaded ethers module
+ * @param tx - Transaction fields
+ * @param symbol - Native currency symbol
+ */
+export function describeSafeTransaction(ethers: any, tx: SafeTransactionData, symbol: string): string[] {
+  const lines = [`To: ${tx.to}`, `Value: ${ethers.formatEther(BigInt(tx.value))} ${symbol}`]
+  const data = tx.data || '0x'
+
+  if (data !== '0x') {
+    const call = new ethers.Interface(ERC20_PROPOSAL_ABI).parseTransaction({ data })
+    lines.push(call
+      ? `ERC-20 ${call.name} of ${call.args[1]} to ${call.args[0]}`
+      : `Data: ${ethers.dataLength(data)} bytes, selector ${data.slice(0, 10)}`)
+  }
+  if (tx.operation === 1) {
+    lines.push('Operation: DELEGATECALL')
+  }
+  lines.push(`Safe nonce: ${tx.nonce}`)
+  return lines
+}
+
+// ============================================================================
+// TRANSACTION SERVICE
+// ============================================================================
+
+/**
+ * Client for the Safe Transaction Service REST API, where owners share
+ * proposed transactions and signatures.
+ */
+export class SafeTransactionService {
+  private readonly url: string
+  private readonly baseFetch: typeof fetch
+
+  /**
+   * @param url - Service URL (e.g. https://safe-transaction-sepolia.safe.global)
+   * @param baseFetch - Transport
+   */
+  constructor(url: string, baseFetch: typeof fetch = globalThis.fetch) {
+    this.url = url.replace(/\/+$/, '')
+    this.baseFetch = baseFetch
+  }
+
+  /**
+   * Propose a transaction with the proposer's signature.
+   */
+  async proposeTransaction(
+    safe: string,
+    tx: SafeTransactionData,
+    safeTxHash: string,
+    confirmation: SafeConfirmation,
+    origin?: string
+  ): Promise<void> {
+    await this.request('POST', `/api/v1/safes/${safe}/multisig-transactions/`, {
+      ...tx,
+      contractTransactionHash: safeTxHash,
+      sender: confirmation.owner,
+      signature: confirmation.signature,
+      origin,
+    })
+  }
+
+  /**
+   * Add an owner's signature to a proposed transaction.
+   */
+  async confirmTransaction(safeTxHash: string, signature: string): Promise<void> {
+    await this.request('POST', `/api/v1/multisig-transactions/${safeTxHash}/confirmations/`, { signature })
+  }
+
+  async getTransaction(safeTxHash: string): Promise<SafeServiceTransaction> {
+    return await this.request('GET', `/api/v1/multisig-transactions/${safeTxHash}/`)
+  }
+
+  /**
+   * Unexecuted transactions from a nonce on (lower nonces can no longer run).
+   */
+  async getPendingTransactions(safe: string, fromNonce: number, limit: number): Promise<SafeServiceTransaction[]> {
+    const { results = [] } = await this.request(
+      'GET',
+      `/api/v1/safes/${safe}/multisig-transactions/?executed=false&nonce__gte=${fromNonce}&ordering=nonce&limit=${limit}`
+    )
+    return results
+  }
+
+  /**
+   * Nonce for a new proposal: after the last one already queued, so that
+   * proposals awaiting signatures are not replaced.
+   *
+   * @param safeNonce - The Safe's on-chain nonce
+   */
+  async getNextNonce(safe: string, safeNonce: number): Promise<number> {
+    const { results = [] } = await this.request(
+      'GET',
+      `/api/v1/safes/${safe}/multisig-transactions/?executed=false&nonce__gte=${safeNonce}&ordering=-nonce&limit=1`
+    )
+    return results.length ? Math.max(safeNonce, Number(results[0].nonce) + 1) : safeNonce
+  }
+
+  private async request(method: string, path: string, body?: Record<string, any>): Promise<any> {
+    let response: Response
+    try {
+      response = await this.baseFetch(this.url + path, {
+        method,
+        headers: { 'content-type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Safe Transaction Service unreachable at ${this.url}: ${error.message}`,
+        error
+      )
+    }
+
+    const text = await response.text()
+    if (!response.ok) {
+      throw new BlockchainError(
+        response.status === 404 ? BlockchainErrorCode.INVALID_ADDRESS : BlockchainErrorCode.TRANSACTION_FAILED,
+        `Safe Transaction Service refused ${method} ${path} (${response.status}): ${text || response.statusText}`
+      )
+    }
+    return text ? JSON.parse(text) : {}
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * EVM Nonce Manager
+ *
+ * Hands out nonces for one account locally instead of asking the node for
+ * every send, so parallel sends from the same key never collide:
+ * - Allocation: the first nonce comes from the node's pending count, later
+ *   ones are incremented locally (serialized, so concurrent callers get
+ *   consecutive nonces)
+ * - Gaps: a nonce whose send failed before broadcast is reused by the next send
+ * - Tracking: broadcast transactions stay pending until the account's mined
+ *   nonce passes them
+ * - Replacement: a pending transaction can be sped up or cancelled by
+ *   re-sending its nonce with bumped fees
+ *
+ * Used by EthereumAdapter, and therefore by every EvmAdapter chain.
+ */
+
+import {
+  PendingTransaction,
+  ReplaceTransactionOptions,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Provider methods the manager needs (ethers v6 Provider).
+ */
+export interface NonceProvider {
+  getTransactionCount(address: string, blockTag?: string): Promise<number>
+  getFeeData(): Promise<{ gasPrice: bigint | null; maxFeePerGas: bigint | null; maxPriorityFeePerGas: bigint | null }>
+}
+
+/**
+ * Signer methods the manager needs (ethers v6 Signer).
+ */
+export interface NonceSigner {
+  sendTransaction(tx: any): Promise<SentTransaction>
+}
+
+/**
+ * Broadcast transaction (ethers v6 TransactionResponse).
+ */
+export interface SentTransaction {
+  hash: string
+  to?: string | null
+  data?: string
+  value?: bigint
+  gasLimit?: bigint
+  gasPrice?: bigint | null
+  maxFeePerGas?: bigint | null
+  maxPriorityFeePerGas?: bigint | null
+}
+
+export const DEFAULT_FEE_BUMP_PERCENT = 15
+// Geth / most clients reject replacements that pay less than 10% more
+const MIN_FEE_BUMP_PERCENT = 10
+const CANCEL_GAS_LIMIT = BigInt(21000)
+
+// Node errors meaning our local nonce is out of step with the chain
+const NONCE_ERROR_PATTERN = /nonce too low|nonce has already been used|already known|replacement (fee too low|transaction underpriced)/i
+
+// ============================================================================
+// NONCE MANAGER
+// ============================================================================
+
+export class NonceManager {
+  readonly address: string
+
+  private provider: NonceProvider
+  private signer: NonceSigner
+  private nextNonce?: number
+  private freed: number[] = []
+  private pending = new Map<number, PendingTransaction>()
+  private lock: Promise<unknown> = Promise.resolve()
+
+  /**
+   * @param address - Account the nonces belong to
+   * @param provider - Provider for nonce counts and fee data
+   * @param signer - Signer for the account (used for replacements)
+   */
+  constructor(address: string, provider: NonceProvider, signer: NonceSigner) {
+    this.address = address
+    this.provider = provider
+    this.signer = signer
+  }
+
+  /**
+   * Send a transaction with the next nonce.
+   *
+   * @param submit - Builds and broadcasts the transaction with the given nonce
+   * @returns The broadcast transaction (tracked as pending)
+   */
+  async send<T extends SentTransaction>(submit: (nonce: number) => Promise<T>): Promise<T> {
+    const nonce = await this.reserve()
+
+    let tx: T
+    try {
+      tx = await submit(nonce)
+    } catch (error: any) {
+      await this.release(nonce, error)
+      throw error
+    }
+
+    this.pending.set(nonce, {
+      nonce,
+      hash: tx.hash,
+      replacedHashes: [],
+      cancelled: false,
+      to: tx.to ?? undefined,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      ...this.getFees(tx),
+      submittedAt: new Date(),
+    })
+    return tx
+  }
+
+  /**
+   * Pending transactions, oldest nonce first. Mined ones are dropped.
+   */
+  async getPending(): Promise<PendingTransaction[]> {
+    const mined = await this.provider.getTransactionCount(this.address, 'latest')
+    for (const nonce of this.pending.keys()) {
+      if (nonce < mined) this.pending.delete(nonce)
+    }
+    return [...this.pending.values()].sort((a, b) => a.nonce - b.nonce)
+  }
+
+  /**
+   * Re-send a pending transaction with higher fees.
+   *
+   * @param hashOrNonce - Latest hash or nonce of the pending transaction
+   * @param options - Fee bump
+   */
+  async speedUp(hashOrNonce: string | number, options: ReplaceTransactionOptions = {}): Promise<SentTransaction> {
+    const entry = this.findPending(hashOrNonce)
+    return this.replace(entry, {
+      to: entry.to,
+      data: entry.data,
+      value: entry.value,
+      gasLimit: entry.gasLimit,
+    }, options)
+  }
+
+  /**
+   * Replace a pending transaction with an empty self-transfer, so its nonce
+   * is used up without executing the original.
+   *
+   * @param hashOrNonce - Latest hash or nonce of the pending transaction
+   * @param options - Fee bump
+   */
+  async cancel(hashOrNonce: string | number, options: ReplaceTransactionOptions = {}): Promise<SentTransaction> {
+    const entry = this.findPending(hashOrNonce)
+    const tx = await this.replace(entry, {
+      to: this.address,
+      data: '0x',
+      value: BigInt(0),
+      gasLimit: CANCEL_GAS_LIMIT,
+    }, options)
+    entry.cancelled = true
+    return tx
+  }
+
+  /**
+   * Forget the local nonce and re-read it from the node on the next send.
+   */
+  reset(): Promise<void> {
+    return this.serialize(async () => {
+      this.nextNonce = undefined
+      this.freed = []
+    })
+  }
+
+  private reserve(): Promise<number> {
+    return this.serialize(async () => {
+      if (this.freed.length > 0) {
+        return this.freed.shift()!
+      }
+      if (this.nextNonce === undefined) {
+        this.nextNonce = await this.provider.getTransactionCount(this.address, 'pending')
+      }
+      return this.nextNonce++
+    })
+  }
+
+  /**
+   * Give back a nonce whose send failed.
+   */
+  private release(nonce: number, error: any): Promise<void> {
+    return this.serialize(async () => {
+      if (NONCE_ERROR_PATTERN.test(error?.message || '')) {
+        // Something else used our nonces; re-read from the node
+        this.nextNonce = undefined
+        this.freed = []
+      } else if (this.nextNonce === nonce + 1) {
+        this.nextNonce = nonce
+      } else {
+        this.freed = [...this.freed, nonce].sort((a, b) => a - b)
+      }
+    })
+  }
+
+  private async replace(
+    entry: PendingTransaction,
+    request: { to?: string; data?: string; value?: bigint; gasLimit?: bigint },
+    options: ReplaceTransactionOptions
+  ): Promise<SentTransaction> {
+    const bumpPercent = options.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT
+    if (bumpPercent < MIN_FEE_BUMP_PERCENT) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `Fee bump must be at least ${MIN_FEE_BUMP_PERCENT}% for nodes to accept a replacement`
+      )
+    }
+
+    const fees = await this.getReplacementFees(entry, bumpPercent)
+    const tx = await this.signer.sendTransaction({ ...request, nonce: entry.nonce, ...fees })
+
+    entry.replacedHashes.push(entry.hash)
+    entry.hash = tx.hash
+    Object.assign(entry, request, fees)
+    return tx
+  }
+
+  /**
+   * Bumped fees, but never below what the network currently asks.
+   */
+  private async getReplacementFees(
+    entry: PendingTransaction,
+    bumpPercent: number
+  ): Promise<Pick<PendingTransaction, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'>> {
+    const feeData = await this.provider.getFeeData()
+    const bump = (value: bigint | undefined | null) =>
+      // Round up so small fees still clear the minimum bump
+      ((value ?? BigInt(0)) * BigInt(100 + bumpPercent) + BigInt(99)) / BigInt(100)
+    const max = (a: bigint, b: bigint | null) => (b !== null && b > a ? b : a)
+
+    if (entry.maxFeePerGas !== undefined || (entry.gasPrice === undefined && feeData.maxFeePerGas !== null)) {
+      const maxPriorityFeePerGas = max(bump(entry.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas)
+      const maxFeePerGas = max(max(bump(entry.maxFeePerGas ?? feeData.maxFeePerGas), feeData.maxFeePerGas), maxPriorityFeePerGas)
+      return { maxFeePerGas, maxPriorityFeePerGas }
+    }
+
+    return { gasPrice: max(bump(entry.gasPrice ?? feeData.gasPrice), feeData.gasPrice) }
+  }
+
+  private getFees(tx: SentTransaction): Pick<PendingTransaction, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+    if (tx.maxFeePerGas !== undefined && tx.maxFeePerGas !== null) {
+      return {
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? undefined,
+      }
+    }
+    return { gasPrice: tx.gasPrice ?? undefined }
+  }
+
+  private findPending(hashOrNonce: string | number): PendingTransaction {
+    const entry = typeof hashOrNonce === 'number'
+      ? this.pending.get(hashOrNonce)
+      : [...this.pending.values()].find(tx =>
+          tx.hash === hashOrNonce || tx.replacedHashes.includes(hashOrNonce))
+
+    if (!entry) {
+      throw new BlockchainError(
+        BlockchainErrorCode.TRANSACTION_FAILED,
+        `No pending transaction ${hashOrNonce} for ${this.address}`
+      )
+    }
+    return entry
+  }
+
+  /**
+   * Run nonce bookkeeping one step at a time.
+   */
+  private serialize<T>(step: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(step)
+    this.lock = result.catch(() => undefined)
+    return result
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Offline Transactions (air-gapped signing)
+ *
+ * A transaction moves between machines as one JSON file:
+ * 1. build (online): the adapter fills in nonce, fees, blockhash or transaction
+ *    ID and serializes the unsigned transaction (adapter.buildTransaction)
+ * 2. sign (offline): signOfflineTransaction signs the payload with any Signer,
+ *    without network access or an adapter
+ * 3. broadcast (online): the adapter submits the signed bytes
+ *    (adapter.broadcastTransaction)
+ *
+ * Payloads are the chains' own wire formats: unsigned RLP (EVM), the Solana
+ * wire format with empty signatures, and frozen Hedera transaction bytes.
+ * Summaries are decoded from the payload, so the signing machine can check
+ * what it signs with summarizeTransaction instead of trusting the file.
+ */
+
+import fs from 'fs-extra'
+import {
+  SupportedChain,
+  NetworkType,
+  Signer,
+  SignerPublicKey,
+  SignedTransaction,
+  UnsignedTransaction,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+import { CHAIN_METADATA } from './ChainCapabilities'
+import { isEvmChain } from './EvmChains'
+import { encodeBase58 } from './HdWallet'
+import { createHederaSigner, requireSignerKeyType, signEvmDigest } from './Signer'
+
+export const OFFLINE_TRANSACTION_FORMAT = 'apix-offline-transaction'
+
+/**
+ * Portable file passed between the online and the air-gapped machine.
+ */
+export interface OfflineTransactionFile {
+  format: typeof OFFLINE_TRANSACTION_FORMAT
+  version: 1
+  chain: SupportedChain
+  network: NetworkType
+  signer: string                                   // Address or account that has to sign
+  summary: string[]                                // Decoded from payload when built
+  transaction: Record<string, string | number>    // Requested transaction (bigints as decimal strings)
+  payload: string                                  // Unsigned wire bytes (see UnsignedTransaction)
+  createdAt: string
+  expiresAt?: string
+  signed?: SignedTransaction                       // Latest signed bytes
+  signatures?: OfflineSignature[]                  // Solana and Hedera transactions can collect several
+}
+
+/**
+ * A signature added to an offline transaction.
+ */
+export interface OfflineSignature extends SignerPublicKey {
+  signedAt: string
+}
+
+/**
+ * File contents for an unsigned transaction.
+ */
+export function toOfflineTransactionFile(unsigned: UnsignedTransaction): OfflineTransactionFile {
+  const transaction: Record<string, string | number> = {}
+  for (const [field, value] of Object.entries(unsigned.transaction)) {
+    if (value !== undefined) {
+      transaction[field] = typeof value === 'bigint' ? value.toString() : value
+    }
+  }
+
+  return {
+    format: OFFLINE_TRANSACTION_FORMAT,
+    version: 1,
+    chain: unsigned.chain,
+    network: unsigned.network,
+    signer: unsigned.signer,
+    summary: unsigned.summary,
+    transaction,
+    payload: unsigned.payload,
+    createdAt: new Date().toISOString(),
+    expiresAt: unsigned.expiresAt?.toISOString(),
+  }
+}
+
+/**
+ * Read and check an offline transaction file.
+ */
+export async function readOfflineTransaction(path: string): Promise<OfflineTransactionFile> {
+  const file = await fs.readJson(path)
+  if (file?.format !== OFFLINE_TRANSACTION_FORMAT || file.version !== 1) {
+    throw new BlockchainError(
+      BlockchainErrorCode.UNSUPPORTED_OPERATION,
+      `${path} is not an offline transaction file (expected format ${OFFLINE_TRANSACTION_FORMAT}, version 1)`
+    )
+  }
+  if (!file.chain || !file.network || typeof file.payload !== 'string') {
+    throw new BlockchainError(
+      BlockchainErrorCode.UNSUPPORTED_OPERATION,
+      `${path} is missing chain, network or payload`
+    )
+  }
+  return file
+}
+
+/**
+ * Write an offline transaction file.
+ */
+export async function writeOfflineTransaction(path: string, file: OfflineTransactionFile): Promise<void> {
+  await fs.writeJson(path, file, { spaces: 2 })
+}
+
+/**
+ * Whether the network will reject the transaction for its age.
+ */
+export function isOfflineTransactionExpired(file: OfflineTransactionFile, now: Date = new Date()): boolean {
+  return !!file.expiresAt && new Date(file.expiresAt).getTime() <= now.getTime()
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+/**
+ * Human-readable lines decoded from an unsigned or signed payload.
+ *
+ * @param chain - Chain the payload is for
+ * @param network - Network (shown in the first line)
+ * @param payload - Hex (EVM, Hedera) or base64 (Solana) wire bytes
+ */
+export async function summarizeTransaction(
+  chain: SupportedChain,
+  network: NetworkType,
+  payload: string
+): Promise<string[]> {
+  const heading = `${CHAIN_METADATA[chain]?.displayName || chain} ${network}`
+
+  try {
+    if (chain === 'hedera') return [heading, ...await summarizeHederaTransaction(payload)]
+    if (chain === 'solana') return [heading, ...await summarizeSolanaTransaction(payload)]
+    if (isEvmChain(chain)) return [heading, ...await summarizeEvmTransaction(chain, payload)]
+  } catch (error: any) {
+    if (error instanceof BlockchainError) throw error
+    throw new BlockchainError(
+      BlockchainErrorCode.TRANSACTION_FAILED,
+      `Cannot decode ${chain} transaction: ${error.message}`,
+      error
+    )
+  }
+  throw unsupportedChain(chain)
+}
+
+async function summarizeEvmTransaction(chain: SupportedChain, payload: string): Promise<string[]> {
+  const ethers = await loadEthers()
+  const tx = ethers.Transaction.from(payload)
+  const symbol = CHAIN_METADATA[chain]?.nativeToken || 'ETH'
+  const data: string = tx.data
+
+  const lines = [
+    `Chain ID: ${tx.chainId}`,
+    `To: ${tx.to ?? '(contract creation)'}`,
+    `Value: ${ethers.formatEther(tx.value)} ${symbol}`,
+    data === '0x'
+      ? 'Data: none'
+      : `Data: ${ethers.dataLength(data)} bytes${tx.to ? `, selector ${data.slice(0, 10)}` : ''}`,
+    `Nonce: ${tx.nonce}`,
+    `Gas limit: ${tx.gasLimit}`,
+  ]
+
+  const maxFeePerGas: bigint = tx.maxFeePerGas ?? tx.gasPrice ?? 0n
+  lines.push(tx.maxFeePerGas != null
+    ? `Max fee: ${ethers.formatUnits(tx.maxFeePerGas, 'gwei')} gwei (priority ${ethers.formatUnits(tx.maxPriorityFeePerGas, 'gwei')} gwei)`
+    : `Gas price: ${ethers.formatUnits(maxFeePerGas, 'gwei')} gwei`)
+  lines.push(`Max cost: ${ethers.formatEther(tx.gasLimit * maxFeePerGas + tx.value)} ${symbol}`)
+  return lines
+}
+
+async function summarizeSolanaTransaction(payload: string): Promise<string[]> {
+  const solana = await loadSolana()
+  const tx = solana.Transaction.from(Buffer.from(payload, 'base64'))
+  const { SystemProgram, SystemInstruction, LAMPORTS_PER_SOL } = solana
+
+  const lines = [`Fee payer: ${tx.feePayer?.toBase58() ?? '(none)'}`]
+  const instructions = tx.instructions.map((instruction: any, index: number) => {
+    if (instruction.programId.equals(SystemProgram.programId)) {
+      const type = SystemInstruction.decodeInstructionType(instruction)
+      if (type === 'Transfer') {
+        const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction)
+        return `Transfer ${Number(lamports) / LAMPORTS_PER_SOL} SOL from ${fromPubkey.toBase58()} to ${toPubkey.toBase58()}`
+      }
+      if (type === 'AdvanceNonceAccount') {
+        const { noncePubkey } = SystemInstruction.decodeNonceAdvance(instruction)
+        return `Advance nonce account ${noncePubkey.toBase58()}`
+      }
+      return `System program: ${type}`
+    }
+    return `Instruction ${index + 1}: program ${instruction.programId.toBase58()}, ${instruction.keys.length} accounts, ${instruction.data.length} bytes`
+  })
+
+  const usesNonce = instructions[0]?.startsWith('Advance nonce account')
+  lines.push(`${usesNonce ? 'Durable nonce' : 'Recent blockhash'}: ${tx.recentBlockhash}`)
+  lines.push(...instructions)
+  lines.push(`Signers: ${tx.signatures.map((entry: any) => entry.publicKey.toBase58()).join(', ')}`)
+  return lines
+}
+
+async function summarizeHederaTransaction(payload: string): Promise<string[]> {
+  const hashgraph = await loadHederaSdk()
+  const tx = hashgraph.Transaction.fromBytes(Buffer.from(payload, 'hex'))
+  const validStart: Date = tx.transactionId.validStart.toDate()
+
+  const lines = [
+    `Type: ${tx.constructor.name}`,
+    `Transaction ID: ${tx.transactionId.toString()}`,
+    `Valid: ${validStart.toISOString()} for ${tx.transactionValidDuration}s`,
+    `Nodes: ${tx.nodeAccountIds.map((id: any) => id.toString()).join(', ')}`,
+    `Max fee: ${tx.maxTransactionFee?.toString() ?? 'default'}`,
+  ]
+  if (tx.transactionMemo) {
+    lines.push(`Memo: ${tx.transactionMemo}`)
+  }
+
+  if (tx instanceof hashgraph.TransferTransaction) {
+    for (const [account, amount] of tx.hbarTransfers) {
+      lines.push(`HBAR ${account.toString()}: ${amount.toString()}`)
+    }
+  }
+  if (tx instanceof hashgraph.ContractExecuteTransaction) {
+    lines.push(`Contract: ${tx.contractId?.toString()}`)
+    lines.push(`Gas: ${tx.gas}`)
+    lines.push(`Payable: ${tx.payableAmount?.toString() ?? '0 ℏ'}`)
+    lines.push(`Function parameters: ${tx.functionParameters?.length ?? 0} bytes`)
+  }
+  return lines
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Sign an offline transaction. Runs without network access.
+ * Solana and Hedera signatures accumulate on files that are already signed.
+ *
+ * @param file - Built transaction
+ * @param signer - Key to sign with (LocalKeySigner, KeystoreSigner, ...)
+ * @returns The file with signed bytes and the new signature recorded
+ */
+export async function signOfflineTransaction(
+  file: OfflineTransactionFile,
+  signer: Signer
+): Promise<OfflineTransactionFile> {
+  const context = { chain: file.chain, network: file.network }
+  let signed: SignedTransaction
+
+  if (file.chain === 'hedera') {
+    signed = await signHederaTransaction(file, signer, context)
+  } else if (file.chain === 'solana') {
+    signed = await signSolanaTransaction(file, signer, context)
+  } else if (isEvmChain(file.chain)) {
+    signed = await signEvmTransaction(file, signer, context)
+  } else {
+    throw unsupportedChain(file.chain)
+  }
+
+  return {
+    ...file,
+    signed,
+    signatures: [
+      ...(file.signatures || []),
+      { ...await signer.getPublicKey(), signedAt: new Date().toISOString() },
+    ],
+  }
+}
+
+async function signEvmTransaction(
+  file: OfflineTransactionFile,
+  signer: Signer,
+  context: { chain: SupportedChain, network: NetworkType }
+): Promise<SignedTransaction> {
+  const ethers = await loadEthers()
+  const { publicKey } = await requireSignerKeyType(signer, ['secp256k1'], file.chain)
+  const address = ethers.computeAddress('0x' + publicKey)
+  if (address !== ethers.getAddress(file.signer)) {
+    throw new BlockchainError(
+      BlockchainErrorCode.INVALID_CREDENTIALS,
+      `Transaction has to be signed by ${file.signer}, the ${signer.type} signer holds ${address}`
+    )
+  }
+
+  const tx = ethers.Transaction.from(file.payload)
+  tx.signature = await signEvmDigest(ethers, signer, tx.unsignedHash, address, context)
+  return {
+    rawTransaction: tx.serialized,
+    transactionHash: tx.hash,
+    signature: tx.signature.serialized,
+  }
+}
+
+async function signSolanaTransaction(
+  file: OfflineTransactionFile,
+  signer: Signer,
+  context: { chain: SupportedChain, network: NetworkType }
+): Promise<SignedTransaction> {
+  const solana = await loadSolana()
+  const { publicKey } = await requireSignerKeyType(signer, ['ed25519'], file.chain)
+  const signerKey = new solana.PublicKey(Buffer.from(publicKey, 'hex'))
+  const tx = solana.Transaction.from(Buffer.from(file.signed?.rawTransaction ?? file.payload, 'base64'))
+
+  if (!tx.signatures.some((entry: any) => entry.publicKey.equals(signerKey))) {
+    throw new BlockchainError(
+      BlockchainErrorCode.INVALID_CREDENTIALS,
+      `${signerKey.toBase58()} is not a signer of this transaction (expected ${file.signer})`
+    )
+  }
+
+  const signature = await signer.sign(tx.serializeMessage(), context)
+  tx.addSignature(signerKey, Buffer.from(signature))
+
+  // Verifies the signatures present; others can be added by the next signer
+  const raw = tx.serialize({ requireAllSignatures: false })
+  return {
+    rawTransaction: raw.toString('base64'),
+    transactionHash: tx.signature ? encodeBase58(tx.signature) : '',
+    signature: encodeBase58(Buffer.from(signature)),
+  }
+}
+
+async function signHederaTransaction(
+  file: OfflineTransactionFile,
+  signer: Signer,
+  context: { chain: SupportedChain, network: NetworkType }
+): Promise<SignedTransaction> {
+  const hashgraph = await loadHederaSdk()
+  const tx = hashgraph.Transaction.fromBytes(Buffer.from(file.signed?.rawTransaction ?? file.payload, 'hex'))
+  const { publicKey, transactionSigner } = await createHederaSigner(hashgraph, signer, context)
+
+  await tx.signWith(publicKey, transactionSigner)
+  return {
+    rawTransaction: Buffer.from(tx.toBytes()).toString('hex'),
+    transactionHash: tx.transactionId.toString(),
+  }
+}
+
+function unsupportedChain(chain: SupportedChain): BlockchainError {
+  return new BlockchainError(
+    BlockchainErrorCode.UNSUPPORTED_OPERATION,
+    `Offline transactions are not supported for ${chain}`
+  )
+}
+
+async function loadEthers(): Promise<any> {
+  try {
+    return await import('ethers')
+  } catch {
+    throw new BlockchainError(
+      BlockchainErrorCode.NETWORK_ERROR,
+      'ethers.js not installed. Run: npm install ethers'
+    )
+  }
+}
+
+async function loadSolana(): Promise<any> {
+  try {
+    return await import('@solana/web3.js')
+  } catch {
+    throw new BlockchainError(
+      BlockchainErrorCode.NETWORK_ERROR,
+      '@solana/web3.js not installed. Run: npm install @solana/web3.js'
+    )
+  }
+}
+
+async function loadHederaSdk(): Promise<any> {
+  try {
+    return await import('@hashgraph/sdk')
+  } catch {
+    throw new BlockchainError(
+      BlockchainErrorCode.NETWORK_ERROR,
+      '@hashgraph/sdk not installed. Run: npm install @hashgraph/sdk'
+    )
+  }
+}
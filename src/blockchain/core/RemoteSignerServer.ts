@@ -0,0 +1,107 @@
+/**
+ * Remote Signer Stand-in
+ *
+ * A local HTTP server that speaks the RemoteSigner protocol (see Signer) with
+ * a key it holds itself. Use it to develop and test against the remote signer
+ * flow before pointing `signer.url` at the real KMS / HSM proxy:
+ *
+ *   apix signer serve --keystore ./deployer.json
+ *   apix create-token --signer remote:http://127.0.0.1:8600
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import { Signer, SignContext } from './types'
+
+/**
+ * Stand-in server options.
+ */
+export interface RemoteSignerServerOptions {
+  port?: number            // Default 8600; 0 picks a free port
+  host?: string            // Default 127.0.0.1
+  token?: string           // Require `Authorization: Bearer <token>`
+  onSign?: (request: RemoteSignRequest) => void  // Audit hook, called before signing
+}
+
+/**
+ * A sign request as received by the server.
+ */
+export interface RemoteSignRequest {
+  keyId?: string
+  payload: string          // Hex
+  context?: SignContext
+}
+
+/**
+ * A running stand-in server.
+ */
+export interface RemoteSignerServer {
+  url: string
+  close(): Promise<void>
+}
+
+/**
+ * Serve a signer over HTTP.
+ *
+ * @param signer - Key to sign with (any keyId is answered with this key)
+ * @param options - Listen address, bearer token and audit hook
+ */
+export async function startRemoteSignerServer(
+  signer: Signer,
+  options: RemoteSignerServerOptions = {}
+): Promise<RemoteSignerServer> {
+  const server = http.createServer(async (req, res) => {
+    const reply = (status: number, body: Record<string, any>) => {
+      res.writeHead(status, { 'content-type': 'application/json' })
+      res.end(JSON.stringify(body))
+    }
+
+    try {
+      if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+        return reply(401, { error: 'Missing or invalid bearer token' })
+      }
+
+      const path = (req.url || '').split('?')[0]
+      if (req.method === 'GET' && path === '/public-key') {
+        return reply(200, await signer.getPublicKey())
+      }
+      if (req.method === 'POST' && path === '/sign') {
+        const body = JSON.parse(await readBody(req))
+        if (typeof body.payload !== 'string' || !/^(0x)?([0-9a-fA-F]{2})+$/.test(body.payload)) {
+          return reply(400, { error: 'payload must be a hex string' })
+        }
+
+        const context = body.chain ? { chain: body.chain, network: body.network } : undefined
+        options.onSign?.({ keyId: body.keyId, payload: body.payload, context })
+        const signature = await signer.sign(Buffer.from(body.payload.replace(/^0x/, ''), 'hex'), context)
+        return reply(200, { signature: Buffer.from(signature).toString('hex') })
+      }
+
+      reply(404, { error: `No route for ${req.method} ${path}` })
+    } catch (error: any) {
+      reply(500, { error: error.message })
+    }
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port ?? 8600, options.host || '127.0.0.1', resolve)
+  })
+
+  const { address, port } = server.address() as AddressInfo
+  return {
+    url: `http://${address}:${port}`,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve())
+    }),
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
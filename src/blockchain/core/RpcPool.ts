@@ -0,0 +1,357 @@
+/**
+ * RPC Endpoint Pool
+ *
+ * Spreads an adapter's HTTP traffic (EVM / Solana JSON-RPC, mirror node REST)
+ * over an ordered list of endpoints:
+ * - Health scoring: latency and error rate per endpoint (moving averages);
+ *   failing endpoints cool down and the healthiest one is tried first
+ * - Failover: idempotent reads are retried on the next endpoint; writes
+ *   (sendTransaction and friends) are sent once, never duplicated
+ * - Quorum: critical reads (balances by default) can be required to return
+ *   the same answer from several endpoints
+ *
+ * Like RpcRecorder, the pool is a fetch-compatible function handed to the SDKs.
+ * SDK clients are created with the first URL; the pool rewrites that prefix
+ * to whichever endpoint it picks.
+ */
+
+import {
+  RpcPoolOptions,
+  RpcEndpointHealth,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface EndpointState {
+  url: string
+  index: number            // Position in the configured list (tie-breaker)
+  latencyMs?: number
+  errorRate: number
+  requests: number
+  failures: number
+  consecutiveFailures: number
+  cooldownUntil: number
+}
+
+interface Reply {
+  response: Response
+  text: string
+}
+
+export const DEFAULT_RPC_TIMEOUT_MS = 10000
+export const DEFAULT_RPC_COOLDOWN_MS = 5000
+export const DEFAULT_QUORUM_METHODS = ['eth_getBalance', 'getBalance', 'getTokenAccountBalance']
+
+const MAX_COOLDOWN_MS = 60000
+const SMOOTHING = 0.2              // Weight of the newest sample in moving averages
+const ERROR_RATE_PENALTY = 4       // Score multiplier per unit of error rate
+
+// Methods that change chain state; retrying them elsewhere could double-send
+const WRITE_METHODS = new Set([
+  'eth_sendRawTransaction',
+  'eth_sendTransaction',
+  'sendTransaction',
+  'requestAirdrop',
+])
+
+// ============================================================================
+// POOL
+// ============================================================================
+
+export class RpcEndpointPool {
+  readonly quorum: number
+
+  private endpoints: EndpointState[]
+  private options: RpcPoolOptions
+  private baseFetch: typeof fetch
+
+  /**
+   * @param urls - Endpoints in order of preference
+   * @param options - Quorum, timeout and retry settings
+   * @param baseFetch - Real fetch
+   */
+  constructor(urls: string[], options: RpcPoolOptions = {}, baseFetch: typeof fetch = globalThis.fetch) {
+    this.endpoints = [...new Set(urls.map(url => url.replace(/\/+$/, '')))].map((url, index) => ({
+      url,
+      index,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }))
+    this.options = options
+    this.quorum = Math.max(1, options.quorum ?? 1)
+    this.baseFetch = baseFetch
+
+    if (this.endpoints.length === 0) {
+      throw new BlockchainError(BlockchainErrorCode.NETWORK_ERROR, 'RPC pool needs at least one endpoint')
+    }
+    if (this.quorum > this.endpoints.length) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `RPC quorum of ${this.quorum} needs at least ${this.quorum} endpoints, got ${this.endpoints.length}`
+      )
+    }
+  }
+
+  /**
+   * Endpoint the SDK clients are created with.
+   */
+  get primaryUrl(): string {
+    return this.endpoints[0].url
+  }
+
+  /**
+   * Current health of every endpoint, best first.
+   */
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now()
+    return this.rank().map(endpoint => ({
+      url: endpoint.url,
+      latencyMs: endpoint.latencyMs,
+      errorRate: endpoint.errorRate,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      available: endpoint.cooldownUntil <= now,
+    }))
+  }
+
+  /**
+   * fetch-compatible function. Pass to SDKs that accept a custom fetch.
+   */
+  fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const path = this.getPath(url)
+
+    // Not one of ours, or a body we cannot replay on another endpoint
+    if (path === undefined || (init?.body !== undefined && typeof init.body !== 'string')) {
+      return this.baseFetch(input, init)
+    }
+
+    const methods = this.getRpcMethods(init)
+    const label = methods.length > 0 ? methods.join(', ') : `${init?.method || 'GET'} ${path || '/'}`
+
+    if (this.quorum > 1 && methods.some(method => this.getQuorumMethods().includes(method))) {
+      return methods.length === 1
+        ? this.fetchWithQuorum(path, init, label)
+        : this.fetchBatchWithQuorum(path, init)
+    }
+
+    const idempotent = methods.length > 0
+      ? !methods.some(method => WRITE_METHODS.has(method))
+      : ['GET', 'HEAD'].includes((init?.method || 'GET').toUpperCase())
+    const candidates = this.rank().slice(0, idempotent ? this.options.maxAttempts ?? this.endpoints.length : 1)
+
+    let lastError: any
+    for (const endpoint of candidates) {
+      try {
+        return this.toResponse(await this.attempt(endpoint, path, init))
+      } catch (error: any) {
+        lastError = error
+      }
+    }
+
+    throw new BlockchainError(
+      BlockchainErrorCode.NETWORK_ERROR,
+      `All RPC endpoints failed for ${label}: ${lastError?.message}`,
+      { endpoints: candidates.map(endpoint => endpoint.url), error: lastError }
+    )
+  }
+
+  // ==========================================================================
+  // REQUESTS
+  // ==========================================================================
+
+  /**
+   * Send a read to `quorum` endpoints and require identical answers.
+   */
+  private async fetchWithQuorum(path: string, init: RequestInit | undefined, label: string): Promise<Response> {
+    const candidates = this.rank()
+    const replies: Reply[] = []
+
+    // Ask `quorum` endpoints at once; replace the ones that fail
+    while (replies.length < this.quorum && candidates.length > 0) {
+      const batch = candidates.splice(0, this.quorum - replies.length)
+      const settled = await Promise.allSettled(batch.map(endpoint => this.attempt(endpoint, path, init)))
+      for (const result of settled) {
+        if (result.status === 'fulfilled') replies.push(result.value)
+      }
+    }
+
+    if (replies.length < this.quorum) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `RPC quorum for ${label} needs ${this.quorum} responding endpoints, got ${replies.length}`
+      )
+    }
+
+    const answers = replies.map(reply => this.getAnswer(reply.text))
+    if (new Set(answers).size > 1) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `RPC endpoints disagree on ${label}`,
+        { answers }
+      )
+    }
+
+    return this.toResponse(replies[0])
+  }
+
+  /**
+   * Split a JSON-RPC batch (ethers batches concurrent calls): quorum methods
+   * are sent one by one with the quorum, the other calls as one batch.
+   */
+  private async fetchBatchWithQuorum(path: string, init: RequestInit | undefined): Promise<Response> {
+    const calls: any[] = JSON.parse(init!.body as string)
+    const quorumMethods = this.getQuorumMethods()
+    const send = async (payload: any): Promise<any> => {
+      const response = await this.fetch(`${this.primaryUrl}${path}`, { ...init, body: JSON.stringify(payload) })
+      return response.json()
+    }
+
+    const checked = calls.filter(call => quorumMethods.includes(call?.method))
+    const others = calls.filter(call => !quorumMethods.includes(call?.method))
+    const replies = await Promise.all([
+      ...checked.map(call => send(call)),
+      ...(others.length > 0 ? [send(others)] : []),
+    ])
+
+    return new Response(JSON.stringify(replies.flat()), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  /**
+   * One request to one endpoint, scored. Throws on transport errors,
+   * timeouts, rate limiting and 5xx responses.
+   */
+  private async attempt(endpoint: EndpointState, path: string, init: RequestInit | undefined): Promise<Reply> {
+    const controller = new AbortController()
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    const abort = () => controller.abort()
+    init?.signal?.addEventListener('abort', abort, { once: true })
+    const started = Date.now()
+
+    endpoint.requests++
+    try {
+      const response = await this.baseFetch(`${endpoint.url}${path}`, { ...init, signal: controller.signal })
+      if (response.status === 429 || response.status >= 500) {
+        throw new Error(`${endpoint.url} returned ${response.status}`)
+      }
+      const text = await response.text()
+      this.recordSuccess(endpoint, Date.now() - started)
+      return { response, text }
+    } catch (error: any) {
+      this.recordFailure(endpoint)
+      throw controller.signal.aborted && !init?.signal?.aborted
+        ? new Error(`${endpoint.url} timed out after ${timeoutMs}ms`)
+        : error
+    } finally {
+      clearTimeout(timer)
+      init?.signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  // ==========================================================================
+  // HEALTH SCORING
+  // ==========================================================================
+
+  /**
+   * Available endpoints by score, then cooling ones by when they recover.
+   * Endpoints without a latency sample yet rank after measured ones, so the
+   * configured order is kept until failover discovers something faster.
+   */
+  private rank(): EndpointState[] {
+    const now = Date.now()
+    const score = (endpoint: EndpointState) =>
+      (endpoint.latencyMs ?? Infinity) * (1 + ERROR_RATE_PENALTY * endpoint.errorRate)
+
+    return [...this.endpoints].sort((a, b) => {
+      const aCooling = a.cooldownUntil > now
+      const bCooling = b.cooldownUntil > now
+      if (aCooling !== bCooling) return aCooling ? 1 : -1
+      if (aCooling) return a.cooldownUntil - b.cooldownUntil || a.index - b.index
+      return score(a) - score(b) || a.index - b.index
+    })
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === undefined
+      ? latencyMs
+      : endpoint.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING
+    endpoint.errorRate *= 1 - SMOOTHING
+    endpoint.consecutiveFailures = 0
+    endpoint.cooldownUntil = 0
+  }
+
+  private recordFailure(endpoint: EndpointState): void {
+    endpoint.failures++
+    endpoint.consecutiveFailures++
+    endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + SMOOTHING
+    const cooldownMs = this.options.cooldownMs ?? DEFAULT_RPC_COOLDOWN_MS
+    endpoint.cooldownUntil = Date.now() + Math.min(cooldownMs * 2 ** (endpoint.consecutiveFailures - 1), MAX_COOLDOWN_MS)
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  /**
+   * Part of the URL after the endpoint it was built with (undefined if the
+   * URL belongs to none of the pooled endpoints).
+   */
+  private getPath(url: string): string | undefined {
+    const endpoint = this.endpoints.find(({ url: base }) =>
+      url === base || url.startsWith(`${base}/`) || url.startsWith(`${base}?`))
+    return endpoint ? url.slice(endpoint.url.length) : undefined
+  }
+
+  private getRpcMethods(init: RequestInit | undefined): string[] {
+    if (typeof init?.body !== 'string') return []
+    try {
+      const payload = JSON.parse(init.body)
+      const calls: any[] = Array.isArray(payload) ? payload : [payload]
+      return calls.map(call => call?.method).filter((method): method is string => typeof method === 'string')
+    } catch {
+      return []
+    }
+  }
+
+  private getQuorumMethods(): string[] {
+    return this.options.quorumMethods ?? DEFAULT_QUORUM_METHODS
+  }
+
+  /**
+   * Comparable part of a JSON-RPC reply (result or error, without the id).
+   */
+  private getAnswer(text: string): string {
+    try {
+      const reply = JSON.parse(text)
+      // Solana wraps results in { context: { slot }, value }; slots differ between nodes
+      const result = reply.result?.context !== undefined && 'value' in reply.result
+        ? reply.result.value
+        : reply.result
+      return JSON.stringify(reply.error ?? result ?? null)
+    } catch {
+      return text
+    }
+  }
+
+  /**
+   * Re-wrap a consumed response (see RpcRecorder.textResponse).
+   */
+  private toResponse({ response, text }: Reply): Response {
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { 'Content-Type': response.headers.get('content-type') || 'application/json' },
+    })
+  }
+}
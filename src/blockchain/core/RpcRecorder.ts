@@ -0,0 +1,434 @@
+/**
+ * RPC Record / Replay
+ *
+ * Sits between the adapters and the chain SDKs' transports:
+ * - EVM and Solana JSON-RPC (via the SDKs' pluggable fetch)
+ * - REST calls such as mirror-node queries
+ * - Hedera gRPC (via the SDK's network channel factory)
+ *
+ * In 'record' mode every exchange with a real node is written to a fixture
+ * file. In 'replay' mode the fixture answers instead of the network, so
+ * createToken / transferToken / getTransactionStatus run fully offline
+ * (air-gapped CI, demos).
+ */
+
+import fs from 'fs-extra'
+import path from 'path'
+import {
+  SupportedChain,
+  NetworkType,
+  RpcReplayMode,
+  RpcReplayOptions,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RpcTransport = 'json-rpc' | 'rest' | 'grpc'
+
+/**
+ * One recorded request/response pair.
+ */
+export interface RpcExchange {
+  transport: RpcTransport
+  method: string           // JSON-RPC method, 'GET /path' or 'Service/method'
+  params?: any             // JSON-RPC params, REST body, base64 gRPC request
+  result?: any             // JSON-RPC result, REST body, base64 gRPC response
+  error?: any              // JSON-RPC error object or { message } for gRPC
+  status?: number          // REST only
+  raw?: boolean            // REST only: result is the body text (not JSON)
+  contentType?: string     // REST only: Content-Type of a raw body
+}
+
+/**
+ * Fixture file contents.
+ */
+export interface RpcFixture {
+  version: 1
+  chain: SupportedChain
+  network: NetworkType
+  recordedAt: string
+  exchanges: RpcExchange[]
+}
+
+/**
+ * Minimal shape of a Hedera SDK channel (see @hashgraph/sdk Channel).
+ */
+interface GrpcChannel {
+  _createUnaryClient(serviceName: string): GrpcUnaryClient
+}
+
+type GrpcUnaryClient = (
+  method: { name: string },
+  requestData: Uint8Array,
+  callback: (error: Error | null, response?: Uint8Array) => void
+) => void
+
+// ============================================================================
+// ETHERS TRANSPORT
+// ============================================================================
+
+/**
+ * ethers v6 FetchRequest whose transport is a fetch-compatible function
+ * (RpcRecorder.fetch, RpcEndpointPool.fetch).
+ *
+ * @param ethers - Loaded ethers module
+ * @param url - RPC URL
+ * @param fetchFn - Transport
+ */
+export function createEthersFetchRequest(ethers: any, url: string, fetchFn: typeof fetch): any {
+  const request = new ethers.FetchRequest(url)
+  request.getUrlFunc = async (req: any) => {
+    const response = await fetchFn(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body ? Buffer.from(req.body).toString('utf8') : undefined,
+    })
+    const headers: Record<string, string> = {}
+    response.headers.forEach((value, key) => { headers[key] = value })
+    return {
+      statusCode: response.status,
+      statusMessage: response.statusText,
+      headers,
+      body: new Uint8Array(await response.arrayBuffer()),
+    }
+  }
+  return request
+}
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+/**
+ * Records or replays the RPC traffic of one adapter.
+ *
+ * Requests are matched by transport, method and params. Requests whose params
+ * are never identical between runs (signed transactions, gRPC payloads with
+ * timestamps) fall back to the next unused exchange for the same method, and
+ * polling calls keep receiving the last recorded answer once exhausted.
+ */
+export class RpcRecorder {
+  readonly mode: RpcReplayMode
+  readonly fixturePath: string
+
+  private fixture: RpcFixture
+  private used = new Set<number>()
+  private baseFetch: typeof fetch
+  private writes: Promise<void> = Promise.resolve()
+
+  private constructor(
+    options: RpcReplayOptions,
+    fixture: RpcFixture,
+    baseFetch: typeof fetch
+  ) {
+    this.mode = options.mode
+    this.fixturePath = RpcRecorder.getFixturePath(options.dir, fixture.chain, fixture.network)
+    this.fixture = fixture
+    this.baseFetch = baseFetch
+  }
+
+  /**
+   * Create a recorder. In replay mode the fixture file must exist.
+   *
+   * @param options - Mode and fixture directory
+   * @param chain - Chain the adapter talks to
+   * @param network - Network the adapter talks to
+   * @param baseFetch - Real fetch used in record mode
+   */
+  static async open(
+    options: RpcReplayOptions,
+    chain: SupportedChain,
+    network: NetworkType,
+    baseFetch: typeof fetch = globalThis.fetch
+  ): Promise<RpcRecorder> {
+    const fixturePath = RpcRecorder.getFixturePath(options.dir, chain, network)
+
+    if (options.mode === 'replay') {
+      if (!await fs.pathExists(fixturePath)) {
+        throw new BlockchainError(
+          BlockchainErrorCode.NETWORK_ERROR,
+          `No RPC fixture for ${chain} ${network} at ${fixturePath}. Record one first with --record ${options.dir}`
+        )
+      }
+      return new RpcRecorder(options, await fs.readJSON(fixturePath), baseFetch)
+    }
+
+    return new RpcRecorder(options, {
+      version: 1,
+      chain,
+      network,
+      recordedAt: new Date().toISOString(),
+      exchanges: [],
+    }, baseFetch)
+  }
+
+  /**
+   * Fixture location for a chain and network.
+   */
+  static getFixturePath(dir: string, chain: SupportedChain, network: NetworkType): string {
+    return path.join(dir, `${chain}-${network}.json`)
+  }
+
+  /**
+   * Recorded exchanges (in recording order).
+   */
+  getExchanges(): RpcExchange[] {
+    return this.fixture.exchanges
+  }
+
+  /**
+   * Wait until every captured exchange is on disk.
+   */
+  async flush(): Promise<void> {
+    await this.writes
+  }
+
+  // ==========================================================================
+  // HTTP (JSON-RPC and REST)
+  // ==========================================================================
+
+  /**
+   * fetch-compatible function. Pass to SDKs that accept a custom fetch.
+   */
+  fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const body = typeof init?.body === 'string' ? init.body : undefined
+    const payload = body ? this.parseJson(body) : undefined
+
+    if (payload && (Array.isArray(payload) ? payload[0]?.jsonrpc : payload.jsonrpc)) {
+      return this.handleJsonRpc(url, init, body!, payload)
+    }
+    return this.handleRest(url, init, payload ?? body)
+  }
+
+  /**
+   * ethers v6 FetchRequest whose transport goes through this recorder.
+   *
+   * @param ethers - Loaded ethers module
+   * @param url - RPC URL
+   */
+  createEthersRequest(ethers: any, url: string): any {
+    return createEthersFetchRequest(ethers, url, this.fetch)
+  }
+
+  private async handleJsonRpc(
+    url: string,
+    init: RequestInit | undefined,
+    body: string,
+    payload: any
+  ): Promise<Response> {
+    const calls: any[] = Array.isArray(payload) ? payload : [payload]
+
+    if (this.mode === 'replay') {
+      const replies = calls.map(call => {
+        const exchange = this.take('json-rpc', call.method, call.params)
+        return exchange.error
+          ? { jsonrpc: '2.0', id: call.id, error: exchange.error }
+          : { jsonrpc: '2.0', id: call.id, result: exchange.result }
+      })
+      return this.jsonResponse(Array.isArray(payload) ? replies : replies[0], 200)
+    }
+
+    const response = await this.baseFetch(url, { ...init, body })
+    const text = await response.text()
+    const parsed = this.parseJson(text)
+    const replies: any[] = Array.isArray(parsed) ? parsed : parsed ? [parsed] : []
+
+    for (const call of calls) {
+      const reply = replies.find(r => r.id === call.id)
+      if (reply) {
+        await this.capture({
+          transport: 'json-rpc',
+          method: call.method,
+          params: call.params,
+          ...(reply.error ? { error: reply.error } : { result: reply.result }),
+        })
+      }
+    }
+
+    return this.textResponse(text, response)
+  }
+
+  private async handleRest(url: string, init: RequestInit | undefined, params: any): Promise<Response> {
+    const { pathname, search } = new URL(url)
+    const method = `${(init?.method || 'GET').toUpperCase()} ${pathname}${search}`
+
+    if (this.mode === 'replay') {
+      const exchange = this.take('rest', method, params)
+      return exchange.raw
+        ? this.rawResponse(exchange.result, exchange.status ?? 200, exchange.contentType)
+        : this.jsonResponse(exchange.result, exchange.status ?? 200)
+    }
+
+    const response = await this.baseFetch(url, init)
+    const text = await response.text()
+    const json = this.parseJson(text)
+    await this.capture({
+      transport: 'rest',
+      method,
+      params,
+      status: response.status,
+      ...(json === undefined
+        ? { result: text, raw: true, contentType: response.headers.get('content-type') || 'text/plain' }
+        : { result: json }),
+    })
+
+    return this.textResponse(text, response)
+  }
+
+  // ==========================================================================
+  // gRPC (Hedera)
+  // ==========================================================================
+
+  /**
+   * Wrap a Hedera SDK channel factory so unary calls are recorded / replayed.
+   * In replay mode channels never connect.
+   *
+   * @param createChannel - The client's original channel factory
+   */
+  wrapGrpcChannelFactory<T extends GrpcChannel>(
+    createChannel: (...args: any[]) => T
+  ): (...args: any[]) => T {
+    return (...args: any[]) => {
+      const channel = createChannel(...args)
+      const createUnaryClient = channel._createUnaryClient.bind(channel)
+
+      channel._createUnaryClient = (serviceName: string): GrpcUnaryClient => {
+        // Only connect when actually recording
+        const unaryClient = this.mode === 'record' ? createUnaryClient(serviceName) : undefined
+
+        return (method, requestData, callback) => {
+          const methodName = `${serviceName}/${method.name}`
+          const params = Buffer.from(requestData).toString('base64')
+
+          if (this.mode === 'replay') {
+            let exchange: RpcExchange
+            try {
+              exchange = this.take('grpc', methodName, params)
+            } catch (error: any) {
+              callback(error)
+              return
+            }
+            if (exchange.error) {
+              callback(new Error(exchange.error.message))
+            } else {
+              callback(null, Buffer.from(exchange.result, 'base64'))
+            }
+            return
+          }
+
+          unaryClient!(method, requestData, (error, response) => {
+            this.capture({
+              transport: 'grpc',
+              method: methodName,
+              params,
+              ...(error
+                ? { error: { message: error.message } }
+                : { result: Buffer.from(response!).toString('base64') }),
+            }).then(
+              () => callback(error, response),
+              () => callback(error, response)
+            )
+          })
+        }
+      }
+
+      return channel
+    }
+  }
+
+  // ==========================================================================
+  // FIXTURE MATCHING
+  // ==========================================================================
+
+  /**
+   * Find the recorded answer for a request.
+   */
+  private take(transport: RpcTransport, method: string, params: any): RpcExchange {
+    const exchanges = this.fixture.exchanges
+    const key = this.canonicalize(params)
+    const candidates = exchanges
+      .map((exchange, index) => ({ exchange, index }))
+      .filter(({ exchange }) => exchange.transport === transport && exchange.method === method)
+
+    const match =
+      // Same request, not replayed yet
+      candidates.find(({ exchange, index }) => !this.used.has(index) && this.canonicalize(exchange.params) === key) ||
+      // Same method, not replayed yet (signed payloads differ between runs)
+      candidates.find(({ index }) => !this.used.has(index)) ||
+      // Polling past the end of the recording
+      candidates[candidates.length - 1]
+
+    if (!match) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `No recorded ${transport} response for '${method}' in ${this.fixturePath}`,
+        { params }
+      )
+    }
+
+    this.used.add(match.index)
+    return match.exchange
+  }
+
+  private async capture(exchange: RpcExchange): Promise<void> {
+    this.fixture.exchanges.push(exchange)
+    // Written after every exchange so an interrupted run still leaves a usable fixture.
+    // Writes are queued: concurrent requests would otherwise interleave them
+    const write = this.writes.then(() => fs.outputJSON(this.fixturePath, this.fixture, { spaces: 2 }))
+    this.writes = write.catch(() => undefined)
+    await write
+  }
+
+  private canonicalize(value: any): string {
+    return JSON.stringify(value, (_key, v) =>
+      v && typeof v === 'object' && !Array.isArray(v)
+        ? Object.keys(v).sort().reduce((sorted: Record<string, any>, k) => {
+            sorted[k] = v[k]
+            return sorted
+          }, {})
+        : v
+    ) ?? ''
+  }
+
+  private parseJson(text: string): any {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Re-wrap a consumed response (the body is already decoded, so
+   * transport headers such as Content-Encoding are dropped).
+   */
+  private textResponse(text: string, response: Response): Response {
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { 'Content-Type': response.headers.get('content-type') || 'application/json' },
+    })
+  }
+
+  /**
+   * Replay a recorded body that was not JSON, as it was sent.
+   */
+  private rawResponse(text: string, status: number, contentType = 'text/plain'): Response {
+    return new Response(text || null, {
+      status,
+      headers: { 'Content-Type': contentType },
+    })
+  }
+
+  private jsonResponse(body: any, status: number): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
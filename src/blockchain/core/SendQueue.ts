@@ -0,0 +1,79 @@
+/**
+ * Send Queue
+ *
+ * Bounded FIFO queue for transaction sends:
+ * - At most `concurrency` sends run at once, the rest wait in order
+ * - At most `maxQueued` sends wait; further enqueues are rejected instead of
+ *   piling up unbounded memory (e.g. an airdrop to 100k recipients)
+ *
+ * A task's slot is released when its promise settles, so tasks should resolve
+ * once the transaction is broadcast, not when it is mined.
+ */
+
+import {
+  SendQueueOptions,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+export const DEFAULT_SEND_CONCURRENCY = 8
+export const DEFAULT_MAX_QUEUED = 1000
+
+export class SendQueue {
+  readonly concurrency: number
+  readonly maxQueued: number
+
+  private running = 0
+  private waiting: Array<() => void> = []
+
+  constructor(options: SendQueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_SEND_CONCURRENCY)
+    this.maxQueued = Math.max(0, options.maxQueued ?? DEFAULT_MAX_QUEUED)
+  }
+
+  /**
+   * Run a task when a slot is free.
+   *
+   * @param task - Send to run
+   * @returns The task's result
+   */
+  async enqueue<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running < this.concurrency) {
+      this.running++
+    } else {
+      if (this.waiting.length >= this.maxQueued) {
+        throw new BlockchainError(
+          BlockchainErrorCode.TRANSACTION_FAILED,
+          `Send queue is full (${this.maxQueued} transactions waiting). Retry once pending sends complete`
+        )
+      }
+      // The finishing task hands its slot over directly
+      await new Promise<void>(resolve => this.waiting.push(resolve))
+    }
+
+    try {
+      return await task()
+    } finally {
+      const next = this.waiting.shift()
+      if (next) {
+        next()
+      } else {
+        this.running--
+      }
+    }
+  }
+
+  /**
+   * Number of sends currently running.
+   */
+  get active(): number {
+    return this.running
+  }
+
+  /**
+   * Number of sends waiting for a slot.
+   */
+  get size(): number {
+    return this.waiting.length
+  }
+}
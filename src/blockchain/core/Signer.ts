@@ -0,0 +1,601 @@
+/**
+ * Signers
+ *
+ * Adapters sign through a Signer when `BlockchainConfiguration.signer` is set,
+ * so production keys never have to be loaded into the CLI process:
+ * - LocalKeySigner: a private key in memory (what adapters do without a signer)
+ * - KeystoreSigner: an encrypted keystore file (Web3 Secret Storage v3)
+ * - RemoteSigner: an HTTP signing service (KMS / HSM proxy)
+ * - PublicKeySigner: a public key only, for building and broadcasting
+ *   transactions that are signed offline (see OfflineTransaction)
+ *
+ * Remote signing protocol (JSON over HTTP, optional `Authorization: Bearer`):
+ *
+ *   GET  {url}/public-key[?keyId=...]   -> { keyType, publicKey }
+ *   POST {url}/sign                     <- { keyId?, payload, chain?, network? }
+ *                                       -> { signature }
+ *
+ * `payload` and `signature` are hex. ed25519 keys sign the payload bytes;
+ * secp256k1 keys sign the 32-byte payload digest and return r || s.
+ * RemoteSignerServer is a stand-in implementation for local development and tests.
+ */
+
+import { createCipheriv, createDecipheriv, createPrivateKey, createPublicKey, pbkdf2Sync, randomBytes, randomUUID, scryptSync, sign as signEd25519 } from 'crypto'
+import fs from 'fs-extra'
+import {
+  Signer,
+  SignerConfig,
+  SignerKeyType,
+  SignerPublicKey,
+  SignContext,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+// PKCS#8 / DER prefixes for raw 32-byte private keys (also the Hedera string formats)
+const ED25519_PKCS8_PREFIX = '302e020100300506032b657004220420'
+const ECDSA_SECP256K1_DER_PREFIX = '3030020100300706052b8104000a04220420'
+
+const DEFAULT_REMOTE_TIMEOUT_MS = 30000
+
+// secp256k1 group order; EVM signatures must use s <= n/2 (EIP-2)
+const SECP256K1_N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141')
+
+// ============================================================================
+// LOCAL KEY
+// ============================================================================
+
+/**
+ * Signs with a private key held in memory.
+ */
+export class LocalKeySigner implements Signer {
+  readonly type: string = 'local'
+  readonly keyType: SignerKeyType
+  private readonly key: Buffer
+
+  /**
+   * @param privateKey - 0x-hex (secp256k1 unless keyType says otherwise), Hedera DER hex
+   *   (ED25519 or ECDSA) or a base64 Solana secret key
+   * @param keyType - Key type for raw hex keys
+   */
+  constructor(privateKey: string, keyType?: SignerKeyType) {
+    const parsed = parsePrivateKey(privateKey, keyType)
+    this.key = parsed.key
+    this.keyType = parsed.keyType
+  }
+
+  async getPublicKey(): Promise<SignerPublicKey> {
+    if (this.keyType === 'ed25519') {
+      const publicKey = createPublicKey(this.ed25519Key()).export({ format: 'der', type: 'spki' }).subarray(-32)
+      return { keyType: 'ed25519', publicKey: publicKey.toString('hex') }
+    }
+
+    const ethers = await loadEthers()
+    const signingKey = new ethers.SigningKey('0x' + this.key.toString('hex'))
+    return { keyType: 'secp256k1', publicKey: signingKey.compressedPublicKey.slice(2) }
+  }
+
+  async sign(payload: Uint8Array): Promise<Uint8Array> {
+    if (this.keyType === 'ed25519') {
+      return new Uint8Array(signEd25519(null, Buffer.from(payload), this.ed25519Key()))
+    }
+
+    if (payload.length !== 32) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        `secp256k1 signers sign 32-byte digests, got ${payload.length} bytes`
+      )
+    }
+    const ethers = await loadEthers()
+    const signature = new ethers.SigningKey('0x' + this.key.toString('hex')).sign(payload)
+    return ethers.getBytes(ethers.concat([signature.r, signature.s]))
+  }
+
+  private ed25519Key() {
+    return createPrivateKey({
+      key: Buffer.from(ED25519_PKCS8_PREFIX + this.key.toString('hex'), 'hex'),
+      format: 'der',
+      type: 'pkcs8',
+    })
+  }
+}
+
+/**
+ * Split a private key string into raw bytes and key type.
+ */
+export function parsePrivateKey(privateKey: string, keyType?: SignerKeyType): { key: Buffer, keyType: SignerKeyType } {
+  const value = privateKey.trim()
+  const hex = value.replace(/^0x/i, '').toLowerCase()
+
+  if (hex.startsWith(ED25519_PKCS8_PREFIX) && hex.length === ED25519_PKCS8_PREFIX.length + 64) {
+    return { key: Buffer.from(hex.slice(ED25519_PKCS8_PREFIX.length), 'hex'), keyType: 'ed25519' }
+  }
+  if (hex.startsWith(ECDSA_SECP256K1_DER_PREFIX) && hex.length === ECDSA_SECP256K1_DER_PREFIX.length + 64) {
+    return { key: Buffer.from(hex.slice(ECDSA_SECP256K1_DER_PREFIX.length), 'hex'), keyType: 'secp256k1' }
+  }
+  if (/^[0-9a-f]{64}$/.test(hex)) {
+    return { key: Buffer.from(hex, 'hex'), keyType: keyType || 'secp256k1' }
+  }
+
+  // Solana secret key: base64 of seed (32) + public key (32)
+  const bytes = Buffer.from(value, 'base64')
+  if (bytes.length === 64 && bytes.toString('base64') === value) {
+    return { key: bytes.subarray(0, 32), keyType: 'ed25519' }
+  }
+
+  throw new BlockchainError(
+    BlockchainErrorCode.INVALID_CREDENTIALS,
+    'Unrecognized private key format (expected 0x-hex, DER hex or a base64 Solana secret key)'
+  )
+}
+
+// ============================================================================
+// KEYSTORE
+// ============================================================================
+
+/**
+ * Signs with a key from an encrypted keystore file (Web3 Secret Storage v3,
+ * as written by geth, ethers, Foundry). ed25519 keystores use the same format
+ * with `"keyType": "ed25519"`. The file is decrypted on first use.
+ */
+export class KeystoreSigner implements Signer {
+  readonly type: string = 'keystore'
+  private readonly path: string
+  private readonly password?: string
+  private signer?: LocalKeySigner
+
+  /**
+   * @param path - Keystore JSON file
+   * @param password - Keystore password (default: APIX_KEYSTORE_PASSWORD)
+   */
+  constructor(path: string, password?: string) {
+    this.path = path
+    this.password = password
+  }
+
+  async getPublicKey(): Promise<SignerPublicKey> {
+    return (await this.unlock()).getPublicKey()
+  }
+
+  async sign(payload: Uint8Array): Promise<Uint8Array> {
+    return (await this.unlock()).sign(payload)
+  }
+
+  private async unlock(): Promise<LocalKeySigner> {
+    if (this.signer) return this.signer
+
+    const password = this.password ?? process.env.APIX_KEYSTORE_PASSWORD
+    if (password === undefined) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        `No password for keystore ${this.path}. Set APIX_KEYSTORE_PASSWORD`
+      )
+    }
+
+    const keystore = JSON.parse(await fs.readFile(this.path, 'utf8'))
+    const key = await decryptKeystore(keystore, password)
+    this.signer = new LocalKeySigner('0x' + key.toString('hex'), keystore.keyType || 'secp256k1')
+    return this.signer
+  }
+}
+
+/**
+ * Options for new keystores.
+ */
+export interface EncryptKeystoreOptions {
+  keyType?: SignerKeyType  // For raw hex keys (default secp256k1)
+  scryptN?: number         // scrypt cost (default 131072, as geth)
+}
+
+/**
+ * Encrypt a private key into a Web3 Secret Storage v3 keystore.
+ *
+ * @param privateKey - Any format LocalKeySigner accepts
+ * @param password - Keystore password
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  password: string,
+  options: EncryptKeystoreOptions = {}
+): Promise<Record<string, any>> {
+  const ethers = await loadEthers()
+  const { key, keyType } = parsePrivateKey(privateKey, options.keyType)
+  const salt = randomBytes(32)
+  const iv = randomBytes(16)
+  const kdfparams = { dklen: 32, n: options.scryptN ?? 131072, r: 8, p: 1, salt: salt.toString('hex') }
+  const derivedKey = deriveKeystoreKey('scrypt', kdfparams, password)
+
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv)
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()])
+  const mac = ethers.keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2)
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    ...(keyType === 'secp256k1'
+      ? { address: ethers.computeAddress('0x' + key.toString('hex')).slice(2).toLowerCase() }
+      : { keyType }),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams,
+      mac,
+    },
+  }
+}
+
+/**
+ * Decrypt a Web3 Secret Storage v3 keystore.
+ *
+ * @returns Raw 32-byte private key
+ */
+export async function decryptKeystore(keystore: Record<string, any>, password: string): Promise<Buffer> {
+  const ethers = await loadEthers()
+  const crypto = keystore.crypto || keystore.Crypto
+
+  if (keystore.version !== 3 || crypto?.cipher !== 'aes-128-ctr') {
+    throw new BlockchainError(
+      BlockchainErrorCode.INVALID_CREDENTIALS,
+      'Unsupported keystore: expected version 3 with aes-128-ctr'
+    )
+  }
+
+  const derivedKey = deriveKeystoreKey(crypto.kdf, crypto.kdfparams, password)
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex')
+  const mac = ethers.keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2)
+  if (mac !== crypto.mac.toLowerCase()) {
+    throw new BlockchainError(BlockchainErrorCode.INVALID_CREDENTIALS, 'Wrong keystore password')
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'))
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+function deriveKeystoreKey(kdf: string, params: Record<string, any>, password: string): Buffer {
+  const salt = Buffer.from(params.salt, 'hex')
+  const secret = Buffer.from(password.normalize('NFKC'), 'utf8')
+
+  if (kdf === 'scrypt') {
+    return scryptSync(secret, salt, params.dklen, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.n * params.r,
+    })
+  }
+  if (kdf === 'pbkdf2' && params.prf === 'hmac-sha256') {
+    return pbkdf2Sync(secret, salt, params.c, params.dklen, 'sha256')
+  }
+
+  throw new BlockchainError(BlockchainErrorCode.INVALID_CREDENTIALS, `Unsupported keystore KDF: ${kdf}`)
+}
+
+// ============================================================================
+// REMOTE
+// ============================================================================
+
+/**
+ * Remote signer options.
+ */
+export interface RemoteSignerOptions {
+  url: string
+  keyId?: string           // Key selector for services holding several keys
+  token?: string           // Bearer token
+  timeoutMs?: number       // Per-request timeout (default 30000)
+}
+
+/**
+ * Signs through an HTTP signing service (see the protocol at the top of this file).
+ */
+export class RemoteSigner implements Signer {
+  readonly type: string = 'remote'
+  private readonly options: RemoteSignerOptions
+  private readonly baseFetch: typeof fetch
+  private publicKey?: SignerPublicKey
+
+  /**
+   * @param options - Service URL, key ID and credentials
+   * @param baseFetch - Transport
+   */
+  constructor(options: RemoteSignerOptions, baseFetch: typeof fetch = globalThis.fetch) {
+    this.options = { ...options, url: options.url.replace(/\/+$/, '') }
+    this.baseFetch = baseFetch
+  }
+
+  async getPublicKey(): Promise<SignerPublicKey> {
+    if (!this.publicKey) {
+      const query = this.options.keyId ? `?keyId=${encodeURIComponent(this.options.keyId)}` : ''
+      const body = await this.request('GET', `/public-key${query}`)
+      if (body.keyType !== 'secp256k1' && body.keyType !== 'ed25519') {
+        throw new BlockchainError(
+          BlockchainErrorCode.INVALID_CREDENTIALS,
+          `Remote signer returned unsupported key type: ${body.keyType}`
+        )
+      }
+      this.publicKey = { keyType: body.keyType, publicKey: String(body.publicKey).replace(/^0x/, '') }
+    }
+    return this.publicKey
+  }
+
+  async sign(payload: Uint8Array, context?: SignContext): Promise<Uint8Array> {
+    const body = await this.request('POST', '/sign', {
+      keyId: this.options.keyId,
+      payload: Buffer.from(payload).toString('hex'),
+      chain: context?.chain,
+      network: context?.network,
+    })
+    return new Uint8Array(Buffer.from(String(body.signature).replace(/^0x/, ''), 'hex'))
+  }
+
+  private async request(method: string, path: string, body?: Record<string, any>): Promise<any> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' }
+    if (this.options.token) {
+      headers.authorization = `Bearer ${this.options.token}`
+    }
+
+    let response: Response
+    try {
+      response = await this.baseFetch(this.options.url + path, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_REMOTE_TIMEOUT_MS),
+      })
+    } catch (error: any) {
+      throw new BlockchainError(
+        BlockchainErrorCode.NETWORK_ERROR,
+        `Remote signer unreachable at ${this.options.url}: ${error.message}`,
+        error
+      )
+    }
+
+    const text = await response.text()
+    let reply: any = {}
+    try {
+      reply = text ? JSON.parse(text) : {}
+    } catch {
+      if (response.ok) {
+        throw new BlockchainError(
+          BlockchainErrorCode.NETWORK_ERROR,
+          `Remote signer returned a non-JSON response to ${method} ${path}: ${text.slice(0, 200)}`
+        )
+      }
+      reply = { error: text.slice(0, 200) }
+    }
+    if (!response.ok) {
+      throw new BlockchainError(
+        response.status === 401 || response.status === 403
+          ? BlockchainErrorCode.INVALID_CREDENTIALS
+          : BlockchainErrorCode.TRANSACTION_FAILED,
+        `Remote signer refused ${method} ${path} (${response.status}): ${reply.error || response.statusText}`
+      )
+    }
+    return reply
+  }
+}
+
+// ============================================================================
+// PUBLIC KEY ONLY
+// ============================================================================
+
+/**
+ * Holds a public key but no private key. Adapters initialized with it can
+ * build and broadcast transactions; signing happens elsewhere.
+ */
+export class PublicKeySigner implements Signer {
+  readonly type: string = 'public-key'
+  private readonly publicKey: SignerPublicKey
+
+  /**
+   * @param publicKey - Hex: 32 bytes (ed25519) or 33 / 65 bytes (secp256k1)
+   */
+  constructor(publicKey: string) {
+    const hex = publicKey.trim().replace(/^0x/i, '').toLowerCase()
+    const keyType = hex.length === 64 ? 'ed25519' : hex.length === 66 || hex.length === 130 ? 'secp256k1' : undefined
+    if (!keyType || !/^[0-9a-f]+$/.test(hex)) {
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        'Expected a hex public key: 32 bytes (ed25519) or 33 / 65 bytes (secp256k1)'
+      )
+    }
+    this.publicKey = { keyType, publicKey: hex }
+  }
+
+  async getPublicKey(): Promise<SignerPublicKey> {
+    return this.publicKey
+  }
+
+  async sign(): Promise<Uint8Array> {
+    throw new BlockchainError(
+      BlockchainErrorCode.UNSUPPORTED_OPERATION,
+      'This signer only holds a public key. Build with `apix tx build` and sign offline with `apix tx sign`'
+    )
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Signer for a configuration entry (signer instances pass through).
+ */
+export function createSigner(config: Signer | SignerConfig): Signer {
+  if ('sign' in config) return config
+
+  switch (config.type) {
+    case 'local':
+      return new LocalKeySigner(config.privateKey, config.keyType)
+    case 'keystore':
+      return new KeystoreSigner(config.path, config.password)
+    case 'remote':
+      return new RemoteSigner(config)
+    case 'public-key':
+      return new PublicKeySigner(config.publicKey)
+    default:
+      throw new BlockchainError(
+        BlockchainErrorCode.INVALID_CREDENTIALS,
+        `Unknown signer type: ${(config as any).type}`
+      )
+  }
+}
+
+/**
+ * Check that a signer holds the key type a chain needs.
+ *
+ * @returns The signer's public key
+ */
+export async function requireSignerKeyType(
+  signer: Signer,
+  keyTypes: SignerKeyType[],
+  chainName: string
+): Promise<SignerPublicKey> {
+  const publicKey = await signer.getPublicKey()
+  if (!keyTypes.includes(publicKey.keyType)) {
+    throw new BlockchainError(
+      BlockchainErrorCode.INVALID_CREDENTIALS,
+      `${chainName} needs a ${keyTypes.join(' or ')} signer, got ${publicKey.keyType} (${signer.type})`
+    )
+  }
+  return publicKey
+}
+
+/**
+ * ethers v6 signer that signs through a Signer. Adapters use it wherever
+ * they would use an ethers Wallet.
+ *
+ * @param ethers - Loaded ethers module
+ * @param signer - secp256k1 signer
+ * @param address - The signer's address
+ * @param provider - Provider to connect to
+ * @param context - Passed to every sign request
+ */
+export function createEthersSigner(
+  ethers: any,
+  signer: Signer,
+  address: string,
+  provider?: any,
+  context?: SignContext
+): any {
+  const signDigest = (digest: string) => signEvmDigest(ethers, signer, digest, address, context)
+
+  class ExternalSigner extends ethers.AbstractSigner {
+    constructor(signerProvider?: any) {
+      super(signerProvider)
+    }
+
+    async getAddress(): Promise<string> {
+      return address
+    }
+
+    connect(nextProvider: any): any {
+      return createEthersSigner(ethers, signer, address, nextProvider, context)
+    }
+
+    async signTransaction(request: any): Promise<string> {
+      const { to, from } = await ethers.resolveProperties({
+        to: request.to ? ethers.resolveAddress(request.to, (this as any).provider) : undefined,
+        from: request.from ? ethers.resolveAddress(request.from, (this as any).provider) : undefined,
+      })
+      if (from != null && ethers.getAddress(from) !== address) {
+        throw new BlockchainError(
+          BlockchainErrorCode.INVALID_CREDENTIALS,
+          `Transaction from ${from} cannot be signed by ${address}`
+        )
+      }
+
+      const tx = ethers.Transaction.from({ ...request, to, from: undefined })
+      tx.signature = await signDigest(tx.unsignedHash)
+      return tx.serialized
+    }
+
+    async signMessage(message: string | Uint8Array): Promise<string> {
+      return (await signDigest(ethers.hashMessage(message))).serialized
+    }
+
+    async signTypedData(domain: any, types: any, value: any): Promise<string> {
+      return (await signDigest(ethers.TypedDataEncoder.hash(domain, types, value))).serialized
+    }
+  }
+
+  return new ExternalSigner(provider)
+}
+
+/**
+ * Sign an EVM digest and recover the full signature (signers return r || s).
+ * High-s signatures (common from KMS / HSM signers) are normalized to low s.
+ *
+ * @param ethers - Loaded ethers module
+ * @param signer - secp256k1 signer
+ * @param digest - 0x-hex 32-byte digest
+ * @param address - The signer's address, to find the recovery bit
+ * @param context - Passed to the sign request
+ * @returns ethers Signature
+ */
+export async function signEvmDigest(
+  ethers: any,
+  signer: Signer,
+  digest: string,
+  address: string,
+  context?: SignContext
+): Promise<any> {
+  const signature = await signer.sign(ethers.getBytes(digest), context)
+  const r = ethers.hexlify(signature.slice(0, 32))
+  let sValue = BigInt(ethers.hexlify(signature.slice(32, 64)))
+  if (sValue > SECP256K1_N / 2n) {
+    // (r, n - s) is the same signature with the other recovery bit, so both bits are still tried
+    sValue = SECP256K1_N - sValue
+  }
+  const s = ethers.toBeHex(sValue, 32)
+
+  for (const yParity of [0, 1]) {
+    const candidate = ethers.Signature.from({ r, s, yParity })
+    if (ethers.recoverAddress(digest, candidate) === address) return candidate
+  }
+  throw new BlockchainError(
+    BlockchainErrorCode.INVALID_CREDENTIALS,
+    `Signature from the ${signer.type} signer does not match ${address}`
+  )
+}
+
+/**
+ * Hedera SDK operator / signWith arguments for a Signer. The SDK passes
+ * transaction body bytes: ED25519 keys sign them as-is, ECDSA keys sign
+ * their keccak256 digest.
+ *
+ * @param hashgraph - Hedera SDK module (PublicKey is used)
+ * @param signer - ed25519 or secp256k1 signer
+ * @param context - Passed to every sign request
+ */
+export async function createHederaSigner(
+  hashgraph: any,
+  signer: Signer,
+  context?: SignContext
+): Promise<{ publicKey: any, transactionSigner: (message: Uint8Array) => Promise<Uint8Array> }> {
+  const { keyType, publicKey } = await requireSignerKeyType(signer, ['ed25519', 'secp256k1'], 'hedera')
+  const publicKeyBytes = Buffer.from(publicKey, 'hex')
+
+  return {
+    publicKey: keyType === 'ed25519'
+      ? hashgraph.PublicKey.fromBytesED25519(publicKeyBytes)
+      : hashgraph.PublicKey.fromBytesECDSA(publicKeyBytes),
+    transactionSigner: async message => {
+      if (keyType === 'ed25519') return signer.sign(message, context)
+      const ethers = await loadEthers()
+      return signer.sign(ethers.getBytes(ethers.keccak256(message)), context)
+    },
+  }
+}
+
+async function loadEthers(): Promise<any> {
+  try {
+    return await import('ethers')
+  } catch {
+    throw new BlockchainError(
+      BlockchainErrorCode.NETWORK_ERROR,
+      'ethers.js not installed. Run: npm install ethers'
+    )
+  }
+}
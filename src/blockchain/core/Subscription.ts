@@ -0,0 +1,125 @@
+/**
+ * Event Subscriptions
+ *
+ * Turns a chain-specific "fetch events after cursor" function into an
+ * async iterator with:
+ * - Resume: every event carries a cursor; pass it back to continue after it
+ * - Reconnect: failed polls are retried with exponential backoff
+ * - Cancellation: an AbortSignal (or breaking out of for-await) ends the stream
+ *
+ * Adapters only implement the page fetch (see BaseBlockchainAdapter.fetchEvents).
+ */
+
+import {
+  ChainEvent,
+  SubscribeParams,
+  BlockchainError,
+  BlockchainErrorCode,
+} from './types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One poll's worth of events.
+ */
+export interface EventPage {
+  events: ChainEvent[]
+  cursor?: string          // Position after this page (may advance without events)
+  done?: boolean           // Nothing follows this page (e.g. the end of a replayed range)
+  more?: boolean           // More events are ready (full page, next link): fetch without waiting
+}
+
+/**
+ * Fetch events after a cursor. An undefined cursor means "start from now".
+ */
+export type EventPageFetcher = (cursor: string | undefined) => Promise<EventPage>
+
+export const DEFAULT_POLL_INTERVAL_MS = 5000
+export const DEFAULT_MAX_RETRIES = 5
+const MAX_BACKOFF_MS = 30000
+
+// ============================================================================
+// POLLING ITERATOR
+// ============================================================================
+
+/**
+ * Stream events by polling a page fetcher.
+ *
+ * @param fetchPage - Chain-specific page fetch
+ * @param params - Subscription parameters (cursor, interval, retries, signal)
+ */
+export async function* pollEvents(
+  fetchPage: EventPageFetcher,
+  params: Pick<SubscribeParams, 'cursor' | 'pollIntervalMs' | 'maxRetries' | 'signal'>
+): AsyncGenerator<ChainEvent, void, undefined> {
+  const pollIntervalMs = params.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+  const maxRetries = params.maxRetries ?? DEFAULT_MAX_RETRIES
+  let cursor = params.cursor
+  let failures = 0
+
+  while (!params.signal?.aborted) {
+    let page: EventPage
+
+    try {
+      page = await fetchPage(cursor)
+      failures = 0
+    } catch (error: any) {
+      if (isPermanent(error)) throw error
+
+      failures++
+      if (failures > maxRetries) {
+        throw new BlockchainError(
+          BlockchainErrorCode.NETWORK_ERROR,
+          `Subscription failed after ${maxRetries} retries: ${error.message}`,
+          { cursor, error }
+        )
+      }
+      // Reconnect with backoff, resuming from the last delivered cursor
+      await sleep(Math.min(pollIntervalMs * 2 ** (failures - 1), MAX_BACKOFF_MS), params.signal)
+      continue
+    }
+
+    for (const event of page.events) {
+      if (params.signal?.aborted) return
+      cursor = event.cursor
+      yield event
+    }
+    cursor = page.cursor ?? cursor
+    if (page.done) return
+
+    // Catch up on backlogs (replays) at full speed; wait once caught up
+    if (!page.more) {
+      await sleep(pollIntervalMs, params.signal)
+    }
+  }
+}
+
+/**
+ * Errors that a reconnect cannot fix (bad parameters, unsupported kind).
+ */
+function isPermanent(error: any): boolean {
+  return error instanceof BlockchainError && (
+    error.code === BlockchainErrorCode.INVALID_ADDRESS ||
+    error.code === BlockchainErrorCode.UNSUPPORTED_OPERATION
+  )
+}
+
+/**
+ * Wait, returning early when the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve()
+
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
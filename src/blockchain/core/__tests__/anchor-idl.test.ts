@@ -0,0 +1,136 @@
+/**
+ * Tests for Anchor IDL Instruction Encoding
+ */
+
+import { encodeAnchorInstruction, encodeAnchorValue, AnchorIdl } from '../AnchorIdl'
+import { BlockchainErrorCode } from '../types'
+
+const PROGRAM_ID = 'Fg6PaFpoGXkYsidMpWTK6W2BeZ7FEfcYkg476zPFsLnS'
+const SIGNER = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM'
+const SYSTEM_PROGRAM = '11111111111111111111111111111111'
+
+// Legacy format: camelCase names, isMut / isSigner, no discriminators
+const legacyIdl: AnchorIdl = {
+  name: 'vault',
+  instructions: [{
+    name: 'initializeVault',
+    accounts: [
+      { name: 'vault', isMut: true, isSigner: false },
+      { name: 'owner', isMut: true, isSigner: true },
+      { name: 'systemProgram', isMut: false, isSigner: false },
+    ],
+    args: [
+      { name: 'label', type: 'string' },
+      { name: 'limit', type: 'u64' },
+      { name: 'delegate', type: 'publicKey' },
+    ],
+  }],
+}
+
+// 0.30+ format: snake_case names, discriminators and fixed addresses in the file
+const idl: AnchorIdl = {
+  address: PROGRAM_ID,
+  instructions: [{
+    name: 'place_order',
+    discriminator: [1, 2, 3, 4, 5, 6, 7, 8],
+    accounts: [
+      { name: 'market', writable: true },
+      { name: 'referrer', optional: true },
+      { name: 'payer', writable: true, signer: true },
+      { name: 'rent', address: 'SysvarRent111111111111111111111111111111111' },
+    ],
+    args: [
+      { name: 'order', type: { defined: { name: 'Order' } } },
+      { name: 'tags', type: { vec: 'u8' } },
+      { name: 'expiry', type: { option: 'i64' } },
+    ],
+  }],
+  types: [
+    { name: 'Side', type: { kind: 'enum', variants: [{ name: 'Bid' }, { name: 'Ask' }] } },
+    {
+      name: 'Order',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'side', type: { defined: { name: 'Side' } } },
+          { name: 'price', type: 'u32' },
+          { name: 'size', type: 'i16' },
+        ],
+      },
+    },
+  ],
+}
+
+describe('encodeAnchorInstruction', () => {
+  it('should encode legacy IDLs with the computed discriminator', () => {
+    const vault = '2ZGq8XQ4W3g7mJ8kZn1qHc3ECbCkSo2zGsUsQk8pX9aB'
+
+    const encoded = encodeAnchorInstruction(legacyIdl, 'initialize_vault', ['main', '1000', SYSTEM_PROGRAM], {
+      programId: PROGRAM_ID,
+      accounts: { vault },
+      signer: SIGNER,
+    })
+
+    // sha256("global:initialize_vault")[0..8]
+    expect(encoded.data.subarray(0, 8).toString('hex')).toBe('30bfa32c47813fa4')
+    expect(encoded.data.subarray(8).toString('hex')).toBe(
+      '040000006d61696e' +              // string: u32 length + utf8
+      'e803000000000000' +              // u64 little-endian
+      '00'.repeat(32)                   // all-'1' base58 key = 32 zero bytes
+    )
+    expect(encoded.accounts).toEqual([
+      { name: 'vault', address: vault, isSigner: false, isWritable: true },
+      { name: 'owner', address: SIGNER, isSigner: true, isWritable: true },
+      { name: 'systemProgram', address: SYSTEM_PROGRAM, isSigner: false, isWritable: false },
+    ])
+  })
+
+  it('should encode 0.30 IDLs with structs, enums, vectors and options', () => {
+    const market = '2ZGq8XQ4W3g7mJ8kZn1qHc3ECbCkSo2zGsUsQk8pX9aB'
+
+    const encoded = encodeAnchorInstruction(idl, 'placeOrder', [
+      { side: 'ask', price: 250, size: -2 },
+      [7, 9],
+      null,
+    ], { accounts: { market }, signer: SIGNER })
+
+    expect(encoded.programId).toBe(PROGRAM_ID)
+    expect(encoded.data.toString('hex')).toBe(
+      '0102030405060708' +              // discriminator from the IDL
+      '01' + 'fa000000' + 'feff' +      // Order { side: Ask, price: 250, size: -2 }
+      '02000000' + '0709' +             // vec<u8>
+      '00'                              // None
+    )
+    // Missing optional accounts are replaced with the program ID
+    expect(encoded.accounts.map(account => account.address)).toEqual([
+      market,
+      PROGRAM_ID,
+      SIGNER,
+      'SysvarRent111111111111111111111111111111111',
+    ])
+  })
+
+  it('should explain what is missing', () => {
+    const call = (methodName: string, args: any[], accounts: Record<string, string> = {}) =>
+      () => encodeAnchorInstruction(idl, methodName, args, { accounts, signer: SIGNER })
+
+    expect(call('cancelOrder', [])).toThrow('Available: place_order')
+    expect(call('placeOrder', [])).toThrow('expects 3 argument(s) (order, tags, expiry), got 0')
+    expect(call('placeOrder', [{ side: 'Bid', price: 1, size: 1 }, [], null]))
+      .toThrow('No address for account market')
+    expect(call('placeOrder', [{ side: 'Hold', price: 1, size: 1 }, [], null], { market: SIGNER }))
+      .toThrow(expect.objectContaining({ code: BlockchainErrorCode.CONTRACT_ERROR }))
+  })
+})
+
+describe('encodeAnchorValue', () => {
+  it('should reject integers out of range', () => {
+    expect(encodeAnchorValue(idl, 'i8', -128, 'x')).toEqual(Buffer.from([0x80]))
+    expect(() => encodeAnchorValue(idl, 'u8', 256, 'amount')).toThrow('Cannot encode amount: 256 is out of range for u8')
+  })
+
+  it('should encode fixed arrays and reject wrong lengths', () => {
+    expect(encodeAnchorValue(idl, { array: ['u16', 2] }, [1, 2], 'pair')).toEqual(Buffer.from([1, 0, 2, 0]))
+    expect(() => encodeAnchorValue(idl, { array: ['u16', 2] }, [1], 'pair')).toThrow('expected 2 items, got 1')
+  })
+})
@@ -99,5 +99,27 @@ describe('ChainCapabilities', () => {
       const desc = ChainCapabilityDetector.getCapabilityDescription('hasNativeTokens')
       expect(desc).toContain('Native token service')
     })
+
+    test('should explain unsupported operations with alternative chains', () => {
+      const message = ChainCapabilityDetector.getUnsupportedMessage('ethereum', 'hasTokenPause', 'pauseToken')
+
+      expect(message).toContain('Ethereum does not support pauseToken')
+      expect(message).toContain('Ability to pause token operations')
+      expect(message).toContain('Supported on: Hedera')
+    })
+  })
+
+  describe('Subscription Kinds', () => {
+    test('should derive subscription kinds from event logs and consensus service', () => {
+      expect(ChainCapabilityDetector.getSubscriptionKinds('ethereum')).toEqual(['token-transfers', 'contract-events'])
+      expect(ChainCapabilityDetector.getSubscriptionKinds('hedera')).toEqual(['token-transfers', 'topic-messages', 'account-changes'])
+      expect(ChainCapabilityDetector.getSubscriptionKinds('solana')).toEqual(['token-transfers', 'account-changes'])
+    })
+
+    test('should explain unsupported subscriptions with alternative chains', () => {
+      const message = ChainCapabilityDetector.getUnsupportedSubscriptionMessage('solana', 'topic-messages')
+
+      expect(message).toBe("Solana does not support 'topic-messages' subscriptions. Supported on: Hedera")
+    })
   })
 })
@@ -0,0 +1,139 @@
+/**
+ * Tests for capability queries
+ */
+
+import { CapabilityQuery } from '../CapabilityQuery'
+import { ChainPlugins } from '../ChainPlugin'
+import { CHAIN_CAPABILITIES } from '../ChainCapabilities'
+import { ChainRankingEngine, UseCase } from '../ChainRankingEngine'
+import { BlockchainAdapter } from '../BlockchainAdapter'
+import { SupportedChain } from '../types'
+
+describe('CapabilityQuery', () => {
+  describe('parse', () => {
+    it('should parse features, metrics and properties', () => {
+      const requirements = CapabilityQuery.parse('nft, !variable-gas, finality<500ms, tps>=2k, cost<=$0.01, contract-language=Solidity')
+
+      expect(requirements).toEqual([
+        { kind: 'feature', text: 'nft', feature: 'nft', capabilities: ['hasERC721', 'hasNativeTokens'], negated: false },
+        { kind: 'feature', text: '!variable-gas', feature: 'variable-gas', capabilities: ['hasVariableGas'], negated: true },
+        { kind: 'metric', text: 'finality<500ms', metric: 'finality', operator: '<', value: 0.5 },
+        { kind: 'metric', text: 'tps>=2k', metric: 'tps', operator: '>=', value: 2000 },
+        { kind: 'metric', text: 'cost<=$0.01', metric: 'cost', operator: '<=', value: 0.01 },
+        { kind: 'property', text: 'contract-language=Solidity', property: 'contract-language', operator: '=', value: 'solidity' },
+      ])
+    })
+
+    it('should accept raw capability keys and requirement lists', () => {
+      const requirements = CapabilityQuery.parse(['hasMultisig', 'token-kyc, erc1155'])
+
+      expect(requirements.map(requirement => requirement.kind === 'feature' && requirement.capabilities))
+        .toEqual([['hasMultisig'], ['hasTokenKyc'], ['hasERC1155']])
+    })
+
+    it('should reject unknown names and malformed requirements', () => {
+      expect(() => CapabilityQuery.parse('teleportation')).toThrow(/Unknown capability 'teleportation'.*multisig/)
+      expect(() => CapabilityQuery.parse('finality')).toThrow("Requirement 'finality' needs a comparison, e.g. finality<5s")
+      expect(() => CapabilityQuery.parse('finality<fast')).toThrow("Invalid finality value in 'finality<fast'")
+      expect(() => CapabilityQuery.parse('multisig>1')).toThrow("Feature 'multisig' takes no comparison")
+      expect(() => CapabilityQuery.parse('account-model<utxo')).toThrow(/needs = or !=/)
+    })
+  })
+
+  describe('run', () => {
+    it('should find the chains meeting every requirement', () => {
+      const result = CapabilityQuery.run('nft,multisig,finality<5s,predictable-fees')
+
+      expect(result.matches.map(match => match.chain)).toEqual(['hedera'])
+      expect(result.matches[0]).toMatchObject({ displayName: 'Hedera', finality: 3, failures: [] })
+    })
+
+    it('should explain which requirement excluded each chain', () => {
+      const result = CapabilityQuery.run('nft,multisig,finality<5s,predictable-fees')
+      const excluded = (chain: SupportedChain) => result.excluded.find(match => match.chain === chain)
+
+      expect(excluded('ethereum')?.failures).toEqual([
+        { requirement: 'finality<5s', reason: 'finality is 180s, needs <5s' },
+        { requirement: 'predictable-fees', reason: 'Fixed, predictable transaction fees not supported' },
+      ])
+      expect(excluded('solana')?.failures).toEqual([
+        { requirement: 'predictable-fees', reason: 'Fixed, predictable transaction fees not supported' },
+      ])
+      expect(result.excluded[result.excluded.length - 1].chain).toBe('ethereum')
+    })
+
+    it('should sort by the first metric in the query', () => {
+      const fastest = CapabilityQuery.run('smart-contracts, finality<=5s')
+      const busiest = CapabilityQuery.run('erc20, tps>1000')
+
+      const finalities = fastest.matches.map(match => match.finality)
+      expect(fastest.sortBy).toBe('finality')
+      expect(finalities).toEqual([...finalities].sort((a, b) => a - b))
+
+      const throughputs = busiest.matches.map(match => match.tps)
+      expect(busiest.sortBy).toBe('tps')
+      expect(throughputs).toEqual([...throughputs].sort((a, b) => b - a))
+      expect(busiest.excluded.find(match => match.chain === 'base')?.failures)
+        .toEqual([{ requirement: 'tps>1000', reason: 'throughput is 1,000 TPS, needs >1,000 TPS' }])
+    })
+
+    it('should honour negated features, properties and an explicit sort', () => {
+      const result = CapabilityQuery.run('!variable-gas, contract-language!=rust', { sortBy: 'cost' })
+
+      expect(result.matches.map(match => match.chain)).toEqual(['hedera'])
+      expect(result.excluded.find(match => match.chain === 'solana')?.failures).toEqual([
+        { requirement: '!variable-gas', reason: 'Variable gas fees based on network demand supported, but excluded' },
+        { requirement: 'contract-language!=rust', reason: 'contract language is rust, needs !=rust' },
+      ])
+      expect(() => CapabilityQuery.run('nft', { sortBy: 'speed' as never })).toThrow("Unknown sort metric 'speed'")
+    })
+
+    it('should limit the query to the given chains', () => {
+      const result = CapabilityQuery.run('consensus-service', { chains: ['ethereum', 'hedera'] })
+
+      expect(result.matches.map(match => match.chain)).toEqual(['hedera'])
+      expect(result.excluded.map(match => match.chain)).toEqual(['ethereum'])
+    })
+  })
+
+  describe('check', () => {
+    it('should return the requirements a chain misses', () => {
+      expect(CapabilityQuery.check('hedera', 'tokens, account-creation')).toEqual([])
+      expect(CapabilityQuery.check('base', 'tokens, account-creation')).toEqual([
+        { requirement: 'account-creation', reason: 'On-chain account creation not supported' },
+      ])
+    })
+  })
+
+  describe('plugin chains', () => {
+    beforeAll(() => {
+      const scores = Object.fromEntries(ChainRankingEngine.getUseCases().map(useCase => [useCase, 50])) as Record<UseCase, number>
+
+      ChainPlugins.register({
+        chain: 'acme-ledger',
+        createAdapter: () => ({}) as BlockchainAdapter,
+        capabilities: { ...CHAIN_CAPABILITIES.hedera, averageFinalitySeconds: 0.2, hasConsensusService: false },
+        metadata: {
+          name: 'acme-ledger',
+          displayName: 'Acme Ledger',
+          description: 'Permissioned ledger',
+          nativeToken: 'ACM',
+          explorerUrl: { mainnet: 'https://explorer.acme.internal', testnet: 'https://explorer.test.acme.internal' },
+          rpcUrls: { mainnet: ['https://ledger.acme.internal'], testnet: ['https://ledger.test.acme.internal'] },
+          documentation: 'https://docs.acme.internal',
+        },
+        estimatedCostPerTx: { usd: 0, nativeToken: '0 ACM' },
+        ranking: { scores },
+      })
+    })
+
+    it('should include registered plugin chains', () => {
+      const result = CapabilityQuery.run('nft,multisig,finality<5s,predictable-fees')
+
+      expect(result.matches.map(match => match.chain)).toEqual(['acme-ledger', 'hedera'])
+      expect(CapabilityQuery.check('acme-ledger' as SupportedChain, 'consensus-service')).toEqual([
+        { requirement: 'consensus-service', reason: 'Consensus/messaging service (Hedera HCS) not supported' },
+      ])
+    })
+  })
+})
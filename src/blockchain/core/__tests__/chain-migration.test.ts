@@ -0,0 +1,251 @@
+/**
+ * Tests for chain migration
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ChainMigrator, formatMigrationReport, getChainEnvVars } from '../ChainMigration'
+import { ChainPlugins } from '../ChainPlugin'
+import { CHAIN_CAPABILITIES } from '../ChainCapabilities'
+import { ChainRankingEngine, UseCase } from '../ChainRankingEngine'
+import { BlockchainAdapter } from '../BlockchainAdapter'
+import { SupportedChain } from '../types'
+
+const HTS_OPERATIONS = `import { Client, TokenCreateTransaction } from '@hashgraph/sdk';
+export async function createToken(client: Client) {
+  return new TokenCreateTransaction().setTokenName('Points').execute(client);
+}
+`
+
+const AUDIT_LOG = `import { TopicCreateTransaction, TopicMessageSubmitTransaction } from '@hashgraph/sdk';
+export const topic = () => new TopicCreateTransaction();
+export const submit = () => new TopicMessageSubmitTransaction();
+`
+
+const BALANCE_SCRIPT = `const { AccountBalanceQuery } = require('@hashgraph/sdk');
+new AccountBalanceQuery().setAccountId(process.env.HEDERA_ACCOUNT_ID);
+`
+
+function writeProject(files: Record<string, string>): string {
+  const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'apix-migrate-'))
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(projectPath, file)), { recursive: true })
+    fs.writeFileSync(path.join(projectPath, file), content)
+  }
+  return projectPath
+}
+
+describe('ChainMigrator', () => {
+  let projectPath: string
+
+  beforeEach(() => {
+    projectPath = writeProject({
+      'package.json': JSON.stringify({ dependencies: { '@hashgraph/sdk': '^2.40.0', react: '^18.0.0' } }),
+      'lib/hedera/hts-operations.ts': HTS_OPERATIONS,
+      'lib/hedera/audit-log.ts': AUDIT_LOG,
+      'scripts/balance.js': BALANCE_SCRIPT,
+      'components/Button.tsx': "import React from 'react';\n",
+      'node_modules/@hashgraph/sdk/index.js': "require('@hashgraph/sdk/lib/client');\n",
+      '.env': 'HEDERA_NETWORK=testnet\nHEDERA_ACCOUNT_ID=0.0.123\nHEDERA_PRIVATE_KEY=302e-secret\nNEXT_PUBLIC_HEDERA_NETWORK=testnet\nMNEMONIC=\n',
+    })
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('plan', () => {
+    test('should map the files of the source chain to target features', async () => {
+      const plan = await new ChainMigrator(projectPath).plan('hedera', 'base')
+
+      expect(plan.files).toEqual([
+        { path: 'lib/hedera/audit-log.ts', features: ['consensus'], regenerated: true, remove: false },
+        { path: 'lib/hedera/hts-operations.ts', features: ['token'], regenerated: true, remove: false },
+        { path: 'scripts/balance.js', features: [], regenerated: false, remove: false },
+      ])
+      expect(plan.features.map(feature => [feature.integrationType, feature.target?.feature, feature.output])).toEqual([
+        ['consensus', 'Smart Contract Events (L2)', 'lib/base/consensus-operations.ts'],
+        ['token', 'ERC-20 Token Standard (L2)', 'lib/base/token-operations.ts'],
+      ])
+      expect(plan.generated.map(file => file.path)).toEqual([
+        'lib/base/adapter.ts',
+        'lib/base/consensus-operations.ts',
+        'lib/base/token-operations.ts',
+      ])
+      expect(plan.dependencies).toEqual({
+        add: ['ethers', 'apix-ai'],
+        remove: [],
+        keep: [{ name: '@hashgraph/sdk', usedBy: ['lib/hedera/audit-log.ts', 'lib/hedera/hts-operations.ts', 'scripts/balance.js'] }],
+      })
+      expect(plan.env).toEqual([
+        { file: '.env', from: 'HEDERA_NETWORK', to: 'BASE_NETWORK', keepValue: true, retire: false },
+        { file: '.env', from: 'HEDERA_ACCOUNT_ID', to: undefined, keepValue: false, retire: false },
+        { file: '.env', from: 'HEDERA_PRIVATE_KEY', to: 'BASE_PRIVATE_KEY', keepValue: false, retire: false },
+        { file: '.env', from: 'NEXT_PUBLIC_HEDERA_NETWORK', to: 'NEXT_PUBLIC_BASE_NETWORK', keepValue: true, retire: false },
+      ])
+    })
+
+    test('should generate modules over the target adapter', async () => {
+      const plan = await new ChainMigrator(projectPath, { importFrom: '@acme/chain-core' }).plan('hedera', 'base')
+      const [adapter, , token] = plan.generated
+
+      expect(adapter.content).toContain("import { AdapterFactory, BlockchainAdapter, NetworkType } from '@acme/chain-core';")
+      expect(adapter.content).toContain("network: (process.env.BASE_NETWORK || 'testnet') as NetworkType,")
+      expect(adapter.content).toContain('        privateKeyEVM: process.env.BASE_PRIVATE_KEY,')
+      expect(adapter.content).toContain('      rpcUrl: process.env.BASE_RPC_URL,')
+      expect(token.content.split('\n')[0]).toBe('// Generated by `apix migrate` for base: token. Regenerate instead of editing.')
+      expect(token.content).toContain(' * ERC-20 Token Standard (L2) on Base, replacing Hedera Token Service (HTS) on Hedera')
+      expect(token.content).toContain(
+        "export async function mintToken(...args: Parameters<BlockchainAdapter['mintToken']>) {\n" +
+        '  return (await getAdapter()).mintToken(...args);\n' +
+        '}'
+      )
+      expect(plan.dependencies.add).toEqual(['ethers', '@acme/chain-core'])
+    })
+
+    test('should detect EVM features by their standard', async () => {
+      fs.writeFileSync(path.join(projectPath, 'package.json'), JSON.stringify({ dependencies: { ethers: '^6.0.0' } }))
+      fs.writeFileSync(
+        path.join(projectPath, 'lib', 'points.ts'),
+        "import { Contract } from 'ethers';\nimport erc20Abi from './abi/ERC20.json';\nexport const points = (address: string) => new Contract(address, erc20Abi);\n"
+      )
+
+      const plan = await new ChainMigrator(projectPath).plan('base', 'polygon')
+
+      expect(plan.files).toEqual([{ path: 'lib/points.ts', features: ['token'], regenerated: true, remove: false }])
+      expect(plan.features[0].target?.feature).toBe('ERC-20 Token Standard (Polygon)')
+      // Both chains run on ethers
+      expect(plan.dependencies).toEqual({ add: ['apix-ai'], remove: [], keep: [] })
+    })
+
+    test('should report features without an equivalent on the target', async () => {
+      const scores = Object.fromEntries(ChainRankingEngine.getUseCases().map(useCase => [useCase, 50])) as Record<UseCase, number>
+      ChainPlugins.register({
+        chain: 'acme-ledger',
+        createAdapter: () => ({}) as BlockchainAdapter,
+        capabilities: CHAIN_CAPABILITIES.ethereum,
+        metadata: {
+          name: 'acme-ledger',
+          displayName: 'Acme Ledger',
+          description: 'Permissioned ledger',
+          nativeToken: 'ACM',
+          explorerUrl: { mainnet: 'https://explorer.acme.internal', testnet: 'https://explorer.test.acme.internal' },
+          rpcUrls: { mainnet: ['https://ledger.acme.internal'], testnet: ['https://ledger.test.acme.internal'] },
+          documentation: 'https://docs.acme.internal',
+        },
+        estimatedCostPerTx: { usd: 0, nativeToken: '0 ACM' },
+        ranking: { scores },
+        featureMappings: {
+          token: { feature: 'Acme Assets', similarity: 0.8, notes: 'Issued by the ledger operator', implementation: 'acme.assets.issue()' },
+        },
+        credentials: {
+          name: 'Acme Console',
+          url: 'https://console.acme.internal',
+          description: 'Request a service account',
+          env: [
+            { name: 'ACME_ACCOUNT', field: 'accountId', required: true },
+            { name: 'ACME_KEY', field: 'privateKey', required: true },
+            { name: 'ACME_TENANT', field: 'customConfig.tenant' },
+          ],
+        },
+      })
+      const chain = 'acme-ledger' as SupportedChain
+
+      const plan = await new ChainMigrator(projectPath).plan('hedera', chain)
+
+      expect(getChainEnvVars(chain).map(variable => [variable.name, variable.role])).toEqual([
+        ['ACME_ACCOUNT', 'accountId'],
+        ['ACME_KEY', 'privateKey'],
+        ['ACME_TENANT', undefined],
+        ['ACME_LEDGER_NETWORK', 'network'],
+      ])
+      expect(plan.features.find(feature => feature.integrationType === 'consensus')).toMatchObject({
+        target: null,
+        output: undefined,
+        suggestion: 'consensus feature not available on acme-ledger',
+      })
+      expect(plan.files[0]).toMatchObject({ path: 'lib/hedera/audit-log.ts', regenerated: false })
+      expect(plan.generated[0].content).toContain("AdapterFactory.createAdapter('acme-ledger' as SupportedChain, {")
+      expect(plan.generated[0].content).toContain('        customConfig: {\n          tenant: process.env.ACME_TENANT,\n        },')
+      expect(plan.env.find(rewrite => rewrite.from === 'HEDERA_ACCOUNT_ID')?.to).toBe('ACME_ACCOUNT')
+
+      const report = formatMigrationReport(plan)
+      expect(report).toContain('## Features without an equivalent\n\n- **consensus** (Hedera Consensus Service (HCS)): ' +
+        'consensus feature not available on acme-ledger. Used by `lib/hedera/audit-log.ts`')
+      expect(report).toContain('- `lib/hedera/audit-log.ts` (consensus): partly without an equivalent on Acme Ledger; port the rest by hand')
+    })
+
+    test('should reject unknown chains and same-chain migrations', async () => {
+      const migrator = new ChainMigrator(projectPath)
+
+      await expect(migrator.plan('hedera', 'tezos' as SupportedChain)).rejects.toThrow("Unknown chain 'tezos'")
+      await expect(migrator.plan('base', 'base')).rejects.toThrow("Nothing to migrate: source and target are both 'base'")
+    })
+  })
+
+  describe('apply', () => {
+    test('should regenerate, retire what nothing else uses and write the report', async () => {
+      fs.mkdirSync(path.join(projectPath, 'lib', 'base'), { recursive: true })
+      fs.writeFileSync(path.join(projectPath, 'lib', 'base', 'consensus-operations.ts'), '// hand-written\n')
+      const migrator = new ChainMigrator(projectPath)
+
+      const plan = await migrator.plan('hedera', 'base', { removeSource: true })
+      const result = await migrator.apply(plan)
+
+      expect(result).toEqual({
+        written: ['lib/base/adapter.ts', 'lib/base/token-operations.ts'],
+        skipped: ['lib/base/consensus-operations.ts'],
+        // audit-log.ts stays: its consensus module was not written
+        removed: ['lib/hedera/hts-operations.ts'],
+        report: '.apix/migration-hedera-to-base.md',
+      })
+      expect(fs.existsSync(path.join(projectPath, 'lib', 'hedera', 'hts-operations.ts'))).toBe(false)
+      expect(fs.readFileSync(path.join(projectPath, 'lib', 'hedera', 'audit-log.ts'), 'utf8')).toBe(AUDIT_LOG)
+      expect(fs.readFileSync(path.join(projectPath, 'lib', 'base', 'consensus-operations.ts'), 'utf8')).toBe('// hand-written\n')
+
+      // The balance script still needs the SDK and HEDERA_ACCOUNT_ID
+      expect(JSON.parse(fs.readFileSync(path.join(projectPath, 'package.json'), 'utf8')).dependencies).toEqual({
+        '@hashgraph/sdk': '^2.40.0',
+        react: '^18.0.0',
+        ethers: 'latest',
+        'apix-ai': 'latest',
+      })
+      expect(fs.readFileSync(path.join(projectPath, '.env'), 'utf8')).toBe([
+        '# HEDERA_NETWORK=testnet',
+        'BASE_NETWORK=testnet',
+        'HEDERA_ACCOUNT_ID=0.0.123',
+        '# HEDERA_PRIVATE_KEY=302e-secret',
+        'BASE_PRIVATE_KEY=',
+        '# NEXT_PUBLIC_HEDERA_NETWORK=testnet',
+        'NEXT_PUBLIC_BASE_NETWORK=testnet',
+        'MNEMONIC=',
+        '',
+      ].join('\n'))
+
+      const report = fs.readFileSync(path.join(projectPath, result.report), 'utf8')
+      expect(report).toContain('# Migration from Hedera to Base')
+      expect(report).toContain('- `lib/hedera/hts-operations.ts` (token): regenerated, removed')
+      expect(report).toContain('- `scripts/balance.js`: no mapped feature; port by hand')
+      expect(report).toContain('(not written: the file exists and was not generated by apix migrate)')
+      expect(report).toContain('- `.env`: `HEDERA_PRIVATE_KEY` → `BASE_PRIVATE_KEY` (set a Base value), commented out')
+      expect(report).toContain('- `lib/hedera/audit-log.ts` (consensus): regenerated; point its imports at `lib/base`, then delete it')
+      expect(report).toContain('- Kept `@hashgraph/sdk`: still imported by `lib/hedera/audit-log.ts`, `scripts/balance.js`')
+    })
+
+    test('should migrate modules generated by an earlier migration', async () => {
+      const migrator = new ChainMigrator(projectPath)
+      await migrator.apply(await migrator.plan('hedera', 'base'))
+
+      const plan = await migrator.plan('base', 'solana')
+
+      expect(plan.files).toEqual([
+        { path: 'lib/base/adapter.ts', features: [], regenerated: true, remove: false },
+        { path: 'lib/base/consensus-operations.ts', features: ['consensus'], regenerated: true, remove: false },
+        { path: 'lib/base/token-operations.ts', features: ['token'], regenerated: true, remove: false },
+      ])
+      expect(plan.generated.map(file => file.path)).toContain('lib/solana/token-operations.ts')
+      expect(plan.generated[0].content).toContain('        privateKeySolana: process.env.SOLANA_PRIVATE_KEY,')
+    })
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Tests for chain plugins
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  ChainPlugin,
+  ChainPluginCredentials,
+  ChainPlugins,
+  CHAIN_PLUGIN_API_VERSION,
+  credentialsFromEnv,
+  credentialsToEnv,
+} from '../ChainPlugin'
+import { AdapterFactory } from '../AdapterFactory'
+import { BlockchainAdapter } from '../BlockchainAdapter'
+import { ChainCapabilityDetector, CHAIN_CAPABILITIES } from '../ChainCapabilities'
+import { ChainRankingEngine, UseCase } from '../ChainRankingEngine'
+import { ChainRegistry } from '../ChainRegistry'
+import { isEvmChain } from '../EvmChains'
+import { FeatureMapper } from '../FeatureMapper'
+import { SupportedChain } from '../types'
+import { WALLET_METADATA, WalletServiceFactory } from '../../wallets/WalletService'
+
+const ACME_EVM = {
+  displayName: 'Acme EVM',
+  chainIds: { mainnet: 7001, testnet: 7002 },
+  rpcUrls: { mainnet: ['https://evm.acme.internal'], testnet: ['https://evm.test.acme.internal'] },
+  explorerUrl: { mainnet: 'https://evmscan.acme.internal', testnet: 'https://evmscan.test.acme.internal' },
+  explorerTxPath: '/tx/{txHash}',
+  nativeCurrency: { name: 'Acme', symbol: 'ACM', decimals: 18 },
+  supportsEIP1559: false,
+}
+
+function scores(score: number): Record<UseCase, number> {
+  return Object.fromEntries(ChainRankingEngine.getUseCases().map(useCase => [useCase, score])) as Record<UseCase, number>
+}
+
+function plugin(chain: string, fields: Partial<ChainPlugin> = {}): ChainPlugin {
+  return {
+    chain,
+    createAdapter: () => ({ chain, initialize: jest.fn(), isConnected: jest.fn().mockResolvedValue(true) }) as unknown as BlockchainAdapter,
+    capabilities: { ...CHAIN_CAPABILITIES.ethereum, hasNativeTokens: true },
+    metadata: {
+      name: chain,
+      displayName: 'Acme Ledger',
+      description: 'Permissioned ledger for Acme subsidiaries',
+      nativeToken: 'ACM',
+      explorerUrl: { mainnet: 'https://explorer.acme.internal', testnet: 'https://explorer.test.acme.internal' },
+      rpcUrls: { mainnet: ['https://ledger.acme.internal'], testnet: ['https://ledger.test.acme.internal'] },
+      documentation: 'https://docs.acme.internal/ledger',
+    },
+    estimatedCostPerTx: { usd: 0, nativeToken: '0 ACM' },
+    ranking: { scores: scores(50) },
+    ...fields,
+  }
+}
+
+describe('ChainPlugins', () => {
+  describe('register', () => {
+    test('should add a chain with its own adapter to every core table', async () => {
+      ChainPlugins.register(plugin('acme-ledger', {
+        ranking: {
+          scores: { ...scores(40), enterprise: 100 },
+          details: {
+            enterprise: { headline: 'Runs inside the Acme network', reasons: ['Internal SSO'], considerations: [], costEstimate: 'Free' },
+          },
+        },
+        featureMappings: {
+          token: { feature: 'Acme Assets', similarity: 0.8, notes: 'Issued by the ledger operator', implementation: 'acme.assets.issue()' },
+        },
+        wallets: ['acme-vault'],
+        walletMetadata: {
+          'acme-vault': {
+            name: 'Acme Vault',
+            description: 'Company custody',
+            iconUrl: 'https://vault.acme.internal/icon.svg',
+            websiteUrl: 'https://vault.acme.internal',
+            installUrl: 'https://vault.acme.internal/install',
+          },
+        },
+      }))
+      const chain = 'acme-ledger' as SupportedChain
+
+      expect(ChainRegistry.getChain(chain)).toMatchObject({ chain, status: 'beta', sdkPackages: [] })
+      expect(ChainCapabilityDetector.getMetadata(chain).id).toBe(chain)
+      expect(ChainCapabilityDetector.hasCapability(chain, 'hasNativeTokens')).toBe(true)
+      expect(ChainRankingEngine.rankChainsForUseCase('enterprise')[0]).toMatchObject({
+        chain,
+        headline: 'Runs inside the Acme network',
+        estimatedCost: 'Free',
+      })
+      expect(ChainRankingEngine.rankChainsForUseCase('tokens').find(ranking => ranking.chain === chain)).toMatchObject({
+        headline: 'Permissioned ledger for Acme subsidiaries',
+        estimatedCost: '~$0 per transaction',
+      })
+      expect(FeatureMapper.getImplementation('token', chain)).toMatchObject({ chain, feature: 'Acme Assets' })
+      expect(FeatureMapper.getImplementation('nft', chain)).toBeNull()
+      expect(WalletServiceFactory.getSupportedWallets(chain)).toEqual(['acme-vault'])
+      expect(WALLET_METADATA['acme-vault' as keyof typeof WALLET_METADATA].name).toBe('Acme Vault')
+      expect(isEvmChain(chain)).toBe(false)
+
+      const adapter = await AdapterFactory.createAdapter(chain)
+      expect((adapter as any).chain).toBe(chain)
+      expect(ChainPlugins.get(chain)?.chain).toBe(chain)
+      expect(ChainPlugins.get('hedera')).toBeUndefined()
+    })
+
+    test('should run EVM plugins on the EVM descriptor and inherit Ethereum defaults', () => {
+      ChainPlugins.register(plugin('acme-evm', {
+        createAdapter: undefined,
+        evm: ACME_EVM,
+      }))
+      const chain = 'acme-evm' as SupportedChain
+
+      expect(isEvmChain(chain)).toBe(true)
+      expect(ChainRegistry.getEvmDescriptor(chain)).toMatchObject({ chain, chainIds: { mainnet: 7001 } })
+      expect(ChainRegistry.getChain(chain).sdkPackages).toEqual(['ethers'])
+      expect(FeatureMapper.getImplementation('token', chain)).toMatchObject({ chain, feature: 'ERC-20 Token Standard (Acme EVM)' })
+      expect(WalletServiceFactory.getSupportedWallets(chain)).toEqual(WalletServiceFactory.getSupportedWallets('ethereum'))
+    })
+
+    test('should reject invalid plugins before touching any table', () => {
+      const chainCount = ChainRegistry.getAllChains().length
+
+      expect(() => ChainPlugins.register(plugin('hedera'))).toThrow("Chain 'hedera' is already registered")
+      expect(() => ChainPlugins.register(plugin('Acme Ledger'))).toThrow("Invalid chain plugin ID 'Acme Ledger'")
+      expect(() => ChainPlugins.register(plugin('acme-next', { apiVersion: CHAIN_PLUGIN_API_VERSION + 1 })))
+        .toThrow(`needs plugin API v${CHAIN_PLUGIN_API_VERSION + 1}`)
+      expect(() => ChainPlugins.register(plugin('acme-bare', { createAdapter: undefined })))
+        .toThrow("Chain plugin 'acme-bare' needs createAdapter or an evm descriptor")
+
+      const { hasNativeTokens, ...capabilities } = CHAIN_CAPABILITIES.ethereum
+      const { enterprise, ...partialScores } = scores(50)
+      expect(() => ChainPlugins.register(plugin('acme-partial', {
+        capabilities: capabilities as any,
+        ranking: { scores: partialScores as any },
+      }))).toThrow("Chain plugin 'acme-partial' is missing capabilities.hasNativeTokens, ranking.scores.enterprise")
+      expect(hasNativeTokens).toBe(false)
+      expect(enterprise).toBe(50)
+
+      expect(ChainRegistry.getAllChains()).toHaveLength(chainCount)
+      expect(ChainRegistry.hasChain('acme-partial' as SupportedChain)).toBe(false)
+    })
+  })
+
+  describe('load', () => {
+    let projectPath: string
+
+    beforeAll(() => {
+      projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'apix-plugins-'))
+      const { createAdapter, ...fields } = plugin('acme-loaded')
+      fs.mkdirSync(path.join(projectPath, 'plugins'))
+      fs.writeFileSync(
+        path.join(projectPath, 'plugins', 'acme.js'),
+        `exports.plugins = [${JSON.stringify({ ...fields, evm: ACME_EVM })}]\n`
+      )
+      fs.writeFileSync(path.join(projectPath, 'plugins', 'broken.js'), 'exports.plugin = { chain: "acme-broken" }\n')
+    })
+
+    afterAll(() => {
+      fs.rmSync(projectPath, { recursive: true, force: true })
+    })
+
+    test('should register plugins from project modules and report failures', async () => {
+      const result = await ChainPlugins.load(['./plugins/acme.js', './plugins/broken.js', 'apix-chain-missing'], projectPath)
+
+      expect(result.loaded.map(loaded => loaded.chain)).toEqual(['acme-loaded'])
+      expect(ChainRegistry.hasChain('acme-loaded' as SupportedChain)).toBe(true)
+      expect(result.failed.map(failed => failed.module)).toEqual(['./plugins/broken.js', 'apix-chain-missing'])
+      expect(result.failed[0].error).toBe("Chain plugin 'acme-broken' needs createAdapter or an evm descriptor")
+      expect(result.failed[1].error).toContain("'apix-chain-missing'")
+    })
+  })
+
+  describe('credentials', () => {
+    const spec: ChainPluginCredentials = {
+      name: 'Acme Ledger Console',
+      url: 'https://console.acme.internal',
+      description: 'Request a service account',
+      env: [
+        { name: 'ACME_ACCOUNT', field: 'accountId', required: true },
+        { name: 'ACME_KEY', field: 'privateKey', required: true, secret: true },
+        { name: 'ACME_TENANT', field: 'customConfig.tenant' },
+      ],
+    }
+
+    test('should map env vars to credentials and back', () => {
+      const credentials = credentialsFromEnv(spec, { ACME_ACCOUNT: 'svc-1', ACME_KEY: 'secret', ACME_TENANT: 'emea', OTHER: 'x' })
+
+      expect(credentials).toEqual({ accountId: 'svc-1', privateKey: 'secret', customConfig: { tenant: 'emea' } })
+      expect(credentialsToEnv(spec, credentials)).toEqual({ ACME_ACCOUNT: 'svc-1', ACME_KEY: 'secret', ACME_TENANT: 'emea' })
+      expect(credentialsFromEnv(spec, { ACME_ACCOUNT: 'svc-1', ACME_TENANT: '' })).toEqual({ accountId: 'svc-1' })
+    })
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Tests for Hedera Consensus Service topic reading
+ */
+
+import {
+  INITIAL_RUNNING_HASH,
+  TopicMessage,
+  TopicMessageReader,
+  computeRunningHash,
+  countTopicChunks,
+  parseMirrorTopicMessage,
+  verifyRunningHash,
+} from '../ConsensusTopic'
+
+const TOPIC_ID = '0.0.5005'
+
+/**
+ * Build a topic's messages with correct running hashes.
+ */
+function topicMessages(contents: Array<string | { text: string; chunk: [number, number] }>): TopicMessage[] {
+  let runningHash: Buffer = Buffer.from(INITIAL_RUNNING_HASH, 'hex')
+
+  return contents.map((content, i) => {
+    const text = typeof content === 'string' ? content : content.text
+    const message: TopicMessage = {
+      topicId: TOPIC_ID,
+      sequenceNumber: i + 1,
+      message: text,
+      contents: Buffer.from(text).toString('base64'),
+      consensusTimestamp: `1700000000.${String(i).padStart(9, '0')}`,
+      payer: '0.0.1001',
+      runningHashVersion: 3,
+      chunkInfo: typeof content === 'string' ? undefined : {
+        initialTransactionId: '0.0.1001@1699999999.000000000',
+        number: content.chunk[0],
+        total: content.chunk[1],
+      },
+    }
+    runningHash = computeRunningHash(runningHash, message)
+    return { ...message, runningHash: runningHash.toString('hex') }
+  })
+}
+
+describe('ConsensusTopic', () => {
+  describe('running hashes', () => {
+    test('should chain each message to the previous hash', () => {
+      const [first, second] = topicMessages(['a', 'b'])
+
+      expect(first.runningHash).toHaveLength(96)
+      expect(verifyRunningHash(INITIAL_RUNNING_HASH, first)).toBe(true)
+      expect(verifyRunningHash(first.runningHash!, second)).toBe(true)
+      expect(verifyRunningHash(INITIAL_RUNNING_HASH, second)).toBe(false)
+    })
+
+    test('should detect changed contents, payer and timestamps', () => {
+      const [first] = topicMessages(['audit entry'])
+
+      expect(verifyRunningHash(INITIAL_RUNNING_HASH, { ...first, contents: Buffer.from('audit entrY').toString('base64') })).toBe(false)
+      expect(verifyRunningHash(INITIAL_RUNNING_HASH, { ...first, payer: '0.0.1002' })).toBe(false)
+      expect(verifyRunningHash(INITIAL_RUNNING_HASH, { ...first, consensusTimestamp: '1700000000.000000001' })).toBe(false)
+      expect(verifyRunningHash(INITIAL_RUNNING_HASH, { ...first, runningHashVersion: 2 })).toBe(false)
+    })
+  })
+
+  describe('TopicMessageReader', () => {
+    test('should verify a topic from its first message', () => {
+      const reader = new TopicMessageReader()
+
+      const read = topicMessages(['one', 'two', 'three']).map(message => reader.read(message))
+
+      expect(read.map(message => message?.contents.toString())).toEqual(['one', 'two', 'three'])
+      expect(read.every(message => message?.verified)).toBe(true)
+    })
+
+    test('should reassemble chunks into one message', () => {
+      const reader = new TopicMessageReader()
+      const [before, chunk1, chunk2, after] = topicMessages([
+        'before',
+        { text: 'hello ', chunk: [1, 2] },
+        { text: 'world', chunk: [2, 2] },
+        'after',
+      ])
+
+      expect(reader.read(before)?.verified).toBe(true)
+      expect(reader.read(chunk1)).toBeUndefined()
+      expect(reader.pendingMessages).toBe(1)
+      expect(reader.read(chunk2)).toMatchObject({
+        contents: Buffer.from('hello world'),
+        chunks: 2,
+        firstSequenceNumber: 2,
+        sequenceNumber: 3,
+        verified: true,
+      })
+      expect(reader.read(after)?.verified).toBe(true)
+      expect(reader.pendingMessages).toBe(0)
+    })
+
+    test('should flag a chunked message that began before reading started', () => {
+      const [, chunk1, chunk2, chunk3, after] = topicMessages([
+        'before',
+        { text: 'a', chunk: [1, 3] },
+        { text: 'b', chunk: [2, 3] },
+        { text: 'c', chunk: [3, 3] },
+        'after',
+      ])
+      const reader = new TopicMessageReader({ previousRunningHash: chunk1.runningHash })
+
+      expect(reader.read(chunk2)).toBeUndefined()
+      expect(reader.read(chunk3)).toMatchObject({
+        contents: Buffer.from('bc'),
+        chunks: 2,
+        firstSequenceNumber: 3,
+        incomplete: true,
+        verified: true,
+      })
+      expect(reader.pendingMessages).toBe(0)
+      expect(reader.read(after)).not.toHaveProperty('incomplete')
+    })
+
+    test('should fail tampered messages and sequence gaps', () => {
+      const [one, two, , four] = topicMessages(['one', 'two', 'three', 'four'])
+      const reader = new TopicMessageReader()
+
+      reader.read(one)
+      expect(reader.read({ ...two, contents: Buffer.from('TWO').toString('base64') })).toMatchObject({
+        verified: false,
+        verificationError: 'Running hash mismatch at sequence 2',
+      })
+      expect(reader.read(four)).toMatchObject({
+        verified: false,
+        verificationError: 'Sequence gap: expected 3, got 4',
+      })
+    })
+
+    test('should resume from a known running hash, or skip verification', () => {
+      const [, two, three] = topicMessages(['one', 'two', 'three'])
+
+      expect(new TopicMessageReader().read(three)?.verificationError).toBe('Running hash of message 2 unknown')
+      expect(new TopicMessageReader({ previousRunningHash: two.runningHash }).read(three)?.verified).toBe(true)
+      expect(new TopicMessageReader({ verify: false }).read(three)?.verified).toBeUndefined()
+    })
+  })
+
+  describe('mirror node messages', () => {
+    test('should parse messages and chunk info', () => {
+      const message = parseMirrorTopicMessage({
+        consensus_timestamp: '1700000002.000000001',
+        topic_id: TOPIC_ID,
+        sequence_number: 12,
+        payer_account_id: '0.0.1001',
+        message: Buffer.from('part').toString('base64'),
+        running_hash: Buffer.alloc(48, 0xab).toString('base64'),
+        running_hash_version: 3,
+        chunk_info: {
+          initial_transaction_id: { account_id: '0.0.1001', nonce: 0, scheduled: false, transaction_valid_start: '1700000001.000000000' },
+          number: 1,
+          total: 2,
+        },
+      })
+
+      expect(message).toEqual({
+        topicId: TOPIC_ID,
+        sequenceNumber: 12,
+        message: 'part',
+        contents: Buffer.from('part').toString('base64'),
+        consensusTimestamp: '1700000002.000000001',
+        payer: '0.0.1001',
+        runningHash: 'ab'.repeat(48),
+        runningHashVersion: 3,
+        chunkInfo: { initialTransactionId: '0.0.1001@1700000001.000000000', number: 1, total: 2 },
+      })
+    })
+
+    test('should count chunks by UTF-8 bytes', () => {
+      expect(countTopicChunks('')).toBe(1)
+      expect(countTopicChunks('x'.repeat(1024))).toBe(1)
+      expect(countTopicChunks('x'.repeat(1025))).toBe(2)
+      expect(countTopicChunks('é'.repeat(600))).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Tests for the cost model
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  CostModel,
+  FilePriceFeed,
+  PriceFeed,
+  formatCostRange,
+  formatWorkload,
+  parseBudget,
+  parseWorkload,
+} from '../CostModel'
+import { BlockchainAdapter } from '../BlockchainAdapter'
+import { ChainRankingEngine } from '../ChainRankingEngine'
+
+// Fixed prices: ETH $2,000 ($1,500-$3,000), HBAR $0.10 (no range)
+const prices: PriceFeed = {
+  getPrice: async (symbol: string) => ({
+    ETH: { symbol: 'ETH', usd: 2000, low: 1500, high: 3000, updatedAt: '2026-10-01T00:00:00Z' },
+    HBAR: { symbol: 'HBAR', usd: 0.1, low: 0.1, high: 0.1 },
+  } as Record<string, any>)[symbol],
+}
+
+function evmAdapter(gwei: { standard: number; instant: number }): BlockchainAdapter {
+  const wei = (value: number) => BigInt(value * 1e9)
+  return {
+    getGasPrice: jest.fn().mockResolvedValue({ standard: wei(gwei.standard), fast: wei(gwei.standard), instant: wei(gwei.instant), unit: 'wei' }),
+    estimateFees: jest.fn().mockImplementation(async ({ operation }) => ({
+      estimatedCost: wei(gwei.standard) * BigInt(operation === 'transfer' ? 21000 : 100000),
+      estimatedCostUSD: 0,
+      currency: 'ETH',
+    })),
+  } as unknown as BlockchainAdapter
+}
+
+describe('CostModel', () => {
+  describe('project', () => {
+    test('should price live adapter fees with the feed', async () => {
+      const adapter = evmAdapter({ standard: 10, instant: 20 })
+      const model = new CostModel({ priceFeed: prices, adapters: { ethereum: adapter } })
+
+      const projection = await model.project('ethereum', { transfer: 1000, mint: 10 })
+
+      // 21,000 gas x 10 gwei = 0.00021 ETH; 100,000 gas = 0.001 ETH
+      expect(projection.feeSource).toBe('adapter')
+      expect(projection.operations.map(cost => [cost.operation, cost.count, cost.feeNative])).toEqual([
+        ['transfer', 1000, 0.00021],
+        ['mint', 10, 0.001],
+      ])
+      expect(projection.monthly.expected).toBeCloseTo((1000 * 0.00021 + 10 * 0.001) * 2000)
+      expect(projection.monthly.low).toBeCloseTo((1000 * 0.00021 + 10 * 0.001) * 1500)
+      expect(projection.monthly.high).toBeCloseTo((1000 * 0.00021 + 10 * 0.001) * 2 * 3000)
+      expect(projection.notes).toEqual([])
+      expect(adapter.estimateFees).toHaveBeenCalledWith({ operation: 'mint' })
+    })
+
+    test('should fall back to registry fees and built-in prices', async () => {
+      const failing = { getGasPrice: jest.fn().mockRejectedValue(new Error('rpc down')) } as unknown as BlockchainAdapter
+      const model = new CostModel({ priceFeed: prices, adapters: { hedera: failing } })
+
+      const hedera = await model.project('hedera', { transfer: 100000 })
+      expect(hedera).toMatchObject({ feeSource: 'registry', currency: 'HBAR', notes: ['Live fees unavailable (rpc down); using registry fees'] })
+      expect(hedera.operations[0].feeNative).toBe(0.001)
+      expect(hedera.monthly).toEqual({ low: expect.closeTo(5), expected: expect.closeTo(10), high: expect.closeTo(20) })
+
+      const solana = await model.project('solana', { transfer: 1000, deploy: 0 })
+      expect(solana.price).toMatchObject({ symbol: 'SOL', usd: 150, low: 75, high: 225, source: 'default' })
+      expect(solana.operations).toHaveLength(1)
+      expect(solana.notes).toEqual(['No feed price for SOL; using ~$150 ±50%'])
+    })
+
+    test('should rank projections cheapest first', async () => {
+      const projections = await new CostModel({ priceFeed: prices }).projectAll(['ethereum', 'hedera', 'polygon'], { transfer: 10 })
+
+      expect(projections.map(projection => projection.chain)).toEqual(['hedera', 'polygon', 'ethereum'])
+    })
+
+    test('should feed the ranking cost criterion', async () => {
+      const costs = await new CostModel({ priceFeed: prices }).projectAll(['hedera', 'ethereum'], { transfer: 100000 })
+      const rankings = ChainRankingEngine.rankChainsForUseCase('payments', undefined, { name: 'cost', weights: { cost: 1 } }, costs)
+      const hedera = rankings.find(ranking => ranking.chain === 'hedera')!
+      const solana = rankings.find(ranking => ranking.chain === 'solana')!
+
+      // $10/month scores 80; chains without a projection keep the per-transaction score
+      expect(hedera.breakdown[0]).toMatchObject({ score: 80, detail: 'expected $10.00/month for your workload' })
+      expect(hedera.estimatedCost).toBe('$5.00-$20.00/month (expected $10.00)')
+      expect(solana.breakdown[0].detail).toBe('~$0.00025 per transaction')
+      expect(rankings.find(ranking => ranking.chain === 'ethereum')!.score).toBe(0)
+    })
+  })
+
+  describe('FilePriceFeed', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apix-prices-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    test('should read prices and ranges, cache them and flag stale data', async () => {
+      const file = path.join(dir, 'prices.json')
+      fs.writeFileSync(file, JSON.stringify({
+        updatedAt: '2026-10-01T00:00:00Z',
+        prices: { HBAR: { usd: 0.07, low: 0.05, high: 0.09 }, ETH: 2600 },
+      }))
+      let now = Date.parse('2026-10-02T00:00:00Z')
+      const feed = new FilePriceFeed(file, { ttlMs: 1000, now: () => now })
+
+      expect(await feed.getPrice('hbar')).toEqual({
+        symbol: 'HBAR', usd: 0.07, low: 0.05, high: 0.09, updatedAt: '2026-10-01T00:00:00Z', stale: false,
+      })
+      expect(await feed.getPrice('ETH')).toMatchObject({ usd: 2600, low: 2600, high: 2600 })
+      expect(await feed.getPrice('SOL')).toBeUndefined()
+
+      // Cached until the TTL passes
+      fs.writeFileSync(file, JSON.stringify({ updatedAt: '2026-10-01T00:00:00Z', prices: { ETH: 3000 } }))
+      expect((await feed.getPrice('ETH'))?.usd).toBe(2600)
+      now = Date.parse('2026-10-20T00:00:00Z')
+      expect(await feed.getPrice('ETH')).toMatchObject({ usd: 3000, stale: true })
+    })
+
+    test('should treat a missing file as empty and reject a broken one', async () => {
+      expect(await new FilePriceFeed(path.join(dir, 'none.json')).getPrice('ETH')).toBeUndefined()
+
+      const broken = path.join(dir, 'broken.json')
+      fs.writeFileSync(broken, '{ "prices": ')
+      await expect(new FilePriceFeed(broken).getPrice('ETH')).rejects.toThrow(`Cannot read price feed ${broken}`)
+    })
+  })
+
+  describe('helpers', () => {
+    test('should parse workloads and budgets', () => {
+      expect(parseWorkload(['transfer=100k', 'mint=1,500'])).toEqual({ transfer: 100000, mint: 1500 })
+      expect(() => parseWorkload(['swap=10'])).toThrow("Unknown workload operation 'swap'")
+      expect(() => parseWorkload(['transfer=lots'])).toThrow("Invalid count for 'transfer': lots")
+
+      expect(parseBudget('500')).toBe(500)
+      expect(parseBudget('$1,200')).toBe(1200)
+      expect(parseBudget('$5k/month')).toBe(5000)
+      expect(parseBudget('low')).toBeUndefined()
+    })
+
+    test('should format ranges and workloads', () => {
+      expect(formatCostRange({ low: 2.5, expected: 7, high: 18 })).toBe('$2.50-$18.00/month (expected $7.00)')
+      expect(formatCostRange({ low: 1250, expected: 1250, high: 1250 })).toBe('$1,250/month')
+      expect(formatCostRange({ low: 0.0012, expected: 0.0024, high: 0.0048 })).toBe('$0.0012-$0.0048/month (expected $0.0024)')
+      expect(formatWorkload({ transfer: 100000, mint: 500, burn: 0 })).toBe('100,000 transfer + 500 mint per month')
+    })
+  })
+})
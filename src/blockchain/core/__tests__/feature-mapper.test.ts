@@ -34,6 +34,13 @@ describe('FeatureMapper', () => {
       expect(solanaNFT?.standard).toBe('Metaplex')
     })
 
+    test('should map multi-token collections to native equivalents', () => {
+      expect(FeatureMapper.getImplementation('multi-token', 'ethereum')?.standard).toBe('ERC-1155')
+      expect(FeatureMapper.getImplementation('multi-token', 'hedera')?.feature).toContain('NFT Serials')
+      expect(FeatureMapper.getImplementation('multi-token', 'solana')?.feature).toContain('Semi-Fungible')
+      expect(FeatureMapper.getImplementation('multi-token', 'polygon')?.standard).toBe('ERC-1155')
+    })
+
     test('should get smart contract implementation', () => {
       const hederaContract = FeatureMapper.getImplementation('smart-contract', 'hedera')
       expect(hederaContract?.standard).toBe('Solidity')
@@ -54,12 +61,22 @@ describe('FeatureMapper', () => {
     test('should get all implementations for a feature type', () => {
       const allTokenImpls = FeatureMapper.getAllImplementations('token')
       expect(allTokenImpls).toBeDefined()
-      expect(Object.keys(allTokenImpls!)).toHaveLength(4)
+      expect(Object.keys(allTokenImpls!)).toHaveLength(8)
       expect(allTokenImpls!.hedera).toBeDefined()
       expect(allTokenImpls!.ethereum).toBeDefined()
       expect(allTokenImpls!.solana).toBeDefined()
       expect(allTokenImpls!.base).toBeDefined()
     })
+
+    test('should derive EVM chain equivalents from Ethereum', () => {
+      const polygonToken = FeatureMapper.getImplementation('token', 'polygon')
+      expect(polygonToken?.standard).toBe('ERC-20')
+      expect(polygonToken?.feature).toContain('Polygon')
+      expect(FeatureMapper.isSupported('arbitrum', 'nft')).toBe(true)
+
+      // Hand-written entries are kept
+      expect(FeatureMapper.getImplementation('token', 'base')?.feature).toBe('ERC-20 Token Standard (L2)')
+    })
   })
 
   describe('Feature Comparison', () => {
@@ -67,7 +84,7 @@ describe('FeatureMapper', () => {
       const comparison = FeatureMapper.compareImplementations('token')
       expect(comparison).toBeDefined()
       expect(comparison?.integrationType).toBe('token')
-      expect(comparison?.chains.length).toBe(4)
+      expect(comparison?.chains.length).toBe(8)
 
       const hedera = comparison?.chains.find(c => c.chain === 'hedera')
       expect(hedera?.similarity).toBe(1.0)
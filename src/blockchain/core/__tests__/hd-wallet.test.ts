@@ -0,0 +1,108 @@
+/**
+ * Tests for HD Wallet Derivation
+ */
+
+import {
+  deriveAccount,
+  deriveAccounts,
+  deriveEd25519Key,
+  derivePrivateKey,
+  getHdAccountScheme,
+  validateMnemonic,
+} from '../HdWallet'
+import { LOCALNET_PROFILES } from '../Localnet'
+
+// Default Hardhat / Anvil mnemonic
+const MNEMONIC = 'test test test test test test test test test test test junk'
+
+describe('HdWallet', () => {
+  describe('Mnemonics', () => {
+    test('should check words and checksum', async () => {
+      expect(await validateMnemonic(MNEMONIC)).toBe(true)
+      expect(await validateMnemonic(`  ${MNEMONIC.replace(/ /g, '\n')} `)).toBe(true)
+      expect(await validateMnemonic(MNEMONIC.replace('junk', 'test'))).toBe(false)
+      expect(await validateMnemonic('not a seed phrase')).toBe(false)
+    })
+
+    test('should reject invalid mnemonics when deriving', async () => {
+      await expect(deriveAccount('not a seed phrase', 'evm')).rejects.toThrow('Invalid mnemonic')
+    })
+  })
+
+  describe('EVM', () => {
+    test('should derive the Hardhat dev accounts', async () => {
+      const accounts = await deriveAccounts(MNEMONIC, 'evm', 2)
+
+      expect(accounts[0].address).toBe(LOCALNET_PROFILES.evm.devAccount!.address)
+      expect(accounts[0].privateKey).toBe(LOCALNET_PROFILES.evm.devAccount!.privateKey)
+      expect(accounts[1]).toMatchObject({
+        index: 1,
+        path: "m/44'/60'/0'/0/1",
+        address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      })
+    })
+
+    test('should apply the passphrase', async () => {
+      const account = await deriveAccount(MNEMONIC, 'evm', { passphrase: 'extra' })
+      expect(account.address).not.toBe(LOCALNET_PROFILES.evm.devAccount!.address)
+    })
+  })
+
+  describe('ed25519', () => {
+    test('should follow SLIP-0010 test vector 1', () => {
+      const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex')
+
+      expect(deriveEd25519Key(seed, "m/0'").toString('hex'))
+        .toBe('68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3')
+      expect(() => deriveEd25519Key(seed, 'm/0')).toThrow('only supports hardened')
+    })
+
+    test('should derive Solana keypairs on the Phantom path', async () => {
+      const account = await deriveAccount(MNEMONIC, 'solana', { index: 1 })
+      const secretKey = Buffer.from(account.privateKey, 'base64')
+
+      expect(account.path).toBe("m/44'/501'/1'/0'")
+      expect(account.address).toBe('AqynRZwvVqUPRwRJXvm6odUb3t93fDjnWe3p6BeuUFxD')
+      expect(secretKey).toHaveLength(64)
+      expect(secretKey.subarray(32).toString('hex')).toBe(account.publicKey)
+    })
+  })
+
+  describe('Hedera', () => {
+    // Expected keys from the Hedera SDK (Mnemonic.toStandard*PrivateKey)
+    test('should derive ED25519 keys as DER', async () => {
+      const account = await deriveAccount(MNEMONIC, 'hedera-ed25519')
+
+      expect(account.address).toBeUndefined()
+      expect(account.privateKey).toBe(
+        '302e020100300506032b657004220420' +
+        '0d6b0ada2644e1d380943b33806c519d62cfd4aaffd8af40ba83b43e4ac98ee5'
+      )
+    })
+
+    test('should derive ECDSA keys as DER', async () => {
+      const account = await deriveAccount(MNEMONIC, 'hedera-ecdsa')
+
+      expect(account.path).toBe("m/44'/3030'/0'/0/0")
+      expect(account.privateKey).toBe(
+        '3030020100300706052b8104000a04220420' +
+        '5154555e84004c7fb82d6e547e2241f92347b2890c0f2cddbda26cbb3d3ab452'
+      )
+    })
+  })
+
+  describe('Credentials', () => {
+    test('should pick the scheme per chain', () => {
+      expect(getHdAccountScheme('polygon')).toBe('evm')
+      expect(getHdAccountScheme('solana')).toBe('solana')
+      expect(getHdAccountScheme('hedera')).toBe('hedera-ed25519')
+      expect(getHdAccountScheme('hedera', 'ECDSA')).toBe('hedera-ecdsa')
+    })
+
+    test('should derive the key an adapter expects', async () => {
+      expect(await derivePrivateKey('base', {})).toBeUndefined()
+      expect(await derivePrivateKey('base', { mnemonic: MNEMONIC, accountIndex: 1 }))
+        .toBe('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')
+    })
+  })
+})
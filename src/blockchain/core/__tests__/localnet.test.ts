@@ -0,0 +1,62 @@
+/**
+ * Tests for Local Network Support
+ */
+
+import {
+  getLocalnetFamily,
+  getLocalnetEndpoints,
+  getLocalnetDevAccount,
+  LOCALNET_PROFILES,
+} from '../Localnet'
+
+describe('Localnet', () => {
+  describe('Families', () => {
+    test('should share one local node across EVM chains', () => {
+      expect(getLocalnetFamily('ethereum')).toBe('evm')
+      expect(getLocalnetFamily('base')).toBe('evm')
+      expect(getLocalnetFamily('arbitrum')).toBe('evm')
+      expect(getLocalnetFamily('solana')).toBe('solana')
+      expect(getLocalnetFamily('hedera')).toBe('hedera')
+    })
+
+    test('should reject chains without a local node', () => {
+      expect(() => getLocalnetFamily('unknown' as any)).toThrow('No local node available')
+    })
+  })
+
+  describe('Endpoints', () => {
+    test('should return default endpoints', () => {
+      const evm = getLocalnetEndpoints('ethereum')
+      expect(evm.rpcUrl).toBe('http://127.0.0.1:8545')
+      expect(evm.chainId).toBe(31337)
+
+      const hedera = getLocalnetEndpoints('hedera')
+      expect(hedera.nodeAccountId).toBe('0.0.3')
+      expect(hedera.mirrorNodeUrl).toBe('http://127.0.0.1:5551')
+    })
+
+    test('should apply configuration overrides', () => {
+      const endpoints = getLocalnetEndpoints('base', {
+        chain: 'base',
+        network: 'localnet',
+        credentials: {},
+        rpcUrl: 'http://127.0.0.1:9545',
+        customConfig: { chainId: 1337 },
+      })
+
+      expect(endpoints.rpcUrl).toBe('http://127.0.0.1:9545')
+      expect(endpoints.chainId).toBe(1337)
+    })
+  })
+
+  describe('Dev Accounts', () => {
+    test('should provide funded accounts for EVM and Hedera', () => {
+      expect(getLocalnetDevAccount('ethereum')?.address).toBe(LOCALNET_PROFILES.evm.devAccount!.address)
+      expect(getLocalnetDevAccount('hedera')?.address).toBe('0.0.2')
+    })
+
+    test('should not provide an account for Solana (airdrop instead)', () => {
+      expect(getLocalnetDevAccount('solana')).toBeUndefined()
+    })
+  })
+})
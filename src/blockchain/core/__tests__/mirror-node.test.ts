@@ -0,0 +1,139 @@
+/**
+ * Tests for the Hedera mirror node client
+ */
+
+import {
+  MirrorNodeClient,
+  MirrorTransaction,
+  getMirrorNodeUrl,
+  toMirrorQueryString,
+  toMirrorTransactionId,
+} from '../MirrorNode'
+import { MirrorNodeStub, startMirrorNodeStub } from '../MirrorNodeStub'
+import { BlockchainErrorCode } from '../types'
+
+const ACCOUNT = '0.0.1001'
+const TOKEN_ID = '0.0.5005'
+
+function transaction(fields: Partial<MirrorTransaction> = {}): MirrorTransaction {
+  return {
+    transaction_id: '0.0.1001-1700000000-000000001',
+    consensus_timestamp: '1700000002.000000001',
+    valid_start_timestamp: '1700000000.000000001',
+    name: 'CRYPTOTRANSFER',
+    result: 'SUCCESS',
+    charged_tx_fee: 84000,
+    nonce: 0,
+    scheduled: false,
+    transaction_hash: 'aGFzaA==',
+    ...fields,
+  }
+}
+
+describe('MirrorNode', () => {
+  describe('MirrorNodeClient', () => {
+    let stub: MirrorNodeStub | undefined
+
+    afterEach(async () => {
+      await stub?.close()
+      stub = undefined
+    })
+
+    test('should follow links.next across pages', async () => {
+      stub = await startMirrorNodeStub()
+      const serials = [1, 2, 3, 4, 5].map(serial => ({ token_id: TOKEN_ID, serial_number: serial, account_id: ACCOUNT }))
+      stub.setList(`/api/v1/accounts/${ACCOUNT}/nfts`, 'nfts', serials)
+      const client = new MirrorNodeClient(stub.url + '/')
+
+      const nfts = await client.collect(client.listAccountNfts(ACCOUNT, { 'token.id': TOKEN_ID, limit: 2 }))
+
+      expect(nfts.map(nft => nft.serial_number)).toEqual([1, 2, 3, 4, 5])
+      expect(stub.requests).toEqual([
+        `/api/v1/accounts/${ACCOUNT}/nfts?token.id=${TOKEN_ID}&limit=2`,
+        `/api/v1/accounts/${ACCOUNT}/nfts?token.id=${TOKEN_ID}&limit=2&offset=2`,
+        `/api/v1/accounts/${ACCOUNT}/nfts?token.id=${TOKEN_ID}&limit=2&offset=4`,
+      ])
+    })
+
+    test('should stop fetching when the caller stops', async () => {
+      stub = await startMirrorNodeStub({ pageSize: 2 })
+      stub.setList('/api/v1/transactions', 'transactions', [1, 2, 3, 4, 5].map(i => transaction({ nonce: i })))
+      const client = new MirrorNodeClient(stub.url)
+
+      const transactions = await client.collect(client.listTransactions({ 'account.id': ACCOUNT }), 3)
+
+      expect(transactions.map(tx => tx.nonce)).toEqual([1, 2, 3])
+      expect(stub.requests).toHaveLength(2)
+    })
+
+    test('should back off and retry when rate limited', async () => {
+      stub = await startMirrorNodeStub({ rateLimit: 2 })
+      stub.setResponse(`/api/v1/tokens/${TOKEN_ID}`, { token_id: TOKEN_ID, symbol: 'APX' })
+
+      const token = await new MirrorNodeClient(stub.url, { retryDelayMs: 1 }).getToken(TOKEN_ID)
+
+      expect(token.symbol).toBe('APX')
+      expect(stub.requests).toHaveLength(3)
+    })
+
+    test('should give up after the configured retries', async () => {
+      stub = await startMirrorNodeStub({ rateLimit: 5 })
+
+      await expect(new MirrorNodeClient(stub.url, { maxRetries: 1 }).getTopic('0.0.7007')).rejects.toMatchObject({
+        code: BlockchainErrorCode.NETWORK_ERROR,
+        message: 'Mirror node returned 429 for /api/v1/topics/0.0.7007: Too Many Requests',
+      })
+      expect(stub.requests).toHaveLength(2)
+    })
+
+    test('should look up transactions by SDK transaction ID', async () => {
+      stub = await startMirrorNodeStub()
+      stub.setResponse('/api/v1/transactions/0.0.1001-1700000000-000000001', {
+        transactions: [
+          transaction({ name: 'SCHEDULECREATE' }),
+          transaction({ scheduled: true, result: 'INSUFFICIENT_PAYER_BALANCE' }),
+        ],
+      })
+      const client = new MirrorNodeClient(stub.url)
+
+      const record = await client.getTransaction('0.0.1001@1700000000.000000001')
+
+      expect(record.name).toBe('SCHEDULECREATE')
+      expect((await client.getTransaction('0.0.1001@1700000000.000000001', true)).result).toBe('INSUFFICIENT_PAYER_BALANCE')
+      expect(stub.requests[1]).toBe('/api/v1/transactions/0.0.1001-1700000000-000000001?scheduled=true')
+      await expect(client.getTransaction('0.0.1001@1700000009.000000000')).rejects.toMatchObject({
+        code: BlockchainErrorCode.INVALID_ADDRESS,
+        message: 'Mirror node returned 404 for /api/v1/transactions/0.0.1001-1700000009-000000000: Not found',
+      })
+    })
+
+    test('should map unreachable mirror nodes to network errors', async () => {
+      const baseFetch = jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) as unknown as typeof fetch
+
+      await expect(new MirrorNodeClient('http://127.0.0.1:1', { fetch: baseFetch }).getAccount(ACCOUNT))
+        .rejects.toMatchObject({ code: BlockchainErrorCode.NETWORK_ERROR })
+      expect(baseFetch).toHaveBeenCalledWith(`http://127.0.0.1:1/api/v1/accounts/${ACCOUNT}?transactions=false`)
+    })
+  })
+
+  describe('helpers', () => {
+    test('should build query strings with range operators', () => {
+      expect(toMirrorQueryString({
+        'account.id': ACCOUNT,
+        timestamp: ['gte:1700000000', undefined, 'lt:1700000100'],
+        memo: 'a&b',
+        limit: undefined,
+      })).toBe(`?account.id=${ACCOUNT}&timestamp=gte:1700000000&timestamp=lt:1700000100&memo=a%26b`)
+      expect(toMirrorQueryString({})).toBe('')
+    })
+
+    test('should convert transaction IDs and resolve mirror node URLs', () => {
+      expect(toMirrorTransactionId('0.0.1001@1700000000.5')).toBe('0.0.1001-1700000000-500000000')
+      expect(toMirrorTransactionId('0x' + 'ab'.repeat(32))).toBe('0x' + 'ab'.repeat(32))
+
+      expect(getMirrorNodeUrl('mainnet')).toBe('https://mainnet-public.mirrornode.hedera.com')
+      expect(getMirrorNodeUrl('testnet', { chain: 'hedera', network: 'testnet', credentials: {}, mirrorNodeUrl: 'http://mirror' })).toBe('http://mirror')
+      expect(getMirrorNodeUrl('localnet', { chain: 'hedera', network: 'localnet', credentials: {} })).toBe('http://127.0.0.1:5551')
+    })
+  })
+})
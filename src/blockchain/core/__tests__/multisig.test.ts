@@ -0,0 +1,112 @@
+/**
+ * Tests for Safe multisig proposals
+ */
+
+import * as ethers from 'ethers'
+import {
+  SAFE_TX_TYPES,
+  SafeTransactionService,
+  createSafeTransaction,
+  describeSafeTransaction,
+  encodeSafeAction,
+  getSafeDomain,
+  hashSafeTransaction,
+  packSafeSignatures,
+} from '../Multisig'
+import { BlockchainErrorCode } from '../types'
+
+// Hardhat / Anvil accounts #0 and #1
+const OWNER_1 = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80')
+const OWNER_2 = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')
+const SAFE = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+const TOKEN = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512'
+const CHAIN_ID = 11155111
+
+describe('Multisig', () => {
+  describe('Safe transactions', () => {
+    test('should hash what owners sign', async () => {
+      const safeTx = createSafeTransaction(encodeSafeAction(ethers, { type: 'transfer', to: OWNER_2.address, amount: 10n ** 18n }, SAFE), 4)
+
+      const hash = hashSafeTransaction(ethers, SAFE, CHAIN_ID, safeTx)
+      const signature = await OWNER_1.signTypedData(getSafeDomain(SAFE, CHAIN_ID), SAFE_TX_TYPES, safeTx)
+
+      expect(ethers.recoverAddress(hash, signature)).toBe(OWNER_1.address)
+      expect(hashSafeTransaction(ethers, SAFE, CHAIN_ID, { ...safeTx, nonce: 5 })).not.toBe(hash)
+      expect(hashSafeTransaction(ethers, SAFE, 1, safeTx)).not.toBe(hash)
+    })
+
+    test('should pack signatures in owner order', () => {
+      const [low, high] = [OWNER_1.address, OWNER_2.address]
+        .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1))
+
+      const packed = packSafeSignatures([
+        { owner: high, signature: '0x' + '22'.repeat(65) },
+        { owner: low, signature: '0x' + '11'.repeat(65) },
+      ])
+
+      expect(packed).toBe('0x' + '11'.repeat(65) + '22'.repeat(65))
+    })
+
+    test('should encode and describe proposal actions', () => {
+      const mint = createSafeTransaction(encodeSafeAction(ethers, { type: 'mint', tokenId: TOKEN, amount: 500n }, SAFE), 0)
+      const transfer = createSafeTransaction(encodeSafeAction(ethers, { type: 'transfer', to: OWNER_2.address, amount: 1500000000000000000n }, SAFE), 1)
+      const call = createSafeTransaction(encodeSafeAction(ethers, { type: 'contract-call', contractAddress: TOKEN, data: '0x12345678abcd' }, SAFE), 2)
+
+      expect(describeSafeTransaction(ethers, mint, 'ETH')).toEqual([
+        `To: ${TOKEN}`,
+        'Value: 0.0 ETH',
+        `ERC-20 mint of 500 to ${SAFE}`,
+        'Safe nonce: 0',
+      ])
+      expect(describeSafeTransaction(ethers, transfer, 'ETH')).toEqual([
+        `To: ${OWNER_2.address}`,
+        'Value: 1.5 ETH',
+        'Safe nonce: 1',
+      ])
+      expect(describeSafeTransaction(ethers, { ...call, operation: 1 }, 'ETH')).toEqual([
+        `To: ${TOKEN}`,
+        'Value: 0.0 ETH',
+        'Data: 6 bytes, selector 0x12345678',
+        'Operation: DELEGATECALL',
+        'Safe nonce: 2',
+      ])
+    })
+  })
+
+  describe('SafeTransactionService', () => {
+    function serviceWith(...replies: Array<[number, any]>) {
+      const requests: Array<{ url: string; method?: string; body?: any }> = []
+      const baseFetch = jest.fn(async (url: any, init?: RequestInit) => {
+        requests.push({ url, method: init?.method, body: init?.body ? JSON.parse(init.body as string) : undefined })
+        const [status, body] = replies.shift()!
+        return new Response(body === undefined ? '' : JSON.stringify(body), { status })
+      }) as unknown as typeof fetch
+      return { service: new SafeTransactionService('https://safe.example/', baseFetch), requests }
+    }
+
+    test('should propose with the proposer signature and list pending transactions', async () => {
+      const { service, requests } = serviceWith([201, undefined], [200, { count: 1, results: [{ safeTxHash: '0xabc' }] }])
+      const safeTx = createSafeTransaction({ to: OWNER_2.address, value: 1n, data: '0x' }, 3)
+
+      await service.proposeTransaction(SAFE, safeTx, '0xabc', { owner: OWNER_1.address, signature: '0x01' }, 'Payroll')
+      const pending = await service.getPendingTransactions(SAFE, 3, 10)
+
+      expect(requests[0]).toEqual({
+        url: `https://safe.example/api/v1/safes/${SAFE}/multisig-transactions/`,
+        method: 'POST',
+        body: { ...safeTx, contractTransactionHash: '0xabc', sender: OWNER_1.address, signature: '0x01', origin: 'Payroll' },
+      })
+      expect(requests[1].url).toBe(
+        `https://safe.example/api/v1/safes/${SAFE}/multisig-transactions/?executed=false&nonce__gte=3&ordering=nonce&limit=10`
+      )
+      expect(pending).toEqual([{ safeTxHash: '0xabc' }])
+    })
+
+    test('should map service errors', async () => {
+      const { service } = serviceWith([404, { detail: 'Not found.' }], [422, { signature: ['Invalid'] }])
+
+      await expect(service.getTransaction('0xabc')).rejects.toMatchObject({ code: BlockchainErrorCode.INVALID_ADDRESS })
+      await expect(service.confirmTransaction('0xabc', '0x01')).rejects.toThrow('(422)')
+    })
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Tests for the EVM Nonce Manager and Send Queue
+ */
+
+import { NonceManager, SentTransaction } from '../NonceManager'
+import { SendQueue } from '../SendQueue'
+import { BlockchainErrorCode } from '../types'
+
+const ADDRESS = '0x' + '1'.repeat(40)
+const GWEI = BigInt(1000000000)
+
+function createProvider(pendingCount = 7, minedCount = 7) {
+  return {
+    getTransactionCount: jest.fn(async (_address: string, blockTag?: string) =>
+      blockTag === 'latest' ? minedCount : pendingCount),
+    getFeeData: jest.fn(async () => ({
+      gasPrice: null,
+      maxFeePerGas: BigInt(30) * GWEI,
+      maxPriorityFeePerGas: BigInt(2) * GWEI,
+    })),
+  }
+}
+
+function createSigner() {
+  return {
+    sendTransaction: jest.fn(async (tx: any): Promise<SentTransaction> => ({ ...tx, hash: `0xreplacement${tx.nonce}` })),
+  }
+}
+
+function sent(nonce: number): SentTransaction {
+  return {
+    hash: `0xtx${nonce}`,
+    to: '0x' + '2'.repeat(40),
+    data: '0xa9059cbb',
+    value: BigInt(0),
+    gasLimit: BigInt(60000),
+    maxFeePerGas: BigInt(20) * GWEI,
+    maxPriorityFeePerGas: BigInt(1) * GWEI,
+  }
+}
+
+describe('NonceManager', () => {
+  it('should hand out consecutive nonces to concurrent sends', async () => {
+    const provider = createProvider()
+    const manager = new NonceManager(ADDRESS, provider, createSigner())
+
+    const nonces: number[] = []
+    await Promise.all([1, 2, 3].map(() => manager.send(async nonce => {
+      nonces.push(nonce)
+      return sent(nonce)
+    })))
+
+    expect(nonces.sort()).toEqual([7, 8, 9])
+    // Only the first nonce comes from the node
+    expect(provider.getTransactionCount).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reuse the nonce of a send that failed before broadcast', async () => {
+    const manager = new NonceManager(ADDRESS, createProvider(), createSigner())
+
+    await manager.send(async nonce => sent(nonce))
+    await expect(manager.send(async () => { throw new Error('insufficient funds') })).rejects.toThrow('insufficient funds')
+    const tx = await manager.send(async nonce => sent(nonce))
+
+    expect(tx.hash).toBe('0xtx8')
+  })
+
+  it('should re-read the nonce from the node after a nonce error', async () => {
+    const provider = createProvider()
+    const manager = new NonceManager(ADDRESS, provider, createSigner())
+
+    await manager.send(async nonce => sent(nonce))
+    await expect(manager.send(async () => { throw new Error('nonce too low') })).rejects.toThrow()
+    provider.getTransactionCount.mockResolvedValueOnce(12)
+    const tx = await manager.send(async nonce => sent(nonce))
+
+    expect(tx.hash).toBe('0xtx12')
+  })
+
+  it('should track pending transactions until mined', async () => {
+    const manager = new NonceManager(ADDRESS, createProvider(7, 8), createSigner())
+
+    await manager.send(async nonce => sent(nonce))
+    await manager.send(async nonce => sent(nonce))
+    const pending = await manager.getPending()
+
+    expect(pending.map(tx => tx.nonce)).toEqual([8])
+    expect(pending[0].hash).toBe('0xtx8')
+  })
+
+  it('should speed up with bumped fees and the same call', async () => {
+    const signer = createSigner()
+    const manager = new NonceManager(ADDRESS, createProvider(), signer)
+
+    await manager.send(async nonce => sent(nonce))
+    await manager.speedUp('0xtx7', { feeBumpPercent: 50 })
+
+    const replacement = signer.sendTransaction.mock.calls[0][0]
+    expect(replacement).toMatchObject({ nonce: 7, data: '0xa9059cbb', gasLimit: BigInt(60000) })
+    // 20 gwei * 1.5 = 30 gwei; 1 gwei * 1.5 < network's 2 gwei
+    expect(replacement.maxFeePerGas).toBe(BigInt(30) * GWEI)
+    expect(replacement.maxPriorityFeePerGas).toBe(BigInt(2) * GWEI)
+
+    const [pending] = await manager.getPending()
+    expect(pending.hash).toBe('0xreplacement7')
+    expect(pending.replacedHashes).toEqual(['0xtx7'])
+  })
+
+  it('should cancel with an empty self-transfer', async () => {
+    const signer = createSigner()
+    const manager = new NonceManager(ADDRESS, createProvider(), signer)
+
+    await manager.send(async nonce => sent(nonce))
+    await manager.cancel(7)
+
+    expect(signer.sendTransaction.mock.calls[0][0]).toMatchObject({
+      to: ADDRESS,
+      data: '0x',
+      value: BigInt(0),
+      nonce: 7,
+    })
+    expect((await manager.getPending())[0].cancelled).toBe(true)
+  })
+
+  it('should reject replacing unknown transactions and too small bumps', async () => {
+    const manager = new NonceManager(ADDRESS, createProvider(), createSigner())
+    await manager.send(async nonce => sent(nonce))
+
+    await expect(manager.speedUp('0xunknown')).rejects.toMatchObject({ code: BlockchainErrorCode.TRANSACTION_FAILED })
+    await expect(manager.speedUp(7, { feeBumpPercent: 5 })).rejects.toThrow('at least 10%')
+  })
+})
+
+describe('SendQueue', () => {
+  it('should run at most `concurrency` sends at once', async () => {
+    const queue = new SendQueue({ concurrency: 2 })
+    let running = 0
+    let peak = 0
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => queue.enqueue(async () => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+    })))
+
+    expect(peak).toBe(2)
+    expect(queue.active).toBe(0)
+  })
+
+  it('should reject sends beyond maxQueued', async () => {
+    const queue = new SendQueue({ concurrency: 1, maxQueued: 1 })
+    let release!: () => void
+    const blocker = queue.enqueue(() => new Promise<void>(resolve => { release = resolve }))
+    const waiting = queue.enqueue(async () => 'second')
+
+    await expect(queue.enqueue(async () => 'third')).rejects.toThrow('Send queue is full')
+
+    release()
+    await blocker
+    await expect(waiting).resolves.toBe('second')
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Tests for Offline Transactions
+ */
+
+import * as ethers from 'ethers'
+import * as solana from '@solana/web3.js'
+import * as hashgraph from '@hashgraph/sdk'
+import fs from 'fs-extra'
+import os from 'os'
+import path from 'path'
+import {
+  OfflineTransactionFile,
+  isOfflineTransactionExpired,
+  readOfflineTransaction,
+  signOfflineTransaction,
+  summarizeTransaction,
+  toOfflineTransactionFile,
+  writeOfflineTransaction,
+} from '../OfflineTransaction'
+import { LocalKeySigner, PublicKeySigner, createSigner } from '../Signer'
+import { BlockchainErrorCode, SupportedChain, NetworkType } from '../types'
+
+// Hardhat / Anvil account #0
+const EVM_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+const EVM_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+const ED25519_KEY = '302e020100300506032b657004220420' + '11'.repeat(32)
+
+function offlineFile(chain: SupportedChain, network: NetworkType, signer: string, payload: string): OfflineTransactionFile {
+  return toOfflineTransactionFile({
+    chain,
+    network,
+    signer,
+    payload,
+    transaction: { to: 'recipient', value: 100n },
+    summary: [],
+  })
+}
+
+async function solanaPayer(): Promise<solana.PublicKey> {
+  const { publicKey } = await new LocalKeySigner(ED25519_KEY).getPublicKey()
+  return new solana.PublicKey(Buffer.from(publicKey, 'hex'))
+}
+
+describe('OfflineTransaction', () => {
+  describe('EVM', () => {
+    const payload = ethers.Transaction.from({
+      type: 2,
+      to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      value: ethers.parseEther('1.5'),
+      data: '0xa9059cbb' + '00'.repeat(64),
+      nonce: 7,
+      gasLimit: 50000,
+      maxFeePerGas: ethers.parseUnits('30', 'gwei'),
+      maxPriorityFeePerGas: ethers.parseUnits('2', 'gwei'),
+      chainId: 8453,
+    }).unsignedSerialized
+
+    test('should summarize unsigned RLP', async () => {
+      expect(await summarizeTransaction('base', 'mainnet', payload)).toEqual([
+        'Base mainnet',
+        'Chain ID: 8453',
+        'To: 0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        'Value: 1.5 ETH',
+        'Data: 68 bytes, selector 0xa9059cbb',
+        'Nonce: 7',
+        'Gas limit: 50000',
+        'Max fee: 30.0 gwei (priority 2.0 gwei)',
+        'Max cost: 1.5015 ETH',
+      ])
+    })
+
+    test('should sign for the expected address', async () => {
+      const file = await signOfflineTransaction(offlineFile('base', 'mainnet', EVM_ADDRESS, payload), new LocalKeySigner(EVM_KEY))
+
+      const signed = ethers.Transaction.from(file.signed!.rawTransaction)
+      expect(signed.from).toBe(EVM_ADDRESS)
+      expect(signed.nonce).toBe(7)
+      expect(file.signed!.transactionHash).toBe(signed.hash)
+      expect(file.signatures).toEqual([expect.objectContaining({ keyType: 'secp256k1' })])
+    })
+
+    test('should refuse keys for another address', async () => {
+      const file = offlineFile('base', 'mainnet', EVM_ADDRESS, payload)
+
+      await expect(signOfflineTransaction(file, new LocalKeySigner('0x' + '22'.repeat(32))))
+        .rejects.toThrow(`has to be signed by ${EVM_ADDRESS}`)
+      await expect(signOfflineTransaction(file, new LocalKeySigner(ED25519_KEY)))
+        .rejects.toMatchObject({ code: BlockchainErrorCode.INVALID_CREDENTIALS })
+    })
+  })
+
+  describe('Solana', () => {
+    test('should summarize and sign the wire format', async () => {
+      const payer = await solanaPayer()
+      const recipient = new solana.PublicKey('9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM')
+      const tx = new solana.Transaction({ feePayer: payer, recentBlockhash: recipient.toBase58() })
+        .add(solana.SystemProgram.transfer({ fromPubkey: payer, toPubkey: recipient, lamports: 250_000_000 }))
+      const payload = tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64')
+
+      const summary = await summarizeTransaction('solana', 'devnet', payload)
+      const file = await signOfflineTransaction(offlineFile('solana', 'devnet', payer.toBase58(), payload), new LocalKeySigner(ED25519_KEY))
+
+      expect(summary).toEqual([
+        'Solana devnet',
+        `Fee payer: ${payer.toBase58()}`,
+        `Recent blockhash: ${recipient.toBase58()}`,
+        `Transfer 0.25 SOL from ${payer.toBase58()} to ${recipient.toBase58()}`,
+        `Signers: ${payer.toBase58()}`,
+      ])
+      const signed = solana.Transaction.from(Buffer.from(file.signed!.rawTransaction, 'base64'))
+      expect(signed.verifySignatures()).toBe(true)
+      expect(file.signed!.transactionHash).toBe(file.signed!.signature)
+    })
+
+    test('should refuse keys that are not signers', async () => {
+      const payer = await solanaPayer()
+      const tx = new solana.Transaction({ feePayer: payer, recentBlockhash: payer.toBase58() })
+        .add(solana.SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 }))
+      const payload = tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64')
+
+      const other = new LocalKeySigner('302e020100300506032b657004220420' + '33'.repeat(32))
+      await expect(signOfflineTransaction(offlineFile('solana', 'devnet', payer.toBase58(), payload), other))
+        .rejects.toThrow('is not a signer of this transaction')
+    })
+  })
+
+  describe('Hedera', () => {
+    test('should summarize and sign frozen transaction bytes', async () => {
+      const validStart = new Date('2026-01-01T00:00:00Z')
+      const tx = new hashgraph.TransferTransaction()
+        .addHbarTransfer('0.0.1001', hashgraph.Hbar.fromTinybars(-100))
+        .addHbarTransfer('0.0.1002', hashgraph.Hbar.fromTinybars(100))
+        .setTransactionId(hashgraph.TransactionId.withValidStart(
+          hashgraph.AccountId.fromString('0.0.1001'),
+          hashgraph.Timestamp.fromDate(validStart)
+        ))
+        .setNodeAccountIds([new hashgraph.AccountId(3)])
+        .freeze()
+      const payload = Buffer.from(tx.toBytes()).toString('hex')
+
+      const summary = await summarizeTransaction('hedera', 'testnet', payload)
+      const file = await signOfflineTransaction(offlineFile('hedera', 'testnet', '0.0.1001', payload), new LocalKeySigner(ED25519_KEY))
+
+      expect(summary).toEqual(expect.arrayContaining([
+        'Hedera testnet',
+        'Type: TransferTransaction',
+        `Transaction ID: ${tx.transactionId!.toString()}`,
+        'Nodes: 0.0.3',
+        'HBAR 0.0.1001: -100 tℏ',
+        'HBAR 0.0.1002: 100 tℏ',
+      ]))
+      const { publicKey } = await new LocalKeySigner(ED25519_KEY).getPublicKey()
+      const signed = hashgraph.Transaction.fromBytes(Buffer.from(file.signed!.rawTransaction, 'hex'))
+      expect(hashgraph.PublicKey.fromBytesED25519(Buffer.from(publicKey, 'hex')).verifyTransaction(signed)).toBe(true)
+      expect(file.signed!.transactionHash).toBe(tx.transactionId!.toString())
+    })
+  })
+
+  describe('Files', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'apix-offline-'))
+    })
+
+    afterEach(async () => {
+      await fs.remove(dir)
+    })
+
+    test('should round-trip files with bigints as strings', async () => {
+      const file = path.join(dir, 'tx.json')
+      const written = toOfflineTransactionFile({
+        chain: 'ethereum',
+        network: 'testnet',
+        signer: EVM_ADDRESS,
+        payload: '0x02',
+        transaction: { to: EVM_ADDRESS, value: 10n ** 18n, nonce: 1 },
+        summary: ['Ethereum testnet'],
+        expiresAt: new Date('2026-01-01T00:00:00Z'),
+      })
+
+      await writeOfflineTransaction(file, written)
+      const read = await readOfflineTransaction(file)
+
+      expect(read).toEqual(written)
+      expect(read.transaction).toEqual({ to: EVM_ADDRESS, value: '1000000000000000000', nonce: 1 })
+      expect(isOfflineTransactionExpired(read, new Date('2025-12-31T23:59:00Z'))).toBe(false)
+      expect(isOfflineTransactionExpired(read, new Date('2026-01-01T00:00:01Z'))).toBe(true)
+    })
+
+    test('should reject other JSON files', async () => {
+      const file = path.join(dir, 'package.json')
+      await fs.writeJson(file, { name: 'not-a-transaction' })
+
+      await expect(readOfflineTransaction(file)).rejects.toThrow('is not an offline transaction file')
+    })
+  })
+
+  describe('PublicKeySigner', () => {
+    test('should expose the key but refuse to sign', async () => {
+      const signer = createSigner({ type: 'public-key', publicKey: '0x' + 'ab'.repeat(32) })
+
+      expect(signer).toBeInstanceOf(PublicKeySigner)
+      expect(await signer.getPublicKey()).toEqual({ keyType: 'ed25519', publicKey: 'ab'.repeat(32) })
+      await expect(signer.sign(Buffer.alloc(32))).rejects.toThrow('sign offline with `apix tx sign`')
+      expect(() => new PublicKeySigner('abcd')).toThrow('Expected a hex public key')
+    })
+  })
+})
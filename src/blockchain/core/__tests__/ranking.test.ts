@@ -0,0 +1,122 @@
+/**
+ * Tests for the chain ranking engine
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ChainRankingEngine, DEFAULT_RANKING_PROFILE, RankingProfile } from '../ChainRankingEngine'
+
+describe('ChainRankingEngine', () => {
+  describe('default profile', () => {
+    test('should rank on use case fit with a single-criterion breakdown', () => {
+      const rankings = ChainRankingEngine.rankChainsForUseCase('tokens')
+
+      expect(rankings[0]).toMatchObject({ chain: 'hedera', rank: 1, score: 95, profile: 'default' })
+      expect(rankings[0].breakdown).toEqual([{
+        criterion: 'useCase',
+        label: 'Use case fit',
+        score: 95,
+        weight: 1,
+        points: 95,
+        detail: rankings[0].headline,
+      }])
+      expect(rankings.map(ranking => ranking.rank)).toEqual(rankings.map((_, index) => index + 1))
+    })
+
+    test('should add the project context bonus', () => {
+      const plain = ChainRankingEngine.rankChainsForUseCase('nfts').find(ranking => ranking.chain === 'ethereum')!
+      const withStack = ChainRankingEngine.rankChainsForUseCase('nfts', { dependencies: ['wagmi'] })
+        .find(ranking => ranking.chain === 'ethereum')!
+
+      expect(withStack.contextBonus).toBeGreaterThan(0)
+      expect(withStack.score).toBe(Math.min(100, plain.score + withStack.contextBonus!))
+      expect(ChainRankingEngine.explainScore(withStack)[1]).toMatch(/^Project context: \+\d+ \(/)
+    })
+  })
+
+  describe('profiles', () => {
+    const board: RankingProfile = {
+      name: 'architecture-board',
+      weights: { useCase: 2, cost: 1, compliance: 1, expertise: 1 },
+      scores: { expertise: { ethereum: 100, hedera: 20 } },
+    }
+
+    test('should weigh criteria and explain each contribution', () => {
+      const rankings = ChainRankingEngine.rankChainsForUseCase('enterprise', undefined, board)
+      const hedera = rankings.find(ranking => ranking.chain === 'hedera')!
+
+      expect(hedera.profile).toBe('architecture-board')
+      expect(hedera.breakdown.map(entry => [entry.criterion, entry.score, entry.weight])).toEqual([
+        ['useCase', 98, 0.4],
+        ['cost', 100, 0.2],
+        ['compliance', 100, 0.2],
+        ['expertise', 20, 0.2],
+      ])
+      expect(hedera.score).toBe(Math.round(98 * 0.4 + 100 * 0.2 + 100 * 0.2 + 20 * 0.2))
+      expect(ChainRankingEngine.explainScore(hedera)).toEqual([
+        `Use case fit: 98/100 x 40% = 39.2 (${hedera.headline})`,
+        'Cost: 100/100 x 20% = 20.0 (~$0.0001 per transaction)',
+        'Compliance: 100/100 x 20% = 20.0 (Native KYC, freeze, wipe, pause, predictable fees, consensus audit trail)',
+        "In-house expertise: 20/100 x 20% = 4.0 (Rated by profile 'architecture-board')",
+      ])
+      expect(rankings.find(ranking => ranking.chain === 'solana')!.breakdown[3]).toMatchObject({
+        score: 50,
+        detail: 'Not rated (neutral)',
+      })
+    })
+
+    test('should score cost and finality from chain data', () => {
+      const profile = ChainRankingEngine.profileForCriteria(['cost', 'finality'])
+      const rankings = ChainRankingEngine.rankChainsForUseCase('payments', { dependencies: ['wagmi'] }, profile)
+      const ethereum = rankings.find(ranking => ranking.chain === 'ethereum')!
+
+      expect(profile).toEqual({ name: 'cost + finality', weights: { cost: 1, finality: 1 }, contextBonus: false })
+      expect(ethereum.contextBonus).toBe(0)
+      expect(ethereum.breakdown.map(entry => entry.score)).toEqual([9, 36])
+      expect(rankings[rankings.length - 1].chain).toBe('ethereum')
+      expect(() => ChainRankingEngine.profileForCriteria(['cost', 'speed'])).toThrow('Unknown ranking criteria: speed')
+    })
+
+    test('should support custom criteria rated by the profile', () => {
+      const rankings = ChainRankingEngine.rankChainsForUseCase('other', undefined, {
+        name: 'vendor',
+        weights: { vendorSupport: 1 },
+        scores: { vendorSupport: { avalanche: 100 } },
+      })
+
+      expect(rankings[0]).toMatchObject({ chain: 'avalanche', score: 100 })
+      expect(rankings[0].breakdown[0]).toMatchObject({ criterion: 'vendorSupport', label: 'vendorSupport' })
+      expect(rankings[1].score).toBe(50)
+    })
+
+    test('should reject invalid profiles', () => {
+      expect(() => ChainRankingEngine.validateProfile({ name: 'a', weights: { cost: -1 } }))
+        .toThrow("Invalid ranking profile 'a': weight of 'cost' must be a number of 0 or more")
+      expect(() => ChainRankingEngine.validateProfile({ name: 'b', weights: { cost: 0 } }))
+        .toThrow("Invalid ranking profile 'b': at least one weight must be above 0")
+      expect(() => ChainRankingEngine.validateProfile({ name: 'c', weights: { vendorSupport: 1 } }))
+        .toThrow("Invalid ranking profile 'c': custom criterion 'vendorSupport' needs scores")
+      expect(() => ChainRankingEngine.validateProfile({ name: 'd', weights: { cost: 1 }, scores: { cost: { tezos: 80 } } as any }))
+        .toThrow("Invalid ranking profile 'd': unknown chain 'tezos' in scores.cost")
+      expect(() => ChainRankingEngine.validateProfile({ name: 'e', weights: { cost: 1 }, scores: { cost: { hedera: 120 } } }))
+        .toThrow("Invalid ranking profile 'e': scores.cost.hedera must be between 0 and 100")
+      expect(() => ChainRankingEngine.validateProfile(DEFAULT_RANKING_PROFILE)).not.toThrow()
+    })
+
+    test('should load profiles from JSON files', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apix-ranking-'))
+      try {
+        const file = path.join(dir, 'board.json')
+        fs.writeFileSync(file, JSON.stringify({ weights: { ecosystem: 1 } }))
+        fs.writeFileSync(path.join(dir, 'broken.json'), '{ weights')
+
+        expect(await ChainRankingEngine.loadProfile(file)).toEqual({ name: 'board', weights: { ecosystem: 1 } })
+        await expect(ChainRankingEngine.loadProfile(path.join(dir, 'broken.json')))
+          .rejects.toThrow(`Cannot read ranking profile ${path.join(dir, 'broken.json')}`)
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
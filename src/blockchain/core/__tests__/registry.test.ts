@@ -16,11 +16,15 @@ describe('ChainRegistry', () => {
 
     test('should get all chains', () => {
       const allChains = ChainRegistry.getAllChains()
-      expect(allChains.length).toBe(4)
+      expect(allChains.length).toBe(8)
       expect(allChains.map(c => c.chain)).toContain('hedera')
       expect(allChains.map(c => c.chain)).toContain('ethereum')
       expect(allChains.map(c => c.chain)).toContain('solana')
       expect(allChains.map(c => c.chain)).toContain('base')
+      expect(allChains.map(c => c.chain)).toContain('polygon')
+      expect(allChains.map(c => c.chain)).toContain('arbitrum')
+      expect(allChains.map(c => c.chain)).toContain('optimism')
+      expect(allChains.map(c => c.chain)).toContain('avalanche')
     })
 
     test('should get stable chains', () => {
@@ -30,6 +34,23 @@ describe('ChainRegistry', () => {
     })
   })
 
+  describe('EVM Chains', () => {
+    test('should attach descriptors to EVM chains only', () => {
+      expect(ChainRegistry.getEvmDescriptor('polygon')?.chainIds.mainnet).toBe(137)
+      expect(ChainRegistry.getEvmDescriptor('base')?.chainIds.testnet).toBe(84532)
+      expect(ChainRegistry.getEvmDescriptor('hedera')).toBeUndefined()
+      expect(ChainRegistry.getEvmChains().map(c => c.chain)).not.toContain('solana')
+    })
+
+    test('should derive metadata from descriptors', () => {
+      expect(ChainRegistry.getChainId('arbitrum', 'mainnet')).toBe(42161)
+      expect(ChainRegistry.getRPCUrl('avalanche', 'testnet')).toContain('avax-test')
+      expect(ChainRegistry.getExplorerUrl('optimism', '0xabc', 'mainnet'))
+        .toBe('https://optimistic.etherscan.io/tx/0xabc')
+      expect(ChainRegistry.getChain('polygon').metadata.nativeToken).toBe('POL')
+    })
+  })
+
   describe('Chain Comparison', () => {
     test('should compare chains by performance', () => {
       const comparison = ChainRegistry.compareChains(['hedera', 'ethereum', 'solana'])
@@ -91,6 +112,13 @@ describe('ChainRegistry', () => {
       const baseMainnetId = ChainRegistry.getChainId('base', 'mainnet')
       expect(baseMainnetId).toBe(8453)
     })
+
+    test('should resolve localnet endpoints', () => {
+      expect(ChainRegistry.getRPCUrl('base', 'localnet')).toBe('http://127.0.0.1:8545')
+      expect(ChainRegistry.getChainId('polygon', 'localnet')).toBe(31337)
+      expect(ChainRegistry.getRPCUrl('solana', 'localnet')).toBe('http://127.0.0.1:8899')
+      expect(ChainRegistry.getExplorerUrl('hedera', '0.0.2@1', 'localnet')).toBe('')
+    })
   })
 
   describe('Use Case Recommendations', () => {
@@ -122,7 +150,7 @@ describe('ChainRegistry', () => {
   describe('Comparison Table', () => {
     test('should generate comparison table data', () => {
       const table = ChainRegistry.getComparisonTable()
-      expect(table.length).toBe(4)
+      expect(table.length).toBe(8)
 
       const hedera = table.find(row => row.chain === 'Hedera')
       expect(hedera?.status).toBe('✅ Stable')
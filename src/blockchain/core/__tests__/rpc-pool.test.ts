@@ -0,0 +1,133 @@
+/**
+ * Tests for the RPC Endpoint Pool
+ */
+
+import { RpcEndpointPool } from '../RpcPool'
+import { BlockchainErrorCode } from '../types'
+
+const PRIMARY = 'https://primary.example'
+const SECONDARY = 'https://secondary.example'
+
+function rpcBody(method: string): RequestInit {
+  return {
+    method: 'POST',
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }),
+  }
+}
+
+function reply(result: any, status = 200): Response {
+  return new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result }), { status })
+}
+
+/**
+ * Fake transport answering per endpoint.
+ */
+function createFetch(answers: Record<string, () => Response>) {
+  return jest.fn(async (input: string | URL | Request, _init?: RequestInit) => {
+    const url = String(input)
+    const endpoint = Object.keys(answers).find(base => url.startsWith(base))
+    if (!endpoint) throw new Error(`unexpected ${url}`)
+    return answers[endpoint]()
+  })
+}
+
+describe('RpcEndpointPool', () => {
+  it('should retry reads on the next endpoint and rank the failing one last', async () => {
+    const baseFetch = createFetch({
+      [PRIMARY]: () => new Response('Service Unavailable', { status: 503 }),
+      [SECONDARY]: () => reply('0x10'),
+    })
+    const pool = new RpcEndpointPool([PRIMARY, SECONDARY], {}, baseFetch)
+
+    const response = await pool.fetch(PRIMARY, rpcBody('eth_blockNumber'))
+
+    expect((await response.json()).result).toBe('0x10')
+    expect(baseFetch.mock.calls.map(([url]) => url)).toEqual([PRIMARY, SECONDARY])
+
+    const [best, worst] = pool.getHealth()
+    expect(best).toMatchObject({ url: SECONDARY, available: true, failures: 0 })
+    expect(worst).toMatchObject({ url: PRIMARY, available: false, failures: 1 })
+  })
+
+  it('should send writes to one endpoint only', async () => {
+    const baseFetch = createFetch({
+      [PRIMARY]: () => { throw new Error('socket hang up') },
+      [SECONDARY]: () => reply('0xhash'),
+    })
+    const pool = new RpcEndpointPool([PRIMARY, SECONDARY], {}, baseFetch)
+
+    await expect(pool.fetch(PRIMARY, rpcBody('eth_sendRawTransaction'))).rejects.toMatchObject({
+      code: BlockchainErrorCode.NETWORK_ERROR,
+      message: expect.stringContaining('socket hang up'),
+    })
+    expect(baseFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep the request path when switching endpoints', async () => {
+    const baseFetch = createFetch({
+      [PRIMARY]: () => { throw new Error('ECONNREFUSED') },
+      [SECONDARY]: () => new Response('{"messages":[]}'),
+    })
+    const pool = new RpcEndpointPool([PRIMARY, SECONDARY], {}, baseFetch)
+
+    await pool.fetch(`${PRIMARY}/api/v1/topics/0.0.5/messages?limit=100`)
+
+    expect(baseFetch.mock.calls[1][0]).toBe(`${SECONDARY}/api/v1/topics/0.0.5/messages?limit=100`)
+  })
+
+  it('should accept balances when the quorum agrees', async () => {
+    const baseFetch = createFetch({
+      // Solana results carry the node's slot, which is ignored
+      [PRIMARY]: () => reply({ context: { slot: 100 }, value: 5000 }),
+      [SECONDARY]: () => reply({ context: { slot: 101 }, value: 5000 }),
+    })
+    const pool = new RpcEndpointPool([PRIMARY, SECONDARY], { quorum: 2 }, baseFetch)
+
+    const response = await pool.fetch(PRIMARY, rpcBody('getBalance'))
+
+    expect((await response.json()).result.value).toBe(5000)
+    expect(baseFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reject balances when endpoints disagree', async () => {
+    const baseFetch = createFetch({
+      [PRIMARY]: () => reply('0x1'),
+      [SECONDARY]: () => reply('0x2'),
+    })
+    const pool = new RpcEndpointPool([PRIMARY, SECONDARY], { quorum: 2 }, baseFetch)
+
+    await expect(pool.fetch(PRIMARY, rpcBody('eth_getBalance'))).rejects.toThrow('RPC endpoints disagree on eth_getBalance')
+    // Other reads are not quorum-checked
+    await expect(pool.fetch(PRIMARY, rpcBody('eth_chainId'))).resolves.toBeDefined()
+  })
+
+  it('should apply the quorum to balance reads inside a batch', async () => {
+    const batch: RequestInit = {
+      method: 'POST',
+      body: JSON.stringify([
+        { jsonrpc: '2.0', id: 1, method: 'eth_getBalance', params: ['0xabc', 'latest'] },
+        { jsonrpc: '2.0', id: 2, method: 'eth_chainId', params: [] },
+      ]),
+    }
+    const disagreeing = new RpcEndpointPool([PRIMARY, SECONDARY], { quorum: 2 }, createFetch({
+      [PRIMARY]: () => reply('0x1'),
+      [SECONDARY]: () => reply('0x2'),
+    }))
+    await expect(disagreeing.fetch(PRIMARY, batch)).rejects.toThrow('RPC endpoints disagree on eth_getBalance')
+
+    const baseFetch = createFetch({
+      [PRIMARY]: () => reply('0x1'),
+      [SECONDARY]: () => reply('0x1'),
+    })
+    const agreeing = new RpcEndpointPool([PRIMARY, SECONDARY], { quorum: 2 }, baseFetch)
+    const replies = await (await agreeing.fetch(PRIMARY, batch)).json()
+
+    expect(replies).toHaveLength(2)
+    // Two endpoints for the balance, one for the rest of the batch
+    expect(baseFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should require enough endpoints for the quorum', () => {
+    expect(() => new RpcEndpointPool([PRIMARY], { quorum: 2 })).toThrow('needs at least 2 endpoints')
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * Tests for RPC Record / Replay
+ */
+
+import fs from 'fs-extra'
+import os from 'os'
+import path from 'path'
+import { RpcRecorder } from '../RpcRecorder'
+import { BlockchainError } from '../types'
+
+function jsonRpcFetch(result: any): jest.Mock {
+  return jest.fn(async (_url: string, init: RequestInit) => {
+    const request = JSON.parse(init.body as string)
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }))
+  })
+}
+
+function jsonRpcCall(recorder: RpcRecorder, method: string, params: any[], id = 1): Promise<any> {
+  return recorder
+    .fetch('http://node.example/rpc', {
+      method: 'POST',
+      body: JSON.stringify({ jsonrpc: '2.0', id, method, params }),
+    })
+    .then(response => response.json())
+}
+
+describe('RpcRecorder', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'apix-rpc-'))
+  })
+
+  afterEach(async () => {
+    await fs.remove(dir)
+  })
+
+  describe('JSON-RPC', () => {
+    test('should record exchanges to a fixture file', async () => {
+      const baseFetch = jsonRpcFetch('0x10')
+      const recorder = await RpcRecorder.open({ mode: 'record', dir }, 'ethereum', 'testnet', baseFetch)
+
+      const reply = await jsonRpcCall(recorder, 'eth_blockNumber', [])
+
+      expect(reply.result).toBe('0x10')
+      expect(baseFetch).toHaveBeenCalledTimes(1)
+
+      const fixture = await fs.readJSON(path.join(dir, 'ethereum-testnet.json'))
+      expect(fixture.exchanges).toEqual([
+        { transport: 'json-rpc', method: 'eth_blockNumber', params: [], result: '0x10' },
+      ])
+    })
+
+    test('should write the fixture one exchange at a time', async () => {
+      const outputJSON = fs.outputJSON.bind(fs)
+      let writing = 0
+      let overlapping = false
+      const spy = jest.spyOn(fs, 'outputJSON').mockImplementation(async (...args: any[]) => {
+        overlapping ||= writing > 0
+        writing++
+        await new Promise(resolve => setTimeout(resolve, 5))
+        await (outputJSON as any)(...args)
+        writing--
+      })
+      const recorder = await RpcRecorder.open({ mode: 'record', dir }, 'ethereum', 'testnet', jsonRpcFetch('0x10'))
+
+      try {
+        await Promise.all([
+          jsonRpcCall(recorder, 'eth_blockNumber', [], 1),
+          jsonRpcCall(recorder, 'eth_chainId', [], 2),
+          jsonRpcCall(recorder, 'eth_gasPrice', [], 3),
+        ])
+        await recorder.flush()
+      } finally {
+        spy.mockRestore()
+      }
+
+      expect(overlapping).toBe(false)
+      const fixture = await fs.readJSON(path.join(dir, 'ethereum-testnet.json'))
+      expect(fixture.exchanges.map((exchange: any) => exchange.method)).toEqual(['eth_blockNumber', 'eth_chainId', 'eth_gasPrice'])
+    })
+
+    test('should replay recorded results with the caller\'s request id', async () => {
+      const recording = await RpcRecorder.open({ mode: 'record', dir }, 'ethereum', 'testnet', jsonRpcFetch('0x64'))
+      await jsonRpcCall(recording, 'eth_getBalance', ['0xabc', 'latest'])
+
+      const baseFetch = jest.fn()
+      const replay = await RpcRecorder.open({ mode: 'replay', dir }, 'ethereum', 'testnet', baseFetch)
+      const reply = await jsonRpcCall(replay, 'eth_getBalance', ['0xabc', 'latest'], 42)
+
+      expect(reply).toEqual({ jsonrpc: '2.0', id: 42, result: '0x64' })
+      expect(baseFetch).not.toHaveBeenCalled()
+    })
+
+    test('should answer batch requests', async () => {
+      await fs.outputJSON(path.join(dir, 'base-testnet.json'), {
+        version: 1,
+        chain: 'base',
+        network: 'testnet',
+        recordedAt: '',
+        exchanges: [
+          { transport: 'json-rpc', method: 'eth_chainId', params: [], result: '0x14a34' },
+          { transport: 'json-rpc', method: 'eth_blockNumber', params: [], result: '0x1' },
+        ],
+      })
+      const replay = await RpcRecorder.open({ mode: 'replay', dir }, 'base', 'testnet')
+
+      const response = await replay.fetch('http://node.example/rpc', {
+        method: 'POST',
+        body: JSON.stringify([
+          { jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] },
+          { jsonrpc: '2.0', id: 2, method: 'eth_chainId', params: [] },
+        ]),
+      })
+
+      expect(await response.json()).toEqual([
+        { jsonrpc: '2.0', id: 1, result: '0x1' },
+        { jsonrpc: '2.0', id: 2, result: '0x14a34' },
+      ])
+    })
+
+    test('should fall back to the same method when params differ and repeat the last answer', async () => {
+      await fs.outputJSON(path.join(dir, 'solana-devnet.json'), {
+        version: 1,
+        chain: 'solana',
+        network: 'devnet',
+        recordedAt: '',
+        exchanges: [
+          { transport: 'json-rpc', method: 'sendTransaction', params: ['signed-a'], result: 'sig-1' },
+          { transport: 'json-rpc', method: 'getSignatureStatuses', params: [['sig-1']], result: 'processed' },
+          { transport: 'json-rpc', method: 'getSignatureStatuses', params: [['sig-1']], result: 'confirmed' },
+        ],
+      })
+      const replay = await RpcRecorder.open({ mode: 'replay', dir }, 'solana', 'devnet')
+
+      expect((await jsonRpcCall(replay, 'sendTransaction', ['signed-b'])).result).toBe('sig-1')
+      expect((await jsonRpcCall(replay, 'getSignatureStatuses', [['sig-1']])).result).toBe('processed')
+      expect((await jsonRpcCall(replay, 'getSignatureStatuses', [['sig-1']])).result).toBe('confirmed')
+      expect((await jsonRpcCall(replay, 'getSignatureStatuses', [['sig-1']])).result).toBe('confirmed')
+    })
+
+    test('should fail for requests that were never recorded', async () => {
+      await RpcRecorder.open({ mode: 'record', dir }, 'ethereum', 'testnet', jsonRpcFetch('0x1'))
+        .then(recorder => jsonRpcCall(recorder, 'eth_chainId', []))
+      const replay = await RpcRecorder.open({ mode: 'replay', dir }, 'ethereum', 'testnet')
+
+      await expect(jsonRpcCall(replay, 'eth_call', [])).rejects.toThrow("No recorded json-rpc response for 'eth_call'")
+    })
+  })
+
+  describe('REST', () => {
+    test('should record and replay mirror-node style requests', async () => {
+      const body = { transactions: [{ result: 'SUCCESS' }] }
+      const baseFetch = jest.fn(async () => new Response(JSON.stringify(body), { status: 200 }))
+      const recording = await RpcRecorder.open({ mode: 'record', dir }, 'hedera', 'testnet', baseFetch)
+      await recording.fetch('https://mirror.example/api/v1/transactions/0.0.2-1-1')
+
+      const replay = await RpcRecorder.open({ mode: 'replay', dir }, 'hedera', 'testnet', jest.fn())
+      const response = await replay.fetch('https://other-mirror.example/api/v1/transactions/0.0.2-1-1')
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual(body)
+    })
+
+    test('should replay non-JSON bodies as recorded', async () => {
+      const baseFetch = jest.fn(async () => new Response('upstream timeout', {
+        status: 504,
+        headers: { 'Content-Type': 'text/html' },
+      }))
+      const recording = await RpcRecorder.open({ mode: 'record', dir }, 'hedera', 'testnet', baseFetch)
+      await recording.fetch('https://mirror.example/api/v1/accounts/0.0.2')
+
+      expect(recording.getExchanges()[0]).toMatchObject({ result: 'upstream timeout', raw: true, contentType: 'text/html' })
+
+      const replay = await RpcRecorder.open({ mode: 'replay', dir }, 'hedera', 'testnet', jest.fn())
+      const response = await replay.fetch('https://mirror.example/api/v1/accounts/0.0.2')
+
+      expect(response.status).toBe(504)
+      expect(response.headers.get('content-type')).toBe('text/html')
+      expect(await response.text()).toBe('upstream timeout')
+    })
+  })
+
+  describe('gRPC', () => {
+    /**
+     * Minimal stand-in for a Hedera SDK node channel.
+     */
+    function createChannel(response: Uint8Array) {
+      const unaryClient = jest.fn((_method: any, _request: Uint8Array, callback: any) => callback(null, response))
+      return {
+        unaryClient,
+        _createUnaryClient: jest.fn((_serviceName: string) => unaryClient),
+      }
+    }
+
+    function call(channel: any, request: number[]): Promise<Uint8Array> {
+      return new Promise((resolve, reject) => {
+        channel._createUnaryClient('TokenService')(
+          { name: 'createToken' },
+          Uint8Array.from(request),
+          (error: Error | null, response?: Uint8Array) => (error ? reject(error) : resolve(response!))
+        )
+      })
+    }
+
+    test('should record and replay unary calls without connecting', async () => {
+      const recording = await RpcRecorder.open({ mode: 'record', dir }, 'hedera', 'testnet')
+      const liveChannel = createChannel(Uint8Array.from([8, 22]))
+      await call(recording.wrapGrpcChannelFactory(() => liveChannel)(), [1, 2, 3])
+
+      expect(recording.getExchanges()[0]).toMatchObject({ transport: 'grpc', method: 'TokenService/createToken' })
+
+      const replay = await RpcRecorder.open({ mode: 'replay', dir }, 'hedera', 'testnet')
+      const offlineChannel = createChannel(Uint8Array.from([]))
+      const response = await call(replay.wrapGrpcChannelFactory(() => offlineChannel)(), [4, 5, 6])
+
+      expect(Array.from(response)).toEqual([8, 22])
+      expect(offlineChannel.unaryClient).not.toHaveBeenCalled()
+    })
+  })
+
+  test('should require a fixture in replay mode', async () => {
+    await expect(
+      RpcRecorder.open({ mode: 'replay', dir }, 'hedera', 'mainnet')
+    ).rejects.toThrow(BlockchainError)
+  })
+})
@@ -0,0 +1,226 @@
+/**
+ * Tests for Signers
+ */
+
+import { createPublicKey, verify } from 'crypto'
+import * as ethers from 'ethers'
+import fs from 'fs-extra'
+import os from 'os'
+import path from 'path'
+import {
+  KeystoreSigner,
+  LocalKeySigner,
+  RemoteSigner,
+  createEthersSigner,
+  createSigner,
+  decryptKeystore,
+  encryptKeystore,
+  parsePrivateKey,
+  requireSignerKeyType,
+} from '../Signer'
+import { startRemoteSignerServer, RemoteSignRequest } from '../RemoteSignerServer'
+import { BlockchainErrorCode } from '../types'
+
+// Hardhat / Anvil account #0
+const EVM_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+const EVM_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+const ED25519_KEY = '302e020100300506032b657004220420' + '11'.repeat(32)
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex')
+
+function verifyEd25519(publicKeyHex: string, message: Uint8Array, signature: Uint8Array): boolean {
+  const publicKey = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKeyHex, 'hex')]),
+    format: 'der',
+    type: 'spki',
+  })
+  return verify(null, message, publicKey, signature)
+}
+
+describe('Signer', () => {
+  describe('LocalKeySigner', () => {
+    test('should sign messages with ed25519 keys', async () => {
+      const signer = new LocalKeySigner(ED25519_KEY)
+      const message = Buffer.from('hello hedera')
+
+      const publicKey = await signer.getPublicKey()
+      const signature = await signer.sign(message)
+
+      expect(publicKey.keyType).toBe('ed25519')
+      expect(signature).toHaveLength(64)
+      expect(verifyEd25519(publicKey.publicKey, message, signature)).toBe(true)
+    })
+
+    test('should sign digests with secp256k1 keys as r || s', async () => {
+      const signer = new LocalKeySigner(EVM_KEY)
+      const digest = ethers.keccak256(ethers.toUtf8Bytes('hello ethereum'))
+
+      const signature = await signer.sign(ethers.getBytes(digest))
+      const expected = new ethers.SigningKey(EVM_KEY).sign(digest)
+
+      expect(ethers.hexlify(signature)).toBe(ethers.concat([expected.r, expected.s]))
+      expect((await signer.getPublicKey()).publicKey).toBe(new ethers.SigningKey(EVM_KEY).compressedPublicKey.slice(2))
+      await expect(signer.sign(Buffer.from('not a digest'))).rejects.toThrow('sign 32-byte digests')
+    })
+
+    test('should parse Hedera DER, raw hex and Solana keys', () => {
+      const seed = Buffer.alloc(32, 7)
+      const solanaKey = Buffer.concat([seed, Buffer.alloc(32, 9)]).toString('base64')
+
+      expect(parsePrivateKey(ED25519_KEY).keyType).toBe('ed25519')
+      expect(parsePrivateKey('3030020100300706052b8104000a04220420' + EVM_KEY.slice(2)).keyType).toBe('secp256k1')
+      expect(parsePrivateKey(EVM_KEY.slice(2), 'ed25519').keyType).toBe('ed25519')
+      expect(parsePrivateKey(solanaKey)).toEqual({ key: seed, keyType: 'ed25519' })
+      expect(() => parsePrivateKey('not a key')).toThrow('Unrecognized private key format')
+    })
+  })
+
+  describe('Keystores', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'apix-signer-'))
+    })
+
+    afterEach(async () => {
+      await fs.remove(dir)
+    })
+
+    test('should round-trip a key and reject wrong passwords', async () => {
+      const keystore = await encryptKeystore(EVM_KEY, 'correct horse', { scryptN: 1024 })
+
+      expect(keystore.address).toBe(EVM_ADDRESS.slice(2).toLowerCase())
+      expect((await decryptKeystore(keystore, 'correct horse')).toString('hex')).toBe(EVM_KEY.slice(2))
+      await expect(decryptKeystore(keystore, 'wrong')).rejects.toMatchObject({
+        code: BlockchainErrorCode.INVALID_CREDENTIALS,
+      })
+    })
+
+    test('should read ethers keystores', async () => {
+      const json = await ethers.encryptKeystoreJson({ address: EVM_ADDRESS, privateKey: EVM_KEY }, 'pw', { scrypt: { N: 1024 } })
+
+      expect((await decryptKeystore(JSON.parse(json), 'pw')).toString('hex')).toBe(EVM_KEY.slice(2))
+    })
+
+    test('should sign with an ed25519 keystore file', async () => {
+      const file = path.join(dir, 'operator.json')
+      await fs.writeJson(file, await encryptKeystore(ED25519_KEY, 'pw', { scryptN: 1024 }))
+      const message = Buffer.from('payload')
+
+      const signer = createSigner({ type: 'keystore', path: file, password: 'pw' })
+
+      expect(signer).toBeInstanceOf(KeystoreSigner)
+      expect(await signer.sign(message)).toEqual(await new LocalKeySigner(ED25519_KEY).sign(message))
+      await expect(new KeystoreSigner(file, 'wrong').getPublicKey()).rejects.toThrow('Wrong keystore password')
+    })
+  })
+
+  describe('RemoteSigner', () => {
+    const local = new LocalKeySigner(ED25519_KEY)
+    let requests: RemoteSignRequest[]
+    let server: Awaited<ReturnType<typeof startRemoteSignerServer>>
+
+    beforeEach(async () => {
+      requests = []
+      server = await startRemoteSignerServer(local, {
+        port: 0,
+        token: 'secret',
+        onSign: request => requests.push(request),
+      })
+    })
+
+    afterEach(async () => {
+      await server.close()
+    })
+
+    test('should sign through the stand-in server', async () => {
+      const signer = new RemoteSigner({ url: server.url + '/', token: 'secret', keyId: 'deployer' })
+      const message = Buffer.from('transaction body')
+
+      expect(await signer.getPublicKey()).toEqual(await local.getPublicKey())
+      expect(await signer.sign(message, { chain: 'hedera', network: 'mainnet' })).toEqual(await local.sign(message))
+      expect(requests).toEqual([{
+        keyId: 'deployer',
+        payload: message.toString('hex'),
+        context: { chain: 'hedera', network: 'mainnet' },
+      }])
+    })
+
+    test('should map refused and unreachable signers to errors', async () => {
+      await expect(new RemoteSigner({ url: server.url, token: 'wrong' }).getPublicKey())
+        .rejects.toMatchObject({ code: BlockchainErrorCode.INVALID_CREDENTIALS })
+
+      const unreachable = jest.fn(async () => { throw new Error('connect ECONNREFUSED') }) as any
+      await expect(new RemoteSigner({ url: 'http://127.0.0.1:1' }, unreachable).sign(Buffer.alloc(32)))
+        .rejects.toMatchObject({ code: BlockchainErrorCode.NETWORK_ERROR })
+    })
+
+    test('should reject non-JSON replies as network errors', async () => {
+      const gateway = jest.fn(async () => new Response('<html>Bad Gateway</html>', { status: 200 })) as any
+
+      await expect(new RemoteSigner({ url: 'https://signer.example' }, gateway).getPublicKey())
+        .rejects.toMatchObject({ code: BlockchainErrorCode.NETWORK_ERROR, message: expect.stringContaining('non-JSON response') })
+    })
+
+    test('should check the key type a chain needs', async () => {
+      const signer = new RemoteSigner({ url: server.url, token: 'secret' })
+
+      await expect(requireSignerKeyType(signer, ['secp256k1'], 'ethereum'))
+        .rejects.toThrow('ethereum needs a secp256k1 signer, got ed25519 (remote)')
+    })
+  })
+
+  describe('createEthersSigner', () => {
+    test('should sign transactions and messages recoverable to the address', async () => {
+      const signer = createEthersSigner(ethers, new LocalKeySigner(EVM_KEY), EVM_ADDRESS)
+
+      const serialized = await signer.signTransaction({
+        to: EVM_ADDRESS,
+        value: 1n,
+        nonce: 3,
+        gasLimit: 21000,
+        maxFeePerGas: 10n,
+        maxPriorityFeePerGas: 1n,
+        chainId: 31337,
+      })
+      const signature = await signer.signMessage('hello')
+
+      expect(ethers.Transaction.from(serialized).from).toBe(EVM_ADDRESS)
+      expect(ethers.verifyMessage('hello', signature)).toBe(EVM_ADDRESS)
+    })
+
+    test('should normalize high-s signatures from remote signers', async () => {
+      const local = new LocalKeySigner(EVM_KEY)
+      const n = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141')
+      // A KMS-style signer that returns (r, n - s)
+      const kms = jest.fn(async (url: string, init: RequestInit) => {
+        if (url.endsWith('/public-key')) {
+          return Response.json(await local.getPublicKey())
+        }
+        const { payload } = JSON.parse(init.body as string)
+        const signature = await local.sign(Buffer.from(payload, 'hex'))
+        const highS = n - BigInt(ethers.hexlify(signature.slice(32, 64)))
+        return Response.json({ signature: ethers.hexlify(signature.slice(0, 32)) + ethers.toBeHex(highS, 32).slice(2) })
+      }) as any
+      const signer = createEthersSigner(ethers, new RemoteSigner({ url: 'https://kms.example' }, kms), EVM_ADDRESS)
+
+      const serialized = await signer.signTransaction({
+        to: EVM_ADDRESS,
+        value: 1n,
+        nonce: 0,
+        gasLimit: 21000,
+        maxFeePerGas: 10n,
+        maxPriorityFeePerGas: 1n,
+        chainId: 31337,
+      })
+
+      expect(ethers.Transaction.from(serialized).from).toBe(EVM_ADDRESS)
+      expect(ethers.verifyMessage('hello', await signer.signMessage('hello'))).toBe(EVM_ADDRESS)
+    })
+
+    test('should reject signatures from a different key', async () => {
+      const signer = createEthersSigner(ethers, new LocalKeySigner('0x' + '22'.repeat(32)), EVM_ADDRESS)
+
+      await expect(signer.signMessage('hello')).rejects.toThrow('does not match')
+    })
+  })
+})
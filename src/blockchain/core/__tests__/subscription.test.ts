@@ -0,0 +1,97 @@
+/**
+ * Tests for Event Subscriptions
+ */
+
+import { pollEvents, EventPage } from '../Subscription'
+import { BlockchainError, BlockchainErrorCode, ChainEvent } from '../types'
+
+function event(cursor: string): ChainEvent {
+  return { kind: 'account-changes', chain: 'hedera', cursor }
+}
+
+async function take(iterator: AsyncIterator<ChainEvent>, count: number): Promise<ChainEvent[]> {
+  const events: ChainEvent[] = []
+  while (events.length < count) {
+    const { value, done } = await iterator.next()
+    if (done) break
+    events.push(value)
+  }
+  await iterator.return?.()
+  return events
+}
+
+describe('pollEvents', () => {
+  it('should resume each poll from the last cursor', async () => {
+    const pages: EventPage[] = [
+      { events: [event('1'), event('2')], cursor: '2' },
+      { events: [], cursor: '5' },
+      { events: [event('6')] },
+    ]
+    const fetchPage = jest.fn(async (_cursor?: string) => pages.shift() ?? { events: [] })
+
+    const events = await take(pollEvents(fetchPage, { cursor: '0', pollIntervalMs: 1 }), 3)
+
+    expect(events.map(e => e.cursor)).toEqual(['1', '2', '6'])
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor)).toEqual(['0', '2', '5'])
+  })
+
+  it('should fetch the next page right away while more are ready', async () => {
+    const pages: EventPage[] = [
+      { events: [event('1')], cursor: '1', more: true },
+      { events: [event('2')], cursor: '2', more: true },
+      { events: [event('3')], cursor: '3' },
+    ]
+    const fetchPage = jest.fn(async (_cursor?: string) => pages.shift() ?? { events: [] })
+    const started = Date.now()
+
+    const events = await take(pollEvents(fetchPage, { cursor: '0', pollIntervalMs: 60000 }), 3)
+
+    expect(events.map(e => e.cursor)).toEqual(['1', '2', '3'])
+    expect(Date.now() - started).toBeLessThan(5000)
+  })
+
+  it('should reconnect after failed polls', async () => {
+    const fetchPage = jest.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({ events: [event('1')] })
+
+    const events = await take(pollEvents(fetchPage, { pollIntervalMs: 1 }), 1)
+
+    expect(events).toHaveLength(1)
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('should give up with NETWORK_ERROR after maxRetries', async () => {
+    const fetchPage = jest.fn().mockRejectedValue(new Error('socket hang up'))
+
+    await expect(take(pollEvents(fetchPage, { pollIntervalMs: 1, maxRetries: 2 }), 1)).rejects.toMatchObject({
+      code: BlockchainErrorCode.NETWORK_ERROR,
+      message: expect.stringContaining('socket hang up'),
+    })
+    expect(fetchPage).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not retry invalid subscriptions', async () => {
+    const fetchPage = jest.fn().mockRejectedValue(
+      new BlockchainError(BlockchainErrorCode.INVALID_ADDRESS, 'account required')
+    )
+
+    await expect(take(pollEvents(fetchPage, { pollIntervalMs: 1 }), 1)).rejects.toMatchObject({
+      code: BlockchainErrorCode.INVALID_ADDRESS,
+    })
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('should end when the signal aborts', async () => {
+    const controller = new AbortController()
+    const fetchPage = jest.fn(async () => {
+      controller.abort()
+      return { events: [] }
+    })
+
+    const events = await take(pollEvents(fetchPage, { pollIntervalMs: 60000, signal: controller.signal }), 1)
+
+    expect(events).toEqual([])
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+  })
+})
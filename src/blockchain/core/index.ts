@@ -10,6 +10,48 @@ export * from './types'
 // Chain Capabilities
 export * from './ChainCapabilities'
 
+// EVM Chain Descriptors
+export * from './EvmChains'
+
+// Local Networks
+export * from './Localnet'
+
+// RPC Record / Replay
+export * from './RpcRecorder'
+
+// RPC Endpoint Pool
+export * from './RpcPool'
+
+// Subscriptions
+export * from './Subscription'
+
+// Transaction Sending (nonces, queue)
+export * from './NonceManager'
+export * from './SendQueue'
+
+// Anchor IDL Encoding (Solana programs)
+export * from './AnchorIdl'
+
+// HD Wallet (mnemonic account derivation)
+export * from './HdWallet'
+
+// Signers (local key, keystore, remote)
+export * from './Signer'
+export * from './RemoteSignerServer'
+
+// Offline (air-gapped) transaction files
+export * from './OfflineTransaction'
+
+// Hedera Consensus Service topics (chunks, running hashes)
+export * from './ConsensusTopic'
+
+// Hedera mirror node REST client (and a stub server for tests)
+export * from './MirrorNode'
+export * from './MirrorNodeStub'
+
+// Multisig proposals (Safe transactions; Hedera schedules live in the adapter)
+export * from './Multisig'
+
 // Blockchain Adapter
 export * from './BlockchainAdapter'
 
@@ -21,3 +63,15 @@ export { ChainRegistry } from './ChainRegistry'
 
 // Feature Mapper
 export { FeatureMapper } from './FeatureMapper'
+
+// Chain Plugins (third-party chains)
+export * from './ChainPlugin'
+
+// Cost Model (monthly workload projections, price feed)
+export * from './CostModel'
+
+// Chain Migration (apix migrate)
+export * from './ChainMigration'
+
+// Capability Queries (apix chains --require)
+export * from './CapabilityQuery'
@@ -8,17 +8,29 @@
 /**
  * Supported blockchain identifiers.
  * Adding a new chain = add to this union type.
+ * EVM-compatible chains also need a descriptor in EvmChains.ts.
+ * Chains registered by plugins (see ChainPlugin) are added through PluginChains.
  */
 export type SupportedChain =
   | 'hedera'
   | 'ethereum'
   | 'solana'
   | 'base'
-  // Future chains can be added here:
-  // | 'polygon'
-  // | 'avalanche'
-  // | 'arbitrum'
-  // | 'optimism'
+  | 'polygon'
+  | 'avalanche'
+  | 'arbitrum'
+  | 'optimism'
+  | keyof PluginChains
+
+/**
+ * Chain IDs registered by plugins. A plugin package declares its ID here
+ * (module augmentation) so the ID type-checks as a SupportedChain:
+ *
+ *   declare module 'apix-ai/dist/blockchain/core/types' {
+ *     interface PluginChains { 'acme-ledger': true }
+ *   }
+ */
+export interface PluginChains {}
 
 /**
  * Universal integration types (chain-agnostic).
@@ -27,6 +39,7 @@ export type SupportedChain =
 export type IntegrationType =
   | 'token'              // HTS (Hedera), ERC-20 (Ethereum), SPL Token (Solana)
   | 'nft'                // ERC-721, Metaplex NFT, Hedera NFT
+  | 'multi-token'        // ERC-1155, HTS tokens + NFT serials, SPL semi-fungible mints
   | 'smart-contract'     // Solidity, Rust programs, etc.
   | 'wallet'             // Multi-wallet support
   | 'consensus'          // Hedera HCS, Ethereum events, Solana account data
@@ -45,8 +58,53 @@ export interface BlockchainConfiguration {
   network: NetworkType
   credentials: ChainCredentials
   rpcUrl?: string
+  rpcUrls?: string[]      // Ordered endpoints; more than one enables failover (see RpcPool)
   mirrorNodeUrl?: string  // Hedera-specific (optional)
+  mirrorNodeUrls?: string[]  // Hedera-specific, ordered mirror node endpoints
   customConfig?: Record<string, any>
+  replay?: RpcReplayOptions  // Record or replay RPC traffic (see RpcRecorder)
+  rpcPool?: RpcPoolOptions   // Health scoring, retries and quorum for rpcUrls
+  sendQueue?: SendQueueOptions  // EVM send concurrency limits (see SendQueue)
+  signer?: Signer | SignerConfig  // Signs instead of the private keys in credentials (see Signer)
+  safeTransactionServiceUrl?: string  // EVM: Safe Transaction Service for multisig proposals (see Multisig)
+}
+
+/**
+ * RPC endpoint pool settings.
+ */
+export interface RpcPoolOptions {
+  quorum?: number          // Endpoints that must agree on critical reads (default 1 = off)
+  quorumMethods?: string[] // RPC methods checked by quorum (default: balance queries)
+  timeoutMs?: number       // Per-request timeout (default 10000)
+  maxAttempts?: number     // Endpoints tried per read (default: all)
+  cooldownMs?: number      // Skip an endpoint this long after a failure, doubling per failure (default 5000)
+}
+
+/**
+ * Health of one pooled RPC endpoint.
+ */
+export interface RpcEndpointHealth {
+  url: string
+  latencyMs?: number       // Moving average; undefined until first success
+  errorRate: number        // Moving average, 0..1
+  requests: number
+  failures: number
+  available: boolean       // False while cooling down after failures
+}
+
+/**
+ * RPC record/replay mode.
+ * 'record' talks to the network and saves every exchange to a fixture file,
+ * 'replay' answers from the fixture without network access.
+ */
+export type RpcReplayMode = 'record' | 'replay'
+
+/**
+ * RPC record/replay settings.
+ */
+export interface RpcReplayOptions {
+  mode: RpcReplayMode
+  dir: string              // Fixture directory, one file per chain and network
 }
 
 /**
@@ -57,8 +115,9 @@ export interface ChainCredentials {
   // Hedera
   accountId?: string
   privateKey?: string
+  keyType?: 'ED25519' | 'ECDSA'    // Key type derived from the mnemonic (default ED25519)
 
-  // Ethereum/Base (EVM)
+  // Ethereum/Base/Polygon/Arbitrum/Optimism/Avalanche (EVM)
   privateKeyEVM?: string
   infuraKey?: string
   alchemyKey?: string
@@ -68,13 +127,56 @@ export interface ChainCredentials {
   privateKeySolana?: string
 
   // Universal
-  mnemonic?: string
+  mnemonic?: string              // BIP-39 seed phrase; derives keys not given above (see HdWallet)
+  mnemonicPassphrase?: string
+  accountIndex?: number          // BIP-44 address index (default 0)
   walletProvider?: WalletProvider
 
   // Custom configuration (RPC URLs, etc.)
   customConfig?: Record<string, any>
 }
 
+/**
+ * Key types a Signer can hold.
+ */
+export type SignerKeyType = 'secp256k1' | 'ed25519'
+
+/**
+ * Public half of a signer's key.
+ */
+export interface SignerPublicKey {
+  keyType: SignerKeyType
+  publicKey: string        // Hex (secp256k1: compressed or uncompressed)
+}
+
+/**
+ * What a signature is for; remote signers can log it or apply policy.
+ */
+export interface SignContext {
+  chain: SupportedChain
+  network?: NetworkType
+}
+
+/**
+ * Signs on behalf of an adapter, in process or behind a KMS / HSM.
+ * ed25519 keys sign the message itself; secp256k1 keys sign a 32-byte
+ * digest and return r || s (64 bytes).
+ */
+export interface Signer {
+  readonly type: string
+  getPublicKey(): Promise<SignerPublicKey>
+  sign(payload: Uint8Array, context?: SignContext): Promise<Uint8Array>
+}
+
+/**
+ * Built-in signers, as configuration.
+ */
+export type SignerConfig =
+  | { type: 'local'; privateKey: string; keyType?: SignerKeyType }
+  | { type: 'keystore'; path: string; password?: string }     // Password default: APIX_KEYSTORE_PASSWORD
+  | { type: 'remote'; url: string; keyId?: string; token?: string; timeoutMs?: number }
+  | { type: 'public-key'; publicKey: string }                 // Watch-only: build and broadcast, sign offline
+
 /**
  * Wallet provider types across all chains.
  */
@@ -105,6 +207,7 @@ export interface CreateTokenParams {
   burnable?: boolean
   pausable?: boolean
   freezable?: boolean          // Hedera-specific (optional on others)
+  customFees?: CustomFee[]     // Hedera only (HTS custom fees)
   metadata?: TokenMetadata
   customConfig?: Record<string, any>  // Chain-specific parameters
 }
@@ -128,8 +231,9 @@ export interface CreateNFTParams {
   name: string
   symbol: string
   collectionSize?: number
-  royaltyPercentage?: number
-  royaltyRecipient?: string
+  royaltyPercentage?: number   // Shorthand for a royalty fee (5 = 5%)
+  royaltyRecipient?: string    // Default: the creating account
+  customFees?: CustomFee[]     // Royalties on every chain; fixed fees on Hedera only
   metadata: NFTMetadata
   customConfig?: Record<string, any>
 }
@@ -148,6 +252,59 @@ export interface NFTMetadata {
   properties?: Record<string, any>
 }
 
+/**
+ * Fee charged when a token changes hands (universal).
+ *
+ * Hedera charges all three kinds on chain (HTS custom fees). Other chains
+ * only have royalties: EIP-2981 royalty info on ERC-721 collections and
+ * seller fee basis points in Metaplex metadata on Solana, which
+ * marketplaces honour but the chain does not enforce.
+ */
+export type CustomFee = FixedFee | FractionalFee | RoyaltyFee
+
+/**
+ * A flat amount per transfer.
+ */
+export interface FixedFee {
+  type: 'fixed'
+  amount: string | bigint      // Smallest unit of the fee token (tinybars without tokenId)
+  tokenId?: string             // Fee token (default: native currency)
+  collector: string
+}
+
+/**
+ * A share of each fungible transfer, paid in the token itself.
+ */
+export interface FractionalFee {
+  type: 'fractional'
+  basisPoints: number          // 100 = 1%
+  collector: string
+  minimum?: string | bigint
+  maximum?: string | bigint
+  netOfTransfers?: boolean     // Charge the sender on top (default: taken from the amount received)
+}
+
+/**
+ * A share of what an NFT is exchanged for.
+ */
+export interface RoyaltyFee {
+  type: 'royalty'
+  basisPoints: number          // 100 = 1%
+  collector: string
+  fallbackFee?: {              // Hedera: charged when an NFT changes hands for nothing
+    amount: string | bigint
+    tokenId?: string
+  }
+}
+
+/**
+ * Fee schedule update parameters.
+ */
+export interface UpdateTokenFeesParams {
+  tokenId: string              // HTS token, ERC-721 collection or Solana mint
+  customFees: CustomFee[]      // Replaces the current fees (empty removes them)
+}
+
 /**
  * Token transfer parameters (universal).
  */
@@ -158,6 +315,37 @@ export interface TransferParams {
   memo?: string
 }
 
+/**
+ * Allowance approval parameters (universal).
+ * The signer (owner) lets `spender` move up to `amount` of its tokens.
+ */
+export interface ApproveParams {
+  tokenId: string
+  spender: string
+  amount: string | bigint
+}
+
+/**
+ * Allowance query parameters (universal).
+ */
+export interface AllowanceParams {
+  tokenId: string
+  owner: string
+  spender: string
+}
+
+/**
+ * Delegated transfer parameters (universal).
+ * The signer acts as spender, moving tokens out of `from`'s account.
+ */
+export interface TransferFromParams {
+  tokenId: string
+  from: string
+  to: string
+  amount: string | bigint
+  memo?: string
+}
+
 /**
  * NFT transfer parameters (universal).
  */
@@ -168,6 +356,59 @@ export interface TransferNFTParams {
   memo?: string
 }
 
+/**
+ * Item of a multi-token collection (universal).
+ * Fungible items have interchangeable units (gold, potions); unique items
+ * exist exactly once (a named sword).
+ */
+export interface MultiTokenItemParams {
+  id: number                   // Item ID within the collection (ERC-1155 token ID)
+  name: string
+  fungible: boolean
+  initialSupply?: string | bigint  // Fungible items only; minted to the treasury
+}
+
+/**
+ * Multi-token collection creation parameters (universal).
+ * Unique items are minted to the treasury on creation and handed out with
+ * transferBatch; fungible items can be minted later with mintBatch.
+ */
+export interface CreateMultiTokenParams {
+  name: string
+  symbol: string
+  uri?: string                 // Item metadata URI; {id} is replaced by the item ID (ERC-1155 style)
+  items: MultiTokenItemParams[]
+  customConfig?: Record<string, any>
+}
+
+/**
+ * Amount of one item in a batch operation.
+ */
+export interface MultiTokenAmount {
+  tokenId: string              // MultiTokenItem.tokenId from createMultiToken
+  amount: string | bigint      // Units (fungible) or 1 (unique)
+}
+
+/**
+ * Batch mint parameters (universal). Fungible items only.
+ */
+export interface MintBatchParams {
+  collectionId: string
+  to: string
+  items: MultiTokenAmount[]
+}
+
+/**
+ * Batch transfer parameters (universal).
+ * Moves several items from the signer in one transaction.
+ */
+export interface TransferBatchParams {
+  collectionId: string
+  to: string
+  items: MultiTokenAmount[]
+  memo?: string
+}
+
 /**
  * Balance query parameters (universal).
  */
@@ -197,6 +438,8 @@ export interface CallContractParams {
   args?: any[]
   gas?: bigint
   value?: bigint
+  idl?: any                            // Solana: Anchor IDL; methodName and args are encoded from it
+  accounts?: Record<string, string>    // Solana (with idl): instruction account addresses by name
 }
 
 /**
@@ -236,6 +479,26 @@ export interface NFTResult {
   metadata?: NFTMetadata
 }
 
+/**
+ * Item of a created multi-token collection and the chain token holding it.
+ */
+export interface MultiTokenItem {
+  id: number
+  name: string
+  fungible: boolean
+  tokenId: string              // ERC-1155 token ID / HTS token ID ("token/serial" if unique) / SPL mint
+}
+
+/**
+ * Multi-token collection creation result (universal).
+ */
+export interface MultiTokenResult {
+  collectionId: string         // ERC-1155 contract; treasury account on Hedera/Solana
+  collectionAddress?: string   // Ethereum/Base
+  items: MultiTokenItem[]
+  transaction: TransactionResult  // Last creation transaction (customData lists all on Hedera/Solana)
+}
+
 /**
  * Contract deployment result (universal).
  */
@@ -257,6 +520,56 @@ export interface TransactionStatus {
   error?: string
 }
 
+/**
+ * Kinds of on-chain activity an adapter can stream.
+ * Which kinds a chain offers is decided by its capabilities
+ * (see ChainCapabilityDetector.getSubscriptionKinds).
+ */
+export type SubscriptionKind =
+  | 'token-transfers'    // ERC-20 Transfer logs, HTS / SPL balance changes
+  | 'contract-events'    // EVM event logs
+  | 'topic-messages'     // Hedera HCS
+  | 'account-changes'    // Chains without event logs (Hedera, Solana)
+
+/**
+ * Subscription parameters (universal).
+ */
+export interface SubscribeParams {
+  kind: SubscriptionKind
+  account?: string             // token-transfers / account-changes: watched account
+  tokenId?: string             // token-transfers: only this token (required on Solana)
+  contractAddress?: string     // contract-events
+  eventSignature?: string      // contract-events: e.g. 'Transfer(address,address,uint256)'
+  topicId?: string             // topic-messages
+  fromSequence?: number        // topic-messages: replay from this sequence number (when no cursor)
+  toSequence?: number          // topic-messages: end the stream after this sequence number
+  cursor?: string              // Resume after this event (ChainEvent.cursor); default: from now
+  pollIntervalMs?: number
+  maxRetries?: number          // Consecutive failed polls before giving up
+  signal?: AbortSignal         // Ends the stream when aborted
+}
+
+/**
+ * One event delivered by a subscription.
+ */
+export interface ChainEvent {
+  kind: SubscriptionKind
+  chain: SupportedChain
+  cursor: string               // Pass as SubscribeParams.cursor to resume after this event
+  transactionId?: string
+  blockNumber?: number
+  timestamp?: Date
+
+  // token-transfers
+  tokenId?: string
+  from?: string
+  to?: string
+  amount?: bigint
+
+  // Chain-specific payload (log topics/data, HCS message, account transaction)
+  data?: any
+}
+
 /**
  * Gas price information (chain-agnostic).
  */
@@ -315,6 +628,27 @@ export interface SignedTransaction {
   signature?: string
 }
 
+/**
+ * Options for building a transaction to sign offline.
+ */
+export interface BuildTransactionOptions {
+  validStart?: Date        // Hedera: start of the validity window (default now; transactions expire after 2 minutes)
+  nonceAccount?: string    // Solana: durable nonce account (blockhashes expire after about a minute)
+}
+
+/**
+ * Transaction built online for signing elsewhere (see OfflineTransaction).
+ */
+export interface UnsignedTransaction {
+  chain: SupportedChain
+  network: NetworkType
+  transaction: Transaction // As requested, with the nonce, gas and chain ID filled in
+  payload: string          // Unsigned RLP (EVM, hex), wire format (Solana, base64), frozen bytes (Hedera, hex)
+  signer: string           // Address or account that has to sign
+  summary: string[]        // Decoded from payload, for review before signing
+  expiresAt?: Date
+}
+
 /**
  * Fee estimation parameters.
  */
@@ -325,6 +659,82 @@ export interface EstimateFeeParams {
   complexity?: 'simple' | 'medium' | 'complex'
 }
 
+/**
+ * What to simulate (universal).
+ * A raw transaction, or an adapter operation that is built but never sent.
+ */
+export type SimulationRequest =
+  | { operation: 'transaction'; transaction: Transaction }
+  | { operation: 'createToken'; params: CreateTokenParams }
+  | { operation: 'transferToken'; params: TransferParams }
+  | { operation: 'deployContract'; params: DeployContractParams }
+
+/**
+ * Predicted balance change of one account.
+ */
+export interface BalanceChange {
+  account: string
+  tokenId?: string             // Undefined for the native currency (HBAR, ETH, SOL)
+  delta: bigint                // Smallest unit; negative = outgoing, fees included
+}
+
+/**
+ * Log emitted during a simulation.
+ */
+export interface SimulationLog {
+  address?: string             // EVM: emitting contract
+  topics?: string[]            // EVM only
+  data?: string                // EVM only
+  message?: string             // Solana program log line
+}
+
+/**
+ * Simulation / dry-run result (universal).
+ */
+export interface SimulationResult {
+  success: boolean
+  revertReason?: string
+  method: 'debug_traceCall' | 'eth_call' | 'simulateTransaction' | 'precheck'
+  gasUsed?: bigint             // EVM gas / Solana compute units
+  fee?: bigint                 // Predicted fee in the native currency's smallest unit
+  balanceChanges: BalanceChange[]
+  logs: SimulationLog[]
+  warnings: string[]           // What the simulation could not cover
+}
+
+/**
+ * Send queue limits (EVM).
+ */
+export interface SendQueueOptions {
+  concurrency?: number         // Transactions broadcast at once (default 8)
+  maxQueued?: number           // Waiting sends before enqueue is rejected (default 1000)
+}
+
+/**
+ * Transaction sent by the nonce manager and not yet mined (EVM).
+ */
+export interface PendingTransaction {
+  nonce: number
+  hash: string                 // Latest broadcast (changes on speed-up / cancel)
+  replacedHashes: string[]     // Earlier broadcasts with the same nonce
+  cancelled: boolean
+  to?: string
+  data?: string
+  value?: bigint
+  gasLimit?: bigint
+  gasPrice?: bigint            // Legacy transactions
+  maxFeePerGas?: bigint        // EIP-1559 transactions
+  maxPriorityFeePerGas?: bigint
+  submittedAt: Date
+}
+
+/**
+ * Options for replacing a pending transaction (speed-up / cancel).
+ */
+export interface ReplaceTransactionOptions {
+  feeBumpPercent?: number      // Fee increase over the pending transaction (default 15, nodes require >= 10)
+}
+
 /**
  * Mint NFT parameters (universal).
  */
@@ -335,6 +745,110 @@ export interface MintNFTParams {
   amount?: number              // For ERC-1155
 }
 
+/**
+ * Mint fungible token parameters (universal).
+ * Amounts are in the token's smallest unit.
+ */
+export interface MintTokenParams {
+  tokenId: string
+  amount: string | bigint
+  to?: string                  // Defaults to the treasury / signer account
+}
+
+/**
+ * Burn fungible token parameters (universal).
+ * Burns from the treasury / signer account.
+ */
+export interface BurnTokenParams {
+  tokenId: string
+  amount: string | bigint
+}
+
+/**
+ * Per-account token control parameters (freeze, unfreeze, KYC).
+ */
+export interface TokenAccountParams {
+  tokenId: string
+  account: string
+}
+
+/**
+ * Wipe parameters: remove tokens from an account without its signature.
+ */
+export interface WipeTokenParams extends TokenAccountParams {
+  amount: string | bigint
+}
+
+/**
+ * Token association parameters (Hedera: an account only holds tokens it has
+ * associated, or that take one of its automatic association slots).
+ */
+export interface AssociateTokenParams {
+  tokenIds: string[]
+  account?: string             // Default: the signer account (the account's key must sign)
+}
+
+/**
+ * Whether an account can receive a token.
+ */
+export interface TokenAssociation {
+  tokenId: string
+  account: string
+  associated: boolean
+  canReceive: boolean          // Associated, or a free automatic association slot will associate it
+  automatic?: boolean          // Associated through an automatic association slot
+  frozen?: boolean             // Associated, with the account frozen for the token
+  kycGranted?: boolean         // Associated; false when the token's KYC key has not granted KYC
+  maxAutoAssociations?: number // Account's automatic association slots (-1 = unlimited)
+  usedAutoAssociations?: number
+}
+
+/**
+ * What a multisig proposal does once enough parties have signed.
+ * Amounts are in the smallest unit (tinybars / wei, or the token's).
+ */
+export type ProposalAction =
+  | { type: 'transfer'; to: string; amount: string | bigint; tokenId?: string }  // Native currency unless tokenId
+  | { type: 'mint'; tokenId: string; amount: string | bigint; to?: string }      // EVM: mint(to, amount), to defaults to the Safe
+  | { type: 'contract-call'; contractAddress: string; data: string; value?: string | bigint; gas?: number }
+
+/**
+ * Multisig proposal parameters (universal).
+ */
+export interface ProposeTransactionParams {
+  action: ProposalAction
+  account?: string             // Hedera: account that pays and sends (default: operator). EVM: the Safe (required)
+  memo?: string
+  expiresAt?: Date             // Hedera: schedule expiration (network default otherwise)
+}
+
+/**
+ * Multisig listing parameters (universal).
+ */
+export interface ListProposalsParams {
+  account?: string             // Hedera: schedules created by this account (default: operator). EVM: the Safe (required)
+  limit?: number               // Default 25
+}
+
+/**
+ * Multisig proposal status: Hedera scheduled transaction or Safe transaction.
+ */
+export interface MultisigProposal {
+  id: string                   // Hedera schedule ID, EVM Safe transaction hash
+  chain: SupportedChain
+  status: 'pending' | 'executed' | 'deleted' | 'expired'
+  account?: string             // Hedera payer account / Safe address
+  summary: string[]            // What the proposal does (empty when the listing does not include it)
+  signers: string[]            // Signatures collected: Hedera public keys, EVM owner addresses
+  threshold?: number           // Signatures needed (EVM; Hedera keys can nest thresholds)
+  memo?: string
+  creator?: string
+  expiresAt?: Date
+  transactionId?: string       // Hedera: scheduled transaction ID. EVM: execution hash once executed
+  explorerUrl?: string
+  queued?: boolean             // EVM: fully signed, but earlier Safe nonces must execute first
+}
+
 /**
  * Error types for blockchain operations.
  */
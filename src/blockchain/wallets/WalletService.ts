@@ -127,6 +127,26 @@ export const WALLET_METADATA: Record<WalletProvider, WalletMetadata> = {
  * Factory for getting supported wallets by chain.
  */
 export class WalletServiceFactory {
+  private static pluginWallets: Map<SupportedChain, WalletProvider[]> = new Map()
+
+  /**
+   * Register the wallets of a chain without built-in support (see
+   * ChainPlugins.register). Providers missing from WALLET_METADATA need
+   * their metadata.
+   *
+   * @param chain - The blockchain
+   * @param wallets - Supported wallet providers
+   * @param metadata - Metadata for new wallet providers
+   */
+  static registerWallets(
+    chain: SupportedChain,
+    wallets: WalletProvider[],
+    metadata: Record<string, WalletMetadata> = {}
+  ): void {
+    Object.assign(WALLET_METADATA, metadata)
+    this.pluginWallets.set(chain, wallets)
+  }
+
   /**
    * Get list of supported wallet providers for a chain.
    *
@@ -140,11 +160,15 @@ export class WalletServiceFactory {
       case 'ethereum':
         return ['metamask', 'walletconnect', 'coinbase-wallet']
       case 'base':
+      case 'polygon':
+      case 'arbitrum':
+      case 'optimism':
+      case 'avalanche':
         return ['metamask', 'walletconnect', 'coinbase-wallet']
       case 'solana':
         return ['phantom', 'solflare']
       default:
-        return []
+        return this.pluginWallets.get(chain) || []
     }
   }
 
@@ -0,0 +1,829 @@
+/**
+ * Chain Operations
+ *
+ * Runs token operations through the multi-chain adapter layer
+ * (`create-token --record/--replay/--simulate`, `deploy --contract`,
+ * `transfer-token`, `tx-status`).
+ *
+ * With --record <dir> every RPC exchange is saved to <dir>; with --replay <dir>
+ * the same commands run offline against those fixtures (air-gapped CI, demos).
+ * With --simulate nothing is sent: the adapter dry-runs the transaction and
+ * the predicted outcome is printed.
+ *
+ * With --signer (or APIX_SIGNER) transactions are signed by an encrypted
+ * keystore or a remote signing service instead of the keys in .env.
+ *
+ * `tx build` / `tx sign` / `tx broadcast` split a transaction across machines:
+ * built online, signed on an air-gapped machine, broadcast online.
+ *
+ * `hcs tail` streams a Hedera topic, reassembling chunked messages and
+ * verifying running hashes.
+ *
+ * `schedule create/sign/list/show` collect approvals before a transaction
+ * runs: Hedera scheduled transactions, or Safe transactions on EVM chains.
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs-extra';
+import inquirer from 'inquirer';
+import { AdapterFactory } from '../blockchain/core/AdapterFactory';
+import { BlockchainAdapter } from '../blockchain/core/BlockchainAdapter';
+import { CHAIN_METADATA } from '../blockchain/core/ChainCapabilities';
+import {
+  SupportedChain,
+  NetworkType,
+  BlockchainConfiguration,
+  RpcReplayOptions,
+  SimulationRequest,
+  SimulationResult,
+  Signer,
+  SignerConfig,
+  SignerKeyType,
+  ProposalAction,
+  MultisigProposal,
+} from '../blockchain/core/types';
+import { KeystoreSigner, LocalKeySigner } from '../blockchain/core/Signer';
+import {
+  OfflineTransactionFile,
+  isOfflineTransactionExpired,
+  readOfflineTransaction,
+  signOfflineTransaction,
+  summarizeTransaction,
+  toOfflineTransactionFile,
+  writeOfflineTransaction,
+} from '../blockchain/core/OfflineTransaction';
+import {
+  AssembledTopicMessage,
+  TopicMessage,
+  TopicMessageReader,
+} from '../blockchain/core/ConsensusTopic';
+import { CredentialSetup } from './credential-setup';
+import { logger } from '../utils/logger';
+
+/**
+ * Options shared by all adapter-backed commands.
+ */
+export interface ChainCommandOptions {
+  chain?: string;
+  mainnet?: boolean;
+  localnet?: boolean;
+  record?: string;         // Fixture directory to record into
+  replay?: string;         // Fixture directory to replay from
+  signer?: string;         // Signer spec (see parseSignerSpec), default: APIX_SIGNER
+  safeService?: string;    // EVM: Safe Transaction Service URL, default: APIX_SAFE_SERVICE_URL or the chain's hosted one
+}
+
+export interface ChainTokenOptions extends ChainCommandOptions {
+  name: string;
+  symbol: string;
+  decimals: number;
+  initialSupply: number;
+  simulate?: boolean;      // Dry-run only, nothing is sent
+}
+
+export interface ChainDeployOptions extends ChainCommandOptions {
+  contract: string;        // Path to a JSON artifact ({ abi, bytecode }), raw bytecode or a Solana .so program
+  args?: string;           // Constructor arguments as a JSON array
+  programId?: string;      // Solana: upgrade this program instead of deploying a new one
+  simulate?: boolean;      // Dry-run only, nothing is sent
+}
+
+export interface ChainTransferOptions extends ChainCommandOptions {
+  token: string;
+  to: string;
+  amount: string;
+}
+
+export interface ChainTxBuildOptions extends ChainCommandOptions {
+  to: string;
+  out: string;             // File to write
+  value?: string;          // Smallest native unit (wei, lamports, tinybars)
+  data?: string;           // Hex call data (EVM; Hedera contract calls)
+  from?: string;           // Sender (default: the configured account)
+  publicKey?: string;      // Build without private keys: the signer's public key (hex)
+  nonce?: string;
+  gas?: string;
+  gasPrice?: string;
+  validStart?: string;     // Hedera: ISO time the transaction becomes valid
+  nonceAccount?: string;   // Solana: durable nonce account
+}
+
+/**
+ * Key held on the signing machine: a keystore file or an environment variable.
+ */
+export interface LocalSignerOptions {
+  keystore?: string;
+  keyEnv?: string;
+  keyType?: SignerKeyType; // For raw hex keys (default secp256k1)
+}
+
+export interface ChainHcsTailOptions extends ChainCommandOptions {
+  from?: string;           // Replay from this sequence number (default: new messages only)
+  to?: string;             // Stop after this sequence number
+  verify?: boolean;        // Check running hashes (default true)
+  json?: boolean;          // One JSON object per line
+}
+
+export interface ChainScheduleCreateOptions extends ChainCommandOptions {
+  to?: string;             // Transfer recipient (or mint recipient, EVM)
+  amount?: string;         // Smallest unit (tinybars / wei, or the token's)
+  token?: string;          // Transfer this token instead of the native currency
+  mint?: string;           // Mint this token
+  contract?: string;       // Call this contract with --data
+  data?: string;
+  value?: string;          // Native amount sent with the contract call
+  account?: string;        // Hedera: paying account (default: yours). EVM: the Safe
+  memo?: string;
+  expires?: string;        // Hedera: ISO expiration time
+}
+
+export interface ChainScheduleListOptions extends ChainCommandOptions {
+  account?: string;        // Hedera: creating account (default: yours). EVM: the Safe
+  limit?: string;
+  json?: boolean;
+}
+
+export interface ChainTxSignOptions extends LocalSignerOptions {
+  out?: string;            // Default: overwrite the input file
+  yes?: boolean;           // Skip the confirmation prompt
+}
+
+export class ChainOperations {
+  /**
+   * Create a fungible token.
+   */
+  async createToken(options: ChainTokenOptions): Promise<void> {
+    const adapter = await this.connect(options);
+    const params = {
+      name: options.name,
+      symbol: options.symbol,
+      decimals: options.decimals,
+      initialSupply: String(options.initialSupply),
+    };
+
+    if (options.simulate) {
+      return this.simulate(adapter, { operation: 'createToken', params });
+    }
+
+    const spinner = ora(`Creating ${options.symbol} on ${adapter.name}...`).start();
+
+    try {
+      const result = await adapter.createToken(params);
+
+      spinner.succeed(chalk.green('✅ Token created successfully!'));
+      console.log(chalk.white(`   Token: ${chalk.bold(result.tokenId || result.tokenAddress)}`));
+      this.printTransaction(result.transaction.transactionId, result.transaction.explorerUrl);
+    } catch (error) {
+      spinner.fail(chalk.red('❌ Token creation failed'));
+      throw error;
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Deploy a contract from an artifact file.
+   */
+  async deployContract(options: ChainDeployOptions): Promise<void> {
+    const params = {
+      // Solana programs are binary ELF files
+      contractCode: options.contract.endsWith('.so')
+        ? await fs.readFile(options.contract)
+        : await fs.readFile(options.contract, 'utf8'),
+      constructorArgs: options.args ? JSON.parse(options.args) : undefined,
+      customConfig: options.programId ? { programId: options.programId } : undefined,
+    };
+    const adapter = await this.connect(options);
+
+    if (options.simulate) {
+      return this.simulate(adapter, { operation: 'deployContract', params });
+    }
+
+    const spinner = ora(`Deploying ${options.contract} to ${adapter.name}...`).start();
+
+    try {
+      const result = await adapter.deployContract(params);
+
+      spinner.succeed(chalk.green('✅ Contract deployed successfully!'));
+      console.log(chalk.white(`   Contract: ${chalk.bold(result.contractAddress || result.contractId)}`));
+      this.printTransaction(result.transaction.transactionId, result.transaction.explorerUrl);
+    } catch (error) {
+      spinner.fail(chalk.red('❌ Contract deployment failed'));
+      throw error;
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Transfer fungible tokens from the configured account.
+   */
+  async transferToken(options: ChainTransferOptions): Promise<void> {
+    const adapter = await this.connect(options);
+    const spinner = ora(`Transferring ${options.amount} to ${options.to}...`).start();
+
+    try {
+      const result = await adapter.transferToken({
+        tokenId: options.token,
+        to: options.to,
+        amount: options.amount,
+      });
+
+      spinner.succeed(chalk.green('✅ Transfer submitted'));
+      this.printTransaction(result.transactionId, result.explorerUrl);
+    } catch (error) {
+      spinner.fail(chalk.red('❌ Token transfer failed'));
+      throw error;
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Show the status of a transaction.
+   */
+  async getTransactionStatus(txId: string, options: ChainCommandOptions): Promise<void> {
+    const adapter = await this.connect(options);
+
+    try {
+      const status = await adapter.getTransactionStatus(txId);
+      const color = status.status === 'success' ? chalk.green : status.status === 'failed' ? chalk.red : chalk.yellow;
+
+      console.log(chalk.white(`   Status: ${color.bold(status.status)}`));
+      console.log(chalk.white(`   Confirmations: ${status.confirmations}`));
+      if (status.blockNumber) {
+        console.log(chalk.white(`   Block: ${status.blockNumber}`));
+      }
+      const explorerUrl = adapter.getExplorerUrl(txId);
+      if (explorerUrl) {
+        console.log(chalk.white(`   Explorer: ${chalk.blue.underline(explorerUrl)}`));
+      }
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Build an unsigned transaction file for offline signing.
+   */
+  async buildTransaction(options: ChainTxBuildOptions): Promise<void> {
+    const adapter = await this.connect({
+      ...options,
+      signer: options.publicKey ? `public-key:${options.publicKey}` : options.signer,
+    });
+
+    try {
+      const unsigned = await adapter.buildTransaction({
+        to: options.to,
+        from: options.from,
+        value: options.value !== undefined ? BigInt(options.value) : undefined,
+        data: options.data,
+        nonce: options.nonce !== undefined ? parseInt(options.nonce, 10) : undefined,
+        gas: options.gas !== undefined ? BigInt(options.gas) : undefined,
+        gasPrice: options.gasPrice !== undefined ? BigInt(options.gasPrice) : undefined,
+      }, {
+        validStart: options.validStart ? new Date(options.validStart) : undefined,
+        nonceAccount: options.nonceAccount,
+      });
+      const file = toOfflineTransactionFile(unsigned);
+      await writeOfflineTransaction(options.out, file);
+
+      console.log(chalk.green(`✅ Unsigned transaction written to ${options.out}`));
+      this.printOfflineSummary(file.summary);
+      console.log(chalk.white(`   Signer: ${chalk.bold(file.signer)}`));
+      if (file.expiresAt) {
+        console.log(chalk.yellow(`   ⚠️  Expires ${file.expiresAt}: sign and broadcast before then`));
+      }
+      console.log(chalk.gray(`   Next, on the signing machine: apix tx sign ${options.out}`));
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Sign a transaction file. Needs no network or saved credentials, so it
+   * runs on an air-gapped machine.
+   */
+  async signTransaction(path: string, options: ChainTxSignOptions): Promise<void> {
+    const file = await readOfflineTransaction(path);
+
+    // Show what the payload says, not what the file claims
+    const summary = await summarizeTransaction(file.chain, file.network, file.payload);
+    console.log(chalk.cyan(`🔏 Review before signing (decoded from ${path}):`));
+    this.printOfflineSummary(summary);
+    console.log(chalk.white(`   Signer: ${chalk.bold(file.signer)}`));
+    if (JSON.stringify(summary) !== JSON.stringify(file.summary)) {
+      console.log(chalk.red('   ⚠️  The summary in the file does not match its payload. The file may have been altered.'));
+    }
+    if (isOfflineTransactionExpired(file)) {
+      console.log(chalk.yellow(`   ⚠️  Expired at ${file.expiresAt}: the network will reject it`));
+    }
+
+    if (!options.yes) {
+      const { confirmed } = await inquirer.prompt([{
+        type: 'confirm',
+        name: 'confirmed',
+        message: chalk.cyan('Sign this transaction?'),
+        default: false,
+      }]);
+      if (!confirmed) {
+        throw new Error('Signing cancelled');
+      }
+    }
+
+    const signed = await signOfflineTransaction(file, await createLocalSigner(options));
+    const out = options.out || path;
+    await writeOfflineTransaction(out, signed);
+
+    console.log(chalk.green(`✅ Signed transaction written to ${out}`));
+    console.log(chalk.white(`   Transaction: ${chalk.bold(signed.signed!.transactionHash)}`));
+    console.log(chalk.gray(`   Next, on an online machine: apix tx broadcast ${out}`));
+  }
+
+  /**
+   * Broadcast a signed transaction file. The network comes from the file.
+   */
+  async broadcastTransaction(path: string, options: ChainCommandOptions): Promise<void> {
+    const file = await readOfflineTransaction(path);
+    if (!file.signed) {
+      throw new Error(`${path} is not signed yet. Sign it with: apix tx sign ${path}`);
+    }
+    if (isOfflineTransactionExpired(file)) {
+      console.log(chalk.yellow(`   ⚠️  Expired at ${file.expiresAt}: the network will likely reject it`));
+    }
+
+    // The public key that signed stands in for the account's keys
+    const adapter = await this.connect({
+      ...options,
+      chain: file.chain,
+      mainnet: file.network === 'mainnet',
+      localnet: file.network === 'localnet',
+      signer: file.signatures?.length ? `public-key:${file.signatures[0].publicKey}` : options.signer,
+    });
+    const spinner = ora(`Broadcasting to ${adapter.name} ${file.network}...`).start();
+
+    try {
+      const result = await adapter.broadcastTransaction(file.signed);
+
+      spinner.succeed(chalk.green('✅ Transaction broadcast successfully!'));
+      this.printTransaction(result.transactionId, result.explorerUrl);
+    } catch (error) {
+      spinner.fail(chalk.red('❌ Broadcast failed'));
+      throw error;
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  private printOfflineSummary(summary: OfflineTransactionFile['summary']): void {
+    for (const line of summary) {
+      console.log(chalk.white(`   ${line}`));
+    }
+  }
+
+  /**
+   * Stream an HCS topic's messages, reassembled and verified.
+   * Runs until Ctrl+C, or until --to is reached.
+   */
+  async tailTopic(topicId: string, options: ChainHcsTailOptions): Promise<void> {
+    const adapter = await this.connect({ ...options, chain: 'hedera' });
+    const fromSequence = parseSequenceOption('--from', options.from);
+    const toSequence = parseSequenceOption('--to', options.to);
+    if (fromSequence !== undefined && toSequence !== undefined && toSequence < fromSequence) {
+      throw new Error(`--to (${toSequence}) is before --from (${fromSequence})`);
+    }
+    const verify = options.verify !== false;
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+
+    if (!options.json) {
+      const range = fromSequence !== undefined ? `from sequence ${fromSequence}` : 'new messages';
+      console.log(chalk.cyan(`📡 ${topicId} on ${adapter.network}: ${range}${toSequence !== undefined ? ` to ${toSequence}` : ''} (Ctrl+C to stop)`));
+    }
+
+    let reader: TopicMessageReader | undefined;
+    let failed = 0;
+    try {
+      for await (const event of adapter.subscribe({
+        kind: 'topic-messages',
+        topicId,
+        fromSequence,
+        toSequence,
+        signal: controller.signal,
+      })) {
+        const chunk: TopicMessage = event.data;
+        // The chain is checked from the running hash before the first message read
+        reader = reader || new TopicMessageReader({
+          verify,
+          previousRunningHash: verify ? await this.fetchPreviousRunningHash(adapter, chunk) : undefined,
+        });
+
+        const message = reader.read(chunk);
+        if (!message) continue;
+        if (message.verified === false) failed++;
+        this.printTopicMessage(message, options.json);
+      }
+    } finally {
+      await adapter.disconnect();
+    }
+
+    if (failed) {
+      throw new Error(`${failed} message(s) failed running hash verification`);
+    }
+  }
+
+  private async fetchPreviousRunningHash(adapter: BlockchainAdapter, message: TopicMessage): Promise<string | undefined> {
+    if (message.sequenceNumber <= 1) {
+      return undefined;
+    }
+    const previous: TopicMessage = await adapter.executeChainSpecificOperation('getHCSMessage', {
+      topicId: message.topicId,
+      sequenceNumber: message.sequenceNumber - 1,
+    });
+    return previous.runningHash;
+  }
+
+  private printTopicMessage(message: AssembledTopicMessage, json?: boolean): void {
+    const timestamp = new Date(Number(message.consensusTimestamp) * 1000).toISOString();
+
+    if (json) {
+      console.log(JSON.stringify({
+        topicId: message.topicId,
+        sequenceNumber: message.sequenceNumber,
+        consensusTimestamp: message.consensusTimestamp,
+        payer: message.payer,
+        chunks: message.chunks,
+        verified: message.verified,
+        verificationError: message.verificationError,
+        incomplete: message.incomplete,
+        message: message.contents.toString('utf8'),
+      }));
+      return;
+    }
+
+    const status = message.verified === undefined ? '' : message.verified ? chalk.green(' ✔') : chalk.red(' ✘');
+    const chunks = message.chunks > 1 ? chalk.gray(` (${message.chunks} chunks)`) : '';
+    console.log(chalk.white(`#${message.sequenceNumber} ${timestamp} ${message.payer}${chunks}${status}`));
+    if (message.verificationError) {
+      console.log(chalk.red(`   ⚠️  ${message.verificationError}`));
+    }
+    if (message.incomplete) {
+      console.log(chalk.yellow('   ⚠️  Started mid-message: earlier chunks precede --from'));
+    }
+    console.log(`   ${message.contents.toString('utf8')}`);
+  }
+
+  /**
+   * Propose a transaction that runs once enough parties have signed.
+   */
+  async createSchedule(options: ChainScheduleCreateOptions): Promise<void> {
+    const action = this.resolveProposalAction(options);
+    const adapter = await this.connect(options);
+    const spinner = ora(`Proposing ${action.type} on ${adapter.name}...`).start();
+
+    try {
+      const proposal = await adapter.proposeTransaction({
+        action,
+        account: options.account,
+        memo: options.memo,
+        expiresAt: options.expires ? new Date(options.expires) : undefined,
+      });
+
+      spinner.succeed(chalk.green(proposal.status === 'executed' ? '✅ Proposal executed (no other signatures needed)' : '✅ Proposal created'));
+      this.printProposal(proposal);
+      if (proposal.status === 'pending') {
+        console.log(chalk.gray(`   Co-signers approve with: apix schedule sign ${proposal.id}${options.chain ? ` --chain ${options.chain}` : ''}`));
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('❌ Proposal failed'));
+      throw error;
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Add your signature to a proposal. It executes when the threshold is met.
+   */
+  async signSchedule(proposalId: string, options: ChainCommandOptions): Promise<void> {
+    const adapter = await this.connect(options);
+
+    try {
+      // Review before signing
+      this.printProposal(await adapter.getProposal(proposalId));
+
+      const spinner = ora(`Signing ${proposalId}...`).start();
+      try {
+        const proposal = await adapter.approveProposal(proposalId);
+        spinner.succeed(chalk.green(proposal.status === 'executed'
+          ? '✅ Signed and executed'
+          : proposal.queued ? '✅ Signed, queued behind earlier transactions' : '✅ Signed, waiting for more signatures'));
+        this.printProposal(proposal);
+      } catch (error) {
+        spinner.fail(chalk.red('❌ Signing failed'));
+        throw error;
+      }
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * Show one proposal.
+   */
+  async showSchedule(proposalId: string, options: ChainCommandOptions): Promise<void> {
+    const adapter = await this.connect(options);
+
+    try {
+      this.printProposal(await adapter.getProposal(proposalId));
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  /**
+   * List proposals still waiting for signatures.
+   */
+  async listSchedules(options: ChainScheduleListOptions): Promise<void> {
+    const adapter = await this.connect(options);
+
+    try {
+      const proposals = await adapter.listProposals({
+        account: options.account,
+        limit: options.limit !== undefined ? parseInt(options.limit, 10) : undefined,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(proposals, null, 2));
+        return;
+      }
+      if (proposals.length === 0) {
+        console.log(chalk.gray('   No pending proposals'));
+        return;
+      }
+      for (const proposal of proposals) {
+        this.printProposal(proposal);
+        console.log();
+      }
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  private resolveProposalAction(options: ChainScheduleCreateOptions): ProposalAction {
+    if (options.contract) {
+      if (!options.data) {
+        throw new Error('--contract needs --data (hex call data)');
+      }
+      return { type: 'contract-call', contractAddress: options.contract, data: options.data, value: options.value };
+    }
+    if (!options.amount) {
+      throw new Error('--amount is required for transfers and mints');
+    }
+    if (options.mint) {
+      return { type: 'mint', tokenId: options.mint, amount: options.amount, to: options.to };
+    }
+    if (options.to) {
+      return { type: 'transfer', to: options.to, amount: options.amount, tokenId: options.token };
+    }
+    throw new Error('Specify what to propose: --to (transfer), --mint <token> or --contract <address>');
+  }
+
+  private printProposal(proposal: MultisigProposal): void {
+    const color = proposal.status === 'executed' ? chalk.green : proposal.status === 'pending' ? chalk.yellow : chalk.red;
+
+    console.log(chalk.white(`   Proposal: ${chalk.bold(proposal.id)} ${color(proposal.status)}`));
+    if (proposal.account) {
+      console.log(chalk.white(`   Account: ${proposal.account}`));
+    }
+    for (const line of proposal.summary) {
+      console.log(chalk.white(`   ${line}`));
+    }
+    if (proposal.memo) {
+      console.log(chalk.white(`   Memo: ${proposal.memo}`));
+    }
+    const threshold = proposal.threshold !== undefined ? ` of ${proposal.threshold}` : '';
+    console.log(chalk.white(`   Signatures: ${proposal.signers.length}${threshold}`));
+    for (const signer of proposal.signers) {
+      console.log(chalk.gray(`     ${signer}`));
+    }
+    if (proposal.queued) {
+      console.log(chalk.yellow('   Queued: the Safe runs earlier nonces first. Sign again once they have executed to run it.'));
+    }
+    if (proposal.expiresAt) {
+      console.log(chalk.white(`   Expires: ${proposal.expiresAt.toISOString()}`));
+    }
+    if (proposal.transactionId) {
+      this.printTransaction(proposal.transactionId, proposal.explorerUrl);
+    }
+  }
+
+  /**
+   * Dry-run an operation and print the predicted outcome.
+   */
+  private async simulate(adapter: BlockchainAdapter, request: SimulationRequest): Promise<void> {
+    const spinner = ora(`Simulating ${request.operation} on ${adapter.name}...`).start();
+
+    try {
+      const result = await adapter.simulateTransaction(request);
+      spinner.stop();
+      this.printSimulation(adapter, result);
+
+      if (!result.success) {
+        throw new Error(`Simulation predicts failure: ${result.revertReason || 'unknown reason'}`);
+      }
+    } catch (error) {
+      if (spinner.isSpinning) {
+        spinner.fail(chalk.red('❌ Simulation failed'));
+      }
+      throw error;
+    } finally {
+      await adapter.disconnect();
+    }
+  }
+
+  private printSimulation(adapter: BlockchainAdapter, result: SimulationResult): void {
+    const nativeToken = CHAIN_METADATA[adapter.chainId]?.nativeToken || 'native';
+
+    console.log(chalk.cyan(`🔍 Simulation (${result.method}) - nothing was sent`));
+    console.log(chalk.white(`   Result: ${result.success
+      ? chalk.green.bold('would succeed')
+      : chalk.red.bold(`would fail: ${result.revertReason}`)}`));
+    if (result.gasUsed !== undefined) {
+      console.log(chalk.white(`   Gas / compute used: ${result.gasUsed}`));
+    }
+    if (result.fee !== undefined) {
+      console.log(chalk.white(`   Fee: ${result.fee} (smallest ${nativeToken} unit)`));
+    }
+
+    if (result.balanceChanges.length > 0) {
+      console.log(chalk.white('   Balance changes (smallest units):'));
+      for (const change of result.balanceChanges) {
+        const delta = change.delta > BigInt(0) ? chalk.green(`+${change.delta}`) : chalk.red(`${change.delta}`);
+        console.log(chalk.white(`     ${change.account}  ${change.tokenId || nativeToken}  ${delta}`));
+      }
+    }
+
+    if (result.logs.length > 0) {
+      console.log(chalk.white(`   Logs (${result.logs.length}):`));
+      for (const log of result.logs) {
+        console.log(chalk.gray(`     ${log.message || `${log.address} ${(log.topics || []).join(' ')}`}`));
+      }
+    }
+
+    for (const warning of result.warnings) {
+      console.log(chalk.yellow(`   ⚠️  ${warning}`));
+    }
+  }
+
+  /**
+   * Build a configuration from .env credentials and initialize the chain's adapter.
+   */
+  private async connect(options: ChainCommandOptions): Promise<BlockchainAdapter> {
+    const chain = (options.chain || 'hedera') as SupportedChain;
+    const network = this.resolveNetwork(chain, options);
+    const replay = this.resolveReplay(options);
+
+    // Replays never reach a node, so saved credentials are optional
+    const credentials = replay?.mode === 'replay'
+      ? {}
+      : await new CredentialSetup(chain, network).loadSavedCredentials();
+
+    const config: BlockchainConfiguration = {
+      chain,
+      network,
+      credentials,
+      customConfig: credentials.customConfig,
+      replay,
+      signer: replay?.mode === 'replay' ? undefined : await this.resolveSigner(options),
+      safeTransactionServiceUrl: options.safeService || process.env.APIX_SAFE_SERVICE_URL,
+    };
+
+    if (replay) {
+      const verb = replay.mode === 'replay' ? 'Replaying RPC fixtures from' : 'Recording RPC fixtures to';
+      console.log(chalk.gray(`   ${verb} ${replay.dir}`));
+    }
+
+    logger.debug('Connecting chain adapter', { chain, network, replay });
+
+    // A fresh adapter per command, so record/replay settings always apply
+    await AdapterFactory.clearCache(chain);
+    return AdapterFactory.createAdapter(chain, config);
+  }
+
+  private resolveNetwork(chain: SupportedChain, options: ChainCommandOptions): NetworkType {
+    if (options.mainnet) return 'mainnet';
+    if (options.localnet) return 'localnet';
+    return chain === 'solana' ? 'devnet' : 'testnet';
+  }
+
+  private resolveReplay(options: ChainCommandOptions): RpcReplayOptions | undefined {
+    if (options.record && options.replay) {
+      throw new Error('Use either --record or --replay, not both');
+    }
+    if (options.replay) return { mode: 'replay', dir: options.replay };
+    if (options.record) return { mode: 'record', dir: options.record };
+    return undefined;
+  }
+
+  /**
+   * Signer from --signer or APIX_SIGNER.
+   */
+  private async resolveSigner(options: ChainCommandOptions): Promise<SignerConfig | undefined> {
+    const spec = options.signer || process.env.APIX_SIGNER;
+    if (!spec) return undefined;
+
+    const signer = parseSignerSpec(spec);
+    if (signer.type === 'keystore') {
+      signer.password = await promptKeystorePassword(`Password for ${signer.path}:`);
+    }
+
+    if (signer.type !== 'public-key') {
+      console.log(chalk.gray(`   Signing with ${spec}`));
+    }
+    return signer;
+  }
+
+  private printTransaction(transactionId: string, explorerUrl?: string): void {
+    console.log(chalk.white(`   Transaction: ${chalk.bold(transactionId)}`));
+    if (explorerUrl) {
+      console.log(chalk.white(`   Explorer: ${chalk.blue.underline(explorerUrl)}`));
+    }
+  }
+}
+
+/**
+ * Parse a --signer spec:
+ * - `remote:<url>`: HTTP signer (bearer token from APIX_SIGNER_TOKEN, key from APIX_SIGNER_KEY_ID)
+ * - `keystore:<path>`: encrypted keystore file
+ * - `public-key:<hex>`: no private key; build and broadcast only (see `apix tx`)
+ */
+export function parseSignerSpec(spec: string): SignerConfig {
+  const separator = spec.indexOf(':');
+  const kind = spec.slice(0, separator);
+  const target = spec.slice(separator + 1);
+
+  if (kind === 'remote' && target) {
+    return {
+      type: 'remote',
+      url: target,
+      token: process.env.APIX_SIGNER_TOKEN,
+      keyId: process.env.APIX_SIGNER_KEY_ID,
+    };
+  }
+  if (kind === 'keystore' && target) {
+    return { type: 'keystore', path: target };
+  }
+  if (kind === 'public-key' && target) {
+    return { type: 'public-key', publicKey: target };
+  }
+  throw new Error(`Invalid signer '${spec}'. Use remote:<url>, keystore:<path> or public-key:<hex>`);
+}
+
+/**
+ * Keystore password from APIX_KEYSTORE_PASSWORD, or a prompt.
+ */
+export async function promptKeystorePassword(message: string): Promise<string> {
+  if (process.env.APIX_KEYSTORE_PASSWORD !== undefined) {
+    return process.env.APIX_KEYSTORE_PASSWORD;
+  }
+  const { password } = await inquirer.prompt([{
+    type: 'password',
+    name: 'password',
+    message: chalk.cyan(message),
+    mask: '*',
+  }]);
+  return password;
+}
+
+/**
+ * Signer for a key on this machine (`--keystore` or `--key-env`).
+ */
+export async function createLocalSigner(options: LocalSignerOptions): Promise<Signer> {
+  if (!options.keystore === !options.keyEnv) {
+    throw new Error('Use exactly one of --keystore or --key-env');
+  }
+  if (options.keystore) {
+    return new KeystoreSigner(options.keystore, await promptKeystorePassword(`Password for ${options.keystore}:`));
+  }
+
+  const privateKey = process.env[options.keyEnv!];
+  if (!privateKey) {
+    throw new Error(`No private key in ${options.keyEnv}`);
+  }
+  return new LocalKeySigner(privateKey, options.keyType);
+}
+
+/**
+ * Topic sequence number option (`--from`, `--to`): a non-negative integer.
+ */
+function parseSequenceOption(flag: string, value?: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`${flag} must be a non-negative integer sequence number, got '${value}'`);
+  }
+  return Number(value.trim());
+}
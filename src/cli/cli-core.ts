@@ -7,6 +7,7 @@ import { IntegrationGenerator } from '../generation/integration-generator';
 import { ConfigurationManager } from '../utils/config-manager';
 import { logger, LogLevel } from '../utils/logger';
 import { debugLogger } from '../utils/debug-logger';
+import { APIxCustomError, ErrorCodes } from '../utils/errors';
 import { createProgressManager, INTEGRATION_STEPS, trackSteps } from '../utils/progress';
 import { HealthChecker } from '../validation/health-checker';
 import { IntegrationValidator } from '../validation/integration-validator';
@@ -16,6 +17,24 @@ import { EnterpriseClassifier } from '../ai/classifiers/enterprise-classifier';
 import { ConversationEngine } from '../ai/conversation/conversation-engine';
 import { AICodeCompositionEngine } from '../ai/composition/ai-code-composition-engine';
 import { LimitationHandler } from '../ai/limitations/limitation-handler';
+import { ChainRegistry } from '../blockchain/core/ChainRegistry';
+import { ChainRankingEngine, RankingProfile, UseCase } from '../blockchain/core/ChainRankingEngine';
+import { SupportedChain } from '../blockchain/core/types';
+import { AdapterFactory } from '../blockchain/core/AdapterFactory';
+import { BlockchainAdapter } from '../blockchain/core/BlockchainAdapter';
+import {
+  CostModel,
+  CostProjection,
+  FilePriceFeed,
+  DEFAULT_PRICE_FEED_PATH,
+  DEFAULT_WORKLOAD,
+  formatCostRange,
+  formatUsd,
+  formatWorkload,
+  parseBudget,
+  parseWorkload,
+} from '../blockchain/core/CostModel';
+import { CredentialSetup } from './credential-setup';
 
 export class APIxCLI {
   private analyzer: ProjectAnalyzer;
@@ -435,7 +454,15 @@ export class APIxCLI {
       logger.error(`Failed to add ${integration} integration`);
       
       // Show contextual error help
-      if (error instanceof Error) {
+      if (error instanceof APIxCustomError &&
+        (error.code === ErrorCodes.CHAIN_CAPABILITY_MISSING || error.code === ErrorCodes.CHAIN_TEMPLATES_MISSING)) {
+        // The project is fine; the chain is the problem
+        console.log(chalk.red(`\n${error.message}`));
+        console.log(chalk.yellow('\n💡 Suggestions:'));
+        error.suggestions?.forEach(suggestion => console.log(chalk.gray(`   • ${suggestion}`)));
+        console.log();
+      } else if (error instanceof Error) {
+        console.log(chalk.red(`\n${error.message}`));
         console.log(chalk.yellow('\n🔧 Troubleshooting Tips:'));
         console.log(chalk.gray('   • Ensure your project has a valid package.json'));
         console.log(chalk.gray('   • Check that you\'re in a React/Next.js project root'));
@@ -1022,7 +1049,10 @@ export class APIxCLI {
     try {
       console.log(chalk.blue.bold('\n🔍 Comprehensive Hedera Validation\n'));
 
-      if (options.testnet) {
+      if (options.localnet) {
+        hederaOperations.setNetwork('localnet');
+        console.log(chalk.cyan('Network: Hedera Localnet'));
+      } else if (options.testnet) {
         console.log(chalk.cyan('Network: Hedera Testnet'));
       } else if (options.mainnet) {
         console.log(chalk.cyan('Network: Hedera Mainnet'));
@@ -1103,6 +1133,12 @@ export class APIxCLI {
 
       console.log(chalk.blue.bold('\n🤖 AI-Powered Recommendations\n'));
 
+      // A numeric budget gets a cost projection for every chain
+      const budget = options.budget ? parseBudget(options.budget) : undefined;
+      if (budget !== undefined) {
+        await this.showBudgetFit(budget, options);
+      }
+
       const spinner = ora('Analyzing project context and requirements...').start();
 
       try {
@@ -1323,6 +1359,17 @@ export class APIxCLI {
     try {
       logger.info('AI-powered approach comparison:', { approaches, options });
 
+      // Chains named in the approaches are ranked locally, with the reasons
+      const chains = ChainRegistry.getAllChains()
+        .filter(info => [info.chain, info.metadata.displayName].some(name =>
+          new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(approaches)
+        ))
+        .map(info => info.chain);
+      if (chains.length >= 2) {
+        await this.compareChains(chains, options);
+        return;
+      }
+
       console.log(chalk.blue.bold(`\n🤖 AI Approach Comparison\n`));
 
       const spinner = ora('Analyzing different approaches...').start();
@@ -1383,6 +1430,125 @@ export class APIxCLI {
     }
   }
 
+  /**
+   * Rank chains against each other and show each criterion's share of the score
+   * --criteria weighs the given criteria equally; otherwise the ranking profile
+   * (--profile, or rankingProfile in .apix/config.json) applies
+   */
+  private async compareChains(chains: SupportedChain[], options: any): Promise<void> {
+    const useCase: UseCase = ChainRankingEngine.getUseCases().includes(options.useCase) ? options.useCase : 'other';
+    let profile: RankingProfile | undefined;
+    if (options.criteria) {
+      profile = ChainRankingEngine.profileForCriteria(options.criteria);
+    } else {
+      const profilePath = options.profile || (await this.config.load()).rankingProfile;
+      profile = profilePath ? await ChainRankingEngine.loadProfile(profilePath) : undefined;
+    }
+
+    // Cost is scored on the workload's monthly projection
+    const costs = profile?.weights.cost ? await this.projectCosts(chains, options) : [];
+    const rankings = ChainRankingEngine.rankChainsForUseCase(useCase, undefined, profile, costs)
+      .filter(ranking => chains.includes(ranking.chain));
+    const displayName = (chain: SupportedChain) => ChainRegistry.getChain(chain).metadata.displayName;
+
+    console.log(chalk.blue.bold(`\n⚖️  Chain Comparison\n`));
+    console.log(chalk.gray(`   Use case: ${useCase}   Profile: ${rankings[0].profile}`));
+    if (costs.length > 0) {
+      console.log(chalk.gray(`   Workload: ${formatWorkload(costs[0].workload)}`));
+    }
+    console.log();
+
+    rankings.forEach((ranking, index) => {
+      console.log(`${ChainRankingEngine.getRankEmoji(index + 1)} ${chalk.bold(displayName(ranking.chain))} - ${ranking.score}/100`);
+      if (costs.length > 0) {
+        console.log(chalk.gray(`   💰 ${ranking.estimatedCost}`));
+      }
+      ChainRankingEngine.explainScore(ranking).forEach(line => {
+        console.log(chalk.gray(`   ${line}`));
+      });
+      console.log();
+    });
+
+    // Why the winner won: the criteria it scored more points on
+    const [winner, runnerUp] = rankings;
+    const ahead = winner.breakdown
+      .filter(entry => entry.points > (runnerUp.breakdown.find(other => other.criterion === entry.criterion)?.points ?? 0))
+      .map(entry => entry.label);
+    const margin = winner.score - runnerUp.score;
+    console.log(chalk.green(
+      margin === 0
+        ? `✅ ${displayName(winner.chain)} and ${displayName(runnerUp.chain)} tie at ${winner.score}/100`
+        : `✅ ${displayName(winner.chain)} leads ${displayName(runnerUp.chain)} by ${margin} points` +
+          (ahead.length > 0 ? ` (ahead on ${ahead.join(', ')})` : '')
+    ));
+    this.showCostNotes(costs);
+  }
+
+  /**
+   * Show which chains fit a monthly budget for the --workload
+   */
+  private async showBudgetFit(budget: number, options: any): Promise<void> {
+    const projections = await this.projectCosts(ChainRegistry.getAllChains().map(info => info.chain), options);
+
+    console.log(chalk.blue.bold(`💰 Monthly Cost vs. Budget (${formatUsd(budget)}/month)\n`));
+    console.log(chalk.gray(`   Workload: ${formatWorkload(projections[0].workload)}\n`));
+
+    for (const projection of projections) {
+      const name = ChainRegistry.getChain(projection.chain).metadata.displayName;
+      const line = `${name}: ${formatCostRange(projection.monthly)}`;
+      const live = projection.feeSource === 'adapter' ? chalk.gray(' (live fees)') : '';
+
+      if (projection.monthly.high <= budget) {
+        console.log(chalk.green(`   ✓ ${line}`) + live);
+      } else if (projection.monthly.expected <= budget) {
+        console.log(chalk.yellow(`   ⚠ ${line} - may exceed the budget`) + live);
+      } else {
+        console.log(chalk.red(`   ✗ ${line} - over budget`) + live);
+      }
+    }
+
+    const withinBudget = projections.filter(projection => projection.monthly.high <= budget);
+    console.log(withinBudget.length > 0
+      ? chalk.cyan(`\n   ${withinBudget.length} of ${projections.length} chains stay within budget even at the high estimate`)
+      : chalk.yellow('\n   No chain stays within budget at the high estimate; consider a smaller workload or a larger budget'));
+    this.showCostNotes(projections);
+    console.log();
+  }
+
+  /**
+   * Project monthly costs of the --workload (default: 10,000 transfers)
+   * Prices come from .apix/prices.json; --live takes fees from adapters
+   * connected with the credentials saved in .env
+   */
+  private async projectCosts(chains: SupportedChain[], options: any): Promise<CostProjection[]> {
+    const workload = options.workload ? parseWorkload(options.workload) : DEFAULT_WORKLOAD;
+    const adapters: Partial<Record<SupportedChain, BlockchainAdapter>> = {};
+
+    if (options.live) {
+      const spinner = ora('Connecting adapters for live fees...').start();
+      for (const chain of chains) {
+        try {
+          const credentials = await new CredentialSetup(chain, 'mainnet').loadSavedCredentials();
+          adapters[chain] = await AdapterFactory.createAdapter(chain, { chain, network: 'mainnet', credentials });
+        } catch (error: any) {
+          logger.debug(`No live fees for ${chain}`, { error: error.message });
+        }
+      }
+      spinner.stop();
+    }
+
+    const model = new CostModel({ priceFeed: new FilePriceFeed(DEFAULT_PRICE_FEED_PATH), adapters });
+    return model.projectAll(chains, workload);
+  }
+
+  /**
+   * Show the price and fee fallbacks behind cost projections (once each)
+   */
+  private showCostNotes(projections: CostProjection[]): void {
+    const notes = Array.from(new Set(projections.flatMap(projection => projection.notes)));
+    notes.forEach(note => console.log(chalk.gray(`   ℹ ${note}`)));
+  }
+
   async assessConfidence(requirement: string, options: any): Promise<void> {
     logger.info('AI-powered confidence assessment:', { requirement, options });
 
@@ -1928,8 +2094,12 @@ export class APIxCLI {
   /**
    * Create a token on Hedera blockchain (real blockchain operation)
    */
-  async createTokenOnBlockchain(options: TokenCreationOptions & { testMode?: boolean }): Promise<void> {
+  async createTokenOnBlockchain(options: TokenCreationOptions & { testMode?: boolean; localnet?: boolean }): Promise<void> {
     try {
+      if (options.localnet) {
+        hederaOperations.setNetwork('localnet');
+      }
+
       console.log(chalk.blue.bold('\n🚀 Creating Token on Hedera Blockchain\n'));
 
       // Show what we're creating
@@ -1940,7 +2110,7 @@ export class APIxCLI {
       console.log(chalk.white(`   Initial Supply: ${chalk.bold((options.initialSupply || 1000000).toLocaleString())}`));
       console.log(chalk.white(`   Network: ${chalk.bold(hederaOperations.getNetwork().toUpperCase())}`));
 
-      const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+      const hasRealCredentials = hederaOperations.hasLiveCredentials();
 
       if (!hasRealCredentials) {
         console.log(chalk.yellow('\n⚠️  Simulation Mode'));
@@ -1969,7 +2139,7 @@ export class APIxCLI {
         const result = await hederaOperations.createToken(options);
 
         if (result.success) {
-          const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+          const hasRealCredentials = hederaOperations.hasLiveCredentials();
 
           if (!hasRealCredentials) {
             spinner.succeed(chalk.green('✅ Token simulation completed!'));
@@ -10,6 +10,9 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import ora from 'ora';
 import { SupportedChain, NetworkType, ChainCredentials } from '../blockchain/core/types';
+import { EVM_CHAIN_DESCRIPTORS, isEvmChain } from '../blockchain/core/EvmChains';
+import { deriveAccount, derivePrivateKey, getHdAccountScheme, validateMnemonic } from '../blockchain/core/HdWallet';
+import { ChainPluginCredentials, ChainPlugins, credentialsFromEnv, credentialsToEnv } from '../blockchain/core/ChainPlugin';
 import { EnvManager } from '../utils/env-manager';
 import { BrowserLauncher } from '../utils/browser-launcher';
 import {
@@ -17,6 +20,7 @@ import {
   EthereumValidator,
   SolanaValidator,
   BaseValidator,
+  EvmValidator,
 } from './credential-validators';
 
 /**
@@ -40,6 +44,38 @@ export interface ChainPortalInfo {
   optionalEnvVars?: string[];
 }
 
+/**
+ * Portal information for descriptor-driven EVM chains
+ * Env vars are prefixed with the chain name (e.g. POLYGON_PRIVATE_KEY)
+ */
+function evmPortal(chain: SupportedChain): ChainPortalInfo {
+  const displayName = EVM_CHAIN_DESCRIPTORS[chain]?.displayName || chain;
+  const prefix = envPrefix(chain);
+  return {
+    name: `${displayName} (via Infura/Alchemy)`,
+    url: 'https://app.infura.io',
+    description: `Get an API key for ${displayName} RPC access (EVM-compatible)`,
+    requiredEnvVars: [`${prefix}_PRIVATE_KEY`],
+    optionalEnvVars: [`${prefix}_RPC_URL`],
+  };
+}
+
+/**
+ * Env var prefix of a chain (e.g. POLYGON, ACME_LEDGER)
+ */
+function envPrefix(chain: SupportedChain): string {
+  return chain.toUpperCase().replace(/-/g, '_');
+}
+
+/**
+ * customConfig for an *_RPC_URL env var
+ * A comma-separated list enables failover between the endpoints
+ */
+function rpcCustomConfig(value: string): Record<string, any> {
+  const rpcUrls = value.split(',').map(url => url.trim()).filter(Boolean);
+  return rpcUrls.length > 1 ? { rpcUrl: rpcUrls[0], rpcUrls } : { rpcUrl: rpcUrls[0] };
+}
+
 /**
  * Portal information for each supported chain
  */
@@ -70,8 +106,37 @@ const CHAIN_PORTALS: Record<SupportedChain, ChainPortalInfo> = {
     requiredEnvVars: ['BASE_PRIVATE_KEY'],
     optionalEnvVars: ['INFURA_API_KEY', 'ALCHEMY_API_KEY', 'BASE_RPC_URL'],
   },
+  polygon: evmPortal('polygon'),
+  arbitrum: evmPortal('arbitrum'),
+  optimism: evmPortal('optimism'),
+  avalanche: evmPortal('avalanche'),
 };
 
+/**
+ * Portal information for a chain, including chains added by plugins
+ * Plugins describe their env vars; EVM plugins without them use the EVM portal
+ */
+function getPortal(chain: SupportedChain): ChainPortalInfo {
+  if (CHAIN_PORTALS[chain]) {
+    return CHAIN_PORTALS[chain];
+  }
+
+  const spec = ChainPlugins.get(chain)?.credentials;
+  if (spec) {
+    return {
+      name: spec.name,
+      url: spec.url,
+      description: spec.description,
+      requiredEnvVars: spec.env.filter(variable => variable.required).map(variable => variable.name),
+      optionalEnvVars: spec.env.filter(variable => !variable.required).map(variable => variable.name),
+    };
+  }
+  if (isEvmChain(chain)) {
+    return evmPortal(chain);
+  }
+  return { name: chain, url: '', description: `${chain} needs no credentials`, requiredEnvVars: [] };
+}
+
 /**
  * Credential Setup Wizard Class
  */
@@ -90,7 +155,7 @@ export class CredentialSetup {
    * Run the credential setup wizard
    */
   async runSetup(): Promise<CredentialSetupResult> {
-    const portal = CHAIN_PORTALS[this.chain];
+    const portal = getPortal(this.chain);
 
     console.log();
     console.log(chalk.cyan.bold(`🔐 Credential Setup for ${this.chain.charAt(0).toUpperCase() + this.chain.slice(1)}`));
@@ -197,6 +262,13 @@ export class CredentialSetup {
     return { success: false, skipped: false, error: 'Maximum retry attempts reached' };
   }
 
+  /**
+   * Load credentials already saved in .env (no prompts)
+   */
+  async loadSavedCredentials(): Promise<ChainCredentials> {
+    return (await this.checkExistingCredentials()).credentials;
+  }
+
   /**
    * Check for existing credentials in .env
    */
@@ -206,7 +278,7 @@ export class CredentialSetup {
     missing: string[];
     credentials: ChainCredentials;
   }> {
-    const portal = CHAIN_PORTALS[this.chain];
+    const portal = getPortal(this.chain);
     const result = await this.envManager.checkKeys(portal.requiredEnvVars);
 
     // Build credentials object from found values
@@ -214,6 +286,7 @@ export class CredentialSetup {
     const env = await this.envManager.load();
 
     // Map env vars to credential fields
+    const spec = ChainPlugins.get(this.chain)?.credentials;
     switch (this.chain) {
       case 'hedera':
         credentials.accountId = env.HEDERA_ACCOUNT_ID;
@@ -224,7 +297,7 @@ export class CredentialSetup {
         credentials.infuraKey = env.INFURA_API_KEY;
         credentials.alchemyKey = env.ALCHEMY_API_KEY;
         if (env.ETH_RPC_URL) {
-          credentials.customConfig = { rpcUrl: env.ETH_RPC_URL };
+          credentials.customConfig = rpcCustomConfig(env.ETH_RPC_URL);
         }
         break;
       case 'solana':
@@ -235,15 +308,41 @@ export class CredentialSetup {
         credentials.infuraKey = env.INFURA_API_KEY;
         credentials.alchemyKey = env.ALCHEMY_API_KEY;
         if (env.BASE_RPC_URL) {
-          credentials.customConfig = { rpcUrl: env.BASE_RPC_URL };
+          credentials.customConfig = rpcCustomConfig(env.BASE_RPC_URL);
+        }
+        break;
+      default:
+        if (spec) {
+          Object.assign(credentials, credentialsFromEnv(spec, env));
+        } else if (isEvmChain(this.chain)) {
+          const prefix = envPrefix(this.chain);
+          credentials.privateKeyEVM = env[`${prefix}_PRIVATE_KEY`];
+          if (env[`${prefix}_RPC_URL`]) {
+            credentials.customConfig = rpcCustomConfig(env[`${prefix}_RPC_URL`]);
+          }
         }
         break;
     }
 
+    // One seed phrase covers every chain's private key
+    if (env.MNEMONIC && this.supportsMnemonic()) {
+      credentials.mnemonic = env.MNEMONIC;
+      credentials.mnemonicPassphrase = env.MNEMONIC_PASSPHRASE;
+      if (env.MNEMONIC_ACCOUNT_INDEX) {
+        credentials.accountIndex = parseInt(env.MNEMONIC_ACCOUNT_INDEX, 10);
+      }
+      if (this.chain === 'hedera' && env.HEDERA_KEY_TYPE) {
+        credentials.keyType = env.HEDERA_KEY_TYPE === 'ECDSA' ? 'ECDSA' : 'ED25519';
+      }
+    }
+    const missing = credentials.mnemonic
+      ? result.missing.filter(key => !key.endsWith('_PRIVATE_KEY'))
+      : result.missing;
+
     return {
-      hasAll: result.hasAll,
-      hasSome: result.hasSome,
-      missing: result.missing,
+      hasAll: missing.length === 0,
+      hasSome: result.hasSome || !!credentials.mnemonic,
+      missing,
       credentials,
     };
   }
@@ -252,24 +351,133 @@ export class CredentialSetup {
    * Run chain-specific setup wizard
    */
   private async runChainSpecificSetup(): Promise<ChainCredentials> {
+    const seed = this.supportsMnemonic() ? await this.setupMnemonic() : undefined;
+    const collectKey = !seed;
+    const spec = ChainPlugins.get(this.chain)?.credentials;
+
     switch (this.chain) {
       case 'hedera':
-        return this.setupHedera();
+        return { ...await this.setupHedera(collectKey), ...seed };
       case 'ethereum':
-        return this.setupEthereum();
+        return { ...await this.setupEthereum(collectKey), ...seed };
       case 'solana':
-        return this.setupSolana();
+        return { ...await this.setupSolana(collectKey), ...seed };
       case 'base':
-        return this.setupBase();
+        return { ...await this.setupBase(collectKey), ...seed };
       default:
+        if (spec) {
+          return { ...await this.setupPlugin(spec, collectKey), ...seed };
+        }
+        if (isEvmChain(this.chain)) {
+          return { ...await this.setupEvm(collectKey), ...seed };
+        }
+        if (ChainPlugins.get(this.chain)) {
+          return {};
+        }
         throw new Error(`Unsupported chain: ${this.chain}`);
     }
   }
 
+  /**
+   * Whether this chain's key can be derived from a seed phrase
+   * (plugin chains other than EVM ones have no derivation scheme)
+   */
+  private supportsMnemonic(): boolean {
+    return this.chain === 'hedera' || this.chain === 'solana' || isEvmChain(this.chain);
+  }
+
+  /**
+   * Seed phrase setup: reuse the saved mnemonic or import one.
+   * Returns undefined when the user prefers a raw private key for this chain.
+   */
+  private async setupMnemonic(): Promise<ChainCredentials | undefined> {
+    const env = await this.envManager.load();
+    let mnemonic: string | undefined;
+
+    if (env.MNEMONIC) {
+      const { useSaved } = await inquirer.prompt([{
+        type: 'confirm',
+        name: 'useSaved',
+        message: chalk.cyan('Derive this account from the seed phrase saved in .env (MNEMONIC)?'),
+        default: true,
+      }]);
+      if (!useSaved) {
+        return undefined;
+      }
+      mnemonic = env.MNEMONIC;
+    } else {
+      const { source } = await inquirer.prompt([{
+        type: 'list',
+        name: 'source',
+        message: chalk.cyan('How would you like to provide your key?'),
+        choices: [
+          { name: '🔑 Private key for this chain', value: 'key' },
+          { name: '🌱 Seed phrase (one mnemonic for all chains)', value: 'mnemonic' },
+        ],
+      }]);
+      if (source === 'key') {
+        return undefined;
+      }
+
+      console.log(chalk.yellow('   ⚠️  Never share this! APIX stores it locally in .env only.'));
+      const answers = await inquirer.prompt([{
+        type: 'password',
+        name: 'mnemonic',
+        message: chalk.cyan('Seed phrase (12-24 words):'),
+        mask: '*',
+        validate: async (input: string) =>
+          await validateMnemonic(input) || 'Invalid seed phrase (unknown word or bad checksum)',
+      }]);
+      mnemonic = answers.mnemonic.trim().split(/\s+/).join(' ');
+    }
+
+    const { accountIndex } = await inquirer.prompt([{
+      type: 'input',
+      name: 'accountIndex',
+      message: chalk.cyan('Account index:'),
+      default: env.MNEMONIC_ACCOUNT_INDEX || '0',
+      validate: (input: string) => /^\d+$/.test(input) || 'Enter a non-negative integer',
+    }]);
+
+    const credentials: ChainCredentials = {
+      mnemonic,
+      mnemonicPassphrase: env.MNEMONIC_PASSPHRASE,
+      accountIndex: parseInt(accountIndex, 10),
+    };
+
+    if (this.chain === 'hedera') {
+      const { keyType } = await inquirer.prompt([{
+        type: 'list',
+        name: 'keyType',
+        message: chalk.cyan('Hedera key type:'),
+        choices: [
+          { name: 'ED25519 (HashPack, Hedera Portal)', value: 'ED25519' },
+          { name: 'ECDSA secp256k1 (EVM-compatible)', value: 'ECDSA' },
+        ],
+        default: env.HEDERA_KEY_TYPE || 'ED25519',
+      }]);
+      credentials.keyType = keyType;
+    }
+
+    const account = await deriveAccount(mnemonic!, getHdAccountScheme(this.chain, credentials.keyType), {
+      index: credentials.accountIndex,
+      passphrase: credentials.mnemonicPassphrase,
+    });
+    console.log();
+    console.log(chalk.white.bold('   Derived account:'));
+    console.log(chalk.cyan(`   ${account.address || account.publicKey}`));
+    console.log(chalk.gray(`   Path: ${account.path}`));
+    console.log();
+
+    return credentials;
+  }
+
   /**
    * Hedera credential setup
+   *
+   * @param collectKey - Prompt for the private key (false when derived from a mnemonic)
    */
-  private async setupHedera(): Promise<ChainCredentials> {
+  private async setupHedera(collectKey: boolean = true): Promise<ChainCredentials> {
     const portal = CHAIN_PORTALS.hedera;
 
     console.log(chalk.white.bold(`\n📋 ${portal.name} Setup`));
@@ -315,6 +523,10 @@ export class CredentialSetup {
       },
     }]);
 
+    if (!collectKey) {
+      return { accountId };
+    }
+
     // Collect Private Key
     const { privateKey } = await inquirer.prompt([{
       type: 'password',
@@ -334,8 +546,10 @@ export class CredentialSetup {
 
   /**
    * Ethereum credential setup
+   *
+   * @param collectKey - Prompt for the private key (false when derived from a mnemonic)
    */
-  private async setupEthereum(): Promise<ChainCredentials> {
+  private async setupEthereum(collectKey: boolean = true): Promise<ChainCredentials> {
     const portal = CHAIN_PORTALS.ethereum;
 
     console.log(chalk.white.bold(`\n📋 ${portal.name} Setup`));
@@ -422,6 +636,10 @@ export class CredentialSetup {
       credentials.customConfig = { rpcUrl };
     }
 
+    if (!collectKey) {
+      return credentials;
+    }
+
     // Collect Private Key
     console.log();
     console.log(chalk.gray('   Now enter your Ethereum wallet private key.'));
@@ -447,8 +665,14 @@ export class CredentialSetup {
 
   /**
    * Solana credential setup
+   *
+   * @param collectKey - Prompt for the keypair (false when derived from a mnemonic)
    */
-  private async setupSolana(): Promise<ChainCredentials> {
+  private async setupSolana(collectKey: boolean = true): Promise<ChainCredentials> {
+    if (!collectKey) {
+      return {};
+    }
+
     console.log(chalk.white.bold('\n📋 Solana Keypair Setup'));
     console.log();
 
@@ -538,17 +762,70 @@ export class CredentialSetup {
   /**
    * Base credential setup (reuses Ethereum flow with Base-specific messaging)
    */
-  private async setupBase(): Promise<ChainCredentials> {
+  private async setupBase(collectKey: boolean = true): Promise<ChainCredentials> {
     console.log(chalk.white.bold('\n📋 Base (L2) Setup'));
     console.log(chalk.gray('   Base is EVM-compatible - uses the same credentials as Ethereum.'));
     console.log();
 
     // Reuse Ethereum setup
-    const credentials = await this.setupEthereum();
+    const credentials = await this.setupEthereum(collectKey);
 
     return credentials;
   }
 
+  /**
+   * Generic EVM chain setup (Polygon, Arbitrum, ...) - same flow as Base
+   */
+  private async setupEvm(collectKey: boolean = true): Promise<ChainCredentials> {
+    const displayName = EVM_CHAIN_DESCRIPTORS[this.chain]?.displayName || this.chain;
+
+    console.log(chalk.white.bold(`\n📋 ${displayName} Setup`));
+    console.log(chalk.gray(`   ${displayName} is EVM-compatible - uses the same credentials as Ethereum.`));
+    console.log();
+
+    // Reuse Ethereum setup
+    const credentials = await this.setupEthereum(collectKey);
+
+    return credentials;
+  }
+
+  /**
+   * Plugin chain setup: prompts for the env vars the plugin declares
+   *
+   * @param collectKey - Prompt for the EVM private key (false when derived from a mnemonic)
+   */
+  private async setupPlugin(spec: ChainPluginCredentials, collectKey: boolean = true): Promise<ChainCredentials> {
+    console.log(chalk.white.bold(`\n📋 ${spec.name} Setup`));
+    console.log(chalk.gray(`   ${spec.description}`));
+    if (spec.url) {
+      console.log(chalk.gray(`   ${spec.url}`));
+    }
+    console.log();
+
+    const values: Record<string, string> = {};
+    for (const variable of spec.env) {
+      if (!collectKey && variable.field === 'privateKeyEVM') {
+        continue;
+      }
+
+      const { value } = await inquirer.prompt([{
+        type: variable.secret ? 'password' : 'input',
+        name: 'value',
+        message: chalk.cyan(`${variable.description || variable.name}${variable.required ? '' : ' (optional)'}:`),
+        mask: '*',
+        validate: (input: string) => {
+          if (variable.required && !input.trim()) {
+            return `${variable.name} is required`;
+          }
+          return true;
+        },
+      }]);
+      values[variable.name] = value.trim();
+    }
+
+    return credentialsFromEnv(spec, values);
+  }
+
   /**
    * Validate credentials against the blockchain
    */
@@ -557,6 +834,13 @@ export class CredentialSetup {
     error?: string;
     accountInfo?: Record<string, string>;
   }> {
+    // Validators check the derived key like any configured one
+    try {
+      credentials = await this.withDerivedKey(credentials);
+    } catch (error: any) {
+      return { valid: false, error: error.message };
+    }
+
     switch (this.chain) {
       case 'hedera':
         return HederaValidator.validate(credentials, this.network);
@@ -566,8 +850,39 @@ export class CredentialSetup {
         return SolanaValidator.validate(credentials, this.network);
       case 'base':
         return BaseValidator.validate(credentials, this.network);
-      default:
+      default: {
+        const plugin = ChainPlugins.get(this.chain);
+        if (plugin?.credentials?.validate) {
+          return plugin.credentials.validate(credentials, this.network);
+        }
+        const descriptor = EVM_CHAIN_DESCRIPTORS[this.chain];
+        if (descriptor) {
+          return EvmValidator.validate(credentials, this.network, descriptor);
+        }
+        if (plugin) {
+          return { valid: true };
+        }
         return { valid: false, error: `Unsupported chain: ${this.chain}` };
+      }
+    }
+  }
+
+  /**
+   * Fill in the chain's private key from credentials.mnemonic, if one is set
+   */
+  private async withDerivedKey(credentials: ChainCredentials): Promise<ChainCredentials> {
+    const derivedKey = await derivePrivateKey(this.chain, credentials);
+    if (!derivedKey) {
+      return credentials;
+    }
+
+    switch (this.chain) {
+      case 'hedera':
+        return { ...credentials, privateKey: credentials.privateKey || derivedKey };
+      case 'solana':
+        return { ...credentials, privateKeySolana: credentials.privateKeySolana || derivedKey };
+      default:
+        return { ...credentials, privateKeyEVM: credentials.privateKeyEVM || derivedKey };
     }
   }
 
@@ -577,10 +892,16 @@ export class CredentialSetup {
   private async saveCredentials(credentials: ChainCredentials): Promise<void> {
     const updates: Record<string, string> = {};
 
+    // Shared by all chains
+    if (credentials.mnemonic) updates.MNEMONIC = credentials.mnemonic;
+    if (credentials.accountIndex !== undefined) updates.MNEMONIC_ACCOUNT_INDEX = String(credentials.accountIndex);
+
+    const spec = ChainPlugins.get(this.chain)?.credentials;
     switch (this.chain) {
       case 'hedera':
         if (credentials.accountId) updates.HEDERA_ACCOUNT_ID = credentials.accountId;
         if (credentials.privateKey) updates.HEDERA_PRIVATE_KEY = credentials.privateKey;
+        if (credentials.keyType) updates.HEDERA_KEY_TYPE = credentials.keyType;
         break;
 
       case 'ethereum':
@@ -600,6 +921,16 @@ export class CredentialSetup {
         if (credentials.alchemyKey) updates.ALCHEMY_API_KEY = credentials.alchemyKey;
         if (credentials.customConfig?.rpcUrl) updates.BASE_RPC_URL = credentials.customConfig.rpcUrl;
         break;
+
+      default:
+        if (spec) {
+          Object.assign(updates, credentialsToEnv(spec, credentials));
+        } else if (isEvmChain(this.chain)) {
+          const prefix = envPrefix(this.chain);
+          if (credentials.privateKeyEVM) updates[`${prefix}_PRIVATE_KEY`] = credentials.privateKeyEVM;
+          if (credentials.customConfig?.rpcUrl) updates[`${prefix}_RPC_URL`] = credentials.customConfig.rpcUrl;
+        }
+        break;
     }
 
     await this.envManager.update(updates);
@@ -0,0 +1,89 @@
+/**
+ * EVM Credential Validator
+ *
+ * Validates credentials for descriptor-driven EVM chains
+ * (Polygon, Arbitrum, Optimism, Avalanche C-Chain, ...).
+ * RPC endpoints and the native currency come from the chain's EvmChainDescriptor.
+ */
+
+import { ChainCredentials, NetworkType } from '../../blockchain/core/types';
+import { EvmChainDescriptor, getEvmNetworkKey } from '../../blockchain/core/EvmChains';
+
+export class EvmValidator {
+  /**
+   * Get the RPC URL for the chain
+   */
+  private static getRpcUrl(
+    credentials: ChainCredentials,
+    network: NetworkType,
+    descriptor: EvmChainDescriptor
+  ): string {
+    // Check for custom RPC URL first
+    if (credentials.customConfig?.rpcUrl) {
+      return credentials.customConfig.rpcUrl;
+    }
+
+    // Fall back to the descriptor's public RPC
+    return descriptor.rpcUrls[getEvmNetworkKey(network)][0];
+  }
+
+  /**
+   * Validate EVM credentials by making a test API call
+   * @param credentials - The credentials to validate
+   * @param network - The network to validate against
+   * @param descriptor - Descriptor of the chain being validated
+   * @returns Validation result with account info or error
+   */
+  static async validate(
+    credentials: ChainCredentials,
+    network: NetworkType,
+    descriptor: EvmChainDescriptor
+  ): Promise<{ valid: boolean; error?: string; accountInfo?: { address: string; balance: string } }> {
+    if (!credentials.privateKeyEVM) {
+      return { valid: false, error: 'Missing private key (privateKeyEVM)' };
+    }
+
+    const rpcUrl = this.getRpcUrl(credentials, network, descriptor);
+
+    try {
+      // Dynamic import to avoid loading ethers if not needed
+      const { ethers } = await import('ethers');
+
+      // Create provider
+      const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+      // Normalize private key (add 0x prefix if missing)
+      let privateKey = credentials.privateKeyEVM;
+      if (!privateKey.startsWith('0x')) {
+        privateKey = `0x${privateKey}`;
+      }
+
+      // Create wallet
+      const wallet = new ethers.Wallet(privateKey, provider);
+
+      // Test with balance query
+      const balance = await provider.getBalance(wallet.address);
+
+      return {
+        valid: true,
+        accountInfo: {
+          address: wallet.address,
+          balance: `${ethers.formatEther(balance)} ${descriptor.nativeCurrency.symbol}`,
+        },
+      };
+    } catch (error: any) {
+      let errorMessage = error.message || 'Unknown error';
+
+      // Provide more helpful error messages
+      if (errorMessage.includes('invalid private key')) {
+        errorMessage = 'Invalid private key format';
+      } else if (errorMessage.includes('could not detect network')) {
+        errorMessage = `Could not connect to ${descriptor.displayName} RPC - check your configuration`;
+      } else if (errorMessage.includes('bad response')) {
+        errorMessage = 'Invalid response from RPC provider - API key may be invalid';
+      }
+
+      return { valid: false, error: errorMessage };
+    }
+  }
+}
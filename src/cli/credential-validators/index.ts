@@ -8,3 +8,4 @@ export { HederaValidator } from './hedera-validator';
 export { EthereumValidator } from './ethereum-validator';
 export { SolanaValidator } from './solana-validator';
 export { BaseValidator } from './base-validator';
+export { EvmValidator } from './evm-validator';
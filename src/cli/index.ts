@@ -54,10 +54,25 @@ dotenv.config();
 
 import { program } from 'commander';
 import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
 import { APIxCLI } from './cli-core';
+import { LOCALNET_PROFILES, LocalnetFamily, getLocalnetFamily } from '../blockchain/core/Localnet';
+import { SupportedChain } from '../blockchain/core/types';
+import { HdAccountScheme, deriveAccounts, getHdAccountScheme } from '../blockchain/core/HdWallet';
+import { LocalKeySigner, encryptKeystore } from '../blockchain/core/Signer';
+import { startRemoteSignerServer } from '../blockchain/core/RemoteSignerServer';
+import { ChainMigrator } from '../blockchain/core/ChainMigration';
+import { CapabilityMetric, CapabilityQuery, formatMetric } from '../blockchain/core/CapabilityQuery';
+import { ChainRegistry } from '../blockchain/core/ChainRegistry';
+import { LocalnetManager } from '../utils/localnet-manager';
+import { ChainOperations, createLocalSigner, promptKeystorePassword } from './chain-operations';
+import { ContractCodegen, DEFAULT_ADAPTER_IMPORT } from '../generation/contract-codegen';
+import { FileGenerator } from '../generation/file-generator';
 import { logger, LogLevel } from '../utils/logger';
 import { debugLogger, LogLevel as DebugLogLevel } from '../utils/debug-logger';
 import { formatter, createFormatter } from '../utils/output-formatter';
+import { ConfigurationManager } from '../utils/config-manager';
 
 const packageJson = require('../../package.json');
 let cli: APIxCLI;
@@ -214,6 +229,8 @@ program
   .option('-p, --provider <provider>', 'Wallet provider')
   .option('-t, --type <type>', 'Contract type')
   .option('-f, --force', 'Force overwrite existing files')
+  .option('--chain <chain>', 'Chain the integration targets (default: hedera; templates exist for Hedera only)')
+  .option('--require <query>', 'Extra capabilities the chain must have (e.g. "multisig,finality<5s")')
   .action(async (integration, options) => {
     const globalOptions = program.opts();
     const allOptions = { ...options, ...globalOptions };
@@ -401,6 +418,7 @@ program
   .option('--chain <chain>', 'Target blockchain (hedera, ethereum, solana, base)')
   .option('--testnet', 'Use testnet for validation')
   .option('--mainnet', 'Use mainnet for validation (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
   .option('--enterprise', 'Run enterprise-grade compliance validation')
   .option('--compliance <frameworks...>', 'Test specific compliance frameworks')
   .option('--performance', 'Include performance testing')
@@ -424,7 +442,9 @@ program
   .option('--industry <industry>', 'Industry context')
   .option('--current-systems <systems...>', 'Existing systems to integrate')
   .option('--regulations <regulations...>', 'Regulatory requirements')
-  .option('--budget <budget>', 'Budget constraints')
+  .option('--budget <budget>', 'Monthly budget in USD (e.g. 500, $5k) - projects each chain\'s cost')
+  .option('--workload <operations...>', 'Transactions per month for cost projections (e.g. transfer=100000 mint=500)')
+  .option('--live', 'Use live fees from adapters connected with saved credentials')
   .option('--timeline <timeline>', 'Implementation timeline')
   .option('--interactive', 'Interactive recommendation wizard')
   .action(async (options) => {
@@ -466,7 +486,10 @@ program
   .argument('<approaches>', 'Approaches to compare (e.g., "HCS vs smart contracts for audit trails")')
   .option('--use-case <usecase>', 'Specific use case context')
   .option('--industry <industry>', 'Industry context')
-  .option('--criteria <criteria...>', 'Comparison criteria (cost, performance, compliance, etc.)')
+  .option('--criteria <criteria...>', 'Comparison criteria (chains: useCase, cost, finality, compliance, ecosystem, expertise)')
+  .option('--profile <file>', 'Ranking profile JSON for chain comparisons')
+  .option('--workload <operations...>', 'Transactions per month for the cost criterion (e.g. transfer=100000 mint=500)')
+  .option('--live', 'Use live fees from adapters connected with saved credentials')
   .action(async (approaches, options) => {
     try {
       await ensureCliInitialized();
@@ -524,10 +547,31 @@ program
   .option('--rollback-plan', 'Generate rollback procedures')
   .option('--monitoring', 'Set up monitoring and alerts')
   .option('--dry-run', 'Simulate deployment without executing')
+  .option('--contract <artifact>', 'Deploy a contract artifact (JSON with abi/bytecode, or a Solana .so program) through the chain adapter')
+  .option('--args <json>', 'Constructor arguments as a JSON array (with --contract)')
+  .option('--program-id <address>', 'Upgrade this Solana program instead of deploying a new one (with --contract)')
+  .option('--chain <chain>', 'Target blockchain for --contract (hedera, ethereum, solana, base)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--simulate', 'Preview the deployment (success, fees, balance changes) without sending it')
+  .option('--signer <spec>', 'Sign with remote:<url> or keystore:<path> instead of local keys (default: APIX_SIGNER)')
   .action(async (options) => {
     try {
       await ensureCliInitialized();
-      await cli.enterpriseDeployment(options);
+      if (options.contract) {
+        await new ChainOperations().deployContract({
+          contract: options.contract,
+          args: options.args,
+          programId: options.programId,
+          chain: options.chain,
+          mainnet: options.mainnet,
+          localnet: options.localnet,
+          simulate: options.simulate,
+          signer: options.signer
+        });
+      } else {
+        await cli.enterpriseDeployment(options);
+      }
       process.exit(0);
     } catch (error) {
       logger.error('Enterprise deployment failed:', error);
@@ -549,6 +593,11 @@ program
   .option('--chain <chain>', 'Target blockchain (hedera, ethereum, solana, base)', 'hedera')
   .option('--testnet', 'Use testnet (default)')
   .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--record <dir>', 'Record RPC traffic to fixture files in <dir>')
+  .option('--replay <dir>', 'Replay RPC traffic from fixture files in <dir> (offline)')
+  .option('--simulate', 'Preview the transaction (success, fees, balance changes) without sending it')
+  .option('--signer <spec>', 'Sign with remote:<url> or keystore:<path> instead of local keys (default: APIX_SIGNER)')
   .action(async (options) => {
     const globalOptions = program.opts();
     const allOptions = { ...options, ...globalOptions };
@@ -571,9 +620,18 @@ program
         wipeKey: options.wipeKey
       };
 
-      const result = await cli.createTokenOnBlockchain(tokenOptions);
+      // Other chains, local nodes, record/replay, simulation and external signers
+      // run through the multi-chain adapters
+      const signer = options.signer || process.env.APIX_SIGNER;
+      const useAdapters = options.chain !== 'hedera' || options.localnet
+        || options.record || options.replay || options.simulate || signer;
+      const result = useAdapters
+        ? await new ChainOperations().createToken({ ...tokenOptions, chain: options.chain, mainnet: options.mainnet, localnet: options.localnet, record: options.record, replay: options.replay, simulate: options.simulate, signer })
+        : await cli.createTokenOnBlockchain(tokenOptions);
       debugLogger.endCommand(true, result);
-      debugLogger.success(`Token '${options.name}' created successfully`);
+      debugLogger.success(options.simulate
+        ? `Token '${options.name}' simulated successfully`
+        : `Token '${options.name}' created successfully`);
       process.exit(0);
     } catch (error: any) {
       debugLogger.endCommand(false);
@@ -587,6 +645,109 @@ program
     }
   });
 
+program
+  .command('transfer-token')
+  .description('Transfer tokens from your account (live blockchain operation)')
+  .requiredOption('--token <token>', 'Token ID or contract address')
+  .requiredOption('--to <address>', 'Recipient account or address')
+  .requiredOption('--amount <amount>', 'Amount in the token\'s smallest unit')
+  .option('--chain <chain>', 'Target blockchain (hedera, ethereum, solana, base, ...)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--record <dir>', 'Record RPC traffic to fixture files in <dir>')
+  .option('--replay <dir>', 'Replay RPC traffic from fixture files in <dir> (offline)')
+  .option('--signer <spec>', 'Sign with remote:<url> or keystore:<path> instead of local keys (default: APIX_SIGNER)')
+  .action(async (options) => {
+    try {
+      await new ChainOperations().transferToken(options);
+      process.exit(0);
+    } catch (error: any) {
+      logger.error('Token transfer failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('tx-status <txId>')
+  .description('Show the status of a transaction')
+  .option('--chain <chain>', 'Target blockchain (hedera, ethereum, solana, base, ...)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--record <dir>', 'Record RPC traffic to fixture files in <dir>')
+  .option('--replay <dir>', 'Replay RPC traffic from fixture files in <dir> (offline)')
+  .action(async (txId, options) => {
+    try {
+      await new ChainOperations().getTransactionStatus(txId, options);
+      process.exit(0);
+    } catch (error: any) {
+      logger.error('Transaction status lookup failed:', error);
+      process.exit(1);
+    }
+  });
+
+const txCommand = program
+  .command('tx')
+  .description('Offline signing: build online, sign on an air-gapped machine, broadcast online');
+
+txCommand
+  .command('build')
+  .description('Build an unsigned transaction file (native transfer, or a contract call with --data)')
+  .requiredOption('--to <address>', 'Recipient account, address or contract')
+  .requiredOption('-o, --out <file>', 'File to write')
+  .option('--value <amount>', 'Amount in the smallest native unit (wei, lamports, tinybars)')
+  .option('--data <hex>', 'Call data (EVM and Hedera contract calls)')
+  .option('--from <address>', 'Sender (default: the configured account)')
+  .option('--public-key <hex>', 'Public key of the offline signer, when this machine holds no private key')
+  .option('--nonce <n>', 'EVM nonce (default: next pending nonce)')
+  .option('--gas <limit>', 'Gas limit')
+  .option('--gas-price <wei>', 'Legacy gas price (default: EIP-1559 fees)')
+  .option('--valid-start <iso>', 'Hedera: time the transaction becomes valid (it expires 120s later)')
+  .option('--nonce-account <address>', 'Solana: durable nonce account, so the transaction does not expire')
+  .option('--chain <chain>', 'Target blockchain (hedera, ethereum, solana, base, ...)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--signer <spec>', 'Build for remote:<url>, keystore:<path> or public-key:<hex> (default: APIX_SIGNER)')
+  .action(async (options) => {
+    try {
+      await new ChainOperations().buildTransaction(options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to build transaction:'), error.message);
+      process.exit(1);
+    }
+  });
+
+txCommand
+  .command('sign <file>')
+  .description('Review and sign a transaction file (no network needed)')
+  .option('--keystore <path>', 'Keystore file to sign with')
+  .option('--key-env <var>', 'Sign with the private key in this environment variable')
+  .option('--key-type <type>', 'Key type for raw hex keys: secp256k1 or ed25519', 'secp256k1')
+  .option('-o, --out <file>', 'Write the signed file here instead of overwriting <file>')
+  .option('-y, --yes', 'Sign without the confirmation prompt')
+  .action(async (file, options) => {
+    try {
+      await new ChainOperations().signTransaction(file, options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to sign transaction:'), error.message);
+      process.exit(1);
+    }
+  });
+
+txCommand
+  .command('broadcast <file>')
+  .description('Broadcast a signed transaction file to the network it was built for')
+  .action(async (file, options) => {
+    try {
+      await new ChainOperations().broadcastTransaction(file, options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to broadcast transaction:'), error.message);
+      process.exit(1);
+    }
+  });
+
 // =============================================================================
 // DEBUG DASHBOARD COMMANDS
 // =============================================================================
@@ -756,6 +917,506 @@ program
     }
   });
 
+// =============================================================================
+// ACCOUNT COMMANDS
+// =============================================================================
+
+const HD_SCHEME_LABELS: Record<HdAccountScheme, string> = {
+  'evm': 'EVM (Ethereum, Base, Polygon, Arbitrum, Optimism, Avalanche)',
+  'solana': 'Solana',
+  'hedera-ed25519': 'Hedera (ED25519)',
+  'hedera-ecdsa': 'Hedera (ECDSA)',
+};
+
+/**
+ * Resolve `apix accounts list` chain arguments to derivation schemes.
+ * No argument means one scheme per chain family.
+ */
+function resolveHdSchemes(chain: string | undefined, keyType: 'ED25519' | 'ECDSA'): HdAccountScheme[] {
+  if (!chain) {
+    return ['evm', 'solana', getHdAccountScheme('hedera', keyType)];
+  }
+  if (chain === 'evm') {
+    return ['evm'];
+  }
+  return [getHdAccountScheme(chain as SupportedChain, keyType)];
+}
+
+const accounts = program
+  .command('accounts')
+  .description('Accounts derived from your seed phrase (MNEMONIC in .env)');
+
+accounts
+  .command('list [chain]')
+  .description('List HD wallet accounts (chain: evm, ethereum, solana, hedera, ... - default: all)')
+  .option('-d, --derive <count>', 'Number of accounts to derive per chain', '1')
+  .option('-i, --index <index>', 'First account index', process.env.MNEMONIC_ACCOUNT_INDEX || '0')
+  .option('--key-type <type>', 'Hedera key type: ED25519 or ECDSA', process.env.HEDERA_KEY_TYPE || 'ED25519')
+  .action(async (chain, options) => {
+    try {
+      const mnemonic = process.env.MNEMONIC;
+      if (!mnemonic) {
+        throw new Error('No seed phrase configured. Set MNEMONIC in .env, or import one during credential setup');
+      }
+
+      const keyType = options.keyType.toUpperCase() === 'ECDSA' ? 'ECDSA' : 'ED25519';
+      const count = parseInt(options.derive, 10);
+      const index = parseInt(options.index, 10);
+      if (!(count > 0) || !(index >= 0)) {
+        throw new Error('--derive must be a positive number and --index a non-negative one');
+      }
+
+      for (const scheme of resolveHdSchemes(chain, keyType)) {
+        const derived = await deriveAccounts(mnemonic, scheme, count, {
+          index,
+          passphrase: process.env.MNEMONIC_PASSPHRASE,
+        });
+
+        console.log(chalk.cyan.bold(`\n🔑 ${HD_SCHEME_LABELS[scheme]}`));
+        for (const account of derived) {
+          const address = account.address || chalk.gray('public key ') + account.publicKey;
+          console.log(`  ${chalk.white(`#${account.index}`.padEnd(4))} ${address}  ${chalk.gray(account.path)}`);
+        }
+        if (scheme === 'hedera-ed25519') {
+          console.log(chalk.gray('   Hedera assigns account IDs on creation - set HEDERA_ACCOUNT_ID for the account that holds this key'));
+        }
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to list accounts:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// SIGNER COMMANDS
+// =============================================================================
+
+const signerCommand = program
+  .command('signer')
+  .description('Keystores and a local remote-signer stand-in (use with --signer)');
+
+signerCommand
+  .command('keystore <out>')
+  .description('Encrypt a private key into a keystore file (use with --signer keystore:<out>)')
+  .option('--key-env <var>', 'Read the private key from this environment variable instead of a prompt')
+  .option('--key-type <type>', 'Key type for raw hex keys: secp256k1 or ed25519', 'secp256k1')
+  .action(async (out, options) => {
+    try {
+      if (fs.existsSync(out)) {
+        throw new Error(`${out} already exists`);
+      }
+
+      const privateKey = options.keyEnv
+        ? process.env[options.keyEnv]
+        : (await inquirer.prompt([{ type: 'password', name: 'key', message: chalk.cyan('Private key:'), mask: '*' }])).key;
+      if (!privateKey) {
+        throw new Error(`No private key${options.keyEnv ? ` in ${options.keyEnv}` : ''}`);
+      }
+
+      const password = await promptKeystorePassword('New keystore password:');
+      const keystore = await encryptKeystore(privateKey, password, { keyType: options.keyType });
+      fs.writeFileSync(out, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+
+      const publicKey = await new LocalKeySigner(privateKey, options.keyType).getPublicKey();
+      console.log(chalk.green(`✅ Keystore written to ${out}`));
+      console.log(chalk.white(`   ${publicKey.keyType} public key: ${publicKey.publicKey}`));
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to write keystore:'), error.message);
+      process.exit(1);
+    }
+  });
+
+signerCommand
+  .command('serve')
+  .description('Serve a keystore or key over the remote signer protocol (local stand-in for a KMS / HSM signer)')
+  .option('--keystore <path>', 'Keystore file to sign with')
+  .option('--key-env <var>', 'Sign with the private key in this environment variable')
+  .option('--key-type <type>', 'Key type for raw hex keys: secp256k1 or ed25519', 'secp256k1')
+  .option('-p, --port <port>', 'Port to listen on', '8600')
+  .option('--host <host>', 'Address to listen on', '127.0.0.1')
+  .option('--token <token>', 'Require this bearer token (default: APIX_SIGNER_TOKEN)')
+  .action(async (options) => {
+    try {
+      const signer = await createLocalSigner(options);
+      const publicKey = await signer.getPublicKey();
+
+      const server = await startRemoteSignerServer(signer, {
+        port: parseInt(options.port, 10),
+        host: options.host,
+        token: options.token || process.env.APIX_SIGNER_TOKEN,
+        onSign: request => {
+          const target = request.context ? ` for ${request.context.chain}${request.context.network ? `/${request.context.network}` : ''}` : '';
+          console.log(chalk.gray(`   ${new Date().toISOString()} signed ${(request.payload.length / 2) | 0} bytes${target}`));
+        },
+      });
+
+      console.log(chalk.green(`✅ Remote signer listening on ${server.url}`));
+      console.log(chalk.white(`   ${publicKey.keyType} public key: ${publicKey.publicKey}`));
+      console.log(chalk.gray(`   Use: apix create-token --signer remote:${server.url}`));
+      console.log(chalk.gray('   Press Ctrl+C to stop'));
+
+      process.on('SIGINT', async () => {
+        await server.close();
+        process.exit(0);
+      });
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to start signer:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// HCS COMMANDS
+// =============================================================================
+
+const hcs = program
+  .command('hcs')
+  .description('Hedera Consensus Service topics');
+
+hcs
+  .command('tail <topicId>')
+  .description('Stream a topic\'s messages from the mirror node, reassembling chunks and verifying running hashes')
+  .option('--from <sequence>', 'Replay from this sequence number (default: new messages only)')
+  .option('--to <sequence>', 'Stop after this sequence number')
+  .option('--no-verify', 'Skip running hash verification')
+  .option('--json', 'Print one JSON object per message')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .action(async (topicId, options) => {
+    try {
+      await new ChainOperations().tailTopic(topicId, options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Topic tail failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// SCHEDULE COMMANDS
+// =============================================================================
+
+const schedule = program
+  .command('schedule')
+  .description('Multi-party approvals: Hedera scheduled transactions, Safe transactions on EVM chains');
+
+schedule
+  .command('create')
+  .description('Propose a transfer (--to), token mint (--mint) or contract call (--contract) that runs once enough parties sign')
+  .option('--to <account>', 'Transfer recipient (EVM mints: mint recipient, default the Safe)')
+  .option('--amount <amount>', 'Amount in the smallest unit (tinybars / wei, or the token\'s)')
+  .option('--token <tokenId>', 'Transfer this token instead of the native currency')
+  .option('--mint <tokenId>', 'Mint this token (Hedera: to the treasury)')
+  .option('--contract <address>', 'Call this contract')
+  .option('--data <hex>', 'Call data for --contract')
+  .option('--value <amount>', 'Native amount sent with --contract')
+  .option('--account <account>', 'Hedera: account that pays and sends (default: yours). EVM: the Safe address')
+  .option('--memo <memo>', 'Memo shown to co-signers')
+  .option('--expires <iso>', 'Hedera: expiration time (default: network default)')
+  .option('--chain <chain>', 'Target blockchain (hedera, ethereum, base, ...)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--signer <spec>', 'Sign with remote:<url> or keystore:<path> (default: APIX_SIGNER)')
+  .option('--safe-service <url>', 'EVM: Safe Transaction Service URL (default: APIX_SAFE_SERVICE_URL or the hosted service)')
+  .action(async (options) => {
+    try {
+      await new ChainOperations().createSchedule(options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to create proposal:'), error.message);
+      process.exit(1);
+    }
+  });
+
+schedule
+  .command('sign <scheduleId>')
+  .description('Review and add your signature; the transaction runs when the threshold is met')
+  .option('--chain <chain>', 'Target blockchain (hedera, ethereum, base, ...)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--signer <spec>', 'Sign with remote:<url> or keystore:<path> (default: APIX_SIGNER)')
+  .option('--safe-service <url>', 'EVM: Safe Transaction Service URL')
+  .action(async (scheduleId, options) => {
+    try {
+      await new ChainOperations().signSchedule(scheduleId, options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to sign proposal:'), error.message);
+      process.exit(1);
+    }
+  });
+
+schedule
+  .command('list')
+  .description('List proposals waiting for signatures')
+  .option('--account <account>', 'Hedera: creating account (default: yours). EVM: the Safe address')
+  .option('--limit <n>', 'Number of recent proposals to check', '25')
+  .option('--json', 'Print JSON')
+  .option('--chain <chain>', 'Target blockchain (hedera, ethereum, base, ...)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--safe-service <url>', 'EVM: Safe Transaction Service URL')
+  .action(async (options) => {
+    try {
+      await new ChainOperations().listSchedules(options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to list proposals:'), error.message);
+      process.exit(1);
+    }
+  });
+
+schedule
+  .command('show <scheduleId>')
+  .description('Show a proposal: what it does, who signed and whether it ran')
+  .option('--chain <chain>', 'Target blockchain (hedera, ethereum, base, ...)', 'hedera')
+  .option('--mainnet', 'Use mainnet (production)')
+  .option('--localnet', 'Use a local node started with `apix localnet up`')
+  .option('--safe-service <url>', 'EVM: Safe Transaction Service URL')
+  .action(async (scheduleId, options) => {
+    try {
+      await new ChainOperations().showSchedule(scheduleId, options);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to show proposal:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// CONTRACT COMMANDS
+// =============================================================================
+
+const contract = program
+  .command('contract')
+  .description('Work with contracts and Solana programs through the chain adapters');
+
+contract
+  .command('codegen <artifact>')
+  .description('Generate a typed client and React hooks from an ABI (EVM, Hedera) or Anchor IDL (Solana)')
+  .option('-o, --out <dir>', 'Output directory', 'src/contracts')
+  .option('-n, --name <name>', 'Client name (default: the contract or program name in the artifact)')
+  .option('--no-hooks', 'Skip the React hooks')
+  .option('--import-from <module>', 'Module the client imports BlockchainAdapter from', DEFAULT_ADAPTER_IMPORT)
+  .action(async (artifact, options) => {
+    try {
+      const files = await new ContractCodegen().generate(artifact, {
+        name: options.name,
+        outDir: options.out,
+        hooks: options.hooks,
+        importFrom: options.importFrom
+      });
+      await new FileGenerator().generateFiles(files, { conflictResolution: 'overwrite', validateFiles: false });
+
+      console.log(chalk.green(`✅ Generated ${files.length} file(s) from ${artifact}`));
+      for (const file of files) {
+        console.log(chalk.white(`   ${file.path}`));
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Contract codegen failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// CHAINS COMMAND
+// =============================================================================
+
+program
+  .command('chains')
+  .description('List chains, filtered by required capabilities (e.g. --require "nft,multisig,finality<5s,predictable-fees")')
+  .option('--require <query>', 'Comma-separated features, metrics (finality, tps, cost) and properties (contract-language, account-model)')
+  .option('--sort <metric>', 'Sort by finality, tps or cost (default: first metric in the query, else finality)')
+  .action(async (options) => {
+    try {
+      const result = CapabilityQuery.run(options.require ?? '', { sortBy: options.sort as CapabilityMetric | undefined });
+      const width = Math.max(...[...result.matches, ...result.excluded].map(match => match.displayName.length)) + 2;
+      const describe = (match: { finality: number; tps: number; cost: number }) =>
+        `${formatMetric('finality', match.finality)} finality · ${formatMetric('tps', match.tps)} · ${formatMetric('cost', match.cost)}/tx`;
+
+      console.log(chalk.blue.bold(options.require
+        ? `\n🔎 Chains with ${options.require} (by ${result.sortBy})\n`
+        : `\n🔗 Supported chains (by ${result.sortBy})\n`));
+      for (const match of result.matches) {
+        console.log(chalk.green(`   ✅ ${match.displayName.padEnd(width)}`) + chalk.gray(describe(match)));
+      }
+      if (result.matches.length === 0) {
+        console.log(chalk.yellow('   No chain meets every requirement'));
+      }
+
+      if (result.excluded.length > 0) {
+        console.log(chalk.white('\n   Excluded:'));
+        for (const match of result.excluded) {
+          console.log(chalk.red(`   ❌ ${match.displayName.padEnd(width)}`) +
+            chalk.gray(match.failures.map(failure => `${failure.requirement}: ${failure.reason}`).join('; ')));
+        }
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Chain query failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// MIGRATE COMMAND
+// =============================================================================
+
+program
+  .command('migrate')
+  .description('Move the project to another chain: regenerate its chain files, env variables and dependencies')
+  .requiredOption('--from <chain>', 'Chain the project uses now')
+  .requiredOption('--to <chain>', 'Chain to migrate to')
+  .option('--remove-source', 'Delete regenerated source files and retire variables and packages nothing else uses')
+  .option('--dry-run', 'Show the migration without writing anything')
+  .option('--import-from <module>', 'Module the regenerated code imports the adapters from', DEFAULT_ADAPTER_IMPORT)
+  .action(async (options) => {
+    try {
+      const migrator = new ChainMigrator(process.cwd(), { importFrom: options.importFrom });
+      const plan = await migrator.plan(options.from, options.to, { removeSource: options.removeSource });
+      const result = options.dryRun ? undefined : await migrator.apply(plan);
+      const fromName = ChainRegistry.getChain(plan.from).metadata.displayName;
+      const toName = ChainRegistry.getChain(plan.to).metadata.displayName;
+
+      console.log(chalk.blue.bold(`\n🔀 Migrating ${fromName} → ${toName}${result ? '' : ' (dry run)'}\n`));
+      for (const feature of plan.features) {
+        if (feature.output) {
+          console.log(chalk.green(`   ✅ ${feature.integrationType}: ${feature.source.feature} → ${feature.target!.feature}`) +
+            chalk.gray(` (${Math.round(feature.target!.similarity * 100)}% similar) → ${feature.output}`));
+        } else {
+          console.log(chalk.red(`   ❌ ${feature.integrationType}: ${feature.suggestion}`));
+        }
+      }
+      for (const file of plan.files.filter(file => !file.regenerated)) {
+        console.log(chalk.yellow(`   ⚠️  ${file.path}: port by hand`));
+      }
+      if (plan.files.length === 0) {
+        console.log(chalk.gray(`   No files import ${fromName} SDK packages`));
+      }
+
+      const renamed = plan.env.filter(rewrite => rewrite.to);
+      if (renamed.length > 0) {
+        console.log(chalk.white(`\n   Environment: ${renamed.map(rewrite => `${rewrite.from} → ${rewrite.to}`).join(', ')}`));
+      }
+      const { add, remove } = plan.dependencies;
+      if (add.length + remove.length > 0) {
+        console.log(chalk.white(`   Dependencies: ${[...add.map(name => `+${name}`), ...remove.map(name => `-${name}`)].join(', ')}`));
+      }
+
+      if (result) {
+        for (const file of result.skipped) {
+          console.log(chalk.yellow(`   Skipped ${file}: it exists and was not generated by apix migrate`));
+        }
+        console.log(chalk.cyan(`\n📄 Report: ${result.report}`));
+      } else {
+        console.log(chalk.gray('\n   Run without --dry-run to write these changes'));
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Migration failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// LOCALNET COMMANDS
+// =============================================================================
+
+/**
+ * Resolve `apix localnet` chain arguments to local node families.
+ * No argument means all families.
+ */
+function resolveLocalnetFamilies(chain?: string): LocalnetFamily[] {
+  if (!chain) {
+    return ['evm', 'solana', 'hedera'];
+  }
+  if (chain === 'evm') {
+    return ['evm'];
+  }
+  return [getLocalnetFamily(chain as SupportedChain)];
+}
+
+const localnet = program
+  .command('localnet')
+  .description('Manage local blockchain nodes (Anvil/Hardhat, solana-test-validator, Hedera local node)');
+
+localnet
+  .command('up [chain]')
+  .description('Start local nodes (chain: evm, ethereum, solana, hedera, ... - default: all)')
+  .option('--timeout <seconds>', 'Seconds to wait for each node to become reachable', '60')
+  .action(async (chain, options) => {
+    try {
+      const manager = new LocalnetManager();
+      const families = resolveLocalnetFamilies(chain);
+      let failed = false;
+
+      for (const family of families) {
+        const profile = LOCALNET_PROFILES[family];
+        const spinner = ora(`Starting ${profile.displayName}...`).start();
+        try {
+          await manager.up(family, parseInt(options.timeout) * 1000);
+          spinner.succeed(chalk.green(`${profile.displayName} running at ${profile.endpoints.rpcUrl}`));
+          if (profile.devAccount) {
+            console.log(chalk.gray(`   Dev account: ${profile.devAccount.address}`));
+          }
+        } catch (error: any) {
+          spinner.fail(chalk.red(error.message));
+          failed = true;
+        }
+      }
+
+      console.log(chalk.cyan('\n💡 Use --localnet with create-token and validate to target these nodes'));
+      process.exit(failed ? 1 : 0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to start local nodes:'), error.message);
+      process.exit(1);
+    }
+  });
+
+localnet
+  .command('down [chain]')
+  .description('Stop local nodes started with `apix localnet up`')
+  .action(async (chain) => {
+    try {
+      const manager = new LocalnetManager();
+
+      for (const family of resolveLocalnetFamilies(chain)) {
+        const stopped = await manager.down(family);
+        const name = LOCALNET_PROFILES[family].displayName;
+        console.log(stopped
+          ? chalk.green(`✅ Stopped ${name}`)
+          : chalk.gray(`   ${name} was not started by APIX`));
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to stop local nodes:'), error.message);
+      process.exit(1);
+    }
+  });
+
+localnet
+  .command('status')
+  .description('Show which local nodes are reachable')
+  .action(async () => {
+    try {
+      const statuses = await new LocalnetManager().status();
+
+      console.log(chalk.cyan.bold('🧪 Local Nodes'));
+      for (const status of statuses) {
+        const state = status.reachable ? chalk.green('running') : chalk.gray('stopped');
+        const pid = status.pid ? chalk.gray(` (pid ${status.pid})`) : '';
+        console.log(`  ${status.displayName.padEnd(24)} ${state}  ${status.rpcUrl}${pid}`);
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ Failed to check local nodes:'), error.message);
+      process.exit(1);
+    }
+  });
+
 // =============================================================================
 // LAUNCH COMMAND - THE UNIFIED EXPERIENCE
 // =============================================================================
@@ -776,13 +1437,30 @@ program
 
 program.showHelpAfterError();
 
+// Register the chain plugins listed in .apix/config.json, so their chains
+// work in every command like the built-in ones
+async function registerChainPlugins(): Promise<void> {
+  const config = await new ConfigurationManager().load();
+  if (!config.plugins || config.plugins.length === 0) {
+    return;
+  }
+
+  const { ChainPlugins } = await import('../blockchain/core/ChainPlugin');
+  const { failed } = await ChainPlugins.load(config.plugins, process.cwd());
+  for (const { module, error } of failed) {
+    console.warn(chalk.yellow(`⚠️  Chain plugin ${module} was not loaded: ${error}`));
+  }
+}
+
 // Parse arguments
 const args = process.argv.slice(2);
 
-// If no arguments provided, launch the unified experience
-if (args.length === 0) {
-  // Launch the interactive experience by default
-  (async () => {
+(async () => {
+  await registerChainPlugins();
+
+  // If no arguments provided, launch the unified experience
+  if (args.length === 0) {
+    // Launch the interactive experience by default
     try {
       const { LaunchInterface } = await import('./launch-interface');
       const launcher = new LaunchInterface();
@@ -791,17 +1469,17 @@ if (args.length === 0) {
       console.error(chalk.red('Failed to start APIX:'), error.message);
       process.exit(1);
     }
-  })();
-} else {
-  // Parse specific command
-  try {
-    program.parse(process.argv);
-  } catch (error: any) {
-    if (error.code !== 'commander.helpDisplayed') {
-      logger.error('Command failed:', error);
-      process.exit(1);
+  } else {
+    // Parse specific command
+    try {
+      program.parse(process.argv);
+    } catch (error: any) {
+      if (error.code !== 'commander.helpDisplayed') {
+        logger.error('Command failed:', error);
+        process.exit(1);
+      }
     }
   }
-}
+})();
 
 export { program };
\ No newline at end of file
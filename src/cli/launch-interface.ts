@@ -23,7 +23,8 @@ import { ChainRegistry } from '../blockchain/core/ChainRegistry';
 import { SupportedChain, NetworkType } from '../blockchain/core/types';
 import { ProjectContext } from '../types';
 import { ConversationEngine } from '../ai/conversation/conversation-engine';
-import { ChainRankingEngine, UseCase, ProjectContext as RankingContext } from '../blockchain/core/ChainRankingEngine';
+import { ChainRankingEngine, UseCase, ProjectContext as RankingContext, RankingProfile } from '../blockchain/core/ChainRankingEngine';
+import { ConfigurationManager } from '../utils/config-manager';
 import { CredentialSetup } from './credential-setup';
 
 // Use case categories for smart recommendations
@@ -280,10 +281,15 @@ export class LaunchInterface {
       dependencies: this.state.projectContext?.dependencies?.map(d => d.name) || []
     };
 
-    const rankings = ChainRankingEngine.rankChainsForUseCase(useCase, rankingContext);
+    const profile = await this.loadRankingProfile();
+    const rankings = ChainRankingEngine.rankChainsForUseCase(useCase, rankingContext, profile);
 
     console.log(chalk.white.bold(`🔗 Blockchain Rankings for ${this.formatUseCase(useCase)}:\n`));
 
+    if (profile) {
+      console.log(chalk.gray(`   ⚖️  Ranked with the "${profile.name}" profile\n`));
+    }
+
     // Show context influence if any
     const hasContextBonus = rankings.some(r => r.contextBonus && r.contextBonus !== 0);
     if (hasContextBonus) {
@@ -306,6 +312,13 @@ export class LaunchInterface {
       console.log(chalk.cyan(`   "${ranking.headline}"`));
       console.log(chalk.gray(`   💰 ${ranking.estimatedCost}`));
 
+      // Show how each criterion of the profile contributed
+      if (ranking.breakdown.length > 1) {
+        ChainRankingEngine.explainScore(ranking).forEach(line => {
+          console.log(chalk.blue(`   ⚖ ${line}`));
+        });
+      }
+
       // Show context reasons first (they're more personalized)
       if (ranking.contextReasons && ranking.contextReasons.length > 0) {
         ranking.contextReasons.slice(0, 2).forEach(reason => {
@@ -361,6 +374,24 @@ export class LaunchInterface {
     }
   }
 
+  /**
+   * Load the ranking profile named in .apix/config.json, if any
+   * An unreadable profile falls back to the default ranking
+   */
+  private async loadRankingProfile(): Promise<RankingProfile | undefined> {
+    const { rankingProfile } = await new ConfigurationManager().load();
+    if (!rankingProfile) {
+      return undefined;
+    }
+
+    try {
+      return await ChainRankingEngine.loadProfile(rankingProfile);
+    } catch (error: any) {
+      console.log(chalk.yellow(`   ⚠️  ${error.message} - using the default ranking\n`));
+      return undefined;
+    }
+  }
+
   /**
    * Format use case for display
    */
@@ -0,0 +1,211 @@
+/**
+ * Tests for contract client codegen
+ */
+
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { ContractCodegen } from '../contract-codegen';
+import { AnchorIdl } from '../../blockchain/core/AnchorIdl';
+
+const CONTRACTS_DIR = path.join(__dirname, '../../blockchain/contracts');
+const CORE_MODULE = path.join(__dirname, '../../blockchain/core');
+const PROGRAM_ID = 'Fg6PaFpoGXkYsidMpWTK6W2BeZ7FEfcYkg476zPFsLnS';
+
+// 0.30+ format: snake_case names, nested account groups, defined types
+const orderBookIdl: AnchorIdl = {
+  address: PROGRAM_ID,
+  instructions: [{
+    name: 'place_order',
+    discriminator: [1, 2, 3, 4, 5, 6, 7, 8],
+    accounts: [
+      { name: 'market', writable: true },
+      { name: 'referrer', optional: true },
+      { name: 'payer', writable: true, signer: true },
+      { name: 'system_program' },
+      { name: 'fees', accounts: [{ name: 'fee_vault', writable: true }] },
+    ],
+    args: [
+      { name: 'order', type: { defined: { name: 'Order' } } },
+      { name: 'tags', type: { vec: 'u8' } },
+      { name: 'expiry', type: { option: 'i64' } },
+    ],
+  }],
+  types: [
+    { name: 'Side', type: { kind: 'enum', variants: [{ name: 'Bid' }, { name: 'Ask' }] } },
+    {
+      name: 'Order',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'side', type: { defined: { name: 'Side' } } },
+          { name: 'price', type: 'u64' },
+        ],
+      },
+    },
+  ],
+};
+
+// React ships without types here; the generated hooks only need these signatures
+const REACT_TYPES = `declare module 'react' {
+  export function useState<S>(initial: S): [S, (value: S | ((previous: S) => S)) => void];
+  export function useCallback<T extends (...args: any[]) => any>(callback: T, deps: unknown[]): T;
+  export function useMemo<T>(factory: () => T, deps: unknown[]): T;
+  export function useEffect(effect: () => void | (() => void), deps?: unknown[]): void;
+}
+`;
+
+describe('ContractCodegen', () => {
+  const codegen = new ContractCodegen();
+  let dir: string;
+  let idlPath: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'apix-codegen-'));
+    idlPath = path.join(dir, 'order_book.json');
+    await fs.writeJson(idlPath, orderBookIdl);
+  });
+
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  describe('loadArtifact', () => {
+    it('should detect ABIs and Anchor IDLs', async () => {
+      const erc20 = await codegen.loadArtifact(path.join(CONTRACTS_DIR, 'ERC20.json'));
+      expect(erc20).toMatchObject({ kind: 'abi', name: 'SimpleERC20', source: 'ERC20.json' });
+
+      const bareAbiPath = path.join(dir, 'points-token.json');
+      await fs.writeJson(bareAbiPath, erc20.abi);
+      expect(await codegen.loadArtifact(bareAbiPath)).toMatchObject({ kind: 'abi', name: 'PointsToken' });
+
+      expect(await codegen.loadArtifact(idlPath)).toMatchObject({ kind: 'anchor-idl', name: 'OrderBook' });
+      expect(await codegen.loadArtifact(idlPath, 'dex')).toMatchObject({ name: 'Dex' });
+    });
+
+    it('should reject other JSON files', async () => {
+      const configPath = path.join(dir, 'config.json');
+      await fs.writeJson(configPath, { network: 'testnet' });
+
+      await expect(codegen.loadArtifact(configPath)).rejects.toThrow('is neither an ABI');
+    });
+  });
+
+  describe('Solidity ABI clients', () => {
+    it('should type reads, writes and events of an ERC-20', async () => {
+      const artifact = await codegen.loadArtifact(path.join(CONTRACTS_DIR, 'ERC20.json'));
+      const client = codegen.generateAbiClient(artifact, '@acme/chain-core');
+
+      expect(client).toContain("import { BlockchainAdapter, ChainEvent, SubscribeParams } from '@acme/chain-core';");
+      expect(client).toContain('export class SimpleERC20Client {');
+      expect(client).toContain('  async balanceOf(account: string): Promise<bigint> {');
+      expect(client).toMatch(/async transfer\(to: string, \w+: bigint \| number \| string, options: CallOptions = \{\}\): Promise<ContractWriteResult>/);
+      expect(client).toContain("  Transfer: 'Transfer(address,address,uint256)',");
+      expect(client).toContain('      args: [{ abi: SimpleERC20Abi }, ...args],');
+    });
+
+    it('should number overloads and call them by signature (ERC-721)', async () => {
+      const artifact = await codegen.loadArtifact(path.join(CONTRACTS_DIR, 'ERC721.json'));
+      const client = codegen.generateAbiClient(artifact, '@acme/chain-core');
+
+      expect(client).toContain("    return this.call('safeTransferFrom(address,address,uint256)', [from, to, tokenId], options);");
+      expect(client).toContain('  async safeTransferFrom2(from: string, to: string, tokenId: bigint | number | string, data: string | Uint8Array, options: CallOptions = {}): Promise<ContractWriteResult> {');
+      // Multiple outputs become a tuple
+      expect(client).toMatch(/async royaltyInfo\([^)]*\): Promise<\[string, bigint\]>/);
+    });
+
+    it('should type array arguments and results (ERC-1155)', async () => {
+      const artifact = await codegen.loadArtifact(path.join(CONTRACTS_DIR, 'ERC1155.json'));
+      const client = codegen.generateAbiClient(artifact, '@acme/chain-core');
+
+      expect(client).toMatch(/async balanceOfBatch\(\w+: string\[\], \w+: Array<bigint \| number \| string>\): Promise<bigint\[\]>/);
+      expect(client).toContain('export interface TransferSingleEvent {');
+      expect(client).toContain('  TransferBatch: TransferBatchEvent;');
+    });
+  });
+
+  describe('Anchor IDL clients', () => {
+    it('should type instructions, accounts and defined types', async () => {
+      const artifact = await codegen.loadArtifact(idlPath);
+      const client = codegen.generateIdlClient(artifact, '@acme/chain-core');
+
+      expect(client).toContain("export type Side = 'Bid' | 'Ask';");
+      expect(client).toContain('export interface Order {\n  side: Side;\n  price: bigint | number | string;\n}');
+      // Signers, well-known programs and optional accounts are filled in by the encoder
+      expect(client).toContain('export interface PlaceOrderAccounts {\n  market: string;\n  referrer?: string;\n  payer?: string;\n  systemProgram?: string;\n  feeVault: string;\n}');
+      expect(client).toContain(`    readonly programId: string = '${PROGRAM_ID}'`);
+      expect(client).toContain('  async placeOrder(order: Order, tags: number[], expiry: bigint | number | string | null, accounts: PlaceOrderAccounts): Promise<ContractWriteResult> {');
+      expect(client).toContain("    return this.call('place_order', [order, tags, expiry], accounts);");
+    });
+  });
+
+  describe('React hooks', () => {
+    it('should wrap every client method with loading and error state', async () => {
+      const artifact = await codegen.loadArtifact(path.join(CONTRACTS_DIR, 'ERC20.json'));
+      const hooks = codegen.generateHooks(artifact, '@acme/chain-core');
+
+      expect(hooks).toContain("import { useState, useCallback, useMemo, useEffect } from 'react';");
+      expect(hooks).toContain("} from './SimpleERC20Client';");
+      expect(hooks).toContain('export const useSimpleERC20 = (adapter: BlockchainAdapter, address: string): UseSimpleERC20Return => {');
+      expect(hooks).toContain("    handleCall(() => client.balanceOf(account), 'Failed to call balanceOf'), [client, handleCall]);");
+      expect(hooks).toContain('export const useSimpleERC20Events = <K extends keyof SimpleERC20Events>(');
+    });
+
+    it('should default the program ID of IDL hooks', async () => {
+      const artifact = await codegen.loadArtifact(idlPath);
+      const hooks = codegen.generateHooks(artifact, '@acme/chain-core');
+
+      expect(hooks).toContain('export const useOrderBook = (adapter: BlockchainAdapter, programId?: string): UseOrderBookReturn => {');
+      expect(hooks).toMatch(/ {2}PlaceOrderAccounts,\n {2}Order,\n} from '\.\/OrderBookClient';/);
+      expect(hooks).not.toContain('useEffect');
+    });
+  });
+
+  describe('generate', () => {
+    it('should return the client and hooks files', async () => {
+      const outDir = path.join(dir, 'contracts');
+      const files = await codegen.generate(path.join(CONTRACTS_DIR, 'ERC20.json'), { outDir, name: 'points' });
+
+      expect(files.map(file => file.path)).toEqual([
+        path.join(outDir, 'PointsClient.ts'),
+        path.join(outDir, 'usePoints.ts'),
+      ]);
+
+      const clientOnly = await codegen.generate(idlPath, { outDir, hooks: false });
+      expect(clientOnly.map(file => file.path)).toEqual([path.join(outDir, 'OrderBookClient.ts')]);
+    });
+
+    it('should generate code that type-checks against the adapters', async () => {
+      const outDir = path.join(dir, 'typecheck');
+      const artifacts = ['ERC20.json', 'ERC721.json', 'ERC1155.json'].map(file => path.join(CONTRACTS_DIR, file));
+      const files = (await Promise.all([...artifacts, idlPath].map(file =>
+        codegen.generate(file, { outDir, importFrom: CORE_MODULE })))).flat();
+
+      for (const file of files) {
+        await fs.outputFile(file.path, file.content);
+      }
+      await fs.outputFile(path.join(outDir, 'react.d.ts'), REACT_TYPES);
+
+      const program = ts.createProgram([...files.map(file => file.path), path.join(outDir, 'react.d.ts')], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        esModuleInterop: true,
+        resolveJsonModule: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.CommonJS,
+        moduleResolution: ts.ModuleResolutionKind.NodeJs,
+        lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+        // Generated files live outside the project; resolve packages from it
+        baseUrl: outDir,
+        paths: { ethers: [path.join(__dirname, '../../../node_modules/ethers')] },
+      });
+      const errors = ts.getPreEmitDiagnostics(program)
+        .filter(diagnostic => diagnostic.file?.fileName.startsWith(outDir))
+        .map(diagnostic => `${path.basename(diagnostic.file!.fileName)}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`);
+
+      expect(errors).toEqual([]);
+    }, 180000);
+  });
+});
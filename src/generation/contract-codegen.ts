@@ -0,0 +1,675 @@
+/**
+ * Contract Client Codegen
+ *
+ * Generates a typed TypeScript client and React hooks for `apix contract codegen`
+ * from a contract artifact:
+ * - Solidity ABI (EVM chains and Hedera): a JSON artifact with an `abi` field
+ *   (src/blockchain/contracts, Hardhat, Foundry) or a bare ABI array
+ * - Anchor IDL (Solana programs), legacy or 0.30+ format
+ *
+ * Generated clients call through BlockchainAdapter.callContract, so one client
+ * works with every adapter of the chain family. Hooks follow the
+ * templates/hooks/react style (isLoading / error state around each call).
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { GeneratedFile } from '../types';
+import {
+  AnchorIdl,
+  AnchorIdlAccount,
+  AnchorIdlField,
+  AnchorIdlType,
+  WELL_KNOWN_ACCOUNTS,
+} from '../blockchain/core/AnchorIdl';
+
+export type ContractArtifactKind = 'abi' | 'anchor-idl';
+
+export interface AbiParameter {
+  name?: string;
+  type: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+export interface AbiItem {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+  constant?: boolean;
+}
+
+export interface ContractArtifact {
+  kind: ContractArtifactKind;
+  name: string;              // PascalCase client name
+  source: string;            // Artifact file name (for the header)
+  abi?: AbiItem[];
+  idl?: AnchorIdl;
+}
+
+export interface ContractCodegenOptions {
+  name?: string;             // Client name (default: contractName, IDL name or file name)
+  outDir: string;
+  hooks?: boolean;           // Also generate React hooks (default: true)
+  importFrom?: string;       // Module exporting BlockchainAdapter
+}
+
+export const DEFAULT_ADAPTER_IMPORT = 'apix-ai/dist/blockchain/core';
+
+// Names that cannot be used as identifiers, or clash with generated parameters
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+  'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'var', 'void', 'while', 'with', 'options', 'accounts',
+]);
+
+// Members of the generated clients and hooks that contract methods must not shadow
+const CLIENT_MEMBERS = new Set([
+  'adapter', 'address', 'programId', 'contractInterface', 'call', 'watch', 'decodeEvent',
+  'constructor', 'client', 'isLoading', 'error', 'handleCall',
+]);
+
+export class ContractCodegen {
+  /**
+   * Read an ABI or Anchor IDL artifact.
+   */
+  async loadArtifact(filePath: string, name?: string): Promise<ContractArtifact> {
+    const json = await fs.readJson(filePath);
+    const source = path.basename(filePath);
+    const fallbackName = path.basename(filePath, path.extname(filePath));
+
+    if (Array.isArray(json) || Array.isArray(json.abi)) {
+      return {
+        kind: 'abi',
+        name: toPascalCase(name || json.contractName || fallbackName),
+        source,
+        abi: Array.isArray(json) ? json : json.abi,
+      };
+    }
+
+    if (Array.isArray(json.instructions)) {
+      return {
+        kind: 'anchor-idl',
+        name: toPascalCase(name || json.metadata?.name || json.name || fallbackName),
+        source,
+        idl: json,
+      };
+    }
+
+    throw new Error(`${filePath} is neither an ABI (array or { abi }) nor an Anchor IDL ({ instructions })`);
+  }
+
+  /**
+   * Generate the client (and hooks) for an artifact file.
+   */
+  async generate(filePath: string, options: ContractCodegenOptions): Promise<GeneratedFile[]> {
+    const artifact = await this.loadArtifact(filePath, options.name);
+    const importFrom = options.importFrom || DEFAULT_ADAPTER_IMPORT;
+
+    const files: GeneratedFile[] = [{
+      path: path.join(options.outDir, `${artifact.name}Client.ts`),
+      content: artifact.kind === 'abi'
+        ? this.generateAbiClient(artifact, importFrom)
+        : this.generateIdlClient(artifact, importFrom),
+      type: 'typescript',
+      overwrite: true,
+    }];
+
+    if (options.hooks !== false) {
+      files.push({
+        path: path.join(options.outDir, `use${artifact.name}.ts`),
+        content: this.generateHooks(artifact, importFrom),
+        type: 'typescript',
+        overwrite: true,
+      });
+    }
+
+    return files;
+  }
+
+  // ===========================================================================
+  // SOLIDITY ABI CLIENT
+  // ===========================================================================
+
+  generateAbiClient(artifact: ContractArtifact, importFrom: string): string {
+    const { name } = artifact;
+    const abi = artifact.abi || [];
+    const functions = this.getAbiFunctions(abi);
+    const events = abi.filter(item => item.type === 'event' && item.name);
+    const lines: string[] = [
+      this.header(artifact),
+      '',
+      ...(events.length > 0 ? ["import { Interface } from 'ethers';"] : []),
+      `import { BlockchainAdapter${events.length > 0 ? ', ChainEvent, SubscribeParams' : ''} } from '${importFrom}';`,
+      '',
+      `export const ${name}Abi = ${JSON.stringify(abi, null, 2)};`,
+      '',
+      ...this.sharedTypes(true),
+    ];
+
+    // Event argument types
+    for (const event of events) {
+      lines.push(
+        `export interface ${toPascalCase(event.name!)}Event {`,
+        ...(event.inputs || []).map((input, index) =>
+          `  ${this.paramName(input.name, index)}: ${this.solidityOutputType(input)};`),
+        '}',
+        ''
+      );
+    }
+    if (events.length > 0) {
+      lines.push(
+        `export interface ${name}Events {`,
+        ...events.map(event => `  ${event.name}: ${toPascalCase(event.name!)}Event;`),
+        '}',
+        '',
+        'export interface DecodedEvent<T> {',
+        '  name: string;',
+        '  args: T;',
+        '  event: ChainEvent;',
+        '}',
+        '',
+        `const ${name}EventSignatures: Record<keyof ${name}Events, string> = {`,
+        ...events.map(event => `  ${event.name}: '${this.signature(event)}',`),
+        '};',
+        ''
+      );
+    }
+
+    lines.push(
+      `export class ${name}Client {`,
+      ...(events.length > 0 ? [`  private readonly contractInterface = new Interface(${name}Abi);`, ''] : []),
+      '  constructor(',
+      '    private readonly adapter: BlockchainAdapter,',
+      '    readonly address: string',
+      '  ) {}',
+      ''
+    );
+
+    for (const { item, methodName, tsName } of functions) {
+      const inputs = (item.inputs || []).map((input, index) =>
+        `${this.paramName(input.name, index)}: ${this.solidityInputType(input)}`);
+      const args = (item.inputs || []).map((input, index) => this.paramName(input.name, index));
+
+      if (this.isReadOnly(item)) {
+        lines.push(
+          `  /** ${this.signature(item)} (read) */`,
+          `  async ${tsName}(${inputs.join(', ')}): Promise<${this.solidityReturnType(item.outputs || [])}> {`,
+          `    return this.call('${methodName}', [${args.join(', ')}]);`,
+          '  }',
+          ''
+        );
+      } else {
+        lines.push(
+          `  /** ${this.signature(item)} */`,
+          `  async ${tsName}(${[...inputs, 'options: CallOptions = {}'].join(', ')}): Promise<ContractWriteResult> {`,
+          `    return this.call('${methodName}', [${args.join(', ')}], options);`,
+          '  }',
+          ''
+        );
+      }
+    }
+
+    if (events.length > 0) {
+      lines.push(
+        '  /**',
+        '   * Stream decoded events (chains with event logs; see adapter.subscribe).',
+        '   */',
+        `  async *watch<K extends keyof ${name}Events>(`,
+        '    eventName: K,',
+        "    params: Omit<SubscribeParams, 'kind' | 'contractAddress' | 'eventSignature'> = {}",
+        `  ): AsyncIterableIterator<DecodedEvent<${name}Events[K]>> {`,
+        '    const events = this.adapter.subscribe({',
+        '      ...params,',
+        "      kind: 'contract-events',",
+        '      contractAddress: this.address,',
+        `      eventSignature: ${name}EventSignatures[eventName],`,
+        '    });',
+        '    for await (const event of events) {',
+        `      yield this.decodeEvent<${name}Events[K]>(event);`,
+        '    }',
+        '  }',
+        '',
+        '  decodeEvent<T>(event: ChainEvent): DecodedEvent<T> {',
+        '    const log = this.contractInterface.parseLog({ topics: event.data.topics, data: event.data.data });',
+        '    if (!log) {',
+        '      throw new Error(`Log ${event.transactionId} is not a ' + name + ' event`);',
+        '    }',
+        '    return { name: log.name, args: log.args.toObject() as T, event };',
+        '  }',
+        ''
+      );
+    }
+
+    lines.push(
+      '  private call(methodName: string, args: any[], options: CallOptions = {}): Promise<any> {',
+      '    return this.adapter.callContract({',
+      '      contractAddress: this.address,',
+      '      methodName,',
+      `      args: [{ abi: ${name}Abi }, ...args],`,
+      '      gas: options.gas,',
+      '      value: options.value,',
+      '    });',
+      '  }',
+      '}',
+      ''
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Functions with their call name (full signature when overloaded) and
+   * TypeScript method name (overloads are numbered).
+   */
+  private getAbiFunctions(abi: AbiItem[]): Array<{ item: AbiItem; methodName: string; tsName: string }> {
+    const functions = abi.filter(item => item.type === 'function' && item.name);
+    const seen = new Map<string, number>();
+
+    return functions.map(item => {
+      const overloaded = functions.filter(other => other.name === item.name).length > 1;
+      const count = (seen.get(item.name!) || 0) + 1;
+      seen.set(item.name!, count);
+      return {
+        item,
+        methodName: overloaded ? this.signature(item) : item.name!,
+        tsName: this.methodName(count > 1 ? `${item.name}${count}` : item.name!),
+      };
+    });
+  }
+
+  private isReadOnly(item: AbiItem): boolean {
+    return item.constant === true || item.stateMutability === 'view' || item.stateMutability === 'pure';
+  }
+
+  private signature(item: AbiItem): string {
+    const type = (param: AbiParameter): string => param.type.startsWith('tuple')
+      ? `(${(param.components || []).map(type).join(',')})${param.type.slice(5)}`
+      : param.type;
+    return `${item.name}(${(item.inputs || []).map(type).join(',')})`;
+  }
+
+  private solidityInputType(param: AbiParameter): string {
+    return this.solidityType(param, 'input');
+  }
+
+  private solidityOutputType(param: AbiParameter): string {
+    return this.solidityType(param, 'output');
+  }
+
+  private solidityReturnType(outputs: AbiParameter[]): string {
+    if (outputs.length === 0) return 'void';
+    if (outputs.length === 1) return this.solidityOutputType(outputs[0]);
+    return `[${outputs.map(output => this.solidityOutputType(output)).join(', ')}]`;
+  }
+
+  /**
+   * Inputs accept anything ethers encodes; outputs are what it decodes to.
+   */
+  private solidityType(param: AbiParameter, direction: 'input' | 'output'): string {
+    const array = param.type.match(/^(.*)\[\d*\]$/);
+    if (array) {
+      const inner = this.solidityType({ ...param, type: array[1] }, direction);
+      return inner.includes(' ') && !inner.startsWith('{') ? `Array<${inner}>` : `${inner}[]`;
+    }
+
+    if (param.type === 'tuple') {
+      const fields = (param.components || []).map((component, index) =>
+        `${this.paramName(component.name, index)}: ${this.solidityType(component, direction)}`);
+      return `{ ${fields.join('; ')} }`;
+    }
+    if (/^u?int\d*$/.test(param.type)) {
+      return direction === 'input' ? 'bigint | number | string' : 'bigint';
+    }
+    if (param.type === 'bool') return 'boolean';
+    if (param.type.startsWith('bytes')) {
+      return direction === 'input' ? 'string | Uint8Array' : 'string';
+    }
+    return 'string'; // address, string
+  }
+
+  // ===========================================================================
+  // ANCHOR IDL CLIENT
+  // ===========================================================================
+
+  generateIdlClient(artifact: ContractArtifact, importFrom: string): string {
+    const { name } = artifact;
+    const idl = artifact.idl!;
+    const programId = idl.address || idl.metadata?.address;
+    const lines: string[] = [
+      this.header(artifact),
+      '',
+      `import { BlockchainAdapter } from '${importFrom}';`,
+      '',
+      `export const ${name}Idl = ${JSON.stringify(idl, null, 2)};`,
+      '',
+      ...this.sharedTypes(false),
+    ];
+
+    // Defined types (structs and enums)
+    for (const definition of idl.types || []) {
+      const typeName = toPascalCase(definition.name);
+      if (definition.type.kind === 'struct') {
+        lines.push(`export interface ${typeName} ${this.idlFieldsType(definition.type.fields || [])}`, '');
+      } else {
+        const variants = definition.type.variants.map(variant => variant.fields && variant.fields.length > 0
+          ? `{ ${variant.name}: ${this.idlFieldsType(variant.fields)} }`
+          : `'${variant.name}'`);
+        lines.push(`export type ${typeName} = ${variants.join(' | ')};`, '');
+      }
+    }
+
+    // Legacy IDLs declare event fields inline; 0.30+ reference a defined type
+    const events: Array<{ name: string; fields?: AnchorIdlField[] }> = (idl as any).events || [];
+    for (const event of events.filter(candidate => candidate.fields)) {
+      lines.push(`export interface ${toPascalCase(event.name)} ${this.idlFieldsType(event.fields!)}`, '');
+    }
+    if (events.length > 0) {
+      lines.push(
+        `export interface ${name}Events {`,
+        ...events.map(event => `  ${event.name}: ${toPascalCase(event.name)};`),
+        '}',
+        ''
+      );
+    }
+
+    // Accounts each instruction needs from the caller
+    for (const instruction of idl.instructions) {
+      lines.push(
+        `export interface ${toPascalCase(instruction.name)}Accounts {`,
+        ...this.flattenAccounts(instruction.accounts).map(account =>
+          `  ${toCamelCase(account.name)}${this.isAccountRequired(account) ? '' : '?'}: string;`),
+        '}',
+        ''
+      );
+    }
+
+    lines.push(
+      `export class ${name}Client {`,
+      '  constructor(',
+      '    private readonly adapter: BlockchainAdapter,',
+      programId
+        ? `    readonly programId: string = '${programId}'`
+        : '    readonly programId: string',
+      '  ) {}',
+      ''
+    );
+
+    for (const instruction of idl.instructions) {
+      const tsName = this.methodName(toCamelCase(instruction.name));
+      const args = instruction.args.map((arg, index) => this.paramName(toCamelCase(arg.name), index));
+      const inputs = instruction.args.map((arg, index) => `${args[index]}: ${this.idlType(arg.type, 'input')}`);
+      const accountsType = `${toPascalCase(instruction.name)}Accounts`;
+      const accountsRequired = this.flattenAccounts(instruction.accounts).some(account => this.isAccountRequired(account));
+
+      lines.push(
+        `  /** ${instruction.name} instruction */`,
+        `  async ${tsName}(${[...inputs, `accounts: ${accountsType}${accountsRequired ? '' : ' = {}'}`].join(', ')}): Promise<ContractWriteResult> {`,
+        `    return this.call('${instruction.name}', [${args.join(', ')}], accounts);`,
+        '  }',
+        ''
+      );
+    }
+
+    lines.push(
+      '  private call(methodName: string, args: any[], accounts: object): Promise<any> {',
+      '    return this.adapter.callContract({',
+      '      contractAddress: this.programId,',
+      '      methodName,',
+      '      args,',
+      `      idl: ${name}Idl,`,
+      '      accounts: accounts as Record<string, string>,',
+      '    });',
+      '  }',
+      '}',
+      ''
+    );
+
+    return lines.join('\n');
+  }
+
+  private idlFieldsType(fields: Array<AnchorIdlField | AnchorIdlType>): string {
+    const named = fields.every(field => typeof field === 'object' && 'name' in field && 'type' in field);
+    if (!named) {
+      return `[${(fields as AnchorIdlType[]).map(field => this.idlType(field, 'input')).join(', ')}]`;
+    }
+    const lines = (fields as AnchorIdlField[]).map(field =>
+      `  ${toCamelCase(field.name)}: ${this.idlType(field.type, 'input')};`);
+    return `{\n${lines.join('\n')}\n}`;
+  }
+
+  private idlType(type: AnchorIdlType, direction: 'input' | 'output'): string {
+    if (typeof type === 'string') {
+      if (/^[ui](64|128)$/.test(type)) return direction === 'input' ? 'bigint | number | string' : 'bigint';
+      if (/^([ui](8|16|32)|f32|f64)$/.test(type)) return 'number';
+      if (type === 'bool') return 'boolean';
+      if (type === 'bytes') return 'Uint8Array | number[] | string';
+      return 'string'; // string, publicKey / pubkey
+    }
+    if ('vec' in type) return this.arrayType(this.idlType(type.vec, direction));
+    if ('array' in type) return this.arrayType(this.idlType(type.array[0], direction));
+    if ('option' in type) return `${this.idlType(type.option, direction)} | null`;
+    if ('coption' in type) return `${this.idlType(type.coption, direction)} | null`;
+    return toPascalCase(typeof type.defined === 'string' ? type.defined : type.defined.name);
+  }
+
+  private arrayType(inner: string): string {
+    return inner.includes(' ') ? `Array<${inner}>` : `${inner}[]`;
+  }
+
+  private flattenAccounts(accounts: AnchorIdlAccount[]): AnchorIdlAccount[] {
+    return accounts.flatMap(account => account.accounts ? this.flattenAccounts(account.accounts) : [account]);
+  }
+
+  /**
+   * Accounts the encoder cannot fill in: not a signer (defaults to the
+   * adapter's key), fixed address, well-known program / sysvar or optional.
+   */
+  private isAccountRequired(account: AnchorIdlAccount): boolean {
+    return !(account.signer ?? account.isSigner)
+      && !account.address
+      && !WELL_KNOWN_ACCOUNTS[toCamelCase(account.name)]
+      && !(account.optional || account.isOptional);
+  }
+
+  // ===========================================================================
+  // REACT HOOKS
+  // ===========================================================================
+
+  generateHooks(artifact: ContractArtifact, importFrom: string): string {
+    const { name } = artifact;
+    const methods = artifact.kind === 'abi'
+      ? this.getAbiFunctions(artifact.abi || []).map(({ item, tsName }) => ({
+        tsName,
+        params: [
+          ...(item.inputs || []).map((input, index) =>
+            `${this.paramName(input.name, index)}: ${this.solidityInputType(input)}`),
+          ...(this.isReadOnly(item) ? [] : ['options?: CallOptions']),
+        ],
+        returnType: this.isReadOnly(item) ? this.solidityReturnType(item.outputs || []) : 'ContractWriteResult',
+      }))
+      : artifact.idl!.instructions.map(instruction => ({
+        tsName: this.methodName(toCamelCase(instruction.name)),
+        params: [
+          ...instruction.args.map((arg, index) =>
+            `${this.paramName(toCamelCase(arg.name), index)}: ${this.idlType(arg.type, 'input')}`),
+          `accounts: ${toPascalCase(instruction.name)}Accounts`,
+        ],
+        returnType: 'ContractWriteResult',
+      }));
+    const hasEvents = artifact.kind === 'abi' && (artifact.abi || []).some(item => item.type === 'event');
+    const addressParam = artifact.kind === 'abi' ? 'address' : 'programId';
+    // Programs with an address in the IDL default to it
+    const addressOptional = artifact.kind === 'anchor-idl' && Boolean(artifact.idl!.address || artifact.idl!.metadata?.address);
+    const signatures = methods.map(method => `${method.params.join(', ')} ${method.returnType}`).join('\n');
+    const typeImports = [
+      `${name}Client`,
+      'ContractWriteResult',
+      ...(hasEvents ? [`${name}Events`, 'DecodedEvent'] : []),
+      // Parameter types (CallOptions, instruction accounts, IDL types)
+      ...['CallOptions', ...(artifact.idl?.instructions || []).map(instruction => `${toPascalCase(instruction.name)}Accounts`),
+        ...(artifact.idl?.types || []).map(definition => toPascalCase(definition.name))]
+        .filter(typeName => new RegExp(`\\b${typeName}\\b`).test(signatures)),
+    ];
+    const argNames = (params: string[]) => params.map(param => param.split(/\??:/)[0]).join(', ');
+
+    const lines: string[] = [
+      this.header(artifact),
+      '',
+      `import { useState, useCallback, useMemo${hasEvents ? ', useEffect' : ''} } from 'react';`,
+      `import { BlockchainAdapter } from '${importFrom}';`,
+      'import {',
+      ...[...new Set(typeImports)].map(typeName => `  ${typeName},`),
+      `} from './${name}Client';`,
+      '',
+      `export interface Use${name}Return {`,
+      `  client: ${name}Client;`,
+      '  isLoading: boolean;',
+      '  error: string | null;',
+      ...methods.map(method => `  ${method.tsName}: (${method.params.join(', ')}) => Promise<${method.returnType}>;`),
+      '}',
+      '',
+      `export const use${name} = (adapter: BlockchainAdapter, ${addressParam}${addressOptional ? '?' : ''}: string): Use${name}Return => {`,
+      '  const [isLoading, setIsLoading] = useState(false);',
+      '  const [error, setError] = useState<string | null>(null);',
+      '',
+      `  const client = useMemo(() => new ${name}Client(adapter, ${addressParam}), [adapter, ${addressParam}]);`,
+      '',
+      '  const handleCall = useCallback(async <T>(',
+      '    call: () => Promise<T>,',
+      '    errorMessage: string',
+      '  ): Promise<T> => {',
+      '    setIsLoading(true);',
+      '    setError(null);',
+      '',
+      '    try {',
+      '      return await call();',
+      '    } catch (err) {',
+      '      const errorMsg = err instanceof Error ? err.message : errorMessage;',
+      '      setError(errorMsg);',
+      '      throw new Error(errorMsg);',
+      '    } finally {',
+      '      setIsLoading(false);',
+      '    }',
+      '  }, []);',
+      '',
+    ];
+
+    for (const method of methods) {
+      lines.push(
+        `  const ${method.tsName} = useCallback((${method.params.join(', ')}) =>`,
+        `    handleCall(() => client.${method.tsName}(${argNames(method.params)}), 'Failed to call ${method.tsName}'), [client, handleCall]);`,
+        ''
+      );
+    }
+
+    lines.push(
+      '  return {',
+      '    client,',
+      '    isLoading,',
+      '    error,',
+      ...methods.map(method => `    ${method.tsName},`),
+      '  };',
+      '};',
+      ''
+    );
+
+    if (hasEvents) {
+      lines.push(
+        '/**',
+        ' * Collect events as they arrive; the subscription ends on unmount.',
+        ' */',
+        `export const use${name}Events = <K extends keyof ${name}Events>(`,
+        `  client: ${name}Client,`,
+        '  eventName: K,',
+        '  limit: number = 50',
+        `): { events: DecodedEvent<${name}Events[K]>[]; error: string | null } => {`,
+        `  const [events, setEvents] = useState<DecodedEvent<${name}Events[K]>[]>([]);`,
+        '  const [error, setError] = useState<string | null>(null);',
+        '',
+        '  useEffect(() => {',
+        '    const controller = new AbortController();',
+        '',
+        '    (async () => {',
+        '      try {',
+        '        for await (const event of client.watch(eventName, { signal: controller.signal })) {',
+        '          setEvents(previous => [event, ...previous].slice(0, limit));',
+        '        }',
+        '      } catch (err) {',
+        '        if (!controller.signal.aborted) {',
+        "          setError(err instanceof Error ? err.message : 'Event subscription failed');",
+        '        }',
+        '      }',
+        '    })();',
+        '',
+        '    return () => controller.abort();',
+        '  }, [client, eventName, limit]);',
+        '',
+        '  return { events, error };',
+        '};',
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  // ===========================================================================
+  // HELPERS
+  // ===========================================================================
+
+  private header(artifact: ContractArtifact): string {
+    return `// Generated by \`apix contract codegen\` from ${artifact.source}. Do not edit; regenerate instead.`;
+  }
+
+  /**
+   * @param callOptions - Include CallOptions (gas / value; Solidity only)
+   */
+  private sharedTypes(callOptions: boolean): string[] {
+    return [
+      ...(callOptions ? [
+        'export interface CallOptions {',
+        '  gas?: bigint;',
+        '  value?: bigint;',
+        '}',
+        '',
+      ] : []),
+      '/**',
+      ' * Result of a state-changing call (fields vary by chain).',
+      ' */',
+      'export interface ContractWriteResult {',
+      '  transactionHash?: string;',
+      '  signature?: string;',
+      '  explorerUrl?: string;',
+      '  [key: string]: any;',
+      '}',
+      '',
+    ];
+  }
+
+  private paramName(name: string | undefined, index: number): string {
+    return name ? this.safeName(name) : `arg${index}`;
+  }
+
+  private methodName(name: string): string {
+    const identifier = this.safeName(name);
+    return CLIENT_MEMBERS.has(identifier) ? `${identifier}_` : identifier;
+  }
+
+  private safeName(name: string): string {
+    const identifier = name.replace(/[^A-Za-z0-9_$]/g, '_');
+    return RESERVED_WORDS.has(identifier) || /^\d/.test(identifier) ? `${identifier}_` : identifier;
+  }
+}
+
+function toPascalCase(name: string): string {
+  const camel = toCamelCase(name.replace(/[^A-Za-z0-9_]/g, '_'));
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/_+([A-Za-z0-9])/g, (_match, char: string) => char.toUpperCase());
+}
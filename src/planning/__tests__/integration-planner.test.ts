@@ -0,0 +1,79 @@
+/**
+ * Tests for chain capability checks in integration planning
+ */
+
+import { IntegrationPlanner } from '../integration-planner';
+import { APIxCustomError, ErrorCodes } from '../../utils/errors';
+import { ProjectContext } from '../../types';
+
+const context: ProjectContext = {
+  framework: 'next.js',
+  language: 'typescript',
+  packageManager: 'npm',
+  rootPath: '/tmp/app',
+  dependencies: [],
+  devDependencies: [],
+  scripts: {},
+  hasExistingAuth: false,
+  hasStateManagement: null,
+  hasUILibrary: null,
+  projectStructure: {
+    hasApiRoutes: false,
+    hasPages: true,
+    hasComponents: true,
+    hasHooks: false,
+    hasContexts: false,
+    hasUtils: false,
+    hasStyles: false,
+    directories: [],
+    configFiles: [],
+  },
+  existingIntegrations: [],
+};
+
+describe('IntegrationPlanner', () => {
+  const planner = new IntegrationPlanner();
+
+  describe('chain capabilities', () => {
+    it('should reject chains lacking what the integration needs', async () => {
+      const error = await planner.createIntegrationPlan('consensus', { chain: 'ethereum' }, context).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(APIxCustomError);
+      expect(error.code).toBe(ErrorCodes.CHAIN_CAPABILITY_MISSING);
+      expect(error.message).toBe(
+        '❌ Ethereum cannot run the consensus integration:\n' +
+        '   • consensus-service: Consensus/messaging service (Hedera HCS) not supported'
+      );
+      expect(error.suggestions).toEqual([
+        'Chains that qualify: Hedera',
+        'Compare chains: apix chains --require "consensus-service"',
+      ]);
+    });
+
+    it('should reject chains failing the --require requirements', async () => {
+      const error = await planner.createIntegrationPlan('hts', { chain: 'base', require: 'account-creation' }, context).catch(caught => caught);
+
+      expect(error.details.failures).toEqual([
+        { requirement: 'account-creation', reason: 'On-chain account creation not supported' },
+      ]);
+      expect(error.suggestions).toContain('Compare chains: apix chains --require "tokens,account-creation"');
+    });
+
+    it('should reject chains that pass the check but have no templates', async () => {
+      // Base has ERC-20 tokens, but the hts templates would write Hedera code
+      const error = await planner.createIntegrationPlan('hts', { chain: 'base' }, context).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(APIxCustomError);
+      expect(error.code).toBe(ErrorCodes.CHAIN_TEMPLATES_MISSING);
+      expect(error.message).toBe('❌ The hts integration templates are written for Hedera; Base has none yet');
+      expect(error.details).toEqual({ chain: 'base', type: 'hts' });
+    });
+
+    it('should plan when the chain meets the --require requirements', async () => {
+      const plan = await planner.createIntegrationPlan('hts', { chain: 'hedera', require: 'multisig, finality<5s' }, context);
+
+      expect(plan.type).toBe('hts');
+      expect(plan.templates.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -15,6 +15,21 @@ import {
     WalletProvider
   } from '../types';
   import { logger } from '../utils/logger';
+  import { APIxCustomError, createError } from '../utils/errors';
+  import { CapabilityQuery } from '../blockchain/core/CapabilityQuery';
+  import { ChainRegistry } from '../blockchain/core/ChainRegistry';
+  import { SupportedChain } from '../blockchain/core/types';
+
+  // Chain capabilities each integration needs, as a CapabilityQuery
+  const INTEGRATION_REQUIREMENTS: Partial<Record<IntegrationType, string>> = {
+    hts: 'tokens',
+    'smart-contract': 'smart-contracts',
+    consensus: 'consensus-service',
+    account: 'account-creation'
+  };
+
+  // Chains the integration templates are written for
+  const TEMPLATE_CHAINS: SupportedChain[] = ['hedera'];
   
   export class IntegrationPlanner {
     
@@ -82,6 +97,10 @@ import {
         configuration: []
       };
 
+      // Reject chains lacking a capability, or templates, before selecting templates
+      this.checkChainCapabilities(type, options);
+      this.checkChainTemplates(type, options);
+
       let resultPlan: IntegrationPlan;
 
       switch (type) {
@@ -110,10 +129,41 @@ import {
       return resultPlan;
       } catch (error: any) {
         logger.error('Failed to create integration plan:', error.message);
+        // Keep the code and suggestions of APIx errors (e.g. missing chain capabilities)
+        if (error instanceof APIxCustomError) throw error;
         throw new Error(`Integration plan creation failed: ${error.message}`);
       }
     }
 
+    /**
+     * Check the target chain (default Hedera) against the integration's
+     * requirements plus any extra ones from options.require
+     */
+    private checkChainCapabilities(type: IntegrationType, options: IntegrationOptions): void {
+      const chain = (options.chain || 'hedera') as SupportedChain;
+      const query = [INTEGRATION_REQUIREMENTS[type], options.require].filter(Boolean).join(',');
+      if (!query) return;
+
+      const failures = CapabilityQuery.check(chain, query);
+      if (failures.length === 0) return;
+
+      const name = ChainRegistry.getChain(chain).metadata.displayName;
+      const alternatives = CapabilityQuery.run(query).matches.map(match => match.displayName);
+
+      throw createError.chainCapabilityMissing(name, type, failures, alternatives, query);
+    }
+
+    /**
+     * Templates only target Hedera so far: a chain that passes the capability
+     * check would otherwise still get Hedera code
+     */
+    private checkChainTemplates(type: IntegrationType, options: IntegrationOptions): void {
+      const chain = (options.chain || 'hedera') as SupportedChain;
+      if (TEMPLATE_CHAINS.includes(chain)) return;
+
+      throw createError.chainTemplatesMissing(ChainRegistry.getChain(chain).metadata.displayName, chain, type);
+    }
+
     private validateIntegrationPlan(plan: IntegrationPlan): void {
       // Check if plan has templates
       if (!plan.templates || plan.templates.length === 0) {
@@ -2,6 +2,7 @@ import { Client, AccountId, PrivateKey, TokenCreateTransaction, TokenType, Token
 import { logger } from '../utils/logger';
 import { getTestAccount, validateTestAccount, getTestClient, TestAccount } from '../utils/test-accounts';
 import { HederaAgentKitService } from './hedera-agent-kit-service';
+import { getLocalnetDevAccount, getLocalnetEndpoints } from '../blockchain/core/Localnet';
 
 /**
  * Hedera Operations Service
@@ -68,17 +69,57 @@ export interface TopicMessageOptions {
   submitKey?: string;
 }
 
+export type HederaNetwork = 'testnet' | 'mainnet' | 'localnet';
+
 export class HederaOperationsService {
   private client: Client | null = null;
   private agentKitService: HederaAgentKitService | null = null;
-  private network: 'testnet' | 'mainnet';
+  private network: HederaNetwork;
   private testAccount: TestAccount | null = null;
   private initialized: boolean = false;
 
-  constructor(network: 'testnet' | 'mainnet' = 'testnet') {
+  constructor(network: HederaNetwork = 'testnet') {
     this.network = network;
   }
 
+  /**
+   * Switch network. Takes effect on the next initialize().
+   */
+  setNetwork(network: HederaNetwork): void {
+    if (network !== this.network) {
+      this.close();
+      this.network = network;
+    }
+  }
+
+  /**
+   * Operator credentials: the local node's genesis account on localnet
+   * (the HEDERA_* pair names a testnet/mainnet account that does not
+   * exist there), otherwise the environment.
+   */
+  private getOperatorCredentials(): { accountId: string; privateKey: string } | null {
+    if (this.network === 'localnet') {
+      const devAccount = getLocalnetDevAccount('hedera')!;
+      return { accountId: devAccount.address, privateKey: devAccount.privateKey };
+    }
+
+    const accountId = process.env.HEDERA_ACCOUNT_ID;
+    const privateKey = process.env.HEDERA_PRIVATE_KEY;
+
+    if (accountId && privateKey) {
+      return { accountId, privateKey };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check if operations run against a real network (not simulated)
+   */
+  hasLiveCredentials(): boolean {
+    return this.getOperatorCredentials() !== null;
+  }
+
   /**
    * Initialize the service with credentials or test account
    */
@@ -86,13 +127,16 @@ export class HederaOperationsService {
     if (this.initialized) return;
 
     try {
-      // Try to use environment credentials first
-      const accountId = process.env.HEDERA_ACCOUNT_ID;
-      const privateKey = process.env.HEDERA_PRIVATE_KEY;
+      // Try local node (or environment) credentials first
+      const credentials = this.getOperatorCredentials();
 
-      if (accountId && privateKey) {
+      if (credentials) {
+        const { accountId, privateKey } = credentials;
         await this.initializeWithCredentials(accountId, privateKey);
-        await this.initializeAgentKit(accountId, privateKey);
+        // AgentKit only knows the public networks
+        if (this.network !== 'localnet') {
+          await this.initializeAgentKit(accountId, privateKey);
+        }
         logger.internal('info', 'Hedera Operations initialized with environment credentials', {
           network: this.network,
           agentKitAvailable: this.agentKitService?.isAvailable() || false
@@ -119,7 +163,7 @@ export class HederaOperationsService {
       this.agentKitService = new HederaAgentKitService({
         accountId,
         privateKey,
-        network: this.network
+        network: this.network as 'testnet' | 'mainnet' // Never called on localnet
       });
 
       await this.agentKitService.initialize();
@@ -143,6 +187,10 @@ export class HederaOperationsService {
     // Initialize client
     if (this.network === 'mainnet') {
       this.client = Client.forMainnet();
+    } else if (this.network === 'localnet') {
+      const endpoints = getLocalnetEndpoints('hedera');
+      this.client = Client.forNetwork({ [endpoints.rpcUrl]: endpoints.nodeAccountId! });
+      this.client.setMirrorNetwork(endpoints.mirrorNodeGrpc!);
     } else {
       this.client = Client.forTestnet();
     }
@@ -201,7 +249,7 @@ export class HederaOperationsService {
     }
 
     // Check if we have real credentials vs test accounts
-    const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+    const hasRealCredentials = this.hasLiveCredentials();
 
     // Try AgentKit first if available
     if (this.agentKitService && this.agentKitService.isAvailable()) {
@@ -337,7 +385,7 @@ export class HederaOperationsService {
       if (this.testAccount) {
         operatorKey = PrivateKey.fromString(this.testAccount.privateKey);
       } else {
-        const privateKeyString = process.env.HEDERA_PRIVATE_KEY;
+        const privateKeyString = this.getOperatorCredentials()?.privateKey;
         if (!privateKeyString) {
           throw new Error('No private key available for signing');
         }
@@ -431,7 +479,7 @@ export class HederaOperationsService {
     }
 
     // Check if using test accounts without real credentials - simulate transfer
-    const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+    const hasRealCredentials = this.hasLiveCredentials();
     if (!hasRealCredentials && this.testAccount) {
       logger.info('Simulating token transfer with test account');
       return {
@@ -530,7 +578,7 @@ export class HederaOperationsService {
     }
 
     // Check if using test accounts without real credentials - simulate deployment
-    const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+    const hasRealCredentials = this.hasLiveCredentials();
     if (!hasRealCredentials && this.testAccount) {
       logger.info('Simulating smart contract deployment with test account');
       return {
@@ -563,7 +611,7 @@ export class HederaOperationsService {
       if (options.adminKey) {
         const operatorKey = this.testAccount
           ? PrivateKey.fromString(this.testAccount.privateKey)
-          : PrivateKey.fromString(process.env.HEDERA_PRIVATE_KEY!);
+          : PrivateKey.fromString(this.getOperatorCredentials()!.privateKey);
         fileCreateTx.setKeys([operatorKey.publicKey]);
       }
 
@@ -653,7 +701,7 @@ export class HederaOperationsService {
     }
 
     // Check if using test accounts without real credentials - simulate call
-    const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+    const hasRealCredentials = this.hasLiveCredentials();
     if (!hasRealCredentials && this.testAccount) {
       logger.info('Simulating smart contract call with test account');
       return {
@@ -751,7 +799,7 @@ export class HederaOperationsService {
     }
 
     // Check if using test accounts without real credentials - simulate topic creation
-    const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+    const hasRealCredentials = this.hasLiveCredentials();
     if (!hasRealCredentials && this.testAccount) {
       logger.info('Simulating HCS topic creation with test account');
       return {
@@ -786,7 +834,7 @@ export class HederaOperationsService {
       if (options.adminKey || options.submitKey) {
         const operatorKey = this.testAccount
           ? PrivateKey.fromString(this.testAccount.privateKey)
-          : PrivateKey.fromString(process.env.HEDERA_PRIVATE_KEY!);
+          : PrivateKey.fromString(this.getOperatorCredentials()!.privateKey);
 
         if (options.adminKey) {
           topicCreateTx.setAdminKey(operatorKey.publicKey);
@@ -864,7 +912,7 @@ export class HederaOperationsService {
     }
 
     // Check if using test accounts without real credentials - simulate message submission
-    const hasRealCredentials = process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY;
+    const hasRealCredentials = this.hasLiveCredentials();
     if (!hasRealCredentials && this.testAccount) {
       logger.info('Simulating HCS message submission with test account');
       return {
@@ -937,6 +985,13 @@ export class HederaOperationsService {
    * Get Hedera Explorer URL for transaction or entity
    */
   private getExplorerUrl(id: string, type: 'transaction' | 'token' | 'account'): string {
+    // Local nodes have no public explorer; point at the local mirror node instead
+    if (this.network === 'localnet') {
+      const mirrorNodeUrl = getLocalnetEndpoints('hedera').mirrorNodeUrl;
+      const resource = type === 'transaction' ? 'transactions' : type === 'token' ? 'tokens' : 'accounts';
+      return `${mirrorNodeUrl}/api/v1/${resource}/${id}`;
+    }
+
     const baseUrl = this.network === 'mainnet'
       ? 'https://hashscan.io/mainnet'
       : 'https://hashscan.io/testnet';
@@ -979,7 +1034,7 @@ export class HederaOperationsService {
   /**
    * Get current network
    */
-  getNetwork(): 'testnet' | 'mainnet' {
+  getNetwork(): HederaNetwork {
     return this.network;
   }
 
@@ -1010,7 +1065,7 @@ export class HederaOperationsService {
 
 // Export singleton instance
 export const hederaOperations = new HederaOperationsService(
-  (process.env.HEDERA_NETWORK as 'testnet' | 'mainnet') || 'testnet'
+  (process.env.HEDERA_NETWORK as HederaNetwork) || 'testnet'
 );
 
 // Helper functions
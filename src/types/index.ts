@@ -15,6 +15,8 @@ export interface IntegrationOptions {
   provider?: string;
   type?: string;
   force?: boolean;
+  chain?: string;    // Target chain (default: hedera)
+  require?: string;  // Extra capability requirements, e.g. "multisig,finality<5s"
 }
 
 // Project Analysis Types
@@ -201,6 +203,8 @@ export interface APIxConfig {
     customPaths: Record<string, string>;
     overrides: Record<string, any>;
   };
+  plugins?: string[];  // Chain plugin packages or paths, registered at startup (see ChainPlugins)
+  rankingProfile?: string;  // Ranking profile JSON, relative to the project (see ChainRankingEngine)
 }
 
 // Error Types
@@ -132,7 +132,9 @@ export class ConfigurationManager {
       templates: {
         ...defaultConfig.templates,
         ...(config.templates || {})
-      }
+      },
+      ...(Array.isArray(config.plugins) ? { plugins: config.plugins } : {}),
+      ...(typeof config.rankingProfile === 'string' ? { rankingProfile: config.rankingProfile } : {})
     };
   }
 
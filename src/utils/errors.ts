@@ -39,6 +39,8 @@ export const ErrorCodes = {
   INVALID_INTEGRATION_TYPE: 'INVALID_INTEGRATION_TYPE',
   TEMPLATE_NOT_FOUND: 'TEMPLATE_NOT_FOUND',
   DEPENDENCY_CONFLICT: 'DEPENDENCY_CONFLICT',
+  CHAIN_CAPABILITY_MISSING: 'CHAIN_CAPABILITY_MISSING',
+  CHAIN_TEMPLATES_MISSING: 'CHAIN_TEMPLATES_MISSING',
   
   // Configuration Errors
   CONFIG_INVALID: 'CONFIG_INVALID',
@@ -97,6 +99,37 @@ export const createError = {
       ]
     ),
 
+  chainCapabilityMissing: (
+    chain: string,
+    type: string,
+    failures: Array<{ requirement: string; reason: string }>,
+    alternatives: string[],
+    query: string
+  ): APIxCustomError =>
+    new APIxCustomError(
+      `❌ ${chain} cannot run the ${type} integration:\n` +
+        failures.map(failure => `   • ${failure.requirement}: ${failure.reason}`).join('\n'),
+      ErrorCodes.CHAIN_CAPABILITY_MISSING,
+      { chain, type, failures },
+      [
+        alternatives.length > 0
+          ? `Chains that qualify: ${alternatives.join(', ')}`
+          : 'No registered chain meets these requirements',
+        `Compare chains: apix chains --require "${query}"`
+      ]
+    ),
+
+  chainTemplatesMissing: (chain: string, chainId: string, type: string): APIxCustomError =>
+    new APIxCustomError(
+      `❌ The ${type} integration templates are written for Hedera; ${chain} has none yet`,
+      ErrorCodes.CHAIN_TEMPLATES_MISSING,
+      { chain: chainId, type },
+      [
+        `Drop --chain (or use --chain hedera) to add the Hedera ${type} integration`,
+        `Use ${chain} through the multi-chain adapters: AdapterFactory.createAdapter('${chainId}', config)`
+      ]
+    ),
+
   invalidAccountId: (accountId: string): APIxCustomError =>
     new APIxCustomError(
       `Invalid Hedera account ID format: ${accountId}`,
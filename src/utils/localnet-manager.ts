@@ -0,0 +1,236 @@
+/**
+ * Localnet Manager
+ *
+ * Starts, stops and probes local blockchain nodes for `apix localnet`:
+ * - EVM: anvil (falls back to `hardhat node`)
+ * - Solana: solana-test-validator
+ * - Hedera: Hedera local node (`@hashgraph/hedera-local`, runs in Docker)
+ *
+ * Node processes are detached; their PIDs and logs live in .apix/localnet/
+ * so `apix localnet down` can stop them from a later shell.
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { spawn, spawnSync } from 'child_process';
+import { logger } from './logger';
+import {
+  LOCALNET_PROFILES,
+  LocalnetFamily,
+  LocalnetProfile,
+} from '../blockchain/core/Localnet';
+
+export interface LocalnetProcess {
+  family: LocalnetFamily;
+  pid?: number;              // Undefined for nodes that manage their own processes (Hedera)
+  command: string;
+  logFile: string;
+  startedAt: string;
+}
+
+export interface LocalnetStatus {
+  family: LocalnetFamily;
+  displayName: string;
+  rpcUrl: string;
+  reachable: boolean;
+  managed: boolean;          // Started by `apix localnet up`
+  pid?: number;
+}
+
+export class LocalnetManager {
+  private stateDir: string;
+  private stateFile: string;
+
+  constructor(projectPath: string = process.cwd()) {
+    this.stateDir = path.join(projectPath, '.apix', 'localnet');
+    this.stateFile = path.join(this.stateDir, 'processes.json');
+  }
+
+  /**
+   * Start the local node for a chain family and wait until it answers.
+   */
+  async up(family: LocalnetFamily, timeoutMs: number = 60000): Promise<LocalnetProcess> {
+    const profile = LOCALNET_PROFILES[family];
+    const state = await this.loadState();
+
+    if (await this.isReachable(profile)) {
+      logger.info(`${profile.displayName} is already running`, { rpcUrl: profile.endpoints.rpcUrl });
+      return state[family] || {
+        family,
+        command: 'external',
+        logFile: '',
+        startedAt: new Date().toISOString(),
+      };
+    }
+
+    const command = this.findInstalledCommand(profile);
+    if (!command) {
+      throw new Error(
+        `${profile.displayName} is not installed. Tried: ${profile.startCommands.map(c => c[0] === 'npx' ? c.slice(2).join(' ') : c[0]).join(', ')}`
+      );
+    }
+
+    await fs.ensureDir(this.stateDir);
+    const logFile = path.join(this.stateDir, `${family}.log`);
+    const logFd = fs.openSync(logFile, 'a');
+
+    const child = spawn(command[0], command.slice(1), {
+      detached: true,
+      stdio: ['ignore', logFd, logFd],
+    });
+    child.unref();
+    fs.closeSync(logFd);
+
+    const processInfo: LocalnetProcess = {
+      family,
+      // Hedera's CLI starts Docker containers and exits; it is stopped via its own command
+      pid: profile.stopCommand ? undefined : child.pid,
+      command: command.join(' '),
+      logFile,
+      startedAt: new Date().toISOString(),
+    };
+
+    state[family] = processInfo;
+    await this.saveState(state);
+
+    const ready = await this.waitUntilReachable(profile, timeoutMs);
+    if (!ready) {
+      throw new Error(
+        `${profile.displayName} did not become reachable at ${profile.endpoints.rpcUrl} within ${timeoutMs / 1000}s. See ${logFile}`
+      );
+    }
+
+    logger.info(`${profile.displayName} started`, { rpcUrl: profile.endpoints.rpcUrl, pid: processInfo.pid });
+    return processInfo;
+  }
+
+  /**
+   * Stop a local node started by `up`.
+   *
+   * @returns false if there was nothing to stop
+   */
+  async down(family: LocalnetFamily): Promise<boolean> {
+    const profile = LOCALNET_PROFILES[family];
+    const state = await this.loadState();
+    const processInfo = state[family];
+
+    if (!processInfo) {
+      return false;
+    }
+
+    if (profile.stopCommand) {
+      spawnSync(profile.stopCommand[0], profile.stopCommand.slice(1), { stdio: 'ignore' });
+    } else if (processInfo.pid) {
+      try {
+        // Negative PID stops the whole detached process group
+        process.kill(-processInfo.pid, 'SIGTERM');
+      } catch (error: any) {
+        if (error.code !== 'ESRCH') {
+          throw error;
+        }
+        logger.debug(`${profile.displayName} process ${processInfo.pid} already exited`);
+      }
+    }
+
+    delete state[family];
+    await this.saveState(state);
+    return true;
+  }
+
+  /**
+   * Report which local nodes are running and reachable.
+   */
+  async status(families: LocalnetFamily[] = ['evm', 'solana', 'hedera']): Promise<LocalnetStatus[]> {
+    const state = await this.loadState();
+
+    return Promise.all(families.map(async (family) => {
+      const profile = LOCALNET_PROFILES[family];
+      return {
+        family,
+        displayName: profile.displayName,
+        rpcUrl: profile.endpoints.rpcUrl,
+        reachable: await this.isReachable(profile),
+        managed: !!state[family],
+        pid: state[family]?.pid,
+      };
+    }));
+  }
+
+  /**
+   * Probe a local node's API.
+   */
+  async isReachable(profile: LocalnetProfile): Promise<boolean> {
+    try {
+      switch (profile.family) {
+        case 'evm':
+          return await this.jsonRpcPing(profile.endpoints.rpcUrl, 'eth_chainId');
+        case 'solana':
+          return await this.jsonRpcPing(profile.endpoints.rpcUrl, 'getHealth');
+        case 'hedera': {
+          // The consensus node is gRPC; the mirror node REST API is the easiest health signal
+          const response = await fetch(`${profile.endpoints.mirrorNodeUrl}/api/v1/network/nodes`, {
+            signal: AbortSignal.timeout(2000),
+          });
+          return response.ok;
+        }
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  private async jsonRpcPing(url: string, method: string): Promise<boolean> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }),
+      signal: AbortSignal.timeout(2000),
+    });
+    return response.ok;
+  }
+
+  private async waitUntilReachable(profile: LocalnetProfile, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (await this.isReachable(profile)) {
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    return false;
+  }
+
+  /**
+   * Find the first start command whose binary is installed.
+   */
+  private findInstalledCommand(profile: LocalnetProfile): string[] | null {
+    for (const command of profile.startCommands) {
+      // `npx --no-install <bin> --version` fails fast when the package is missing
+      const probeArgs = command[0] === 'npx'
+        ? [...command.slice(1, 3), '--version']
+        : ['--version'];
+      const probe = spawnSync(command[0], probeArgs, { stdio: 'ignore', timeout: 15000 });
+      if (!probe.error && probe.status === 0) {
+        return command;
+      }
+    }
+    return null;
+  }
+
+  private async loadState(): Promise<Partial<Record<LocalnetFamily, LocalnetProcess>>> {
+    if (!await fs.pathExists(this.stateFile)) {
+      return {};
+    }
+    try {
+      return await fs.readJSON(this.stateFile);
+    } catch (error) {
+      logger.warn('Ignoring unreadable localnet state file', error);
+      return {};
+    }
+  }
+
+  private async saveState(state: Partial<Record<LocalnetFamily, LocalnetProcess>>): Promise<void> {
+    await fs.ensureDir(this.stateDir);
+    await fs.writeJSON(this.stateFile, state, { spaces: 2 });
+  }
+}
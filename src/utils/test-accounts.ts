@@ -21,15 +21,18 @@ export interface TestAccountConfig {
   network?: 'testnet' | 'mainnet';
   initialBalance?: number; // In HBAR
   maxAccounts?: number;
+  maxAutoAssociations?: number; // Automatic token association slots of created accounts (-1 = unlimited)
 }
 
 export class TestAccountManager {
   private client: Client | null = null;
   private network: 'testnet' | 'mainnet';
   private testAccounts: TestAccount[] = [];
+  private maxAutoAssociations?: number;
 
   constructor(config: TestAccountConfig = {}) {
     this.network = config.network || 'testnet';
+    this.maxAutoAssociations = config.maxAutoAssociations;
     this.initializeClient();
   }
 
@@ -94,9 +97,14 @@ export class TestAccountManager {
   }
 
   /**
-   * Create a new test account on Hedera network
+   * Create a new test account on Hedera network.
+   * With automatic association slots, the account receives tokens without
+   * associating them first.
    */
-  async createTestAccount(initialBalance: number = 100): Promise<TestAccount> {
+  async createTestAccount(
+    initialBalance: number = 100,
+    maxAutoAssociations: number | undefined = this.maxAutoAssociations
+  ): Promise<TestAccount> {
     if (!this.client) {
       throw new Error('Client not initialized - cannot create test accounts');
     }
@@ -108,7 +116,8 @@ export class TestAccountManager {
 
       logger.info('Creating new test account...', {
         network: this.network,
-        initialBalance: `${initialBalance} HBAR`
+        initialBalance: `${initialBalance} HBAR`,
+        maxAutoAssociations
       });
 
       // Create account transaction
@@ -116,6 +125,10 @@ export class TestAccountManager {
         .setKey(publicKey)
         .setInitialBalance(Hbar.fromTinybars(initialBalance * 100_000_000)); // Convert HBAR to tinybars
 
+      if (maxAutoAssociations !== undefined) {
+        transaction.setMaxAutomaticTokenAssociations(maxAutoAssociations);
+      }
+
       // Execute transaction
       const response = await transaction.execute(this.client);
       const receipt = await response.getReceipt(this.client);
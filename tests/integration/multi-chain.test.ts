@@ -34,6 +34,7 @@ import {
 import * as mockEthersModule from '@test-mocks/ethers.mock'
 import * as mockSolanaModule from '@test-mocks/solana-web3.mock'
 import * as mockSplTokenModule from '@test-mocks/spl-token.mock'
+import * as mockMetaplexModule from '@test-mocks/mpl-token-metadata.mock'
 
 /**
  * Create mock Hedera config
@@ -101,7 +102,7 @@ class TestableSolanaAdapter extends SolanaAdapter {
   }
 
   protected async loadMetaplex(): Promise<any> {
-    return {}
+    return mockMetaplexModule
   }
 }
 
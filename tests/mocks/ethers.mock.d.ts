@@ -26,9 +26,9 @@
  * Our mock simulates network responses.
  */
 export declare class MockJsonRpcProvider {
-    url?: string | undefined;
+    url?: string;
     private _network;
-    constructor(url?: string | undefined);
+    constructor(urlOrRequest?: string | MockFetchRequest);
     getNetwork(): Promise<{
         chainId: bigint;
         name: string;
@@ -39,9 +39,24 @@ export declare class MockJsonRpcProvider {
     getTransaction(txHash: string): Promise<MockTransactionResponse | null>;
     estimateGas(_tx: any): Promise<bigint>;
     getBlockNumber(): Promise<number>;
+    getTransactionCount(_address: string, _blockTag?: string): Promise<number>;
+    getLogs(_filter: any): Promise<any[]>;
+    call(_tx: any): Promise<string>;
+    send(method: string, _params: any[]): Promise<any>;
     broadcastTransaction(_signedTx: string): Promise<MockTransactionResponse>;
     destroy(): void;
 }
+/**
+ * Mock FetchRequest
+ *
+ * The real FetchRequest lets callers replace the HTTP transport
+ * (used for RPC record/replay and endpoint pools).
+ */
+export declare class MockFetchRequest {
+    url: string;
+    getUrlFunc?: (req: any) => Promise<any>;
+    constructor(url: string);
+}
 /**
  * Mock BrowserProvider (for wallet connections)
  */
@@ -64,6 +79,7 @@ export declare class MockWallet {
     getAddress(): Promise<string>;
     signTransaction(tx: any): Promise<string>;
     signMessage(_message: string): Promise<string>;
+    signTypedData(_domain: any, _types: any, _value: any): Promise<string>;
     sendTransaction(tx: any): Promise<MockTransactionResponse>;
     static fromPhrase(_mnemonic: string, _provider?: MockJsonRpcProvider): MockWallet;
     static createRandom(): MockWallet;
@@ -103,10 +119,21 @@ export declare class MockContract {
     symbol(): Promise<string>;
     transfer(_to: string, _amount: bigint): Promise<MockTransactionResponse>;
     approve(_spender: string, _amount: bigint): Promise<MockTransactionResponse>;
+    allowance(_owner: string, _spender: string): Promise<bigint>;
+    transferFrom(_from: string, _to: string, _amount: bigint): Promise<MockTransactionResponse>;
+    mint(_to: string, _amount: bigint): Promise<MockTransactionResponse>;
+    burn(_amount: bigint): Promise<MockTransactionResponse>;
     ownerOf(_tokenId: bigint): Promise<string>;
     tokenURI(_tokenId: bigint): Promise<string>;
     safeMint(_to: string, _tokenId: bigint): Promise<MockTransactionResponse>;
     safeTransferFrom(_from: string, _to: string, _tokenId: bigint): Promise<MockTransactionResponse>;
+    royaltyInfo(_tokenId: bigint, _salePrice: bigint): Promise<[string, bigint]>;
+    setDefaultRoyalty(_receiver: string, _basisPoints: number): Promise<MockTransactionResponse>;
+    mintBatch(_to: string, _ids: bigint[], _amounts: bigint[], _data: string): Promise<MockTransactionResponse>;
+    safeBatchTransferFrom(_from: string, _to: string, _ids: bigint[], _amounts: bigint[], _data: string): Promise<MockTransactionResponse>;
+    nonce(): Promise<bigint>;
+    getThreshold(): Promise<bigint>;
+    execTransaction(..._args: any[]): Promise<MockTransactionResponse>;
 }
 /**
  * Mock ContractFactory
@@ -122,6 +149,9 @@ export declare class MockContractFactory {
         deploymentTransaction(): MockTransactionResponse;
         waitForDeployment(): Promise<MockContract>;
     }>;
+    getDeployTransaction(..._args: any[]): Promise<{
+        data: string;
+    }>;
     static fromSolidity(_source: string, _signer: MockWallet | MockSigner): MockContractFactory;
 }
 /**
@@ -133,7 +163,7 @@ export declare class MockInterface {
     encodeFunctionData(_functionName: string, _args?: any[]): string;
     decodeFunctionResult(_functionName: string, _data: string): any[];
     parseLog(_log: any): any;
-    getFunction(_nameOrSignature: string): any;
+    getFunction(nameOrSignature: string): any;
 }
 /**
  * Mock FeeData
@@ -193,6 +223,7 @@ export declare function hexlify(data: Uint8Array | string): string;
  */
 export declare const ethers: {
     JsonRpcProvider: typeof MockJsonRpcProvider;
+    FetchRequest: typeof MockFetchRequest;
     BrowserProvider: typeof MockBrowserProvider;
     Wallet: typeof MockWallet;
     Contract: typeof MockContract;
@@ -211,6 +242,7 @@ export declare const ethers: {
 };
 declare const _default: {
     JsonRpcProvider: typeof MockJsonRpcProvider;
+    FetchRequest: typeof MockFetchRequest;
     BrowserProvider: typeof MockBrowserProvider;
     Wallet: typeof MockWallet;
     Contract: typeof MockContract;
@@ -21,7 +21,7 @@
  * ```
  */
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.ethers = exports.MockTransactionReceipt = exports.MockTransactionResponse = exports.MockFeeData = exports.MockInterface = exports.MockContractFactory = exports.MockContract = exports.MockSigner = exports.MockWallet = exports.MockBrowserProvider = exports.MockJsonRpcProvider = void 0;
+exports.ethers = exports.MockTransactionReceipt = exports.MockTransactionResponse = exports.MockFeeData = exports.MockInterface = exports.MockContractFactory = exports.MockContract = exports.MockSigner = exports.MockWallet = exports.MockBrowserProvider = exports.MockFetchRequest = exports.MockJsonRpcProvider = void 0;
 exports.parseEther = parseEther;
 exports.formatEther = formatEther;
 exports.parseUnits = parseUnits;
@@ -40,7 +40,8 @@ const test_helpers_1 = require("../utils/test-helpers");
  * Our mock simulates network responses.
  */
 class MockJsonRpcProvider {
-    constructor(url) {
+    constructor(urlOrRequest) {
+        const url = typeof urlOrRequest === 'string' ? urlOrRequest : urlOrRequest?.url;
         this.url = url;
         // Determine network from URL
         if (url?.includes('sepolia')) {
@@ -79,6 +80,20 @@ class MockJsonRpcProvider {
     async getBlockNumber() {
         return 12345678;
     }
+    async getTransactionCount(_address, _blockTag) {
+        // Fresh account: nothing sent yet
+        return 0;
+    }
+    async getLogs(_filter) {
+        return [];
+    }
+    async call(_tx) {
+        return '0x';
+    }
+    async send(method, _params) {
+        // Like most public endpoints, no debug_* namespace
+        throw new Error(`the method ${method} does not exist/is not available`);
+    }
     async broadcastTransaction(_signedTx) {
         return new MockTransactionResponse();
     }
@@ -87,6 +102,18 @@ class MockJsonRpcProvider {
     }
 }
 exports.MockJsonRpcProvider = MockJsonRpcProvider;
+/**
+ * Mock FetchRequest
+ *
+ * The real FetchRequest lets callers replace the HTTP transport
+ * (used for RPC record/replay and endpoint pools).
+ */
+class MockFetchRequest {
+    constructor(url) {
+        this.url = url;
+    }
+}
+exports.MockFetchRequest = MockFetchRequest;
 /**
  * Mock BrowserProvider (for wallet connections)
  */
@@ -129,6 +156,9 @@ class MockWallet {
         // Return mock signature
         return '0x' + 'a'.repeat(130);
     }
+    async signTypedData(_domain, _types, _value) {
+        return '0x' + 'b'.repeat(130);
+    }
     async sendTransaction(tx) {
         return new MockTransactionResponse();
     }
@@ -217,6 +247,18 @@ class MockContract {
     async approve(_spender, _amount) {
         return new MockTransactionResponse();
     }
+    async allowance(_owner, _spender) {
+        return BigInt(0);
+    }
+    async transferFrom(_from, _to, _amount) {
+        return new MockTransactionResponse();
+    }
+    async mint(_to, _amount) {
+        return new MockTransactionResponse();
+    }
+    async burn(_amount) {
+        return new MockTransactionResponse();
+    }
     // Simulate ERC-721 methods
     async ownerOf(_tokenId) {
         return (0, test_helpers_1.generateMockEthAddress)();
@@ -230,6 +272,29 @@ class MockContract {
     async safeTransferFrom(_from, _to, _tokenId) {
         return new MockTransactionResponse();
     }
+    async royaltyInfo(_tokenId, _salePrice) {
+        return [(0, test_helpers_1.generateMockEthAddress)(), BigInt(0)];
+    }
+    async setDefaultRoyalty(_receiver, _basisPoints) {
+        return new MockTransactionResponse();
+    }
+    // Simulate ERC-1155 methods
+    async mintBatch(_to, _ids, _amounts, _data) {
+        return new MockTransactionResponse();
+    }
+    async safeBatchTransferFrom(_from, _to, _ids, _amounts, _data) {
+        return new MockTransactionResponse();
+    }
+    // Simulate Safe methods (a 1-of-1 Safe)
+    async nonce() {
+        return BigInt(0);
+    }
+    async getThreshold() {
+        return BigInt(1);
+    }
+    async execTransaction(..._args) {
+        return new MockTransactionResponse();
+    }
 }
 exports.MockContract = MockContract;
 /**
@@ -250,6 +315,9 @@ class MockContractFactory {
         contract.waitForDeployment = async () => contract;
         return contract;
     }
+    async getDeployTransaction(..._args) {
+        return { data: this.bytecode };
+    }
     static fromSolidity(_source, _signer) {
         return new MockContractFactory(new MockInterface([]), '0x', _signer);
     }
@@ -271,8 +339,13 @@ class MockInterface {
     parseLog(_log) {
         return null;
     }
-    getFunction(_nameOrSignature) {
-        return { name: _nameOrSignature };
+    getFunction(nameOrSignature) {
+        const name = nameOrSignature.split('(')[0];
+        const entry = this.abi.find(item => typeof item === 'string' ? item.startsWith(`function ${name}(`) : item?.name === name);
+        const stateMutability = typeof entry === 'string'
+            ? /\b(view|pure|payable)\b/.exec(entry)?.[1] || 'nonpayable'
+            : entry?.stateMutability || 'nonpayable';
+        return { name, stateMutability, constant: stateMutability === 'view' || stateMutability === 'pure' };
     }
 }
 exports.MockInterface = MockInterface;
@@ -382,6 +455,7 @@ function hexlify(data) {
  */
 exports.ethers = {
     JsonRpcProvider: MockJsonRpcProvider,
+    FetchRequest: MockFetchRequest,
     BrowserProvider: MockBrowserProvider,
     Wallet: MockWallet,
     Contract: MockContract,
@@ -400,6 +474,7 @@ exports.ethers = {
 };
 exports.default = {
     JsonRpcProvider: MockJsonRpcProvider,
+    FetchRequest: MockFetchRequest,
     BrowserProvider: MockBrowserProvider,
     Wallet: MockWallet,
     Contract: MockContract,
@@ -29,9 +29,13 @@ import { generateMockEthAddress, generateMockTxHash } from '../utils/test-helper
  * Our mock simulates network responses.
  */
 export class MockJsonRpcProvider {
+  public url?: string
   private _network: { chainId: bigint; name: string }
 
-  constructor(public url?: string) {
+  constructor(urlOrRequest?: string | MockFetchRequest) {
+    const url = typeof urlOrRequest === 'string' ? urlOrRequest : urlOrRequest?.url
+    this.url = url
+
     // Determine network from URL
     if (url?.includes('sepolia')) {
       this._network = { chainId: BigInt(11155111), name: 'sepolia' }
@@ -74,6 +78,24 @@ export class MockJsonRpcProvider {
     return 12345678
   }
 
+  async getTransactionCount(_address: string, _blockTag?: string): Promise<number> {
+    // Fresh account: nothing sent yet
+    return 0
+  }
+
+  async getLogs(_filter: any): Promise<any[]> {
+    return []
+  }
+
+  async call(_tx: any): Promise<string> {
+    return '0x'
+  }
+
+  async send(method: string, _params: any[]): Promise<any> {
+    // Like most public endpoints, no debug_* namespace
+    throw new Error(`the method ${method} does not exist/is not available`)
+  }
+
   async broadcastTransaction(_signedTx: string): Promise<MockTransactionResponse> {
     return new MockTransactionResponse()
   }
@@ -83,6 +105,18 @@ export class MockJsonRpcProvider {
   }
 }
 
+/**
+ * Mock FetchRequest
+ *
+ * The real FetchRequest lets callers replace the HTTP transport
+ * (used for RPC record/replay and endpoint pools).
+ */
+export class MockFetchRequest {
+  public getUrlFunc?: (req: any) => Promise<any>
+
+  constructor(public url: string) {}
+}
+
 /**
  * Mock BrowserProvider (for wallet connections)
  */
@@ -132,6 +166,10 @@ export class MockWallet {
     return '0x' + 'a'.repeat(130)
   }
 
+  async signTypedData(_domain: any, _types: any, _value: any): Promise<string> {
+    return '0x' + 'b'.repeat(130)
+  }
+
   async sendTransaction(tx: any): Promise<MockTransactionResponse> {
     return new MockTransactionResponse()
   }
@@ -251,6 +289,22 @@ export class MockContract {
     return new MockTransactionResponse()
   }
 
+  async allowance(_owner: string, _spender: string): Promise<bigint> {
+    return BigInt(0)
+  }
+
+  async transferFrom(_from: string, _to: string, _amount: bigint): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+
+  async mint(_to: string, _amount: bigint): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+
+  async burn(_amount: bigint): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+
   // Simulate ERC-721 methods
   async ownerOf(_tokenId: bigint): Promise<string> {
     return generateMockEthAddress()
@@ -267,6 +321,36 @@ export class MockContract {
   async safeTransferFrom(_from: string, _to: string, _tokenId: bigint): Promise<MockTransactionResponse> {
     return new MockTransactionResponse()
   }
+
+  async royaltyInfo(_tokenId: bigint, _salePrice: bigint): Promise<[string, bigint]> {
+    return [generateMockEthAddress(), BigInt(0)]
+  }
+
+  async setDefaultRoyalty(_receiver: string, _basisPoints: number): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+
+  // Simulate ERC-1155 methods
+  async mintBatch(_to: string, _ids: bigint[], _amounts: bigint[], _data: string): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+
+  async safeBatchTransferFrom(_from: string, _to: string, _ids: bigint[], _amounts: bigint[], _data: string): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+
+  // Simulate Safe methods (a 1-of-1 Safe)
+  async nonce(): Promise<bigint> {
+    return BigInt(0)
+  }
+
+  async getThreshold(): Promise<bigint> {
+    return BigInt(1)
+  }
+
+  async execTransaction(..._args: any[]): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
 }
 
 /**
@@ -302,6 +386,10 @@ export class MockContractFactory {
     return contract
   }
 
+  async getDeployTransaction(..._args: any[]): Promise<{ data: string }> {
+    return { data: this.bytecode }
+  }
+
   static fromSolidity(_source: string, _signer: MockWallet | MockSigner): MockContractFactory {
     return new MockContractFactory(new MockInterface([]), '0x', _signer)
   }
@@ -325,8 +413,13 @@ export class MockInterface {
     return null
   }
 
-  getFunction(_nameOrSignature: string): any {
-    return { name: _nameOrSignature }
+  getFunction(nameOrSignature: string): any {
+    const name = nameOrSignature.split('(')[0]
+    const entry = this.abi.find(item => typeof item === 'string' ? item.startsWith(`function ${name}(`) : item?.name === name)
+    const stateMutability = typeof entry === 'string'
+      ? /\b(view|pure|payable)\b/.exec(entry)?.[1] || 'nonpayable'
+      : entry?.stateMutability || 'nonpayable'
+    return { name, stateMutability, constant: stateMutability === 'view' || stateMutability === 'pure' }
   }
 }
 
@@ -463,6 +556,7 @@ export function hexlify(data: Uint8Array | string): string {
  */
 export const ethers = {
   JsonRpcProvider: MockJsonRpcProvider,
+  FetchRequest: MockFetchRequest,
   BrowserProvider: MockBrowserProvider,
   Wallet: MockWallet,
   Contract: MockContract,
@@ -482,6 +576,7 @@ export const ethers = {
 
 export default {
   JsonRpcProvider: MockJsonRpcProvider,
+  FetchRequest: MockFetchRequest,
   BrowserProvider: MockBrowserProvider,
   Wallet: MockWallet,
   Contract: MockContract,
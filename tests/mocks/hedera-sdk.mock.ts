@@ -68,6 +68,10 @@ export class MockPrivateKey {
   static fromString(key: string): MockPrivateKey {
     return new MockPrivateKey(key)
   }
+
+  static generateED25519(): MockPrivateKey {
+    return new MockPrivateKey(`302e020100300506032b6570042204${Date.now().toString(16).padStart(64, '0')}`)
+  }
 }
 
 /**
@@ -76,9 +80,47 @@ export class MockPrivateKey {
 export class MockPublicKey {
   constructor(public key: string) {}
 
+  static fromBytesED25519(bytes: Uint8Array): MockPublicKey {
+    return new MockPublicKey(Buffer.from(bytes).toString('hex'))
+  }
+
+  static fromBytesECDSA(bytes: Uint8Array): MockPublicKey {
+    return new MockPublicKey(Buffer.from(bytes).toString('hex'))
+  }
+
+  static fromString(key: string): MockPublicKey {
+    return new MockPublicKey(key)
+  }
+
   toString(): string {
     return this.key
   }
+
+  toStringRaw(): string {
+    return this.key
+  }
+}
+
+/**
+ * Mock KeyList class (schedule signatories)
+ */
+export class MockKeyList {
+  public threshold: number | null = null
+
+  constructor(public keys: MockPublicKey[] = []) {}
+
+  static of(...keys: MockPublicKey[]): MockKeyList {
+    return new MockKeyList(keys)
+  }
+
+  setThreshold(threshold: number): this {
+    this.threshold = threshold
+    return this
+  }
+
+  toArray(): MockPublicKey[] {
+    return this.keys
+  }
 }
 
 /**
@@ -111,6 +153,21 @@ export class MockTopicId {
   }
 }
 
+/**
+ * Mock ScheduleId class
+ */
+export class MockScheduleId {
+  constructor(public scheduleId: string) {}
+
+  toString(): string {
+    return this.scheduleId
+  }
+
+  static fromString(id: string): MockScheduleId {
+    return new MockScheduleId(id)
+  }
+}
+
 /**
  * Mock TransactionId class
  */
@@ -150,6 +207,21 @@ export class MockHbar {
   }
 }
 
+/**
+ * Mock Timestamp class
+ */
+export class MockTimestamp {
+  constructor(public date: Date) {}
+
+  toDate(): Date {
+    return this.date
+  }
+
+  static fromDate(date: Date): MockTimestamp {
+    return new MockTimestamp(date)
+  }
+}
+
 /**
  * Mock Status enum
  *
@@ -167,11 +239,15 @@ export const MockStatus = {
  * After a transaction executes, you get a receipt with the results.
  */
 export class MockTransactionReceipt {
+  public accountId: MockAccountId | null = null
+
   constructor(
     public tokenId: MockTokenId | null = null,
     public contractId: MockAccountId | null = null,
     public topicId: MockTopicId | null = null,
-    public status: string = MockStatus.Success
+    public status: string = MockStatus.Success,
+    public serials: number[] = [],
+    public scheduleId: MockScheduleId | null = null
   ) {}
 }
 
@@ -183,17 +259,18 @@ export class MockTransactionReceipt {
 export class MockTransactionResponse {
   public transactionId: MockTransactionId
 
-  constructor(txId?: string) {
+  constructor(txId?: string, private serials: number[] = []) {
     this.transactionId = new MockTransactionId(txId || generateMockTransactionId())
   }
 
   async getReceipt(_client: any): Promise<MockTransactionReceipt> {
-    // Simulate successful token creation
+    // Simulate successful token creation (or NFT mint, with serials)
     return new MockTransactionReceipt(
       new MockTokenId(generateMockTokenId()),
       null,
       null,
-      MockStatus.Success
+      MockStatus.Success,
+      this.serials
     )
   }
 
@@ -232,6 +309,8 @@ export class MockTokenCreateTransaction {
   private _tokenSymbol = ''
   private _decimals = 8
   private _initialSupply = 0
+  public customFees: any[] = []
+  public feeScheduleKey: any = null
 
   setTokenName(name: string): this {
     this._tokenName = name
@@ -265,6 +344,10 @@ export class MockTokenCreateTransaction {
     return this
   }
 
+  setMaxSupply(_maxSupply: number): this {
+    return this
+  }
+
   setAdminKey(_key: any): this {
     return this
   }
@@ -281,10 +364,28 @@ export class MockTokenCreateTransaction {
     return this
   }
 
+  setPauseKey(_key: any): this {
+    return this
+  }
+
+  setKycKey(_key: any): this {
+    return this
+  }
+
   setFreezeDefault(_freeze: boolean): this {
     return this
   }
 
+  setCustomFees(fees: any[]): this {
+    this.customFees = fees
+    return this
+  }
+
+  setFeeScheduleKey(key: any): this {
+    this.feeScheduleKey = key
+    return this
+  }
+
   setMaxTransactionFee(_fee: MockHbar): this {
     return this
   }
@@ -296,7 +397,20 @@ export class MockTokenCreateTransaction {
 }
 
 export class MockTransferTransaction {
-  addTokenTransfer(_tokenId: any, _accountId: any, _amount: number): this {
+  public hbarTransfers = new Map<string, MockHbar>()
+  public tokenTransfers = new Map<string, Map<string, number>>()
+
+  addTokenTransfer(tokenId: any, accountId: any, amount: number): this {
+    const transfers = this.tokenTransfers.get(tokenId.toString()) || new Map<string, number>()
+    this.tokenTransfers.set(tokenId.toString(), transfers.set(accountId.toString(), amount))
+    return this
+  }
+
+  addApprovedTokenTransfer(_tokenId: any, _accountId: any, _amount: number): this {
+    return this
+  }
+
+  setTransactionMemo(_memo: string): this {
     return this
   }
 
@@ -304,7 +418,8 @@ export class MockTransferTransaction {
     return this
   }
 
-  addHbarTransfer(_accountId: any, _amount: MockHbar): this {
+  addHbarTransfer(accountId: any, amount: MockHbar): this {
+    this.hbarTransfers.set(accountId.toString(), amount)
     return this
   }
 
@@ -318,11 +433,46 @@ export class MockTransferTransaction {
 }
 
 export class MockTokenMintTransaction {
+  private _metadataCount = 0
+  public tokenId: MockTokenId | null = null
+  public amount: number | null = null
+
+  setTokenId(tokenId: any): this {
+    this.tokenId = tokenId
+    return this
+  }
+
+  setMetadata(metadata: Buffer[]): this {
+    this._metadataCount = metadata.length
+    return this
+  }
+
+  setAmount(amount: number): this {
+    this.amount = amount
+    return this
+  }
+
+  setMaxTransactionFee(_fee: MockHbar): this {
+    return this
+  }
+
+  async execute(_client: any): Promise<MockTransactionResponse> {
+    // NFT mints get consecutive serial numbers
+    const serials = Array.from({ length: this._metadataCount }, (_, index) => index + 1)
+    return new MockTransactionResponse(undefined, serials)
+  }
+}
+
+/**
+ * Token lifecycle transactions (burn, wipe, pause, freeze, KYC) share
+ * the same shape: a token, optionally an account and an amount.
+ */
+class MockTokenLifecycleTransaction {
   setTokenId(_tokenId: any): this {
     return this
   }
 
-  setMetadata(_metadata: Buffer[]): this {
+  setAccountId(_accountId: any): this {
     return this
   }
 
@@ -339,6 +489,224 @@ export class MockTokenMintTransaction {
   }
 }
 
+export class MockTokenBurnTransaction extends MockTokenLifecycleTransaction {}
+export class MockTokenWipeTransaction extends MockTokenLifecycleTransaction {}
+export class MockTokenPauseTransaction extends MockTokenLifecycleTransaction {}
+export class MockTokenUnpauseTransaction extends MockTokenLifecycleTransaction {}
+export class MockTokenFreezeTransaction extends MockTokenLifecycleTransaction {}
+export class MockTokenUnfreezeTransaction extends MockTokenLifecycleTransaction {}
+export class MockTokenGrantKycTransaction extends MockTokenLifecycleTransaction {}
+export class MockTokenRevokeKycTransaction extends MockTokenLifecycleTransaction {}
+
+/**
+ * Token association transactions: an account and a list of tokens.
+ */
+class MockTokenRelationshipTransaction extends MockTokenLifecycleTransaction {
+  public tokenIds: string[] = []
+
+  setTokenIds(tokenIds: any[]): this {
+    this.tokenIds = tokenIds.map(tokenId => tokenId.toString())
+    return this
+  }
+}
+
+export class MockTokenAssociateTransaction extends MockTokenRelationshipTransaction {}
+export class MockTokenDissociateTransaction extends MockTokenRelationshipTransaction {}
+
+export class MockTokenFeeScheduleUpdateTransaction extends MockTokenLifecycleTransaction {
+  public customFees: any[] = []
+
+  setCustomFees(fees: any[]): this {
+    this.customFees = fees
+    return this
+  }
+}
+
+/**
+ * Mock Custom Fees
+ *
+ * HTS fees are plain value objects; the mocks keep what was set so tests
+ * can check the fee schedule a token was created with.
+ */
+export const MockFeeAssessmentMethod = {
+  Inclusive: 'INCLUSIVE',
+  Exclusive: 'EXCLUSIVE',
+}
+
+class MockCustomFee {
+  public feeCollectorAccountId: string | null = null
+
+  setFeeCollectorAccountId(accountId: any): this {
+    this.feeCollectorAccountId = accountId.toString()
+    return this
+  }
+}
+
+export class MockCustomFixedFee extends MockCustomFee {
+  public amount = 0
+  public hbarAmount: MockHbar | null = null
+  public denominatingTokenId: string | null = null
+
+  setAmount(amount: number): this {
+    this.amount = amount
+    return this
+  }
+
+  setHbarAmount(amount: MockHbar): this {
+    this.hbarAmount = amount
+    return this
+  }
+
+  setDenominatingTokenId(tokenId: any): this {
+    this.denominatingTokenId = tokenId.toString()
+    return this
+  }
+}
+
+export class MockCustomFractionalFee extends MockCustomFee {
+  public numerator = 0
+  public denominator = 1
+  public min: number | null = null
+  public max: number | null = null
+  public assessmentMethod: string | null = null
+
+  setNumerator(numerator: number): this {
+    this.numerator = numerator
+    return this
+  }
+
+  setDenominator(denominator: number): this {
+    this.denominator = denominator
+    return this
+  }
+
+  setMin(min: number): this {
+    this.min = min
+    return this
+  }
+
+  setMax(max: number): this {
+    this.max = max
+    return this
+  }
+
+  setAssessmentMethod(method: string): this {
+    this.assessmentMethod = method
+    return this
+  }
+}
+
+export class MockCustomRoyaltyFee extends MockCustomFee {
+  public numerator = 0
+  public denominator = 1
+  public fallbackFee: MockCustomFixedFee | null = null
+
+  setNumerator(numerator: number): this {
+    this.numerator = numerator
+    return this
+  }
+
+  setDenominator(denominator: number): this {
+    this.denominator = denominator
+    return this
+  }
+
+  setFallbackFee(fee: MockCustomFixedFee): this {
+    this.fallbackFee = fee
+    return this
+  }
+}
+
+export class MockAccountAllowanceApproveTransaction {
+  approveTokenAllowance(_tokenId: any, _ownerAccountId: any, _spenderAccountId: any, _amount: number): this {
+    return this
+  }
+
+  setMaxTransactionFee(_fee: MockHbar): this {
+    return this
+  }
+
+  async execute(_client: any): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+}
+
+export class MockAccountCreateTransaction {
+  public key: any = null
+  public initialBalance: MockHbar | null = null
+  public maxAutomaticTokenAssociations = 0
+  public accountMemo = ''
+
+  setKey(key: any): this {
+    this.key = key
+    return this
+  }
+
+  setInitialBalance(balance: MockHbar): this {
+    this.initialBalance = balance
+    return this
+  }
+
+  setMaxAutomaticTokenAssociations(max: number): this {
+    this.maxAutomaticTokenAssociations = max
+    return this
+  }
+
+  setAccountMemo(memo: string): this {
+    this.accountMemo = memo
+    return this
+  }
+
+  setMaxTransactionFee(_fee: MockHbar): this {
+    return this
+  }
+
+  async execute(client: any): Promise<MockTransactionResponse> {
+    const response = new MockTransactionResponse()
+    const receipt = await response.getReceipt(client)
+    receipt.accountId = new MockAccountId(generateMockAccountId())
+    response.getReceipt = async () => receipt
+    return response
+  }
+}
+
+export class MockAccountUpdateTransaction {
+  public key: any = null
+  public maxAutomaticTokenAssociations = 0
+  public signatures: MockPrivateKey[] = []
+
+  setAccountId(_accountId: any): this {
+    return this
+  }
+
+  setKey(key: any): this {
+    this.key = key
+    return this
+  }
+
+  freezeWith(_client: any): this {
+    return this
+  }
+
+  async sign(key: MockPrivateKey): Promise<this> {
+    this.signatures.push(key)
+    return this
+  }
+
+  setMaxAutomaticTokenAssociations(max: number): this {
+    this.maxAutomaticTokenAssociations = max
+    return this
+  }
+
+  setMaxTransactionFee(_fee: MockHbar): this {
+    return this
+  }
+
+  async execute(_client: any): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+}
+
 export class MockFileCreateTransaction {
   setContents(_contents: string | Buffer): this {
     return this
@@ -395,6 +763,10 @@ export class MockContractExecuteTransaction {
     return this
   }
 
+  setFunctionParameters(_data: Uint8Array): this {
+    return this
+  }
+
   setMaxTransactionFee(_fee: MockHbar): this {
     return this
   }
@@ -404,6 +776,24 @@ export class MockContractExecuteTransaction {
   }
 }
 
+export class MockContractCallQuery {
+  setContractId(_contractId: string): this {
+    return this
+  }
+
+  setGas(_gas: number): this {
+    return this
+  }
+
+  setFunctionParameters(_data: Uint8Array): this {
+    return this
+  }
+
+  async execute(_client: any): Promise<{ bytes: Uint8Array }> {
+    return { bytes: new Uint8Array(32) }
+  }
+}
+
 export class MockTopicCreateTransaction {
   setTopicMemo(_memo: string): this {
     return this
@@ -430,12 +820,132 @@ export class MockTopicCreateTransaction {
   }
 }
 
+export class MockTopicUpdateTransaction {
+  public submitKey: MockPublicKey | null | undefined = undefined
+
+  setTopicId(_topicId: any): this {
+    return this
+  }
+
+  setSubmitKey(key: MockPublicKey): this {
+    this.submitKey = key
+    return this
+  }
+
+  clearSubmitKey(): this {
+    this.submitKey = null
+    return this
+  }
+
+  setTopicMemo(_memo: string): this {
+    return this
+  }
+
+  setMaxTransactionFee(_fee: MockHbar): this {
+    return this
+  }
+
+  async execute(_client: any): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+}
+
 export class MockTopicMessageSubmitTransaction {
+  public maxChunks = 20
+  public signers: MockPrivateKey[] = []
+
   setTopicId(_topicId: any): this {
     return this
   }
 
-  setMessage(_message: string): this {
+  setMessage(_message: string | Uint8Array): this {
+    return this
+  }
+
+  setChunkSize(_chunkSize: number): this {
+    return this
+  }
+
+  setMaxChunks(maxChunks: number): this {
+    this.maxChunks = maxChunks
+    return this
+  }
+
+  setMaxTransactionFee(_fee: MockHbar): this {
+    return this
+  }
+
+  freezeWith(_client: any): this {
+    return this
+  }
+
+  async sign(key: MockPrivateKey): Promise<this> {
+    this.signers.push(key)
+    return this
+  }
+
+  async execute(_client: any): Promise<MockTransactionResponse> {
+    return new MockTransactionResponse()
+  }
+
+  // One response per chunk
+  async executeAll(_client: any): Promise<MockTransactionResponse[]> {
+    return Array.from({ length: this.maxChunks }, () => new MockTransactionResponse())
+  }
+}
+
+/**
+ * Mock Schedule Transactions
+ *
+ * Scheduled transactions wait on the network until enough keys have signed.
+ */
+export class MockScheduleCreateTransaction {
+  public scheduledTransaction: any = null
+  public payerAccountId: MockAccountId | null = null
+  public adminKey: MockPublicKey | null = null
+  public scheduleMemo: string | null = null
+  public expirationTime: MockTimestamp | null = null
+
+  setScheduledTransaction(transaction: any): this {
+    this.scheduledTransaction = transaction
+    return this
+  }
+
+  setPayerAccountId(accountId: MockAccountId): this {
+    this.payerAccountId = accountId
+    return this
+  }
+
+  setAdminKey(key: MockPublicKey): this {
+    this.adminKey = key
+    return this
+  }
+
+  setScheduleMemo(memo: string): this {
+    this.scheduleMemo = memo
+    return this
+  }
+
+  setExpirationTime(expirationTime: MockTimestamp): this {
+    this.expirationTime = expirationTime
+    return this
+  }
+
+  setMaxTransactionFee(_fee: MockHbar): this {
+    return this
+  }
+
+  async execute(_client: any): Promise<MockTransactionResponse> {
+    const response = new MockTransactionResponse()
+    const receipt = new MockTransactionReceipt()
+    receipt.scheduleId = new MockScheduleId('0.0.9001')
+    response.getReceipt = async () => receipt
+    return response
+  }
+}
+
+export class MockScheduleSignTransaction {
+  setScheduleId(_scheduleId: any): this {
     return this
   }
 
@@ -465,6 +975,33 @@ export class MockAccountBalanceQuery {
   }
 }
 
+/**
+ * Returns a pending schedule of a token mint, signed by the operator
+ */
+export class MockScheduleInfoQuery {
+  private _scheduleId: string = '0.0.9001'
+
+  setScheduleId(scheduleId: any): this {
+    this._scheduleId = scheduleId.toString()
+    return this
+  }
+
+  async execute(_client: any): Promise<any> {
+    return {
+      scheduleId: new MockScheduleId(this._scheduleId),
+      creatorAccountId: new MockAccountId('0.0.12345'),
+      payerAccountId: new MockAccountId('0.0.12345'),
+      scheduledTransaction: new MockTokenMintTransaction().setTokenId(new MockTokenId('0.0.777')).setAmount(500),
+      signers: new MockKeyList([new MockPublicKey('operator-public-key')]),
+      scheduleMemo: '',
+      expirationTime: null,
+      executed: null,
+      deleted: null,
+      scheduledTransactionId: new MockTransactionId('0.0.12345@1700000000.000000000?scheduled'),
+    }
+  }
+}
+
 export class MockTransactionReceiptQuery {
   setTransactionId(_txId: any): this {
     return this
@@ -484,6 +1021,8 @@ export class MockTransactionReceiptQuery {
 export class MockClient {
   public operatorAccountId: MockAccountId | null = null
   public operatorPrivateKey: MockPrivateKey | null = null
+  public operatorPublicKey: MockPublicKey | null = null
+  public operatorSigner: ((message: Uint8Array) => Promise<Uint8Array>) | null = null
 
   static forTestnet(): MockClient {
     return new MockClient()
@@ -493,11 +1032,29 @@ export class MockClient {
     return new MockClient()
   }
 
+  static forNetwork(_network: Record<string, string>): MockClient {
+    return new MockClient()
+  }
+
+  setMirrorNetwork(_mirrorNetwork: string | string[]): MockClient {
+    return this
+  }
+
   setOperator(accountId: MockAccountId, privateKey: MockPrivateKey): void {
     this.operatorAccountId = accountId
     this.operatorPrivateKey = privateKey
   }
 
+  setOperatorWith(
+    accountId: MockAccountId,
+    publicKey: MockPublicKey,
+    signer: (message: Uint8Array) => Promise<Uint8Array>
+  ): void {
+    this.operatorAccountId = accountId
+    this.operatorPublicKey = publicKey
+    this.operatorSigner = signer
+  }
+
   close(): void {
     // Mock close - does nothing
   }
@@ -526,6 +1083,7 @@ export default {
   Client: MockClient,
   AccountId: MockAccountId,
   PrivateKey: MockPrivateKey,
+  PublicKey: MockPublicKey,
   TokenId: MockTokenId,
   TopicId: MockTopicId,
   TransactionId: MockTransactionId,
@@ -535,12 +1093,38 @@ export default {
   TokenSupplyType: MockTokenSupplyType,
   TokenCreateTransaction: MockTokenCreateTransaction,
   TransferTransaction: MockTransferTransaction,
+  AccountAllowanceApproveTransaction: MockAccountAllowanceApproveTransaction,
+  AccountCreateTransaction: MockAccountCreateTransaction,
+  AccountUpdateTransaction: MockAccountUpdateTransaction,
   TokenMintTransaction: MockTokenMintTransaction,
+  TokenBurnTransaction: MockTokenBurnTransaction,
+  TokenWipeTransaction: MockTokenWipeTransaction,
+  TokenPauseTransaction: MockTokenPauseTransaction,
+  TokenUnpauseTransaction: MockTokenUnpauseTransaction,
+  TokenFreezeTransaction: MockTokenFreezeTransaction,
+  TokenUnfreezeTransaction: MockTokenUnfreezeTransaction,
+  TokenGrantKycTransaction: MockTokenGrantKycTransaction,
+  TokenRevokeKycTransaction: MockTokenRevokeKycTransaction,
+  TokenAssociateTransaction: MockTokenAssociateTransaction,
+  TokenDissociateTransaction: MockTokenDissociateTransaction,
+  TokenFeeScheduleUpdateTransaction: MockTokenFeeScheduleUpdateTransaction,
+  CustomFixedFee: MockCustomFixedFee,
+  CustomFractionalFee: MockCustomFractionalFee,
+  CustomRoyaltyFee: MockCustomRoyaltyFee,
+  FeeAssessmentMethod: MockFeeAssessmentMethod,
   FileCreateTransaction: MockFileCreateTransaction,
   ContractCreateTransaction: MockContractCreateTransaction,
   ContractExecuteTransaction: MockContractExecuteTransaction,
+  ContractCallQuery: MockContractCallQuery,
   TopicCreateTransaction: MockTopicCreateTransaction,
+  TopicUpdateTransaction: MockTopicUpdateTransaction,
   TopicMessageSubmitTransaction: MockTopicMessageSubmitTransaction,
+  ScheduleId: MockScheduleId,
+  ScheduleCreateTransaction: MockScheduleCreateTransaction,
+  ScheduleSignTransaction: MockScheduleSignTransaction,
+  ScheduleInfoQuery: MockScheduleInfoQuery,
+  KeyList: MockKeyList,
+  Timestamp: MockTimestamp,
   AccountBalanceQuery: MockAccountBalanceQuery,
   TransactionReceiptQuery: MockTransactionReceiptQuery,
 }
@@ -0,0 +1,69 @@
+/**
+ * Mock @metaplex-foundation/mpl-token-metadata for Testing
+ *
+ * Instructions return the accounts and arguments they were built from, so
+ * tests can check the metadata the SolanaAdapter writes.
+ *
+ * HOW TO USE THIS MOCK:
+ * ====================
+ * In TestableSolanaAdapter, override loadMetaplex() to return these mocks.
+ */
+
+import { MockPublicKey } from './solana-web3.mock'
+
+/**
+ * Mock Token Metadata program ID
+ */
+export const PROGRAM_ID = new MockPublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s')
+
+/**
+ * Mock createCreateMetadataAccountV3Instruction
+ */
+export function createCreateMetadataAccountV3Instruction(
+  accounts: { metadata: MockPublicKey; mint: MockPublicKey; mintAuthority: MockPublicKey; payer: MockPublicKey; updateAuthority: MockPublicKey },
+  args: { createMetadataAccountArgsV3: any }
+): any {
+  return {
+    keys: [
+      { pubkey: accounts.metadata, isSigner: false, isWritable: true },
+      { pubkey: accounts.mint, isSigner: false, isWritable: false },
+      { pubkey: accounts.mintAuthority, isSigner: true, isWritable: false },
+      { pubkey: accounts.payer, isSigner: true, isWritable: true },
+      { pubkey: accounts.updateAuthority, isSigner: false, isWritable: false },
+    ],
+    programId: PROGRAM_ID,
+    data: Buffer.alloc(1),
+    args,
+  }
+}
+
+/**
+ * Mock createUpdateMetadataAccountV2Instruction
+ */
+export function createUpdateMetadataAccountV2Instruction(
+  accounts: { metadata: MockPublicKey; updateAuthority: MockPublicKey },
+  args: { updateMetadataAccountArgsV2: any }
+): any {
+  return {
+    keys: [
+      { pubkey: accounts.metadata, isSigner: false, isWritable: true },
+      { pubkey: accounts.updateAuthority, isSigner: true, isWritable: false },
+    ],
+    programId: PROGRAM_ID,
+    data: Buffer.alloc(1),
+    args,
+  }
+}
+
+/**
+ * Mock Metadata account
+ */
+export class Metadata {
+  static async fromAccountAddress(_connection: any, _address: MockPublicKey): Promise<any> {
+    return {
+      data: { name: 'Mock NFT', symbol: 'MOCK', uri: 'https://example.com/nft.json', sellerFeeBasisPoints: 0, creators: null },
+      collection: null,
+      uses: null,
+    }
+  }
+}
@@ -106,6 +106,25 @@ export declare class MockConnection {
         value: Array<MockSignatureStatus | null>;
     }>;
     getTransaction(signature: string, _options?: any): Promise<MockTransactionResponse | null>;
+    getSignaturesForAddress(_address: MockPublicKey, _options?: any): Promise<Array<{
+        signature: string;
+        slot: number;
+        err: null | any;
+        blockTime: number | null;
+    }>>;
+    simulateTransaction(_transaction: MockTransaction, _signers?: MockKeypair[], includeAccounts?: MockPublicKey[]): Promise<{
+        context: {
+            slot: number;
+        };
+        value: {
+            err: null | any;
+            logs: string[];
+            accounts: Array<{
+                lamports: number;
+            }> | null;
+            unitsConsumed: number;
+        };
+    }>;
     getSlot(): Promise<number>;
     getRecentPerformanceSamples(_limit?: number): Promise<Array<{
         numTransactions: number;
@@ -159,6 +159,23 @@ class MockConnection {
     async getTransaction(signature, _options) {
         return new MockTransactionResponse(signature);
     }
+    async getSignaturesForAddress(_address, _options) {
+        return [];
+    }
+    async simulateTransaction(_transaction, _signers, includeAccounts) {
+        return {
+            context: { slot: 123456789 },
+            value: {
+                err: null,
+                logs: [
+                    'Program 11111111111111111111111111111111 invoke [1]',
+                    'Program 11111111111111111111111111111111 success',
+                ],
+                accounts: includeAccounts ? includeAccounts.map(() => ({ lamports: 999995000 })) : null,
+                unitsConsumed: 150,
+            },
+        };
+    }
     async getSlot() {
         return 123456789;
     }
@@ -230,6 +230,32 @@ export class MockConnection {
     return new MockTransactionResponse(signature)
   }
 
+  async getSignaturesForAddress(
+    _address: MockPublicKey,
+    _options?: any
+  ): Promise<Array<{ signature: string; slot: number; err: null | any; blockTime: number | null }>> {
+    return []
+  }
+
+  async simulateTransaction(
+    _transaction: MockTransaction,
+    _signers?: MockKeypair[],
+    includeAccounts?: MockPublicKey[]
+  ): Promise<{ context: { slot: number }; value: { err: null | any; logs: string[]; accounts: Array<{ lamports: number }> | null; unitsConsumed: number } }> {
+    return {
+      context: { slot: 123456789 },
+      value: {
+        err: null,
+        logs: [
+          'Program 11111111111111111111111111111111 invoke [1]',
+          'Program 11111111111111111111111111111111 success',
+        ],
+        accounts: includeAccounts ? includeAccounts.map(() => ({ lamports: 999995000 })) : null,
+        unitsConsumed: 150,
+      },
+    }
+  }
+
   async getSlot(): Promise<number> {
     return 123456789
   }
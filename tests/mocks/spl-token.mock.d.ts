@@ -25,6 +25,15 @@ export declare const MINT_SIZE = 82;
  * Mock AccountLayout size
  */
 export declare const ACCOUNT_SIZE = 165;
+/**
+ * Mock AuthorityType enum (authorities of mints and token accounts)
+ */
+export declare enum AuthorityType {
+    MintTokens = 0,
+    FreezeAccount = 1,
+    AccountOwner = 2,
+    CloseAccount = 3
+}
 /**
  * Get minimum balance for rent-exempt mint
  */
@@ -89,6 +98,14 @@ export declare function createTransferCheckedInstruction(source: MockPublicKey,
  * Create burn instruction
  */
 export declare function createBurnInstruction(account: MockPublicKey, mint: MockPublicKey, owner: MockPublicKey, amount: number | bigint, multiSigners?: MockKeypair[], programId?: MockPublicKey): any;
+/**
+ * Create freeze account instruction
+ */
+export declare function createFreezeAccountInstruction(account: MockPublicKey, mint: MockPublicKey, authority: MockPublicKey, multiSigners?: MockKeypair[], programId?: MockPublicKey): any;
+/**
+ * Create thaw account instruction
+ */
+export declare function createThawAccountInstruction(account: MockPublicKey, mint: MockPublicKey, authority: MockPublicKey, multiSigners?: MockKeypair[], programId?: MockPublicKey): any;
 /**
  * Create close account instruction
  */
@@ -125,6 +142,7 @@ declare const _default: {
     ASSOCIATED_TOKEN_PROGRAM_ID: MockPublicKey;
     MINT_SIZE: number;
     ACCOUNT_SIZE: number;
+    AuthorityType: typeof AuthorityType;
     getMinimumBalanceForRentExemptMint: typeof getMinimumBalanceForRentExemptMint;
     getMinimumBalanceForRentExemptAccount: typeof getMinimumBalanceForRentExemptAccount;
     getAssociatedTokenAddress: typeof getAssociatedTokenAddress;
@@ -137,6 +155,8 @@ declare const _default: {
     createTransferInstruction: typeof createTransferInstruction;
     createTransferCheckedInstruction: typeof createTransferCheckedInstruction;
     createBurnInstruction: typeof createBurnInstruction;
+    createFreezeAccountInstruction: typeof createFreezeAccountInstruction;
+    createThawAccountInstruction: typeof createThawAccountInstruction;
     createCloseAccountInstruction: typeof createCloseAccountInstruction;
     createSetAuthorityInstruction: typeof createSetAuthorityInstruction;
     createApproveInstruction: typeof createApproveInstruction;
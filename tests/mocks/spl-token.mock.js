@@ -10,7 +10,7 @@
  * In TestableSolanaAdapter, override loadSplToken() to return these mocks.
  */
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.ACCOUNT_SIZE = exports.MINT_SIZE = exports.ASSOCIATED_TOKEN_PROGRAM_ID = exports.TOKEN_PROGRAM_ID = void 0;
+exports.AuthorityType = exports.ACCOUNT_SIZE = exports.MINT_SIZE = exports.ASSOCIATED_TOKEN_PROGRAM_ID = exports.TOKEN_PROGRAM_ID = void 0;
 exports.getMinimumBalanceForRentExemptMint = getMinimumBalanceForRentExemptMint;
 exports.getMinimumBalanceForRentExemptAccount = getMinimumBalanceForRentExemptAccount;
 exports.getAssociatedTokenAddress = getAssociatedTokenAddress;
@@ -23,6 +23,8 @@ exports.createMintToInstruction = createMintToInstruction;
 exports.createTransferInstruction = createTransferInstruction;
 exports.createTransferCheckedInstruction = createTransferCheckedInstruction;
 exports.createBurnInstruction = createBurnInstruction;
+exports.createFreezeAccountInstruction = createFreezeAccountInstruction;
+exports.createThawAccountInstruction = createThawAccountInstruction;
 exports.createCloseAccountInstruction = createCloseAccountInstruction;
 exports.createSetAuthorityInstruction = createSetAuthorityInstruction;
 exports.createApproveInstruction = createApproveInstruction;
@@ -49,6 +51,16 @@ exports.MINT_SIZE = 82;
  * Mock AccountLayout size
  */
 exports.ACCOUNT_SIZE = 165;
+/**
+ * Mock AuthorityType enum (authorities of mints and token accounts)
+ */
+var AuthorityType;
+(function (AuthorityType) {
+    AuthorityType[AuthorityType["MintTokens"] = 0] = "MintTokens";
+    AuthorityType[AuthorityType["FreezeAccount"] = 1] = "FreezeAccount";
+    AuthorityType[AuthorityType["AccountOwner"] = 2] = "AccountOwner";
+    AuthorityType[AuthorityType["CloseAccount"] = 3] = "CloseAccount";
+})(AuthorityType || (exports.AuthorityType = AuthorityType = {}));
 /**
  * Get minimum balance for rent-exempt mint
  */
@@ -192,6 +204,34 @@ function createBurnInstruction(account, mint, owner, amount, multiSigners, progr
         data: Buffer.alloc(9), // Burn instruction data
     };
 }
+/**
+ * Create freeze account instruction
+ */
+function createFreezeAccountInstruction(account, mint, authority, multiSigners, programId) {
+    return {
+        keys: [
+            { pubkey: account, isSigner: false, isWritable: true },
+            { pubkey: mint, isSigner: false, isWritable: false },
+            { pubkey: authority, isSigner: true, isWritable: false },
+        ],
+        programId: programId || exports.TOKEN_PROGRAM_ID,
+        data: Buffer.alloc(1), // FreezeAccount instruction data
+    };
+}
+/**
+ * Create thaw account instruction
+ */
+function createThawAccountInstruction(account, mint, authority, multiSigners, programId) {
+    return {
+        keys: [
+            { pubkey: account, isSigner: false, isWritable: true },
+            { pubkey: mint, isSigner: false, isWritable: false },
+            { pubkey: authority, isSigner: true, isWritable: false },
+        ],
+        programId: programId || exports.TOKEN_PROGRAM_ID,
+        data: Buffer.alloc(1), // ThawAccount instruction data
+    };
+}
 /**
  * Create close account instruction
  */
@@ -272,6 +312,7 @@ exports.default = {
     ASSOCIATED_TOKEN_PROGRAM_ID: exports.ASSOCIATED_TOKEN_PROGRAM_ID,
     MINT_SIZE: exports.MINT_SIZE,
     ACCOUNT_SIZE: exports.ACCOUNT_SIZE,
+    AuthorityType,
     getMinimumBalanceForRentExemptMint,
     getMinimumBalanceForRentExemptAccount,
     getAssociatedTokenAddress,
@@ -284,6 +325,8 @@ exports.default = {
     createTransferInstruction,
     createTransferCheckedInstruction,
     createBurnInstruction,
+    createFreezeAccountInstruction,
+    createThawAccountInstruction,
     createCloseAccountInstruction,
     createSetAuthorityInstruction,
     createApproveInstruction,
@@ -38,6 +38,16 @@ export const MINT_SIZE = 82
  */
 export const ACCOUNT_SIZE = 165
 
+/**
+ * Mock AuthorityType enum (authorities of mints and token accounts)
+ */
+export enum AuthorityType {
+  MintTokens = 0,
+  FreezeAccount = 1,
+  AccountOwner = 2,
+  CloseAccount = 3,
+}
+
 /**
  * Get minimum balance for rent-exempt mint
  */
@@ -283,6 +293,48 @@ export function createBurnInstruction(
   }
 }
 
+/**
+ * Create freeze account instruction
+ */
+export function createFreezeAccountInstruction(
+  account: MockPublicKey,
+  mint: MockPublicKey,
+  authority: MockPublicKey,
+  multiSigners?: MockKeypair[],
+  programId?: MockPublicKey
+): any {
+  return {
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    programId: programId || TOKEN_PROGRAM_ID,
+    data: Buffer.alloc(1), // FreezeAccount instruction data
+  }
+}
+
+/**
+ * Create thaw account instruction
+ */
+export function createThawAccountInstruction(
+  account: MockPublicKey,
+  mint: MockPublicKey,
+  authority: MockPublicKey,
+  multiSigners?: MockKeypair[],
+  programId?: MockPublicKey
+): any {
+  return {
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    programId: programId || TOKEN_PROGRAM_ID,
+    data: Buffer.alloc(1), // ThawAccount instruction data
+  }
+}
+
 /**
  * Create close account instruction
  */
@@ -424,6 +476,7 @@ export default {
   ASSOCIATED_TOKEN_PROGRAM_ID,
   MINT_SIZE,
   ACCOUNT_SIZE,
+  AuthorityType,
   getMinimumBalanceForRentExemptMint,
   getMinimumBalanceForRentExemptAccount,
   getAssociatedTokenAddress,
@@ -436,6 +489,8 @@ export default {
   createTransferInstruction,
   createTransferCheckedInstruction,
   createBurnInstruction,
+  createFreezeAccountInstruction,
+  createThawAccountInstruction,
   createCloseAccountInstruction,
   createSetAuthorityInstruction,
   createApproveInstruction,